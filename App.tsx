@@ -1,25 +1,45 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import Home from './components/Home';
 import CharacterSelect from './components/CharacterSelect';
 import OpponentSelect from './components/OpponentSelect';
 import Game from './components/Game';
 import IntroScreen from './components/IntroScreen';
 import Wiki from './components/Wiki';
+import ReplayViewer from './components/ReplayViewer';
+import Settings from './components/Settings';
+import OnlineLobby from './components/OnlineLobby';
+import DirectConnect from './components/DirectConnect';
+import BalanceLab from './components/BalanceLab';
 import CustomGameSetup, { GameConfig } from './components/CustomGameSetup';
-import { CharacterType } from './types';
+import { AIDifficulty, CharacterType } from './types';
 import { Sound } from './sound';
+import { GameSettings, getSettings, subscribeSettings } from './settings';
 
-type ViewState = 'INTRO' | 'HOME' | 'CHAR_SELECT' | 'OPP_SELECT' | 'CUSTOM_SETUP' | 'GAME';
+// 将设置同步到音频总线与文档语言
+const applySettings = (settings: GameSettings) => {
+  Sound.setVolumes({ master: settings.masterVolume, sfx: settings.sfxVolume, ui: settings.uiVolume });
+  document.documentElement.lang = settings.language;
+};
+
+type ViewState = 'INTRO' | 'HOME' | 'CHAR_SELECT' | 'OPP_SELECT' | 'CUSTOM_SETUP' | 'GAME' | 'REPLAY' | 'SETTINGS' | 'ONLINE' | 'DIRECT' | 'BALANCE_LAB';
 
 function App() {
   const [view, setView] = useState<ViewState>('INTRO');
   const [selectedChar, setSelectedChar] = useState<CharacterType>(CharacterType.PYRO);
   const [selectedEnemy, setSelectedEnemy] = useState<CharacterType | 'RANDOM'>('RANDOM');
+  const [enemyDifficulty, setEnemyDifficulty] = useState<AIDifficulty>('NORMAL');
+  // [Training] 训练场：快速开始的对手换成教练球靶子
+  const [training, setTraining] = useState(false);
 
   const [gameConfig, setGameConfig] = useState<GameConfig | null>(null);
 
   const [showWiki, setShowWiki] = useState(false);
 
+  useEffect(() => {
+    applySettings(getSettings());
+    return subscribeSettings(applySettings);
+  }, []);
+
   const handleCustomGame = () => {
     Sound.playUI('CLICK');
     setView('CUSTOM_SETUP');
@@ -27,6 +47,7 @@ function App() {
 
   const handleStartCustomGame = (config: GameConfig) => {
     setGameConfig(config);
+    setTraining(false);
     if (config.players && config.players[0]) {
       setSelectedChar(config.players[0].type);
     }
@@ -44,7 +65,7 @@ function App() {
   };
 
   const handleOpenSettings = () => {
-    console.log("Open Settings");
+    setView('SETTINGS');
   };
 
   const handleCharSelected = (char: CharacterType) => {
@@ -55,6 +76,14 @@ function App() {
   const startGame = (enemy: CharacterType | 'RANDOM') => {
     setGameConfig(null);
     setSelectedEnemy(enemy);
+    setTraining(false);
+    setView('GAME');
+  };
+
+  const startTraining = () => {
+    setGameConfig(null);
+    setSelectedEnemy(CharacterType.COACH);
+    setTraining(true);
     setView('GAME');
   };
 
@@ -85,6 +114,9 @@ function App() {
           onOpenSettings={handleOpenSettings}
           onCustomGame={handleCustomGame}
           onOpenWiki={toggleWiki}
+          onOpenReplay={() => setView('REPLAY')}
+          onOnlineGame={() => setView('ONLINE')}
+          onOpenBalanceLab={() => setView('BALANCE_LAB')}
         />
       )}
 
@@ -98,7 +130,11 @@ function App() {
 
       {view === 'OPP_SELECT' && (
         <OpponentSelect
+          difficulty={enemyDifficulty}
+          onDifficultyChange={setEnemyDifficulty}
           onSelectOpponent={startGame}
+          onTraining={startTraining}
+          onDirectConnect={() => setView('DIRECT')}
           onBack={backToCharSelect}
         />
       )}
@@ -114,10 +150,32 @@ function App() {
         <Game
           playerType={selectedChar}
           enemyType={selectedEnemy}
+          enemyDifficulty={enemyDifficulty}
           customConfig={gameConfig}
+          training={training}
           onExit={backToHome}
         />
       )}
+
+      {view === 'REPLAY' && (
+        <ReplayViewer onBack={backToHome} />
+      )}
+
+      {view === 'ONLINE' && (
+        <OnlineLobby onBack={backToHome} />
+      )}
+
+      {view === 'DIRECT' && (
+        <DirectConnect playerType={selectedChar} onBack={() => setView('OPP_SELECT')} />
+      )}
+
+      {view === 'BALANCE_LAB' && (
+        <BalanceLab onBack={backToHome} />
+      )}
+
+      {view === 'SETTINGS' && (
+        <Settings onBack={backToHome} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,103 @@
+/**
+ * 平衡性模拟命令行 (Node)
+ *
+ * 用法: npm run balance -- [选项]
+ *   --mode FFA|TEAM_2V2|TEAM_3V3   对局模式，FFA 即 1v1 (默认 FFA)
+ *   --characters PYRO,TANK,...     参与的角色 (默认全部)
+ *   --matches 100                  每个角色组合的局数 (默认 100)
+ *   --max-seconds 180              单局时长上限，超时按平局计
+ *   --seed 1                       基础种子，相同参数输出相同结果
+ *   --mutators NO_OBSTACLES,...    规则变体 (默认无)
+ *   --overrides stats.json         CHAR_STATS 覆盖，格式 { "PYRO": { "hp": 1100 } }
+ *   --format csv|json              输出格式 (默认 csv)
+ *   --out report.csv               写入文件 (默认输出到标准输出)
+ *
+ * 进度输出到标准错误，便于重定向结果。
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import type { CharacterType } from '../types';
+import {
+    applyStatOverrides, BALANCE_CHARACTERS, BALANCE_MODES, BALANCE_MUTATORS, countOverrides, DEFAULT_MAX_SECONDS, formatBalanceCSV, runBalance
+} from '../balance';
+import type { BalanceMode, BalanceMutator, StatOverrides } from '../balance';
+
+const fail = (message: string): never => {
+    console.error(`[balance] ${message}`);
+    process.exit(1);
+};
+
+const toPositiveInt = (value: string, name: string) => {
+    const n = Number(value);
+    if (!Number.isInteger(n) || n <= 0) fail(`--${name} must be a positive integer, got "${value}"`);
+    return n;
+};
+
+const { values } = parseArgs({
+    options: {
+        mode: { type: 'string', default: 'FFA' },
+        characters: { type: 'string', default: BALANCE_CHARACTERS.join(',') },
+        matches: { type: 'string', default: '100' },
+        'max-seconds': { type: 'string', default: String(DEFAULT_MAX_SECONDS) },
+        seed: { type: 'string', default: '1' },
+        mutators: { type: 'string', default: '' },
+        overrides: { type: 'string' },
+        format: { type: 'string', default: 'csv' },
+        out: { type: 'string' }
+    }
+});
+
+const mode = values.mode as BalanceMode;
+if (!BALANCE_MODES.includes(mode)) fail(`Unknown mode "${values.mode}", expected one of ${BALANCE_MODES.join(', ')}`);
+
+const characters = values.characters!.split(',').map(s => s.trim().toUpperCase()).filter(Boolean) as CharacterType[];
+characters.forEach(type => {
+    if (!BALANCE_CHARACTERS.includes(type)) fail(`Unknown character "${type}", expected any of ${BALANCE_CHARACTERS.join(', ')}`);
+});
+if (characters.length === 0) fail('--characters is empty');
+
+const mutators = values.mutators!.split(',').map(s => s.trim().toUpperCase()).filter(Boolean) as BalanceMutator[];
+mutators.forEach(mutator => {
+    if (!BALANCE_MUTATORS.includes(mutator)) fail(`Unknown mutator "${mutator}", expected any of ${BALANCE_MUTATORS.join(', ')}`);
+});
+
+if (values.overrides) {
+    let overrides: StatOverrides = {};
+    try {
+        overrides = JSON.parse(readFileSync(values.overrides, 'utf8'));
+    } catch (e) {
+        fail(`Cannot read overrides from ${values.overrides}: ${(e as Error).message}`);
+    }
+    // 本进程独占 CHAR_STATS，可以直接覆盖
+    applyStatOverrides(overrides);
+    console.error(`[balance] applied ${countOverrides(overrides)} stat overrides`);
+}
+
+if (values.format !== 'csv' && values.format !== 'json') fail(`Unknown format "${values.format}", expected csv or json`);
+
+const options = {
+    mode,
+    characters: [...new Set(characters)],
+    matchesPerMatchup: toPositiveInt(values.matches!, 'matches'),
+    seed: Number(values.seed) >>> 0,
+    maxSeconds: toPositiveInt(values['max-seconds']!, 'max-seconds'),
+    mutators
+};
+
+const startedAt = performance.now();
+let lastPercent = -1;
+const report = runBalance(options, (done, total) => {
+    const percent = Math.floor((done / total) * 100);
+    if (percent === lastPercent) return;
+    lastPercent = percent;
+    process.stderr.write(`\r[balance] ${done}/${total} matches (${percent}%)`);
+});
+process.stderr.write(`\n[balance] finished in ${((performance.now() - startedAt) / 1000).toFixed(1)}s\n`);
+
+const output = values.format === 'json' ? JSON.stringify(report, null, 2) + '\n' : formatBalanceCSV(report);
+if (values.out) {
+    writeFileSync(values.out, output);
+    console.error(`[balance] report written to ${values.out}`);
+} else {
+    process.stdout.write(output);
+}
@@ -0,0 +1,10 @@
+export {
+    BALANCE_CHARACTERS, BALANCE_MODES, BALANCE_MUTATORS, TEAM_SIZES, DEFAULT_MAX_SECONDS, buildMatchConfig, createDamageRow, getMatchOutcome, runMatch
+} from './simulate';
+export type { BalanceMode, BalanceMutator, DamageTable, MatchResult, MatchSetup, SkillDamageTable } from './simulate';
+export { createBalanceJobs, summarizeBalance, runBalance, formatBalanceCSV } from './report';
+export type { BalanceOptions, BalanceReport, MatchupSummary } from './report';
+export { applyStatOverrides, countOverrides, getTunableStats } from './overrides';
+export type { StatOverrides } from './overrides';
+export { BalanceCancelledError, getDefaultWorkerCount, runJobsInWorkers } from './pool';
+export type { BalanceRun, BalanceWorkerRequest, BalanceWorkerResponse } from './pool';
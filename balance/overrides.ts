@@ -0,0 +1,33 @@
+/**
+ * CHAR_STATS 数值覆盖
+ *
+ * 引擎在各处直接读取 CHAR_STATS，因此覆盖通过原地修改实现。
+ * 只能在独立的运行环境中调用 (平衡实验室的 Web Worker、命令行进程)：
+ * 它们各自持有一份模块实例，修改不会影响正在运行的游戏。
+ */
+import { CHAR_STATS } from '../constants';
+import type { CharacterType } from '../types';
+
+// 角色 -> 字段 -> 新数值
+export type StatOverrides = Partial<Record<CharacterType, Record<string, number>>>;
+
+type StatsRecord = Record<string, unknown>;
+
+// 可调整的字段：CHAR_STATS 中该角色的全部数值字段
+export const getTunableStats = (type: CharacterType): [string, number][] =>
+    Object.entries(CHAR_STATS[type] as StatsRecord)
+        .filter((entry): entry is [string, number] => typeof entry[1] === 'number');
+
+// 只接受已有的数值字段与有限数值，其余忽略
+export const applyStatOverrides = (overrides: StatOverrides) => {
+    (Object.keys(overrides) as CharacterType[]).forEach(type => {
+        const stats = CHAR_STATS[type] as StatsRecord | undefined;
+        if (!stats) return;
+        Object.entries(overrides[type] || {}).forEach(([key, value]) => {
+            if (typeof stats[key] === 'number' && Number.isFinite(value)) stats[key] = value;
+        });
+    });
+};
+
+export const countOverrides = (overrides: StatOverrides) =>
+    Object.values(overrides).reduce((sum, fields) => sum + Object.keys(fields || {}).length, 0);
@@ -0,0 +1,88 @@
+/**
+ * 平衡实验室的 Web Worker 池 (浏览器)
+ *
+ * 对局按下标轮流分给各个 Worker (不同组合的耗时差异较大，交错分配更均匀)，
+ * 每局结束即回传结果。每次运行都创建新的 Worker，数值覆盖不会残留到下一次。
+ */
+import type { MatchResult, MatchSetup } from './simulate';
+import type { StatOverrides } from './overrides';
+
+export interface BalanceWorkerRequest {
+    jobs: { index: number, setup: MatchSetup }[];
+    overrides: StatOverrides;
+}
+
+export type BalanceWorkerResponse =
+    | { type: 'result', index: number, result: MatchResult }
+    | { type: 'done' };
+
+export interface BalanceRun {
+    // 结果与 jobs 按下标一一对应
+    promise: Promise<MatchResult[]>;
+    cancel: () => void;
+}
+
+export class BalanceCancelledError extends Error {
+    constructor() {
+        super('Balance run cancelled');
+        this.name = 'BalanceCancelledError';
+    }
+}
+
+// 留一个核心给界面线程
+export const getDefaultWorkerCount = () => Math.max(1, Math.min(8, (navigator.hardwareConcurrency || 2) - 1));
+
+export const runJobsInWorkers = (
+    jobs: MatchSetup[],
+    overrides: StatOverrides,
+    onProgress?: (done: number, total: number) => void,
+    workerCount = getDefaultWorkerCount()
+): BalanceRun => {
+    const workers: Worker[] = [];
+    let fail: (error: Error) => void = () => { };
+
+    const terminateAll = () => workers.forEach(worker => worker.terminate());
+
+    const promise = new Promise<MatchResult[]>((resolve, reject) => {
+        fail = (error) => {
+            terminateAll();
+            reject(error);
+        };
+        if (jobs.length === 0) {
+            resolve([]);
+            return;
+        }
+
+        const results: MatchResult[] = new Array(jobs.length);
+        const count = Math.min(workerCount, jobs.length);
+        let completed = 0;
+        let finishedWorkers = 0;
+
+        for (let w = 0; w < count; w++) {
+            const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+            workers.push(worker);
+            worker.onmessage = (e: MessageEvent<BalanceWorkerResponse>) => {
+                const message = e.data;
+                if (message.type === 'result') {
+                    results[message.index] = message.result;
+                    onProgress?.(++completed, jobs.length);
+                } else {
+                    worker.terminate();
+                    if (++finishedWorkers === count) resolve(results);
+                }
+            };
+            worker.onerror = (e) => fail(new Error(e.message || 'Balance worker failed'));
+
+            const request: BalanceWorkerRequest = {
+                jobs: jobs.map((setup, index) => ({ index, setup })).filter(job => job.index % count === w),
+                overrides
+            };
+            worker.postMessage(request);
+        }
+    });
+
+    return {
+        promise,
+        cancel: () => fail(new BalanceCancelledError())
+    };
+};
@@ -0,0 +1,195 @@
+/**
+ * 平衡性批量模拟与汇总
+ *
+ * 每个角色组合 (含镜像) 各跑 matchesPerMatchup 局，双方交替出生位置以抵消地图偏差。
+ * 种子由基础种子与对局序号决定，同样的参数总能复现同样的报告。
+ */
+import { DamageType } from '../types';
+import type { CharacterType } from '../types';
+import { SIM_CONFIG } from '../constants';
+import { createDamageRow, DEFAULT_MAX_SECONDS, runMatch } from './simulate';
+import type { BalanceMode, BalanceMutator, DamageTable, MatchResult, MatchSetup, SkillDamageTable } from './simulate';
+
+export interface BalanceOptions {
+    mode: BalanceMode;
+    characters: CharacterType[];
+    matchesPerMatchup: number;
+    seed: number;
+    maxSeconds?: number;
+    mutators?: BalanceMutator[];
+}
+
+export interface MatchupSummary {
+    a: CharacterType;
+    b: CharacterType;
+    matches: number;
+    // 镜像对局中 winsA/winsB 分别是队伍 0/1 的胜场，可用来观察出生位置的偏差
+    winsA: number;
+    winsB: number;
+    draws: number;
+    timeouts: number;
+    avgSeconds: number;
+    // 分出胜负的对局时长 (秒)，即击杀耗时 (TTK) 分布
+    durations: number[];
+}
+
+export interface BalanceReport {
+    mode: BalanceMode;
+    seed: number;
+    maxSeconds: number;
+    mutators: BalanceMutator[];
+    matchesPerMatchup: number;
+    totalMatches: number;
+    characters: CharacterType[];
+    matchups: MatchupSummary[];
+    // winRates[行][列]：行角色对列角色的胜率 (平局不计胜)；镜像为 null
+    winRates: Partial<Record<CharacterType, Partial<Record<CharacterType, number | null>>>>;
+    // 各角色出场的对局数 (用于折算场均伤害)
+    appearances: Partial<Record<CharacterType, number>>;
+    damage: DamageTable;
+    skillDamage: SkillDamageTable;
+}
+
+// 相邻对局的种子间隔 (黄金比例常数，避免种子聚集)
+const SEED_STEP = 0x9e3779b1;
+
+export const createBalanceJobs = ({ mode, characters, matchesPerMatchup, seed, maxSeconds, mutators }: BalanceOptions): MatchSetup[] => {
+    const jobs: MatchSetup[] = [];
+    characters.forEach((a, i) => {
+        characters.slice(i).forEach(b => {
+            for (let k = 0; k < matchesPerMatchup; k++) {
+                jobs.push({
+                    mode,
+                    teams: k % 2 === 0 ? [a, b] : [b, a],
+                    seed: (seed + jobs.length * SEED_STEP) >>> 0,
+                    maxSeconds,
+                    mutators
+                });
+            }
+        });
+    });
+    return jobs;
+};
+
+// results 与 jobs 按下标一一对应
+export const summarizeBalance = (options: BalanceOptions, jobs: MatchSetup[], results: MatchResult[]): BalanceReport => {
+    const { mode, characters, matchesPerMatchup, seed, maxSeconds = DEFAULT_MAX_SECONDS, mutators = [] } = options;
+    const matchups = new Map<string, MatchupSummary & { totalTicks: number }>();
+    const appearances: BalanceReport['appearances'] = {};
+    const damage: DamageTable = {};
+    const skillDamage: SkillDamageTable = {};
+
+    jobs.forEach((job, i) => {
+        const result = results[i];
+        const [first, second] = job.teams;
+        // 组合的 a 始终是角色列表中靠前的一方
+        const flipped = characters.indexOf(first) > characters.indexOf(second);
+        const [a, b] = flipped ? [second, first] : [first, second];
+        const key = `${a}:${b}`;
+        const entry = matchups.get(key) || { a, b, matches: 0, winsA: 0, winsB: 0, draws: 0, timeouts: 0, avgSeconds: 0, durations: [], totalTicks: 0 };
+        matchups.set(key, entry);
+
+        entry.matches++;
+        entry.totalTicks += result.ticks;
+        if (result.timedOut) entry.timeouts++;
+        if (result.winnerTeamId !== null) entry.durations.push(result.ticks * SIM_CONFIG.FIXED_DT);
+        if (result.winnerTeamId === null) entry.draws++;
+        else if ((result.winnerTeamId === 0) !== flipped) entry.winsA++;
+        else entry.winsB++;
+
+        new Set(job.teams).forEach(type => { appearances[type] = (appearances[type] || 0) + 1; });
+        (Object.keys(result.damage) as CharacterType[]).forEach(type => {
+            const row = damage[type] || (damage[type] = createDamageRow());
+            Object.values(DamageType).forEach(dt => { row[dt] += result.damage[type]![dt]; });
+        });
+        (Object.keys(result.skillDamage) as CharacterType[]).forEach(type => {
+            const row = skillDamage[type] || (skillDamage[type] = {});
+            Object.entries(result.skillDamage[type]!).forEach(([skill, amount]) => {
+                const key = skill as keyof typeof row;
+                row[key] = (row[key] || 0) + (amount || 0);
+            });
+        });
+    });
+
+    const winRates: BalanceReport['winRates'] = {};
+    characters.forEach(type => { winRates[type] = {}; });
+    const summaries = [...matchups.values()].map(({ totalTicks, ...entry }) => {
+        entry.avgSeconds = entry.matches > 0 ? (totalTicks / entry.matches) * SIM_CONFIG.FIXED_DT : 0;
+        const mirror = entry.a === entry.b;
+        winRates[entry.a]![entry.b] = mirror ? null : entry.winsA / entry.matches;
+        winRates[entry.b]![entry.a] = mirror ? null : entry.winsB / entry.matches;
+        return entry;
+    });
+
+    return {
+        mode,
+        seed,
+        maxSeconds,
+        mutators,
+        matchesPerMatchup,
+        totalMatches: jobs.length,
+        characters,
+        matchups: summaries,
+        winRates,
+        appearances,
+        damage,
+        skillDamage
+    };
+};
+
+// 逐局顺序执行；onProgress 在每局结束后调用
+export const runBalance = (options: BalanceOptions, onProgress?: (done: number, total: number) => void): BalanceReport => {
+    const jobs = createBalanceJobs(options);
+    const results = jobs.map((job, i) => {
+        const result = runMatch(job);
+        onProgress?.(i + 1, jobs.length);
+        return result;
+    });
+    return summarizeBalance(options, jobs, results);
+};
+
+const formatNumber = (value: number | null | undefined, digits: number) =>
+    value === null || value === undefined ? '' : value.toFixed(digits);
+
+// 多张表写在同一个 CSV 中，以空行分隔，每张表前有一行 "# 表名"
+export const formatBalanceCSV = (report: BalanceReport): string => {
+    const { characters } = report;
+    const lines: string[] = [];
+
+    lines.push('# win_rate (row vs column)');
+    lines.push(['character', ...characters].join(','));
+    characters.forEach(row => {
+        lines.push([row, ...characters.map(col => formatNumber(report.winRates[row]?.[col], 3))].join(','));
+    });
+
+    lines.push('', '# matchups');
+    lines.push('a,b,matches,wins_a,wins_b,draws,timeouts,avg_seconds');
+    report.matchups.forEach(m => {
+        lines.push([m.a, m.b, m.matches, m.winsA, m.winsB, m.draws, m.timeouts, m.avgSeconds.toFixed(1)].join(','));
+    });
+
+    const damageTypes = Object.values(DamageType);
+    lines.push('', '# damage_per_match (by source)');
+    lines.push(['source', 'matches', ...damageTypes, 'total'].join(','));
+    (Object.keys(report.damage) as CharacterType[]).forEach(source => {
+        const row = report.damage[source]!;
+        const matches = report.appearances[source] || report.totalMatches;
+        const total = damageTypes.reduce((sum, dt) => sum + row[dt], 0);
+        lines.push([source, matches, ...damageTypes.map(dt => (row[dt] / matches).toFixed(1)), (total / matches).toFixed(1)].join(','));
+    });
+
+    lines.push('', '# skill_damage_share (by source)');
+    lines.push('source,skill,share,per_match');
+    (Object.keys(report.skillDamage) as CharacterType[]).forEach(source => {
+        const row = report.skillDamage[source]!;
+        const matches = report.appearances[source] || report.totalMatches;
+        const total = Object.values(row).reduce((sum, v) => sum + (v || 0), 0);
+        Object.entries(row)
+            .sort((x, y) => (y[1] || 0) - (x[1] || 0))
+            .forEach(([skill, amount]) => {
+                lines.push([source, skill, formatNumber(total > 0 ? (amount || 0) / total : 0, 3), ((amount || 0) / matches).toFixed(1)].join(','));
+            });
+    });
+
+    return lines.join('\n') + '\n';
+};
@@ -0,0 +1,109 @@
+/**
+ * Balance —— 无头 AI 对战模拟
+ *
+ * 所有席位都由 handleAI 驱动 (isBot)，引擎不接收任何输入。
+ * 一方全灭即判定胜负 (不等待结算延时)；超过时长上限按平局计。
+ * 只依赖引擎本身，Node 命令行与浏览器 Worker 都可以直接使用。
+ */
+import { CharacterType, DamageType } from '../types';
+import type { GameConfig, GameState } from '../types';
+import { SIM_CONFIG } from '../constants';
+import { createEngine, SILENT_AUDIO } from '../engine';
+import { getPlayableTypes } from '../characters';
+import type { DamageSkill, Engine } from '../engine';
+
+export type BalanceMode = GameConfig['mode'];
+
+// 可参与统计的角色 (教练是训练假人，不参与)
+export const BALANCE_CHARACTERS: CharacterType[] = getPlayableTypes();
+
+export const BALANCE_MODES: BalanceMode[] = ['FFA', 'TEAM_2V2', 'TEAM_3V3'];
+
+// 每队人数：FFA 在这里即 1v1
+export const TEAM_SIZES: Record<BalanceMode, number> = { FFA: 1, TEAM_2V2: 2, TEAM_3V3: 3 };
+
+export const DEFAULT_MAX_SECONDS = 180;
+
+// 对局规则变体，在开局时作用于初始状态
+export type BalanceMutator = 'NO_OBSTACLES' | 'HALF_HP' | 'DOUBLE_HP';
+
+export const BALANCE_MUTATORS: BalanceMutator[] = ['NO_OBSTACLES', 'HALF_HP', 'DOUBLE_HP'];
+
+const MUTATORS: Record<BalanceMutator, (engine: Engine) => void> = {
+    NO_OBSTACLES: engine => { engine.getState().obstacles = []; },
+    HALF_HP: engine => engine.getState().players.forEach(p => { p.hp *= 0.5; p.maxHp *= 0.5; }),
+    DOUBLE_HP: engine => engine.getState().players.forEach(p => { p.hp *= 2; p.maxHp *= 2; })
+};
+
+// 按造成伤害的角色类型 (含环境) 与伤害类型累计
+export type DamageTable = Partial<Record<CharacterType, Record<DamageType, number>>>;
+// 按造成伤害的角色类型与技能累计 (未标注技能的记为 OTHER)
+export type SkillDamageTable = Partial<Record<CharacterType, Partial<Record<DamageSkill | 'OTHER', number>>>>;
+
+export interface MatchSetup {
+    mode: BalanceMode;
+    // 队伍 0 与队伍 1 的角色 (同队全部为同一角色)
+    teams: [CharacterType, CharacterType];
+    seed: number;
+    maxSeconds?: number;
+    mutators?: BalanceMutator[];
+}
+
+export interface MatchResult {
+    // 获胜队伍；平局或超时为 null
+    winnerTeamId: number | null;
+    ticks: number;
+    timedOut: boolean;
+    damage: DamageTable;
+    skillDamage: SkillDamageTable;
+}
+
+export const createDamageRow = (): Record<DamageType, number> =>
+    Object.fromEntries(Object.values(DamageType).map(type => [type, 0])) as Record<DamageType, number>;
+
+export const buildMatchConfig = (mode: BalanceMode, teams: [CharacterType, CharacterType]): GameConfig => {
+    const players: GameConfig['players'] = [];
+    teams.forEach((type, teamId) => {
+        for (let i = 0; i < TEAM_SIZES[mode]; i++) {
+            // 席位 0 仍作为引擎的"本地视角" (只影响结算计时)，同样由 AI 控制
+            players.push({ type, teamId, isBot: true, isPlayer: players.length === 0 });
+        }
+    });
+    return { mode, players };
+};
+
+// 返回全灭一方之外的存活队伍 (同归于尽为 null)；未分出胜负时返回 undefined
+export const getMatchOutcome = (state: GameState): number | null | undefined => {
+    const aliveTeams = new Set(state.players.filter(p => !p.isDead).map(p => p.teamId));
+    if (aliveTeams.size > 1) return undefined;
+    return aliveTeams.size === 1 ? [...aliveTeams][0] : null;
+};
+
+export const runMatch = ({ mode, teams, seed, maxSeconds = DEFAULT_MAX_SECONDS, mutators = [] }: MatchSetup): MatchResult => {
+    const damage: DamageTable = {};
+    const skillDamage: SkillDamageTable = {};
+    const engine = createEngine({
+        playerType: teams[0],
+        customConfig: buildMatchConfig(mode, teams),
+        seed,
+        audio: SILENT_AUDIO,
+        onDamage: ({ amount, sourceType = CharacterType.ENVIRONMENT, damageType, skill }) => {
+            const row = damage[sourceType] || (damage[sourceType] = createDamageRow());
+            row[damageType] += amount;
+            const skills = skillDamage[sourceType] || (skillDamage[sourceType] = {});
+            const key = skill || 'OTHER';
+            skills[key] = (skills[key] || 0) + amount;
+        }
+    });
+    mutators.forEach(mutator => MUTATORS[mutator](engine));
+
+    const maxTicks = Math.round(maxSeconds / SIM_CONFIG.FIXED_DT);
+    while (engine.getState().tick < maxTicks) {
+        engine.step({});
+        const outcome = getMatchOutcome(engine.getState());
+        if (outcome !== undefined) {
+            return { winnerTeamId: outcome, ticks: engine.getState().tick, timedOut: false, damage, skillDamage };
+        }
+    }
+    return { winnerTeamId: null, ticks: maxTicks, timedOut: true, damage, skillDamage };
+};
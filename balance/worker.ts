@@ -0,0 +1,23 @@
+/**
+ * 平衡实验室 Worker：依次执行分配到的对局并逐局回传结果
+ *
+ * Worker 拥有独立的模块实例，这里覆盖 CHAR_STATS 不会影响界面线程中的游戏。
+ */
+import { runMatch } from './simulate';
+import { applyStatOverrides } from './overrides';
+import type { BalanceWorkerRequest, BalanceWorkerResponse } from './pool';
+
+// 项目的 lib 只包含 DOM，这里只声明用到的 Worker 全局接口
+const scope = self as unknown as {
+    onmessage: ((e: MessageEvent<BalanceWorkerRequest>) => void) | null;
+    postMessage: (message: BalanceWorkerResponse) => void;
+};
+
+scope.onmessage = (e) => {
+    const { jobs, overrides } = e.data;
+    applyStatOverrides(overrides);
+    jobs.forEach(({ index, setup }) => {
+        scope.postMessage({ type: 'result', index, result: runMatch(setup) });
+    });
+    scope.postMessage({ type: 'done' });
+};
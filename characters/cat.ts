@@ -0,0 +1,133 @@
+import { CharacterType } from '../types';
+import { CHAR_STATS } from '../constants';
+import { CAT_AVATAR, CAT_SKILL } from '../images';
+import { catStrategy } from '../engine/ai/cat';
+import { catAbilities } from '../engine/abilities/cat';
+import { catRenderer } from '../render/cat';
+import { flag, ratio } from './features';
+import { cooldownIndicator } from './hud';
+import type { CharacterDefinition } from './types';
+
+// 猫猫球：九条命，抓击与蓄力飞扑，哈气击退，铲屎铲砸击
+export const catCharacter: CharacterDefinition = {
+    type: CharacterType.CAT,
+    stats: CHAR_STATS[CharacterType.CAT],
+    playable: true,
+    randomOpponent: true,
+
+    hazardAffinity: {
+        WATER: -0.3,
+        MAGMA: 1.5,
+    },
+    chargeStates: {
+        CAT_CHARGE: {
+            character: CharacterType.CAT,
+            label: '飞扑蓄力',
+            tags: ['skill', 'left_click', 'charge'],
+            rules: {
+                canBeInterrupted: true,
+                movementMultiplier: 0.2,
+                preventsBasicAttack: true,
+                locksAim: false,
+                isAirborne: false,
+            },
+            cooldownProperty: 'pounceCooldown',
+            maxCooldown: CHAR_STATS[CharacterType.CAT].pounceCooldown / 1000,
+            resetProperties: { catIsCharging: false },
+        },
+        CAT_POUNCE: {
+            character: CharacterType.CAT,
+            label: '飞扑中',
+            tags: ['skill', 'pounce', 'airborne'],
+            rules: {
+                canBeInterrupted: true,
+                movementMultiplier: 1,
+                preventsBasicAttack: true,
+                locksAim: false,
+                isAirborne: true,
+            },
+            resetProperties: { isPouncing: false },
+        },
+    },
+    getActiveCharge: p => {
+        if (p.isPouncing) return 'CAT_POUNCE';
+        if (p.catIsCharging) return 'CAT_CHARGE';
+        return null;
+    },
+    getResourceFeatures: p => [ratio(p.lives, p.maxLives), ratio(p.pounceCooldown, 1), flag(p.isPouncing)],
+
+    abilities: catAbilities,
+    getTauntAttackRange: () => CHAR_STATS.CAT.scratchRange + 20,
+    ai: catStrategy,
+    images: { avatar: CAT_AVATAR, skill: CAT_SKILL },
+    card: {
+        icon: '🐱',
+        tagline: 'charSelect.CAT.tagline',
+        mechanics: 'charSelect.CAT.mechanics',
+        speed: { label: 'charSelect.CAT.speed', className: 'text-green-400' },
+        defense: { label: 'charSelect.CAT.defense', className: 'text-red-500' },
+        attack: 'charSelect.CAT.attack',
+        borderShade: 400,
+        titleShade: 300,
+    },
+    render: catRenderer,
+    hud: {
+        skillName: 'game.skill.CAT',
+        skillGlyph: '🐱',
+        getDefeatText: () => 'defeat.CAT',
+        showCooldownSeconds: true,
+        showLives: true,
+        getResources: p => {
+            const theme = p.uiThemeColor;
+            const pip = `w-3 h-3 rounded-full border border-${theme}-900/50`;
+            return [{
+                kind: 'pips',
+                label: 'game.nineLives',
+                text: `${p.lives || 0} / ${p.maxLives || 0}`,
+                textClass: `text-${theme}-400`,
+                count: p.maxLives || 0,
+                filled: p.lives || 0,
+                rowClass: 'gap-1 mb-2',
+                filledClass: `${pip} bg-${theme}-400 shadow-[0_0_5px_currentColor] text-${theme}-400`,
+                emptyClass: `${pip} bg-slate-800`,
+            }];
+        },
+        getIndicator: p => cooldownIndicator('game.cat.hiss', p.secondarySkillCooldown, p.secondarySkillMaxCooldown, p.uiThemeColor),
+    },
+    wiki: {
+        id: 'ball_cat',
+        title: 'wiki.ball_cat.title',
+        description: 'wiki.ball_cat.desc',
+        type: 'BALL',
+        ballType: CharacterType.CAT,
+        stats: {
+            hp: CHAR_STATS.CAT.hp,
+            speed: CHAR_STATS.CAT.speed * 10,
+            mass: CHAR_STATS.CAT.mass,
+        },
+        skills: [
+            {
+                key: 'LMB',
+                name: 'wiki.ball_cat.lmb.name',
+                description: 'wiki.ball_cat.lmb.desc'
+            },
+            {
+                key: 'RMB',
+                name: 'wiki.ball_cat.rmb.name',
+                description: 'wiki.ball_cat.rmb.desc',
+                cooldown: CHAR_STATS.CAT.hissCooldown / 1000
+            },
+            {
+                key: 'SPACE',
+                name: 'wiki.ball_cat.space.name',
+                description: 'wiki.ball_cat.space.desc'
+            },
+            {
+                key: 'PASSIVE',
+                name: 'wiki.ball_cat.passive.name',
+                description: 'wiki.ball_cat.passive.desc',
+                params: { lives: CHAR_STATS.CAT.maxLives }
+            }
+        ]
+    },
+};
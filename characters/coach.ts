@@ -0,0 +1,21 @@
+import { CharacterType } from '../types';
+import { CHAR_STATS } from '../constants';
+import { COACH_AVATAR, COACH_SKILL } from '../images';
+import { coachStrategy } from '../engine/ai/coach';
+import { coachRenderer } from '../render/coach';
+import type { CharacterDefinition } from './types';
+
+// 教练：训练场的靶子，不可选择
+export const coachCharacter: CharacterDefinition = {
+    type: CharacterType.COACH,
+    stats: CHAR_STATS[CharacterType.COACH],
+    playable: false,
+    randomOpponent: false,
+
+    ai: coachStrategy,
+    images: { avatar: COACH_AVATAR, skill: COACH_SKILL },
+    render: coachRenderer,
+    hud: {
+        getDefeatText: () => 'defeat.default',
+    },
+};
@@ -0,0 +1,3 @@
+// 训练环境观测的数值编码：比例 (最大值为 0 时记为 0) 与布尔开关
+export const ratio = (value: number | undefined, max: number | undefined) => max ? (value || 0) / max : 0;
+export const flag = (value: boolean | undefined) => value ? 1 : 0;
@@ -0,0 +1,8 @@
+import type { MessageKey } from '../i18n';
+import type { HudIndicator } from './types';
+
+// 副技能冷却指示：冷却中显示进度条，否则显示"就绪" (颜色随角色主题)
+export const cooldownIndicator = (label: MessageKey, remaining: number, max: number, themeColor: string): HudIndicator =>
+    remaining > 0
+        ? { label, bars: [{ ratio: 1 - remaining / max, fillClass: `bg-${themeColor}-600` }] }
+        : { label, text: { key: 'common.ready' }, textClass: `text-xs font-bold text-${themeColor}-400` };
@@ -0,0 +1,26 @@
+/**
+ * Characters —— 角色模块注册表
+ *
+ * 每个角色在自己的模块中定义 CharacterDefinition，在这里按顺序注册；
+ * 选角界面、随机对手、平衡实验与联机的角色列表都从注册表中取得。
+ * 新角色只需新增一个模块并加入下面的列表。
+ */
+import { registerCharacter } from './registry';
+import { catCharacter } from './cat';
+import { coachCharacter } from './coach';
+import { magicCharacter } from './magic';
+import { pyroCharacter } from './pyro';
+import { tankCharacter } from './tank';
+import { wukongCharacter } from './wukong';
+
+// 注册顺序即界面中的显示顺序
+[coachCharacter, pyroCharacter, tankCharacter, wukongCharacter, catCharacter, magicCharacter].forEach(registerCharacter);
+
+export {
+    registerCharacter, getCharacter, getCharacters, getPlayableTypes, getRandomOpponentTypes, getHazardAffinity, getChargeConfig
+} from './registry';
+export { flag, ratio } from './features';
+export type {
+    CharacterAppearance, CharacterBaseStats, CharacterCard, CharacterDefinition, CharacterHud, CharacterRenderContext, CharacterRenderer,
+    ChargeStateConfig, HudIndicator, HudIndicatorBar, HudMeter, HudPips, HudResource, HudText
+} from './types';
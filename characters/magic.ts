@@ -0,0 +1,136 @@
+import { CharacterType } from '../types';
+import { CHAR_STATS } from '../constants';
+import { MAGIC_AVATAR, MAGIC_SKILL, MAGIC_SKILL_BLACK } from '../images';
+import { magicStrategy } from '../engine/ai/magic';
+import { magicAbilities, updateMagicResources } from '../engine/abilities/magic';
+import { magicRenderer } from '../render/magic';
+import { flag, ratio } from './features';
+import { cooldownIndicator } from './hud';
+import type { CharacterDefinition } from './types';
+
+// 魔法球：消耗 MP 施放咒语；出生时有概率黑化，黑白两种形态的大招不同
+export const magicCharacter: CharacterDefinition = {
+    type: CharacterType.MAGIC,
+    stats: CHAR_STATS[CharacterType.MAGIC],
+    playable: true,
+    randomOpponent: false,
+
+    hazardAffinity: {
+        WALL: -0.5,    // Safe spot preference (Blink can land here)
+        WATER: 0.1,    // Slight penalty to avoid landing in water if possible
+        MAGMA: 2.0,    // [修复] 高惩罚岩浆，避免移形换影落在岩浆里
+    },
+    chargeStates: {
+        MAGIC_AVADA: {
+            character: CharacterType.MAGIC,
+            label: '阿瓦达蓄力',
+            tags: ['skill', 'ultimate', 'charge', 'channel'],
+            rules: {
+                canBeInterrupted: true,
+                movementMultiplier: 0,
+                preventsBasicAttack: true,
+                locksAim: true,
+                isAirborne: false,
+            },
+            cooldownProperty: 'skillCooldown',
+            maxCooldown: CHAR_STATS[CharacterType.MAGIC].skillCooldown / 1000,
+            resetProperties: { avadaCharging: false, avadaChargeTime: 0 },
+        },
+    },
+    getActiveCharge: p => p.avadaCharging ? 'MAGIC_AVADA' : null,
+    createAppearance: random => {
+        const stats = CHAR_STATS[CharacterType.MAGIC];
+        // 魔法球黑化概率
+        const magicForm = random() < stats.darkWizardChance ? 'BLACK' : 'WHITE';
+        return magicForm === 'WHITE'
+            ? { color: stats.color, uiThemeColor: stats.uiThemeColor, magicForm }
+            : { color: stats.darkWizardColor, uiThemeColor: stats.darkWizardUiThemeColor, magicForm };
+    },
+    getResourceFeatures: p => [ratio(p.mp, p.maxMp), ratio(p.magicShieldHp, p.maxHp), flag(p.magicForm === 'BLACK')],
+
+    abilities: magicAbilities,
+    updateResources: updateMagicResources,
+    getTauntAttackRange: () => CHAR_STATS.MAGIC.curseRange - 50,
+    ai: magicStrategy,
+    images: { avatar: MAGIC_AVATAR, skill: MAGIC_SKILL },
+    card: {
+        icon: '🔮',
+        tagline: 'charSelect.MAGIC.tagline',
+        mechanics: 'charSelect.MAGIC.mechanics',
+        speed: { label: 'charSelect.MAGIC.speed', className: 'text-yellow-400' },
+        defense: { label: 'charSelect.MAGIC.defense', className: 'text-yellow-400' },
+        attack: 'charSelect.MAGIC.attack',
+        borderShade: 400,
+        titleShade: 300,
+    },
+    render: magicRenderer,
+    hud: {
+        getSkillImage: form => form === 'BLACK' ? MAGIC_SKILL_BLACK : MAGIC_SKILL,
+        getDefeatText: form => form === 'BLACK' ? 'defeat.MAGIC.black' : 'defeat.MAGIC',
+        getResources: p => [{
+            kind: 'meter',
+            label: 'game.mana',
+            text: `${Math.floor(p.mp || 0)} / ${p.maxMp || 0}`,
+            textClass: 'text-blue-400',
+            ratio: ratio(p.mp, p.maxMp),
+            trackClass: 'h-2 rounded-full mb-2 border-slate-600 bg-slate-800',
+            fillClass: 'bg-blue-500 shadow-[0_0_10px_rgba(59,130,246,0.5)]',
+        }],
+        // 护盾存在时显示护盾值；就绪但法力不足时提示
+        getIndicator: p => {
+            const label = 'game.magic.protego';
+            if ((p.magicShieldHp || 0) > 0) {
+                return {
+                    label,
+                    text: { key: 'game.magic.shield' },
+                    textClass: 'text-xs font-bold text-violet-400 text-center w-full',
+                    bars: [{ ratio: p.magicShieldHp! / CHAR_STATS[CharacterType.MAGIC].armorShieldHp, fillClass: 'bg-violet-500' }],
+                };
+            }
+            if (p.secondarySkillCooldown <= 0 && (p.mp || 0) < CHAR_STATS[CharacterType.MAGIC].expelliarmusManaCost) {
+                return { label, text: { key: 'game.magic.lowMana' }, textClass: 'text-xs font-bold text-red-500' };
+            }
+            return cooldownIndicator(label, p.secondarySkillCooldown, p.secondarySkillMaxCooldown, p.uiThemeColor);
+        },
+    },
+    wiki: {
+        id: 'ball_magic',
+        title: 'wiki.ball_magic.title',
+        description: 'wiki.ball_magic.desc',
+        type: 'BALL',
+        ballType: CharacterType.MAGIC,
+        stats: {
+            hp: CHAR_STATS.MAGIC.hp,
+            speed: CHAR_STATS.MAGIC.speed * 10,
+            mass: CHAR_STATS.MAGIC.mass,
+        },
+        skills: [
+            {
+                key: 'LMB',
+                name: 'wiki.ball_magic.lmb.name',
+                description: 'wiki.ball_magic.lmb.desc',
+                params: { cost: CHAR_STATS.MAGIC.curseManaCost },
+                cooldown: CHAR_STATS.MAGIC.curseCooldown / 1000
+            },
+            {
+                key: 'RMB',
+                name: 'wiki.ball_magic.rmb.name',
+                description: 'wiki.ball_magic.rmb.desc',
+                params: { shield: CHAR_STATS.MAGIC.armorShieldHp },
+                cooldown: 5
+            },
+            {
+                key: 'SPACE',
+                name: 'wiki.ball_magic.space.name',
+                description: 'wiki.ball_magic.space.desc',
+                cooldown: CHAR_STATS.MAGIC.skillCooldown / 1000
+            },
+            {
+                key: 'PASSIVE',
+                name: 'wiki.ball_magic.passive.name',
+                description: 'wiki.ball_magic.passive.desc',
+                params: { regen: CHAR_STATS.MAGIC.mpRegen, maxMp: CHAR_STATS.MAGIC.maxMp }
+            }
+        ]
+    },
+};
@@ -0,0 +1,92 @@
+import { CharacterType } from '../types';
+import { CHAR_STATS } from '../constants';
+import { PYRO_AVATAR, PYRO_SKILL } from '../images';
+import { pyroStrategy } from '../engine/ai/pyro';
+import { pyroAbilities, updatePyroResources } from '../engine/abilities/pyro';
+import { pyroRenderer } from '../render/pyro';
+import { flag, ratio } from './features';
+import { cooldownIndicator } from './hud';
+import type { CharacterDefinition } from './types';
+
+// 火焰球：喷火器压制，岩浆池回复燃料与生命
+export const pyroCharacter: CharacterDefinition = {
+    type: CharacterType.PYRO,
+    stats: CHAR_STATS[CharacterType.PYRO],
+    playable: true,
+    randomOpponent: true,
+
+    hazardAffinity: {
+        MAGMA: -1,  // Beneficial (Safe/Preferred)
+    },
+    getResourceFeatures: p => [ratio(p.fuel, p.maxFuel), 0, flag(p.isBurnedOut)],
+
+    abilities: pyroAbilities,
+    updateResources: updatePyroResources,
+    getTauntAttackRange: () => CHAR_STATS.PYRO.flamethrowerRange - 50,
+    ai: pyroStrategy,
+    images: { avatar: PYRO_AVATAR, skill: PYRO_SKILL },
+    card: {
+        icon: '🔥',
+        tagline: 'charSelect.PYRO.tagline',
+        mechanics: 'charSelect.PYRO.mechanics',
+        speed: { label: 'charSelect.PYRO.speed', className: 'text-green-400' },
+        defense: { label: 'charSelect.PYRO.defense', className: 'text-red-400' },
+        attack: 'charSelect.PYRO.attack',
+        borderShade: 500,
+        titleShade: 400,
+    },
+    render: pyroRenderer,
+    hud: {
+        skillName: 'game.skill.PYRO',
+        skillGlyph: '☄️',
+        getDefeatText: () => 'defeat.PYRO',
+        getResources: p => [{
+            kind: 'meter',
+            label: 'game.fuel',
+            alert: p.isBurnedOut ? 'game.burnoutAlert' : undefined,
+            text: `${p.fuel.toFixed(0)}%`,
+            textClass: p.isBurnedOut ? 'text-red-500' : 'text-orange-400',
+            ratio: p.fuel / p.maxFuel,
+            trackClass: `h-5 rounded ${p.isBurnedOut ? 'border-red-500 bg-red-900/50' : 'border-slate-600 bg-slate-800'}`,
+            fillClass: p.isBurnedOut ? 'bg-white animate-pulse' : 'bg-orange-500',
+        }],
+        // 引爆岩浆池的冷却固定为 3 秒
+        getIndicator: p => cooldownIndicator('game.pyro.detonate', p.secondarySkillCooldown, 3.0, p.uiThemeColor),
+    },
+    wiki: {
+        id: 'ball_pyro',
+        title: 'wiki.ball_pyro.title',
+        description: 'wiki.ball_pyro.desc',
+        type: 'BALL',
+        ballType: CharacterType.PYRO,
+        stats: {
+            hp: CHAR_STATS.PYRO.hp,
+            speed: CHAR_STATS.PYRO.speed * 10, // 归一化显示
+            mass: CHAR_STATS.PYRO.mass,
+        },
+        skills: [
+            {
+                key: 'LMB',
+                name: 'wiki.ball_pyro.lmb.name',
+                description: 'wiki.ball_pyro.lmb.desc'
+            },
+            {
+                key: 'RMB',
+                name: 'wiki.ball_pyro.rmb.name',
+                description: 'wiki.ball_pyro.rmb.desc',
+                cooldown: CHAR_STATS.PYRO.secondarySkillCooldown / 1000
+            },
+            {
+                key: 'SPACE',
+                name: 'wiki.ball_pyro.space.name',
+                description: 'wiki.ball_pyro.space.desc',
+                cooldown: CHAR_STATS.PYRO.skillCooldown / 1000
+            },
+            {
+                key: 'PASSIVE',
+                name: 'wiki.ball_pyro.passive.name',
+                description: 'wiki.ball_pyro.passive.desc'
+            }
+        ]
+    },
+};
@@ -0,0 +1,30 @@
+import type { CharacterType } from '../types';
+import { DEFAULT_HAZARD_AFFINITY } from '../constants';
+import type { HazardAffinity } from '../engine/pathfinding';
+import { registerAIStrategy } from '../engine/ai/registry';
+import type { ChargeStateConfig, CharacterDefinition } from './types';
+
+// 按注册顺序保存，界面与随机池都按该顺序列出角色
+const characters = new Map<CharacterType, CharacterDefinition>();
+const chargeStates = new Map<string, ChargeStateConfig>();
+
+export const registerCharacter = (definition: CharacterDefinition) => {
+    characters.set(definition.type, definition);
+    Object.entries(definition.chargeStates || {}).forEach(([id, config]) => chargeStates.set(id, config));
+    registerAIStrategy(definition.type, definition.ai);
+};
+
+export const getCharacter = (type: CharacterType): CharacterDefinition | undefined => characters.get(type);
+
+export const getCharacters = (): CharacterDefinition[] => Array.from(characters.values());
+
+// 玩家可选择的角色类型
+export const getPlayableTypes = (): CharacterType[] => getCharacters().filter(c => c.playable).map(c => c.type);
+
+// 快速开始随机对手的候选
+export const getRandomOpponentTypes = (): CharacterType[] => getCharacters().filter(c => c.randomOpponent).map(c => c.type);
+
+export const getHazardAffinity = (type: CharacterType): HazardAffinity =>
+    ({ ...DEFAULT_HAZARD_AFFINITY, ...(characters.get(type)?.hazardAffinity || {}) });
+
+export const getChargeConfig = (id: string): ChargeStateConfig | undefined => chargeStates.get(id);
@@ -0,0 +1,133 @@
+import { CharacterType, TankMode } from '../types';
+import { CHAR_STATS } from '../constants';
+import { TANK_AVATAR, TANK_SKILL } from '../images';
+import { tankStrategy } from '../engine/ai/tank';
+import { tankAbilities, updateTankResources } from '../engine/abilities/tank';
+import { tankRenderer } from '../render/tank';
+import { flag, ratio } from './features';
+import type { CharacterDefinition } from './types';
+
+// 坦克球：炮击/机枪两种模式切换，释放无人机
+export const tankCharacter: CharacterDefinition = {
+    type: CharacterType.TANK,
+    stats: CHAR_STATS[CharacterType.TANK],
+    playable: true,
+    randomOpponent: true,
+    isMechanical: true,
+
+    getResourceFeatures: p => [ratio(p.artilleryAmmo, p.maxArtilleryAmmo), ratio(p.lmgAmmo, p.maxLmgAmmo), flag(p.tankMode === TankMode.LMG)],
+
+    abilities: tankAbilities,
+    updateResources: updateTankResources,
+    getTauntAttackRange: p => p.tankMode === TankMode.ARTILLERY ? 400 : 300,
+    ai: tankStrategy,
+    images: { avatar: TANK_AVATAR, skill: TANK_SKILL },
+    card: {
+        icon: '🛡️',
+        tagline: 'charSelect.TANK.tagline',
+        mechanics: 'charSelect.TANK.mechanics',
+        speed: { label: 'charSelect.TANK.speed', className: 'text-red-400' },
+        defense: { label: 'charSelect.TANK.defense', className: 'text-green-400' },
+        attack: 'charSelect.TANK.attack',
+        borderShade: 500,
+        titleShade: 400,
+    },
+    render: tankRenderer,
+    hud: {
+        getDefeatText: () => 'defeat.TANK',
+        getResources: p => {
+            if (p.tankMode === TankMode.ARTILLERY) {
+                const shell = 'flex-1 rounded-sm border border-slate-600 transition-colors duration-300';
+                return [{
+                    kind: 'pips',
+                    label: 'game.shells',
+                    text: `${p.artilleryAmmo} / ${p.maxArtilleryAmmo}`,
+                    textClass: 'text-yellow-500',
+                    count: p.maxArtilleryAmmo,
+                    filled: p.artilleryAmmo,
+                    rowClass: 'gap-2 h-5',
+                    filledClass: `${shell} bg-yellow-500 shadow-[0_0_10px_rgba(234,179,8,0.5)]`,
+                    emptyClass: `${shell} bg-slate-800`,
+                }];
+            }
+            // 弹链：每格代表 1/20 的弹药，剩余过半格即点亮；换弹时整条闪烁
+            const segments = 20;
+            const link = 'flex-1 -skew-x-12 transition-colors duration-75';
+            const reloading = `${link} bg-red-500/50 animate-pulse`;
+            return [{
+                kind: 'pips',
+                label: 'game.lmgBelt',
+                text: p.isReloadingLmg ? { key: 'game.reloading' } : `▮ ${Math.floor(p.lmgAmmo)}`,
+                textClass: p.isReloadingLmg ? 'text-red-500 blink' : 'text-amber-400',
+                count: segments,
+                filled: Math.max(0, Math.floor(p.lmgAmmo / (p.maxLmgAmmo / segments) + 0.5)),
+                rowClass: 'w-full h-5 gap-[1px]',
+                filledClass: p.isReloadingLmg ? reloading : `${link} bg-amber-500`,
+                emptyClass: p.isReloadingLmg ? reloading : `${link} bg-slate-700/50`,
+            }];
+        },
+        getIndicator: p => ({ badge: { key: `game.mode.${p.tankMode}` } }),
+        // 雷达旁显示无人机状态
+        radar: {
+            getStatus: (p, state) => {
+                const label = 'game.tank.drone';
+                if (p.droneState === 'READY') {
+                    return { label, text: { key: 'common.ready' }, textClass: `text-xs font-bold text-${p.uiThemeColor}-400` };
+                }
+                if (p.droneState === 'DEPLOYED') {
+                    const d = state.drones.find(drone => drone.id === p.activeDroneId && !drone.isDocked && drone.hp > 0);
+                    if (!d) return { label, text: { key: 'game.tank.droneWorking' }, textClass: 'text-xs font-bold text-blue-400 animate-pulse' };
+                    return {
+                        label,
+                        bars: [
+                            { label: 'game.tank.droneHull', value: `${Math.ceil(d.hp)}`, ratio: d.hp / d.maxHp, fillClass: 'bg-green-500' },
+                            { label: 'game.tank.droneBattery', value: `${Math.ceil(d.life / 1000)}s`, ratio: d.life / d.maxLife, fillClass: 'bg-blue-400' },
+                        ],
+                    };
+                }
+                const rebuilding = p.droneState === 'RECONSTRUCTING';
+                return {
+                    label,
+                    text: { key: rebuilding ? 'game.tank.droneRebuilding' : 'game.tank.droneCharging' },
+                    textClass: 'text-[9px] text-slate-500 mb-0.5',
+                    bars: [{ ratio: p.droneTimer / p.droneMaxTimer, fillClass: rebuilding ? 'bg-yellow-600' : 'bg-blue-500' }],
+                };
+            },
+        },
+    },
+    wiki: {
+        id: 'ball_tank',
+        title: 'wiki.ball_tank.title',
+        description: 'wiki.ball_tank.desc',
+        type: 'BALL',
+        ballType: CharacterType.TANK,
+        stats: {
+            hp: CHAR_STATS.TANK.hp,
+            speed: CHAR_STATS.TANK.speed * 10,
+            mass: CHAR_STATS.TANK.mass,
+        },
+        skills: [
+            {
+                key: 'SPACE',
+                name: 'wiki.ball_tank.space.name',
+                description: 'wiki.ball_tank.space.desc'
+            },
+            {
+                key: 'LMB',
+                name: 'wiki.ball_tank.lmb.name',
+                description: 'wiki.ball_tank.lmb.desc',
+                params: { damage: CHAR_STATS.TANK.artilleryDamage }
+            },
+            {
+                key: 'RMB',
+                name: 'wiki.ball_tank.rmb.name',
+                description: 'wiki.ball_tank.rmb.desc'
+            },
+            {
+                key: 'PASSIVE',
+                name: 'wiki.ball_tank.passive.name',
+                description: 'wiki.ball_tank.passive.desc'
+            }
+        ]
+    },
+};
@@ -0,0 +1,213 @@
+import type { CharacterType, DangerZone, GameState, PlayerState, Vector2 } from '../types';
+import type { HazardAffinity } from '../engine/pathfinding';
+import type { AIStrategy } from '../engine/ai/types';
+import type { AbilityContext, AbilityDefinition } from '../engine/abilities/types';
+import type { Engine } from '../engine/types';
+import type { CharacterImageSet } from '../images';
+import type { WikiEntry } from '../data/wikiData';
+import type { MessageKey, MessageParams } from '../i18n';
+
+// 所有角色共有的基础数值 (CHAR_STATS 中的条目，各角色还有自己的专属字段)
+export interface CharacterBaseStats {
+    hp: number;
+    mass: number;
+    radius: number;
+    speed: number;
+    color: string;
+    uiThemeColor: string;
+    skillCooldown: number;
+    secondarySkillCooldown?: number;
+}
+
+// 蓄力/引导状态的规则 (打断、移速、韧性与被打断后的重置)
+export interface ChargeStateConfig {
+    character: CharacterType;
+    label: string;
+    tags: string[];
+    rules: {
+        canBeInterrupted: boolean;
+        movementMultiplier: number;
+        preventsBasicAttack: boolean;
+        locksAim: boolean;
+        isAirborne: boolean;
+    };
+    tenacity?: {
+        knockbackResistance?: number; // 0.0 ~ 1.0, reduces knockback force
+        ccResistance?: number;        // 0.0 ~ 1.0, reduces CC duration
+    };
+    cooldownProperty?: string;
+    maxCooldown?: number;
+    resetProperties?: Record<string, any>;
+}
+
+// 出生时随机决定的外观 (魔法球的黑白形态)
+export type CharacterAppearance = Pick<PlayerState, 'color' | 'uiThemeColor'> & Partial<Pick<PlayerState, 'magicForm'>>;
+
+// 选角界面的卡片
+export interface CharacterCard {
+    icon: string; // 没有头像图片时显示
+    tagline: MessageKey;
+    mechanics: MessageKey;
+    // 速度、防御评价及其文字颜色
+    speed: { label: MessageKey, className: string };
+    defense: { label: MessageKey, className: string };
+    attack: MessageKey;
+    // 边框与标题的色阶 (浅色角色用更亮的色阶)
+    borderShade: 400 | 500;
+    titleShade: 300 | 400;
+}
+
+// HUD 文字：字符串原样显示，消息键按当前语言解析
+export type HudText = string | { key: MessageKey, params?: MessageParams };
+
+// 连续的资源条 (燃料、法力)；类名均为完整的 Tailwind 类名
+export interface HudMeter {
+    kind: 'meter';
+    label: MessageKey;
+    // 标签旁闪烁的警告 (过热)
+    alert?: MessageKey;
+    text: HudText;
+    textClass: string;
+    ratio: number;
+    trackClass: string;
+    fillClass: string;
+}
+
+// 分格的资源 (炮弹、弹链、命数)
+export interface HudPips {
+    kind: 'pips';
+    label: MessageKey;
+    text: HudText;
+    textClass: string;
+    count: number;
+    filled: number;
+    rowClass: string;
+    filledClass: string;
+    emptyClass: string;
+}
+
+// 血条下方的资源栏
+export type HudResource = HudMeter | HudPips;
+
+export interface HudIndicatorBar {
+    ratio: number;
+    fillClass: string;
+    // 带标题的细条 (无人机的机体与电量)
+    label?: MessageKey;
+    value?: string;
+}
+
+// 技能栏右侧的副技能/形态指示，以及雷达旁的状态
+export interface HudIndicator {
+    label?: MessageKey;
+    text?: HudText;
+    textClass?: string;
+    // 带边框的标签 (坦克形态)
+    badge?: HudText;
+    bars?: HudIndicatorBar[];
+}
+
+// HUD 上与角色相关的文字、技能图标与资源 (形态只对魔法球有意义)
+export interface CharacterHud {
+    skillName?: MessageKey;
+    skillGlyph?: string; // 没有技能图片时显示
+    getSkillImage?: (form?: PlayerState['magicForm']) => string | undefined;
+    getDefeatText: (form?: PlayerState['magicForm']) => MessageKey;
+    // 冷却中显示剩余秒数，而不是"冷却中"
+    showCooldownSeconds?: boolean;
+    // 敌人面板上显示剩余命数
+    showLives?: boolean;
+    getResources?: (p: PlayerState) => HudResource[];
+    getIndicator?: (p: PlayerState) => HudIndicator;
+    // 显示雷达 (所有玩家与召唤物的方位)，getStatus 为雷达旁的状态
+    radar?: { getStatus?: (p: PlayerState, state: GameState) => HudIndicator };
+}
+
+// 绘制钩子收到的上下文 (每帧由画面构建)
+export interface CharacterRenderContext {
+    ctx: CanvasRenderingContext2D;
+    state: GameState;
+    getStatusInfo: Engine['getStatusInfo'];
+    isControlled: Engine['isControlled'];
+    t: (key: MessageKey) => string;
+}
+
+/**
+ * 角色在画面上的绘制钩子，缺省时按普通球体绘制
+ *
+ * 世界坐标的钩子自行 save/restore；身体相关的钩子在已平移到球心、
+ * 设置了阵营光晕与填充色 (状态颜色或角色颜色) 的画布上调用。
+ */
+export interface CharacterRenderer {
+    // 武器特效 (喷火)，在所有球体之下
+    drawWeapon?: (rc: CharacterRenderContext, p: PlayerState) => void;
+    // 腾空时绘制在地面上的球体之上
+    isAirborne?: (p: PlayerState) => boolean;
+    getShadow?: (p: PlayerState) => { scale: number, alpha: number };
+    // 球体下方的范围指示 (世界坐标)
+    drawUnderlay?: (rc: CharacterRenderContext, p: PlayerState) => void;
+    // 身体的缩放等形变
+    transformBody?: (rc: CharacterRenderContext, p: PlayerState) => void;
+    // 在身体之前绘制的装备 (炮管、金箍棒)
+    drawEquipment?: (rc: CharacterRenderContext, p: PlayerState) => void;
+    // 自定义的身体，代替普通球体
+    drawBody?: (rc: CharacterRenderContext, p: PlayerState) => void;
+    // 没有状态颜色时普通球体的填充
+    styleBody?: (rc: CharacterRenderContext, p: PlayerState) => void;
+    // 普通球体上随朝向旋转的细节 (头箍)
+    drawBodyDetail?: (rc: CharacterRenderContext, p: PlayerState) => void;
+    // 球体之上的光环 (世界坐标)
+    drawOverlay?: (rc: CharacterRenderContext, p: PlayerState) => void;
+    // 在所有球体与飘字之上的攻击动画 (世界坐标)
+    drawAttack?: (rc: CharacterRenderContext, p: PlayerState) => void;
+    // 本地玩家的瞄准辅助 (世界坐标)
+    drawAimGuide?: (rc: CharacterRenderContext, p: PlayerState, aim: Vector2) => void;
+    // 血条上方的蓄力条 (屏幕坐标，bar 为血条的位置与宽度)
+    drawChargeBar?: (rc: CharacterRenderContext, p: PlayerState, bar: { x: number, y: number, width: number }) => void;
+    // 鼠标牵引相机的距离倍率
+    getCameraReach?: (p: PlayerState) => number;
+    // 自己绘制准星时隐藏鼠标指针
+    hidesCursor?: (p: PlayerState) => boolean;
+}
+
+/**
+ * 角色模块：一个角色的数值、技能、技能状态、AI 策略、资源、绘制、HUD 与百科
+ *
+ * 模块在 characters/index.ts 中注册，引擎与界面通过注册表遍历角色，
+ * 不再维护各自的角色列表。
+ */
+export interface CharacterDefinition {
+    type: CharacterType;
+    stats: CharacterBaseStats;
+    // 可在选角、自定义对局、联机与平衡实验中选择 (教练只作为靶子)
+    playable: boolean;
+    // 快速开始时可被随机为对手
+    randomOpponent: boolean;
+    // 机械单位 (免疫精神控制类状态)
+    isMechanical?: boolean;
+
+    // 地形亲和度，未设置的项使用 DEFAULT_HAZARD_AFFINITY
+    hazardAffinity?: Partial<HazardAffinity>;
+    chargeStates?: Record<string, ChargeStateConfig>;
+    // 当前所处的蓄力状态 (chargeStates 的键)
+    getActiveCharge?: (p: PlayerState) => string | null;
+    // 出生时决定外观；按需消耗随机数，调用顺序影响对局的确定性
+    createAppearance?: (random: () => number) => CharacterAppearance;
+    // 角色专属资源 (训练环境观测)：A/B 为比例，form 为形态或状态开关
+    getResourceFeatures?: (p: PlayerState) => [number, number, number];
+
+    // 技能定义，玩家输入与 AI 都通过技能运行器施放
+    abilities?: AbilityDefinition[];
+    // 每步回复资源并推进角色专属计时 (过热、换弹、无人机重建、护盾等)
+    updateResources?: (p: PlayerState, dt: number, ctx: AbilityContext) => void;
+    // 被嘲讽时冲到该距离内才强制普攻；缺省为近战距离
+    getTauntAttackRange?: (p: PlayerState) => number;
+    // 作为敌人时正在蓄力的技能将覆盖的区域 (电脑玩家据此闪避)；weight 为观察者对技能危险的权重
+    getThreatZones?: (p: PlayerState, weight: number) => DangerZone[];
+    ai: AIStrategy;
+    images: CharacterImageSet;
+    card?: CharacterCard;
+    render?: CharacterRenderer;
+    hud: CharacterHud;
+    wiki?: WikiEntry;
+}
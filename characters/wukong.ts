@@ -0,0 +1,119 @@
+import { CharacterType } from '../types';
+import { CHAR_STATS } from '../constants';
+import { WUKONG_AVATAR, WUKONG_SKILL } from '../images';
+import { wukongStrategy } from '../engine/ai/wukong';
+import { wukongAbilities, wukongThreatZones } from '../engine/abilities/wukong';
+import { wukongRenderer } from '../render/wukong';
+import { flag, ratio } from './features';
+import { cooldownIndicator } from './hud';
+import type { CharacterDefinition } from './types';
+
+// 悟空球：三段连击，蓄力戳棍与立棍下劈
+export const wukongCharacter: CharacterDefinition = {
+    type: CharacterType.WUKONG,
+    stats: CHAR_STATS[CharacterType.WUKONG],
+    playable: true,
+    randomOpponent: true,
+
+    hazardAffinity: {
+        MAGMA: 0.5,
+        WATER: -0.3,
+    },
+    chargeStates: {
+        WUKONG_THRUST: {
+            character: CharacterType.WUKONG,
+            label: '戳棍蓄力',
+            tags: ['skill', 'right_click', 'charge'],
+            rules: {
+                canBeInterrupted: true,
+                movementMultiplier: 0.3,
+                preventsBasicAttack: true,
+                locksAim: false,
+                isAirborne: false,
+            },
+            tenacity: { knockbackResistance: 0.8 },
+            cooldownProperty: 'wukongThrustTimer',
+            maxCooldown: CHAR_STATS[CharacterType.WUKONG].thrustCooldown / 1000,
+            resetProperties: { wukongChargeState: 'NONE', wukongChargeTime: 0 },
+        },
+        WUKONG_SMASH: {
+            character: CharacterType.WUKONG,
+            label: '立棍蓄力',
+            tags: ['skill', 'ultimate', 'charge'],
+            rules: {
+                canBeInterrupted: true,
+                movementMultiplier: 0,
+                preventsBasicAttack: true,
+                locksAim: true, // [Fix] Lock aim to allow dodging/counter-play
+                isAirborne: false,
+            },
+            tenacity: { knockbackResistance: 0.8 },
+            cooldownProperty: 'skillCooldown',
+            maxCooldown: CHAR_STATS[CharacterType.WUKONG].skillCooldown / 1000,
+            resetProperties: { wukongChargeState: 'NONE', wukongChargeTime: 0, wukongChargeHoldTimer: 0 },
+        },
+    },
+    getActiveCharge: p => {
+        if (p.wukongChargeState === 'THRUST') return 'WUKONG_THRUST';
+        if (p.wukongChargeState === 'SMASH') return 'WUKONG_SMASH';
+        return null;
+    },
+    getResourceFeatures: p => [ratio(p.wukongChargeTime, p.wukongMaxCharge), p.wukongComboStep / 2, flag(p.isVaulting)],
+
+    abilities: wukongAbilities,
+    getTauntAttackRange: () => 120,
+    getThreatZones: wukongThreatZones,
+    ai: wukongStrategy,
+    images: { avatar: WUKONG_AVATAR, skill: WUKONG_SKILL },
+    card: {
+        icon: '🐵',
+        tagline: 'charSelect.WUKONG.tagline',
+        mechanics: 'charSelect.WUKONG.mechanics',
+        speed: { label: 'charSelect.WUKONG.speed', className: 'text-green-400' },
+        defense: { label: 'charSelect.WUKONG.defense', className: 'text-yellow-400' },
+        attack: 'charSelect.WUKONG.attack',
+        borderShade: 500,
+        titleShade: 400,
+    },
+    render: wukongRenderer,
+    hud: {
+        skillName: 'game.skill.WUKONG',
+        skillGlyph: '🏔️',
+        getDefeatText: () => 'defeat.WUKONG',
+        getIndicator: p => cooldownIndicator('game.wukong.thrust', p.wukongThrustTimer, 4.0, p.uiThemeColor),
+    },
+    wiki: {
+        id: 'ball_wukong',
+        title: 'wiki.ball_wukong.title',
+        description: 'wiki.ball_wukong.desc',
+        type: 'BALL',
+        ballType: CharacterType.WUKONG,
+        stats: {
+            hp: CHAR_STATS.WUKONG.hp,
+            speed: CHAR_STATS.WUKONG.speed * 10,
+            mass: CHAR_STATS.WUKONG.mass,
+        },
+        skills: [
+            {
+                key: 'LMB',
+                name: 'wiki.ball_wukong.lmb.name',
+                description: 'wiki.ball_wukong.lmb.desc'
+            },
+            {
+                key: 'RMB',
+                name: 'wiki.ball_wukong.rmb.name',
+                description: 'wiki.ball_wukong.rmb.desc'
+            },
+            {
+                key: 'SPACE',
+                name: 'wiki.ball_wukong.space.name',
+                description: 'wiki.ball_wukong.space.desc'
+            },
+            {
+                key: 'PASSIVE',
+                name: 'wiki.ball_wukong.passive.name',
+                description: 'wiki.ball_wukong.passive.desc'
+            }
+        ]
+    },
+};
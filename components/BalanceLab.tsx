@@ -0,0 +1,504 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CharacterType } from '../types';
+import { Sound } from '../sound';
+import {
+    BALANCE_CHARACTERS, BALANCE_MODES, BALANCE_MUTATORS, DEFAULT_MAX_SECONDS,
+    BalanceCancelledError, countOverrides, createBalanceJobs, getDefaultWorkerCount, getTunableStats, runJobsInWorkers, summarizeBalance
+} from '../balance';
+import type { BalanceMode, BalanceMutator, BalanceOptions, BalanceReport, BalanceRun, MatchupSummary, StatOverrides } from '../balance';
+import type { DamageSkill } from '../engine';
+import { t, useLocale } from '../i18n';
+
+interface BalanceLabProps {
+    onBack: () => void;
+}
+
+// TTK 直方图的分桶数
+const TTK_BINS = 12;
+// 技能占比条的配色 (按占比从大到小依次使用)
+const SHARE_COLORS = ['#3b82f6', '#ef4444', '#eab308', '#10b981', '#a855f7', '#f97316', '#06b6d4', '#ec4899', '#64748b'];
+
+const toggleItem = <T,>(list: T[], item: T, order: readonly T[]) =>
+    list.includes(item) ? list.filter(x => x !== item) : order.filter(x => x === item || list.includes(x));
+
+// 0 → 红，0.5 → 灰，1 → 绿
+const winRateColor = (rate: number) => {
+    const strength = Math.min(1, Math.abs(rate - 0.5) * 2);
+    const hue = rate >= 0.5 ? 142 : 0;
+    return `hsla(${hue}, 70%, 40%, ${0.15 + strength * 0.75})`;
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const formatDelta = (value: number) => {
+    const points = Math.round(value * 100);
+    return points > 0 ? `+${points}` : String(points);
+};
+
+interface ToggleChipProps {
+    active: boolean;
+    label: string;
+    disabled?: boolean;
+    onClick: () => void;
+}
+
+const ToggleChip: React.FC<ToggleChipProps> = ({ active, label, disabled, onClick }) => (
+    <button
+        disabled={disabled}
+        onClick={() => { Sound.playUI('CLICK'); onClick(); }}
+        className={`px-3 py-1.5 rounded border text-sm font-bold transition-colors disabled:opacity-50
+            ${active
+                ? 'bg-white text-slate-900 border-white'
+                : 'bg-slate-800 border-slate-600 text-slate-400 hover:text-white hover:border-white'}`}
+    >
+        {label}
+    </button>
+);
+
+interface NumberFieldProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    disabled?: boolean;
+    onChange: (value: number) => void;
+}
+
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, min, max, disabled, onChange }) => (
+    <label className="flex flex-col gap-1">
+        <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">{label}</span>
+        <input
+            type="number" min={min} max={max}
+            value={value}
+            disabled={disabled}
+            onChange={e => {
+                const next = Math.floor(Number(e.target.value));
+                if (Number.isFinite(next)) onChange(Math.max(min, Math.min(max, next)));
+            }}
+            className="w-32 px-3 py-2 rounded bg-slate-900 border border-slate-700 text-white font-mono text-sm focus:outline-none focus:border-white disabled:opacity-50"
+        />
+    </label>
+);
+
+const WinRateHeatmap: React.FC<{ report: BalanceReport, previous?: BalanceReport }> = ({ report, previous }) => (
+    <div className="overflow-x-auto">
+        <table className="text-sm font-mono border-separate border-spacing-1">
+            <thead>
+                <tr>
+                    <th />
+                    {report.characters.map(col => (
+                        <th key={col} className="px-2 py-1 text-xs text-slate-400 font-bold">{t(`role.${col}`)}</th>
+                    ))}
+                </tr>
+            </thead>
+            <tbody>
+                {report.characters.map(row => (
+                    <tr key={row}>
+                        <th className="pr-3 text-right text-xs text-slate-400 font-bold whitespace-nowrap">{t(`role.${row}`)}</th>
+                        {report.characters.map(col => {
+                            const rate = report.winRates[row]?.[col];
+                            if (rate === null || rate === undefined) {
+                                return <td key={col} className="w-20 h-12 rounded bg-slate-900 text-center text-slate-700">—</td>;
+                            }
+                            const before = previous?.winRates[row]?.[col];
+                            const delta = before === null || before === undefined ? null : rate - before;
+                            return (
+                                <td key={col} className="w-20 h-12 rounded text-center text-white" style={{ backgroundColor: winRateColor(rate) }}>
+                                    <div className="font-bold">{formatPercent(rate)}</div>
+                                    {delta !== null && Math.round(delta * 100) !== 0 && (
+                                        <div className={`text-[10px] ${delta > 0 ? 'text-emerald-200' : 'text-red-200'}`}>({formatDelta(delta)})</div>
+                                    )}
+                                </td>
+                            );
+                        })}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+const TTKHistogram: React.FC<{ matchup: MatchupSummary, maxSeconds: number }> = ({ matchup, maxSeconds }) => {
+    const bins = new Array(TTK_BINS).fill(0);
+    matchup.durations.forEach(seconds => {
+        bins[Math.min(TTK_BINS - 1, Math.floor((seconds / maxSeconds) * TTK_BINS))]++;
+    });
+    const peak = Math.max(1, ...bins);
+    const avg = matchup.durations.length > 0
+        ? matchup.durations.reduce((sum, s) => sum + s, 0) / matchup.durations.length
+        : 0;
+
+    return (
+        <div className="bg-slate-900 rounded-lg p-3 border border-slate-800">
+            <div className="flex justify-between text-xs mb-2">
+                <span className="font-bold text-slate-300">{t(`role.${matchup.a}`)} vs {t(`role.${matchup.b}`)}</span>
+                <span className="font-mono text-slate-500">
+                    {matchup.durations.length > 0 && t('balance.ttkAvg', { seconds: avg.toFixed(1) })}
+                    {matchup.draws > 0 && ` · ${t('balance.draws', { count: matchup.draws })}`}
+                </span>
+            </div>
+            <div className="flex items-end gap-0.5 h-16">
+                {bins.map((count, i) => (
+                    <div
+                        key={i}
+                        title={`${Math.round((i * maxSeconds) / TTK_BINS)}-${Math.round(((i + 1) * maxSeconds) / TTK_BINS)}s: ${count}`}
+                        className="flex-1 bg-blue-500/70 rounded-t-sm"
+                        style={{ height: `${(count / peak) * 100}%` }}
+                    />
+                ))}
+            </div>
+            <div className="flex justify-between text-[10px] font-mono text-slate-600 mt-1">
+                <span>0s</span>
+                <span>{maxSeconds}s</span>
+            </div>
+        </div>
+    );
+};
+
+const SkillShare: React.FC<{ report: BalanceReport }> = ({ report }) => {
+    const sources = (Object.keys(report.skillDamage) as CharacterType[])
+        .sort((x, y) => report.characters.indexOf(x) - report.characters.indexOf(y));
+
+    return (
+        <div className="flex flex-col gap-4">
+            {sources.map(source => {
+                const entries = Object.entries(report.skillDamage[source]!)
+                    .map(([skill, amount]) => ({ skill: skill as DamageSkill | 'OTHER', amount: amount || 0 }))
+                    .filter(entry => entry.amount > 0)
+                    .sort((x, y) => y.amount - x.amount);
+                const total = entries.reduce((sum, entry) => sum + entry.amount, 0);
+                if (total <= 0) return null;
+                const matches = report.appearances[source] || report.totalMatches;
+                const color = (i: number) => SHARE_COLORS[Math.min(i, SHARE_COLORS.length - 1)];
+
+                return (
+                    <div key={source}>
+                        <div className="flex justify-between text-xs mb-1">
+                            <span className="font-bold text-slate-300">{t(`role.${source}`)}</span>
+                            <span className="font-mono text-slate-500">{t('balance.perMatch', { damage: Math.round(total / matches) })}</span>
+                        </div>
+                        <div className="flex h-4 rounded overflow-hidden bg-slate-800">
+                            {entries.map((entry, i) => (
+                                <div
+                                    key={entry.skill}
+                                    title={`${t(`balance.skill.${entry.skill}`)} ${formatPercent(entry.amount / total)}`}
+                                    style={{ width: `${(entry.amount / total) * 100}%`, backgroundColor: color(i) }}
+                                />
+                            ))}
+                        </div>
+                        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-[11px] text-slate-400">
+                            {entries.map((entry, i) => (
+                                <span key={entry.skill} className="flex items-center gap-1">
+                                    <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: color(i) }} />
+                                    {t(`balance.skill.${entry.skill}`)} {formatPercent(entry.amount / total)}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+// 平衡实验室：在 Web Worker 中批量运行 AI 对战，查看胜率、对局时长与技能伤害构成
+const BalanceLab: React.FC<BalanceLabProps> = ({ onBack }) => {
+    useLocale();
+    const [characters, setCharacters] = useState<CharacterType[]>(BALANCE_CHARACTERS);
+    const [modes, setModes] = useState<BalanceMode[]>(['FFA']);
+    const [mutators, setMutators] = useState<BalanceMutator[]>([]);
+    const [matchesPerMatchup, setMatchesPerMatchup] = useState(10);
+    const [maxSeconds, setMaxSeconds] = useState(DEFAULT_MAX_SECONDS);
+    const [seed, setSeed] = useState(1);
+    const [overrides, setOverrides] = useState<StatOverrides>({});
+    const [editing, setEditing] = useState<CharacterType>(BALANCE_CHARACTERS[0]);
+    const [copied, setCopied] = useState(false);
+
+    const [running, setRunning] = useState(false);
+    const [progress, setProgress] = useState({ done: 0, total: 0, workers: 0 });
+    const [error, setError] = useState<string | null>(null);
+    const [reports, setReports] = useState<BalanceReport[]>([]);
+    // 上一次的结果，用于显示胜率变化
+    const [previousReports, setPreviousReports] = useState<BalanceReport[]>([]);
+    const runRef = useRef<BalanceRun | null>(null);
+
+    // 离开页面时终止 Worker
+    useEffect(() => () => runRef.current?.cancel(), []);
+
+    const setOverride = (type: CharacterType, key: string, base: number, value: number) => {
+        setCopied(false);
+        setOverrides(prev => {
+            const fields = { ...(prev[type] || {}) };
+            if (!Number.isFinite(value) || value === base) delete fields[key];
+            else fields[key] = value;
+            const next = { ...prev, [type]: fields };
+            if (Object.keys(fields).length === 0) delete next[type];
+            return next;
+        });
+    };
+
+    const handleCopy = () => {
+        Sound.playUI('CLICK');
+        navigator.clipboard?.writeText(JSON.stringify(overrides, null, 2)).then(() => setCopied(true), () => setCopied(false));
+    };
+
+    const handleRun = () => {
+        Sound.playUI('START');
+        const optionsList: BalanceOptions[] = modes.map(mode => ({ mode, characters, matchesPerMatchup, seed, maxSeconds, mutators }));
+        const jobLists = optionsList.map(createBalanceJobs);
+        const workers = getDefaultWorkerCount();
+        const previous = reports;
+
+        const run = runJobsInWorkers(jobLists.flat(), overrides, (done, total) => setProgress({ done, total, workers }), workers);
+        runRef.current = run;
+        setRunning(true);
+        setError(null);
+        setProgress({ done: 0, total: jobLists.reduce((sum, jobs) => sum + jobs.length, 0), workers });
+
+        run.promise
+            .then(results => {
+                // 各模式的对局依次拼接，按数量切回
+                let offset = 0;
+                const next = optionsList.map((options, i) => {
+                    const jobs = jobLists[i];
+                    offset += jobs.length;
+                    return summarizeBalance(options, jobs, results.slice(offset - jobs.length, offset));
+                });
+                setPreviousReports(previous);
+                setReports(next);
+                Sound.playUI('CLICK');
+            })
+            .catch(e => {
+                if (e instanceof BalanceCancelledError) return;
+                console.warn('Balance run failed', e);
+                setError(t('balance.error', { message: e instanceof Error ? e.message : String(e) }));
+            })
+            .finally(() => {
+                if (runRef.current === run) runRef.current = null;
+                setRunning(false);
+            });
+    };
+
+    const handleCancel = () => {
+        Sound.playUI('CLICK');
+        runRef.current?.cancel();
+    };
+
+    const overrideCount = countOverrides(overrides);
+    const canRun = characters.length > 0 && modes.length > 0 && !running;
+
+    return (
+        <div className="absolute inset-0 bg-slate-950 flex flex-col items-center p-8 z-50 overflow-y-auto">
+
+            <button
+                onClick={() => { Sound.playUI('CLICK'); onBack(); }}
+                className="absolute top-8 left-8 text-slate-400 hover:text-white flex items-center gap-2 uppercase tracking-widest text-sm font-bold transition-colors"
+            >
+                <span>{t('common.back')}</span>
+            </button>
+
+            <div className="text-center mt-8 mb-10">
+                <h1 className="text-4xl font-black text-white tracking-widest mb-2">
+                    {t('balance.title')}
+                </h1>
+                <p className="text-slate-500 font-mono text-sm uppercase">
+                    BALANCE LAB
+                </p>
+            </div>
+
+            <div className="max-w-5xl w-full flex flex-col gap-8">
+                {/* 对局设置 */}
+                <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 flex flex-col gap-5">
+                    <div>
+                        <h2 className="text-sm font-bold text-slate-400 tracking-widest mb-2">{t('balance.characters')}</h2>
+                        <div className="flex flex-wrap gap-2">
+                            {BALANCE_CHARACTERS.map(type => (
+                                <ToggleChip
+                                    key={type}
+                                    active={characters.includes(type)}
+                                    label={t(`role.${type}`)}
+                                    disabled={running}
+                                    onClick={() => setCharacters(toggleItem(characters, type, BALANCE_CHARACTERS))}
+                                />
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap gap-10">
+                        <div>
+                            <h2 className="text-sm font-bold text-slate-400 tracking-widest mb-2">{t('balance.modes')}</h2>
+                            <div className="flex gap-2">
+                                {BALANCE_MODES.map(mode => (
+                                    <ToggleChip
+                                        key={mode}
+                                        active={modes.includes(mode)}
+                                        label={t(`balance.mode.${mode}`)}
+                                        disabled={running}
+                                        onClick={() => setModes(toggleItem(modes, mode, BALANCE_MODES))}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                        <div>
+                            <h2 className="text-sm font-bold text-slate-400 tracking-widest mb-2">{t('balance.mutators')}</h2>
+                            <div className="flex gap-2">
+                                {BALANCE_MUTATORS.map(mutator => (
+                                    <ToggleChip
+                                        key={mutator}
+                                        active={mutators.includes(mutator)}
+                                        label={t(`balance.mutator.${mutator}`)}
+                                        disabled={running}
+                                        onClick={() => setMutators(toggleItem(mutators, mutator, BALANCE_MUTATORS))}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap gap-6">
+                        <NumberField label={t('balance.matches')} value={matchesPerMatchup} min={1} max={500} disabled={running} onChange={setMatchesPerMatchup} />
+                        <NumberField label={t('balance.maxSeconds')} value={maxSeconds} min={10} max={600} disabled={running} onChange={setMaxSeconds} />
+                        <NumberField label={t('balance.seed')} value={seed} min={0} max={0xffffffff} disabled={running} onChange={setSeed} />
+                    </div>
+                </section>
+
+                {/* 数值覆盖 */}
+                <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800">
+                    <div className="flex justify-between items-center mb-2">
+                        <h2 className="text-lg font-bold text-white tracking-widest">
+                            {t('balance.overrides')}
+                            {overrideCount > 0 && <span className="ml-3 text-xs text-amber-400">{t('balance.overrideCount', { count: overrideCount })}</span>}
+                        </h2>
+                        <div className="flex gap-2">
+                            <button
+                                disabled={overrideCount === 0}
+                                onClick={handleCopy}
+                                className="text-xs px-3 py-1 rounded border border-slate-600 text-slate-400 hover:text-white hover:border-white disabled:opacity-40 transition-colors"
+                            >
+                                {t(copied ? 'balance.copied' : 'balance.copyOverrides')}
+                            </button>
+                            <button
+                                disabled={overrideCount === 0 || running}
+                                onClick={() => { Sound.playUI('CLICK'); setOverrides({}); setCopied(false); }}
+                                className="text-xs px-3 py-1 rounded border border-slate-600 text-slate-400 hover:text-white hover:border-white disabled:opacity-40 transition-colors"
+                            >
+                                {t('balance.resetOverrides')}
+                            </button>
+                        </div>
+                    </div>
+                    <p className="text-xs text-slate-500 mb-4">{t('balance.overridesHint')}</p>
+                    <div className="flex gap-2 mb-4">
+                        {BALANCE_CHARACTERS.map(type => (
+                            <ToggleChip
+                                key={type}
+                                active={editing === type}
+                                label={`${t(`role.${type}`)}${overrides[type] ? ' *' : ''}`}
+                                onClick={() => setEditing(type)}
+                            />
+                        ))}
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                        {getTunableStats(editing).map(([key, base]) => {
+                            const value = overrides[editing]?.[key];
+                            const modified = value !== undefined;
+                            return (
+                                <label key={key} className="flex flex-col gap-1">
+                                    <span className={`text-[11px] font-mono ${modified ? 'text-amber-400' : 'text-slate-500'}`}>
+                                        {key}{modified && <span className="text-slate-600"> ({base})</span>}
+                                    </span>
+                                    <input
+                                        type="number"
+                                        value={modified ? value : base}
+                                        disabled={running}
+                                        onChange={e => setOverride(editing, key, base, e.target.value === '' ? base : Number(e.target.value))}
+                                        className={`px-2 py-1 rounded bg-slate-900 border font-mono text-sm text-white focus:outline-none focus:border-white disabled:opacity-50
+                                            ${modified ? 'border-amber-500' : 'border-slate-700'}`}
+                                    />
+                                </label>
+                            );
+                        })}
+                    </div>
+                </section>
+
+                {/* 运行 */}
+                <div className="flex flex-col gap-3">
+                    {running ? (
+                        <button
+                            onClick={handleCancel}
+                            className="w-full h-14 rounded-xl font-black tracking-widest bg-slate-800 border-2 border-slate-600 text-slate-300 hover:border-white hover:text-white transition-all"
+                        >
+                            {t('balance.cancel')}
+                        </button>
+                    ) : (
+                        <button
+                            disabled={!canRun}
+                            onClick={handleRun}
+                            className="w-full h-14 rounded-xl font-black tracking-widest bg-white text-black hover:bg-slate-200 disabled:bg-slate-800 disabled:text-slate-500 transition-all"
+                        >
+                            {t('balance.run')}
+                        </button>
+                    )}
+                    {running && (
+                        <div>
+                            <div className="h-2 rounded bg-slate-800 overflow-hidden">
+                                <div
+                                    className="h-full bg-blue-500 transition-all"
+                                    style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}
+                                />
+                            </div>
+                            <div className="text-xs font-mono text-slate-500 mt-1 text-right">
+                                {t('balance.progress', progress)}
+                            </div>
+                        </div>
+                    )}
+                    {error && (
+                        <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 rounded px-4 py-2">
+                            {error}
+                        </div>
+                    )}
+                </div>
+
+                {/* 结果 */}
+                {reports.length === 0 && !running && (
+                    <p className="text-center text-slate-600 text-sm">{t('balance.empty')}</p>
+                )}
+                {reports.map(report => {
+                    const previous = previousReports.find(p =>
+                        p.mode === report.mode && p.characters.join() === report.characters.join()
+                    );
+                    return (
+                        <section key={report.mode} className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800 flex flex-col gap-6">
+                            <div className="flex justify-between items-baseline">
+                                <h2 className="text-2xl font-black text-white tracking-widest">{t(`balance.mode.${report.mode}`)}</h2>
+                                <span className="text-xs font-mono text-slate-500">
+                                    {t('balance.totalMatches', { count: report.totalMatches })}
+                                    {report.mutators.length > 0 && ` · ${report.mutators.map(m => t(`balance.mutator.${m}`)).join(' / ')}`}
+                                </span>
+                            </div>
+
+                            <div>
+                                <h3 className="text-sm font-bold text-slate-400 tracking-widest mb-1">{t('balance.winRate')}</h3>
+                                {previous && <p className="text-[11px] text-slate-600 mb-2">{t('balance.deltaHint')}</p>}
+                                <WinRateHeatmap report={report} previous={previous} />
+                            </div>
+
+                            <div>
+                                <h3 className="text-sm font-bold text-slate-400 tracking-widest mb-3">{t('balance.ttk')}</h3>
+                                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                                    {report.matchups.map(matchup => (
+                                        <TTKHistogram key={`${matchup.a}:${matchup.b}`} matchup={matchup} maxSeconds={report.maxSeconds} />
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div>
+                                <h3 className="text-sm font-bold text-slate-400 tracking-widest mb-3">{t('balance.skillShare')}</h3>
+                                <SkillShare report={report} />
+                            </div>
+                        </section>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default BalanceLab;
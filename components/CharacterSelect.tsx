@@ -1,8 +1,9 @@
 import React from 'react';
 import { CharacterType } from '../types';
 import { Sound } from '../sound';
-import { CHARACTER_IMAGES } from '../images';
-import { CHAR_STATS } from '../constants';
+import { getCharacters } from '../characters';
+import type { CharacterDefinition } from '../characters';
+import { t, useLocale } from '../i18n';
 
 interface CharacterSelectProps {
   onSelectCharacter: (type: CharacterType) => void;
@@ -11,21 +12,46 @@ interface CharacterSelectProps {
 }
 
 const CharacterSelect: React.FC<CharacterSelectProps> = ({ onSelectCharacter, onOpenWiki, onBack }) => {
+  useLocale();
+
   const handleSelect = (type: CharacterType) => {
     Sound.playUI('START');
     onSelectCharacter(type);
   };
 
-  const renderAvatar = (type: CharacterType, defaultContent: React.ReactNode, borderColorClass: string) => {
-    const imgSrc = CHARACTER_IMAGES[type].avatar;
-    if (imgSrc) {
-      return (
-        <div className={`absolute -top-6 left-1/2 -translate-x-1/2 w-20 h-20 rounded-full shadow-[0_0_30px_rgba(0,0,0,0.5)] border-4 ${borderColorClass} overflow-hidden bg-slate-900`}>
-          <img src={imgSrc} alt={type} className="w-full h-full object-cover" />
+  const renderCard = ({ type, stats, images, card }: CharacterDefinition) => {
+    if (!card) return null;
+    const theme = stats.uiThemeColor;
+    return (
+      <div
+        key={type}
+        onClick={() => handleSelect(type)}
+        className={`group relative bg-slate-800 rounded-2xl p-6 border-2 border-slate-700 hover:border-${theme}-${card.borderShade} cursor-pointer transition-all hover:scale-105 mt-8`}
+      >
+        {images.avatar ? (
+          <div className={`absolute -top-6 left-1/2 -translate-x-1/2 w-20 h-20 rounded-full shadow-[0_0_30px_rgba(0,0,0,0.5)] border-4 border-${theme}-${card.borderShade} overflow-hidden bg-slate-900`}>
+            <img src={images.avatar} alt={type} className="w-full h-full object-cover" />
+          </div>
+        ) : (
+          <div className={`absolute -top-6 left-1/2 -translate-x-1/2 w-20 h-20 rounded-full bg-${theme}-500 shadow-[0_0_30px_rgba(0,0,0,0.5)] flex items-center justify-center text-4xl border-4 border-slate-800`}>
+            {card.icon}
+          </div>
+        )}
+        <div className="mt-10 text-center">
+          <h2 className={`text-2xl font-bold text-${theme}-${card.titleShade} mb-2`}>{t(`role.${type}`)}</h2>
+          <p className="text-xs text-slate-300 mb-4 italic">{t(card.tagline)}</p>
+          <div className="space-y-1 text-left bg-slate-900/50 p-3 rounded-lg text-xs">
+            <div className="flex justify-between"><span>{t('charSelect.speed')}</span> <span className={card.speed.className}>{t(card.speed.label)}</span></div>
+            <div className="flex justify-between"><span>{t('charSelect.defense')}</span> <span className={card.defense.className}>{t(card.defense.label)}</span></div>
+            <div className="flex justify-between"><span>{t('charSelect.attack')}</span> <span>{t(card.attack)}</span></div>
+          </div>
+          {/* [更新] 机制描述 */}
+          <p className="mt-2 text-[10px] text-slate-500 border-t border-slate-700/50 pt-2">
+            {t(card.mechanics)}
+          </p>
         </div>
-      );
-    }
-    return defaultContent;
+      </div>
+    );
   };
 
   return (
@@ -36,130 +62,21 @@ const CharacterSelect: React.FC<CharacterSelectProps> = ({ onSelectCharacter, on
         onClick={() => { Sound.playUI('CLICK'); onBack(); }}
         className="absolute top-8 left-8 text-slate-400 hover:text-white flex items-center gap-2 uppercase tracking-widest text-sm font-bold transition-colors z-20"
       >
-        <span>← 返回主页</span>
+        <span>{t('common.backHome')}</span>
       </button>
 
       <div className="text-center">
         <h1 className="text-4xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-emerald-400 mb-2">
-          配置出战
+          {t('charSelect.title')}
         </h1>
         <p className="text-xl text-slate-300 font-light tracking-widest animate-pulse">
-          选择你的球
+          {t('charSelect.subtitle')}
         </p>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 max-w-7xl w-full px-4">
 
-        {/* PYRO CARD */}
-        <div
-          onClick={() => handleSelect(CharacterType.PYRO)}
-          className={`group relative bg-slate-800 rounded-2xl p-6 border-2 border-slate-700 hover:border-${CHAR_STATS[CharacterType.PYRO].uiThemeColor}-500 cursor-pointer transition-all hover:scale-105 mt-8`}
-        >
-          {renderAvatar(
-            CharacterType.PYRO,
-            <div className={`absolute -top-6 left-1/2 -translate-x-1/2 w-20 h-20 rounded-full bg-${CHAR_STATS[CharacterType.PYRO].uiThemeColor}-500 shadow-[0_0_30px_rgba(239,68,68,0.6)] flex items-center justify-center text-4xl border-4 border-slate-800`}>
-              🔥
-            </div>,
-            `border-${CHAR_STATS[CharacterType.PYRO].uiThemeColor}-500`
-          )}
-          <div className="mt-10 text-center">
-            <h2 className={`text-2xl font-bold text-${CHAR_STATS[CharacterType.PYRO].uiThemeColor}-400 mb-2`}>火焰球</h2>
-            <p className="text-xs text-slate-300 mb-4 italic">燃尽一切</p>
-            <div className="space-y-1 text-left bg-slate-900/50 p-3 rounded-lg text-xs">
-              <div className="flex justify-between"><span>速度</span> <span className="text-green-400">高</span></div>
-              <div className="flex justify-between"><span>防御</span> <span className="text-red-400">低</span></div>
-              <div className="flex justify-between"><span>攻击</span> <span>火焰喷射</span></div>
-            </div>
-            {/* [更新] 机制描述 */}
-            <p className="mt-2 text-[10px] text-slate-500 border-t border-slate-700/50 pt-2">
-              机制：热能管理 / 持续叠伤 / 引爆全场
-            </p>
-          </div>
-        </div>
-
-        {/* WUKONG CARD */}
-        <div
-          onClick={() => handleSelect(CharacterType.WUKONG)}
-          className={`group relative bg-slate-800 rounded-2xl p-6 border-2 border-slate-700 hover:border-${CHAR_STATS[CharacterType.WUKONG].uiThemeColor}-500 cursor-pointer transition-all hover:scale-105 mt-8`}
-        >
-          {renderAvatar(CharacterType.WUKONG, null, `border-${CHAR_STATS[CharacterType.WUKONG].uiThemeColor}-500`)}
-          <div className="mt-10 text-center">
-            <h2 className={`text-2xl font-bold text-${CHAR_STATS[CharacterType.WUKONG].uiThemeColor}-400 mb-2`}>悟空球</h2>
-            <p className="text-xs text-slate-300 mb-4 italic">齐天大圣</p>
-            <div className="space-y-1 text-left bg-slate-900/50 p-3 rounded-lg text-xs">
-              <div className="flex justify-between"><span>速度</span> <span className="text-green-400">极高</span></div>
-              <div className="flex justify-between"><span>防御</span> <span className="text-yellow-400">中等</span></div>
-              <div className="flex justify-between"><span>攻击</span> <span>金箍棒连招</span></div>
-            </div>
-            {/* [更新] 机制描述 */}
-            <p className="mt-2 text-[10px] text-slate-500 border-t border-slate-700/50 pt-2">
-              机制：三段连招 / 蓄力攻击 / 水上漂
-            </p>
-          </div>
-        </div>
-
-        {/* TANK CARD */}
-        <div
-          onClick={() => handleSelect(CharacterType.TANK)}
-          className={`group relative bg-slate-800 rounded-2xl p-6 border-2 border-slate-700 hover:border-${CHAR_STATS[CharacterType.TANK].uiThemeColor}-500 cursor-pointer transition-all hover:scale-105 mt-8`}
-        >
-          {renderAvatar(CharacterType.TANK, null, `border-${CHAR_STATS[CharacterType.TANK].uiThemeColor}-500`)}
-          <div className="mt-10 text-center">
-            <h2 className={`text-2xl font-bold text-${CHAR_STATS[CharacterType.TANK].uiThemeColor}-400 mb-2`}>坦克球</h2>
-            <p className="text-xs text-slate-300 mb-4 italic">铜墙铁壁</p>
-            <div className="space-y-1 text-left bg-slate-900/50 p-3 rounded-lg text-xs">
-              <div className="flex justify-between"><span>速度</span> <span className="text-red-400">极低</span></div>
-              <div className="flex justify-between"><span>防御</span> <span className="text-green-400">重装甲</span></div>
-              <div className="flex justify-between"><span>攻击</span> <span>重炮 / 轻机枪</span></div>
-            </div>
-            {/* [更新] 机制描述 */}
-            <p className="mt-2 text-[10px] text-slate-500 border-t border-slate-700/50 pt-2">
-              机制：双形态切换 / 召唤无人机
-            </p>
-          </div>
-        </div>
-
-        {/* CAT CARD */}
-        <div
-          onClick={() => handleSelect(CharacterType.CAT)}
-          className={`group relative bg-slate-800 rounded-2xl p-6 border-2 border-slate-700 hover:border-${CHAR_STATS[CharacterType.CAT].uiThemeColor}-400 cursor-pointer transition-all hover:scale-105 mt-8`}
-        >
-          {renderAvatar(CharacterType.CAT, null, `border-${CHAR_STATS[CharacterType.CAT].uiThemeColor}-400`)}
-          <div className="mt-10 text-center">
-            <h2 className={`text-2xl font-bold text-${CHAR_STATS[CharacterType.CAT].uiThemeColor}-300 mb-2`}>猫猫球</h2>
-            <p className="text-xs text-slate-300 mb-4 italic">萌即正义</p>
-            <div className="space-y-1 text-left bg-slate-900/50 p-3 rounded-lg text-xs">
-              <div className="flex justify-between"><span>速度</span> <span className="text-green-400">超音速</span></div>
-              <div className="flex justify-between"><span>防御</span> <span className="text-red-500">纸糊</span></div>
-              <div className="flex justify-between"><span>攻击</span> <span>猫爪/飞扑</span></div>
-            </div>
-            {/* [更新] 机制描述 */}
-            <p className="mt-2 text-[10px] text-slate-500 border-t border-slate-700/50 pt-2">
-              机制：九命复活 / 飞扑控制 / 铲屎官之怒
-            </p>
-          </div>
-        </div>
-
-        {/* MAGIC CARD */}
-        <div
-          onClick={() => handleSelect(CharacterType.MAGIC)}
-          className={`group relative bg-slate-800 rounded-2xl p-6 border-2 border-slate-700 hover:border-${CHAR_STATS[CharacterType.MAGIC].uiThemeColor}-400 cursor-pointer transition-all hover:scale-105 mt-8`}
-        >
-          {renderAvatar(CharacterType.MAGIC, null, `border-${CHAR_STATS[CharacterType.MAGIC].uiThemeColor}-400`)}
-          <div className="mt-10 text-center">
-            <h2 className={`text-2xl font-bold text-${CHAR_STATS[CharacterType.MAGIC].uiThemeColor}-300 mb-2`}>魔法球</h2>
-            <p className="text-xs text-slate-300 mb-4 italic">随机魔法</p>
-            <div className="space-y-1 text-left bg-slate-900/50 p-3 rounded-lg text-xs">
-              <div className="flex justify-between"><span>速度</span> <span className="text-yellow-400">中等</span></div>
-              <div className="flex justify-between"><span>防御</span> <span className="text-yellow-400">中等</span></div>
-              <div className="flex justify-between"><span>攻击</span> <span>随机诅咒</span></div>
-            </div>
-            {/* [更新] 机制描述 */}
-            <p className="mt-2 text-[10px] text-slate-500 border-t border-slate-700/50 pt-2">
-              机制：随机控制 / 三种保命咒 / 黑白形态
-            </p>
-          </div>
-        </div>
+        {getCharacters().filter(c => c.playable).map(renderCard)}
 
       </div>
 
@@ -179,10 +96,10 @@ const CharacterSelect: React.FC<CharacterSelectProps> = ({ onSelectCharacter, on
 
           <div className="flex flex-col items-center relative z-10 text-center">
             <span className="text-xl font-black text-transparent bg-clip-text bg-gradient-to-r from-blue-100 to-purple-100 group-hover:text-white tracking-widest uppercase shadow-black drop-shadow-sm">
-              游戏百科
+              {t('charSelect.wiki')}
             </span>
             <span className="text-[10px] font-bold text-blue-300/80 group-hover:text-blue-100 tracking-[0.2em] uppercase">
-              机制 · 数据 · 图鉴
+              {t('charSelect.wikiSub')}
             </span>
           </div>
 
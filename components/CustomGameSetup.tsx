@@ -1,23 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { CharacterType } from '../types';
+import { AIDifficulty, CharacterType, GameConfig, InputSourceId } from '../types';
 import { Sound } from '../sound';
-import { CHARACTER_IMAGES } from '../images';
-import { CHAR_STATS } from '../constants';
-
-// Localization Map
-const ROLE_NAMES: Record<CharacterType, string> = {
-    [CharacterType.PYRO]: '火焰球',
-    [CharacterType.WUKONG]: '悟空球',
-    [CharacterType.CAT]: '猫猫球',
-    [CharacterType.TANK]: '坦克球',
-    [CharacterType.COACH]: '教练球',
-    [CharacterType.MAGIC]: '魔法球',
-    [CharacterType.ENVIRONMENT]: '环境',
-};
+import { AI_DIFFICULTIES } from '../constants';
+import { getCharacter, getPlayableTypes } from '../characters';
+import { INPUT_SOURCES, INPUT_SOURCE_LABELS } from '../input';
+import { EXAMPLE_SCRIPT, loadScripts } from '../script';
+import { t, useLocale } from '../i18n';
+import type { MessageKey } from '../i18n';
+import ScriptEditor from './ScriptEditor';
 
 // Theme Color to Tailwind Border Class Mapping
 const getThemeBorderClass = (charType: CharacterType): string => {
-    const themeColor = CHAR_STATS[charType]?.uiThemeColor || 'white';
+    const themeColor = getCharacter(charType)?.stats.uiThemeColor || 'white';
     const colorMap: Record<string, string> = {
         'red': 'border-red-500',
         'emerald': 'border-emerald-500',
@@ -29,15 +23,10 @@ const getThemeBorderClass = (charType: CharacterType): string => {
     return colorMap[themeColor] || 'border-white';
 };
 
-export interface GameConfig {
-    mode: 'FFA' | 'TEAM_2V2' | 'TEAM_3V3';
-    players: {
-        type: CharacterType;
-        teamId: number;
-        isBot: boolean;
-        isPlayer: boolean;
-    }[];
-}
+export type { GameConfig };
+
+// 席位的控制者：电脑、脚本机器人，或某个本地输入设备 (同屏多人)
+type SlotController = InputSourceId | 'BOT' | 'SCRIPT';
 
 interface Props {
     onStart: (config: GameConfig) => void;
@@ -45,6 +34,7 @@ interface Props {
 }
 
 const CustomGameSetup: React.FC<Props> = ({ onStart, onBack }) => {
+    useLocale();
     const [mode, setMode] = useState<'FFA' | 'TEAM_2V2' | 'TEAM_3V3'>('FFA');
 
     // 默认配置
@@ -57,9 +47,31 @@ const CustomGameSetup: React.FC<Props> = ({ onStart, onBack }) => {
         5: CharacterType.TANK,
     });
 
-    const availableChars = [
-        CharacterType.PYRO, CharacterType.TANK, CharacterType.WUKONG, CharacterType.CAT, CharacterType.MAGIC
-    ];
+    // 席位控制者 (未设置时 0 号席位为键盘 A，其余为电脑)
+    const [controllers, setControllers] = useState<{ [key: number]: SlotController }>({});
+
+    const getController = (index: number): SlotController =>
+        controllers[index] || (index === 0 ? 'KEYBOARD_A' : 'BOT');
+
+    // [Difficulty] 电脑席位的难度 (未设置时为普通)
+    const [difficulties, setDifficulties] = useState<{ [key: number]: AIDifficulty }>({});
+    const getDifficulty = (index: number): AIDifficulty => difficulties[index] || 'NORMAL';
+
+    const cycleDifficulty = (index: number) => {
+        Sound.playUI('CLICK');
+        const next = AI_DIFFICULTIES[(AI_DIFFICULTIES.indexOf(getDifficulty(index)) + 1) % AI_DIFFICULTIES.length];
+        setDifficulties(prev => ({ ...prev, [index]: next }));
+    };
+
+    // [Script] 本地脚本列表与各脚本席位选用的脚本 (未设置时为示例脚本)
+    const [scripts, setScripts] = useState(() => loadScripts());
+    const [scriptIds, setScriptIds] = useState<{ [key: number]: string }>({});
+    const [editingScriptId, setEditingScriptId] = useState<string | null>(null);
+
+    const getScript = (index: number) =>
+        scripts.find(s => s.id === scriptIds[index]) || scripts.find(s => s.id === EXAMPLE_SCRIPT.id) || EXAMPLE_SCRIPT;
+
+    const availableChars = getPlayableTypes();
 
     // Smart Randomization Logic
     const handleRandomize = () => {
@@ -100,6 +112,18 @@ const CustomGameSetup: React.FC<Props> = ({ onStart, onBack }) => {
 
     const currentSlots = getSlotConfig();
 
+    // 在电脑、脚本与未被其他席位占用的输入设备之间循环切换
+    // (0 号席位不能交给电脑；设为脚本时本地玩家旁观自己的脚本)
+    const cycleController = (index: number) => {
+        Sound.playUI('CLICK');
+        const used = currentSlots.filter(i => i !== index).map(getController);
+        const free = INPUT_SOURCES.filter(src => !used.includes(src));
+        const options: SlotController[] = index === 0 ? [...free, 'SCRIPT'] : ['BOT', 'SCRIPT', ...free];
+        const current = getController(index);
+        const next = options[(options.indexOf(current) + 1) % options.length];
+        setControllers(prev => ({ ...prev, [index]: next }));
+    };
+
     // Removed duplicate validation for FFA
     const isValid = true;
 
@@ -109,7 +133,9 @@ const CustomGameSetup: React.FC<Props> = ({ onStart, onBack }) => {
 
         const playerConfigs = currentSlots.map(idx => {
             let teamId = 0;
-            let isBot = idx !== 0;
+            const controller = getController(idx);
+            const isBot = controller === 'BOT';
+            const isScript = controller === 'SCRIPT';
 
             if (mode === 'FFA') {
                 teamId = idx; // 每个人独立队伍
@@ -123,7 +149,10 @@ const CustomGameSetup: React.FC<Props> = ({ onStart, onBack }) => {
                 type: slots[idx],
                 teamId: teamId,
                 isBot: isBot,
-                isPlayer: idx === 0
+                isPlayer: idx === 0,
+                inputSource: (isBot || isScript) ? undefined : controller as InputSourceId,
+                script: isScript ? getScript(idx).source : undefined,
+                difficulty: isBot ? getDifficulty(idx) : undefined
             };
         });
 
@@ -135,13 +164,19 @@ const CustomGameSetup: React.FC<Props> = ({ onStart, onBack }) => {
 
     const renderSlot = (index: number) => {
         const isPlayer = index === 0;
-        let label = isPlayer ? "玩家" : "电脑";
+        const controller = getController(index);
+        const isScript = controller === 'SCRIPT';
+        const isHuman = controller !== 'BOT' && !isScript;
+        let label = t(isScript ? 'custom.slot.script' : isPlayer ? 'custom.slot.player' : (isHuman ? 'custom.slot.localPlayerFfa' : 'custom.slot.bot'));
         let borderColor = "border-slate-600";
         const isTeamMode = mode !== 'FFA';
 
         if (isTeamMode) {
             const isAlly = (mode === 'TEAM_2V2' && index < 2) || (mode === 'TEAM_3V3' && index < 3);
-            label = isPlayer ? "玩家 (我方)" : (isAlly ? "电脑 (队友)" : "电脑 (敌方)");
+            label = t('custom.slot.withSide', {
+                role: t(isScript ? 'custom.slot.script' : isPlayer ? 'custom.slot.player' : (isHuman ? 'custom.slot.localPlayer' : 'custom.slot.bot')),
+                side: t(isAlly ? (isPlayer ? 'custom.slot.self' : 'custom.slot.ally') : 'custom.slot.enemy')
+            });
             borderColor = isAlly ? "border-blue-500" : "border-red-500";
         }
 
@@ -151,10 +186,48 @@ const CustomGameSetup: React.FC<Props> = ({ onStart, onBack }) => {
 
         return (
             <div key={index} className={`relative ${bgClass} rounded-xl p-3 border-2 ${borderColor} flex flex-col items-center gap-2 ${isTeamMode ? 'w-44 h-full' : ''}`}>
-                <span className={`text-xs font-bold uppercase ${index === 0 ? 'text-yellow-400' : 'text-slate-400'}`}>
+                <span className={`text-xs font-bold uppercase ${isScript ? 'text-emerald-400' : index === 0 ? 'text-yellow-400' : (isHuman ? 'text-cyan-400' : 'text-slate-400')}`}>
                     {label}
                 </span>
 
+                {/* 控制者切换 (电脑 / 脚本 / 本地输入设备) */}
+                <button
+                    onClick={() => cycleController(index)}
+                    className="text-[10px] px-2 py-0.5 rounded border border-slate-600 text-slate-300 hover:border-white hover:text-white transition-colors whitespace-nowrap"
+                >
+                    {t(isScript ? 'custom.slot.scriptAi' : isHuman ? INPUT_SOURCE_LABELS[controller as InputSourceId] : 'custom.slot.botAi')} ⇄
+                </button>
+
+                {/* [Difficulty] 电脑难度切换 */}
+                {controller === 'BOT' && (
+                    <button
+                        onClick={() => cycleDifficulty(index)}
+                        className="text-[10px] px-2 py-0.5 rounded border border-slate-600 text-slate-400 hover:border-white hover:text-white transition-colors whitespace-nowrap"
+                    >
+                        {t(`difficulty.${getDifficulty(index)}`)} ⇅
+                    </button>
+                )}
+
+                {/* [Script] 选择脚本 / 打开编辑器 */}
+                {isScript && (
+                    <div className="flex gap-1 w-full">
+                        <select
+                            value={getScript(index).id}
+                            onChange={e => { Sound.playUI('CLICK'); setScriptIds(prev => ({ ...prev, [index]: e.target.value })); }}
+                            className="flex-1 min-w-0 text-[10px] px-1 py-0.5 rounded bg-slate-950 border border-slate-600 text-slate-200 font-mono"
+                        >
+                            {scripts.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                        <button
+                            onClick={() => { Sound.playUI('CLICK'); setEditingScriptId(getScript(index).id); }}
+                            title={t('custom.editScripts')}
+                            className="text-[10px] px-1.5 py-0.5 rounded border border-slate-600 text-slate-300 hover:border-white hover:text-white transition-colors"
+                        >
+                            ✎
+                        </button>
+                    </div>
+                )}
+
                 <div className={isTeamMode
                     ? "grid grid-cols-2 gap-2 w-full overflow-y-auto scrollbar-hide [&::-webkit-scrollbar]:hidden flex-1 content-start px-1"
                     : "grid grid-cols-2 gap-1"
@@ -165,13 +238,13 @@ const CustomGameSetup: React.FC<Props> = ({ onStart, onBack }) => {
                             onClick={() => handleCharChange(index, c)}
                             className={`w-10 h-10 rounded-lg border-2 overflow-hidden transition-all flex-shrink-0 ${charType === c ? `${getThemeBorderClass(c)} scale-110 shadow-lg` : 'border-transparent opacity-50 hover:opacity-100'}`}
                         >
-                            <img src={CHARACTER_IMAGES[c].avatar} alt={c} className="w-full h-full object-cover" />
+                            <img src={getCharacter(c)?.images.avatar} alt={c} className="w-full h-full object-cover" />
                         </button>
                     ))}
                 </div>
 
                 <div className="mt-1 text-xs text-white font-mono font-bold whitespace-nowrap overflow-hidden text-ellipsis w-full text-center">
-                    {ROLE_NAMES[charType] || charType}
+                    {t(`role.${charType}`)}
                 </div>
             </div>
         );
@@ -184,21 +257,21 @@ const CustomGameSetup: React.FC<Props> = ({ onStart, onBack }) => {
                 onClick={() => { Sound.playUI('CLICK'); onBack(); }}
                 className="absolute top-8 left-8 text-slate-400 hover:text-white flex items-center gap-2 uppercase tracking-widest text-sm font-bold transition-colors"
             >
-                <span>← 返回主页</span>
+                <span>{t('common.backHome')}</span>
             </button>
 
             <h1 className="text-4xl font-black text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-purple-400 mb-2">
-                自定义对局
+                {t('custom.title')}
             </h1>
             <p className="text-slate-500 text-sm uppercase tracking-widest mb-8">Custom Match Setup</p>
 
             {/* Mode Selection */}
             <div className="flex gap-4 mb-10">
-                {[
-                    { id: 'FFA', label: '四人大乱斗', sub: '各自为战' },
-                    { id: 'TEAM_2V2', label: '2 vs 2', sub: '双人组队' },
-                    { id: 'TEAM_3V3', label: '3 vs 3', sub: '三人团战' }
-                ].map((m) => (
+                {([
+                    { id: 'FFA', label: 'custom.mode.FFA', sub: 'custom.mode.FFA.sub' },
+                    { id: 'TEAM_2V2', label: 'custom.mode.TEAM_2V2', sub: 'custom.mode.TEAM_2V2.sub' },
+                    { id: 'TEAM_3V3', label: 'custom.mode.TEAM_3V3', sub: 'custom.mode.TEAM_3V3.sub' }
+                ] as { id: string, label: MessageKey, sub: MessageKey }[]).map((m) => (
                     <button
                         key={m.id}
                         onClick={() => { Sound.playUI('CLICK'); setMode(m.id as any); }}
@@ -208,8 +281,8 @@ const CustomGameSetup: React.FC<Props> = ({ onStart, onBack }) => {
                                 : 'bg-slate-900 border-slate-700 text-slate-400 hover:border-slate-500'
                             }`}
                     >
-                        <span className="font-bold text-lg">{m.label}</span>
-                        <span className="text-xs opacity-60 mt-1">{m.sub}</span>
+                        <span className="font-bold text-lg">{t(m.label)}</span>
+                        <span className="text-xs opacity-60 mt-1">{t(m.sub)}</span>
                     </button>
                 ))}
             </div>
@@ -229,7 +302,7 @@ const CustomGameSetup: React.FC<Props> = ({ onStart, onBack }) => {
                         <span className="text-8xl transition-transform group-hover:scale-110 duration-500 drop-shadow-2xl">🎲</span>
 
                         <div className="text-center z-10">
-                            <h2 className="text-3xl font-black text-white italic tracking-wider">随机分配</h2>
+                            <h2 className="text-3xl font-black text-white italic tracking-wider">{t('custom.randomize')}</h2>
                             <p className="text-indigo-300 text-sm mt-2 font-mono">RANDOMIZE</p>
                         </div>
                     </button>
@@ -277,9 +350,15 @@ const CustomGameSetup: React.FC<Props> = ({ onStart, onBack }) => {
                         : 'bg-slate-800 text-slate-500 cursor-not-allowed'
                     }`}
             >
-                开始游戏
+                {t('custom.start')}
             </button>
 
+            {editingScriptId && (
+                <ScriptEditor
+                    initialId={editingScriptId}
+                    onClose={() => { setScripts(loadScripts()); setEditingScriptId(null); }}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ConsoleCommandError, runConsoleCommand } from '../engine';
+import type { ConsoleContext, Engine } from '../engine';
+import { t, useLocale } from '../i18n';
+
+interface DevConsoleProps {
+    engine: Engine;
+    getContext: () => ConsoleContext;
+    // 命令成功执行后调用 (本局录像随之失效)
+    onCommand: () => void;
+    // Esc 或控制台键 (isCloseKey) 关闭
+    onClose: () => void;
+    isCloseKey: (code: string) => boolean;
+    showReplayNotice: boolean;
+}
+
+interface LogEntry {
+    id: number;
+    command: string;
+    text: string;
+    isError: boolean;
+}
+
+const MAX_LOG_ENTRIES = 8;
+const MAX_HISTORY = 50;
+
+// [Console] 开发者控制台：输入框与最近的执行结果，上下键翻阅历史命令
+const DevConsole: React.FC<DevConsoleProps> = ({ engine, getContext, onCommand, onClose, isCloseKey, showReplayNotice }) => {
+    useLocale();
+    const [line, setLine] = useState('');
+    const [log, setLog] = useState<LogEntry[]>([]);
+    const historyRef = useRef<string[]>([]);
+    const historyIndexRef = useRef(-1);
+    const nextIdRef = useRef(0);
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        inputRef.current?.focus();
+    }, []);
+
+    const submit = () => {
+        const command = line.trim();
+        if (!command) return;
+        let text: string;
+        let isError = false;
+        try {
+            const result = runConsoleCommand(engine, command, getContext());
+            text = t(result.key, result.params);
+            onCommand();
+        } catch (err) {
+            isError = true;
+            text = err instanceof ConsoleCommandError ? t(err.key, err.params) : (err instanceof Error ? err.message : String(err));
+        }
+        setLog(prev => [...prev, { id: nextIdRef.current++, command, text, isError }].slice(-MAX_LOG_ENTRIES));
+        historyRef.current = [command, ...historyRef.current.filter(h => h !== command)].slice(0, MAX_HISTORY);
+        historyIndexRef.current = -1;
+        setLine('');
+    };
+
+    const browseHistory = (delta: number) => {
+        const history = historyRef.current;
+        const index = Math.max(-1, Math.min(history.length - 1, historyIndexRef.current + delta));
+        historyIndexRef.current = index;
+        setLine(index >= 0 ? history[index] : '');
+    };
+
+    // 输入中的按键不能传到窗口上的游戏按键处理 (如绑定为暂停的 Backspace)
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        e.stopPropagation();
+        if (e.code === 'Escape' || isCloseKey(e.code)) {
+            e.preventDefault();
+            onClose();
+        } else if (e.key === 'Enter') {
+            submit();
+        } else if (e.key === 'ArrowUp') {
+            e.preventDefault();
+            browseHistory(1);
+        } else if (e.key === 'ArrowDown') {
+            e.preventDefault();
+            browseHistory(-1);
+        }
+    };
+
+    return (
+        <div className="absolute bottom-24 left-1/2 -translate-x-1/2 w-[640px] max-w-[90vw] bg-slate-950/95 rounded-lg border border-slate-700 shadow-2xl font-mono text-xs z-50">
+            <div className="flex justify-between items-center px-3 py-1.5 border-b border-slate-800">
+                <span className="font-black text-emerald-400 tracking-widest">{t('console.title')}</span>
+                {showReplayNotice && <span className="text-[10px] text-amber-400">{t('console.disabledReplay')}</span>}
+            </div>
+            {log.length > 0 && (
+                <div className="flex flex-col gap-1 px-3 py-2 max-h-48 overflow-y-auto">
+                    {log.map(entry => (
+                        <div key={entry.id}>
+                            <div className="text-slate-500">&gt; {entry.command}</div>
+                            <div className={entry.isError ? 'text-red-400' : 'text-slate-200'}>{entry.text}</div>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div className="flex items-center gap-2 px-3 py-2 border-t border-slate-800">
+                <span className="text-emerald-400">&gt;</span>
+                <input
+                    ref={inputRef}
+                    value={line}
+                    onChange={e => setLine(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    placeholder={t('console.placeholder')}
+                    spellCheck={false}
+                    autoComplete="off"
+                    className="flex-1 bg-transparent text-white outline-none placeholder:text-slate-600"
+                />
+            </div>
+        </div>
+    );
+};
+
+export default DevConsole;
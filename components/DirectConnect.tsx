@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { CharacterType } from '../types';
+import { Sound } from '../sound';
+import { hostPeerMatch, joinPeerMatch, PeerSignalError } from '../net';
+import type { NetError, PeerHost, PeerLink } from '../net';
+import { t, useLocale } from '../i18n';
+import Game from './Game';
+
+interface DirectConnectProps {
+    playerType: CharacterType;
+    onBack: () => void;
+}
+
+type Role = 'HOST' | 'JOIN';
+
+const toError = (e: unknown): NetError => {
+    if (e instanceof PeerSignalError) return { key: e.key };
+    console.warn('Peer signaling failed', e);
+    return { key: 'p2p.error.connect' };
+};
+
+// 好友直连：交换邀请码与应答码后以回滚模式运行 1v1 快速开始
+const DirectConnect: React.FC<DirectConnectProps> = ({ playerType, onBack }) => {
+    useLocale();
+    const [role, setRole] = useState<Role | null>(null);
+    const [host, setHost] = useState<PeerHost | null>(null);
+    const [link, setLink] = useState<PeerLink | null>(null);
+    const [localCode, setLocalCode] = useState('');
+    const [remoteCode, setRemoteCode] = useState('');
+    const [copied, setCopied] = useState(false);
+    const [error, setError] = useState<NetError | null>(null);
+    // 连通后进入对局；之后即使断线也留在对局画面 (由 Game 提示)
+    const [started, setStarted] = useState(false);
+    // 连接状态变化时重新渲染
+    const [, setRevision] = useState(0);
+
+    useEffect(() => {
+        if (!link) return;
+        return link.subscribe(() => {
+            if (link.getStatus() === 'OPEN') setStarted(true);
+            setRevision(r => r + 1);
+        });
+    }, [link]);
+
+    // 离开页面时断开
+    useEffect(() => () => link?.close(), [link]);
+
+    const reset = () => {
+        link?.close();
+        setRole(null);
+        setHost(null);
+        setLink(null);
+        setLocalCode('');
+        setRemoteCode('');
+        setCopied(false);
+        setError(null);
+        setStarted(false);
+    };
+
+    const handleHost = () => {
+        Sound.playUI('CLICK');
+        const created = hostPeerMatch(playerType);
+        setRole('HOST');
+        setHost(created);
+        setLink(created.link);
+        created.offer.then(setLocalCode, e => setError(toError(e)));
+    };
+
+    const handleAcceptAnswer = () => {
+        if (!host) return;
+        Sound.playUI('CLICK');
+        setError(null);
+        host.acceptAnswer(remoteCode).catch(e => setError(toError(e)));
+    };
+
+    const handleCreateAnswer = () => {
+        Sound.playUI('CLICK');
+        setError(null);
+        try {
+            const guest = joinPeerMatch(playerType, remoteCode);
+            setLink(guest.link);
+            guest.answer.then(setLocalCode, e => setError(toError(e)));
+        } catch (e) {
+            setError(toError(e));
+        }
+    };
+
+    const handleCopy = () => {
+        navigator.clipboard?.writeText(localCode).then(() => setCopied(true), () => setCopied(false));
+    };
+
+    const status = link?.getStatus() || 'SIGNALING';
+    const linkError = error || link?.getError();
+    const match = link?.getMatch();
+
+    if (link && match && started) {
+        return (
+            <Game
+                playerType={playerType}
+                peer={link}
+                onExit={() => {
+                    reset();
+                    onBack();
+                }}
+            />
+        );
+    }
+
+    const renderCode = (label: string, value: string, placeholder: string, readOnly: boolean) => (
+        <label className="flex flex-col gap-2">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-widest flex items-center justify-between">
+                {label}
+                {readOnly && value && (
+                    <button onClick={handleCopy} className="text-slate-400 hover:text-white normal-case tracking-normal">
+                        {t(copied ? 'p2p.copied' : 'p2p.copy')}
+                    </button>
+                )}
+            </span>
+            <textarea
+                value={value}
+                readOnly={readOnly}
+                placeholder={placeholder}
+                onChange={e => setRemoteCode(e.target.value)}
+                onFocus={e => readOnly && e.target.select()}
+                rows={4}
+                className="px-4 py-3 rounded-xl bg-slate-900 border border-slate-700 text-white font-mono text-xs break-all resize-none focus:outline-none focus:border-white"
+            />
+        </label>
+    );
+
+    return (
+        <div className="absolute inset-0 bg-slate-950 flex flex-col items-center justify-center p-8 z-50">
+
+            <button
+                onClick={() => { Sound.playUI('CLICK'); reset(); onBack(); }}
+                className="absolute top-8 left-8 text-slate-400 hover:text-white flex items-center gap-2 uppercase tracking-widest text-sm font-bold transition-colors"
+            >
+                <span>{t('common.back')}</span>
+            </button>
+
+            <div className="text-center mb-12">
+                <h1 className="text-4xl font-black text-white tracking-widest mb-2">
+                    {t('p2p.title')}
+                </h1>
+                <p className="text-slate-500 font-mono text-sm uppercase">
+                    {t(`role.${playerType}`)} · PEER TO PEER
+                </p>
+            </div>
+
+            <div className="flex flex-col gap-6 max-w-xl w-full">
+                {!role && (
+                    <div className="grid grid-cols-2 gap-4">
+                        <button
+                            onClick={handleHost}
+                            className="h-24 rounded-xl font-black tracking-widest text-lg bg-gradient-to-r from-emerald-500 to-blue-600 text-white hover:scale-[1.02] transition-all shadow-lg"
+                        >
+                            {t('p2p.host')}
+                        </button>
+                        <button
+                            onClick={() => { Sound.playUI('CLICK'); setRole('JOIN'); }}
+                            className="h-24 rounded-xl font-black tracking-widest text-lg bg-slate-800 border-2 border-slate-600 text-slate-300 hover:border-white hover:text-white transition-all shadow-lg"
+                        >
+                            {t('p2p.join')}
+                        </button>
+                    </div>
+                )}
+
+                {role === 'HOST' && (
+                    <>
+                        <p className="text-sm text-slate-300">{t('p2p.hostHint')}</p>
+                        {renderCode(t('p2p.inviteCode'), localCode, t('p2p.generating'), true)}
+                        {renderCode(t('p2p.answerCode'), remoteCode, '', false)}
+                        <button
+                            disabled={!localCode || !remoteCode.trim() || status !== 'SIGNALING'}
+                            onClick={handleAcceptAnswer}
+                            className="w-full h-14 rounded-xl font-black tracking-widest bg-white text-black hover:bg-slate-200 disabled:bg-slate-800 disabled:text-slate-500 transition-all"
+                        >
+                            {t('p2p.connect')}
+                        </button>
+                    </>
+                )}
+
+                {role === 'JOIN' && (
+                    <>
+                        <p className="text-sm text-slate-300">{t(link ? 'p2p.answerHint' : 'p2p.joinHint')}</p>
+                        {link
+                            ? renderCode(t('p2p.answerCode'), localCode, t('p2p.generating'), true)
+                            : renderCode(t('p2p.inviteCode'), remoteCode, '', false)}
+                        {!link && (
+                            <button
+                                disabled={!remoteCode.trim()}
+                                onClick={handleCreateAnswer}
+                                className="w-full h-14 rounded-xl font-black tracking-widest bg-white text-black hover:bg-slate-200 disabled:bg-slate-800 disabled:text-slate-500 transition-all"
+                            >
+                                {t('p2p.createAnswer')}
+                            </button>
+                        )}
+                    </>
+                )}
+
+                {link && (
+                    <div className={`text-center text-sm text-slate-300 ${status === 'CONNECTING' ? 'animate-pulse' : ''}`}>
+                        {t(`p2p.status.${status}`)}
+                    </div>
+                )}
+
+                {linkError && (
+                    <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 rounded px-4 py-2">
+                        {t(linkError.key, linkError.params)}
+                    </div>
+                )}
+
+                <p className="text-xs text-slate-600">{t('p2p.hint')}</p>
+            </div>
+        </div>
+    );
+};
+
+export default DirectConnect;
@@ -1,14 +1,29 @@
 import React from 'react';
 import { Sound } from '../sound';
+import { updateSettings } from '../settings';
+import { LOCALES, LOCALE_NAMES, t, useLocale } from '../i18n';
+import type { MessageKey } from '../i18n';
 
 interface HomeProps {
     onQuickStart: () => void;
     onOpenSettings: () => void;
     onCustomGame: () => void;
     onOpenWiki: () => void;
+    onOpenReplay: () => void;
+    onOnlineGame: () => void;
+    onOpenBalanceLab: () => void;
 }
 
-const Home: React.FC<HomeProps> = ({ onQuickStart, onOpenSettings, onCustomGame, onOpenWiki }) => {
+const NAV_ITEMS: { icon: string, label: MessageKey, id: string }[] = [
+    { icon: '📖', label: 'home.nav.wiki', id: 'wiki' },
+    { icon: '⚖️', label: 'home.nav.balanceLab', id: 'balance' },
+    { icon: '🏆', label: 'home.nav.rank', id: 'rank' },
+    { icon: '📼', label: 'home.nav.replay', id: 'replay' },
+    { icon: 'ℹ️', label: 'home.nav.about', id: 'about' },
+];
+
+const Home: React.FC<HomeProps> = ({ onQuickStart, onOpenSettings, onCustomGame, onOpenWiki, onOpenReplay, onOnlineGame, onOpenBalanceLab }) => {
+    const locale = useLocale();
 
     const handleStart = () => {
         Sound.playUI('CLICK');
@@ -20,6 +35,12 @@ const Home: React.FC<HomeProps> = ({ onQuickStart, onOpenSettings, onCustomGame,
         onOpenSettings();
     };
 
+    // 快捷切换到下一种语言
+    const handleSwitchLocale = () => {
+        Sound.playUI('CLICK');
+        updateSettings({ language: LOCALES[(LOCALES.indexOf(locale) + 1) % LOCALES.length] });
+    };
+
     return (
         // 外层容器：使用 flex column 布局整个屏幕
         <div className="w-full h-screen bg-slate-950 relative overflow-hidden font-sans select-none flex flex-col">
@@ -52,6 +73,12 @@ const Home: React.FC<HomeProps> = ({ onQuickStart, onOpenSettings, onCustomGame,
 
                 {/* System Tray */}
                 <div className="flex gap-3">
+                    <button
+                        onClick={handleSwitchLocale}
+                        className="h-10 px-4 rounded-full bg-slate-900/80 border border-slate-700 text-slate-400 text-xs font-bold flex items-center justify-center hover:text-white hover:border-slate-500 transition-all"
+                    >
+                        🌐 {LOCALE_NAMES[locale]}
+                    </button>
                     <button className="w-10 h-10 rounded-full bg-slate-900/80 border border-slate-700 text-slate-400 flex items-center justify-center hover:text-white hover:border-slate-500 transition-all">
                         📢
                     </button>
@@ -71,7 +98,7 @@ const Home: React.FC<HomeProps> = ({ onQuickStart, onOpenSettings, onCustomGame,
                 {/* Main Title / Logo Area (屏幕中间偏上) */}
                 <div className="text-center absolute top-[20%] left-1/2 transform -translate-x-1/2 z-10">
                     <h1 className="text-7xl font-black tracking-tight text-transparent bg-clip-text bg-gradient-to-br from-blue-400 via-emerald-400 to-purple-500 drop-shadow-lg">
-                        球之域
+                        {t('common.gameTitle')}
                     </h1>
                     <p className="text-lg text-slate-400 font-light tracking-[0.5em] uppercase mt-2">
                         REALM OF BALLS
@@ -91,7 +118,7 @@ const Home: React.FC<HomeProps> = ({ onQuickStart, onOpenSettings, onCustomGame,
                         <div className="absolute inset-0 bg-white/20 rounded-xl opacity-0 group-hover:opacity-100 transition-opacity"></div>
 
                         <span className="text-4xl font-black text-white italic tracking-widest uppercase flex items-center gap-4 drop-shadow-md">
-                            <span>🚀</span> 快速开始
+                            <span>🚀</span> {t('home.quickStart')}
                         </span>
                         <span className="text-[10px] font-bold text-emerald-100 tracking-[0.4em] uppercase opacity-80">
                             Quick Match
@@ -100,39 +127,44 @@ const Home: React.FC<HomeProps> = ({ onQuickStart, onOpenSettings, onCustomGame,
 
                     {/* Game Modes Selector */}
                     <div className="flex flex-col items-center gap-2">
-                        <span className="text-[10px] text-slate-500 uppercase tracking-widest">切换模式</span>
+                        <span className="text-[10px] text-slate-500 uppercase tracking-widest">{t('home.switchMode')}</span>
                         <button
                             onClick={() => { Sound.playUI('CLICK'); onCustomGame(); }}
                             className="group px-6 py-2.5 bg-slate-900/60 border border-slate-700 hover:border-blue-500/50 rounded-full text-slate-300 hover:text-white transition-all flex items-center gap-3 backdrop-blur-md"
                         >
                             <span className="w-2 h-2 rounded-full bg-emerald-500 shadow-[0_0_8px_#10b981] animate-pulse"></span>
-                            <span className="text-sm font-bold uppercase tracking-wider">自定义 / 多人</span>
+                            <span className="text-sm font-bold uppercase tracking-wider">{t('home.customGame')}</span>
                             <span className="text-xs text-slate-600 group-hover:text-blue-400 ml-2">⇄</span>
                         </button>
+                        <button
+                            onClick={() => { Sound.playUI('CLICK'); onOnlineGame(); }}
+                            className="group px-6 py-2.5 bg-slate-900/60 border border-slate-700 hover:border-purple-500/50 rounded-full text-slate-300 hover:text-white transition-all flex items-center gap-3 backdrop-blur-md"
+                        >
+                            <span className="w-2 h-2 rounded-full bg-purple-500 shadow-[0_0_8px_#a855f7]"></span>
+                            <span className="text-sm font-bold uppercase tracking-wider">{t('home.onlineGame')}</span>
+                            <span className="text-xs text-slate-600 group-hover:text-purple-400 ml-2">🌐</span>
+                        </button>
                     </div>
                 </div>
             </div>
 
             {/* --- Bottom Nav --- */}
             <div className="absolute bottom-10 left-0 w-full flex justify-center gap-10 z-10">
-                {[
-                    { icon: '📖', label: '百科', id: 'wiki' },
-                    { icon: '🏆', label: '排行', id: 'rank' },
-                    { icon: '📼', label: '回放', id: 'replay' },
-                    { icon: 'ℹ️', label: '关于', id: 'about' },
-                ].map((item) => (
+                {NAV_ITEMS.map((item) => (
                     <button
                         key={item.id}
                         className="flex flex-col items-center gap-2 group text-slate-500 hover:text-blue-400 transition-colors"
                         onClick={() => {
                             Sound.playUI('CLICK');
                             if (item.id === 'wiki') onOpenWiki();
+                            if (item.id === 'replay') onOpenReplay();
+                            if (item.id === 'balance') onOpenBalanceLab();
                         }}
                     >
                         <div className="w-14 h-14 rounded-2xl bg-slate-900/80 border border-slate-800 group-hover:border-blue-500/50 flex items-center justify-center text-2xl shadow-lg transition-all group-hover:-translate-y-2">
                             {item.icon}
                         </div>
-                        <span className="text-[10px] font-bold tracking-widest opacity-60 group-hover:opacity-100 uppercase">{item.label}</span>
+                        <span className="text-[10px] font-bold tracking-widest opacity-60 group-hover:opacity-100 uppercase">{t(item.label)}</span>
                     </button>
                 ))}
             </div>
@@ -1,4 +1,5 @@
 import React, { useEffect, useState } from 'react';
+import { t } from '../i18n';
 
 interface IntroScreenProps {
   onEnter: () => void;
@@ -37,7 +38,7 @@ const IntroScreen: React.FC<IntroScreenProps> = ({ onEnter }) => {
           <div className="mb-8 relative group">
             <div className="absolute -inset-8 bg-gradient-to-r from-blue-500/20 via-emerald-500/20 to-purple-500/20 blur-2xl rounded-full opacity-0 group-hover:opacity-100 transition-opacity duration-1000"></div>
             <h1 className="relative text-8xl md:text-9xl font-black text-transparent bg-clip-text bg-gradient-to-br from-blue-400 via-emerald-400 to-purple-500 tracking-tighter drop-shadow-2xl">
-              球之域
+              {t('common.gameTitle')}
             </h1>
           </div>
           
@@ -51,7 +52,7 @@ const IntroScreen: React.FC<IntroScreenProps> = ({ onEnter }) => {
        {/* Prompt */}
        <div className={`absolute bottom-24 transition-opacity duration-1000 delay-1000 ${mounted ? 'opacity-100' : 'opacity-0'}`}>
            <span className="inline-flex items-center gap-3 px-8 py-3 rounded-full border border-slate-800 bg-slate-900/50 backdrop-blur text-slate-400 text-sm tracking-widest uppercase hover:bg-slate-800 hover:text-white transition-all hover:scale-105 hover:border-slate-600 shadow-lg animate-bounce">
-              <span>点击开始</span>
+              <span>{t('intro.clickToStart')}</span>
               <span className="text-xs opacity-50">/</span>
               <span>Click to Start</span>
            </span>
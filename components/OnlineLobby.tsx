@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { CharacterType } from '../types';
+import { CHAR_STATS } from '../constants';
+import { Sound } from '../sound';
+import { DEFAULT_SERVER_PORT, ONLINE_CHARACTERS, connectToServer } from '../net';
+import type { NetSession } from '../net';
+import { STORAGE_KEYS, loadJSON, saveJSON } from '../storage';
+import { t, useLocale } from '../i18n';
+import Game from './Game';
+
+interface OnlineLobbyProps {
+    onBack: () => void;
+}
+
+const getDefaultServerUrl = () => `ws://${window.location.hostname || 'localhost'}:${DEFAULT_SERVER_PORT}`;
+
+// 联机匹配页：连接服务器并排队，匹配成功后以联机模式运行 Game
+const OnlineLobby: React.FC<OnlineLobbyProps> = ({ onBack }) => {
+    useLocale();
+    const [serverUrl, setServerUrl] = useState(() => loadJSON<string>(STORAGE_KEYS.ONLINE_SERVER) || getDefaultServerUrl());
+    const [playerType, setPlayerType] = useState<CharacterType>(CharacterType.PYRO);
+    const [session, setSession] = useState<NetSession | null>(null);
+    // 会话状态变化时重新渲染
+    const [, setRevision] = useState(0);
+
+    useEffect(() => {
+        if (!session) return;
+        return session.subscribe(() => setRevision(r => r + 1));
+    }, [session]);
+
+    // 离开页面时断开
+    useEffect(() => () => session?.close(), [session]);
+
+    const handleFindMatch = () => {
+        Sound.playUI('CLICK');
+        saveJSON(STORAGE_KEYS.ONLINE_SERVER, serverUrl);
+        setSession(connectToServer(serverUrl.trim(), playerType));
+    };
+
+    const handleCancel = () => {
+        Sound.playUI('CLICK');
+        session?.close();
+        setSession(null);
+    };
+
+    const status = session?.getStatus() || 'CLOSED';
+    const error = session?.getError();
+    const match = session?.getMatch();
+    const isSearching = status === 'CONNECTING' || status === 'WAITING';
+
+    if (session && match) {
+        return (
+            <Game
+                playerType={playerType}
+                customConfig={match.config}
+                online={session}
+                onExit={() => {
+                    session.close();
+                    setSession(null);
+                }}
+            />
+        );
+    }
+
+    return (
+        <div className="absolute inset-0 bg-slate-950 flex flex-col items-center justify-center p-8 z-50">
+
+            <button
+                onClick={() => { Sound.playUI('CLICK'); onBack(); }}
+                className="absolute top-8 left-8 text-slate-400 hover:text-white flex items-center gap-2 uppercase tracking-widest text-sm font-bold transition-colors"
+            >
+                <span>{t('common.back')}</span>
+            </button>
+
+            <div className="text-center mb-12">
+                <h1 className="text-4xl font-black text-white tracking-widest mb-2">
+                    {t('online.title')}
+                </h1>
+                <p className="text-slate-500 font-mono text-sm uppercase">
+                    ONLINE PVP
+                </p>
+            </div>
+
+            <div className="flex flex-col gap-6 max-w-xl w-full">
+                {/* 服务器地址 */}
+                <label className="flex flex-col gap-2">
+                    <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">{t('online.serverUrl')}</span>
+                    <input
+                        type="text"
+                        value={serverUrl}
+                        disabled={isSearching}
+                        onChange={e => setServerUrl(e.target.value)}
+                        className="px-4 py-3 rounded-xl bg-slate-900 border border-slate-700 text-white font-mono focus:outline-none focus:border-white disabled:text-slate-500"
+                    />
+                </label>
+
+                {/* 角色 */}
+                <div className="flex flex-col gap-2">
+                    <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">{t('online.character')}</span>
+                    <div className="grid grid-cols-5 gap-2">
+                        {ONLINE_CHARACTERS.map(type => {
+                            const color = CHAR_STATS[type].uiThemeColor;
+                            const selected = playerType === type;
+                            return (
+                                <button
+                                    key={type}
+                                    disabled={isSearching}
+                                    onClick={() => { Sound.playUI('HOVER'); setPlayerType(type); }}
+                                    className={`px-2 py-3 rounded-xl border-2 text-sm font-bold transition-all
+                                        ${selected
+                                            ? `bg-${color}-600 border-${color}-400 text-white`
+                                            : 'bg-slate-800 border-slate-700 text-slate-400 hover:border-slate-500 hover:text-white'}`}
+                                >
+                                    {t(`role.${type}`)}
+                                </button>
+                            );
+                        })}
+                    </div>
+                </div>
+
+                {/* 匹配 */}
+                <button
+                    onClick={isSearching ? handleCancel : handleFindMatch}
+                    className={`w-full h-16 rounded-xl font-black tracking-widest text-lg transition-all shadow-lg
+                        ${isSearching
+                            ? 'bg-slate-800 border-2 border-slate-600 text-slate-300 hover:border-white hover:text-white'
+                            : 'bg-gradient-to-r from-emerald-500 to-blue-600 text-white hover:scale-[1.02]'}`}
+                >
+                    {t(isSearching ? 'online.cancel' : 'online.findMatch')}
+                </button>
+
+                {isSearching && (
+                    <div className="text-center text-sm text-slate-300 animate-pulse">
+                        {t(`online.status.${status}`)}
+                    </div>
+                )}
+
+                {error && (
+                    <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 rounded px-4 py-2">
+                        {t(error.key, error.params)}
+                    </div>
+                )}
+
+                <p className="text-xs text-slate-600">{t('online.hint')}</p>
+            </div>
+        </div>
+    );
+};
+
+export default OnlineLobby;
@@ -1,15 +1,24 @@
 import React from 'react';
-import { CharacterType } from '../types';
+import { AIDifficulty, CharacterType } from '../types';
 import { Sound } from '../sound';
-import { CHARACTER_IMAGES } from '../images';
-import { CHAR_STATS } from '../constants';
+import { AI_DIFFICULTIES } from '../constants';
+import { getCharacter, getCharacters } from '../characters';
+import { t, useLocale } from '../i18n';
 
 interface OpponentSelectProps {
+    // [Difficulty] 电脑对手的难度
+    difficulty: AIDifficulty;
+    onDifficultyChange: (difficulty: AIDifficulty) => void;
     onSelectOpponent: (type: CharacterType | 'RANDOM') => void;
+    // [Training] 进入训练场
+    onTraining: () => void;
+    // [Rollback] 与好友点对点对战
+    onDirectConnect: () => void;
     onBack: () => void;
 }
 
-const OpponentSelect: React.FC<OpponentSelectProps> = ({ onSelectOpponent, onBack }) => {
+const OpponentSelect: React.FC<OpponentSelectProps> = ({ difficulty, onDifficultyChange, onSelectOpponent, onTraining, onDirectConnect, onBack }) => {
+    useLocale();
 
     const handleSelect = (type: CharacterType | 'RANDOM') => {
         Sound.playUI('START');
@@ -17,14 +26,13 @@ const OpponentSelect: React.FC<OpponentSelectProps> = ({ onSelectOpponent, onBac
     };
 
     // 渲染对手卡片辅助函数
-    const renderCard = (label: string, type: CharacterType | 'RANDOM' | 'TRAINING', color: string, icon: React.ReactNode) => {
-        const isTraining = type === 'TRAINING';
+    const renderCard = (label: string, type: CharacterType | 'RANDOM', color: string, icon: React.ReactNode) => {
         const isRandom = type === 'RANDOM';
 
         // 如果是具体角色，获取头像
         let avatar = icon;
-        if (type !== 'RANDOM' && type !== 'TRAINING') {
-            const imgSrc = CHARACTER_IMAGES[type as CharacterType].avatar;
+        if (type !== 'RANDOM') {
+            const imgSrc = getCharacter(type)?.images.avatar;
             if (imgSrc) {
                 avatar = <img src={imgSrc} alt={label} className="w-full h-full object-cover opacity-80 group-hover:opacity-100 transition-opacity" />;
             }
@@ -32,16 +40,13 @@ const OpponentSelect: React.FC<OpponentSelectProps> = ({ onSelectOpponent, onBac
 
         return (
             <button
-                disabled={isTraining}
-                onClick={() => !isTraining && handleSelect(type as CharacterType | 'RANDOM')}
+                key={type}
+                onClick={() => handleSelect(type)}
                 className={`group relative h-64 rounded-2xl border-2 transition-all duration-300 overflow-hidden flex flex-col items-center justify-end pb-6
-                ${isTraining
-                        ? 'border-slate-800 bg-slate-900/50 cursor-not-allowed opacity-50 grayscale'
-                        : `border-slate-700 bg-slate-800 hover:border-${color}-500 hover:scale-105 hover:shadow-[0_0_20px_rgba(var(--color-${color}),0.3)]`
-                    }
+                border-slate-700 bg-slate-800 hover:border-${color}-500 hover:scale-105 hover:shadow-[0_0_20px_rgba(var(--color-${color}),0.3)]
             `}
                 //这行是为了给hover动态颜色做简单的内联处理，实际项目中推荐Tailwind safelist
-                style={!isTraining && !isRandom ? { borderColor: undefined } : {}}
+                style={!isRandom ? { borderColor: undefined } : {}}
             >
                 {/* 背景图/头像容器 */}
                 <div className="absolute inset-0 bg-slate-900 flex items-center justify-center text-6xl">
@@ -53,17 +58,14 @@ const OpponentSelect: React.FC<OpponentSelectProps> = ({ onSelectOpponent, onBac
 
                 {/* 文字标签 */}
                 <div className="relative z-10 text-center">
-                    <h3 className={`text-xl font-bold mb-1 ${isTraining ? 'text-slate-600' : 'text-white group-hover:text-' + color + '-400'}`}>
+                    <h3 className={`text-xl font-bold mb-1 text-white group-hover:text-${color}-400`}>
                         {label}
                     </h3>
-                    {isRandom && <span className="text-xs text-slate-400">随机挑战</span>}
-                    {isTraining && <span className="text-xs text-slate-600 border border-slate-700 px-2 py-0.5 rounded">开发中</span>}
+                    {isRandom && <span className="text-xs text-slate-400">{t('oppSelect.randomChallenge')}</span>}
                 </div>
 
                 {/* 选中高亮框 (Hover effect handled by CSS classes mostly) */}
-                {!isTraining && (
-                    <div className={`absolute inset-0 border-2 border-transparent group-hover:border-${color}-500/50 rounded-2xl transition-colors`}></div>
-                )}
+                <div className={`absolute inset-0 border-2 border-transparent group-hover:border-${color}-500/50 rounded-2xl transition-colors`}></div>
             </button>
         );
     };
@@ -75,18 +77,35 @@ const OpponentSelect: React.FC<OpponentSelectProps> = ({ onSelectOpponent, onBac
                 onClick={() => { Sound.playUI('CLICK'); onBack(); }}
                 className="absolute top-8 left-8 text-slate-400 hover:text-white flex items-center gap-2 uppercase tracking-widest text-sm font-bold transition-colors"
             >
-                <span>← 重选角色</span>
+                <span>{t('oppSelect.back')}</span>
             </button>
 
-            <div className="text-center mb-12">
+            <div className="text-center mb-8">
                 <h1 className="text-4xl font-black text-white tracking-widest mb-2">
-                    选择对手
+                    {t('oppSelect.title')}
                 </h1>
                 <p className="text-slate-500 font-mono text-sm uppercase">
                     CHOOSE YOUR OPPONENT
                 </p>
             </div>
 
+            {/* 电脑难度 */}
+            <div className="flex items-center gap-3 mb-8">
+                <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">{t('oppSelect.difficulty')}</span>
+                <div className="flex gap-1">
+                    {AI_DIFFICULTIES.map(d => (
+                        <button
+                            key={d}
+                            onClick={() => { Sound.playUI('CLICK'); onDifficultyChange(d); }}
+                            className={`px-4 py-1.5 rounded-lg border text-sm font-bold transition-colors
+                                ${difficulty === d ? 'bg-white text-slate-900 border-white' : 'bg-slate-800 text-slate-400 border-slate-700 hover:border-white hover:text-white'}`}
+                        >
+                            {t(`difficulty.${d}`)}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
             <div className="grid grid-cols-3 gap-6 max-w-5xl w-full">
                 {/* 1. 随机 (最醒目) */}
                 <div className="col-span-1 row-span-2">
@@ -97,7 +116,7 @@ const OpponentSelect: React.FC<OpponentSelectProps> = ({ onSelectOpponent, onBac
                         <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/cubes.png')] opacity-10"></div>
                         <span className="text-8xl transition-transform group-hover:scale-125 duration-500">🎲</span>
                         <div className="text-center z-10">
-                            <h2 className="text-3xl font-black text-white italic">随机对手</h2>
+                            <h2 className="text-3xl font-black text-white italic">{t('oppSelect.random')}</h2>
                             <p className="text-slate-400 text-sm mt-2">RANDOM</p>
                         </div>
                     </button>
@@ -105,29 +124,41 @@ const OpponentSelect: React.FC<OpponentSelectProps> = ({ onSelectOpponent, onBac
 
                 {/* 2. 具体角色列表 */}
                 <div className="col-span-2 grid grid-cols-4 gap-4">
-                    {renderCard("火焰球", CharacterType.PYRO, CHAR_STATS[CharacterType.PYRO].uiThemeColor, "🔥")}
-                    {renderCard("坦克球", CharacterType.TANK, CHAR_STATS[CharacterType.TANK].uiThemeColor, "🛡️")}
-                    {renderCard("悟空球", CharacterType.WUKONG, CHAR_STATS[CharacterType.WUKONG].uiThemeColor, "🐵")}
-                    {renderCard("猫猫球", CharacterType.CAT, CHAR_STATS[CharacterType.CAT].uiThemeColor, "🐱")}
-                    {renderCard("魔法球", CharacterType.MAGIC, CHAR_STATS[CharacterType.MAGIC].uiThemeColor, "🔮")}
+                    {getCharacters().filter(c => c.playable).map(({ type, stats, card }) =>
+                        renderCard(t(`role.${type}`), type, stats.uiThemeColor, card?.icon)
+                    )}
                 </div>
 
                 {/* 3. 训练靶场 */}
                 <div className="col-span-2">
                     <button
-                        onClick={() => handleSelect(CharacterType.COACH)}
+                        onClick={() => { Sound.playUI('START'); onTraining(); }}
                         className="group w-full h-24 bg-slate-800 border-2 border-dashed border-slate-600 hover:border-white hover:bg-slate-700 rounded-xl flex items-center justify-center gap-4 text-slate-400 hover:text-white transition-all shadow-lg"
                     >
                         <span className="text-4xl group-hover:scale-110 transition-transform">🎯</span>
                         <div className="text-left">
-                            <span className="block font-black tracking-widest text-lg">训练靶场</span>
-                            <span className="text-xs font-mono opacity-60">TESTING RANGE</span>
+                            <span className="block font-black tracking-widest text-lg">{t('oppSelect.trainingRange')}</span>
+                            <span className="text-xs opacity-60">{t('oppSelect.trainingHint')}</span>
                         </div>
                         <span className="ml-auto mr-8 text-xs bg-emerald-500/20 text-emerald-400 px-2 py-1 rounded border border-emerald-500/50">
                             OPEN
                         </span>
                     </button>
                 </div>
+
+                {/* 4. 好友直连 */}
+                <div className="col-span-3">
+                    <button
+                        onClick={() => { Sound.playUI('CLICK'); onDirectConnect(); }}
+                        className="group w-full h-20 bg-slate-800 border-2 border-slate-600 hover:border-purple-500 hover:bg-slate-700 rounded-xl flex items-center justify-center gap-4 text-slate-400 hover:text-white transition-all shadow-lg"
+                    >
+                        <span className="text-3xl group-hover:scale-110 transition-transform">🤝</span>
+                        <div className="text-left">
+                            <span className="block font-black tracking-widest text-lg">{t('oppSelect.directConnect')}</span>
+                            <span className="text-xs font-mono opacity-60">PEER TO PEER</span>
+                        </div>
+                    </button>
+                </div>
             </div>
         </div>
     );
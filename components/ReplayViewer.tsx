@@ -0,0 +1,136 @@
+import React, { useRef, useState } from 'react';
+import { Sound } from '../sound';
+import { ReplayParseError, parseReplay } from '../engine';
+import type { ReplayData } from '../engine';
+import { STORAGE_KEYS, loadJSON, readJSONFile } from '../storage';
+import { t, useLocale } from '../i18n';
+import Game from './Game';
+
+interface ReplayViewerProps {
+    onBack: () => void;
+}
+
+const formatDuration = (replay: ReplayData) => {
+    const totalSec = Math.floor(replay.totalTicks / replay.tickRate);
+    return `${Math.floor(totalSec / 60)}:${(totalSec % 60).toString().padStart(2, '0')}`;
+};
+
+// 录像选择页：读取最近一局或导入 .json 录像文件，选中后以回放模式运行 Game
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ onBack }) => {
+    const locale = useLocale();
+    const [replay, setReplay] = useState<ReplayData | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const [lastReplay] = useState<ReplayData | null>(() => {
+        const raw = loadJSON<unknown>(STORAGE_KEYS.LAST_REPLAY);
+        if (!raw) return null;
+        try {
+            return parseReplay(raw);
+        } catch {
+            return null;
+        }
+    });
+
+    const openReplay = (data: ReplayData) => {
+        Sound.playUI('START');
+        setError(null);
+        setReplay(data);
+    };
+
+    const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        readJSONFile(file)
+            .then(raw => openReplay(parseReplay(raw)))
+            .catch(err => setError(
+                err instanceof ReplayParseError ? t(err.key, err.params) : (err instanceof Error ? err.message : String(err))
+            ));
+    };
+
+    if (replay) {
+        return (
+            <Game
+                playerType={replay.playerType}
+                enemyType={replay.enemyType}
+                enemyDifficulty={replay.enemyDifficulty}
+                customConfig={replay.customConfig}
+                replay={replay}
+                onExit={() => setReplay(null)}
+            />
+        );
+    }
+
+    return (
+        <div className="absolute inset-0 bg-slate-950 flex flex-col items-center justify-center p-8 z-50">
+
+            <button
+                onClick={() => { Sound.playUI('CLICK'); onBack(); }}
+                className="absolute top-8 left-8 text-slate-400 hover:text-white flex items-center gap-2 uppercase tracking-widest text-sm font-bold transition-colors"
+            >
+                <span>{t('common.back')}</span>
+            </button>
+
+            <div className="text-center mb-12">
+                <h1 className="text-4xl font-black text-white tracking-widest mb-2">
+                    {t('replay.title')}
+                </h1>
+                <p className="text-slate-500 font-mono text-sm uppercase">
+                    REPLAY VIEWER
+                </p>
+            </div>
+
+            <div className="flex flex-col gap-4 max-w-xl w-full">
+                {/* 最近一局 */}
+                <button
+                    disabled={!lastReplay}
+                    onClick={() => lastReplay && openReplay(lastReplay)}
+                    className={`group w-full p-6 rounded-xl border-2 flex items-center gap-4 transition-all text-left
+                        ${lastReplay
+                            ? 'bg-slate-800 border-slate-600 hover:border-white hover:bg-slate-700 text-white'
+                            : 'bg-slate-900/50 border-slate-800 text-slate-600 cursor-not-allowed'}`}
+                >
+                    <span className="text-4xl">📼</span>
+                    <div className="flex-1">
+                        <span className="block font-black tracking-widest text-lg">{t('replay.latest')}</span>
+                        {lastReplay ? (
+                            <span className="text-xs font-mono text-slate-400">
+                                {t(`role.${lastReplay.playerType}`)}
+                                {' · '}{lastReplay.customConfig ? t('replay.custom', { count: lastReplay.customConfig.players.length }) : '1v1'}
+                                {' · '}{formatDuration(lastReplay)}
+                                {' · '}{new Date(lastReplay.createdAt).toLocaleString(locale)}
+                            </span>
+                        ) : (
+                            <span className="text-xs font-mono">{t('replay.none')}</span>
+                        )}
+                    </div>
+                </button>
+
+                {/* 导入文件 */}
+                <button
+                    onClick={() => { Sound.playUI('CLICK'); fileInputRef.current?.click(); }}
+                    className="group w-full h-20 bg-slate-800 border-2 border-dashed border-slate-600 hover:border-white hover:bg-slate-700 rounded-xl flex items-center justify-center gap-4 text-slate-400 hover:text-white transition-all shadow-lg"
+                >
+                    <span className="text-3xl">📂</span>
+                    <span className="font-black tracking-widest">{t('replay.import')}</span>
+                </button>
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={handleFile}
+                />
+
+                {error && (
+                    <div className="text-sm text-red-400 bg-red-950/50 border border-red-800 rounded px-4 py-2">
+                        {error}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,195 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CharacterType } from '../types';
+import { SIM_CONFIG } from '../constants';
+import { Sound } from '../sound';
+import { createEngine, SILENT_AUDIO } from '../engine';
+import {
+    buildScriptObservation, createScriptBot, createScriptId, loadScripts, saveScripts, SCRIPT_TICK_BUDGET_MS, toScriptInput
+} from '../script';
+import type { BotScript, ScriptBotStats } from '../script';
+import { t, useLocale } from '../i18n';
+
+interface ScriptEditorProps {
+    // 打开时选中的脚本
+    initialId?: string;
+    onClose: () => void;
+}
+
+// 试运行的模拟步数 (2 秒)
+const TEST_TICKS = 120;
+
+const NEW_SCRIPT_SOURCE = 'export function think(obs) {\n    return {};\n}\n';
+
+// 脚本编辑器：管理本地脚本，并在一局无头对局中试运行 (火焰球对电脑坦克)
+const ScriptEditor: React.FC<ScriptEditorProps> = ({ initialId, onClose }) => {
+    useLocale();
+    const [scripts, setScripts] = useState<BotScript[]>(() => loadScripts());
+    const [selectedId, setSelectedId] = useState(() => initialId || scripts[0].id);
+    const [saved, setSaved] = useState(true);
+    const [testing, setTesting] = useState(false);
+    const [testStats, setTestStats] = useState<ScriptBotStats | null>(null);
+    const stopTestRef = useRef<(() => void) | null>(null);
+
+    // 关闭时停止试运行
+    useEffect(() => () => stopTestRef.current?.(), []);
+
+    const selected = scripts.find(s => s.id === selectedId) || scripts[0];
+
+    const commit = (next: BotScript[], id = selectedId) => {
+        setScripts(next);
+        setSelectedId(id);
+        setTestStats(null);
+    };
+
+    const updateSelected = (patch: Partial<BotScript>) => {
+        if (selected.builtIn) return;
+        setSaved(false);
+        commit(scripts.map(s => (s.id === selected.id ? { ...s, ...patch } : s)));
+    };
+
+    const handleSave = () => {
+        Sound.playUI('CLICK');
+        setSaved(saveScripts(scripts));
+    };
+
+    const addScript = (name: string, source: string) => {
+        Sound.playUI('CLICK');
+        const script: BotScript = { id: createScriptId(), name, source };
+        const next = [...scripts, script];
+        commit(next, script.id);
+        setSaved(saveScripts(next));
+    };
+
+    const handleDelete = () => {
+        if (selected.builtIn) return;
+        Sound.playUI('CLICK');
+        const next = scripts.filter(s => s.id !== selected.id);
+        commit(next, next[0].id);
+        setSaved(saveScripts(next));
+    };
+
+    const handleTest = () => {
+        Sound.playUI('CLICK');
+        stopTestRef.current?.();
+        const engine = createEngine({ playerType: CharacterType.PYRO, enemyType: CharacterType.TANK, audio: SILENT_AUDIO, seed: 1 });
+        const bot = createScriptBot(selected.source);
+        const p = engine.getHumanPlayer();
+
+        const timer = window.setInterval(() => {
+            bot.update(engine.getState().tick, () => buildScriptObservation(engine, p));
+            engine.step({ [p.id]: toScriptInput(p, bot.getCommand()) });
+            const stats = bot.getStats();
+            if (stats.status === 'CRASHED' || engine.getState().tick >= TEST_TICKS) stop();
+        }, SIM_CONFIG.FIXED_DT * 1000);
+
+        const stop = () => {
+            window.clearInterval(timer);
+            setTestStats(bot.getStats());
+            bot.terminate();
+            setTesting(false);
+            stopTestRef.current = null;
+        };
+        stopTestRef.current = stop;
+        setTesting(true);
+        setTestStats(null);
+    };
+
+    const buttonClass = "text-xs px-3 py-1 rounded border border-slate-600 text-slate-400 hover:text-white hover:border-white disabled:opacity-40 transition-colors";
+
+    return (
+        <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[60] p-8">
+            <div className="bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl w-full max-w-5xl h-full max-h-[760px] flex flex-col p-6 gap-4">
+                <div className="flex justify-between items-center">
+                    <h2 className="text-2xl font-black text-white tracking-widest">{t('script.title')}</h2>
+                    <button
+                        onClick={() => { Sound.playUI('CLICK'); onClose(); }}
+                        className="text-slate-400 hover:text-white uppercase tracking-widest text-sm font-bold transition-colors"
+                    >
+                        {t('common.back')}
+                    </button>
+                </div>
+                <p className="text-xs text-slate-500">{t('script.hint', { budget: SCRIPT_TICK_BUDGET_MS })}</p>
+
+                <div className="flex gap-4 flex-1 min-h-0">
+                    {/* 脚本列表 */}
+                    <div className="w-48 flex flex-col gap-2">
+                        <div className="flex-1 overflow-y-auto flex flex-col gap-1">
+                            {scripts.map(s => (
+                                <button
+                                    key={s.id}
+                                    onClick={() => { Sound.playUI('CLICK'); commit(scripts, s.id); }}
+                                    className={`text-left px-3 py-2 rounded font-mono text-sm truncate border transition-colors
+                                        ${s.id === selected.id ? 'bg-white text-slate-900 border-white' : 'bg-slate-800 text-slate-300 border-slate-700 hover:border-white'}`}
+                                >
+                                    {s.name}
+                                </button>
+                            ))}
+                        </div>
+                        <button onClick={() => addScript('bot.js', NEW_SCRIPT_SOURCE)} className={buttonClass}>
+                            {t('script.new')}
+                        </button>
+                    </div>
+
+                    {/* 编辑区 */}
+                    <div className="flex-1 flex flex-col gap-3 min-w-0">
+                        <div className="flex items-center gap-3">
+                            <label className="flex items-center gap-2 flex-1">
+                                <span className="text-xs font-bold text-slate-500 uppercase tracking-widest">{t('script.name')}</span>
+                                <input
+                                    value={selected.name}
+                                    readOnly={selected.builtIn}
+                                    onChange={e => updateSelected({ name: e.target.value })}
+                                    className="flex-1 px-3 py-1 rounded bg-slate-950 border border-slate-700 text-white font-mono text-sm focus:outline-none focus:border-white"
+                                />
+                            </label>
+                            <button onClick={() => addScript(selected.name.replace(/(\.js)?$/, '-copy.js'), selected.source)} className={buttonClass}>{t('script.duplicate')}</button>
+                            <button onClick={handleDelete} disabled={selected.builtIn} className={buttonClass}>{t('script.delete')}</button>
+                            <button onClick={handleSave} disabled={selected.builtIn || saved} className={buttonClass}>
+                                {t(saved && !selected.builtIn ? 'script.saved' : 'script.save')}
+                            </button>
+                        </div>
+                        {selected.builtIn && <p className="text-xs text-amber-400">{t('script.builtIn')}</p>}
+                        <textarea
+                            value={selected.source}
+                            readOnly={selected.builtIn}
+                            spellCheck={false}
+                            onChange={e => updateSelected({ source: e.target.value })}
+                            onKeyDown={e => {
+                                // Tab 插入缩进而不是切换焦点
+                                if (e.key !== 'Tab' || selected.builtIn) return;
+                                e.preventDefault();
+                                const el = e.currentTarget;
+                                const { selectionStart, selectionEnd, value } = el;
+                                updateSelected({ source: value.slice(0, selectionStart) + '    ' + value.slice(selectionEnd) });
+                                requestAnimationFrame(() => el.setSelectionRange(selectionStart + 4, selectionStart + 4));
+                            }}
+                            className="flex-1 px-4 py-3 rounded-xl bg-slate-950 border border-slate-700 text-slate-200 font-mono text-xs leading-relaxed resize-none focus:outline-none focus:border-slate-400"
+                        />
+                        <div className="flex items-center gap-4">
+                            <button
+                                onClick={handleTest}
+                                disabled={testing}
+                                className="px-6 py-2 rounded-lg font-bold tracking-widest bg-white text-black hover:bg-slate-200 disabled:bg-slate-800 disabled:text-slate-500 transition-all"
+                            >
+                                {t(testing ? 'script.testing' : 'script.test')}
+                            </button>
+                            {testStats && (
+                                <div className="text-xs font-mono">
+                                    {testStats.lastError
+                                        ? <span className="text-red-400">{t(testStats.lastError.key, testStats.lastError.params)}</span>
+                                        : <span className="text-emerald-400">{t('script.testResult', {
+                                            commands: testStats.commands,
+                                            overruns: testStats.overruns,
+                                            ms: testStats.lastThinkMs.toFixed(2)
+                                        })}</span>}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ScriptEditor;
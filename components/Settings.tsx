@@ -0,0 +1,266 @@
+import React, { useEffect, useState } from 'react';
+import { KeyboardSourceId } from '../types';
+import { Sound } from '../sound';
+import {
+    INPUT_ACTIONS, INPUT_ACTION_LABELS, INPUT_SOURCE_LABELS, DEFAULT_BINDINGS, DEFAULT_GAMEPAD_OPTIONS,
+    loadBindings, saveBindings, rebind, formatKeyCode, loadGamepadOptions, saveGamepadOptions
+} from '../input';
+import type { ControlBindings, GamepadOptions, InputAction } from '../input';
+import { DEFAULT_SETTINGS, getSettings, updateSettings } from '../settings';
+import type { GameSettings } from '../settings';
+import { LOCALES, LOCALE_NAMES, t, useLocale } from '../i18n';
+import type { MessageKey } from '../i18n';
+
+interface SettingsProps {
+    onBack: () => void;
+    // 从对局内打开时显示"返回游戏"
+    backLabel?: MessageKey;
+}
+
+interface SliderRowProps {
+    label: MessageKey;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    disabled?: boolean;
+    onChange: (value: number) => void;
+}
+
+const SliderRow: React.FC<SliderRowProps> = ({ label, value, min, max, step, disabled, onChange }) => (
+    <label className="flex items-center justify-between gap-4">
+        <span className="text-slate-300">{t(label)}</span>
+        <input
+            type="range" min={min} max={max} step={step}
+            value={value}
+            disabled={disabled}
+            onChange={e => onChange(Number(e.target.value))}
+            className="flex-1 max-w-xs accent-white"
+        />
+        <span className="w-10 text-right font-mono text-slate-400">{Math.round(value * 100)}%</span>
+    </label>
+);
+
+const ToggleButton: React.FC<{ value: boolean, onToggle: () => void }> = ({ value, onToggle }) => (
+    <button
+        onClick={() => { Sound.playUI('CLICK'); onToggle(); }}
+        className={`w-20 px-3 py-1 rounded border font-bold ${value ? 'bg-emerald-600 border-emerald-400 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+    >
+        {t(value ? 'common.on' : 'common.off')}
+    </button>
+);
+
+const LAYOUTS: KeyboardSourceId[] = ['KEYBOARD_A', 'KEYBOARD_B'];
+
+const Settings: React.FC<SettingsProps> = ({ onBack, backLabel = 'common.backHome' }) => {
+    useLocale();
+    const [settings, setSettings] = useState<GameSettings>(() => getSettings());
+    const [bindings, setBindings] = useState<ControlBindings>(() => loadBindings());
+    const [gamepadOptions, setGamepadOptions] = useState<GamepadOptions>(() => loadGamepadOptions());
+    // 正在等待新按键的绑定项
+    const [listening, setListening] = useState<{ layout: KeyboardSourceId, action: InputAction } | null>(null);
+
+    const updateBindings = (next: ControlBindings) => {
+        setBindings(next);
+        saveBindings(next);
+    };
+
+    // 设置立即生效 (音量由 App 订阅后同步到 Sound)
+    const changeSettings = (patch: Partial<GameSettings>) => {
+        updateSettings(patch);
+        setSettings(getSettings());
+    };
+
+    const updateGamepadOptions = (patch: Partial<GamepadOptions>) => {
+        const next = { ...gamepadOptions, ...patch };
+        setGamepadOptions(next);
+        saveGamepadOptions(next);
+    };
+
+    // 捕获下一次按键 / 鼠标点击作为新绑定 (Esc 取消，除非正在绑定暂停键)
+    useEffect(() => {
+        if (!listening) return;
+
+        const apply = (code: string) => {
+            updateBindings(rebind(bindings, listening.layout, listening.action, code));
+            setListening(null);
+            Sound.playUI('CLICK');
+        };
+
+        const handleKey = (e: KeyboardEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            if (e.code === 'Escape' && listening.action !== 'PAUSE') {
+                setListening(null);
+                return;
+            }
+            apply(e.code);
+        };
+        const handleMouse = (e: MouseEvent) => {
+            e.preventDefault();
+            e.stopPropagation();
+            apply(e.button === 0 ? 'MouseLeft' : (e.button === 2 ? 'MouseRight' : 'MouseMid'));
+        };
+        const preventContextMenu = (e: Event) => e.preventDefault();
+
+        // 延迟注册，避免触发绑定的这次点击被立即捕获
+        const timer = window.setTimeout(() => {
+            window.addEventListener('keydown', handleKey, true);
+            window.addEventListener('mousedown', handleMouse, true);
+            window.addEventListener('contextmenu', preventContextMenu, true);
+        }, 0);
+
+        return () => {
+            window.clearTimeout(timer);
+            window.removeEventListener('keydown', handleKey, true);
+            window.removeEventListener('mousedown', handleMouse, true);
+            window.removeEventListener('contextmenu', preventContextMenu, true);
+        };
+    }, [listening, bindings]);
+
+    const handleReset = () => {
+        Sound.playUI('CLICK');
+        updateBindings(DEFAULT_BINDINGS);
+        setGamepadOptions(DEFAULT_GAMEPAD_OPTIONS);
+        saveGamepadOptions(DEFAULT_GAMEPAD_OPTIONS);
+    };
+
+    const handleResetSettings = () => {
+        Sound.playUI('CLICK');
+        // 语言不随画面/音频一起重置
+        changeSettings({ ...DEFAULT_SETTINGS, language: settings.language });
+    };
+
+    return (
+        <div className="absolute inset-0 bg-slate-950 flex flex-col items-center p-8 z-50 overflow-y-auto">
+
+            <button
+                onClick={() => { Sound.playUI('CLICK'); onBack(); }}
+                className="absolute top-8 left-8 text-slate-400 hover:text-white flex items-center gap-2 uppercase tracking-widest text-sm font-bold transition-colors"
+            >
+                <span>{t(backLabel)}</span>
+            </button>
+
+            <div className="text-center mt-8 mb-10">
+                <h1 className="text-4xl font-black text-white tracking-widest mb-2">
+                    {t('settings.title')}
+                </h1>
+                <p className="text-slate-500 font-mono text-sm uppercase">
+                    SETTINGS
+                </p>
+            </div>
+
+            <div className="max-w-4xl w-full flex flex-col gap-8">
+                {/* 音频 */}
+                <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800">
+                    <div className="flex justify-between items-center mb-4">
+                        <h2 className="text-lg font-bold text-white tracking-widest">{t('settings.audio')}</h2>
+                        <button
+                            onClick={handleResetSettings}
+                            className="text-xs px-3 py-1 rounded border border-slate-600 text-slate-400 hover:text-white hover:border-white transition-colors"
+                        >
+                            {t('common.reset')}
+                        </button>
+                    </div>
+                    <div className="flex flex-col gap-4 text-sm">
+                        <SliderRow label="settings.masterVolume" value={settings.masterVolume} min={0} max={1} step={0.05} onChange={v => changeSettings({ masterVolume: v })} />
+                        <SliderRow label="settings.sfxVolume" value={settings.sfxVolume} min={0} max={1} step={0.05} onChange={v => changeSettings({ sfxVolume: v })} />
+                        <SliderRow label="settings.uiVolume" value={settings.uiVolume} min={0} max={1} step={0.05} onChange={v => changeSettings({ uiVolume: v })} />
+                    </div>
+                </section>
+
+                {/* 画面 */}
+                <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800">
+                    <h2 className="text-lg font-bold text-white tracking-widest mb-4">{t('settings.visual')}</h2>
+                    <div className="flex flex-col gap-4 text-sm">
+                        <SliderRow label="settings.screenShake" value={settings.screenShake} min={0} max={1.5} step={0.1} onChange={v => changeSettings({ screenShake: v })} />
+                        <SliderRow label="settings.particleDensity" value={settings.particleDensity} min={0} max={1} step={0.1} onChange={v => changeSettings({ particleDensity: v })} />
+                        <SliderRow label="settings.cameraLookAhead" value={settings.cameraLookAhead} min={0} max={1.5} step={0.1} onChange={v => changeSettings({ cameraLookAhead: v })} />
+                        <label className="flex items-center justify-between">
+                            <span className="text-slate-300">{t('settings.floatingText')}</span>
+                            <ToggleButton value={settings.floatingText} onToggle={() => changeSettings({ floatingText: !settings.floatingText })} />
+                        </label>
+                    </div>
+                </section>
+
+                {/* 语言 */}
+                <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800">
+                    <h2 className="text-lg font-bold text-white tracking-widest mb-4">{t('settings.language')}</h2>
+                    <div className="flex gap-3 text-sm">
+                        {LOCALES.map(locale => (
+                            <button
+                                key={locale}
+                                onClick={() => { Sound.playUI('CLICK'); changeSettings({ language: locale }); }}
+                                className={`px-4 py-2 rounded border font-bold transition-colors
+                                    ${settings.language === locale
+                                        ? 'bg-white text-slate-900 border-white'
+                                        : 'bg-slate-800 border-slate-600 text-slate-400 hover:text-white hover:border-white'}`}
+                            >
+                                {LOCALE_NAMES[locale]}
+                            </button>
+                        ))}
+                    </div>
+                </section>
+
+                {/* 按键绑定 */}
+                <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800">
+                    <div className="flex justify-between items-center mb-4">
+                        <h2 className="text-lg font-bold text-white tracking-widest">{t('settings.bindings')}</h2>
+                        <button
+                            onClick={handleReset}
+                            className="text-xs px-3 py-1 rounded border border-slate-600 text-slate-400 hover:text-white hover:border-white transition-colors"
+                        >
+                            {t('common.reset')}
+                        </button>
+                    </div>
+
+                    <div className="grid grid-cols-[1fr_1fr_1fr] gap-x-4 gap-y-2 text-sm">
+                        <span></span>
+                        {LAYOUTS.map(layout => (
+                            <span key={layout} className="text-xs font-bold text-slate-500 uppercase text-center">{t(INPUT_SOURCE_LABELS[layout])}</span>
+                        ))}
+
+                        {INPUT_ACTIONS.map(action => (
+                            <React.Fragment key={action}>
+                                <span className="text-slate-300 self-center">{t(INPUT_ACTION_LABELS[action])}</span>
+                                {LAYOUTS.map(layout => {
+                                    const isListening = listening?.layout === layout && listening.action === action;
+                                    const code = bindings[layout][action];
+                                    return (
+                                        <button
+                                            key={layout}
+                                            onClick={() => { Sound.playUI('CLICK'); setListening({ layout, action }); }}
+                                            className={`px-3 py-1.5 rounded border font-mono transition-colors
+                                                ${isListening
+                                                    ? 'bg-blue-600 border-blue-400 text-white animate-pulse'
+                                                    : (code ? 'bg-slate-800 border-slate-600 text-white hover:border-white' : 'bg-slate-900 border-slate-800 text-slate-600 hover:border-slate-500')}`}
+                                        >
+                                            {isListening ? t('settings.pressKey') : formatKeyCode(code)}
+                                        </button>
+                                    );
+                                })}
+                            </React.Fragment>
+                        ))}
+                    </div>
+                    <p className="text-xs text-slate-600 mt-4">{t('settings.bindingsHint')}</p>
+                </section>
+
+                {/* 手柄 */}
+                <section className="bg-slate-900/50 p-6 rounded-2xl border border-slate-800">
+                    <h2 className="text-lg font-bold text-white tracking-widest mb-4">{t('settings.gamepad')}</h2>
+                    <div className="flex flex-col gap-4 text-sm">
+                        <label className="flex items-center justify-between">
+                            <span className="text-slate-300">{t('settings.aimAssist')}</span>
+                            <ToggleButton value={gamepadOptions.aimAssist} onToggle={() => updateGamepadOptions({ aimAssist: !gamepadOptions.aimAssist })} />
+                        </label>
+                        <SliderRow label="settings.aimAssistStrength" value={gamepadOptions.aimAssistStrength} min={0} max={1} step={0.1} disabled={!gamepadOptions.aimAssist} onChange={v => updateGamepadOptions({ aimAssistStrength: v })} />
+                        <SliderRow label="settings.deadzone" value={gamepadOptions.deadzone} min={0.05} max={0.4} step={0.05} onChange={v => updateGamepadOptions({ deadzone: v })} />
+                        <p className="text-xs text-slate-600">{t('settings.gamepadHint')}</p>
+                    </div>
+                </section>
+            </div>
+        </div>
+    );
+};
+
+export default Settings;
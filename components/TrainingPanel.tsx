@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import type { TrainingDummyMode } from '../types';
+import { STATUS_CONFIG, TRAINING_MAX_DUMMIES } from '../constants';
+import { Sound } from '../sound';
+import { getCharacters } from '../characters';
+import type { DamageMeter, Engine } from '../engine';
+import { t, useLocale } from '../i18n';
+
+interface TrainingPanelProps {
+    engine: Engine;
+    meter: DamageMeter;
+}
+
+// 面板刷新间隔 (毫秒)
+const REFRESH_INTERVAL = 250;
+const BREAKDOWN_ROWS = 6;
+const RECENT_HITS = 6;
+
+const DUMMY_MODES: TrainingDummyMode[] = ['STATIONARY', 'MOVING'];
+// 复活与闪燃不是可持续的状态，不提供按钮
+const STATUS_TYPES = Object.keys(STATUS_CONFIG).filter(type => type !== 'revive' && type !== 'burst');
+
+type StatusTarget = 'SELF' | 'DUMMY';
+
+// 训练场控制面板：DPS 统计、靶子与作弊开关、手动施加状态
+const TrainingPanel: React.FC<TrainingPanelProps> = ({ engine, meter }) => {
+    useLocale();
+    const [, setRefresh] = useState(0);
+    const [statusTarget, setStatusTarget] = useState<StatusTarget>('DUMMY');
+
+    useEffect(() => {
+        const timer = window.setInterval(() => setRefresh(n => n + 1), REFRESH_INTERVAL);
+        return () => window.clearInterval(timer);
+    }, []);
+
+    const state = engine.getState();
+    const settings = state.training;
+    if (!settings) return null;
+    const dummies = state.players.filter(p => p.isBot);
+    const breakdown = meter.getBreakdown().slice(0, BREAKDOWN_ROWS);
+    const recentHits = meter.getRecentHits(RECENT_HITS);
+    const total = meter.getTotal();
+
+    const click = (action: () => void) => () => {
+        Sound.playUI('CLICK');
+        action();
+        setRefresh(n => n + 1);
+    };
+
+    const applyStatus = (status: string) => {
+        const targets = statusTarget === 'SELF' ? [engine.getHumanPlayer()] : dummies;
+        targets.forEach(p => engine.applyTrainingStatus(p.id, status));
+    };
+
+    const getTargetName = (id: string) => {
+        const p = state.players.find(pl => pl.id === id);
+        return p ? t(`role.${p.type}`) : t('role.unknown');
+    };
+
+    const buttonClass = (active: boolean) => `px-2 py-1 rounded border text-[10px] font-bold transition-colors
+        ${active ? 'bg-white text-slate-900 border-white' : 'bg-slate-800 text-slate-400 border-slate-700 hover:border-white hover:text-white'}`;
+
+    return (
+        // 阻止按钮获得焦点，避免空格等游戏按键再次触发按钮
+        <div
+            onMouseDown={e => e.preventDefault()}
+            className="absolute top-1/2 right-4 -translate-y-1/2 w-[300px] bg-slate-900/90 p-3 rounded-lg border border-slate-700 shadow-lg backdrop-blur-sm flex flex-col gap-3 text-xs select-none z-40"
+        >
+            <div className="flex justify-between items-center">
+                <span className="font-black text-white tracking-widest">{t('training.title')}</span>
+                <button onClick={click(meter.reset)} className={buttonClass(false)}>{t('training.reset')}</button>
+            </div>
+
+            {/* DPS 统计 */}
+            <div className="flex items-end justify-between">
+                <div>
+                    <span className="text-3xl font-black text-amber-400 font-mono">{Math.round(meter.getDps())}</span>
+                    <span className="ml-1 text-slate-500 font-bold">{t('training.dps')}</span>
+                </div>
+                <span className="text-slate-400 font-mono">{t('training.total', { amount: Math.round(total) })}</span>
+            </div>
+
+            {total > 0 ? (
+                <>
+                    <div className="flex flex-col gap-1">
+                        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('training.breakdown')}</span>
+                        {breakdown.map(entry => (
+                            <div key={entry.skill} className="flex flex-col gap-0.5">
+                                <div className="flex justify-between font-mono">
+                                    <span className="text-slate-300">{t(`balance.skill.${entry.skill}`)}</span>
+                                    <span className="text-slate-400">{Math.round(entry.amount)} · {t('training.hits', { count: entry.hits })}</span>
+                                </div>
+                                <div className="h-1 bg-slate-800 rounded">
+                                    <div className="h-full bg-amber-500 rounded" style={{ width: `${(entry.amount / total) * 100}%` }} />
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                    <div className="flex flex-col gap-0.5">
+                        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('training.recent')}</span>
+                        {recentHits.map((hit, i) => (
+                            <div key={`${hit.time}-${i}`} className="flex justify-between font-mono text-[10px] text-slate-400">
+                                <span>{t(`balance.skill.${hit.skill}`)} → {getTargetName(hit.targetId)}</span>
+                                <span className="text-white">{Math.round(hit.amount)}</span>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            ) : (
+                <span className="text-slate-500">{t('training.noDamage')}</span>
+            )}
+
+            {/* 开关 */}
+            <div className="flex flex-wrap gap-1 border-t border-slate-700 pt-3">
+                {DUMMY_MODES.map(mode => (
+                    <button
+                        key={mode}
+                        onClick={click(() => engine.setTrainingSettings({ dummyMode: mode }))}
+                        className={buttonClass(settings.dummyMode === mode)}
+                    >
+                        {t(`training.dummyMode.${mode}`)}
+                    </button>
+                ))}
+                <button
+                    onClick={click(() => engine.setTrainingSettings({ infiniteResources: !settings.infiniteResources }))}
+                    className={buttonClass(settings.infiniteResources)}
+                >
+                    {t('training.infiniteResources')}
+                </button>
+                <button
+                    onClick={click(() => engine.setTrainingSettings({ resetCooldowns: !settings.resetCooldowns }))}
+                    className={buttonClass(settings.resetCooldowns)}
+                >
+                    {t('training.resetCooldowns')}
+                </button>
+            </div>
+
+            {/* 生成靶子 */}
+            <div className="flex flex-col gap-1">
+                <div className="flex justify-between items-center">
+                    <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                        {t('training.spawn', { count: dummies.length, max: TRAINING_MAX_DUMMIES })}
+                    </span>
+                    <button onClick={click(engine.clearTrainingDummies)} disabled={dummies.length === 0} className={`${buttonClass(false)} disabled:opacity-40`}>
+                        {t('training.clear')}
+                    </button>
+                </div>
+                <div className="grid grid-cols-3 gap-1">
+                    {getCharacters().map(({ type }) => (
+                        <button
+                            key={type}
+                            onClick={click(() => engine.spawnTrainingDummy(type))}
+                            disabled={dummies.length >= TRAINING_MAX_DUMMIES}
+                            className={`${buttonClass(false)} disabled:opacity-40`}
+                        >
+                            {t(`role.${type}`)}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* 施加状态 */}
+            <div className="flex flex-col gap-1">
+                <div className="flex justify-between items-center">
+                    <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{t('training.status')}</span>
+                    <div className="flex gap-1">
+                        {(['SELF', 'DUMMY'] as StatusTarget[]).map(target => (
+                            <button key={target} onClick={click(() => setStatusTarget(target))} className={buttonClass(statusTarget === target)}>
+                                {t(`training.target.${target}`)}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                <div className="grid grid-cols-3 gap-1">
+                    {STATUS_TYPES.map(status => (
+                        <button
+                            key={status}
+                            onClick={click(() => applyStatus(status))}
+                            className={buttonClass(false)}
+                            style={{ color: STATUS_CONFIG[status].color }}
+                        >
+                            {t(STATUS_CONFIG[status].labels[0])}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TrainingPanel;
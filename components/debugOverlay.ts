@@ -0,0 +1,329 @@
+/**
+ * [Debug] 调试叠加层
+ *
+ * 在画面上绘制 AI 使用的危险区域、电脑玩家的决策意图、碰撞半径、投射物判定与近战攻击范围，
+ * 以及帧率与实体数量。只读取引擎状态，不修改模拟 (不调用会消耗随机数的引擎函数)。
+ */
+import { CharacterType } from '../types';
+import type { DangerZone, GameState, PlayerState, Vector2 } from '../types';
+import { CHAR_STATS, MAGIC_SHIELD_EXTRA_RADIUS } from '../constants';
+import type { Engine } from '../engine';
+import { t } from '../i18n';
+
+export const DANGER_ZONE_COLORS: Record<DangerZone['hazardType'], string> = {
+    SKILL: '#ef4444',
+    WATER: '#3b82f6',
+    MAGMA: '#f97316',
+    WALL: '#94a3b8',
+    MAP_EDGE: '#a855f7',
+};
+
+// 意图箭头的颜色 (同时用于统计面板中的图例)
+export const INTENT_COLORS = {
+    target: '#f43f5e',
+    move: '#22c55e',
+    evade: '#fb923c',
+    retreat: '#e879f9',
+    unstuck: '#facc15',
+    command: '#22d3ee',
+    path: '#64748b',
+};
+
+// 叠加层显示谁眼中的危险区域：鼠标附近的电脑玩家，否则为本地玩家
+const FOCUS_PICK_RADIUS = 150;
+const ARROW_LENGTH = 70;
+// 持续时间大于该值的危险区域视为常驻地形，不标注剩余时间
+const PERMANENT_ZONE_TIME = 99;
+
+export const getDebugFocus = (state: GameState, human: PlayerState, cursor: Vector2): PlayerState => {
+    let focus = human;
+    let bestDist = FOCUS_PICK_RADIUS;
+    state.players.forEach(p => {
+        if (!p.isBot || p.isDead) return;
+        const d = Math.hypot(p.pos.x - cursor.x, p.pos.y - cursor.y);
+        if (d < bestDist) { focus = p; bestDist = d; }
+    });
+    return focus;
+};
+
+// 该玩家的 AI 实际回避的危险区域 (电脑玩家还会回避队友的技能路线)
+const getFocusDangerZones = (engine: Engine, focus: PlayerState): DangerZone[] => {
+    const zones = engine.getDangerZones(focus);
+    if (focus.isBot) {
+        engine.getState().teamBlackboards?.[focus.teamId]?.allyHazards.forEach(h => {
+            if (h.ownerId !== focus.id) zones.push(h.zone);
+        });
+    }
+    return zones;
+};
+
+const drawArrow = (ctx: CanvasRenderingContext2D, from: Vector2, dir: Vector2, color: string, length = ARROW_LENGTH) => {
+    const len = Math.hypot(dir.x, dir.y);
+    if (len < 1e-6) return;
+    const ux = dir.x / len;
+    const uy = dir.y / len;
+    const to = { x: from.x + ux * length, y: from.y + uy * length };
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.moveTo(to.x, to.y);
+    ctx.lineTo(to.x - ux * 10 - uy * 5, to.y - uy * 10 + ux * 5);
+    ctx.lineTo(to.x - ux * 10 + uy * 5, to.y - uy * 10 - ux * 5);
+    ctx.closePath();
+    ctx.fill();
+};
+
+const drawCircle = (ctx: CanvasRenderingContext2D, center: Vector2, radius: number, color: string, dashed = false) => {
+    ctx.strokeStyle = color;
+    ctx.setLineDash(dashed ? [6, 4] : []);
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+};
+
+// 扇形攻击范围：以 angle 为中心，半角 halfAngle
+const drawSector = (ctx: CanvasRenderingContext2D, center: Vector2, angle: number, range: number, halfAngle: number, color: string) => {
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(center.x, center.y);
+    ctx.arc(center.x, center.y, range, angle - halfAngle, angle + halfAngle);
+    ctx.closePath();
+    ctx.globalAlpha = 0.12;
+    ctx.fill();
+    ctx.globalAlpha = 0.8;
+    ctx.stroke();
+    ctx.globalAlpha = 1;
+};
+
+const drawDangerZone = (ctx: CanvasRenderingContext2D, zone: DangerZone) => {
+    const color = DANGER_ZONE_COLORS[zone.hazardType];
+    const weight = zone.weight ?? 1;
+    // 负权重表示该角色偏好的地形 (如猫猫球的墙)，只画虚线轮廓
+    const preferred = weight <= 0;
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.setLineDash(preferred ? [8, 6] : []);
+
+    let labelPos: Vector2 | null = null;
+    if (zone.type === 'CIRCLE' && zone.center && zone.radius !== undefined) {
+        ctx.beginPath();
+        ctx.arc(zone.center.x, zone.center.y, zone.radius, 0, Math.PI * 2);
+        if (!preferred) {
+            ctx.globalAlpha = Math.min(0.35, 0.1 * weight);
+            ctx.fill();
+        }
+        ctx.globalAlpha = 0.9;
+        ctx.lineWidth = 1.5;
+        ctx.stroke();
+        labelPos = zone.center;
+    } else if (zone.type === 'RECT' && zone.p1 && zone.p2) {
+        // 胶囊体：以 p1-p2 为轴、width 为直径
+        const width = zone.width || 0;
+        ctx.lineCap = 'round';
+        if (!preferred) {
+            ctx.globalAlpha = Math.min(0.35, 0.1 * weight);
+            ctx.lineWidth = width;
+            ctx.beginPath();
+            ctx.moveTo(zone.p1.x, zone.p1.y);
+            ctx.lineTo(zone.p2.x, zone.p2.y);
+            ctx.stroke();
+        }
+        ctx.globalAlpha = 0.9;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.moveTo(zone.p1.x, zone.p1.y);
+        ctx.lineTo(zone.p2.x, zone.p2.y);
+        ctx.stroke();
+        labelPos = { x: (zone.p1.x + zone.p2.x) / 2, y: (zone.p1.y + zone.p2.y) / 2 };
+    }
+
+    if (labelPos && zone.timeLeft < PERMANENT_ZONE_TIME) {
+        ctx.globalAlpha = 1;
+        ctx.font = 'bold 11px monospace';
+        ctx.textAlign = 'center';
+        ctx.fillText(`${zone.timeLeft.toFixed(1)}s ×${weight.toFixed(1)}`, labelPos.x, labelPos.y);
+    }
+    ctx.restore();
+};
+
+const drawIntent = (ctx: CanvasRenderingContext2D, engine: Engine, p: PlayerState) => {
+    const state = engine.getState();
+    if (p.aiPath && p.aiPath.length > 0) {
+        ctx.strokeStyle = INTENT_COLORS.path;
+        ctx.setLineDash([4, 6]);
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.moveTo(p.pos.x, p.pos.y);
+        p.aiPath.forEach(pt => ctx.lineTo(pt.x, pt.y));
+        ctx.stroke();
+        ctx.setLineDash([]);
+    }
+
+    // 决策只在本步或上一步更新过时有效 (被控制或阵亡时不会更新)
+    const intent = engine.getAIIntent(p.id);
+    if (intent && intent.tick >= state.tick - 1) {
+        if (intent.targetPos) {
+            ctx.strokeStyle = INTENT_COLORS.target;
+            ctx.lineWidth = 1;
+            ctx.setLineDash([2, 4]);
+            ctx.beginPath();
+            ctx.moveTo(p.pos.x, p.pos.y);
+            ctx.lineTo(intent.targetPos.x, intent.targetPos.y);
+            ctx.stroke();
+            ctx.setLineDash([]);
+            // 感知位置 (含难度偏差) 处画准星
+            const { x, y } = intent.targetPos;
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.arc(x, y, 10, 0, Math.PI * 2);
+            ctx.moveTo(x - 15, y); ctx.lineTo(x + 15, y);
+            ctx.moveTo(x, y - 15); ctx.lineTo(x, y + 15);
+            ctx.stroke();
+        }
+        if (intent.commandGoal) {
+            ctx.strokeStyle = INTENT_COLORS.command;
+            ctx.lineWidth = 1;
+            ctx.setLineDash([6, 6]);
+            ctx.beginPath();
+            ctx.moveTo(p.pos.x, p.pos.y);
+            ctx.lineTo(intent.commandGoal.x, intent.commandGoal.y);
+            ctx.stroke();
+            ctx.setLineDash([]);
+        }
+        if (intent.moveDir) drawArrow(ctx, p.pos, intent.moveDir, INTENT_COLORS.move);
+    }
+
+    if (p.aiIsEscapingHazard && p.aiHazardEscapeDir) drawArrow(ctx, p.pos, p.aiHazardEscapeDir, INTENT_COLORS.evade, ARROW_LENGTH * 0.8);
+    if ((p.aiTacticalRetreatTimer || 0) > 0 && p.aiTacticalRetreatDir) drawArrow(ctx, p.pos, p.aiTacticalRetreatDir, INTENT_COLORS.retreat, ARROW_LENGTH * 0.8);
+    if ((p.unstuckTimer || 0) > 0 && p.unstuckDir) drawArrow(ctx, p.pos, p.unstuckDir, INTENT_COLORS.unstuck, ARROW_LENGTH * 0.8);
+};
+
+const drawAttackRange = (ctx: CanvasRenderingContext2D, p: PlayerState) => {
+    if (p.type === CharacterType.PYRO && p.isFiringFlamethrower) {
+        const range = p.currentWeaponRange || CHAR_STATS[CharacterType.PYRO].flamethrowerRange;
+        const cone = p.currentWeaponAngle || CHAR_STATS[CharacterType.PYRO].flamethrowerAngle;
+        drawSector(ctx, p.pos, p.aimAngle, range, cone, '#f97316');
+    } else if (p.type === CharacterType.CAT) {
+        const { scratchRange, scratchHalfAngle } = CHAR_STATS[CharacterType.CAT];
+        drawSector(ctx, p.pos, p.aimAngle, scratchRange, scratchHalfAngle, '#e879f9');
+    } else if (p.type === CharacterType.WUKONG) {
+        // 下一段连击的命中范围
+        const stats = CHAR_STATS[CharacterType.WUKONG];
+        const step = p.wukongComboStep || 0;
+        drawSector(ctx, p.pos, p.aimAngle, stats.comboRange[step], stats.comboArc[step] / 2, '#facc15');
+    }
+};
+
+// 世界坐标下的叠加层 (在相机变换内调用)；返回绘制的危险区域数量
+export const drawDebugWorld = (ctx: CanvasRenderingContext2D, engine: Engine, focus: PlayerState): number => {
+    const state = engine.getState();
+    ctx.save();
+
+    const zones = getFocusDangerZones(engine, focus);
+    zones.forEach(zone => drawDangerZone(ctx, zone));
+
+    state.players.forEach(p => {
+        if (p.isDead) return;
+        drawAttackRange(ctx, p);
+
+        // 碰撞半径 (盔甲护身期间碰撞体积扩大)
+        ctx.lineWidth = 1.5;
+        drawCircle(ctx, p.pos, p.radius, p.id === focus.id ? '#ffffff' : 'rgba(255,255,255,0.6)');
+        if ((p.magicShieldHp || 0) > 0) drawCircle(ctx, p.pos, p.radius + MAGIC_SHIELD_EXTRA_RADIUS, '#38bdf8', true);
+
+        // [Magic] 移形换影选出的安全落点
+        if (p.apparitionPhase && p.apparitionPhase !== 'NONE' && p.apparitionStartPos && p.apparitionEndPos) {
+            ctx.strokeStyle = '#38bdf8';
+            ctx.setLineDash([3, 5]);
+            ctx.beginPath();
+            ctx.moveTo(p.apparitionStartPos.x, p.apparitionStartPos.y);
+            ctx.lineTo(p.apparitionEndPos.x, p.apparitionEndPos.y);
+            ctx.stroke();
+            ctx.setLineDash([]);
+            drawCircle(ctx, p.apparitionEndPos, p.radius, '#38bdf8');
+        }
+
+        if (p.isBot) drawIntent(ctx, engine, p);
+    });
+
+    ctx.lineWidth = 1;
+    state.drones.forEach(d => {
+        if (d.hp > 0) drawCircle(ctx, d.pos, d.radius, 'rgba(255,255,255,0.6)');
+    });
+
+    // 投射物判定半径；抛射物另画落点与爆炸范围
+    state.projectiles.forEach(pr => {
+        drawCircle(ctx, pr.pos, Math.max(pr.radius, 2), '#fde047');
+        if (pr.targetPos && pr.aoeRadius) drawCircle(ctx, pr.targetPos, pr.aoeRadius, '#fde047', true);
+    });
+
+    ctx.restore();
+    return zones.length;
+};
+
+export interface DebugStats {
+    fps: number;
+    focus: PlayerState;
+    dangerZones: number;
+}
+
+// 屏幕坐标下的统计面板与图例 (左下角)
+export const drawDebugStats = (ctx: CanvasRenderingContext2D, state: GameState, stats: DebugStats) => {
+    const alive = state.players.filter(p => !p.isDead).length;
+    const lines: [string, string?][] = [
+        [t('debug.fps', { fps: Math.round(stats.fps) })],
+        [t('debug.tick', { tick: state.tick, time: (state.simTime / 1000).toFixed(1) })],
+        [t('debug.players', { alive, total: state.players.length })],
+        [t('debug.entities', {
+            projectiles: state.projectiles.length,
+            drones: state.drones.length,
+            effects: state.groundEffects.length,
+            particles: state.particles.length
+        })],
+        [t('debug.obstacles', { count: state.obstacles.length })],
+        [t('debug.focus', { id: stats.focus.id, count: stats.dangerZones })],
+        [t('debug.legend.target'), INTENT_COLORS.target],
+        [t('debug.legend.move'), INTENT_COLORS.move],
+        [t('debug.legend.evade'), INTENT_COLORS.evade],
+        [t('debug.legend.retreat'), INTENT_COLORS.retreat],
+        [t('debug.legend.unstuck'), INTENT_COLORS.unstuck],
+        [t('debug.legend.command'), INTENT_COLORS.command],
+        ...(Object.keys(DANGER_ZONE_COLORS) as DangerZone['hazardType'][]).map((type): [string, string] =>
+            [t(`debug.hazard.${type}`), DANGER_ZONE_COLORS[type]])
+    ];
+
+    const lineHeight = 15;
+    const padding = 8;
+    const width = 260;
+    const height = lines.length * lineHeight + padding * 2;
+    const x = 16;
+    const y = ctx.canvas.height - height - 120;
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(15, 23, 42, 0.85)';
+    ctx.fillRect(x, y, width, height);
+    ctx.font = '11px monospace';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    lines.forEach(([text, color], i) => {
+        const ty = y + padding + i * lineHeight;
+        if (color) {
+            ctx.fillStyle = color;
+            ctx.fillRect(x + padding, ty + 4, 12, 3);
+            ctx.fillStyle = '#cbd5e1';
+            ctx.fillText(text, x + padding + 18, ty);
+        } else {
+            ctx.fillStyle = '#e2e8f0';
+            ctx.fillText(text, x + padding, ty);
+        }
+    });
+    ctx.restore();
+};
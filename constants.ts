@@ -1,8 +1,11 @@
 import { CharacterType } from "./types";
+import type { AIDifficulty, AIDifficultyProfile, TeamCommandType, TrainingSettings } from "./types";
+import type { MessageKey } from "./i18n";
 
 // Status Effect Configuration
 export const STATUS_CONFIG: Record<string, {
-  label: string;
+  // 飘字消息键；第一个为施加状态时显示的文字，其余为同类飘字 (共用颜色与冷却)
+  labels: MessageKey[];
   color: string;
   nature: string;
   floatingTextCD?: number;
@@ -13,29 +16,29 @@ export const STATUS_CONFIG: Record<string, {
   tags?: string[]; // [New] Logic classification (e.g. 'hard_cc', 'mental', 'fire')
 }> = {
   // Negative Statuses (Debuffs)
-  stun: { label: '眩晕|拍扁', color: '#fbbf24', nature: 'negative', floatingTextCD: 800, propName: 'stunTimer', initialValue: 0, autoInit: true, tags: ['hard_cc', 'interrupt'] },
-  petrify: { label: '石化', color: '#94a3b8', nature: 'negative', floatingTextCD: 800, propName: 'petrifyTimer', initialValue: 0, autoInit: true, tags: ['hard_cc', 'interrupt'] },
-  sleep: { label: '催眠', color: '#818cf8', nature: 'negative', floatingTextCD: 800, propName: 'sleepTimer', initialValue: 0, autoInit: true, tags: ['hard_cc', 'mental', 'interrupt'] },
-  fear: { label: '恐惧', color: '#c084fc', nature: 'negative', floatingTextCD: 800, propName: 'fearTimer', initialValue: 0, autoInit: true, tags: ['hard_cc', 'mental', 'interrupt'] },
-  charm: { label: '魅惑|被萌翻', color: '#ec4899', nature: 'negative', floatingTextCD: 800, propName: 'charmTimer', initialValue: 0, autoInit: true, tags: ['hard_cc', 'mental', 'interrupt'] },
-  taunt: { label: '嘲讽', color: '#f43f5e', nature: 'negative', floatingTextCD: 800, propName: 'tauntTimer', initialValue: 0, autoInit: true, tags: ['hard_cc', 'mental', 'interrupt'] },
-  silence: { label: '沉默', color: '#60a5fa', nature: 'negative', floatingTextCD: 800, propName: 'silenceTimer', initialValue: 0, autoInit: true, tags: ['mental', 'interrupt'] },
-  disarm: { label: '缴械|踩', color: '#f87171', nature: 'negative', floatingTextCD: 800, propName: 'disarmTimer', initialValue: 0, autoInit: true },
-  root: { label: '束缚', color: '#22c55e', nature: 'negative', floatingTextCD: 800, propName: 'rootTimer', initialValue: 0, autoInit: true },
-  blind: { label: '致盲', color: '#10b981', nature: 'negative', floatingTextCD: 800, propName: 'blindTimer', initialValue: 0, autoInit: true },
-  slow: { label: '减速', color: '#3b82f6', nature: 'negative', floatingTextCD: 3000, propName: 'slowTimer', initialValue: 0, autoInit: true },
-  burn: { label: '灼烧', color: '#ea580c', nature: 'negative', floatingTextCD: 3000, propName: 'burnTimer', initialValue: 0, autoInit: true, tags: ['fire'] },
+  stun: { labels: ['status.stun', 'status.flattened'], color: '#fbbf24', nature: 'negative', floatingTextCD: 800, propName: 'stunTimer', initialValue: 0, autoInit: true, tags: ['hard_cc', 'interrupt'] },
+  petrify: { labels: ['status.petrify'], color: '#94a3b8', nature: 'negative', floatingTextCD: 800, propName: 'petrifyTimer', initialValue: 0, autoInit: true, tags: ['hard_cc', 'interrupt'] },
+  sleep: { labels: ['status.sleep'], color: '#818cf8', nature: 'negative', floatingTextCD: 800, propName: 'sleepTimer', initialValue: 0, autoInit: true, tags: ['hard_cc', 'mental', 'interrupt'] },
+  fear: { labels: ['status.fear'], color: '#c084fc', nature: 'negative', floatingTextCD: 800, propName: 'fearTimer', initialValue: 0, autoInit: true, tags: ['hard_cc', 'mental', 'interrupt'] },
+  charm: { labels: ['status.charm', 'status.cuteOverload'], color: '#ec4899', nature: 'negative', floatingTextCD: 800, propName: 'charmTimer', initialValue: 0, autoInit: true, tags: ['hard_cc', 'mental', 'interrupt'] },
+  taunt: { labels: ['status.taunt'], color: '#f43f5e', nature: 'negative', floatingTextCD: 800, propName: 'tauntTimer', initialValue: 0, autoInit: true, tags: ['hard_cc', 'mental', 'interrupt'] },
+  silence: { labels: ['status.silence'], color: '#60a5fa', nature: 'negative', floatingTextCD: 800, propName: 'silenceTimer', initialValue: 0, autoInit: true, tags: ['mental', 'interrupt'] },
+  disarm: { labels: ['status.disarm', 'status.stomped'], color: '#f87171', nature: 'negative', floatingTextCD: 800, propName: 'disarmTimer', initialValue: 0, autoInit: true },
+  root: { labels: ['status.root'], color: '#22c55e', nature: 'negative', floatingTextCD: 800, propName: 'rootTimer', initialValue: 0, autoInit: true },
+  blind: { labels: ['status.blind'], color: '#10b981', nature: 'negative', floatingTextCD: 800, propName: 'blindTimer', initialValue: 0, autoInit: true },
+  slow: { labels: ['status.slow'], color: '#3b82f6', nature: 'negative', floatingTextCD: 3000, propName: 'slowTimer', initialValue: 0, autoInit: true },
+  burn: { labels: ['status.burn'], color: '#ea580c', nature: 'negative', floatingTextCD: 3000, propName: 'burnTimer', initialValue: 0, autoInit: true, tags: ['fire'] },
 
   // Positive Statuses (Buffs)
-  invincible: { label: '无敌', color: '#facc15', nature: 'positive', floatingTextCD: 1000, propName: 'invincibleTimer', initialValue: 0, autoInit: true },
-  stealth: { label: '隐身', color: '#64748b', nature: 'positive', floatingTextCD: 1000, propName: 'stealthTimer', initialValue: 0, autoInit: true },
-  haste: { label: '加速', color: '#0ea5e9', nature: 'positive', floatingTextCD: 1000, propName: 'hasteTimer', initialValue: 0, autoInit: true },
-  heal: { label: '治疗', color: '#34d399', nature: 'positive', floatingTextCD: 1500, propName: 'healTimer', initialValue: 0, autoInit: true },
+  invincible: { labels: ['status.invincible'], color: '#facc15', nature: 'positive', floatingTextCD: 1000, propName: 'invincibleTimer', initialValue: 0, autoInit: true },
+  stealth: { labels: ['status.stealth'], color: '#64748b', nature: 'positive', floatingTextCD: 1000, propName: 'stealthTimer', initialValue: 0, autoInit: true },
+  haste: { labels: ['status.haste'], color: '#0ea5e9', nature: 'positive', floatingTextCD: 1000, propName: 'hasteTimer', initialValue: 0, autoInit: true },
+  heal: { labels: ['status.heal'], color: '#34d399', nature: 'positive', floatingTextCD: 1500, propName: 'healTimer', initialValue: 0, autoInit: true },
 
   // Special Statuses
-  burst: { label: '爆燃', color: '#ef4444', nature: 'special', floatingTextCD: 5000, propName: 'burstFlag', autoInit: false, tags: ['fire'] },
-  wet: { label: '潮湿', color: '#06b6d4', nature: 'special', floatingTextCD: 800, propName: 'isWet', initialValue: false, autoInit: true, tags: ['water'] },
-  revive: { label: '复活|有精神', color: '#22d3ee', nature: 'positive', floatingTextCD: 2000, propName: 'isDead', autoInit: false },
+  burst: { labels: ['status.burst'], color: '#ef4444', nature: 'special', floatingTextCD: 5000, propName: 'burstFlag', autoInit: false, tags: ['fire'] },
+  wet: { labels: ['status.wet'], color: '#06b6d4', nature: 'special', floatingTextCD: 800, propName: 'isWet', initialValue: false, autoInit: true, tags: ['water'] },
+  revive: { labels: ['status.revive', 'status.energized'], color: '#22d3ee', nature: 'positive', floatingTextCD: 2000, propName: 'isDead', autoInit: false },
 };
 
 // Unified Charge/Channel State Configuration
@@ -56,6 +59,14 @@ export const PHYSICS = {
   ACCELERATION_SPEED: 0.2,
 };
 
+// 模拟固定步长 (与渲染帧率解耦)
+export const SIM_CONFIG = {
+  TICK_RATE: 60,
+  FIXED_DT: 1 / 60,
+  MAX_FRAME_TIME: 0.1, // 单帧最多追赶的真实时间 (秒)，防止卡顿后雪崩
+  VIEW_SIZE: { width: 1920, height: 1080 }, // 逻辑视野，索敌"是否在屏幕内"使用，与客户端窗口无关
+};
+
 export const CHAR_STATS = {
   [CharacterType.COACH]: {
     hp: 3000,
@@ -149,6 +160,8 @@ export const CHAR_STATS = {
     comboWindow: 1.2, // Time to hit next combo
     comboDamage: [120, 150, 320], // Buffed from [90, 110, 220]
     comboKnockback: [250, 250, 700],
+    comboRange: [100, 100, 180], // 命中半径 (第三段为下劈)
+    comboArc: [Math.PI / 1.5, Math.PI / 1.5, Math.PI / 3], // 命中扇形的总角度
 
     // Thrust (Right Click)
     thrustMinDmg: 180, // Buffed from 100
@@ -183,6 +196,7 @@ export const CHAR_STATS = {
     // Scratch (Attack)
     scratchDamage: 60,
     scratchRange: 60,
+    scratchHalfAngle: 0.8, // 抓击扇形的半角 (弧度)
     scratchCooldown: 300,
 
     // Pounce (Charged Attack)
@@ -272,103 +286,7 @@ export const CHAR_STATS = {
   }
 };
 
-// Unified Charge/Channel State Configuration
-export const CHARGE_CONFIG: Record<string, {
-  character: CharacterType;
-  label: string;
-  tags: string[];
-  rules: {
-    canBeInterrupted: boolean;
-    movementMultiplier: number;
-    preventsBasicAttack: boolean;
-    locksAim: boolean;
-    isAirborne: boolean;
-  };
-  tenacity?: {
-    knockbackResistance?: number; // 0.0 ~ 1.0, reduces knockback force
-    ccResistance?: number;        // 0.0 ~ 1.0, reduces CC duration
-  };
-  cooldownProperty?: string;
-  maxCooldown?: number;
-  resetProperties?: Record<string, any>;
-}> = {
-  WUKONG_THRUST: {
-    character: CharacterType.WUKONG,
-    label: '戳棍蓄力',
-    tags: ['skill', 'right_click', 'charge'],
-    rules: {
-      canBeInterrupted: true,
-      movementMultiplier: 0.3,
-      preventsBasicAttack: true,
-      locksAim: false,
-      isAirborne: false,
-    },
-    tenacity: { knockbackResistance: 0.8 },
-    cooldownProperty: 'wukongThrustTimer',
-    maxCooldown: CHAR_STATS[CharacterType.WUKONG].thrustCooldown / 1000,
-    resetProperties: { wukongChargeState: 'NONE', wukongChargeTime: 0 },
-  },
-  WUKONG_SMASH: {
-    character: CharacterType.WUKONG,
-    label: '立棍蓄力',
-    tags: ['skill', 'ultimate', 'charge'],
-    rules: {
-      canBeInterrupted: true,
-      movementMultiplier: 0,
-      preventsBasicAttack: true,
-      locksAim: true, // [Fix] Lock aim to allow dodging/counter-play
-      isAirborne: false,
-    },
-    tenacity: { knockbackResistance: 0.8 },
-    cooldownProperty: 'skillCooldown',
-    maxCooldown: CHAR_STATS[CharacterType.WUKONG].skillCooldown / 1000,
-    resetProperties: { wukongChargeState: 'NONE', wukongChargeTime: 0, wukongChargeHoldTimer: 0 },
-  },
-  CAT_CHARGE: {
-    character: CharacterType.CAT,
-    label: '飞扑蓄力',
-    tags: ['skill', 'left_click', 'charge'],
-    rules: {
-      canBeInterrupted: true,
-      movementMultiplier: 0.2,
-      preventsBasicAttack: true,
-      locksAim: false,
-      isAirborne: false,
-    },
-    cooldownProperty: 'pounceCooldown',
-    maxCooldown: CHAR_STATS[CharacterType.CAT].pounceCooldown / 1000,
-    resetProperties: { catIsCharging: false },
-  },
-  CAT_POUNCE: {
-    character: CharacterType.CAT,
-    label: '飞扑中',
-    tags: ['skill', 'pounce', 'airborne'],
-    rules: {
-      canBeInterrupted: true,
-      movementMultiplier: 1,
-      preventsBasicAttack: true,
-      locksAim: false,
-      isAirborne: true,
-    },
-    resetProperties: { isPouncing: false },
-  },
-  MAGIC_AVADA: {
-    character: CharacterType.MAGIC,
-    label: '阿瓦达蓄力',
-    tags: ['skill', 'ultimate', 'charge', 'channel'],
-    rules: {
-      canBeInterrupted: true,
-      movementMultiplier: 0,
-      preventsBasicAttack: true,
-      locksAim: true,
-      isAirborne: false,
-    },
-    cooldownProperty: 'skillCooldown',
-    maxCooldown: CHAR_STATS[CharacterType.MAGIC].skillCooldown / 1000,
-    resetProperties: { avadaCharging: false, avadaChargeTime: 0 },
-  },
-};
-
+// 地形亲和度的默认值，各角色的差异在角色模块 (characters/) 中设置
 export const DEFAULT_HAZARD_AFFINITY = {
   SKILL: 1,
   WATER: 0.5,
@@ -376,43 +294,58 @@ export const DEFAULT_HAZARD_AFFINITY = {
   WALL: 0,
 };
 
-export const HAZARD_AFFINITY: Partial<Record<CharacterType, Partial<typeof DEFAULT_HAZARD_AFFINITY>>> = {
-  [CharacterType.PYRO]: {
-    MAGMA: -1,  // Beneficial (Safe/Preferred)
-  },
-  [CharacterType.MAGIC]: {
-    WALL: -0.5,    // Safe spot preference (Blink can land here)
-    WATER: 0.1,    // Slight penalty to avoid landing in water if possible
-    MAGMA: 2.0,    // [修复] 高惩罚岩浆，避免移形换影落在岩浆里
-  },
-  [CharacterType.CAT]: {
-    WATER: -0.3,
-    MAGMA: 1.5,
-  },
-  [CharacterType.WUKONG]: {
-    MAGMA: 0.5,
-    WATER: -0.3,
-  }
+// [Difficulty] 各难度的 AI 参数；NORMAL 即原有的 AI 行为 (旧录像按此重演)，
+// 因此只有 EASY 带冷却估算误差 (为 0 时不抽取随机数，不改变随机序列)
+export const AI_DIFFICULTIES: AIDifficulty[] = ['EASY', 'NORMAL', 'HARD', 'INSANE'];
+
+export const AI_DIFFICULTY: Record<AIDifficulty, AIDifficultyProfile> = {
+  EASY: { reactionDelay: 0.5, aimError: 0.3, aimLead: 0, dodgeChance: 0.35, comboRate: 0.3, resourceReserve: 0, spacingVariance: 2, cooldownNoise: 1.5 },
+  NORMAL: { reactionDelay: 0, aimError: 0, aimLead: 0, dodgeChance: 1, comboRate: 1, resourceReserve: 0, spacingVariance: 1, cooldownNoise: 0 },
+  HARD: { reactionDelay: 0, aimError: 0, aimLead: 0.1, dodgeChance: 1, comboRate: 1.4, resourceReserve: 0.15, spacingVariance: 0.6, cooldownNoise: 0 },
+  INSANE: { reactionDelay: 0, aimError: 0, aimLead: 0.15, dodgeChance: 1, comboRate: 1.8, resourceReserve: 0.2, spacingVariance: 0.4, cooldownNoise: 0 },
+};
+
+// [Command] 队伍指令：持续时间 (秒)、电脑玩家到达目标点的判定半径与地面标记颜色
+export const TEAM_COMMANDS: TeamCommandType[] = ['ATTACK', 'REGROUP', 'HOLD', 'RETREAT'];
+
+export const TEAM_COMMAND_CONFIG: Record<TeamCommandType, { duration: number, radius: number, color: string }> = {
+  ATTACK: { duration: 8, radius: 0, color: '#ef4444' },
+  REGROUP: { duration: 6, radius: 150, color: '#22d3ee' },
+  HOLD: { duration: 12, radius: 100, color: '#facc15' },
+  RETREAT: { duration: 5, radius: 120, color: '#a3e635' },
 };
 
-export const MAGIC_SPELL_LINES: Record<string, string> = {
-  stun: '昏昏倒地',
-  petrify: '统统石化',
-  sleep: '沉沉入梦',
-  fear: '震心慑魄',
-  charm: '意乱情迷',
-  taunt: '你过来啊',
-  silence: '无声无息',
-  root: '速速禁锢',
-  blind: '目眩失明',
-  slow: '障碍重重',
-  burn: '火焰熊熊',
-
-  disarm: '除你武器',
-  blink: '移形换影',
-  armor: '盔甲护身',
-
-  patronus: '呼神护卫',
-  avada: '阿瓦达啃大瓜',
+// 撤退点：从下令者位置背离敌方重心的距离
+export const TEAM_COMMAND_RETREAT_DISTANCE = 450;
+
+// [Training] 训练场
+export const DEFAULT_TRAINING_SETTINGS: TrainingSettings = { dummyMode: 'STATIONARY', infiniteResources: true, resetCooldowns: false };
+export const TRAINING_MAX_DUMMIES = 6;
+export const TRAINING_DUMMY_DISTANCE = 350; // 新靶子生成在玩家周围的距离
+export const TRAINING_STATUS_DURATION = 3;   // 手动施加的状态持续时间 (秒)
+export const TRAINING_DPS_WINDOW = 5;        // DPS 统计的滑动窗口 (秒)
+
+// 魔法护盾开启时碰撞、受击与击退判定半径的增量 (引擎、绘制与调试叠加层共用)
+export const MAGIC_SHIELD_EXTRA_RADIUS = 30;
+
+export const MAGIC_SPELL_LINES: Record<string, MessageKey> = {
+  stun: 'spell.stun',
+  petrify: 'spell.petrify',
+  sleep: 'spell.sleep',
+  fear: 'spell.fear',
+  charm: 'spell.charm',
+  taunt: 'spell.taunt',
+  silence: 'spell.silence',
+  root: 'spell.root',
+  blind: 'spell.blind',
+  slow: 'spell.slow',
+  burn: 'spell.burn',
+
+  disarm: 'spell.disarm',
+  blink: 'spell.blink',
+  armor: 'spell.armor',
+
+  patronus: 'spell.patronus',
+  avada: 'spell.avada',
 
 };
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { CharacterType } from '../../types';
+import { CHAR_STATS } from '../../constants';
+import { AbilitySlot } from './types';
+import type { AbilityDefinition } from './types';
+
+// 猫球：左键短按抓挠、长按蓄力飞扑，右键哈气，空格铲屎
+export const catAbilities: AbilityDefinition[] = [
+    {
+        id: 'cat.pounce',
+        slot: AbilitySlot.PRIMARY,
+        targeting: 'DIRECTION',
+        phases: ['CHARGE', 'RELEASE'],
+        chargeState: 'CAT_CHARGE',
+        start: (p, _target, ctx) => {
+            p.catIsCharging = true;
+            p.catChargeStartTime = ctx.simNow();
+        },
+        // 蓄力不足阈值时视为短按 (抓挠)
+        release: (p, _target, ctx) => {
+            if (!p.catIsCharging) return false;
+            p.catIsCharging = false;
+            const chargeTime = (ctx.simNow() - (p.catChargeStartTime || 0)) / 1000;
+            if (chargeTime < CHAR_STATS[CharacterType.CAT].pounceChargeThreshold) {
+                ctx.effects.handleCatScratch(p);
+            } else {
+                ctx.effects.handleCatPounce(p, chargeTime);
+            }
+        },
+        cancel: p => {
+            p.catIsCharging = false;
+        },
+        forced: (p, _target, _dt, ctx) => ctx.effects.handleCatScratch(p),
+    },
+    {
+        id: 'cat.hiss',
+        slot: AbilitySlot.SECONDARY,
+        targeting: 'SELF',
+        phases: ['RELEASE'],
+        // 飞扑途中先缓存，落地后释放
+        start: (p, _target, ctx) => {
+            if (p.isPouncing) {
+                p.bufferedInput = 'HISS';
+            } else {
+                ctx.effects.handleCatHiss(p);
+            }
+        },
+    },
+    {
+        id: 'cat.scooper',
+        slot: AbilitySlot.ULTIMATE,
+        targeting: 'UNIT',
+        phases: ['RELEASE'],
+        cooldown: { timer: 'skillCooldown' },
+        silenceable: true,
+        start: (p, _target, ctx) => ctx.effects.handleCatScooper(p),
+    },
+];
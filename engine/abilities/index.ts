@@ -0,0 +1,6 @@
+export { ABILITY_SLOTS, createAbilityRunner, isSlotHeld } from './runner';
+export { AbilitySlot } from './types';
+export type {
+    AbilityCharge, AbilityChargeTimer, AbilityContext, AbilityCooldown, AbilityCost, AbilityDefinition, AbilityEffects, AbilityPhase,
+    AbilityRecovery, AbilityResource, AbilityRunner, AbilityTargeting, AbilityTimer, AbilityWindup
+} from './types';
@@ -0,0 +1,86 @@
+import { CharacterType } from '../../types';
+import type { PlayerState } from '../../types';
+import { CHAR_STATS } from '../../constants';
+import { AbilitySlot } from './types';
+import type { AbilityContext, AbilityDefinition } from './types';
+
+const stats = CHAR_STATS[CharacterType.MAGIC];
+
+// 魔法球：左键施咒，右键护身法术 (被控时可用)，空格按黑白形态施放大招
+export const magicAbilities: AbilityDefinition[] = [
+    {
+        id: 'magic.curse',
+        slot: AbilitySlot.PRIMARY,
+        targeting: 'DIRECTION',
+        phases: ['CHANNEL'],
+        silenceable: true,
+        // 大招蓄力期间不能普攻
+        canUse: p => !p.avadaCharging,
+        // 连续施咒时消耗逐渐上升，停手后回落
+        channel: (p, target, dt, ctx) => {
+            p.magicChargeTimer = (p.magicChargeTimer || 0) + dt;
+            ctx.effects.handleMagicCurse(p, target);
+        },
+        idle: (p, dt) => {
+            p.magicChargeTimer = Math.max(0, (p.magicChargeTimer || 0) - dt * 2);
+        },
+        forced: (p, target, _dt, ctx) => ctx.effects.handleMagicCurse(p, target),
+    },
+    {
+        id: 'magic.protection',
+        slot: AbilitySlot.SECONDARY,
+        targeting: 'SELF',
+        phases: ['RELEASE'],
+        // 移形换影可解控
+        usableWhileControlled: true,
+        start: (p, _target, ctx) => ctx.effects.handleMagicProtection(p),
+    },
+    {
+        // 白：《呼神护卫》瞬发；黑：《阿瓦达啃大瓜》按住蓄力，松开释放
+        id: 'magic.ultimate',
+        slot: AbilitySlot.ULTIMATE,
+        targeting: 'DIRECTION',
+        phases: ['CHANNEL', 'RELEASE'],
+        chargeState: 'MAGIC_AVADA',
+        usableWhileControlled: p => p.magicForm === 'WHITE',
+        channel: (p, _target, dt, ctx) => ctx.effects.handleMagicUltimate(p, dt),
+        idle: (p, _dt, ctx) => {
+            if (p.avadaCharging) ctx.effects.releaseAvada(p);
+        },
+    },
+];
+
+// 法力回复 (光灵球期间加倍)、护盾到期与震动计时、光灵球持续回血
+export const updateMagicResources = (p: PlayerState, dt: number, ctx: AbilityContext) => {
+    let mpRegen = stats.mpRegen;
+    if (p.lightSpiritTimer && p.lightSpiritTimer > 0) {
+        mpRegen *= stats.lightSpiritMpRegenMultiplier;
+    }
+    p.mp = Math.min((p.mp || 0) + mpRegen * dt, p.maxMp || stats.maxMp);
+
+    // 护盾被打破时同时结束计时
+    if ((p.magicShieldHp || 0) <= 0 && (p.magicShieldTimer || 0) > 0) {
+        p.magicShieldTimer = 0;
+    }
+
+    if (p.magicShieldShakeTimer && p.magicShieldShakeTimer > 0) {
+        p.magicShieldShakeTimer -= dt;
+        if (p.magicShieldShakeTimer < 0) p.magicShieldShakeTimer = 0;
+    }
+
+    // 护盾到期：此时才进入冷却
+    if ((p.magicShieldTimer || 0) <= 0 && (p.magicShieldHp || 0) > 0) {
+        p.magicShieldHp = 0;
+        p.secondarySkillCooldown = stats.armorCooldown / 1000;
+        p.secondarySkillMaxCooldown = stats.armorCooldown / 1000;
+    }
+
+    if (p.lightSpiritTimer && p.lightSpiritTimer > 0 && p.hp < p.maxHp) {
+        ctx.applyStatus(p, 'heal', 0.5);
+    }
+
+    if (p.healTimer > 0) {
+        const ratio = p.lightSpiritPowerRatio || 1;
+        p.hp = Math.min(p.hp + (stats.lightSpiritHealRate * ratio) * dt, p.maxHp);
+    }
+};
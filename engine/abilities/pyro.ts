@@ -0,0 +1,84 @@
+import { CharacterType } from '../../types';
+import type { GameState, PlayerState } from '../../types';
+import { CHAR_STATS } from '../../constants';
+import * as Utils from '../../utils';
+import { AbilitySlot } from './types';
+import type { AbilityContext, AbilityDefinition } from './types';
+
+const stats = CHAR_STATS[CharacterType.PYRO];
+
+const hasMagmaPools = (state: GameState) => state.groundEffects.some(g => g.type === 'MAGMA_POOL');
+
+// 火焰球：按住喷火 (消耗燃料，耗尽过热)，空格投掷岩浆池，右键引爆
+export const pyroAbilities: AbilityDefinition[] = [
+    {
+        id: 'pyro.flamethrower',
+        slot: AbilitySlot.PRIMARY,
+        targeting: 'DIRECTION',
+        phases: ['CHANNEL'],
+        cost: { resource: 'fuel', perSecond: () => stats.fuelConsumption },
+        canUse: p => !p.isBurnedOut,
+        // 瞄准越近，火焰越短越宽
+        aim: (p, target, ctx) => {
+            const { range, angle } = ctx.effects.calculatePyroShape(Utils.dist(p.pos, target));
+            p.currentWeaponRange = range;
+            p.currentWeaponAngle = angle;
+        },
+        channel: (p, _target, dt, ctx) => {
+            p.isFiringFlamethrower = true;
+            ctx.effects.fireFlamethrower(p, dt);
+        },
+        // 燃料耗尽过热
+        depleted: (p, ctx) => {
+            p.isBurnedOut = true;
+            ctx.audio.playBurnout();
+            ctx.spawnParticles(p.pos, 15, '#ffffff', 5, 0.5);
+        },
+        idle: p => {
+            p.isFiringFlamethrower = false;
+        },
+    },
+    {
+        id: 'pyro.detonate',
+        slot: AbilitySlot.SECONDARY,
+        targeting: 'SELF',
+        phases: ['RELEASE'],
+        cooldown: { timer: 'secondarySkillCooldown', duration: 3.0 },
+        silenceable: true,
+        start: (p, _target, ctx) => {
+            if (!hasMagmaPools(ctx.getState())) {
+                // 没有岩浆池时播放错误音
+                ctx.audio.playUI('ERROR');
+                return false;
+            }
+            ctx.effects.detonateMagmaPools(p);
+        },
+        channel: (p, _target, _dt, ctx) => {
+            if (!hasMagmaPools(ctx.getState())) return false;
+            ctx.effects.detonateMagmaPools(p);
+        },
+    },
+    {
+        id: 'pyro.magmaPool',
+        slot: AbilitySlot.ULTIMATE,
+        targeting: 'POINT',
+        phases: ['RELEASE'],
+        cooldown: { timer: 'skillCooldown' },
+        silenceable: true,
+        channel: (p, target, _dt, ctx) => ctx.effects.castMagmaPool(p, target),
+    },
+];
+
+// 燃料回复：过热后慢速回满才解除，正常时停火才回复
+export const updatePyroResources = (p: PlayerState, dt: number, _ctx: AbilityContext) => {
+    if (p.isBurnedOut) {
+        p.fuel += stats.burnoutRegen * dt;
+        if (p.fuel >= p.maxFuel) {
+            p.fuel = p.maxFuel;
+            p.isBurnedOut = false;
+        }
+    } else if (!p.isFiringFlamethrower) {
+        p.fuel += stats.fuelRegen * dt;
+        if (p.fuel > p.maxFuel) p.fuel = p.maxFuel;
+    }
+};
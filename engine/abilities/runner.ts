@@ -0,0 +1,170 @@
+import type { PlayerInput, PlayerState, Vector2 } from '../../types';
+import { getCharacter } from '../../characters/registry';
+import { AbilitySlot } from './types';
+import type { AbilityCharge, AbilityContext, AbilityCost, AbilityDefinition, AbilityHookResult, AbilityPhase, AbilityRunner } from './types';
+
+// 技能槽在每步中的处理顺序
+export const ABILITY_SLOTS: AbilitySlot[] = [AbilitySlot.PRIMARY, AbilitySlot.SECONDARY, AbilitySlot.ULTIMATE, AbilitySlot.TOGGLE];
+
+// 玩家输入中该技能槽对应的按键是否按住
+export const isSlotHeld = (input: PlayerInput, slot: AbilitySlot): boolean => {
+    switch (slot) {
+        case AbilitySlot.PRIMARY: return input.primary;
+        case AbilitySlot.SECONDARY: return input.secondary;
+        case AbilitySlot.ULTIMATE: return input.ultimate;
+        case AbilitySlot.TOGGLE: return input.toggleMode;
+    }
+};
+
+const getAbilities = (p: PlayerState): AbilityDefinition[] => getCharacter(p.type)?.abilities || [];
+
+const getSlotAbilities = (p: PlayerState, slot: AbilitySlot): AbilityDefinition[] => getAbilities(p).filter(a => a.slot === slot);
+
+const isUsableWhileControlled = (def: AbilityDefinition, p: PlayerState): boolean =>
+    typeof def.usableWhileControlled === 'function' ? def.usableWhileControlled(p) : !!def.usableWhileControlled;
+
+const canAfford = (p: PlayerState, cost: AbilityCost): boolean =>
+    cost.amount !== undefined ? p[cost.resource] >= cost.amount : p[cost.resource] > 0;
+
+const hasPhase = (def: AbilityDefinition, phase: AbilityPhase): boolean => def.phases.includes(phase);
+
+// 自身目标的技能不关心瞄准点，钩子收到的是施放者的位置
+const resolveTarget = (p: PlayerState, def: AbilityDefinition, target: Vector2): Vector2 =>
+    def.targeting === 'SELF' ? p.pos : target;
+
+// [Ability] 技能运行器：检查施放条件、扣除消耗、设置冷却、推进前摇与蓄力、进入后摇，并按输入阶段调用技能定义的效果
+export const createAbilityRunner = (ctx: AbilityContext): AbilityRunner => {
+    const canActivate = (p: PlayerState, def: AbilityDefinition, target: Vector2): boolean => {
+        // 前摇期间不能施放其他技能
+        if (p.abilityWindup) return false;
+        if (!isUsableWhileControlled(def, p) && ctx.isControlled(p)) return false;
+        if (def.silenceable && p.silenceTimer > 0) return false;
+        if (def.cooldown && p[def.cooldown.timer] > 0) return false;
+        if (def.cost && !canAfford(p, def.cost)) return false;
+        return !def.canUse || def.canUse(p, target, ctx);
+    };
+
+    const enterRecovery = (p: PlayerState, def: AbilityDefinition) => {
+        if (hasPhase(def, 'RECOVERY') && def.recovery) p[def.recovery.timer] = def.recovery.duration;
+    };
+
+    // 执行效果 -> 扣除消耗 -> 设置冷却 -> 后摇 (效果返回 false 时都不发生；蓄力技能的后摇在 release 之后)
+    const activate = (p: PlayerState, def: AbilityDefinition, dt: number, effect: () => AbilityHookResult) => {
+        if (effect() === false) return;
+        if (def.cost) {
+            const { resource, amount, perSecond } = def.cost;
+            p[resource] -= amount !== undefined ? amount : (perSecond ? perSecond() : 0) * dt;
+            if (p[resource] <= 0) {
+                p[resource] = 0;
+                def.depleted?.(p, ctx);
+            }
+        }
+        if (def.cooldown?.duration !== undefined) p[def.cooldown.timer] = def.cooldown.duration;
+        if (!hasPhase(def, 'CHARGE')) enterRecovery(p, def);
+    };
+
+    const releaseAbility = (p: PlayerState, def: AbilityDefinition, target: Vector2) => {
+        if (!def.release || def.release(p, resolveTarget(p, def, target), ctx) === false) return;
+        if (hasPhase(def, 'CHARGE')) enterRecovery(p, def);
+    };
+
+    // 前摇结束时重新检查施放条件 (期间被控制、沉默或资源不足则取消)
+    const advanceWindup = (p: PlayerState, dt: number) => {
+        const windup = p.abilityWindup;
+        if (!windup) return;
+        windup.timer -= dt;
+        if (windup.timer > 0) return;
+        p.abilityWindup = undefined;
+        const def = getAbilities(p).find(a => a.id === windup.id);
+        if (def?.start && canActivate(p, def, windup.target)) activate(p, def, 0, () => def.start!(p, windup.target, ctx));
+    };
+
+    // 蓄满 (并保持到上限) 时返回 true
+    const advanceCharge = (p: PlayerState, charge: AbilityCharge, dt: number): boolean => {
+        p[charge.timer] += dt;
+        const maxTime = charge.maxTime(p);
+        if (p[charge.timer] < maxTime) return false;
+        p[charge.timer] = maxTime;
+        if (!charge.holdTimer) return true;
+        p[charge.holdTimer] += dt;
+        return p[charge.holdTimer] >= (charge.maxHoldTime ? charge.maxHoldTime(p) : 0);
+    };
+
+    const holdAbility = (p: PlayerState, def: AbilityDefinition, aim: Vector2, dt: number) => {
+        const target = resolveTarget(p, def, aim);
+        if (def.channel && canActivate(p, def, target)) {
+            activate(p, def, dt, () => def.channel!(p, target, dt, ctx));
+        } else {
+            def.idle?.(p, dt, ctx);
+        }
+    };
+
+    const press = (p: PlayerState, slot: AbilitySlot, target: Vector2) => {
+        getSlotAbilities(p, slot).forEach(def => {
+            const resolved = resolveTarget(p, def, target);
+            if (!def.start || !canActivate(p, def, resolved)) return;
+            if (hasPhase(def, 'WINDUP') && def.windup) {
+                p.abilityWindup = { id: def.id, target: { ...resolved }, timer: def.windup.duration };
+            } else {
+                activate(p, def, 0, () => def.start!(p, resolved, ctx));
+            }
+        });
+    };
+
+    const release = (p: PlayerState, slot: AbilitySlot, target: Vector2) => {
+        getSlotAbilities(p, slot).forEach(def => releaseAbility(p, def, target));
+    };
+
+    const hold = (p: PlayerState, slot: AbilitySlot, target: Vector2, dt: number) => {
+        getSlotAbilities(p, slot).forEach(def => holdAbility(p, def, target, dt));
+    };
+
+    const holdWhileControlled = (p: PlayerState, slot: AbilitySlot, target: Vector2, dt: number) => {
+        getSlotAbilities(p, slot).forEach(def => {
+            const resolved = resolveTarget(p, def, target);
+            if (def.channel && isUsableWhileControlled(def, p) && canActivate(p, def, resolved)) {
+                activate(p, def, dt, () => def.channel!(p, resolved, dt, ctx));
+            }
+        });
+    };
+
+    const idle = (p: PlayerState, slot: AbilitySlot, dt: number) => {
+        getSlotAbilities(p, slot).forEach(def => def.idle?.(p, dt, ctx));
+    };
+
+    const tap = (p: PlayerState, slot: AbilitySlot, target: Vector2, dt: number) => {
+        press(p, slot, target);
+        hold(p, slot, target, dt);
+        release(p, slot, target);
+    };
+
+    const cancel = (p: PlayerState, slot: AbilitySlot) => {
+        getSlotAbilities(p, slot).forEach(def => def.cancel?.(p, ctx));
+    };
+
+    // 推进前摇与蓄力 (与是否按住无关)；自动释放时没有新的瞄准点，以自身位置作为目标
+    const update = (p: PlayerState, dt: number) => {
+        advanceWindup(p, dt);
+        getAbilities(p).forEach(def => {
+            if (!def.charge || !def.chargeState || getCharacter(p.type)?.getActiveCharge?.(p) !== def.chargeState) return;
+            if (advanceCharge(p, def.charge, dt)) releaseAbility(p, def, p.pos);
+        });
+    };
+
+    const aim = (p: PlayerState, target: Vector2) => {
+        getAbilities(p).forEach(def => def.aim?.(p, resolveTarget(p, def, target), ctx));
+    };
+
+    const forceAttack = (p: PlayerState, target: Vector2, dt: number) => {
+        getSlotAbilities(p, AbilitySlot.PRIMARY).forEach(def => {
+            if (def.forced) {
+                def.forced(p, resolveTarget(p, def, target), dt, ctx);
+            } else {
+                def.aim?.(p, resolveTarget(p, def, target), ctx);
+                holdAbility(p, def, target, dt);
+            }
+        });
+    };
+
+    return { press, release, hold, holdWhileControlled, idle, tap, cancel, update, aim, forceAttack };
+};
@@ -0,0 +1,98 @@
+import { CharacterType, TankMode } from '../../types';
+import type { PlayerState } from '../../types';
+import { CHAR_STATS } from '../../constants';
+import * as Utils from '../../utils';
+import { AbilitySlot } from './types';
+import type { AbilityContext, AbilityDefinition } from './types';
+
+const stats = CHAR_STATS[CharacterType.TANK];
+
+const modeSwitch: AbilityDefinition = {
+    id: 'tank.modeSwitch',
+    slot: AbilitySlot.ULTIMATE,
+    targeting: 'SELF',
+    phases: ['RELEASE', 'RECOVERY'],
+    // 切换后主武器短暂不能开火
+    recovery: { timer: 'attackCooldown', duration: 1.5 },
+    cooldown: { timer: 'skillCooldown', duration: 1 },
+    silenceable: true,
+    channel: (p, _target, _dt, ctx) => {
+        p.tankMode = p.tankMode === TankMode.ARTILLERY ? TankMode.LMG : TankMode.ARTILLERY;
+        ctx.audio.playSkill('SWITCH');
+        ctx.spawnParticles(p.pos, 5, '#ffffff');
+    },
+};
+
+// 坦克球：左键按形态发射火炮或机枪，右键放出无人机，空格或切换键切换形态
+export const tankAbilities: AbilityDefinition[] = [
+    {
+        id: 'tank.artillery',
+        slot: AbilitySlot.PRIMARY,
+        targeting: 'POINT',
+        phases: ['RELEASE'],
+        cost: { resource: 'artilleryAmmo', amount: 1 },
+        cooldown: { timer: 'attackCooldown', duration: 2.5 },
+        canUse: (p, target) => p.tankMode === TankMode.ARTILLERY && Utils.dist(p.pos, target) > stats.artilleryMinRange,
+        channel: (p, target, _dt, ctx) => ctx.effects.fireArtillery(p, target),
+    },
+    {
+        id: 'tank.lmg',
+        slot: AbilitySlot.PRIMARY,
+        targeting: 'DIRECTION',
+        phases: ['CHANNEL'],
+        cost: { resource: 'lmgAmmo', amount: 1 },
+        cooldown: { timer: 'attackCooldown', duration: 0.08 },
+        canUse: p => p.tankMode !== TankMode.ARTILLERY && !p.isReloadingLmg,
+        channel: (p, _target, _dt, ctx) => ctx.effects.fireLMG(p),
+        // 打空弹匣后开始换弹
+        depleted: p => {
+            p.isReloadingLmg = true;
+            p.lmgReloadTimer = 0;
+        },
+    },
+    {
+        id: 'tank.drone',
+        slot: AbilitySlot.SECONDARY,
+        targeting: 'SELF',
+        phases: ['RELEASE'],
+        silenceable: true,
+        canUse: p => p.droneState === 'READY',
+        start: (p, _target, ctx) => ctx.effects.deployDrone(p),
+    },
+    modeSwitch,
+    { ...modeSwitch, id: 'tank.modeSwitchKey', slot: AbilitySlot.TOGGLE },
+];
+
+// 炮弹逐发装填，机枪打空后整匣换弹，无人机充电/重建
+export const updateTankResources = (p: PlayerState, dt: number, ctx: AbilityContext) => {
+    if (p.artilleryAmmo < p.maxArtilleryAmmo) {
+        p.artilleryReloadTimer += dt * 1000;
+        if (p.artilleryReloadTimer >= stats.artilleryRegenTime) {
+            p.artilleryAmmo += 1;
+            p.artilleryReloadTimer = 0;
+            ctx.audio.playSkill('RELOAD');
+        }
+    }
+
+    if (p.isReloadingLmg) {
+        p.lmgReloadTimer += dt * 1000;
+        const duration = stats.lmgReloadDuration;
+        p.lmgAmmo = (p.lmgReloadTimer / duration) * p.maxLmgAmmo;
+
+        if (p.lmgReloadTimer >= duration) {
+            p.lmgAmmo = p.maxLmgAmmo;
+            p.isReloadingLmg = false;
+            p.lmgReloadTimer = 0;
+            ctx.audio.playSkill('RELOAD');
+        }
+    }
+
+    if (p.droneState === 'CHARGING' || p.droneState === 'RECONSTRUCTING') {
+        p.droneTimer += dt;
+        if (p.droneTimer >= p.droneMaxTimer) {
+            p.droneState = 'READY';
+            p.droneTimer = 0;
+            if (!p.isBot) ctx.audio.playUI('START');
+        }
+    }
+};
@@ -0,0 +1,166 @@
+import type { GameState, PlayerState, Vector2 } from '../../types';
+import type { AudioSink } from '../types';
+
+// 技能槽与输入按键一一对应 (TOGGLE 为切换形态键)
+export enum AbilitySlot {
+    PRIMARY = 'PRIMARY',
+    SECONDARY = 'SECONDARY',
+    ULTIMATE = 'ULTIMATE',
+    TOGGLE = 'TOGGLE',
+}
+
+// 施放目标：自身、地面点、方向 (瞄准角) 或单位；SELF 技能的钩子收到的目标是自身位置
+export type AbilityTargeting = 'SELF' | 'POINT' | 'DIRECTION' | 'UNIT';
+
+// 技能经历的阶段：前摇、蓄力 (松开时按蓄力程度释放)、引导 (按住期间持续生效)、释放与后摇
+export type AbilityPhase = 'WINDUP' | 'CHARGE' | 'CHANNEL' | 'RELEASE' | 'RECOVERY';
+
+// 由运行器检查与设置的冷却计时
+export type AbilityTimer = 'attackCooldown' | 'skillCooldown' | 'secondarySkillCooldown' | 'wukongThrustTimer';
+
+// 由运行器检查与扣除的资源
+export type AbilityResource = 'fuel' | 'artilleryAmmo' | 'lmgAmmo';
+
+export interface AbilityCost {
+    resource: AbilityResource;
+    // 每次施放扣除的数量 (需要剩余不少于该值)
+    amount?: number;
+    // 引导技能每秒消耗 (剩余大于 0 即可施放)；施放时读取，平衡覆盖即时生效
+    perSecond?: () => number;
+}
+
+// 由运行器推进的蓄力计时
+export type AbilityChargeTimer = 'wukongChargeTime' | 'wukongChargeHoldTimer';
+
+/**
+ * 蓄力阶段：处于 chargeState 期间由运行器每步推进计时，蓄满后 (再保持 maxHoldTime) 自动释放
+ *
+ * 进入蓄力由 start 钩子完成，松开或自动释放都调用 release 钩子。
+ */
+export interface AbilityCharge {
+    timer: AbilityChargeTimer;
+    maxTime: (p: PlayerState) => number;
+    // 蓄满后可保持的计时；缺省表示蓄满立即释放
+    holdTimer?: AbilityChargeTimer;
+    maxHoldTime?: (p: PlayerState) => number;
+}
+
+export interface AbilityCooldown {
+    timer: AbilityTimer;
+    // 施放后设置的冷却 (秒)；缺省表示冷却由技能效果自己设置，运行器只检查
+    duration?: number;
+}
+
+// 前摇 (WINDUP 阶段)：按下时检查施放条件，经过 duration 秒后再次检查并执行 start
+export interface AbilityWindup {
+    duration: number;
+}
+
+// 后摇 (RECOVERY 阶段)：释放生效后把 timer 设为 duration (如释放后短暂不能普攻)
+export interface AbilityRecovery {
+    timer: AbilityTimer;
+    duration: number;
+}
+
+// 技能效果：与之前玩家按键、AI 直接调用的是同一套引擎函数
+export interface AbilityEffects {
+    handleCatPounce: (p: PlayerState, chargeTime: number) => void;
+    handleCatScratch: (p: PlayerState) => void;
+    handleCatHiss: (p: PlayerState) => void;
+    handleCatScooper: (p: PlayerState) => void;
+    handleWukongCombo: (p: PlayerState) => void;
+    releaseWukongThrust: (p: PlayerState) => void;
+    releaseWukongSmash: (p: PlayerState) => void;
+    calculatePyroShape: (distToTarget: number) => { range: number, angle: number };
+    fireFlamethrower: (p: PlayerState, dt: number) => void;
+    castMagmaPool: (p: PlayerState, target: Vector2) => void;
+    detonateMagmaPools: (p: PlayerState) => void;
+    fireArtillery: (p: PlayerState, target: Vector2) => void;
+    fireLMG: (p: PlayerState) => void;
+    deployDrone: (p: PlayerState) => void;
+    handleMagicCurse: (p: PlayerState, targetPos: Vector2) => void;
+    handleMagicProtection: (p: PlayerState) => void;
+    handleMagicUltimate: (p: PlayerState, dt: number) => void;
+    releaseAvada: (p: PlayerState) => void;
+}
+
+// 引擎提供给技能定义与角色钩子 (资源回复等) 的接口
+export interface AbilityContext {
+    // state 在回滚/跳转时会被整体替换，必须每次取最新的
+    getState: () => GameState;
+    simNow: () => number;
+    audio: AudioSink;
+    spawnParticles: (pos: Vector2, count: number, color: string, speed?: number, life?: number, drag?: number) => void;
+    applyStatus: (target: PlayerState, type: string, duration: number) => void;
+    isControlled: (p: PlayerState) => boolean;
+    effects: AbilityEffects;
+}
+
+// 返回 false 表示本次没有施放 (不扣除消耗、不设置冷却，也没有后摇)
+export type AbilityHookResult = boolean | void;
+
+/**
+ * 技能定义：消耗、冷却、目标类型、阶段与各阶段的效果
+ *
+ * 运行器在 start / channel 前检查控制、沉默、冷却、资源与 canUse，通过后执行效果，
+ * 效果生效才扣除消耗并设置冷却；release 等钩子不经检查 (蓄力开始时已检查过)。
+ * phases 含 WINDUP 时 start 推迟到前摇结束，含 RECOVERY 时在释放生效后进入后摇
+ * (有 CHARGE 阶段的技能在 release 之后，其余在 start / channel 之后)。
+ * 同一技能槽可有多个定义 (如坦克两种形态的主武器)，按顺序各自检查。
+ */
+export interface AbilityDefinition {
+    id: string;
+    slot: AbilitySlot;
+    targeting: AbilityTargeting;
+    // 按先后顺序列出技能经历的阶段
+    phases: AbilityPhase[];
+    windup?: AbilityWindup;
+    recovery?: AbilityRecovery;
+    // 蓄力/引导期间对应的 chargeStates 键 (打断、移速与韧性规则)
+    chargeState?: string;
+    charge?: AbilityCharge;
+    cost?: AbilityCost;
+    cooldown?: AbilityCooldown;
+    // 沉默时不可施放
+    silenceable?: boolean;
+    // 解控类技能被控制时仍可施放
+    usableWhileControlled?: boolean | ((p: PlayerState) => boolean);
+    canUse?: (p: PlayerState, target: Vector2, ctx: AbilityContext) => boolean;
+
+    // 按下：瞬发效果，或进入前摇/蓄力
+    start?: (p: PlayerState, target: Vector2, ctx: AbilityContext) => AbilityHookResult;
+    // 按住期间每步：引导效果或持续施放
+    channel?: (p: PlayerState, target: Vector2, dt: number, ctx: AbilityContext) => AbilityHookResult;
+    // 松开 (或蓄满自动释放)：按蓄力程度释放；没有在蓄力时返回 false
+    release?: (p: PlayerState, target: Vector2, ctx: AbilityContext) => AbilityHookResult;
+    // 扣除消耗后资源耗尽 (过热、换弹)
+    depleted?: (p: PlayerState, ctx: AbilityContext) => void;
+    // 未按住 (或无法施放) 的每步：停止引导、资源回落
+    idle?: (p: PlayerState, dt: number, ctx: AbilityContext) => void;
+    // 放弃蓄力，不产生效果
+    cancel?: (p: PlayerState, ctx: AbilityContext) => void;
+    // 每步按瞄准点调整武器形态 (玩家由鼠标驱动，AI 自行瞄准)
+    aim?: (p: PlayerState, target: Vector2, ctx: AbilityContext) => void;
+    // 被嘲讽时对嘲讽者的强制普攻；缺省时按住该技能
+    forced?: (p: PlayerState, target: Vector2, dt: number, ctx: AbilityContext) => void;
+}
+
+/**
+ * 施放技能的统一接口：玩家输入与 AI 都通过它触发技能 (玩家与 AI 对称)
+ *
+ * 玩家按键的边沿对应 press / release，按住与否对应 hold / idle；
+ * AI 的一次点按 (tap) 等同于玩家在一步之内按下并松开。
+ */
+export interface AbilityRunner {
+    press: (p: PlayerState, slot: AbilitySlot, target: Vector2) => void;
+    release: (p: PlayerState, slot: AbilitySlot, target: Vector2) => void;
+    hold: (p: PlayerState, slot: AbilitySlot, target: Vector2, dt: number) => void;
+    // 只施放被控制时可用的技能 (玩家在控制状态判定之前调用)
+    holdWhileControlled: (p: PlayerState, slot: AbilitySlot, target: Vector2, dt: number) => void;
+    idle: (p: PlayerState, slot: AbilitySlot, dt: number) => void;
+    tap: (p: PlayerState, slot: AbilitySlot, target: Vector2, dt: number) => void;
+    cancel: (p: PlayerState, slot: AbilitySlot) => void;
+    update: (p: PlayerState, dt: number) => void;
+    aim: (p: PlayerState, target: Vector2) => void;
+    forceAttack: (p: PlayerState, target: Vector2, dt: number) => void;
+}
@@ -0,0 +1,105 @@
+import { CharacterType } from '../../types';
+import type { DangerZone, PlayerState } from '../../types';
+import { CHAR_STATS } from '../../constants';
+import * as Utils from '../../utils';
+import { AbilitySlot } from './types';
+import type { AbilityContext, AbilityDefinition } from './types';
+
+const stats = CHAR_STATS[CharacterType.WUKONG];
+
+// 戳棍与立棍共用蓄力计时，同一时间只能蓄一种
+const startCharge = (p: PlayerState, chargeState: 'THRUST' | 'SMASH', maxCharge: number, ctx: AbilityContext) => {
+    p.wukongChargeState = chargeState;
+    p.wukongChargeTime = 0;
+    p.wukongMaxCharge = maxCharge;
+    ctx.audio.playSkill('CHARGE_START');
+};
+
+// 悟空球：三段连击，蓄力戳棍，蓄满后可短暂保持的立棍下劈
+export const wukongAbilities: AbilityDefinition[] = [
+    {
+        id: 'wukong.combo',
+        slot: AbilitySlot.PRIMARY,
+        targeting: 'DIRECTION',
+        phases: ['RELEASE'],
+        start: (p, _target, ctx) => ctx.effects.handleWukongCombo(p),
+        forced: (p, _target, _dt, ctx) => ctx.effects.handleWukongCombo(p),
+    },
+    {
+        id: 'wukong.thrust',
+        slot: AbilitySlot.SECONDARY,
+        targeting: 'DIRECTION',
+        phases: ['CHARGE', 'RELEASE', 'RECOVERY'],
+        // 刺出后短暂不能普攻
+        recovery: { timer: 'attackCooldown', duration: 0.5 },
+        // 蓄满自动刺出
+        chargeState: 'WUKONG_THRUST',
+        charge: { timer: 'wukongChargeTime', maxTime: p => p.wukongMaxCharge },
+        cooldown: { timer: 'wukongThrustTimer' },
+        canUse: p => p.wukongChargeState === 'NONE',
+        start: (p, _target, ctx) => startCharge(p, 'THRUST', stats.thrustChargeTime, ctx),
+        release: (p, _target, ctx) => {
+            if (p.wukongChargeState !== 'THRUST') return false;
+            ctx.effects.releaseWukongThrust(p);
+        },
+    },
+    {
+        id: 'wukong.smash',
+        slot: AbilitySlot.ULTIMATE,
+        targeting: 'DIRECTION',
+        phases: ['CHARGE', 'RELEASE'],
+        // 蓄满后最多保持 smashMaxHoldTime，随后自动劈下
+        chargeState: 'WUKONG_SMASH',
+        charge: {
+            timer: 'wukongChargeTime',
+            maxTime: p => p.wukongMaxCharge,
+            holdTimer: 'wukongChargeHoldTimer',
+            maxHoldTime: () => stats.smashMaxHoldTime,
+        },
+        cooldown: { timer: 'skillCooldown' },
+        silenceable: true,
+        canUse: p => p.wukongChargeState === 'NONE',
+        start: (p, _target, ctx) => {
+            startCharge(p, 'SMASH', stats.smashChargeTime, ctx);
+            p.wukongChargeHoldTimer = 0;
+        },
+        release: (p, _target, ctx) => {
+            if (p.wukongChargeState !== 'SMASH') return false;
+            ctx.effects.releaseWukongSmash(p);
+        },
+    },
+];
+
+// 蓄力中的戳棍与立棍按最大范围视为危险区域 (与命中判定一致的矩形)，剩余时间为自动释放前的时间
+export const wukongThreatZones = (p: PlayerState, weight: number): DangerZone[] => {
+    const aimDir = { x: Math.cos(p.aimAngle), y: Math.sin(p.aimAngle) };
+
+    if (p.wukongChargeState === 'THRUST') {
+        return [{
+            type: 'RECT',
+            hazardType: 'SKILL',
+            p1: p.pos,
+            p2: Utils.add(p.pos, Utils.mult(aimDir, stats.thrustMaxRange)),
+            width: 50,
+            timeLeft: Math.max(0, p.wukongMaxCharge - p.wukongChargeTime),
+            weight
+        }];
+    }
+
+    if (p.wukongChargeState === 'SMASH') {
+        const timeLeft = p.wukongChargeTime < p.wukongMaxCharge
+            ? (p.wukongMaxCharge - p.wukongChargeTime) + stats.smashMaxHoldTime
+            : Math.max(0, stats.smashMaxHoldTime - p.wukongChargeHoldTimer);
+        return [{
+            type: 'RECT',
+            hazardType: 'SKILL',
+            p1: p.pos,
+            p2: Utils.add(p.pos, Utils.mult(aimDir, stats.smashMaxRange)),
+            width: stats.smashWidthMax, // 取最大宽度，留出余量
+            timeLeft,
+            weight
+        }];
+    }
+
+    return [];
+};
@@ -0,0 +1,21 @@
+/**
+ * 行为树的选择节点 (Selector)
+ *
+ * 按优先级依次检查条件，执行第一个满足条件的动作。条件按顺序惰性求值
+ * (条件中可能消耗随机数)，随机序列与等价的 if/else 链一致，不影响确定性。
+ */
+export interface AIAction {
+    when: () => boolean;
+    run: () => void;
+}
+
+// 返回是否有动作被执行
+export const runSelector = (actions: AIAction[]): boolean => {
+    for (const action of actions) {
+        if (action.when()) {
+            action.run();
+            return true;
+        }
+    }
+    return false;
+};
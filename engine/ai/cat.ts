@@ -0,0 +1,94 @@
+import { CHAR_STATS } from '../../constants';
+import * as Utils from '../../utils';
+import { AbilitySlot } from '../abilities/types';
+import type { AIStrategy } from './types';
+
+// 猫球：蓄力扑击 (确认落点安全)、近身抓挠、哈气与铲屎
+export const catStrategy: AIStrategy = {
+
+    think: (frame, ctx) => {
+        const { ai, dt, state, target, distToTarget, evasionDir, isPathBlockedByMagma, skillReady, secondaryReady } = frame;
+        const { random, simNow, abilities } = ctx;
+
+        // Evasion/Target orientation
+        if (evasionDir) {
+            ai.aimAngle = Math.atan2(frame.finalMoveDir.y, frame.finalMoveDir.x);
+        } else if (target) {
+            ai.aimAngle = Math.atan2(target.pos.y - ai.pos.y, target.pos.x - ai.pos.x);
+        }
+        ai.angle = ai.aimAngle;
+
+        if (ai.catIsCharging) {
+            // 蓄力超过 0.6s 则释放
+            if ((simNow() - (ai.catChargeStartTime || 0)) / 1000 > 0.6) {
+                // [Safety Check] Predict Landing Position
+                const range = Math.min(CHAR_STATS.CAT.pounceSpeed * 60 * 0.6, 250); // Approx jump distance
+                const landingPos = Utils.add(ai.pos, Utils.mult({ x: Math.cos(ai.angle), y: Math.sin(ai.angle) }, range));
+
+                // Check Hazards at Landing Spot
+                let isDangerous = false;
+                // A. Lava Terrain
+                isDangerous = state.obstacles.some(o => (o.type === 'LAVA' || o.type === 'WATER') && Utils.checkCircleRectCollision(landingPos, ai.radius, o).collided);
+
+                // B. Magma Pools (if not Pyro/immune)
+                if (!isDangerous) {
+                    isDangerous = state.groundEffects.some(g => g.type === 'MAGMA_POOL' && Utils.dist(landingPos, g.pos) < g.radius + ai.radius);
+                }
+
+                if (isDangerous) {
+                    // Abort Pounce
+                    abilities.cancel(ai, AbilitySlot.PRIMARY);
+                    ai.pounceCooldown = 1.0; // Short Penalty
+                    // Evasion: Try to move perpendicular/away
+                    const evasionAngle = ai.angle + (random() > 0.5 ? Math.PI / 2 : -Math.PI / 2);
+                    ai.aiTacticalRetreatDir = { x: Math.cos(evasionAngle), y: Math.sin(evasionAngle) };
+                    ai.aiTacticalRetreatTimer = 0.5;
+                } else {
+                    // Safe -> Pounce
+                    abilities.release(ai, AbilitySlot.PRIMARY, landingPos);
+                }
+            }
+        } else {
+            if (target) {
+                // 随机尝试蓄力 (Skill - Skip if taunted)
+                // [Updated] Trigger if obstructed by Magma
+                const shouldPounce = random() < 0.01 || (isPathBlockedByMagma && distToTarget < 300);
+                if (!ai.aiSkipSkills && distToTarget > 150 && shouldPounce && ai.pounceCooldown <= 0) {
+                    abilities.press(ai, AbilitySlot.PRIMARY, target.pos);
+                }
+                // 近身攻击 (Basic - Always try if in range)；点按即抓挠
+                if (distToTarget < CHAR_STATS.CAT.scratchRange + 20) abilities.tap(ai, AbilitySlot.PRIMARY, target.pos, dt);
+
+                // 技能释放 (Skill - Skip if taunted)
+                if (!ai.aiSkipSkills && secondaryReady() && distToTarget < 200) {
+                    if (ai.aiHissDelay === undefined) {
+                        ai.aiHissDelay = 0.2 + random() * 0.3;
+                        ai.aiHissTimer = 0;
+                    }
+
+                    ai.aiHissTimer = (ai.aiHissTimer || 0) + dt;
+
+                    if (ai.aiHissTimer >= ai.aiHissDelay) {
+                        abilities.tap(ai, AbilitySlot.SECONDARY, ai.pos, dt);
+                        ai.aiHissDelay = undefined;
+                        ai.aiHissTimer = 0;
+                    }
+                } else {
+                    ai.aiHissDelay = undefined;
+                    ai.aiHissTimer = 0;
+                }
+
+                if (!ai.aiSkipSkills && skillReady() && distToTarget < 480 && random() < 0.01) abilities.tap(ai, AbilitySlot.ULTIMATE, target.pos, dt);
+            }
+        }
+    },
+
+    // 蓄力扑击超过 0.3 秒后大幅减速
+    adjustSpeed: (ai, speedMult, ctx) => {
+        if (ai.catIsCharging) {
+            const chargeDuration = (ctx.simNow() - (ai.catChargeStartTime || 0)) / 1000;
+            if (chargeDuration > 0.3) speedMult *= 0.2;
+        }
+        return speedMult;
+    }
+};
@@ -0,0 +1,54 @@
+import { CharacterType } from '../../types';
+import { CHAR_STATS, MAP_SIZE, PHYSICS } from '../../constants';
+import * as Utils from '../../utils';
+import type { PlayerState } from '../../types';
+import type { AIContext, AIStrategy } from './types';
+
+// 随机游荡，靠近地图边缘时折返中心 (训练场的移动靶也使用)
+export const wander = (ai: PlayerState, dt: number, ctx: AIContext) => {
+    const { random } = ctx;
+    const accel = PHYSICS.ACCELERATION_SPEED * CHAR_STATS[CharacterType.COACH].speed;
+
+    // [修复] 教练球被禁锢(Root)时无法移动
+    if (ai.rootTimer > 0) {
+        ai.vel = Utils.mult(ai.vel, 0.8);
+        return;
+    }
+
+    // 1. 随机游荡 (Wander)
+    // 每帧一定概率改变方向 (1.5% chance per frame)
+    if (random() < 0.015) {
+        ai.aimAngle = random() * Math.PI * 2;
+        ai.angle = ai.aimAngle;
+    }
+
+    // 2. 边缘检测与中心回归 (Edge Avoidance)
+    const edgeThreshold = 300; // 距离边缘多少像素开始回归
+    const w = MAP_SIZE.width;
+    const h = MAP_SIZE.height;
+    const cx = w / 2;
+    const cy = h / 2;
+
+    const isNearEdge = ai.pos.x < edgeThreshold ||
+        ai.pos.x > w - edgeThreshold ||
+        ai.pos.y < edgeThreshold ||
+        ai.pos.y > h - edgeThreshold;
+
+    if (isNearEdge) {
+        // 强制向中心移动
+        const toCenter = Utils.normalize(Utils.sub({ x: cx, y: cy }, ai.pos));
+        // 施加向心的速度
+        ai.vel = Utils.add(ai.vel, Utils.mult(toCenter, accel * dt * 60));
+        // 更新朝向以面对中心
+        ai.angle = Math.atan2(toCenter.y, toCenter.x);
+        ai.aimAngle = ai.angle;
+    } else {
+        // 正常游荡移动 (沿当前角度前进)
+        ai.vel = Utils.add(ai.vel, Utils.mult({ x: Math.cos(ai.angle), y: Math.sin(ai.angle) }, accel * dt * 60));
+    }
+};
+
+// 教练球：不参与战斗，在地图中部随机游荡
+export const coachStrategy: AIStrategy = {
+    takeover: wander
+};
@@ -0,0 +1,560 @@
+/**
+ * 电脑玩家 AI 核心
+ *
+ * 通用部分：控制状态 (眩晕/恐惧/嘲讽/魅惑)、反卡死、索敌 (含组队黑板与队友指令)、
+ * 难度带来的感知偏差、基于 getDangerZones 的危险回避，以及最终的移动与转向。
+ * 角色相关的瞄准、技能与走位由 registry 中按 CharacterType 注册的策略负责。
+ *
+ * 只通过 AIContext 访问引擎，随机数来自引擎的确定性 random()。
+ */
+import type { PlayerState, Vector2 } from '../../types';
+import { AI_DIFFICULTY, CHAR_STATS, PHYSICS, TEAM_COMMAND_CONFIG } from '../../constants';
+import * as Utils from '../../utils';
+import { getCharacter } from '../../characters/registry';
+import { getComboApproachGoal, pickTeamTarget } from '../teamAI';
+import { wander } from './coach';
+import { getAIStrategy } from './registry';
+import type { AIContext, AIFrame, AIIntent } from './types';
+
+export interface AIController {
+    // 每个模拟步为每个存活的电脑玩家调用一次
+    handleAI: (ai: PlayerState, dt: number) => void;
+    // [Training] 训练场靶子：不索敌、不放技能，移动靶随机游荡
+    handleDummy: (ai: PlayerState, dt: number, moving: boolean) => void;
+    // [Debug] 该电脑玩家最近一次 handleAI 的决策
+    getIntent: (id: string) => AIIntent | undefined;
+}
+
+export const createAIController = (ctx: AIContext): AIController => {
+    const { getState, random, getEnemies, getNearestEnemy, getDangerZones, getPointDangerInfo, getApproachDir, abilities } = ctx;
+    const intents = new Map<string, AIIntent>();
+
+    const handleAI = (ai: PlayerState, dt: number) => {
+        // 移形换影动画期间暂停AI行动
+        if (ai.apparitionPhase && ai.apparitionPhase !== 'NONE') {
+            return;
+        }
+
+        const state = getState();
+        const strategy = getAIStrategy(ai.type);
+        const intent: AIIntent = { tick: state.tick };
+        intents.set(ai.id, intent);
+
+        // AI Status Checks
+        if (ai.stunTimer > 0 || ai.sleepTimer > 0 || (ai.petrifyTimer || 0) > 0) {
+            ai.vel = Utils.mult(ai.vel, 0.8);
+            // [Fix] Ensure sustained abilities are stopped when controlled
+            ai.isFiringFlamethrower = false;
+            return;
+        }
+
+        // [优先级系统] 恐惧 > 嘲讽 > 魅惑
+        // 恐惧优先：强制远离敌人
+        if ((ai.fearTimer || 0) > 0) {
+            const enemy = getNearestEnemy(ai);
+            if (enemy) {
+                const runDir = Utils.normalize(Utils.sub(ai.pos, enemy.pos));
+                const fearSpeed = CHAR_STATS[ai.type].speed * 0.9;
+                ai.vel = Utils.add(ai.vel, Utils.mult(runDir, PHYSICS.ACCELERATION_SPEED * fearSpeed * dt * 60));
+                ai.angle = Math.atan2(runDir.y, runDir.x);
+            }
+            // [Fix] Ensure sustained abilities are stopped when feared
+            ai.isFiringFlamethrower = false;
+            return;
+        }
+
+        // 嘲讽次之，魅惑最后
+        const isTaunted = (ai.tauntTimer || 0) > 0;
+        const isCharmed = (ai.charmTimer || 0) > 0 && !isTaunted; // 嘲讽时忽略魅惑
+
+        if (isTaunted || isCharmed) {
+            // Find target (Taunt source or nearest enemy)
+            let tauntTarget = null;
+            if (isTaunted && ai.tauntSourceId) {
+                tauntTarget = state.players.find(p => p.id === ai.tauntSourceId);
+                if (tauntTarget && tauntTarget.isDead) tauntTarget = null;
+            }
+            if (!tauntTarget) tauntTarget = getNearestEnemy(ai);
+
+            if (tauntTarget) {
+                const distToTarget = Utils.dist(ai.pos, tauntTarget.pos);
+                const attackRange = getCharacter(ai.type)?.getTauntAttackRange?.(ai) ?? 100;
+
+                // Rush only if outside attack range
+                if (isCharmed || distToTarget > attackRange) {
+                    const runDir = Utils.normalize(Utils.sub(tauntTarget.pos, ai.pos));
+                    const speedFactor = isCharmed ? 0.5 : 1.2;
+                    const forceSpeed = CHAR_STATS[ai.type].speed * speedFactor;
+
+                    ai.vel = Utils.add(ai.vel, Utils.mult(runDir, PHYSICS.ACCELERATION_SPEED * forceSpeed * dt * 60));
+                    ai.aimAngle = Math.atan2(runDir.y, runDir.x);
+                    ai.angle = ai.aimAngle;
+                } else if (!isCharmed) {
+                    // Close enough to taunt target: Stop and Aim
+                    ai.vel = Utils.mult(ai.vel, 0.8);
+                    const aimDir = Utils.sub(tauntTarget.pos, ai.pos);
+                    ai.aimAngle = Math.atan2(aimDir.y, aimDir.x);
+                    ai.angle = ai.aimAngle;
+                }
+            }
+
+            if (isTaunted && tauntTarget) {
+                // Fallthrough to character specific blocks but skip skills.
+                ai.aiSkipSkills = true;
+            } else {
+                // [Fix] Charmed AI should not continue to normal logic
+                // Reset sustained abilities before returning
+                ai.isFiringFlamethrower = false;
+                return;
+            }
+        } else {
+            ai.aiSkipSkills = false;
+        }
+
+        // [Difficulty] 难度参数；冷却结束后要过 reactionDelay (加上本轮随机的冷却估算误差) 才"意识到"技能可用
+        const profile = AI_DIFFICULTY[ai.aiDifficulty || 'NORMAL'];
+        const noticeDelay = () => profile.reactionDelay + (profile.cooldownNoise > 0 ? random() * profile.cooldownNoise : 0);
+        if (ai.skillCooldown > 0) {
+            ai.aiSkillReadyTime = 0;
+            ai.aiSkillNoticeDelay = undefined;
+        } else {
+            ai.aiSkillReadyTime = (ai.aiSkillReadyTime || 0) + dt;
+            if (ai.aiSkillNoticeDelay === undefined) ai.aiSkillNoticeDelay = noticeDelay();
+        }
+        if (ai.secondarySkillCooldown > 0) {
+            ai.aiSecondaryReadyTime = 0;
+            ai.aiSecondaryNoticeDelay = undefined;
+        } else {
+            ai.aiSecondaryReadyTime = (ai.aiSecondaryReadyTime || 0) + dt;
+            if (ai.aiSecondaryNoticeDelay === undefined) ai.aiSecondaryNoticeDelay = noticeDelay();
+        }
+        const skillReady = () => ai.skillCooldown <= 0 && (ai.aiSkillReadyTime || 0) >= ai.aiSkillNoticeDelay!;
+        const secondaryReady = () => ai.secondarySkillCooldown <= 0 && (ai.aiSecondaryReadyTime || 0) >= ai.aiSecondaryNoticeDelay!;
+
+        // [通用反卡死系统] Universal Unstuck System for All AI
+        // 检测AI是否长时间停留在同一位置
+        if (!ai.lastPos) ai.lastPos = { ...ai.pos };
+        const distMoved = Utils.dist(ai.pos, ai.lastPos);
+        ai.lastPos = { ...ai.pos };
+
+        if (distMoved < 0.5) {
+            ai.stuckTimer = (ai.stuckTimer || 0) + dt;
+        } else {
+            ai.stuckTimer = Math.max(0, (ai.stuckTimer || 0) - dt);
+        }
+
+        // 触发绕路逻辑
+        if ((ai.stuckTimer || 0) > 1.5 && (ai.unstuckTimer || 0) <= 0) {
+            ai.unstuckTimer = 1.0 + random() * 0.5; // 1.0-1.5秒绕路时间
+
+            // 多方向探测 (8个方向,45度间隔)
+            let bestDir = { x: 0, y: 0 };
+            let bestScore = -Infinity;
+            const target = getNearestEnemy(ai);
+
+            for (let i = 0; i < 8; i++) {
+                const angle = (i / 8) * Math.PI * 2;
+                const testDir = { x: Math.cos(angle), y: Math.sin(angle) };
+                const testPoint = Utils.add(ai.pos, Utils.mult(testDir, 100));
+
+                let score = 0;
+
+                // 1. 避开障碍物 (70%权重)
+                let minObstacleDist = Infinity;
+                for (const obs of state.obstacles) {
+                    const centerX = obs.x + obs.width / 2;
+                    const centerY = obs.y + obs.height / 2;
+                    const d = Utils.dist(testPoint, { x: centerX, y: centerY });
+                    minObstacleDist = Math.min(minObstacleDist, d);
+                }
+                score += minObstacleDist * 0.7;
+
+                // 2. 朝向目标 (30%权重)
+                if (target) {
+                    const toTarget = Utils.normalize(Utils.sub(target.pos, ai.pos));
+                    const dotProduct = testDir.x * toTarget.x + testDir.y * toTarget.y;
+                    score += dotProduct * 100 * 0.3;
+                }
+
+                if (score > bestScore) {
+                    bestScore = score;
+                    bestDir = testDir;
+                }
+            }
+
+            ai.unstuckDir = bestDir;
+            ai.stuckTimer = 0;
+        }
+
+        // 执行绕路
+        if ((ai.unstuckTimer || 0) > 0) {
+            ai.unstuckTimer! -= dt;
+            const accel = PHYSICS.ACCELERATION_SPEED * CHAR_STATS[ai.type].speed;
+            ai.vel = Utils.add(ai.vel, Utils.mult(ai.unstuckDir!, accel * dt * 60));
+            return; // 绕路期间跳过正常AI逻辑
+        }
+
+        // [新增] AI 移动变数更新 / AI Movement Variance Update
+        if (ai.aiStrafeTimer === undefined) ai.aiStrafeTimer = 0;
+        if (ai.aiChangeDistTimer === undefined) ai.aiChangeDistTimer = 0;
+
+        ai.aiStrafeTimer -= dt;
+        ai.aiChangeDistTimer -= dt;
+
+        if (ai.aiStrafeTimer <= 0) {
+            ai.aiStrafeDir = random() < 0.5 ? 1 : -1;
+            ai.aiStrafeTimer = 0.5 + random() * 2.5; // Change strafe every 0.5-3s
+        }
+
+        if (ai.aiChangeDistTimer <= 0) {
+            // New preferred distance offset
+            ai.aiPreferredDistOffset = (random() - 0.5) * 120 * profile.spacingVariance; // +/- 60 variance (NORMAL)
+            ai.aiChangeDistTimer = 2.0 + random() * 4.0; // Change preference every 2-6s
+        }
+
+        // 1. 自动寻找最近的敌人
+        let target = getNearestEnemy(ai);
+
+        // [Team] 组队时按黑板集火或回防残血队友
+        const teamBoard = state.teamBlackboards?.[ai.teamId];
+        if (teamBoard) target = pickTeamTarget(ai, target, teamBoard, getEnemies(ai));
+
+        // [Command] 队友下达的指令优先：ATTACK 改换目标，其余指令给出移动目标点
+        const teamCommand = state.teamCommands?.[ai.teamId];
+        if (teamCommand?.type === 'ATTACK') {
+            target = getEnemies(ai).find(e => e.id === teamCommand.targetId) || target;
+        }
+        const commandGoal = teamCommand && teamCommand.type !== 'ATTACK' && teamCommand.issuerId !== ai.id ? teamCommand.pos : null;
+
+        // [修复] 如果被嘲讽，强制锁定目标为嘲讽源，确保后续攻击逻辑指向该目标
+        if (ai.tauntTimer > 0 && ai.tauntSourceId) {
+            const tauntSource = state.players.find(p => p.id === ai.tauntSourceId);
+            if (tauntSource && !tauntSource.isDead) {
+                target = tauntSource;
+            }
+        }
+
+        // [Difficulty] AI 感知到的目标位置：反应慢的看到片刻之前的位置，高难度预判走位，再叠加瞄准偏差
+        // (只替换位置，后续的瞄准、测距与技能落点都基于该位置)
+        if (target && (profile.reactionDelay > 0 || profile.aimLead > 0 || profile.aimError > 0)) {
+            if (profile.aimError > 0) {
+                ai.aiAimErrorTimer = (ai.aiAimErrorTimer || 0) - dt;
+                if (ai.aiAimErrorTimer <= 0) {
+                    ai.aiAimError = (random() - 0.5) * 2 * profile.aimError;
+                    ai.aiAimErrorTimer = 0.4 + random() * 0.6;
+                }
+            }
+            const seenPos = Utils.add(target.pos, Utils.mult(target.vel, (profile.aimLead - profile.reactionDelay) * 60));
+            const offset = Utils.sub(seenPos, ai.pos);
+            const seenAngle = Math.atan2(offset.y, offset.x) + (ai.aiAimError || 0);
+            const seenDist = Utils.mag(offset);
+            target = { ...target, pos: Utils.add(ai.pos, { x: Math.cos(seenAngle) * seenDist, y: Math.sin(seenAngle) * seenDist }) };
+        }
+
+        if (target) {
+            intent.targetId = target.id;
+            intent.targetPos = { ...target.pos };
+        }
+        if (commandGoal) intent.commandGoal = commandGoal;
+
+        // -------------------------------------------------------------
+        // [新增] 危机回避模块 / Evasion Module
+        // -------------------------------------------------------------
+        const dangerZones = getDangerZones(ai);
+        // [Team] 队友的火焰、机枪弹道、炮弹落点与蓄力路线：不挡枪、不吃友伤
+        teamBoard?.allyHazards.forEach(h => {
+            if (h.ownerId !== ai.id) dangerZones.push(h.zone);
+        });
+
+        // C. 计算最佳逃离向量
+        let evasionDir: Vector2 | null = null;
+        let isCurrentlyInsideDanger = false;
+        let bestEscapeVec: Vector2 | null = null;
+        let isPathBlockedByMagma = false; // [New] Flag for skill usage decision
+        let isSkillHazardNoticed = false; // [Difficulty] 本帧是否遇到技能预警
+
+        // Pathfinding Optimization 1: "Commitment" / "Beserker Mode"
+        const canCommit = target && Utils.dist(ai.pos, target.pos) < 250 && ai.hp > ai.maxHp * 0.3;
+
+        // AI Movement Speed (Pixels/Second approx)
+        const aiSpeedPPS = 120 * CHAR_STATS[ai.type].speed * 0.8;
+
+        for (const zone of dangerZones) {
+            // Commit Logic: Ignore Magma/Lava if committing
+            if (canCommit && zone.hazardType === 'MAGMA') continue;
+
+            const { inside, escapeVec, distToEdge } = getPointDangerInfo(ai.pos, zone);
+
+            // Pathfinding Optimization: Predictive Avoidance (Lookahead)
+            // Check if we are GOING TO BE inside danger soon
+            let predictiveInside = false;
+            let predictiveEscapeVec = escapeVec;
+            let predictiveDist = distToEdge;
+
+            if (!inside && !isCurrentlyInsideDanger) {
+                // Look ahead 0.5s (or approx 20-30 pixels)
+                // Use current Moving Direction or Aim Direction
+                const moveVec = Utils.mag(ai.vel) > 10 ? Utils.normalize(ai.vel) : { x: Math.cos(ai.aimAngle), y: Math.sin(ai.aimAngle) };
+                const lookAheadDist = 40;
+                const lookAheadPos = Utils.add(ai.pos, Utils.mult(moveVec, lookAheadDist));
+
+                const predInfo = getPointDangerInfo(lookAheadPos, zone);
+                if (predInfo.inside) {
+                    predictiveInside = true;
+                    predictiveEscapeVec = predInfo.escapeVec;
+                    predictiveDist = predInfo.distToEdge;
+                }
+            }
+
+            if (inside || predictiveInside) {
+                // [Unified] Only evade hazards with positive danger weight
+                const weight = zone.weight ?? 1.0;
+                if (weight <= 0) continue;
+
+                // [New] Detect if Magma is blocking path (for Skill usage)
+                if (zone.hazardType === 'MAGMA') isPathBlockedByMagma = true;
+
+                // [Difficulty] 技能预警要过 reactionDelay 才察觉；察觉时按 dodgeChance 决定这段危险是否闪避
+                if (zone.hazardType === 'SKILL') {
+                    if (!isSkillHazardNoticed) {
+                        isSkillHazardNoticed = true;
+                        if (ai.aiHazardReactTimer === undefined) {
+                            ai.aiHazardReactTimer = 0;
+                            ai.aiWillDodge = profile.dodgeChance >= 1 || random() < profile.dodgeChance;
+                        }
+                    }
+                    if (!ai.aiWillDodge || ai.aiHazardReactTimer! < profile.reactionDelay) continue;
+                }
+
+                // Check Feasibility (Use predictive info if that's what triggered it)
+                const checkDist = inside ? distToEdge : predictiveDist;
+                const timeNeeded = checkDist / aiSpeedPPS;
+                const escapeV = inside ? escapeVec : predictiveEscapeVec;
+
+                if (timeNeeded < zone.timeLeft + 0.1) {
+                    isCurrentlyInsideDanger = true;
+
+                    // Pathfinding Optimization: Differentiate Strategy by Hazard Type
+                    // A. Terrain (Magma/Water/Wall) -> Skirt (Tangent) to keep moving
+                    // B. Skill (Wukong Smash) -> Escape (Normal) to get out fast
+                    const isTerrain = zone.hazardType === 'MAGMA' || zone.hazardType === 'WATER' || zone.hazardType === 'WALL';
+
+                    if (target && isTerrain) {
+                        // "Skirting" / "Tangential Evasion" for Terrain
+                        const tangent1 = { x: -escapeV.y, y: escapeV.x };
+                        const tangent2 = { x: escapeV.y, y: -escapeV.x };
+
+                        const toTarget = Utils.normalize(Utils.sub(target.pos, ai.pos));
+
+                        // Choose tangent closer to target direction
+                        const dot1 = tangent1.x * toTarget.x + tangent1.y * toTarget.y;
+                        const chosenTangent = dot1 > 0 ? tangent1 : tangent2;
+
+                        // Blend Normal (safety) and Tangent (progress)
+                        const safetyWeight = inside ? 0.6 : 0.3;
+                        bestEscapeVec = Utils.normalize(Utils.add(Utils.mult(escapeV, safetyWeight), chosenTangent));
+                    } else {
+                        // "Hybrid Retreat-Dodge" for Skills
+                        // Blend "Direct Escape" (Sideways) with "Retreat" (Away from Source)
+                        let retreatDir = { x: 0, y: 0 };
+                        if (zone.type === 'RECT' && zone.p1) {
+                            retreatDir = Utils.normalize(Utils.sub(ai.pos, zone.p1));
+                        } else if (zone.type === 'CIRCLE' && zone.center) {
+                            retreatDir = Utils.normalize(Utils.sub(ai.pos, zone.center));
+                        }
+
+                        const dodgeWeight = 0.5;
+                        const retreatWeight = 0.5;
+
+                        bestEscapeVec = Utils.normalize(Utils.add(
+                            Utils.mult(escapeV, dodgeWeight),
+                            Utils.mult(retreatDir, retreatWeight)
+                        ));
+                    }
+
+                    break; // Flee immediately from the first threat found (Simplification)
+                }
+            }
+        }
+
+        if (isSkillHazardNoticed) ai.aiHazardReactTimer! += dt;
+        else ai.aiHazardReactTimer = undefined;
+
+        // Hysteresis Logic
+        if (isCurrentlyInsideDanger) {
+            // ENTER / REFRESH Evasion Mode
+            ai.aiIsEscapingHazard = true;
+            ai.aiHazardEscapeTimer = 0.3; // Low timer for responsive skirting
+            if (bestEscapeVec) ai.aiHazardEscapeDir = bestEscapeVec;
+            evasionDir = ai.aiHazardEscapeDir || null;
+        } else {
+            // D. 持续性逃离逻辑
+            if (ai.aiIsEscapingHazard) {
+                ai.aiHazardEscapeTimer = (ai.aiHazardEscapeTimer || 0) - dt;
+                if (ai.aiHazardEscapeTimer > 0) {
+                    // Continue in the same direction
+                    evasionDir = ai.aiHazardEscapeDir || null;
+                } else {
+                    // Clear evasion
+                    ai.aiIsEscapingHazard = false;
+                }
+            }
+        }
+
+        // -------------------------------------------------------------
+
+        // 如果没有敌人且没有危险，AI 停止行动或仅做简单待机
+        if (!target && !evasionDir && !commandGoal) {
+            ai.vel = Utils.mult(ai.vel, 0.9); // 缓慢减速
+            return;
+        }
+
+        if (ai.stunTimer > 0) {
+            ai.vel = Utils.mult(ai.vel, 0.8); // 快速急停
+            return;
+        }
+
+        // 教练球等不参与战斗的角色完全接管移动
+        if (strategy.takeover) {
+            strategy.takeover(ai, dt, ctx);
+            return;
+        }
+
+        // --- 通用移动逻辑 ---
+        // moveDir 为指向目标的直线方向 (朝向、绕圈与后撤)，approachDir 为接近目标时实际走的方向 (绕开障碍)
+        let moveDir = { x: 0, y: 0 };
+        let approachDir = moveDir;
+        let distToTarget = Infinity;
+
+        if (target) {
+            distToTarget = Utils.dist(ai.pos, target.pos);
+            moveDir = Utils.normalize(Utils.sub(target.pos, ai.pos));
+
+            // Blind Effect: Jitter Aim/Move Direction for AI
+            if ((ai.blindTimer || 0) > 0) {
+                const angle = Math.atan2(moveDir.y, moveDir.x);
+                // Large jitter (approx 85 degrees spread) same as player
+                const jitter = (random() - 0.5) * 1.5;
+                const newAngle = angle + jitter;
+                moveDir = { x: Math.cos(newAngle), y: Math.sin(newAngle) };
+                approachDir = moveDir;
+            } else {
+                approachDir = getApproachDir(ai, commandGoal || getComboApproachGoal(ai, target, teamBoard), dt);
+            }
+        } else if (commandGoal) {
+            approachDir = getApproachDir(ai, commandGoal, dt);
+        }
+
+        // 默认行为
+        let shouldMove = true;
+        let finalMoveDir = approachDir;
+
+        // [应用回避覆盖]
+        // [New] Forced Evasion from Aborted Actions (High Priority)
+        if ((ai.aiTacticalRetreatTimer || 0) > 0) {
+            ai.aiTacticalRetreatTimer = (ai.aiTacticalRetreatTimer || 0) - dt;
+            if (ai.aiTacticalRetreatDir) {
+                finalMoveDir = ai.aiTacticalRetreatDir;
+                shouldMove = true;
+            }
+        } else if (evasionDir) {
+            finalMoveDir = evasionDir;
+            // Evasion overrides movement direction
+        } else if (!target) {
+            shouldMove = false;
+        }
+
+        // AI 角色特定逻辑
+        if (strategy.think) {
+            const frame: AIFrame = {
+                ai, dt, state, profile, target, distToTarget, moveDir, approachDir, evasionDir, isPathBlockedByMagma, teamBoard,
+                skillReady, secondaryReady, finalMoveDir, shouldMove
+            };
+            strategy.think(frame, ctx);
+            finalMoveDir = frame.finalMoveDir;
+            shouldMove = frame.shouldMove;
+        }
+
+        // [Ability] 推进蓄力，蓄满自动释放 (与玩家相同)
+        abilities.update(ai, dt);
+
+        // [Command] 离指令目标点太远时先赶过去 (躲避危险与战术后撤仍然优先)，到达后照常走位作战
+        if (commandGoal && !evasionDir && (ai.aiTacticalRetreatTimer || 0) <= 0) {
+            if (Utils.dist(ai.pos, commandGoal) > TEAM_COMMAND_CONFIG[teamCommand!.type].radius) {
+                finalMoveDir = approachDir;
+                shouldMove = true;
+            } else if (!target) {
+                shouldMove = false;
+            }
+        }
+
+        // --- 应用速度 ---
+        if (shouldMove) {
+            if (ai.rootTimer > 0) {
+                // Rooted: Stop movement but allow rotation/aiming (handled below if we don't return, but here we likely want to stop position update)
+                ai.vel = Utils.mult(ai.vel, 0.8);
+                return;
+            }
+
+            let speedMult = 1.0;
+            if (ai.slowTimer > 0) speedMult *= 0.4;
+            if ((ai.hasteTimer || 0) > 0) speedMult *= 1.5;
+
+            // 角色特定减速
+            if (strategy.adjustSpeed) speedMult = strategy.adjustSpeed(ai, speedMult, ctx);
+
+            const accel = PHYSICS.ACCELERATION_SPEED * CHAR_STATS[ai.type].speed * speedMult;
+
+
+            let finalAccel = accel;
+            if (strategy.accelerationScale !== undefined) finalAccel *= strategy.accelerationScale;
+
+            ai.vel = Utils.add(ai.vel, Utils.mult(finalMoveDir, finalAccel * dt * 60));
+            intent.moveDir = finalMoveDir;
+
+            // 扑击腾空时保持朝向，其余情况转向移动方向
+            if (!ai.isPouncing) {
+                const targetAngle = Math.atan2(finalMoveDir.y, finalMoveDir.x);
+                // 平滑旋转 (Smooth Turn)
+                // 计算最短旋转角
+                let diff = targetAngle - ai.angle;
+                // Normalize -PI to PI
+                if (Number.isFinite(diff)) {
+                    while (diff > Math.PI) diff -= Math.PI * 2;
+                    while (diff < -Math.PI) diff += Math.PI * 2;
+                } else {
+                    diff = 0;
+                }
+
+                const turnSpeed = 15; // rad/s
+
+                // Deadzone to prevent micro-twitching
+                if (Math.abs(diff) < 0.05) {
+                    ai.angle = targetAngle;
+                } else {
+                    const change = Math.min(Math.abs(diff), turnSpeed * dt) * Math.sign(diff);
+                    ai.angle += change;
+                }
+            }
+        }
+
+        if ((ai.blindTimer || 0) > 0) {
+            const jitter = (random() - 0.5) * 1.5; // Same spread as player (approx 85 deg)
+            ai.aimAngle += jitter;
+        }
+    };
+
+
+    const handleDummy = (ai: PlayerState, dt: number, moving: boolean) => {
+        ai.isFiringFlamethrower = false;
+        if (!moving) return;
+        // 被眩晕、催眠或石化时停下
+        if (ai.stunTimer > 0 || ai.sleepTimer > 0 || (ai.petrifyTimer || 0) > 0) {
+            ai.vel = Utils.mult(ai.vel, 0.8);
+            return;
+        }
+        wander(ai, dt, ctx);
+    };
+
+    return { handleAI, handleDummy, getIntent: (id) => intents.get(id) };
+};
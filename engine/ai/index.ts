@@ -0,0 +1,6 @@
+export { createAIController } from './core';
+export type { AIController } from './core';
+export { getAIStrategy, registerAIStrategy } from './registry';
+export { runSelector } from './behavior';
+export type { AIAction } from './behavior';
+export type { AIContext, AIFrame, AIIntent, AIStrategy, AITarget } from './types';
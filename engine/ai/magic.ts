@@ -0,0 +1,162 @@
+import { CharacterType } from '../../types';
+import { CHAR_STATS } from '../../constants';
+import * as Utils from '../../utils';
+import { runSelector } from './behavior';
+import { AbilitySlot } from '../abilities/types';
+import type { AIStrategy } from './types';
+
+// 魔法球 AI 逻辑 - [统筹规划版]：在诅咒射程边缘风筝，按 MP 规划普攻、右键技能与大招
+export const magicStrategy: AIStrategy = {
+
+    think: (frame, ctx) => {
+        const { ai, dt, state, profile, target, distToTarget, moveDir, approachDir, evasionDir, skillReady, secondaryReady } = frame;
+        const { random, abilities } = ctx;
+        const stats = CHAR_STATS[CharacterType.MAGIC];
+        const mpRatio = (ai.mp || 0) / stats.maxMp;
+
+        // 瞄准
+        if (target && (ai.aimLockTimer || 0) <= 0) {
+            ai.aimAngle = Math.atan2(target.pos.y - ai.pos.y, target.pos.x - ai.pos.x);
+        }
+        ai.angle = ai.aimAngle;
+
+        if (!target) return;
+
+        // 移动策略：保持在射程边缘（风筝战术）
+        // curseRange = 450，保持在 380 左右可以安全控制敌人
+        const optimalRange = 380 + (ai.aiPreferredDistOffset || 0);
+        const isUnderPressure = distToTarget < 200; // 200 像素内视为"压力状态"
+        if (!evasionDir) {
+            if (distToTarget < optimalRange - 30) {
+                // 敌人太近：后退拉开距离（阈值从 300 提升到 350）
+                // 若被严重近身，使用更强力的后退意图
+                const retreatUrgency = isUnderPressure ? 1.5 : 1.0;
+                frame.finalMoveDir = Utils.mult(Utils.normalize(moveDir), -retreatUrgency);
+            } else if (distToTarget > optimalRange + 120) {
+                // 敌人太远：前进进入控制范围 (绕开障碍)
+                frame.finalMoveDir = approachDir;
+            } else {
+                // 理想距离：走位风筝
+                const perp = { x: -moveDir.y, y: moveDir.x };
+                frame.finalMoveDir = Utils.mult(Utils.normalize(perp), (ai.aiStrafeDir || 1) * 0.7);
+            }
+        }
+
+        // --- [统筹规划] MP资源管理策略 ---
+        const rightClickCost = 100; // 右键技能通用消耗
+        const hasEnoughForRightClick = (ai.mp || 0) >= rightClickCost;
+        const isLowHp = ai.hp < ai.maxHp * 0.5;
+        const isCriticalHp = ai.hp < ai.maxHp * 0.3;
+        const shouldSaveForRightClick = isLowHp && ai.secondarySkillCooldown <= 0;
+
+        // 计算当前普攻真实消耗 (与玩家一致的递增机制)
+        const rampFactor = Math.min(1, (ai.magicChargeTimer || 0) / stats.curseRampUpTime);
+        const currentCurseCost = stats.curseManaCost + (stats.curseManaMaxCost - stats.curseManaCost) * rampFactor;
+
+        // 动态攻击概率：基于MP占比和资源需求
+        let attackProbability = 0.25; // 基础概率 (从0.3降低)
+        if (mpRatio > 0.8) attackProbability = 0.4;  // 高蓝激进
+        else if (mpRatio < 0.4) attackProbability = 0.12; // 低蓝保守
+
+        // 需要保留资源给右键技能时大幅降低攻击意愿
+        if (shouldSaveForRightClick && !hasEnoughForRightClick) {
+            attackProbability = 0.05;
+        }
+
+        // 普攻执行：按住施咒时 magicChargeTimer 递增，未施咒时递减 (与玩家相同)
+        // [Difficulty] 高难度保留一部分 MP 给右键技能与大招
+        if (ai.attackCooldown <= 0 && distToTarget < stats.curseRange - 50 &&
+            (ai.mp || 0) - currentCurseCost >= stats.maxMp * profile.resourceReserve && !ai.avadaCharging &&
+            random() < attackProbability) {
+            abilities.hold(ai, AbilitySlot.PRIMARY, target.pos, dt);
+        } else {
+            abilities.idle(ai, AbilitySlot.PRIMARY, dt);
+        }
+
+        // --- [统筹规划] 右键技能智能决策 ---
+        // 右键技能主要用于应急（被贴身/被控/残血），符合"被近战贴身是大忌"的战术
+        if (secondaryReady() && hasEnoughForRightClick && !ai.avadaCharging) {
+            // 战场态势分析
+            const isEnemyClose = distToTarget < 220; // 提高阈值：更早意识到危险
+            const isBeingPressured = isEnemyClose && target.vel && Utils.mag(target.vel) > 1.5;
+            const isBeingControlled = ai.stunTimer > 0 || ai.rootTimer > 0;
+            // [New] 检测是否被逼入墙角（地形感知）
+            const isNearWall = state.obstacles.some(obs => {
+                if (obs.type !== 'WALL') return false;
+                const cx = obs.x + obs.width / 2;
+                const cy = obs.y + obs.height / 2;
+                return Utils.dist(ai.pos, { x: cx, y: cy }) < Math.max(obs.width, obs.height) / 2 + 80;
+            });
+            const isCornered = isEnemyClose && isNearWall;
+            const useRightClick = () => abilities.tap(ai, AbilitySlot.SECONDARY, ai.pos, dt);
+
+            runSelector([
+                // 残血时积极寻求保护（三种技能都可能有用）
+                { when: () => isCriticalHp && random() < 0.12, run: useRightClick },
+                // 被控时尝试使用（移形换影可解控，其他技能也可能有帮助）
+                { when: () => isBeingControlled && random() < 0.2, run: useRightClick },
+                // 被逼入墙角时高概率逃脱
+                { when: () => isCornered && random() < 0.35, run: useRightClick },
+                // 被近战贴身时提高概率使用（15% -> 25%）
+                { when: () => isEnemyClose && isBeingPressured && random() < 0.25, run: useRightClick }
+            ]);
+        }
+
+        // [Fix] Avada Charge Maintenance & Release
+        if (ai.avadaCharging) {
+            // 按住大招键：每帧消耗 MP 并蓄力
+            abilities.hold(ai, AbilitySlot.ULTIMATE, target.pos, dt);
+
+            // Aim correction while charging (slow turn or lock)
+            const targetAngle = Math.atan2(target.pos.y - ai.pos.y, target.pos.x - ai.pos.x);
+            // Slower turn rate while charging
+            const diff = targetAngle - ai.aimAngle;
+            ai.aimAngle += Utils.clamp(diff, -0.05, 0.05); // Very slow tracking
+            ai.angle = ai.aimAngle;
+
+            // Release Logic
+            let shouldRelease = false;
+
+            // 1. Target lost/dead
+            if (target.isDead) shouldRelease = true;
+
+            // 2. Out of MP (handleUltimate handles this, but good to double check)
+            if ((ai.mp || 0) <= 0) shouldRelease = true;
+
+            // 3. Random release time (simulate aiming duration 0.5s - 1.5s)
+            if ((ai.avadaChargeTime || 0) > 1.0 + random() * 1.5) shouldRelease = true;
+
+            // 松开大招键即释放
+            if (shouldRelease) abilities.idle(ai, AbilitySlot.ULTIMATE, dt);
+        }
+        // Start Ultimate: MP充足且敌人在范围内
+        else if (skillReady() && (ai.mp || 0) > 100) {
+            const shouldUlt =
+                (ai.magicForm === 'WHITE' && distToTarget < stats.patronusRange && random() < 0.02 * profile.comboRate) ||
+                (ai.magicForm === 'BLACK' && distToTarget < 500 && random() < 0.015 * profile.comboRate) ||
+                (ai.hp < ai.maxHp * 0.3 && random() < 0.1); // 残血时更积极
+
+            if (shouldUlt) abilities.hold(ai, AbilitySlot.ULTIMATE, target.pos, dt);
+        }
+
+        // [New] 魔法球近身紧急脱离
+        if (distToTarget < 150 && (ai.aiTacticalRetreatTimer || 0) <= 0) {
+            // 计算最佳脱离方向：远离敌人，同时避开障碍物
+            let retreatAngle = Math.atan2(ai.pos.y - target.pos.y, ai.pos.x - target.pos.x);
+
+            // 地形检测：如果正后方有障碍物，选择侧向逃跑
+            const backPos = Utils.add(ai.pos, { x: Math.cos(retreatAngle) * 100, y: Math.sin(retreatAngle) * 100 });
+            const isBackBlocked = state.obstacles.some(obs =>
+                obs.type === 'WALL' && Utils.checkCircleRectCollision(backPos, ai.radius + 10, obs).collided
+            );
+
+            if (isBackBlocked) {
+                // 选择左或右侧逃跑
+                retreatAngle += random() > 0.5 ? Math.PI / 2 : -Math.PI / 2;
+            }
+
+            ai.aiTacticalRetreatDir = { x: Math.cos(retreatAngle), y: Math.sin(retreatAngle) };
+            ai.aiTacticalRetreatTimer = 0.4; // 0.4 秒强制后退
+        }
+    }
+};
@@ -0,0 +1,121 @@
+import { CharacterType } from '../../types';
+import type { Vector2 } from '../../types';
+import { CHAR_STATS } from '../../constants';
+import * as Utils from '../../utils';
+import { runSelector } from './behavior';
+import { AbilitySlot } from '../abilities/types';
+import type { AIStrategy } from './types';
+
+// 火焰球：保持在喷火距离边缘绕圈，分段喷射，铺设并引爆岩浆池
+export const pyroStrategy: AIStrategy = {
+
+    think: (frame, ctx) => {
+        const { ai, dt, state, profile, target, distToTarget, moveDir, approachDir, evasionDir, teamBoard, skillReady, secondaryReady } = frame;
+        const { random, simNow, abilities } = ctx;
+
+        // Aiming
+        const { range: aiRange, angle: aiAngle } = ctx.calculatePyroShape(distToTarget + 40);
+        ai.currentWeaponRange = aiRange;
+        ai.currentWeaponAngle = aiAngle;
+
+        if (target) {
+            // [Fix] Decouple Aim from Evasion: Always aim at target if exists (Kiting)
+            ai.aimAngle = Math.atan2(target.pos.y - ai.pos.y, target.pos.x - ai.pos.x);
+        } else if (evasionDir) {
+            // Only look at evasion dir if no target
+            ai.aimAngle = Math.atan2(frame.finalMoveDir.y, frame.finalMoveDir.x);
+        } else {
+            ai.aimAngle = Math.atan2(moveDir.y, moveDir.x);
+        }
+
+        // Movement adjustment (Strafe/Kiting)
+        if (!evasionDir && target) {
+            const range = CHAR_STATS[CharacterType.PYRO].flamethrowerRange;
+            const idealRange = (range * 0.9) + (ai.aiPreferredDistOffset || 0);
+
+            if (distToTarget > idealRange + 20) {
+                frame.finalMoveDir = approachDir;
+            } else {
+                const perp = { x: -moveDir.y, y: moveDir.x };
+                // Use stored Strafe Direction
+                let strafe = Utils.mult(Utils.normalize(perp), (ai.aiStrafeDir || 1));
+
+                // Mix in some forward/backward to avoid perfect orbit
+                const error = (distToTarget - idealRange) / 100; // -1 to 1 approx
+                const approach = Utils.clamp(error, -0.5, 0.5);
+
+                frame.finalMoveDir = Utils.normalize(Utils.add(Utils.mult(Utils.normalize(moveDir), approach), Utils.mult(strafe, 0.8)));
+            }
+        }
+
+        // Burst Control
+        if (ai.burstTimer === undefined) ai.burstTimer = 0;
+        if (ai.burstTimer > 0) ai.burstTimer -= dt;
+
+        const inRange = distToTarget < ai.currentWeaponRange + 20;
+        // [Difficulty] 高难度保留一部分燃料，避免打空过热
+        const fuelReserve = ai.maxFuel * profile.resourceReserve;
+        if (inRange && ai.burstTimer <= 0 && !ai.isBurnedOut && ai.fuel > fuelReserve && ai.disarmTimer <= 0) {
+            ai.burstTimer = 1.0 + random() * 0.5;
+        }
+
+        const shouldFire = (inRange || ai.burstTimer > 0) && !ai.isBurnedOut && ai.fuel > fuelReserve && ai.disarmTimer <= 0;
+
+        if (shouldFire && target) {
+            abilities.hold(ai, AbilitySlot.PRIMARY, target.pos, dt);
+            if (ai.isBurnedOut) ai.burstTimer = 0;
+        } else {
+            abilities.idle(ai, AbilitySlot.PRIMARY, dt);
+        }
+
+        if (target && !ai.aiSkipSkills && skillReady() && ai.silenceTimer <= 0) {
+            const maxRange = 650; // Pyro projectile target range limit
+            const hpPercent = ai.hp / CHAR_STATS[CharacterType.PYRO].hp;
+            // [Team] 队友悟空正在蓄力突刺：把岩浆池预铺在敌人被击退的落点
+            const comboSetup = teamBoard?.knockbackSetups.find(setup => Utils.dist(ai.pos, setup.landing) < maxRange);
+            const castMagmaPool = (point: Vector2) => abilities.tap(ai, AbilitySlot.ULTIMATE, point, dt);
+
+            runSelector([
+                { when: () => !!comboSetup, run: () => castMagmaPool(comboSetup!.landing) },
+                // Strategy 1: Defensive/Recovery (Low HP or in Water)
+                // Cast on self to get magma heal/regen and clear wet status
+                { when: () => (hpPercent < 0.4 || ai.isWet) && distToTarget < 400, run: () => castMagmaPool(ai.pos) },
+                // Strategy 2: Offensive (InRange)
+                { when: () => distToTarget < 350, run: () => castMagmaPool(target.pos) },
+                // Strategy 3: Long-range Poke/Zoning (Proactive)
+                { when: () => distToTarget < maxRange && random() < 0.05, run: () => castMagmaPool(target.pos) }
+            ]);
+        }
+
+        // Magma Detonation Logic
+        const allPools = state.groundEffects.filter(g => g.type === 'MAGMA_POOL');
+        if (allPools.length > 0 && secondaryReady()) {
+            const targets = ctx.getEnemies(ai);
+            let shouldDetonate = false;
+            let detonateScore = 0;
+
+            for (const pool of allPools) {
+                for (const enemy of targets) {
+                    const distToPool = Utils.dist(pool.pos, enemy.pos);
+                    if (distToPool < 200) detonateScore += 2;
+                    else if (distToPool < 350) detonateScore += 0.5;
+                }
+            }
+
+            if (detonateScore >= 2) shouldDetonate = random() < 0.8 * profile.comboRate;
+            else if (detonateScore >= 1) shouldDetonate = random() < 0.4 * profile.comboRate;
+            else if (detonateScore >= 0.5) shouldDetonate = random() < 0.1 * profile.comboRate;
+
+            if (shouldDetonate) abilities.tap(ai, AbilitySlot.SECONDARY, ai.pos, dt);
+        }
+
+        // Combo Logic
+        if (target && ai.skillCooldown > 0 && ai.skillCooldown > (CHAR_STATS[CharacterType.PYRO].skillCooldown / 1000 - 0.5)) {
+            if (ai.secondarySkillCooldown <= 0 && distToTarget < 350) {
+                if (random() < 0.6 * profile.comboRate) {
+                    state.pendingActions.push({ type: 'AI_DETONATE_POOLS', ownerId: ai.id, triggerTime: simNow() + 300 + random() * 200 });
+                }
+            }
+        }
+    }
+};
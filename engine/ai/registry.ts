@@ -0,0 +1,15 @@
+import { CharacterType } from '../../types';
+import type { AIStrategy } from './types';
+
+// 未注册策略的角色只使用通用的追击与回避
+const DEFAULT_STRATEGY: AIStrategy = {};
+
+// 由角色注册表 (characters/) 在注册角色时一并填入
+const strategies = new Map<CharacterType, AIStrategy>();
+
+// 新角色在自己的模块中提供策略，不需要修改 AI 核心
+export const registerAIStrategy = (type: CharacterType, strategy: AIStrategy) => {
+    strategies.set(type, strategy);
+};
+
+export const getAIStrategy = (type: CharacterType): AIStrategy => strategies.get(type) || DEFAULT_STRATEGY;
@@ -0,0 +1,52 @@
+import { TankMode } from '../../types';
+import { CHAR_STATS } from '../../constants';
+import * as Utils from '../../utils';
+import { AbilitySlot } from '../abilities/types';
+import type { AIStrategy } from './types';
+
+// 坦克球：炮塔缓慢转向，远距离切换火炮、近距离切换机枪，保持最佳射程并释放无人机
+export const tankStrategy: AIStrategy = {
+
+    think: (frame, ctx) => {
+        const { ai, dt, target, distToTarget, moveDir, approachDir, evasionDir } = frame;
+        const { abilities } = ctx;
+
+        const targetAim = target
+            ? Math.atan2(target.pos.y - ai.pos.y, target.pos.x - ai.pos.x)
+            : ai.angle; // Fallback
+
+        const diff = targetAim - ai.aimAngle;
+        const d = Math.atan2(Math.sin(diff), Math.cos(diff));
+        ai.aimAngle += Utils.clamp(d, -CHAR_STATS.TANK.turretSpeed * dt * 60, CHAR_STATS.TANK.turretSpeed * dt * 60);
+
+        if (target && !evasionDir) {
+            let optimalRange = ai.tankMode === TankMode.ARTILLERY ? 500 : 300;
+            optimalRange += (ai.aiPreferredDistOffset || 0);
+
+            if (distToTarget < optimalRange - 50) {
+                frame.finalMoveDir = Utils.mult(Utils.normalize(moveDir), -1);
+            } else if (distToTarget > optimalRange + 50) {
+                frame.finalMoveDir = approachDir;
+            } else {
+                // Strafe
+                const perp = { x: -moveDir.y, y: moveDir.x };
+                frame.finalMoveDir = Utils.mult(Utils.normalize(perp), (ai.aiStrafeDir || 1) * 0.6);
+            }
+        }
+
+        if (target) {
+            const wantArtillery = distToTarget > 500 && ai.tankMode === TankMode.LMG;
+            const wantLmg = distToTarget < 300 && ai.tankMode === TankMode.ARTILLERY;
+            if (!ai.aiSkipSkills && (wantArtillery || wantLmg)) abilities.tap(ai, AbilitySlot.ULTIMATE, target.pos, dt);
+
+            // 炮塔大致对准后开火 (弹药、冷却、最小射程与换弹由技能检查)
+            if (Math.abs(d) < 0.3) abilities.hold(ai, AbilitySlot.PRIMARY, target.pos, dt);
+            if (!ai.aiSkipSkills && ai.droneState === 'READY' && distToTarget < 600) abilities.tap(ai, AbilitySlot.SECONDARY, ai.pos, dt);
+        }
+    },
+
+    // 机枪形态机动性更强 (不受减速/加速影响)
+    adjustSpeed: (ai, speedMult) => ai.tankMode === TankMode.LMG ? 1.6 : speedMult,
+    // 坦克移动较慢
+    accelerationScale: 0.8
+};
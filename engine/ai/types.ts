@@ -0,0 +1,72 @@
+import type { AIDifficultyProfile, DangerZone, Drone, GameState, PlayerState, TeamBlackboard, Vector2 } from '../../types';
+import type { AudioSink } from '../types';
+import type { AbilityRunner } from '../abilities/types';
+
+// AI 看到的目标 (敌方玩家或无人机)；位置可能已按难度替换为延迟/预判/偏差后的位置
+export type AITarget = (PlayerState | Drone) & { isDead?: boolean };
+
+// 引擎提供给 AI 的感知与动作接口；AI 模块不直接访问引擎闭包
+export interface AIContext {
+    // state 在回滚/跳转时会被整体替换，必须每次取最新的
+    getState: () => GameState;
+    random: () => number;
+    simNow: () => number;
+    audio: AudioSink;
+    getEnemies: (p: PlayerState) => (PlayerState | Drone)[];
+    getNearestEnemy: (p: PlayerState) => AITarget | null;
+    getDangerZones: (p: PlayerState) => DangerZone[];
+    getPointDangerInfo: (pt: Vector2, zone: DangerZone) => { inside: boolean, escapeVec: Vector2, distToEdge: number };
+    getApproachDir: (ai: PlayerState, goal: Vector2, dt: number) => Vector2;
+    spawnParticles: (pos: Vector2, count: number, color: string, speed?: number, life?: number, drag?: number) => void;
+    calculatePyroShape: (distToTarget: number) => { range: number, angle: number };
+    // 与玩家按键相同的技能接口 (玩家与 AI 对称)
+    abilities: AbilityRunner;
+}
+
+// 通用核心算好的本帧感知结果，交给角色策略决定瞄准、技能与走位
+export interface AIFrame {
+    ai: PlayerState;
+    dt: number;
+    state: GameState;
+    profile: AIDifficultyProfile;
+    target: AITarget | null;
+    distToTarget: number;
+    // 指向目标的直线方向 (朝向、绕圈与后撤)
+    moveDir: Vector2;
+    // 接近目标时实际走的方向 (绕开障碍)
+    approachDir: Vector2;
+    // 正在躲避危险时的逃离方向
+    evasionDir: Vector2 | null;
+    isPathBlockedByMagma: boolean;
+    teamBoard?: TeamBlackboard;
+    // [Difficulty] 冷却结束且已过反应延迟
+    skillReady: () => boolean;
+    secondaryReady: () => boolean;
+    // 策略可改写：本帧的移动方向与是否移动
+    finalMoveDir: Vector2;
+    shouldMove: boolean;
+}
+
+// [Debug] 电脑玩家最近一次决策，只供调试可视化 (不属于模拟状态，不进快照)
+export interface AIIntent {
+    tick: number;
+    targetId?: string;
+    // 感知到的目标位置 (已计入难度带来的延迟、预判与偏差)
+    targetPos?: Vector2;
+    // [Command] 队友指令给出的移动目标点
+    commandGoal?: Vector2;
+    // 本步最终的移动方向 (不移动时为空)
+    moveDir?: Vector2;
+}
+
+// 角色策略：每种 CharacterType 注册一个，未注册的角色只使用通用的追击与回避
+export interface AIStrategy {
+    // 完全接管移动，不使用通用的追击逻辑 (如教练球)
+    takeover?: (ai: PlayerState, dt: number, ctx: AIContext) => void;
+    // 角色特定的瞄准、技能与走位
+    think?: (frame: AIFrame, ctx: AIContext) => void;
+    // 角色特定的移速修正 (蓄力减速等)，参数为已计入减速/加速状态的倍率
+    adjustSpeed?: (ai: PlayerState, speedMult: number, ctx: AIContext) => number;
+    // 加速度整体系数
+    accelerationScale?: number;
+}
@@ -0,0 +1,63 @@
+import * as Utils from '../../utils';
+import { AbilitySlot } from '../abilities/types';
+import type { AIStrategy } from './types';
+
+// 悟空球：近身连击，中距离蓄力突刺，隔墙或中远距离蓄力劈地
+export const wukongStrategy: AIStrategy = {
+
+    think: (frame, ctx) => {
+        const { ai, dt, state, target, distToTarget, evasionDir, skillReady } = frame;
+        const { random, abilities } = ctx;
+
+        if (evasionDir) {
+            ai.aimAngle = Math.atan2(frame.finalMoveDir.y, frame.finalMoveDir.x);
+        } else if (target) {
+            ai.aimAngle = Math.atan2(target.pos.y - ai.pos.y, target.pos.x - ai.pos.x);
+        }
+        ai.angle = ai.aimAngle;
+
+        if (target) {
+            // Basic Attack (Combo)
+            if (distToTarget < 150 && ai.attackCooldown <= 0) abilities.tap(ai, AbilitySlot.PRIMARY, target.pos, dt);
+
+            // Thrust Charge (Skill - Skip if taunted); 不松手，蓄满后自动刺出
+            if (!ai.aiSkipSkills && distToTarget > 150 && distToTarget < 300 && ai.wukongChargeState === 'NONE' && ai.wukongThrustTimer <= 0) {
+                abilities.press(ai, AbilitySlot.SECONDARY, target.pos);
+            }
+
+            // Smash Charge (Skill - Skip if taunted); 不松手，蓄满并保持后自动劈下
+            if (!ai.aiSkipSkills && skillReady() && ai.wukongChargeState === 'NONE') {
+                let wantSmash = false;
+
+                if (distToTarget < 500) {
+                    const obstacles = state.obstacles;
+                    const hasWall = obstacles.some(obs => {
+                        if (obs.type !== 'WALL') return false;
+                        const center = { x: obs.x + obs.width / 2, y: obs.y + obs.height / 2 };
+                        const d = Utils.distToSegment(center, ai.pos, target.pos);
+                        const size = Math.max(obs.width, obs.height) / 2;
+                        return d < size + 20;
+                    });
+
+                    if (hasWall) wantSmash = true;
+                }
+
+                if (!wantSmash && distToTarget > 200 && distToTarget < 450) {
+                    if (random() < 0.02) wantSmash = true;
+                }
+
+                if (wantSmash) abilities.press(ai, AbilitySlot.ULTIMATE, target.pos);
+            }
+        }
+
+        // [Fix] Disable anti-stuck logic while charging
+        if (ai.wukongChargeState !== 'NONE') ai.stuckTimer = 0;
+    },
+
+    // 蓄力劈地时原地不动，蓄力突刺时缓慢移动
+    adjustSpeed: (ai, speedMult) => {
+        if (ai.wukongChargeState === 'SMASH') return 0;
+        if (ai.wukongChargeState === 'THRUST') return speedMult * 0.3;
+        return speedMult;
+    }
+};
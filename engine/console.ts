@@ -0,0 +1,289 @@
+/**
+ * Console —— 开发者控制台
+ *
+ * 设计调试用：一行命令直接修改对局 (生成角色、施加状态、改属性、放置障碍物、调速与重置随机数)，
+ * 复现某个交互时无需等电脑玩家恰好做出对应动作。命令经由 Engine 的 debug 接口执行，
+ * 与对局使用相同的创建、状态、击杀与障碍物逻辑。
+ *
+ * 语法为 `命令 参数... 键=值...`，例如
+ *   spawn TANK team=1 at=cursor
+ *   status stun 3 target=nearest
+ *   wall here 200x40
+ * 位置：cursor (同 here) / self / X,Y；目标：self / nearest / cursor / all / 玩家或无人机 id
+ */
+import { CharacterType } from '../types';
+import type { AIDifficulty, Drone, GameState, Obstacle, PlayerState, Vector2 } from '../types';
+import { AI_DIFFICULTY, STATUS_CONFIG } from '../constants';
+import * as Utils from '../utils';
+import type { MessageKey, MessageParams } from '../i18n';
+import type { Engine } from './types';
+
+export interface ConsoleContext {
+    // 输入命令的本地玩家 (self)
+    playerId: string;
+    // 鼠标所指的世界坐标 (cursor / here)
+    cursor: Vector2;
+}
+
+export interface ConsoleResult {
+    key: MessageKey;
+    params?: MessageParams;
+}
+
+export class ConsoleCommandError extends Error {
+    constructor(public readonly key: MessageKey, public readonly params?: MessageParams) {
+        super(key);
+        this.name = 'ConsoleCommandError';
+    }
+}
+
+type ConsoleTarget = PlayerState | Drone;
+
+interface ParsedCommand {
+    args: string[];
+    options: Record<string, string>;
+}
+
+interface ConsoleCommand {
+    usage: string;
+    options: string[];
+    run: (cmd: ParsedCommand, engine: Engine, ctx: ConsoleContext) => ConsoleResult;
+}
+
+const DEFAULT_STATUS_DURATION = 3;
+const DEFAULT_OBSTACLE_SIZE = { width: 200, height: 40 };
+const MAX_OBSTACLE_SIZE = 1000;
+const MIN_TIME_SCALE = 0.05;
+const MAX_TIME_SCALE = 4;
+// cursor 目标：鼠标附近该距离内最近的单位
+const CURSOR_PICK_RADIUS = 120;
+
+type NumericField = { [K in keyof PlayerState]-?: PlayerState[K] extends number | undefined ? K : never }[keyof PlayerState];
+
+// set 命令可修改的数值属性 (小写命令名 -> 字段)
+const SETTABLE_FIELDS: Record<string, NumericField> = {
+    hp: 'hp',
+    maxhp: 'maxHp',
+    mp: 'mp',
+    maxmp: 'maxMp',
+    fuel: 'fuel',
+    lives: 'lives',
+    artilleryammo: 'artilleryAmmo',
+    lmgammo: 'lmgAmmo',
+    skillcooldown: 'skillCooldown',
+    secondaryskillcooldown: 'secondarySkillCooldown',
+};
+
+const parseNumber = (value: string | undefined): number => {
+    const n = Number(value);
+    if (value === undefined || value === '' || !Number.isFinite(n)) {
+        throw new ConsoleCommandError('console.error.number', { value: value ?? '' });
+    }
+    return n;
+};
+
+const parseRange = (value: string | undefined, min: number, max: number): number => {
+    const n = parseNumber(value);
+    if (n < min || n > max) throw new ConsoleCommandError('console.error.range', { value: String(n), min, max });
+    return n;
+};
+
+const parseBoolean = (value: string): boolean => {
+    const v = value.toLowerCase();
+    if (v === 'true' || v === '1' || v === 'yes') return true;
+    if (v === 'false' || v === '0' || v === 'no') return false;
+    throw new ConsoleCommandError('console.error.boolean', { value });
+};
+
+const parseCharacterType = (value: string | undefined): CharacterType => {
+    const type = Object.values(CharacterType).find(t => t === value?.toUpperCase());
+    if (!type) throw new ConsoleCommandError('console.error.type', { value: value ?? '' });
+    return type;
+};
+
+const getSelf = (engine: Engine, ctx: ConsoleContext): PlayerState =>
+    engine.getState().players.find(p => p.id === ctx.playerId) || engine.getHumanPlayer();
+
+const resolvePosition = (spec: string, engine: Engine, ctx: ConsoleContext): Vector2 => {
+    const value = spec.toLowerCase();
+    if (value === 'cursor' || value === 'here') return { ...ctx.cursor };
+    if (value === 'self') return { ...getSelf(engine, ctx).pos };
+    const parts = spec.split(',');
+    if (parts.length === 2) {
+        const x = Number(parts[0]);
+        const y = Number(parts[1]);
+        if (Number.isFinite(x) && Number.isFinite(y)) return { x, y };
+    }
+    throw new ConsoleCommandError('console.error.position', { value: spec });
+};
+
+const getAliveTargets = (state: GameState): ConsoleTarget[] => [
+    ...state.players.filter(p => !p.isDead),
+    ...state.drones.filter(d => d.hp > 0)
+];
+
+const resolveTargets = (spec: string, engine: Engine, ctx: ConsoleContext): ConsoleTarget[] => {
+    const state = engine.getState();
+    const self = getSelf(engine, ctx);
+    const value = spec.toLowerCase();
+    let targets: ConsoleTarget[];
+    if (value === 'self') {
+        targets = self.isDead ? [] : [self];
+    } else if (value === 'nearest') {
+        const nearest = engine.getNearestEnemy(self);
+        targets = nearest ? [nearest] : [];
+    } else if (value === 'cursor') {
+        let best: ConsoleTarget | null = null;
+        let bestDist = CURSOR_PICK_RADIUS;
+        getAliveTargets(state).forEach(t => {
+            const d = Utils.dist(t.pos, ctx.cursor);
+            if (d < bestDist) { best = t; bestDist = d; }
+        });
+        targets = best ? [best] : [];
+    } else if (value === 'all') {
+        targets = state.players.filter(p => !p.isDead && p.id !== self.id);
+    } else {
+        targets = getAliveTargets(state).filter(t => t.id === spec);
+    }
+    if (targets.length === 0) throw new ConsoleCommandError('console.error.target', { value: spec });
+    return targets;
+};
+
+const obstacleCommand = (type: Obstacle['type']): ConsoleCommand => ({
+    usage: `${type.toLowerCase()} [here] [WxH] [at=cursor|self|X,Y]`,
+    options: ['at'],
+    run: ({ args, options }, engine, ctx) => {
+        let size = DEFAULT_OBSTACLE_SIZE;
+        let at = options.at || 'cursor';
+        args.forEach(arg => {
+            const match = /^(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)$/i.exec(arg);
+            if (match) {
+                size = {
+                    width: parseRange(match[1], 1, MAX_OBSTACLE_SIZE),
+                    height: parseRange(match[2], 1, MAX_OBSTACLE_SIZE)
+                };
+            } else {
+                at = arg;
+            }
+        });
+        const obstacle = engine.debugAddObstacle(type, resolvePosition(at, engine, ctx), size.width, size.height);
+        return { key: 'console.result.obstacle', params: { type: obstacle.type, width: obstacle.width, height: obstacle.height } };
+    }
+});
+
+const COMMANDS: Record<string, ConsoleCommand> = {
+    spawn: {
+        usage: 'spawn TYPE [team=1] [at=cursor|self|X,Y] [bot=true] [difficulty=NORMAL]',
+        options: ['team', 'at', 'bot', 'difficulty'],
+        run: ({ args, options }, engine, ctx) => {
+            const type = parseCharacterType(args[0]);
+            const teamId = options.team !== undefined ? Math.floor(parseRange(options.team, 0, 99)) : 1;
+            const pos = resolvePosition(options.at || args[1] || 'cursor', engine, ctx);
+            const isBot = options.bot !== undefined ? parseBoolean(options.bot) : true;
+            let difficulty: AIDifficulty | undefined;
+            if (options.difficulty !== undefined) {
+                difficulty = (Object.keys(AI_DIFFICULTY) as AIDifficulty[]).find(d => d === options.difficulty.toUpperCase());
+                if (!difficulty) throw new ConsoleCommandError('console.error.difficulty', { value: options.difficulty });
+            }
+            const p = engine.debugSpawn(type, teamId, pos, isBot, difficulty);
+            return { key: 'console.result.spawn', params: { type: p.type, id: p.id, team: p.teamId } };
+        }
+    },
+    status: {
+        usage: 'status NAME [seconds] [target=self]',
+        options: ['target'],
+        run: ({ args, options }, engine, ctx) => {
+            const status = Object.keys(STATUS_CONFIG).find(s => s.toLowerCase() === args[0]?.toLowerCase());
+            if (!status) throw new ConsoleCommandError('console.error.status', { value: args[0] ?? '' });
+            const duration = args[1] !== undefined ? parseRange(args[1], 0, 60) : DEFAULT_STATUS_DURATION;
+            const targets = resolveTargets(options.target || 'self', engine, ctx);
+            const count = targets.filter(t => engine.debugApplyStatus(t.id, status, duration)).length;
+            return { key: 'console.result.status', params: { status, duration, count } };
+        }
+    },
+    set: {
+        usage: `set FIELD VALUE [target=self]  (${Object.keys(SETTABLE_FIELDS).join(', ')})`,
+        options: ['target'],
+        run: ({ args, options }, engine, ctx) => {
+            const field = SETTABLE_FIELDS[args[0]?.toLowerCase() ?? ''];
+            if (!field) throw new ConsoleCommandError('console.error.field', { value: args[0] ?? '' });
+            const value = parseNumber(args[1]);
+            // 无人机只有血量
+            const targets = resolveTargets(options.target || 'self', engine, ctx)
+                .filter(t => 'isSummon' in t ? field === 'hp' : t[field] !== undefined || field === 'hp');
+            if (targets.length === 0) throw new ConsoleCommandError('console.error.field', { value: args[0] });
+            targets.forEach(t => {
+                if ('isSummon' in t) t.hp = value;
+                else t[field] = value;
+            });
+            return { key: 'console.result.set', params: { field, value, count: targets.length } };
+        }
+    },
+    kill: {
+        usage: 'kill [target=nearest]',
+        options: ['target'],
+        run: ({ options }, engine, ctx) => {
+            const targets = resolveTargets(options.target || 'nearest', engine, ctx);
+            const count = targets.filter(t => engine.debugKill(t.id)).length;
+            return { key: 'console.result.kill', params: { count } };
+        }
+    },
+    wall: obstacleCommand('WALL'),
+    water: obstacleCommand('WATER'),
+    lava: obstacleCommand('LAVA'),
+    timescale: {
+        usage: `timescale SCALE  (${MIN_TIME_SCALE}-${MAX_TIME_SCALE})`,
+        options: [],
+        run: ({ args }, engine) => {
+            const scale = parseRange(args[0], MIN_TIME_SCALE, MAX_TIME_SCALE);
+            engine.setDebugTimeScale(scale);
+            return { key: 'console.result.timescale', params: { scale } };
+        }
+    },
+    seed: {
+        usage: 'seed N',
+        options: [],
+        run: ({ args }, engine) => {
+            const seed = Math.floor(parseNumber(args[0])) >>> 0;
+            engine.debugReseed(seed);
+            return { key: 'console.result.seed', params: { seed } };
+        }
+    },
+};
+
+export const CONSOLE_COMMANDS = Object.keys(COMMANDS);
+
+const getHelp = (name?: string): ConsoleResult => {
+    if (name) {
+        const command = COMMANDS[name.toLowerCase()];
+        if (!command) throw new ConsoleCommandError('console.error.unknown', { command: name });
+        return { key: 'console.result.usage', params: { usage: command.usage } };
+    }
+    return { key: 'console.result.help', params: { commands: CONSOLE_COMMANDS.join(', ') } };
+};
+
+/**
+ * 执行一行控制台命令，返回结果提示；命令无效时抛出 ConsoleCommandError。
+ * 位置参数按顺序传给命令，`键=值` 形式的参数为选项 (键不区分大小写)。
+ */
+export const runConsoleCommand = (engine: Engine, line: string, ctx: ConsoleContext): ConsoleResult => {
+    const [name, ...tokens] = line.trim().split(/\s+/).filter(Boolean);
+    if (!name) throw new ConsoleCommandError('console.error.empty');
+    if (name.toLowerCase() === 'help') return getHelp(tokens[0]);
+
+    const command = COMMANDS[name.toLowerCase()];
+    if (!command) throw new ConsoleCommandError('console.error.unknown', { command: name });
+
+    const parsed: ParsedCommand = { args: [], options: {} };
+    tokens.forEach(token => {
+        const eq = token.indexOf('=');
+        if (eq <= 0) {
+            parsed.args.push(token);
+            return;
+        }
+        const key = token.slice(0, eq).toLowerCase();
+        if (!command.options.includes(key)) throw new ConsoleCommandError('console.error.option', { option: key, usage: command.usage });
+        parsed.options[key] = token.slice(eq + 1);
+    });
+    return command.run(parsed, engine, ctx);
+};
@@ -0,0 +1,5124 @@
+/**
+ * 无头模拟引擎 (Headless Simulation Engine)
+ *
+ * 不依赖 React / DOM / Canvas / Sound。输入为每个玩家的 PlayerInput 指令，
+ * 由 step() 推进 GameState。客户端 (Game.tsx) 只负责采集输入、相机与渲染。
+ */
+import {
+    CharacterType, GameState, PlayerState, Vector2, TankMode, GroundEffect, Obstacle, Drone, DamageType, DangerZone,
+    PlayerInput, InputFrame, GameConfig, AIDifficulty, TrainingSettings
+} from '../types';
+import {
+    MAP_SIZE, PHYSICS, SIM_CONFIG, CHAR_STATS, STATUS_CONFIG, MAGIC_SPELL_LINES, MAGIC_SHIELD_EXTRA_RADIUS, TERRAIN_CONFIG,
+    DEFAULT_TRAINING_SETTINGS, TRAINING_DUMMY_DISTANCE, TRAINING_MAX_DUMMIES, TRAINING_STATUS_DURATION
+} from '../constants';
+import * as Utils from '../utils';
+import { getCharacter, getChargeConfig, getHazardAffinity, getRandomOpponentTypes } from '../characters';
+import type { MessageKey, MessageParams } from '../i18n';
+import type { AudioSink, DamageSkill, Engine, EngineOptions, EngineSnapshot } from './types';
+import { buildNavCosts, buildNavGrid, findPath, isPathClear, NAV_CELL_SIZE } from './pathfinding';
+import type { NavCosts, NavGrid } from './pathfinding';
+import { issueTeamCommand, updateTeamBlackboards, updateTeamCommands } from './teamAI';
+import { createAIController } from './ai';
+import { ABILITY_SLOTS, AbilitySlot, createAbilityRunner, isSlotHeld } from './abilities';
+import type { AbilityContext } from './abilities';
+import { applyTrainingSettings } from './training';
+
+// 无头环境下的静音实现
+export const SILENT_AUDIO: AudioSink = {
+    playShot: () => { },
+    playExplosion: () => { },
+    playHit: () => { },
+    playSkill: () => { },
+    playBurnout: () => { },
+    playUI: () => { },
+};
+
+// 包装音效输出：isMuted() 为真时丢弃播放请求
+export const gateAudio = (sink: AudioSink, isMuted: () => boolean): AudioSink => ({
+    playShot: (...args) => { if (!isMuted()) sink.playShot(...args); },
+    playExplosion: (...args) => { if (!isMuted()) sink.playExplosion(...args); },
+    playHit: (...args) => { if (!isMuted()) sink.playHit(...args); },
+    playSkill: (...args) => { if (!isMuted()) sink.playSkill(...args); },
+    playBurnout: (...args) => { if (!isMuted()) sink.playBurnout(...args); },
+    playUI: (...args) => { if (!isMuted()) sink.playUI(...args); },
+});
+
+export const NEUTRAL_INPUT: PlayerInput = {
+    move: { x: 0, y: 0 },
+    aim: { x: 0, y: 0 },
+    primary: false,
+    secondary: false,
+    ultimate: false,
+    toggleMode: false,
+};
+
+// 自定义对局中各席位的玩家 id：主玩家固定为 'player'，其余真人为 human_i，电脑为 bot_i
+export const getConfigPlayerId = (cfg: GameConfig['players'][number], index: number) =>
+    cfg.isPlayer ? 'player' : (cfg.isBot ? `bot_${index}` : `human_${index}`);
+
+export const createEngine = (options: EngineOptions): Engine => {
+    const { playerType, enemyType, customConfig, localPlayerId = 'player' } = options;
+    // 重演历史帧时静音
+    let resimulating = false;
+    const audio = gateAudio(options.audio || SILENT_AUDIO, () => resimulating);
+
+    // Sound Throttle
+    let lastPyroSoundTime = 0;
+    let lastDroneSoundTime = 0;
+
+    const textCooldowns = new Map<string, Record<string, number>>();
+
+    // 确定性随机数：状态保存在 GameState.rngState 中，禁止在模拟中直接使用 Math.random
+    const random = () => {
+        const [value, next] = Utils.nextRandom(state.rngState);
+        state.rngState = next;
+        return value;
+    };
+
+    // 模拟时钟 (毫秒)，替代 performance.now()
+    const simNow = () => state.simTime;
+
+    // 当前步的输入与上一步的输入 (用于检测按下/松开)
+    let currentInputs: InputFrame = {};
+    const prevInputs = new Map<string, PlayerInput>();
+
+    // Helper: Resolve highest priority status color & label
+    // Helper: Resolve status color & label based on LATEST applied valid status
+    const getStatusInfo = (p: PlayerState) => {
+        // Ensure history exists
+        if (!p.statusHistory) p.statusHistory = [];
+
+        // Iterate backwards to find the latest valid status
+        for (let i = p.statusHistory.length - 1; i >= 0; i--) {
+            const type = p.statusHistory[i];
+            const config = STATUS_CONFIG[type];
+            if (!config) continue;
+
+            // Check validity
+            let isActive = false;
+            if (type === 'wet') isActive = p.isWet;
+            else if (type === 'stealth') isActive = p.stealth;
+            else {
+                const timerProp = `${type}Timer`;
+                isActive = (p as any)[timerProp] > 0;
+            }
+
+            if (isActive) {
+                return config;
+            }
+        }
+        return null;
+    };
+
+
+    const isMechanical = (entity: any): boolean => {
+        return !!entity.isMechanical;
+    };
+
+    // 硬控状态定义：通过 STATUS_CONFIG 的 tags 动态生成
+    const HARD_CC_STATUS_TYPES = Object.keys(STATUS_CONFIG).filter(key =>
+        STATUS_CONFIG[key].tags?.includes('hard_cc')
+    );
+    const CONTROL_TIMER_KEYS = HARD_CC_STATUS_TYPES.map(key =>
+        STATUS_CONFIG[key].propName
+    ) as (keyof PlayerState)[];
+
+    // 所有解控技能/机制都应在这里添加触发条件
+    const getCleanseReasons = (p: PlayerState): string[] => {
+        const reasons: string[] = [];
+
+        // 移形换影：传送动画开始时解控
+        if (p.apparitionPhase === 'DISAPPEARING') {
+            reasons.push('apparition');
+        }
+
+        // 呼神护卫：光灵球刚生成时解控（检测光灵球存在且时间接近最大值）
+        if ((p.lightSpiritTimer || 0) > 0) {
+            const stats = CHAR_STATS[CharacterType.MAGIC];
+            const maxDuration = stats.lightSpiritDuration / 1000;
+            // 如果光灵球计时器接近最大值（刚释放），触发解控
+            if ((p.lightSpiritTimer || 0) >= maxDuration - 0.1) {
+                reasons.push('patronus');
+            }
+        }
+
+        return reasons;
+    };
+
+    // 检查玩家是否处于控制免疫状态（用于 applyStatus 阻挡）
+    const hasCcImmunity = (p: PlayerState): boolean => {
+        return (p.ccImmuneTimer || 0) > 0;
+    };
+
+    // 统一免疫检查器：集中管理所有免疫机制
+    interface ImmunityResult {
+        isImmune: boolean;
+        reason?: 'mechanical' | 'fire' | 'shield' | 'invincible' | 'patronus';
+        particleColor?: string;
+        showLabel?: boolean;
+    }
+
+    const checkStatusImmunity = (
+        target: PlayerState | Drone | any,
+        statusType: string
+    ): ImmunityResult => {
+        // 1. 机械体免疫精神控制 (Tag: mental)
+        if (isMechanical(target)) {
+            const config = STATUS_CONFIG[statusType];
+            if (config && config.tags?.includes('mental')) {
+                return { isImmune: true, reason: 'mechanical', particleColor: '#9ca3af', showLabel: true };
+            }
+        }
+
+        // 2. 火焰免疫（Pyro 或 潮湿状态）(Tag: fire)
+        if (target.type === CharacterType.PYRO || target.isWet) {
+            const config = STATUS_CONFIG[statusType];
+            if (config && config.tags?.includes('fire')) {
+                return { isImmune: true, reason: 'fire' };
+            }
+        }
+
+        // 3. 护盾免疫所有负面 buff
+        if ((target.magicShieldHp || 0) > 0) {
+            // 检查是否为负面状态
+            const statusConfig = STATUS_CONFIG[statusType];
+            if (statusConfig && statusConfig.nature === 'negative') {
+                const color = target.magicForm === 'WHITE' ? '#fef08a' : '#22c55e';
+                return { isImmune: true, reason: 'shield', particleColor: color };
+            }
+        }
+
+        // 4. 无敌状态免疫所有负面 buff（猫猫复活后等）
+        if ((target.invincibleTimer || 0) > 0) {
+            const statusConfig = STATUS_CONFIG[statusType];
+            if (statusConfig && statusConfig.nature === 'negative') {
+                return { isImmune: true, reason: 'invincible', particleColor: '#fbbf24', showLabel: true };
+            }
+        }
+
+        // 5. 光灵球免疫硬控
+        if (hasCcImmunity(target) && HARD_CC_STATUS_TYPES.includes(statusType as any)) {
+            return { isImmune: true, reason: 'patronus', particleColor: '#f8fafc', showLabel: true };
+        }
+
+        return { isImmune: false };
+    };
+
+
+
+    // Helper: 任何形式的控制状态（用于隐藏指示器、禁止自主瞄准等）
+    const isControlled = (p: PlayerState): boolean => {
+        return CONTROL_TIMER_KEYS.some(key => (p[key as keyof PlayerState] as number || 0) > 0);
+    };
+
+    // Helper: 清除所有硬控效果
+    const clearControlEffects = (p: PlayerState) => {
+        CONTROL_TIMER_KEYS.forEach(key => {
+            (p as any)[key] = 0;
+        });
+    };
+
+    // Helper: 清空所有状态效果（用于复活时）
+    const clearAllStatusEffects = (p: PlayerState) => {
+        // 自动遍历所有状态并清空（排除 heal 和 revive，它们不是状态效果）
+        Object.entries(STATUS_CONFIG).forEach(([statusType, config]) => {
+            // 跳过特殊类型
+            if (statusType === 'heal' || statusType === 'revive') return;
+
+            const currentValue = (p as any)[config.propName];
+
+            // 根据属性类型重置
+            if (typeof currentValue === 'boolean') {
+                (p as any)[config.propName] = false;
+            } else if (typeof currentValue === 'number') {
+                (p as any)[config.propName] = 0;
+            }
+        });
+
+        // 清空状态历史
+        p.statusHistory = [];
+
+        // 清空来源ID
+        p.tauntSourceId = undefined;
+        p.burnSourceId = undefined;
+    };
+
+    // Helper: 能否使用右键技能（防御/特殊技能）
+    // 排除：isControlled (六种硬控) + 沉默
+    const canUseSecondarySkill = (p: PlayerState): boolean => {
+        return !isControlled(p) && p.silenceTimer <= 0;
+    };
+
+    // Helper: 能否使用空格大招（与右键相同逻辑，独立函数便于未来扩展）
+    const canUseUltimate = (p: PlayerState): boolean => {
+        return canUseSecondarySkill(p); // 当前逻辑相同
+    };
+
+    const calculatePyroShape = (distToTarget: number) => {
+        const baseRange = CHAR_STATS[CharacterType.PYRO].flamethrowerRange;
+        const baseAngle = CHAR_STATS[CharacterType.PYRO].flamethrowerAngle;
+
+        // 面积常数 K
+        const areaConstant = baseRange * baseRange * baseAngle;
+        const clampedDist = Utils.clamp(distToTarget, 70, baseRange); // [修复] 使用实际射程 (320) 而非硬编码 280
+        const newAngle = areaConstant / (clampedDist * clampedDist);
+
+        // 限制最大角度为80度（约1.4弧度），防止变成环形
+        const maxAngle = Math.PI * 80 / 180; // 80度 ≈ 1.396 弧度
+        const finalAngle = Math.min(newAngle, maxAngle);
+
+        return { range: clampedDist, angle: finalAngle };
+    };
+
+    // Map Generator
+    const generateObstacles = (): Obstacle[] => {
+        const obs: Obstacle[] = [];
+
+        // 1. Generate 1 Large Water Body (Fixed requirement)
+        // Size between 500x500 and 800x800
+        const largeWaterW = 500 + random() * 300;
+        const largeWaterH = 500 + random() * 300;
+        obs.push({
+            id: 'water-large',
+            x: random() * (MAP_SIZE.width - largeWaterW),
+            y: random() * (MAP_SIZE.height - largeWaterH),
+            width: largeWaterW,
+            height: largeWaterH,
+            type: 'WATER',
+            priority: 0 // Will be reassigned later based on index
+        });
+
+        // 2. Generate 2-3 Large Solid Obstacles (Fixed requirement)
+        const numLargeWalls = 2 + Math.floor(random() * 2);
+        for (let i = 0; i < numLargeWalls; i++) {
+            // Large blocks, could be thick walls or squares
+            const w = 200 + random() * 300;
+            const h = 200 + random() * 300;
+            obs.push({
+                id: `wall-large-${i}`,
+                x: random() * (MAP_SIZE.width - w),
+                y: random() * (MAP_SIZE.height - h),
+                width: w,
+                height: h,
+                type: 'WALL',
+                priority: 0 // Will be reassigned later based on index
+            });
+        }
+
+        // [Modified] Generate 1 Medium & 1 Small Lava Pool
+        const medLavaW = 250 + random() * 150;
+        const medLavaH = 250 + random() * 150;
+        obs.push({
+            id: 'lava-medium',
+            x: random() * (MAP_SIZE.width - medLavaW),
+            y: random() * (MAP_SIZE.height - medLavaH),
+            width: medLavaW,
+            height: medLavaH,
+            type: 'LAVA',
+            priority: 0
+        });
+
+        const smLavaW = 120 + random() * 80;
+        const smLavaH = 120 + random() * 80;
+        obs.push({
+            id: 'lava-small',
+            x: random() * (MAP_SIZE.width - smLavaW),
+            y: random() * (MAP_SIZE.height - smLavaH),
+            width: smLavaW,
+            height: smLavaH,
+            type: 'LAVA',
+            priority: 0
+        });
+
+        // 3. Random Scatter (Reduced count slightly to accommodate large ones)
+        const numRandomWalls = 3 + Math.floor(random() * 3);
+        const numRandomWater = 1 + Math.floor(random() * 2);
+
+        const isValid = (rect: { x: number, y: number, width: number, height: number }) => {
+            // Check spawn safety zones
+            if (rect.x < 300 || rect.x > MAP_SIZE.width - 300) return true;
+            if (rect.y < 300 || rect.y > MAP_SIZE.height - 300) return true;
+
+            // Simple check to prevent total overlap with existing large obstacles
+            for (const existing of obs) {
+                const overlap = !(rect.x + rect.width < existing.x ||
+                    rect.x > existing.x + existing.width ||
+                    rect.y + rect.height < existing.y ||
+                    rect.y > existing.y + existing.height);
+                if (overlap) return false;
+            }
+            return true;
+        };
+
+        for (let i = 0; i < numRandomWalls + numRandomWater; i++) {
+            let attempts = 0;
+            while (attempts < 50) {
+                const w = 40 + random() * 200;
+                const h = 40 + random() * 200;
+                const x = random() * (MAP_SIZE.width - w);
+                const y = random() * (MAP_SIZE.height - h);
+                const type: 'WALL' | 'WATER' = i < numRandomWalls ? 'WALL' : 'WATER';
+                const newObs: Obstacle = { id: `obs-random-${i}`, x, y, width: w, height: h, type, priority: 0 };
+
+                if (isValid(newObs)) {
+                    obs.push(newObs);
+                    break;
+                }
+                attempts++;
+            }
+        }
+
+        // [新增] 按渲染顺序分配唯一优先级 (索引越大，优先级越高，渲染在越上层)
+        // [修改] 明确优先级层次：WATER(0+) < LAVA(100+) < WALL(200+)
+        obs.forEach((o, idx) => {
+            let typeWeight = 0;
+            if (o.type === 'LAVA') typeWeight = 100;
+            else if (o.type === 'WALL') typeWeight = 200;
+            o.priority = typeWeight + idx;
+        });
+
+        return obs;
+    };
+
+    // 1. 计算出生点（支持多人）
+    const getSpawnPoints = (count: number) => {
+        const points: Vector2[] = [];
+        const padding = 300;
+        const w = MAP_SIZE.width;
+        const h = MAP_SIZE.height;
+
+        // 2人对战：左上、右下
+        if (count === 2) {
+            points.push({ x: padding, y: padding });
+            points.push({ x: w - padding, y: h - padding });
+        }
+        // 4人对战：四角
+        else if (count === 4) {
+            points.push({ x: padding, y: padding });
+            points.push({ x: w - padding, y: h - padding });
+            points.push({ x: w - padding, y: padding });
+            points.push({ x: padding, y: h - padding });
+        }
+        // 其他人数：圆形分布
+        else {
+            const cx = w / 2;
+            const cy = h / 2;
+            const r = Math.min(w, h) / 2 - padding;
+            for (let i = 0; i < count; i++) {
+                const angle = (Math.PI * 2 * i) / count;
+                points.push({
+                    x: cx + Math.cos(angle) * r,
+                    y: cy + Math.sin(angle) * r
+                });
+            }
+        }
+        return points;
+    };
+
+    // 检测位置是否对角色安全（基于地形亲和度）
+    const isSafeSpawnPosition = (
+        type: CharacterType,
+        pos: Vector2,
+        obstacles: Obstacle[],
+        radius: number
+    ): boolean => {
+        // 获取角色的地形亲和度配置
+        const affinity = getHazardAffinity(type);
+
+        // 检查所有障碍物
+        for (const obs of obstacles) {
+            // 检查是否与障碍物重叠
+            const collision = Utils.checkCircleRectCollision(pos, radius, obs);
+            if (!collision.collided) continue;
+
+            // 获取该地形类型的亲和度
+            let hazardAffinity = 0;
+            if (obs.type === 'WATER') hazardAffinity = affinity.WATER || 0;
+            else if (obs.type === 'LAVA') hazardAffinity = affinity.MAGMA || 0;
+            else if (obs.type === 'WALL') hazardAffinity = affinity.WALL || 0;
+
+            // 如果亲和度 > 0，表示危险
+            if (hazardAffinity > 0) {
+                return false;
+            }
+        }
+
+        return true;
+    };
+
+    // 在给定位置附近寻找安全出生点
+    const findSafeSpawnPosition = (
+        type: CharacterType,
+        preferredPos: Vector2,
+        obstacles: Obstacle[],
+        radius: number
+    ): Vector2 => {
+        // 首先检查首选位置是否安全
+        if (isSafeSpawnPosition(type, preferredPos, obstacles, radius)) {
+            return preferredPos;
+        }
+
+        // 使用螺旋搜索算法寻找安全位置
+        const searchRadius = 50;
+        const maxSearchRadius = 300;
+        const angleStep = Math.PI / 6; // 30度步进
+
+        for (let r = searchRadius; r <= maxSearchRadius; r += searchRadius) {
+            const numSteps = Math.floor((2 * Math.PI) / angleStep);
+            for (let i = 0; i < numSteps; i++) {
+                const angle = i * angleStep;
+                const testPos = {
+                    x: preferredPos.x + Math.cos(angle) * r,
+                    y: preferredPos.y + Math.sin(angle) * r
+                };
+
+                // 检查是否在地图范围内
+                if (testPos.x < radius || testPos.x > MAP_SIZE.width - radius ||
+                    testPos.y < radius || testPos.y > MAP_SIZE.height - radius) {
+                    continue;
+                }
+
+                // 检查是否安全
+                if (isSafeSpawnPosition(type, testPos, obstacles, radius)) {
+                    return testPos;
+                }
+            }
+        }
+
+        // 如果未找到安全位置，记录警告并返回原位置
+        console.warn(`[Safe Spawn] Could not find safe spawn position for ${type} near (${preferredPos.x}, ${preferredPos.y})`);
+        return preferredPos;
+    };
+
+    // 2. 初始化玩家列表
+    const initPlayers = (obstacles: Obstacle[]): PlayerState[] => {
+        // 获取障碍物用于安全检测
+
+        if (customConfig) {
+            // 使用自定义配置
+            const spawns = getSpawnPoints(customConfig.players.length);
+            return customConfig.players.map((cfg, i) => {
+                // 为每个角色找到安全的出生点
+                const safeSpawn = findSafeSpawnPosition(
+                    cfg.type,
+                    spawns[i],
+                    obstacles,
+                    CHAR_STATS[cfg.type].radius
+                );
+                return createPlayer(cfg.type, safeSpawn, getConfigPlayerId(cfg, i), cfg.teamId, cfg.isBot, cfg.difficulty);
+            });
+        } else {
+            // 传统的快速开始 (1v1)
+            const spawns = getSpawnPoints(2);
+
+            // 玩家永远是 team 0
+            const p1Spawn = findSafeSpawnPosition(
+                playerType,
+                spawns[0],
+                obstacles,
+                CHAR_STATS[playerType].radius
+            );
+            const p1 = createPlayer(playerType, p1Spawn, 'player', 0, false);
+
+            let eType = enemyType as CharacterType;
+            if (enemyType === 'RANDOM' || !enemyType) {
+                const types = getRandomOpponentTypes();
+                eType = types[Math.floor(random() * types.length)];
+            }
+
+            // 敌人永远是 team 1
+            let enemySpawnPos = spawns[1];
+            if (eType === CharacterType.COACH) {
+                enemySpawnPos = { x: MAP_SIZE.width / 2, y: MAP_SIZE.height / 2 };
+            }
+
+            const p2Spawn = findSafeSpawnPosition(
+                eType,
+                enemySpawnPos,
+                obstacles,
+                CHAR_STATS[eType].radius
+            );
+            const p2 = createPlayer(eType, p2Spawn, 'enemy', 1, !options.humanOpponent, options.enemyDifficulty);
+            return [p1, p2];
+        }
+    };
+
+    // Game State Initialization
+    // 先建立带种子的空状态，地图与玩家的随机生成都从该种子派生
+    const seed = (options.seed ?? Math.floor(Math.random() * 0x100000000)) >>> 0;
+    let state: GameState = {
+        players: [],
+        obstacles: [],
+        projectiles: [],
+        particles: [],
+        groundEffects: [],
+        drones: [],
+        lightSpirits: [],
+        floatingTexts: [],
+        camera: { x: 0, y: 0 },
+        gameStatus: 'PLAYING',
+        timeScale: 1.0,
+        seed,
+        rngState: seed,
+        simTime: 0,
+        tick: 0,
+        pendingActions: [],
+        winnerTeamId: null
+    };
+    state.obstacles = generateObstacles();
+    state.players = initPlayers(state.obstacles);
+    // [Training] 训练场中所有人被击倒后都在出生点复活
+    if (options.training) {
+        state.training = { ...DEFAULT_TRAINING_SETTINGS };
+        state.players.forEach(p => { p.trainingHome = { ...p.pos }; });
+    }
+
+    // 获取本地玩家（用于输入控制、UI显示）
+    const getHumanPlayer = () => {
+        return state.players.find(p => p.id === localPlayerId) || state.players[0];
+    };
+
+    // 获取某人的所有敌人（用于攻击判定、AI索敌）
+    const getEnemies = (p: PlayerState) => {
+        // 找出所有 阵营不同 且 没死 的玩家/机器人
+        const enemies: any[] = state.players.filter(other => {
+            if (other.id === p.id || other.teamId === p.teamId || other.isDead) return false;
+
+            // Stealth Logic: Only visible if very close
+            if ((other.stealthTimer || 0) > 0) {
+                if (Utils.dist(p.pos, other.pos) > 200) return false;
+            }
+            return true;
+        });
+
+        // 同时也把敌对阵营的无人机算作敌人
+        state.drones.forEach(d => {
+            const owner = state.players.find(pl => pl.id === d.ownerId);
+            // 如果无人机的主人存在，且是敌对阵营，且无人机活着
+            if (owner && owner.teamId !== p.teamId && d.hp > 0 && !d.isDocked) {
+                enemies.push(d);
+            }
+        });
+        return enemies;
+    };
+
+    // [Path] 导航网格只依赖障碍物：按障碍物 id 签名缓存，墙被打碎 (或回滚恢复了旧地形) 时重建
+    let navGrid: NavGrid | null = null;
+    let navSignature = '';
+    const navCosts = new Map<CharacterType, NavCosts>();
+
+    const getNavGrid = (signature: string): NavGrid => {
+        if (!navGrid || signature !== navSignature) {
+            navGrid = buildNavGrid(state.obstacles);
+            navSignature = signature;
+            navCosts.clear();
+        }
+        return navGrid;
+    };
+
+    const getNavCosts = (grid: NavGrid, type: CharacterType): NavCosts => {
+        let costs = navCosts.get(type);
+        if (!costs) {
+            costs = buildNavCosts(grid, getHazardAffinity(type));
+            navCosts.set(type, costs);
+        }
+        return costs;
+    };
+
+    // 路径过期前最长沿用时间 (秒)，以及目标移动多远后重新规划
+    const NAV_REPLAN_INTERVAL = 0.5;
+    const NAV_REPLAN_DISTANCE = NAV_CELL_SIZE * 2;
+
+    // [Path] 朝目标前进的方向：直线畅通时走直线，否则沿 A* 路径的下一个路点前进 (无路可走时退回直线)
+    const getApproachDir = (ai: PlayerState, goal: Vector2, dt: number): Vector2 => {
+        const direct = Utils.normalize(Utils.sub(goal, ai.pos));
+        const signature = state.obstacles.map(o => o.id).join('|');
+        const grid = getNavGrid(signature);
+        const costs = getNavCosts(grid, ai.type);
+        if (isPathClear(grid, costs, ai.pos, goal)) {
+            ai.aiPath = undefined;
+            return direct;
+        }
+
+        ai.aiPathTimer = (ai.aiPathTimer || 0) - dt;
+        const stale = !ai.aiPath || ai.aiPathTimer <= 0 || ai.aiPathSignature !== signature
+            || !ai.aiPathGoal || Utils.dist(ai.aiPathGoal, goal) > NAV_REPLAN_DISTANCE;
+        if (stale) {
+            ai.aiPath = findPath(grid, costs, ai.pos, goal) || [];
+            ai.aiPathGoal = { x: goal.x, y: goal.y };
+            ai.aiPathSignature = signature;
+            ai.aiPathTimer = NAV_REPLAN_INTERVAL;
+        }
+
+        const path = ai.aiPath!;
+        // 到达路点后转向下一个
+        while (path.length > 1 && Utils.dist(ai.pos, path[0]) < NAV_CELL_SIZE * 0.6) path.shift();
+        return path.length > 0 ? Utils.normalize(Utils.sub(path[0], ai.pos)) : direct;
+    };
+
+    const getDangerZones = (entity: PlayerState, state: GameState): DangerZone[] => {
+        const dangerZones: DangerZone[] = [];
+        const affinity = getHazardAffinity(entity.type);
+
+        // 1. Skill Hazards (Ground Effects)
+        const skillWeight = affinity.SKILL ?? 1.0;
+        if (skillWeight !== 0) {
+            state.groundEffects.forEach(eff => {
+                if (eff.ownerId === entity.id) return;
+
+                if (eff.type === 'SCOOPER_WARNING') {
+                    dangerZones.push({
+                        type: 'CIRCLE',
+                        hazardType: 'SKILL',
+                        center: eff.pos,
+                        radius: eff.radius,
+                        timeLeft: eff.life,
+                        weight: skillWeight
+                    });
+                }
+            });
+        }
+
+        // 2. Enemy Charging Skills
+        if (skillWeight !== 0) {
+            const allEnemies = getEnemies(entity);
+            allEnemies.forEach(enemy => {
+                if (enemy.isDead || 'isSummon' in enemy) return;
+                const zones = getCharacter(enemy.type)?.getThreatZones?.(enemy, skillWeight);
+                if (zones) dangerZones.push(...zones);
+            });
+        }
+
+        // 3. Water Hazards
+        const waterWeight = affinity.WATER ?? 1.0;
+        if (waterWeight !== 0) {
+            state.obstacles.filter(obs => obs.type === 'WATER').forEach(water => {
+                dangerZones.push({
+                    type: 'RECT',
+                    hazardType: 'WATER',
+                    p1: { x: water.x, y: water.y + water.height / 2 },
+                    p2: { x: water.x + water.width, y: water.y + water.height / 2 },
+                    width: water.height,
+                    timeLeft: 99, // [Fix] Permanent terrain has near-infinite escape time
+                    weight: waterWeight
+                });
+            });
+        }
+
+        // 4. Magma Hazards (Lava Terrain & Magma Pools)
+        const magmaWeight = affinity.MAGMA ?? 0;
+        if (magmaWeight !== 0) {
+            // A. Environmental Lava (LAVA Obstacles)
+            state.obstacles.filter(obs => obs.type === 'LAVA').forEach(lava => {
+                dangerZones.push({
+                    type: 'RECT',
+                    hazardType: 'MAGMA',
+                    p1: { x: lava.x, y: lava.y + lava.height / 2 },
+                    p2: { x: lava.x + lava.width, y: lava.y + lava.height / 2 },
+                    width: lava.height,
+                    timeLeft: 99, // Permanent terrain
+                    weight: magmaWeight
+                });
+            });
+
+            // B. Skill Magma Pools
+            state.groundEffects.filter(eff => eff.type === 'MAGMA_POOL').forEach(pool => {
+                dangerZones.push({
+                    type: 'CIRCLE',
+                    hazardType: 'MAGMA',
+                    center: pool.pos,
+                    radius: pool.radius,
+                    timeLeft: pool.life,
+                    weight: magmaWeight
+                });
+            });
+        }
+
+        // 5. Walls (Obstacles)
+        const wallWeight = affinity.WALL ?? 0;
+        if (wallWeight !== 0) {
+            state.obstacles.filter(obs => obs.type !== 'WATER').forEach(wall => {
+                dangerZones.push({
+                    type: 'RECT',
+                    hazardType: 'WALL',
+                    p1: { x: wall.x, y: wall.y + wall.height / 2 },
+                    p2: { x: wall.x + wall.width, y: wall.y + wall.height / 2 },
+                    width: wall.height,
+                    timeLeft: 99,
+                    weight: wallWeight
+                });
+            });
+        }
+
+        return dangerZones;
+    };
+
+    const getPointDangerInfo = (pt: Vector2, zone: DangerZone): { inside: boolean, escapeVec: Vector2, distToEdge: number } => {
+        let inside = false;
+        let escapeVec: Vector2 = { x: 0, y: 0 };
+        let distToEdge = 0;
+
+        if (zone.type === 'CIRCLE') {
+            const d = Utils.dist(pt, zone.center!);
+            if (d < zone.radius!) {
+                inside = true;
+                const dirToPt = Utils.sub(pt, zone.center!);
+                const normDir = Utils.mag(dirToPt) === 0 ? { x: 1, y: 0 } : Utils.normalize(dirToPt);
+                distToEdge = zone.radius! - d + 5; // +5 padding
+                escapeVec = normDir;
+            }
+        } else if (zone.type === 'RECT') {
+            // Point Line Distance
+            const l2 = Utils.dist(zone.p1!, zone.p2!) ** 2;
+            let t = 0;
+            if (l2 !== 0) {
+                t = ((pt.x - zone.p1!.x) * (zone.p2!.x - zone.p1!.x) + (pt.y - zone.p1!.y) * (zone.p2!.y - zone.p1!.y)) / l2;
+                t = Math.max(0, Math.min(1, t));
+            }
+            const projection = Utils.add(zone.p1!, Utils.mult(Utils.sub(zone.p2!, zone.p1!), t));
+            const d = Utils.dist(pt, projection);
+
+            const halfWidth = zone.width! / 2;
+            if (d < halfWidth) {
+                inside = true;
+                const dirAway = Utils.sub(pt, projection);
+                const normDir = Utils.mag(dirAway) === 0
+                    ? { x: -(zone.p2!.y - zone.p1!.y), y: (zone.p2!.x - zone.p1!.x) } // arbitrary perp
+                    : Utils.normalize(dirAway);
+
+                distToEdge = halfWidth - d + 20; // +20 padding
+                escapeVec = Utils.normalize(normDir);
+            }
+        }
+
+        return { inside, escapeVec, distToEdge };
+    };
+
+
+
+    // [新增] 获取所有可攻击目标（实现友军伤害）- 返回所有存活的玩家和无人机，除了自己
+    const getAllAttackTargets = (p: PlayerState) => {
+        const targets: any[] = state.players.filter(other =>
+            other.id !== p.id && !other.isDead
+        );
+
+        // 包括所有无人机（除了自己的）
+        state.drones.forEach(d => {
+            if (d.ownerId !== p.id && d.hp > 0 && !d.isDocked) {
+                targets.push(d);
+            }
+        });
+        return targets;
+    };
+
+    // 获取最近的敌人（用于AI）
+    const getNearestEnemy = (p: PlayerState): PlayerState | Drone | null => {
+        let nearest: PlayerState | Drone | null = null;
+        let minDst = Infinity;
+        const enemies = getEnemies(p);
+        enemies.forEach(e => {
+            const d = Utils.dist(p.pos, e.pos);
+            if (d < minDst) {
+                minDst = d;
+                nearest = e;
+            }
+        });
+        return nearest;
+    };
+
+    function createPlayer(type: CharacterType, pos: Vector2, id: string, teamId: number, isBot: boolean, difficulty?: AIDifficulty): PlayerState {
+        const stats: any = CHAR_STATS[type];
+        const definition = getCharacter(type);
+
+        // 先确定外观 (魔法球的形态)，随机数的消耗顺序不能改变
+        const { color, uiThemeColor, magicForm } = definition?.createAppearance?.(random)
+            ?? { color: stats.color, uiThemeColor: stats.uiThemeColor, magicForm: undefined };
+
+        return {
+            id,
+            type,
+            teamId,
+            isBot,
+            pos,
+            vel: { x: 0, y: 0 },
+            radius: stats.radius,
+            isMechanical: !!definition?.isMechanical,
+            mass: stats.mass,
+            color: color,
+            uiThemeColor: uiThemeColor,
+
+            hp: stats.hp,
+            maxHp: stats.hp,
+
+            isDead: false,
+            matchEndTimer: 0,
+
+            // Pyro Fuel (replaces Heat)
+            fuel: stats.maxFuel || 200,
+            maxFuel: stats.maxFuel || 200,
+            isBurnedOut: false,
+
+            // Tank
+            artilleryAmmo: stats.maxArtilleryAmmo || 5,
+            maxArtilleryAmmo: stats.maxArtilleryAmmo || 5,
+            artilleryReloadTimer: 0,
+
+            lmgAmmo: stats.maxLmgAmmo || 200,
+            maxLmgAmmo: stats.maxLmgAmmo || 200,
+            isReloadingLmg: false,
+            lmgReloadTimer: 0,
+
+            // Tank Drone
+            droneState: 'READY',
+            droneTimer: 0,
+            droneMaxTimer: 10,
+
+            // Wukong
+            wukongComboStep: 0,
+            wukongComboTimer: 0,
+            wukongChargeState: 'NONE',
+            wukongChargeTime: 0,
+            wukongMaxCharge: 1.0, // Default 1.0s normalization
+            wukongChargeHoldTimer: 0, // New: Limit holding time
+            wukongVaultTimer: 0,
+            wukongThrustTimer: 0,
+            isVaulting: false,
+            wukongLastAttackTime: -1000, // 模拟时钟从 0 开始，避免开局误播攻击动画
+            wukongLastAttackType: 'NONE',
+            wukongLastChargePct: 0,
+            wukongLastAttackAngle: 0,
+
+            // Cat
+            lives: stats.maxLives || 1, // 9 lives for cat
+            maxLives: stats.maxLives || 1,
+            invincibleTimer: 0,
+            catChargeStartTime: 0,
+            catIsCharging: false,
+            idleTimer: 0,
+            prevAimAngle: 0,
+            pounceCooldown: 0,
+            isPouncing: false,
+            pounceTimer: 0,
+            hasPounceHit: false,
+
+            angle: 0,
+            aimAngle: 0,
+            tankMode: TankMode.ARTILLERY,
+            siegeSwitchTimer: 0,
+            isFiringFlamethrower: false,
+            currentWeaponRange: stats.flamethrowerRange,
+            currentWeaponAngle: stats.flamethrowerAngle,
+            skillCooldown: 0,
+            skillMaxCooldown: stats.skillCooldown / 1000,
+            secondarySkillCooldown: 0,
+            secondarySkillMaxCooldown: (stats.secondarySkillCooldown || 5000) / 1000,
+            attackCooldown: 0,
+
+            // Status - Auto-initialized from STATUS_CONFIG
+            ...Object.fromEntries(
+                Object.entries(STATUS_CONFIG)
+                    .filter(([_, config]) => config.autoInit === true)
+                    .map(([_, config]) => [config.propName, config.initialValue])
+            ),
+            flameExposure: 0,
+
+            // Magic Ball
+            mp: stats.maxMp || 0,
+            maxMp: stats.maxMp || 0,
+            magicForm: magicForm,
+            magicShieldHp: 0,
+            magicShieldTimer: 0,
+            lightSpiritTimer: 0,
+            avadaCharging: false,
+            avadaChargeTime: 0,
+            // 《阿瓦达啃大瓜》(黑): 蓄力贯穿光束
+            avadaMaxDamage: 3500,      // 最大伤害(需低血量+高MP) - 提升上限
+            avadaMpDrainRate: 60,      // 蓄力时MP消耗速度/秒 (降低消耗，延长瞄准时间)
+            magicChargeTimer: 0,
+            ccImmuneTimer: 0,
+            apparitionPhase: 'NONE',
+            apparitionTimer: 0,
+
+            // AI defaults
+            lastPos: pos,
+            stuckTimer: 0,
+            unstuckTimer: 0,
+            unstuckDir: { x: 0, y: 0 },
+            burstTimer: 0,
+            bufferedInput: 'NONE',
+            statusHistory: [], // [New]
+
+            // AI Variance
+            aiDifficulty: isBot ? (difficulty || 'NORMAL') : undefined,
+            aiSeed: random(),
+            aiPreferredDistOffset: (random() - 0.5) * 100,
+            aiStrafeDir: random() < 0.5 ? 1 : -1,
+            aiStrafeTimer: 0,
+            aiChangeDistTimer: 0,
+            forcedMoveTimer: 0,
+        } as unknown as PlayerState;
+    }
+
+    // --- COMBAT LOGIC ---
+
+    // =====================================================
+    // [Unified Charge System] Helper Functions
+    // =====================================================
+
+    // Get the active charge state ID for a player (returns null if not charging)
+    const getActiveChargeId = (p: PlayerState): string | null => {
+        return getCharacter(p.type)?.getActiveCharge?.(p) ?? null;
+    };
+
+    // Get the charge config for a player's current charge state
+    const getActiveChargeConfig = (p: PlayerState) => {
+        const id = getActiveChargeId(p);
+        return id ? getChargeConfig(id) ?? null : null;
+    };
+
+    // Interrupt a specific charge state by ID
+    const interruptChargeById = (target: PlayerState, chargeId: string) => {
+        const config = getChargeConfig(chargeId);
+
+        if (config) {
+            // [State Reset] Apply reset properties
+            if (config.resetProperties) {
+                Object.entries(config.resetProperties).forEach(([key, value]) => {
+                    (target as any)[key] = value;
+                });
+            }
+
+            // [Interrupt Penalty] Apply 50% cooldown penalty
+            if (config.cooldownProperty && config.maxCooldown) {
+                const currentCd = (target as any)[config.cooldownProperty] || 0;
+                const penalty = config.maxCooldown * 0.5;
+                // Only apply penalty if current CD is less than the penalty
+                if (currentCd < penalty) {
+                    (target as any)[config.cooldownProperty] = penalty;
+                }
+            }
+        }
+    };
+
+    // [Tenacity System] Calculate total resistance to CC and Knockback
+    const getTenacity = (target: PlayerState) => {
+        let kbRes = 0;
+        let ccRes = 0;
+
+        // 1. Base Stats (Passive)
+        // [Refined] Check for instance-specific tenacity (for future-proof summons)
+        if ((target as any).baseTenacity) {
+            kbRes += (target as any).baseTenacity.knockbackResistance || 0;
+            ccRes += (target as any).baseTenacity.ccResistance || 0;
+        } else if (target.type && CHAR_STATS[target.type]) {
+            const stats = CHAR_STATS[target.type] as any;
+            if (stats.baseTenacity) {
+                kbRes += stats.baseTenacity.knockbackResistance || 0;
+                ccRes += stats.baseTenacity.ccResistance || 0;
+            }
+        }
+
+        // 2. Charge State (Temporary)
+        const chargeConfig = getActiveChargeConfig(target);
+        if (chargeConfig?.tenacity) {
+            kbRes += chargeConfig.tenacity.knockbackResistance || 0;
+            ccRes += chargeConfig.tenacity.ccResistance || 0;
+        }
+
+        // 3. Skills / Buffs (Dynamic)
+
+        // Magic Shield: Immovable Object (100% Res)
+        if ((target.magicShieldHp || 0) > 0) {
+            kbRes += 1.0;
+            ccRes += 1.0;
+        }
+
+        // Invincible: Immunity to negative effects
+        if ((target.invincibleTimer || 0) > 0) {
+            ccRes += 1.0;
+        }
+
+        // Hard CC Immunity (Patronus, etc.)
+        if (hasCcImmunity(target)) {
+            ccRes += 1.0;
+        }
+
+        return {
+            knockbackResistance: Math.min(1.0, kbRes),
+            ccResistance: Math.min(1.0, ccRes)
+        };
+    };
+
+    // Uses the character's charge states to determine if the charge can be interrupted
+    const interruptAction = (target: PlayerState) => {
+        const chargeId = getActiveChargeId(target);
+        if (!chargeId) return;
+
+        const config = getChargeConfig(chargeId);
+        if (config && config.rules.canBeInterrupted) {
+            interruptChargeById(target, chargeId);
+        }
+    };
+
+    // [New] Centralized Magma Interaction Helper
+    // Handles both Magma Pools (Skill) and Environmental Lava (Terrain), collectively "Magma"
+    const handleMagmaInteraction = (p: PlayerState, dt: number, sourceId?: string) => {
+        // [New] Stacking Protection: Only process once per frame per player
+        if ((p as any).hasProcessedMagma) return;
+        (p as any).hasProcessedMagma = true;
+
+        // 1. Pyro Affinity Logic (Beneficial)
+        if (p.type === CharacterType.PYRO) {
+            // Heal
+            const healRate = CHAR_STATS[CharacterType.PYRO].magmaHealRate;
+            if (p.hp < p.maxHp) {
+                p.hp += healRate * dt;
+                applyStatus(p, 'heal', 0.5);
+            }
+
+            // Refuel 增加岩浆带来的额外燃料回复 (与其基础回复叠加)
+            const bonusFuel = CHAR_STATS[CharacterType.PYRO].fuelRegenMagma * dt;
+            p.fuel = Math.min(p.maxFuel, p.fuel + bonusFuel);
+
+
+            // Immunity is handled implicitly by NOT applying negative effects below
+            return;
+        }
+
+        // 2. Non-Pyro Logic (Harmful)
+        // A. Constant Damage
+        takeDamage(p, 10 * dt, CharacterType.ENVIRONMENT, DamageType.FIRE, 'MAGMA_TERRAIN');
+
+        // B. Apply Statuses
+        // Refreshed every frame while inside Magma
+        applyStatus(p, 'burn', 1.0, sourceId || 'LAVA');
+        applyStatus(p, 'slow', 1.0, sourceId || 'LAVA');
+
+        // Burst (Ignition effect) is only applied for Environmental Lava (Terrain)
+        // or during Magma Pool Detonation (handled in detonateMagmaPools)
+        if (!sourceId || sourceId === 'LAVA') {
+            applyStatus(p, 'burst', 0.1, 'LAVA');
+        }
+    };
+
+    const applyStatus = (target: PlayerState | Drone | any, type: string, duration: number, sourceId?: string, pos?: Vector2) => {
+        // [Tenacity System] Apply CC resistance
+        const config = STATUS_CONFIG[type];
+
+        let finalDuration = duration;
+
+        // Tenacity only applies to Negative statuses or CC
+        if (config && (config.nature === 'negative' || config.tags?.includes('hard_cc'))) {
+            const tenacity = getTenacity(target);
+            finalDuration *= (1 - tenacity.ccResistance);
+
+            // Full Immunity via Tenacity (>= 100%)
+            if (tenacity.ccResistance >= 1.0 && finalDuration <= 0) {
+            }
+        }
+
+        // 统一免疫检查 (Type Advantages + Legacy Checks)
+        const immunity = checkStatusImmunity(target, type);
+
+        // If immunity logic says immune OR Tenacity reduced duration to 0
+        if (immunity.isImmune || (finalDuration <= 0 && config?.nature === 'negative')) {
+            if (immunity.particleColor) {
+                spawnParticles(target.pos, 5, immunity.particleColor, 3, 0.3);
+            }
+            // Show label if explicitly immune OR if tenacity fully resisted
+            if (immunity.showLabel) {
+                target.statusLabel = 'floating.immune';
+            } else if (finalDuration <= 0 && !immunity.isImmune) {
+                // If resisted solely by tenacity (and not caught by checkStatusImmunity), show "抵抗!"
+                target.statusLabel = 'floating.resist';
+                target.statusLabelColor = '#cbd5e1'; // Slate-300
+            }
+            return;
+        }
+
+        if (!target.statusHistory) target.statusHistory = [];
+
+        const idx = target.statusHistory.indexOf(type);
+        if (idx !== -1) {
+            target.statusHistory.splice(idx, 1);
+        }
+        // Push to end (Latest)
+        target.statusHistory.push(type);
+
+        // Limit history size to prevent memory leak (though unlikely with finite statuses)
+        if (target.statusHistory.length > 20) {
+            target.statusHistory.shift();
+        }
+
+        // [Special] Revive: Clear all status effects first
+        if (type === 'revive' && 'type' in target) {
+            clearAllStatusEffects(target as PlayerState);
+        }
+
+        // Apply
+        if (config) {
+            const propKey = config.propName;
+            if (typeof (target as any)[propKey] === 'boolean') {
+                // Special handling for revive: isDead should be set to false, not true
+                (target as any)[propKey] = (type === 'revive') ? false : true;
+            } else {
+                (target as any)[propKey] = Math.max((target as any)[propKey] || 0, finalDuration);
+            }
+
+            // [New] Use statusQueue instead of single statusLabel
+            if (STATUS_CONFIG[type]) {
+                const item = {
+                    text: STATUS_CONFIG[type].labels[0],
+                    color: STATUS_CONFIG[type].color,
+                    pos: pos
+                };
+
+                // [New] Categorize statuses: Behavior inducing ones should be immediate
+                const immediateStatuses = ['fear', 'charm', 'taunt'];
+                const isImmediateStatus = immediateStatuses.includes(type);
+
+                // [New] If in forced movement AND not an immediate status, buffer it
+                if ((target.forcedMoveTimer || 0) > 0 && !isImmediateStatus) {
+                    if (!target.pendingStatusQueue) target.pendingStatusQueue = [];
+                    target.pendingStatusQueue.push(item);
+                } else {
+                    if (!target.statusQueue) target.statusQueue = [];
+                    target.statusQueue.push(item);
+                }
+            }
+        }
+        if (type === 'taunt' && sourceId) {
+            target.tauntSourceId = sourceId;
+        }
+        if (type === 'burn' && sourceId) {
+            target.burnSourceId = sourceId;
+        }
+
+        // [New] Burst Status Logic
+        if (type === 'burst') {
+            target.flameExposure = 100;
+            target.burstFlag = true;
+        }
+
+        // [New] Wet Status Logic (Cleansing)
+        if (type === 'wet') {
+            const hasFire = (target.burnTimer > 0) || ((target.flameExposure || 0) > 0) || target.type === CharacterType.PYRO;
+
+            // 1. Extinguish Burn
+            if (target.burnTimer > 0) {
+                target.burnTimer = 0;
+            }
+            // 2. Wake up from Sleep
+            if (target.sleepTimer > 0) {
+                target.sleepTimer = 0;
+                target.statusLabel = 'floating.wakeUp';
+            }
+            // 3. Wash off Flame Exposure
+            if (target.flameExposure > 0) {
+                target.flameExposure = 0;
+            }
+
+            // [New] Elegant Steam Sizzle Visual & Sound
+            if (hasFire) {
+                const count = 20;
+                for (let i = 0; i < count; i++) {
+                    const angle = random() * Math.PI * 2;
+                    const dist = random() * target.radius;
+                    state.particles.push({
+                        id: random().toString(),
+                        pos: {
+                            x: target.pos.x + Math.cos(angle) * dist,
+                            y: target.pos.y + Math.sin(angle) * dist
+                        },
+                        vel: {
+                            x: (random() - 0.5) * 4,
+                            y: -3 - random() * 5, // Strong upward burst
+                        },
+                        life: 0.6 + random() * 0.6,
+                        maxLife: 1.2,
+                        color: 'rgba(241, 245, 249, 0.75)', // Elegant steam white
+                        size: 6 + random() * 12, // Large soft particles
+                        drag: 0.91, // High air resistance for "soft" dissipation
+                    });
+                }
+                audio.playSkill('MAGMA_LAND'); // Sizzle/Splash sound
+            }
+        }
+
+
+        // Generic Interrupt Logic: Status effects with 'interrupt' tag break charging/channeling
+        if (config?.tags?.includes('interrupt')) {
+            interruptAction(target);
+        }
+    };
+
+    const handleCatHiss = (p: PlayerState) => {
+        if (!canUseSecondarySkill(p)) return;
+        if (p.secondarySkillCooldown > 0) return;
+        const stats = CHAR_STATS[CharacterType.CAT];
+        p.secondarySkillCooldown = stats.hissCooldown / 1000;
+
+        audio.playSkill('SWITCH');
+
+        const isLastLife = (p.lives || 0) <= 1;
+        const range = stats.hissRadius; // 250 (Constants)
+        const force = stats.hissKnockback;
+
+        // --- Visuals ---
+        if (isLastLife) {
+            // 绝境模式：威慑特效 (深紫色/黑色波纹) 
+            state.particles.push({
+                id: random().toString(), pos: p.pos, vel: { x: 0, y: 0 },
+                life: 0.6, maxLife: 0.6, color: '#a855f7', size: range, drag: 0.9 // Purple-500 Ring
+            });
+            state.particles.push({ // Second Ring
+                id: random().toString(), pos: p.pos, vel: { x: 0, y: 0 },
+                life: 0.4, maxLife: 0.4, color: '#c084fc', size: range * 0.7, drag: 0.9
+            });
+            // 恐惧骷髅头粒子
+            for (let i = 0; i < 8; i++) {
+                const a = (i / 8) * Math.PI * 2;
+                state.particles.push({
+                    id: random().toString(), pos: p.pos,
+                    vel: { x: Math.cos(a) * 12, y: Math.sin(a) * 12 }, // Faster particles
+                    life: 0.8, maxLife: 0.8, color: '#1f2937', size: 6
+                });
+            }
+        } else {
+            // 卖萌模式：可爱特效 (粉色/爱心波纹) 
+            state.particles.push({
+                id: random().toString(), pos: p.pos, vel: { x: 0, y: 0 },
+                life: 0.5, maxLife: 0.5, color: '#f472b6', size: range, drag: 0.9 // Pink-400 Ring
+            });
+            state.particles.push({ // Inner Ring
+                id: random().toString(), pos: p.pos, vel: { x: 0, y: 0 },
+                life: 0.3, maxLife: 0.3, color: '#fbcfe8', size: range * 0.6, drag: 0.9
+            });
+            // 爱心粒子 (模拟)
+            for (let i = 0; i < 12; i++) {
+                const a = (i / 12) * Math.PI * 2;
+                state.particles.push({
+                    id: random().toString(), pos: p.pos,
+                    vel: { x: Math.cos(a) * 8, y: Math.sin(a) * 8 },
+                    life: 0.6, maxLife: 0.6, color: '#ec4899', size: 5
+                });
+            }
+        }
+
+        // --- Logic ---
+        const enemies = getEnemies(p);
+
+        enemies.forEach(e => {
+            const dist = Utils.dist(p.pos, e.pos);
+            if (dist < range + e.radius) {
+                // Hiss Logic refactored to use applyStatus
+                const dir = Utils.normalize(Utils.sub(e.pos, p.pos));
+                applyKnockback(e, dir, force);
+                interruptAction(e); // Hiss interrupts
+
+                // 哈气效果 - applyStatus 内部会自动调用 interruptAction 打断蓄力
+                if (isLastLife) {
+                    applyStatus(e, 'fear', 2.5);
+                } else {
+                    applyStatus(e, 'charm', 1.5);
+                    if (!isMechanical(e) && (e.magicShieldHp || 0) <= 0) e.statusLabel = 'status.cuteOverload';
+                }
+            }
+        });
+
+        // Deflect Projectiles (Common)
+        state.projectiles.forEach(proj => {
+            if (proj.ownerId !== p.id && Utils.dist(p.pos, proj.pos) < range) {
+                const dir = Utils.normalize(Utils.sub(proj.pos, p.pos));
+                proj.vel = Utils.mult(dir, Utils.mag(proj.vel) * 1.5);
+                proj.ownerId = p.id;
+            }
+        });
+    };
+
+    const handleCatPounce = (p: PlayerState, chargeTime: number) => {
+        // 控制状态下禁止飞扑
+        if (isControlled(p)) return;
+        if (p.disarmTimer > 0) return; // 缴械禁止普攻类技能
+        const stats = CHAR_STATS[CharacterType.CAT];
+
+        if (p.pounceCooldown > 0) {
+            return;
+        }
+
+        const chargePct = Math.min(1, chargeTime / stats.pounceMaxCharge);
+
+        const speed = stats.pounceSpeed * (0.5 + 0.5 * chargePct);
+        const dir = { x: Math.cos(p.aimAngle), y: Math.sin(p.aimAngle) };
+
+        // Launch
+        p.vel = Utils.add(p.vel, Utils.mult(dir, speed * 60 * 0.9)); // Impulse
+
+        p.isPouncing = true;
+        p.pounceTimer = 0.6;
+        p.hasPounceHit = false; // 重置攻击判定
+        p.pounceCooldown = stats.pounceCooldown / 1500;
+
+        audio.playSkill('CHARGE_START');
+        spawnParticles(p.pos, 10, '#fef3c7', 5);
+
+    };
+
+    const handleCatScooper = (p: PlayerState) => {
+        if (!canUseUltimate(p)) return;
+        const stats = CHAR_STATS[CharacterType.CAT];
+        p.skillCooldown = stats.skillCooldown / 1000;
+
+        // 获取所有敌人
+        // [Modified] 优先寻找非猫猫球敌人；如果没有，则将猫猫球也纳入目标（只为了播放动画，虽然不造成伤害）
+        let enemies = getEnemies(p).filter(e => e.type !== CharacterType.CAT && !e.isDead);
+        if (enemies.length === 0) {
+            enemies = getEnemies(p).filter(e => !e.isDead);
+        }
+
+        let enemy: any = null;
+        let minDist = Infinity;
+        enemies.forEach(e => {
+            const d = Utils.dist(p.pos, e.pos);
+            if (d < minDist) {
+                minDist = d;
+                enemy = e;
+            }
+        });
+
+        // 查找最近的敌方无人机 (即使没有找到敌方玩家，也尝试找无人机)
+        let closestDrone: any = null;
+        let minDroneDist = Infinity;
+        state.drones.forEach(d => {
+            if (d.ownerId !== p.id && d.hp > 0 && !d.isDocked) {
+                const dDist = Utils.dist(p.pos, d.pos);
+                if (dDist < minDroneDist) {
+                    minDroneDist = dDist;
+                    closestDrone = d;
+                }
+            }
+        });
+
+        // 如果既没有敌人也没有无人机，才直接返回
+        if (!enemy && !closestDrone) return;
+
+        let target: any = null;
+
+        // 如果没有找到敌方玩家但找到了无人机，直接锁定无人机
+        if (!enemy && closestDrone) {
+            target = closestDrone;
+        } else if (enemy) {
+            // 2. 判断敌人是否在屏幕内 (以施法者为中心的逻辑视野，不读取客户端相机)
+            const halfW = SIM_CONFIG.VIEW_SIZE.width / 2;
+            const halfH = SIM_CONFIG.VIEW_SIZE.height / 2;
+            const isEnemyOnScreen = !enemy.isDead &&
+                Math.abs(enemy.pos.x - p.pos.x) <= halfW &&
+                Math.abs(enemy.pos.y - p.pos.y) <= halfH;
+
+            const distToEnemy = Utils.dist(p.pos, enemy.pos);
+
+            // 3. 索敌逻辑：
+            // 优先级 A: 敌人已死 -> 找无人机
+            // 优先级 B: 无人机比敌人更近 且 敌人不在屏幕内 -> 找无人机
+            // 否则 -> 找敌人
+            if (enemy.isDead) {
+                if (closestDrone) target = closestDrone;
+            } else {
+                if (closestDrone && minDroneDist < distToEnemy && !isEnemyOnScreen) {
+                    target = closestDrone;
+                } else {
+                    target = enemy;
+                }
+            }
+        }
+
+        if (!target) return; // Should not happen if enemy or closestDrone exists
+
+        // [距离限制逻辑]
+        let spawnPos = { ...target.pos };
+        const dist = Utils.dist(p.pos, target.pos);
+        const maxRange = stats.scoopMaxRange || 600;
+
+        if (dist > maxRange) {
+            const dir = Utils.normalize(Utils.sub(target.pos, p.pos));
+            spawnPos = Utils.add(p.pos, Utils.mult(dir, maxRange));
+        }
+
+        state.groundEffects.push({
+            id: random().toString(),
+            pos: spawnPos,
+            radius: stats.scoopRadius,
+            life: stats.scoopDelay / 1000,
+            maxLife: stats.scoopDelay / 1000,
+            type: 'SCOOPER_WARNING',
+            ownerId: p.id,
+            targetId: target.id
+        });
+
+        audio.playSkill('SCOOPER_WARNING');
+    };
+
+    // 猫猫球抓挠的爪痕特效 (覆盖整个扇形)
+    const spawnScratchVisual = (p: PlayerState, side: number) => {
+        // side: 1 (Right Claw -> Swipes CW), -1 (Left Claw -> Swipes CCW)
+        const stats = CHAR_STATS[CharacterType.CAT];
+        const centerAngle = p.aimAngle;
+        const baseDist = p.radius + stats.scratchRange * 0.5;
+
+        // Generate 3 "Claw Marks"
+        for (let k = -1; k <= 1; k++) {
+            const clawDist = baseDist + k * 8;
+
+            const arcLen = 1.4;
+            const particlesCount = 12;
+
+            for (let i = 0; i < particlesCount; i++) {
+                const progress = i / particlesCount;
+                // Direction Logic: CW vs CCW swipe
+                const angleOffset = (progress - 0.5) * arcLen * side;
+
+                const a = centerAngle + angleOffset;
+
+                const pos = Utils.add(p.pos, {
+                    x: Math.cos(a) * clawDist,
+                    y: Math.sin(a) * clawDist
+                });
+
+                state.particles.push({
+                    id: random().toString(),
+                    pos: pos,
+                    vel: {
+                        x: Math.cos(a + Math.PI / 2 * side) * 3,
+                        y: Math.sin(a + Math.PI / 2 * side) * 3
+                    },
+                    life: 0.15, maxLife: 0.15,
+                    color: '#f472b6',
+                    size: 0.8 + random() * 2
+                });
+            }
+        }
+    };
+
+    const handleCatScratch = (p: PlayerState) => {
+        // 控制状态下禁止抓挠
+        if (isControlled(p)) return;
+        if (p.disarmTimer > 0) return;
+        if (p.attackCooldown > 0) return;
+        if (p.isPouncing) return;
+        const stats = CHAR_STATS[CharacterType.CAT];
+        p.attackCooldown = stats.scratchCooldown / 1000;
+
+        audio.playShot('SCRATCH');
+
+        // 设置AI猫猫球普攻额外冷却时间
+        const cdMultiplier = !p.isBot ? 1.0 : 1.3;
+        p.attackCooldown = (stats.scratchCooldown / 1000) * cdMultiplier;
+
+        // Sequence: Right Swipe -> Left Swipe (第二下由模拟时钟延时触发)
+        spawnScratchVisual(p, 1);
+        state.pendingActions.push({ type: 'CAT_SCRATCH_ECHO', ownerId: p.id, triggerTime: simNow() + 200 });
+
+        // Hit Logic - [友军伤害] 攻击所有目标，包括友军
+        const potentialTargets = getAllAttackTargets(p);
+
+        potentialTargets.forEach(target => {
+            const toTarget = Utils.sub(target.pos, p.pos);
+            const dist = Utils.mag(toTarget);
+
+            if (dist < stats.scratchRange + target.radius) {
+                const angleToTarget = Math.atan2(toTarget.y, toTarget.x);
+                let angleDiff = Math.abs(angleToTarget - p.aimAngle);
+                angleDiff = Math.atan2(Math.sin(angleDiff), Math.cos(angleDiff));
+
+                if (Math.abs(angleDiff) < stats.scratchHalfAngle) {
+                    if ('isSummon' in target) {
+                        target.hp -= stats.scratchDamage;
+                        spawnParticles(target.pos, 5, '#6ee7b7', 4);
+                        if (target.hp <= 0) killEntity(target, p.id);
+                    } else {
+                        // Hitstun
+                        target.vel = { x: 0, y: 0 };
+                        applyStatus(target, 'slow', 0.2, p.id);
+                        takeDamage(target, stats.scratchDamage, CharacterType.CAT, DamageType.PHYSICAL, 'CAT_SCRATCH', p.id);
+                        spawnParticles(target.pos, 8, '#f0abfc', 4);
+                    }
+                    audio.playHit();
+                }
+            }
+        });
+    };
+
+    // --- MAGIC BALL COMBAT LOGIC ---
+
+    // 左键普攻 - 发射随机诅咒
+    const handleMagicCurse = (p: PlayerState, targetPos: Vector2) => {
+        if (p.disarmTimer > 0) return;
+        if (p.attackCooldown > 0) return;
+
+        const stats = CHAR_STATS[CharacterType.MAGIC];
+
+        // Dynamic Mana Cost Calculation
+        const rampFactor = Math.min(1, (p.magicChargeTimer || 0) / stats.curseRampUpTime);
+        const currentCost = stats.curseManaCost + (stats.curseManaMaxCost - stats.curseManaCost) * rampFactor;
+
+        if ((p.mp || 0) < currentCost) return;
+
+        p.mp! -= currentCost;
+        p.attackCooldown = stats.curseCooldown / 1000;
+
+
+        // 发射咒语飞弹
+        const wandLength = 32; // Sync with render logic
+        const dir = Utils.normalize(Utils.sub(targetPos, p.pos));
+        const isWhite = p.magicForm === 'WHITE';
+
+        // Origin at wand tip
+        const spawnPos = Utils.add(p.pos, Utils.mult(dir, p.radius + wandLength));
+
+        // [Modified] Pick Status Effect at CAST time
+        const allDebuffs = Object.keys(STATUS_CONFIG).filter(k =>
+            STATUS_CONFIG[k].nature === 'negative' && k !== 'disarm'
+        );
+        const statusType = allDebuffs[Math.floor(random() * allDebuffs.length)];
+
+        state.projectiles.push({
+            id: random().toString(),
+            ownerId: p.id,
+            pos: spawnPos,
+            vel: Utils.mult(dir, stats.curseSpeed),
+            radius: 6,
+            mass: 1,
+            color: isWhite ? '#fef08a' : '#22c55e',
+            damage: 0,
+            projectileType: 'MAGIC_SPELL',
+            life: stats.curseRange / (stats.curseSpeed * 60),
+            maxLife: stats.curseRange / (stats.curseSpeed * 60),
+            statusType: statusType, // [New] Store status
+
+            // [New] Check if spawning inside a wall AND caster is also inside (to prevent shooting through walls from outside)
+            spawnedInsideWall: state.obstacles.some(obs =>
+                (obs.type === 'WALL' || obs.type === 'WATER') &&
+                Utils.checkCircleRectCollision(p.pos, p.radius * 0.5, obs).collided // Caster body (safer 0.5r check)
+            ) && state.obstacles.some(obs =>
+                (obs.type === 'WALL' || obs.type === 'WATER') &&
+                Utils.checkCircleRectCollision(spawnPos, 6, obs).collided
+            )
+        });
+
+        audio.playShot('MAGIC');
+
+    };
+
+    // 计算最安全位置（用于移形换影）
+    const calculateSafestPosition = (p: PlayerState): Vector2 => {
+        const enemies = getEnemies(p);
+
+        // Sampling points: Grid based approach for whole map coverage
+        const points: Vector2[] = [];
+        const step = 200; // Grid resolution
+        const margin = 100;
+
+        // 1. Grid Points
+        for (let x = margin; x < MAP_SIZE.width - margin; x += step) {
+            for (let y = margin; y < MAP_SIZE.height - margin; y += step) {
+                points.push({ x, y });
+            }
+        }
+
+        // 2. Add some random points for variance
+        for (let i = 0; i < 20; i++) {
+            points.push({
+                x: margin + random() * (MAP_SIZE.width - 2 * margin),
+                y: margin + random() * (MAP_SIZE.height - 2 * margin)
+            });
+        }
+
+        let bestPos = p.pos;
+        let bestScore = -Infinity;
+
+        // [Unified] Get all danger zones
+        const dangerZones = getDangerZones(p, state);
+
+        points.forEach(pt => {
+            // 1. Check Hard Constraints (Walls, Map Bounds)
+            // [Modified] Water is now handled in DangerZones with Weights
+            const isInsideWall = state.obstacles.some(obs =>
+                obs.type === 'WALL' &&
+                pt.x > obs.x && pt.x < obs.x + obs.width &&
+                pt.y > obs.y && pt.y < obs.y + obs.height
+            );
+
+            const wallAffinity = getHazardAffinity(p.type).WALL;
+            if (isInsideWall && wallAffinity >= 0) return;
+
+            // 2. Check Map Bounds
+            if (pt.x < margin || pt.x > MAP_SIZE.width - margin || pt.y < margin || pt.y > MAP_SIZE.height - margin) return;
+
+            // 3. Score Calculation
+            let score = 0;
+
+            // Hazard Scoring (Unified)
+            dangerZones.forEach(zone => {
+                const { inside } = getPointDangerInfo(pt, zone);
+                if (inside) {
+                    const weight = zone.weight ?? 1.0;
+                    if (weight > 0) {
+                        score -= 5000 * weight; // Heavy penalty
+                    } else if (weight < 0) {
+                        score += 500 * Math.abs(weight); // Bonus for "safe" spots
+                    }
+                }
+            });
+
+            // Factor A: Distance from Start (Farther is better for escape, but give it a cap)
+            const distFromStart = Utils.dist(p.pos, pt);
+            // [Modified] Slightly reduced weight to avoid over-prioritizing distance
+            score += Math.min(distFromStart, 600) * 1.0;
+
+            // Factor B: Enemy Safety
+            if (enemies.length > 0) {
+                let minEnemyDist = Infinity;
+                let nearbyEnemyCount = 0;
+
+                enemies.forEach(e => {
+                    const d = Utils.dist(pt, e.pos);
+                    if (d < minEnemyDist) minEnemyDist = d;
+                    if (d < 400) nearbyEnemyCount++; // Danger radius
+                });
+
+                // [Modified] Reward being far from the nearest enemy, but CAP it.
+                score += Math.min(minEnemyDist, 1000) * 2.0;
+
+                // Penalize being close to ANY enemy (Safety threshold)
+                if (minEnemyDist < 300) {
+                    score -= 5000; // Heavy penalty for landing near enemy
+                }
+
+                // Penalize density of enemies
+                score -= nearbyEnemyCount * 1000;
+            } else {
+                // If no enemies, just maximize distance from start slightly more
+                score += Math.min(distFromStart, 1000) * 2.0;
+            }
+
+            // [New] Add Random Noise to avoid deterministic "perfect" spots every time
+            score += random() * 300;
+
+            if (score > bestScore) {
+                bestScore = score;
+                bestPos = pt;
+            }
+        });
+
+        return bestPos;
+    };
+
+    // 右键技能 - 随机保命咒语
+    const handleMagicProtection = (p: PlayerState) => {
+        if (p.secondarySkillCooldown > 0) return;
+
+        const stats = CHAR_STATS[CharacterType.MAGIC];
+
+        // 基于权重随机选择保护咒语 (0: Expelliarmus, 1: Armor, 2: Blink)
+        const weights = (stats as any).protectionSpellWeights || [1, 1, 1];
+        const totalWeight = weights.reduce((sum: number, w: number) => sum + w, 0);
+        const rand = random() * totalWeight;
+        let spell = 0;
+        let cumulative = 0;
+        for (let i = 0; i < weights.length; i++) {
+            cumulative += weights[i];
+            if (rand < cumulative) {
+                spell = i;
+                break;
+            }
+        }
+
+        if (spell === 0) {
+            // 《除你武器》
+            if (!canUseSecondarySkill(p)) return;
+            // Cost: 100 MP
+            if ((p.mp || 0) < stats.expelliarmusManaCost!) {
+                audio.playUI('ERROR');
+                return; // Fizzle if not enough mana
+            }
+
+            p.mp! -= stats.expelliarmusManaCost!;
+
+            // 自动瞄准最近敌人
+            const nearest = getNearestEnemy(p);
+            let targetPos = Utils.add(p.pos, { x: Math.cos(p.aimAngle) * 100, y: Math.sin(p.aimAngle) * 100 });
+
+            if (nearest) {
+                // Instant face
+                const aimAngle = Math.atan2(nearest.pos.y - p.pos.y, nearest.pos.x - p.pos.x);
+                p.aimAngle = aimAngle;
+                p.aimLockTimer = 0.3; // Lock aim for 0.3s to show wand turn
+                targetPos = nearest.pos;
+            }
+
+            // Fire Projectile
+            const dir = Utils.normalize(Utils.sub(targetPos, p.pos));
+            state.projectiles.push({
+                id: random().toString(),
+                ownerId: p.id,
+                pos: Utils.add(p.pos, Utils.mult(dir, p.radius + 15)),
+                vel: Utils.mult(dir, stats.curseSpeed), // Use curse speed
+                radius: 8,
+                mass: 5,
+                color: p.magicForm === 'WHITE' ? '#fef08a' : '#22c55e',
+                projectileType: 'EXPELLIARMUS',
+                life: 1.5,
+                maxLife: 1.5,
+                damage: 0, // No damage, just disarm
+            });
+
+            audio.playShot('MAGIC');
+            p.statusLabel = MAGIC_SPELL_LINES.disarm;
+            p.statusLabelColor = p.magicForm === 'WHITE' ? '#fef08a' : '#22c55e';
+            // 瞬间进入CD
+            const expelliarmusCD = stats.expelliarmusCooldown / 1000;
+            p.secondarySkillCooldown = expelliarmusCD;
+            p.secondarySkillMaxCooldown = expelliarmusCD;
+        }
+        else if (spell === 1) {
+            // 《盔甲护身》- 护盾
+            if (!canUseSecondarySkill(p)) return;
+            // Cost: 100 MP
+            if ((p.mp || 0) < stats.armorManaCost) {
+                audio.playUI('ERROR');
+                return;
+            }
+
+            // Prevent recasting while shield is active
+            if ((p.magicShieldHp || 0) > 0) return;
+
+            p.mp! -= stats.armorManaCost;
+
+            p.magicShieldHp = stats.armorShieldHp;
+            p.magicShieldTimer = stats.armorDuration / 1000;
+            p.magicShieldDamageLevel = 0; // [New] Reset damage level
+            p.statusLabel = MAGIC_SPELL_LINES.armor;
+            p.statusLabelColor = p.magicForm === 'WHITE' ? '#fef08a' : '#22c55e';
+
+            // Visuals & Sound
+            spawnParticles(p.pos, 15, '#c0c0c0', 5, 0.8);
+            audio.playSkill('SHIELD_ACTIVATE');
+
+            // [New] Knockback nearby units on activation
+            const shieldR = p.radius + MAGIC_SHIELD_EXTRA_RADIUS;
+            getEnemies(p).forEach(enemy => {
+                if (enemy.isDead) return;
+                const diff = Utils.sub(enemy.pos, p.pos);
+                const d = Utils.mag(diff);
+                const minDist = shieldR + enemy.radius;
+                if (d < minDist) {
+                    // [Fix] One-way position resolution: Move enemy only, caster stays static
+                    const dir = d > 0 ? Utils.normalize(diff) : { x: 1, y: 0 };
+                    enemy.pos = Utils.add(p.pos, Utils.mult(dir, minDist + 1));
+
+                    const knockbackForce = 4; // Use the lower force requested by user
+                    applyKnockback(enemy, p.pos, knockbackForce);
+                    interruptAction(enemy); // Magic Shield impact interrupts
+                }
+            });
+        }
+        else {
+            // 《移形换影》- 解除控制+闪现 (带动画)
+            // 不检查 canUseSecondarySkill，只检查沉默
+            if (p.silenceTimer > 0) return;
+            // 如果已经在传送动画中，不允许重复施放
+            if (p.apparitionPhase && p.apparitionPhase !== 'NONE') return;
+
+            // Cost: 100 MP
+            const cost = (stats as any).blinkManaCost || 100;
+
+            if ((p.mp || 0) < cost) {
+                audio.playUI('ERROR');
+                return;
+            }
+            p.mp! -= cost;
+
+            // 计算最安全位置
+            const safePos = calculateSafestPosition(p);
+
+            // 启动消失阶段动画
+            p.apparitionPhase = 'DISAPPEARING';
+            p.apparitionTimer = 0.5;  // 消失阶段持续0.5秒
+            p.apparitionStartPos = { ...p.pos };
+            p.apparitionEndPos = safePos;
+
+            // 立即进入CD
+            const blinkCD = (stats as any).blinkCooldown / 1000;
+            p.secondarySkillCooldown = blinkCD;
+            p.secondarySkillMaxCooldown = blinkCD;
+
+            // 播放音效
+            audio.playSkill('BLINK');
+
+            p.statusLabel = MAGIC_SPELL_LINES.blink;
+            p.statusLabelColor = p.magicForm === 'WHITE' ? '#fef08a' : '#22c55e';
+        }
+    };
+
+    // 大招技能
+    const handleMagicUltimate = (p: PlayerState, dt: number) => {
+        if (p.skillCooldown > 0) return;
+
+        const stats = CHAR_STATS[CharacterType.MAGIC];
+
+        if (p.magicForm === 'WHITE') {
+            // 《呼神护卫》- 白魔法球 (解控技能，只检查沉默，不检查控制状态)
+            if (p.silenceTimer > 0) return;
+
+            const mpSpent = p.mp || 0;
+            if (mpSpent < 50) return; // 至少需要50 MP
+            p.mp = 0;
+            p.skillCooldown = stats.skillCooldown / 1000;
+
+            // [New] Calculate Power Ratio
+            const powerRatio = mpSpent / 100;
+
+            // 三道银白色冲击波 + 击退
+            const waveCount = 3;
+            for (let wave = 0; wave < waveCount; wave++) {
+                state.groundEffects.push({
+                    id: random().toString(),
+                    pos: { ...p.pos },
+                    radius: 50, // Start small
+                    life: 0.5 + wave * 0.2, // Stagger lifetimes so they expand one after another roughly
+                    maxLife: 0.5 + wave * 0.2,
+                    type: 'PATRONUS_WAVE',
+                    ownerId: p.id,
+                    hitTargets: [], // Initialize hit tracking
+                    powerRatio: powerRatio // [New] Pass scaling
+                });
+            }
+
+            // 召唤光灵球守护神实体
+            const spiritDuration = stats.lightSpiritDuration / 1000;
+            state.lightSpirits.push({
+                id: random().toString(),
+                ownerId: p.id,
+                pos: { ...p.pos },
+                vel: { x: 0, y: 0 },
+                life: spiritDuration,
+                maxLife: spiritDuration,
+                radius: stats.lightSpiritRadius,
+                orbitAngle: 0,
+                state: 'ORBITING',
+                cooldown: 0,
+                hitTargets: [],
+                powerRatio: powerRatio, // [New] 伤害/效果加成比例
+            });
+
+            p.lightSpiritTimer = spiritDuration;
+            p.lightSpiritPowerRatio = powerRatio; // [New] Store ratio for healing scaling
+            p.ccImmuneTimer = spiritDuration;
+            p.statusLabel = MAGIC_SPELL_LINES.patronus;
+
+            // 屏幕震动
+            state.screenShakeTimer = 0.5;
+            state.screenShakeIntensity = 300;
+
+            // 爆发银白色粒子效果
+            spawnParticles(p.pos, 30, '#f8fafc', 8, 0.8);
+
+        } else {
+            // 《阿瓦达啃大瓜》- 黑魔法球（蓄力版）
+            // 这不是解控技能，需要检查控制和沉默状态
+            if (!canUseUltimate(p)) return;
+
+            // Start or Continue Charging
+            if (!p.avadaCharging) {
+                // Init Charge
+                const mpSpent = p.mp || 0;
+                if (mpSpent < 10) return; // Min MP to start
+
+                p.avadaCharging = true;
+                p.avadaChargeTime = 0;
+
+                // [Bullet Time] & [Filter] - Now handled globally in update loop
+                audio.playSkill('CHARGE_START');
+            }
+
+            // Charging Logic (Per Frame)
+            const drainRate = stats.avadaMpDrainRate; // 80 MP/s
+
+            // [Fix] Calculate Real Delta Time to ensure consistent charging speed
+            const currentTimeScale = state.timeScale || 1;
+            const realDt = (currentTimeScale > 0.001) ? dt / currentTimeScale : 0.016;
+
+            p.mp = Math.max(0, (p.mp || 0) - drainRate * realDt);
+            p.avadaChargeTime = (p.avadaChargeTime || 0) + realDt;
+
+            // Force release if out of MP
+            if (p.mp <= 0) {
+                releaseAvada(p);
+            }
+        }
+    };
+
+    const releaseAvada = (p: PlayerState) => {
+        if (!p.avadaCharging) return;
+
+        const stats = CHAR_STATS[CharacterType.MAGIC];
+
+        // Capture state before reset
+        const remainingMp = p.mp || 0;
+
+        // Reset State
+        p.avadaCharging = false;
+        p.avadaChargeTime = 0;
+        // timeScale and globalFilter are reset automatically by the global loop check
+
+        // [Spell Line] Display after charging complete
+        p.statusLabel = MAGIC_SPELL_LINES.avada;
+        p.statusLabelColor = '#22c55e';
+
+        // Consume all remaining MP
+        p.mp = 0;
+
+        // Calculate Total Fuel (Only Remaining MP counts)
+        const totalFuel = remainingMp;
+
+        // Damage Calculation
+        const hpRatio = p.hp / p.maxHp;
+        const baseDamage = 50 + totalFuel * (2.5 - hpRatio) * 3.5; // 提升伤害系数 2.0 -> 3.5
+        const damage = Math.min(baseDamage, stats.avadaMaxDamage);
+
+        // ALWAYS Apply Cooldown (Prevent loop)
+        p.skillCooldown = stats.skillCooldown / 1000;
+
+        // Calculate Scale Factor (0.0 - 1.0) based on damage output
+        const powerRatio = Math.max(0.1, damage / stats.avadaMaxDamage);
+
+        // Visuals: Green Beam
+        const dir = { x: Math.cos(p.aimAngle), y: Math.sin(p.aimAngle) };
+        const wandLength = 32;
+        const visualStartPos = Utils.add(p.pos, Utils.mult(dir, p.radius + wandLength));
+
+        // Raycast logic - Use center of player to avoid blind spot at very close range
+        const calcStartPos = p.pos;
+
+        // Raycast
+        const enemies = getEnemies(p);
+
+        // Screen Shake
+        state.screenShakeTimer = 0.8;
+        state.screenShakeIntensity = 500;
+
+        // Sound
+        audio.playSkill('AVADA_KEDAVRA');
+
+        // Hit Logic
+        enemies.forEach(enemy => {
+            // Line-Circle Intersection
+            const toEnemy = Utils.sub(enemy.pos, calcStartPos);
+            const proj = Utils.dot(toEnemy, dir);
+            if (proj < 0) return;
+
+            const closest = Utils.add(calcStartPos, Utils.mult(dir, proj));
+            const dist = Utils.dist(enemy.pos, closest);
+
+            if (dist < enemy.radius + 20) {
+                // HIT
+                takeDamage(enemy, damage, CharacterType.MAGIC, DamageType.MAGIC, 'MAGIC_AVADA', p.id);
+                spawnParticles(enemy.pos, 30, '#22c55e', 8, 1.0);
+
+                // Knockback (Increased for dramatic effect)
+                applyKnockback(enemy, dir, 600);
+            }
+        });
+
+        // Beam Render Object (Animation)
+        state.groundEffects.push({
+            id: random().toString(),
+            pos: visualStartPos, // Use visual start pos
+            radius: 20, // Used for start width
+            life: 0.5,
+            maxLife: 0.5,
+            type: 'AVADA_BEAM',
+            ownerId: p.id,
+            length: 2000,
+            width: 20 + 130 * powerRatio, // Significantly increased range (20 -> 150)
+            rotation: p.aimAngle,
+            powerRatio: powerRatio // Controls opacity
+        });
+    };
+
+    const deployDrone = (p: PlayerState) => {
+        if (!canUseSecondarySkill(p)) return;
+        const stats = CHAR_STATS[CharacterType.TANK];
+        // Generate in front of tank
+        const dronePos = Utils.add(p.pos, { x: Math.cos(p.angle) * 50, y: Math.sin(p.angle) * 50 });
+
+        const drone: Drone = {
+            id: random().toString(),
+            ownerId: p.id,
+            pos: dronePos,
+            vel: { x: 0, y: 0 },
+            hp: stats.droneHp,
+            maxHp: stats.droneHp,
+            life: stats.droneLife,
+            maxLife: stats.droneLife,
+            radius: stats.droneRadius,
+            mass: 50,
+            color: '#34d399',
+            state: 'PATROL',
+            attackCooldown: 0,
+            patrolAngle: 0,
+            isSummon: true,
+            isMechanical: true, // Explicitly mark Tank Drone as mechanical
+            isDocked: false
+        };
+
+        state.drones.push(drone);
+        p.droneState = 'DEPLOYED';
+        p.activeDroneId = drone.id;
+        audio.playSkill('SWITCH');
+    };
+
+    const updateDrones = (state: GameState, dt: number) => {
+        state.drones = state.drones.filter(d => d.hp > 0 && !d.isDocked);
+
+        state.drones.forEach(d => {
+            const owner = state.players.find(p => p.id === d.ownerId);
+            if (!owner) return;
+            const enemyPlayer = getNearestEnemy(owner);
+
+            // 1. Life/Battery drain
+            d.life -= dt * 1000;
+            if (d.life <= 0) {
+                d.state = 'RETURN'; // Out of battery, return
+            }
+
+            // 2. Return Logic
+            if (d.state === 'RETURN') {
+                const toOwner = Utils.sub(owner.pos, d.pos);
+                const dist = Utils.mag(toOwner);
+                if (dist < owner.radius + d.radius) {
+                    // Docked
+                    d.isDocked = true; // Mark for removal
+                    owner.droneState = 'CHARGING';
+                    owner.droneTimer = 0;
+                    owner.droneMaxTimer = CHAR_STATS[CharacterType.TANK].droneRechargeTime / 1000;
+                } else {
+                    // Move to owner
+                    const moveDir = Utils.normalize(toOwner);
+                    const speed = CHAR_STATS[CharacterType.TANK].droneSpeed * 1.5; // Return faster
+                    d.pos = Utils.add(d.pos, Utils.mult(moveDir, speed * 60 * dt));
+                }
+            } else {
+                // 3. Combat & Patrol
+                const stats = CHAR_STATS[CharacterType.TANK];
+
+                // Target Selection: Hostile Player > Hostile Drone
+                let target: { pos: Vector2, isDead?: boolean, radius: number } | null = null;
+
+                // If enemy is within Aggro Range but outside Attack Range, track them.
+                const distToEnemy = enemyPlayer ? Utils.dist(d.pos, enemyPlayer.pos) : 99999;
+                const aggroRange = stats.droneAggroRange || 1500;
+
+                if (enemyPlayer && !('isDead' in enemyPlayer && enemyPlayer.isDead) && distToEnemy < aggroRange) {
+                    target = enemyPlayer;
+                } else {
+                    // Check enemy drones
+                    let closestEnemyDrone: Drone | null = null;
+                    let minDroneDist = 99999;
+                    state.drones.forEach(other => {
+                        if (other.ownerId !== d.ownerId && other.hp > 0 && !other.isDocked) {
+                            const dst = Utils.dist(d.pos, other.pos);
+                            if (dst < minDroneDist && dst < aggroRange) {
+                                minDroneDist = dst;
+                                closestEnemyDrone = other;
+                            }
+                        }
+                    });
+                    if (closestEnemyDrone) {
+                        target = {
+                            pos: (closestEnemyDrone as Drone).pos,
+                            isDead: false,
+                            radius: (closestEnemyDrone as Drone).radius
+                        };
+                    }
+                }
+
+                const distToTarget = target ? Utils.dist(d.pos, target.pos) : 9999;
+
+                // Attack Phase if within Aggro
+                if (target && !target.isDead && distToTarget < aggroRange) {
+                    d.state = 'ATTACK';
+                    const toTarget = Utils.sub(target.pos, d.pos);
+                    const dir = Utils.normalize(toTarget);
+
+                    // Movement Logic:
+                    // 1. If far > Attack Range: Chase
+                    // 2. If close < Attack Range * 0.3: Retreat
+                    // 3. If in optimal range: Strafe
+                    if (distToTarget > stats.droneAttackRange) {
+                        // Chase phase
+                        d.pos = Utils.add(d.pos, Utils.mult(dir, stats.droneSpeed * 60 * dt));
+                    } else if (distToTarget < stats.droneAttackRange * 0.3) {
+                        // Retreat phase
+                        d.pos = Utils.sub(d.pos, Utils.mult(dir, stats.droneSpeed * 60 * dt));
+                    } else {
+                        // Combat Strafe
+                        const perp = { x: -dir.y, y: dir.x };
+                        d.pos = Utils.add(d.pos, Utils.mult(perp, stats.droneSpeed * 0.5 * 60 * dt));
+                    }
+
+                    // Fire check (Only if within attack range)
+                    d.attackCooldown -= dt;
+                    if (d.attackCooldown <= 0 && distToTarget <= stats.droneAttackRange) {
+                        fireDroneShot(d, target.pos);
+                        d.attackCooldown = 0.2;
+                    }
+
+                } else {
+                    // --- PATROL MODE ---
+                    d.state = 'PATROL';
+                    // Orbit owner
+                    d.patrolAngle += dt * 2;
+                    const offsetX = Math.cos(d.patrolAngle) * stats.dronePatrolRadius;
+                    const offsetY = Math.sin(d.patrolAngle) * stats.dronePatrolRadius;
+                    const targetPos = Utils.add(owner.pos, { x: offsetX, y: offsetY });
+
+                    // Move smoothly to patrol point
+                    const toPoint = Utils.sub(targetPos, d.pos);
+                    const dist = Utils.mag(toPoint);
+                    if (dist > 10) {
+                        const moveDir = Utils.normalize(toPoint);
+                        d.pos = Utils.add(d.pos, Utils.mult(moveDir, stats.droneSpeed * 60 * dt));
+                    }
+                }
+            }
+
+            // Clamp to map
+            d.pos.x = Utils.clamp(d.pos.x, 20, MAP_SIZE.width - 20);
+            d.pos.y = Utils.clamp(d.pos.y, 20, MAP_SIZE.height - 20);
+        });
+    };
+
+    const fireDroneShot = (drone: Drone, targetPos: Vector2) => {
+        const dir = Utils.normalize(Utils.sub(targetPos, drone.pos));
+        // Light spread
+        const angle = Math.atan2(dir.y, dir.x) + (random() - 0.5) * 0.1;
+        const vel = { x: Math.cos(angle) * 15, y: Math.sin(angle) * 15 };
+
+        state.projectiles.push({
+            id: random().toString(),
+            ownerId: drone.ownerId,
+            pos: drone.pos,
+            vel: vel,
+            radius: 3,
+            mass: 1,
+            color: '#6ee7b7',
+            damage: CHAR_STATS[CharacterType.TANK].droneDamage,
+            projectileType: 'DRONE_SHOT', // Special type
+            life: 1.0, maxLife: 1.0
+        });
+
+        // Throttled sound
+        if (simNow() - lastDroneSoundTime > 200) {
+            audio.playShot('LMG');
+            lastDroneSoundTime = simNow();
+        }
+    };
+
+    // 光灵球守护神更新逻辑
+    const updateLightSpirits = (state: GameState, dt: number) => {
+        const stats = CHAR_STATS[CharacterType.MAGIC];
+
+        // 过滤已过期的光灵球
+        state.lightSpirits = state.lightSpirits.filter(spirit => spirit.life > 0);
+
+        state.lightSpirits.forEach(spirit => {
+            spirit.life -= dt;
+            spirit.cooldown = Math.max(0, spirit.cooldown - dt);
+
+            const owner = state.players.find(p => p.id === spirit.ownerId);
+            if (!owner || owner.isDead) {
+                spirit.life = 0; // 主人死亡，光灵球消散
+                return;
+            }
+
+            // 获取主人的敌人
+            const enemies = getEnemies(owner);
+
+            if (spirit.state === 'ORBITING') {
+                // 环绕主人
+                spirit.orbitAngle += stats.lightSpiritOrbitSpeed * dt;
+                const targetPos = {
+                    x: owner.pos.x + Math.cos(spirit.orbitAngle) * stats.lightSpiritOrbitRadius,
+                    y: owner.pos.y + Math.sin(spirit.orbitAngle) * stats.lightSpiritOrbitRadius
+                };
+
+                // 平滑移动到目标位置
+                const toTarget = Utils.sub(targetPos, spirit.pos);
+                const dist = Utils.mag(toTarget);
+                if (dist > 5) {
+                    const moveSpeed = Math.min(dist, stats.lightSpiritSpeed * 60 * dt);
+                    spirit.pos = Utils.add(spirit.pos, Utils.mult(Utils.normalize(toTarget), moveSpeed));
+                } else {
+                    spirit.pos = targetPos;
+                }
+
+                // 检测是否有敌人接近，触发冲撞
+                if (spirit.cooldown <= 0) {
+                    let closestEnemy: any = null;
+                    let closestDist = Infinity;
+
+                    enemies.forEach(enemy => {
+                        if (enemy.isDead) return;
+                        const d = Utils.dist(owner.pos, enemy.pos);
+                        if (d < stats.lightSpiritChargeRange && d < closestDist) {
+                            closestDist = d;
+                            closestEnemy = enemy;
+                        }
+                    });
+
+                    if (closestEnemy) {
+                        // 开始冲撞
+                        spirit.state = 'CHARGING';
+                        spirit.targetId = closestEnemy.id;
+                        spirit.chargeStartPos = { ...spirit.pos };
+                        // 冲撞终点：穿过敌人后再飞一段距离
+                        const dirToEnemy = Utils.normalize(Utils.sub(closestEnemy.pos, spirit.pos));
+                        spirit.chargeEndPos = Utils.add(closestEnemy.pos, Utils.mult(dirToEnemy, 80));
+                        spirit.chargeProgress = 0;
+                        spirit.hitTargets = [];
+                    }
+                }
+
+            } else if (spirit.state === 'CHARGING') {
+                // 极快冲撞
+                spirit.chargeProgress = (spirit.chargeProgress || 0) + dt * 4; // 0.25秒完成冲撞
+
+                if (spirit.chargeProgress >= 1) {
+                    // 冲撞完成，开始返回
+                    spirit.state = 'RETURNING';
+                    spirit.chargeProgress = 1;
+                } else {
+                    // 插值移动
+                    const startPos = spirit.chargeStartPos!;
+                    const endPos = spirit.chargeEndPos!;
+                    spirit.pos = {
+                        x: startPos.x + (endPos.x - startPos.x) * spirit.chargeProgress,
+                        y: startPos.y + (endPos.y - startPos.y) * spirit.chargeProgress
+                    };
+
+                    // 碰撞检测：击退路径上的敌人
+                    enemies.forEach(enemy => {
+                        if (enemy.isDead) return;
+                        if (spirit.hitTargets.includes(enemy.id)) return; // 已击中过
+
+                        const dist = Utils.dist(spirit.pos, enemy.pos);
+                        if (dist < spirit.radius + (enemy.radius || 25)) {
+                            // 命中！击退敌人
+                            spirit.hitTargets.push(enemy.id);
+                            const knockbackDir = Utils.normalize(Utils.sub(enemy.pos, spirit.pos));
+
+                            if ('isSummon' in enemy) {
+                                // 对召唤物的处理
+                                const pushDist = 50;
+                                enemy.pos = Utils.add(enemy.pos, Utils.mult(knockbackDir, pushDist));
+                                // [New] Apply Damage scaling with powerRatio
+                                const damage = stats.lightSpiritDamage * (spirit.powerRatio || 1);
+                                (enemy as any).hp -= damage;
+                                if ((enemy as any).hp <= 0) killEntity(enemy, spirit.ownerId);
+                            } else {
+                                // 对玩家的击退与伤害
+                                applyKnockback(enemy, knockbackDir, stats.lightSpiritChargeKnockback);
+                                interruptAction(enemy); // Light Spirit hit interrupts
+
+                                // [New] Apply Damage scaling with powerRatio
+                                const damage = stats.lightSpiritDamage * (spirit.powerRatio || 1);
+                                takeDamage(enemy, damage, CharacterType.MAGIC, DamageType.MAGIC, 'MAGIC_LIGHT_SPIRIT', spirit.ownerId);
+                            }
+
+                            // 视觉效果
+                            spawnParticles(enemy.pos, 10, '#f8fafc', 5, 0.4);
+                            audio.playHit();
+                        }
+                    });
+                }
+
+            } else if (spirit.state === 'RETURNING') {
+                // 返回主人身边
+                const toOwner = Utils.sub(owner.pos, spirit.pos);
+                const dist = Utils.mag(toOwner);
+
+                if (dist < stats.lightSpiritOrbitRadius + 10) {
+                    // 到达主人身边，回到环绕状态
+                    spirit.state = 'ORBITING';
+                    spirit.cooldown = stats.lightSpiritChargeCooldown;
+                    spirit.orbitAngle = Math.atan2(spirit.pos.y - owner.pos.y, spirit.pos.x - owner.pos.x);
+                } else {
+                    // 快速返回
+                    const moveSpeed = stats.lightSpiritReturnSpeed * 60 * dt;
+                    spirit.pos = Utils.add(spirit.pos, Utils.mult(Utils.normalize(toOwner), moveSpeed));
+                }
+            }
+
+            // 生成拖尾粒子
+            if (random() < 0.5) {
+                state.particles.push({
+                    id: random().toString(),
+                    pos: { ...spirit.pos },
+                    vel: {
+                        x: (random() - 0.5) * 2,
+                        y: (random() - 0.5) * 2
+                    },
+                    life: 0.3,
+                    maxLife: 0.3,
+                    color: spirit.state === 'CHARGING' ? '#fef08a' : '#f8fafc',
+                    size: 4 + random() * 3,
+                });
+            }
+        });
+    };
+
+    const triggerMagmaPoolExplosion = (g: GroundEffect, owner: PlayerState) => {
+        // Visuals
+        spawnParticles(g.pos, 25, '#f97316', 8, 0.6);
+        state.particles.push({
+            id: random().toString(),
+            pos: g.pos,
+            vel: { x: 0, y: 0 },
+            life: 0.2, maxLife: 0.2,
+            color: 'rgba(255, 100, 0, 0.4)',
+            size: 200
+        });
+
+        // Damage
+        const enemies = getEnemies(owner);
+
+        enemies.forEach(t => {
+            const dist = Utils.dist(g.pos, t.pos);
+            if (dist < 200 + t.radius) { // Explosion Radius
+                // 区分目标类型：无人机 vs 玩家
+                if ('isSummon' in t) {
+                    // --- 针对无人机的逻辑 ---
+                    t.hp -= 250; // 对轻型单位造成巨额伤害
+
+                    // 简单的推开效果 (无人机质量轻，不用物理引擎计算)
+                    const dir = Utils.normalize(Utils.sub(t.pos, g.pos));
+                    t.pos = Utils.add(t.pos, Utils.mult(dir, 100));
+
+                    spawnParticles(t.pos, 10, '#f97316', 5);
+
+                    if (t.hp <= 0) {
+                        killEntity(t, owner.id); // [新增] 使用统一的击杀函数
+                    }
+                } else {
+                    // --- 针对玩家的逻辑 ---
+                    takeDamage(t, 150, CharacterType.PYRO, DamageType.FIRE, 'PYRO_MAGMA_POOL', owner.id);
+
+                    // 物理击退
+                    const dir = Utils.normalize(Utils.sub(t.pos, g.pos));
+                    applyKnockback(t, dir, 800);
+                    interruptAction(t); // Pyro Magama Explosion interrupts
+
+                    // 使用统一的 applyStatus 处理爆燃 (视觉+机制)
+                    applyStatus(t, 'burst', 0, owner.id);
+
+                    // 附加状态 (灼烧 - 仅限非火焰球)
+                    if (t.type !== CharacterType.PYRO) {
+                        applyStatus(t, 'burn', 5.0, owner.id);
+                    }
+                }
+            }
+        });
+    };
+
+    const detonateMagmaPools = (p: PlayerState) => {
+        if (p.silenceTimer > 0) return;
+        let anyMarked = false;
+
+        state.groundEffects.forEach(g => {
+            if (g.type === 'MAGMA_POOL' && !g.isPendingDetonation) {
+                g.isPendingDetonation = true;
+                g.detonationTimer = 0.3;
+                anyMarked = true;
+            }
+        });
+
+        if (anyMarked) {
+            audio.playSkill('MAGMA_IGNITE');
+        }
+    };
+
+    const handleWukongCombo = (p: PlayerState) => {
+        if (p.disarmTimer > 0) return;
+        if (p.attackCooldown > 0 || p.wukongChargeState !== 'NONE') return;
+
+        const stats = CHAR_STATS[CharacterType.WUKONG];
+
+        // Visuals & Logic
+        p.wukongLastAttackTime = simNow();
+        p.wukongLastAttackAngle = p.aimAngle; // Store attack direction
+
+        if (p.wukongComboStep === 0) p.wukongLastAttackType = 'COMBO_1';
+        else if (p.wukongComboStep === 1) p.wukongLastAttackType = 'COMBO_2';
+        else p.wukongLastAttackType = 'COMBO_SMASH'; // Distinct from SKILL_SMASH
+
+        const damage = stats.comboDamage[p.wukongComboStep];
+        const knockback = stats.comboKnockback[p.wukongComboStep];
+
+        const hitRange = stats.comboRange[p.wukongComboStep];
+        const hitArc = stats.comboArc[p.wukongComboStep];
+        let knockbackDir = { x: Math.cos(p.aimAngle), y: Math.sin(p.aimAngle) };
+
+        if (p.wukongComboStep === 2) {
+            // Smash (3rd hit)
+            audio.playSkill('SMASH_HIT');
+            spawnParticles(Utils.add(p.pos, Utils.mult(knockbackDir, 100)), 20, stats.color, 8, 0.4);
+        } else {
+            audio.playShot('SWING');
+        }
+
+        // Hit Detection
+        const potentialTargets = getEnemies(p);
+
+        potentialTargets.forEach(target => {
+            const toTarget = Utils.sub(target.pos, p.pos);
+            const dist = Utils.mag(toTarget);
+            if (dist < hitRange + target.radius) {
+                const angleToTarget = Math.atan2(toTarget.y, toTarget.x);
+                let angleDiff = Math.abs(angleToTarget - p.aimAngle);
+                angleDiff = Math.atan2(Math.sin(angleDiff), Math.cos(angleDiff));
+
+                if (Math.abs(angleDiff) < hitArc / 2) {
+                    // HIT
+                    if ('isSummon' in target) {
+                        // Damage Drone
+                        target.hp -= damage;
+                        spawnParticles(target.pos, 5, '#6ee7b7', 4);
+                        // Drones are too light for big knockback, destroy or push
+                        const pushDir = Utils.normalize(toTarget);
+                        target.pos = Utils.add(target.pos, Utils.mult(pushDir, knockback * 0.1));
+
+                        if (target.hp <= 0) killEntity(target, p.id);
+                    } else {
+                        // Damage Player
+                        takeDamage(target, damage, CharacterType.WUKONG, DamageType.PHYSICAL, 'WUKONG_COMBO', p.id);
+                        applyKnockback(target, knockbackDir, knockback);
+                        interruptAction(target); // Wukong Combo interrupts
+                        spawnParticles(target.pos, 5, stats.color, 4);
+                    }
+                    audio.playHit();
+                }
+            }
+        });
+
+        // Advance Combo
+        p.wukongComboStep = (p.wukongComboStep + 1) % 3;
+        p.wukongComboTimer = stats.comboWindow;
+        p.attackCooldown = p.wukongComboStep === 0 ? 0.6 : 0.4;
+    };
+
+    const releaseWukongThrust = (p: PlayerState) => {
+        const chargePct = Math.min(1, p.wukongChargeTime / p.wukongMaxCharge);
+        const stats = CHAR_STATS[CharacterType.WUKONG];
+        const damage = stats.thrustMinDmg + (stats.thrustMaxDmg - stats.thrustMinDmg) * chargePct;
+        const range = 100 + (stats.thrustMaxRange - 100) * chargePct;
+
+        p.wukongChargeState = 'NONE';
+        p.wukongChargeTime = 0;
+        p.wukongThrustTimer = stats.thrustCooldown / 1000;
+
+        p.wukongLastAttackTime = simNow();
+        p.wukongLastAttackType = 'THRUST';
+        p.wukongLastChargePct = chargePct; // Store for render
+        p.wukongLastAttackAngle = p.aimAngle; // Store attack direction
+
+        audio.playSkill('THRUST');
+
+        const dir = { x: Math.cos(p.aimAngle), y: Math.sin(p.aimAngle) };
+
+        // Hit Detection - [友军伤害] 攻击所有目标
+        const potentialTargets = getAllAttackTargets(p);
+
+        potentialTargets.forEach(target => {
+            const toTarget = Utils.sub(target.pos, p.pos);
+            const dot = toTarget.x * dir.x + toTarget.y * dir.y;
+            const clampedDot = Utils.clamp(dot, 0, range);
+            const closestPoint = Utils.add(p.pos, Utils.mult(dir, clampedDot));
+            const distToLine = Utils.dist(target.pos, closestPoint);
+
+            if (distToLine < target.radius + 20) {
+                if ('isSummon' in target) {
+                    target.hp -= damage;
+                    spawnParticles(target.pos, 5, '#6ee7b7', 4);
+
+                    if (target.hp <= 0) killEntity(target, p.id);
+                } else {
+                    takeDamage(target, damage, CharacterType.WUKONG, DamageType.PHYSICAL, 'WUKONG_THRUST', p.id);
+                    applyKnockback(target, dir, 800 * (1 + chargePct));
+                    interruptAction(target); // Wukong Thrust interrupts
+                    spawnParticles(target.pos, 12, stats.color, 8);
+                    // 右键命中敌人飘字
+                    p.statusLabel = 'floating.wukongShout';
+                }
+                audio.playHit();
+            }
+        });
+    };
+
+    const releaseWukongSmash = (p: PlayerState) => {
+        // 1. Calculate stats based on charge
+        const chargePct = Math.min(1, p.wukongChargeTime / p.wukongMaxCharge);
+        const stats = CHAR_STATS[CharacterType.WUKONG];
+
+        const damage = stats.smashMinDmg + (stats.smashMaxDmg - stats.smashMinDmg) * chargePct;
+        const range = stats.smashMinRange + (stats.smashMaxRange - stats.smashMinRange) * chargePct;
+        const width = stats.smashWidthMin + (stats.smashWidthMax - stats.smashWidthMin) * chargePct;
+
+        // 2. Reset State
+        p.wukongChargeState = 'NONE';
+        p.wukongChargeTime = 0;
+        p.wukongChargeHoldTimer = 0;
+        p.skillCooldown = stats.skillCooldown / 1000;
+
+        // 3. Render State
+        p.wukongLastAttackTime = simNow();
+        p.wukongLastAttackType = 'SKILL_SMASH'; // Distinct type for Skill
+        p.wukongLastChargePct = chargePct;
+        p.wukongLastAttackAngle = p.aimAngle; // Store attack direction
+
+        audio.playSkill('SMASH_HIT');
+
+        const aimDir = { x: Math.cos(p.aimAngle), y: Math.sin(p.aimAngle) };
+        const startPos = p.pos;
+        const endPos = Utils.add(startPos, Utils.mult(aimDir, range));
+
+        // 4. Terrain Destruction
+        state.obstacles = state.obstacles.filter(obs => {
+            if (obs.type === 'WATER' || obs.type === 'LAVA') return true;
+            const dist = Utils.distToSegment({ x: obs.x + obs.width / 2, y: obs.y + obs.height / 2 }, startPos, endPos);
+            const collisionDist = width / 2 + Math.max(obs.width, obs.height) / 2; // Approximate collision
+            if (dist < collisionDist) {
+                spawnParticles({ x: obs.x + obs.width / 2, y: obs.y + obs.height / 2 }, TERRAIN_CONFIG.WALL_SHATTER_PARTICLE_COUNT, TERRAIN_CONFIG.WALL_DEBRIS_COLOR, 12, 1.2);
+                return false; // Destroy wall
+            }
+            return true;
+        });
+
+        // 5. Ground Crack Visual
+        state.groundEffects.push({
+            id: random().toString(),
+            pos: Utils.add(startPos, Utils.mult(aimDir, range / 2)),
+            radius: 0, // Unused for crack
+            width: width,
+            length: range,
+            rotation: p.aimAngle,
+            life: 2.0,
+            maxLife: 2.0,
+            type: 'CRACK',
+            ownerId: p.id
+        });
+
+        // 5.5 shockwave ground effect
+        state.groundEffects.push({
+            id: random().toString(),
+            pos: { ...p.pos },
+            radius: range,
+            life: 0.8,
+            maxLife: 0.8,
+            type: 'WUKONG_SMASH',
+            ownerId: p.id
+        });
+
+        // 6. Hit Detection - Rectangle (Directional Segment)
+        const allTargets = state.players.filter(t => t.id !== p.id && !t.isDead);
+        const droneTargets = state.drones.filter(d => d.ownerId !== p.id && d.hp > 0);
+
+        let hitAnyPlayer = false;
+
+        // 处理玩家目标
+        allTargets.forEach(target => {
+            // 改为基于线段距离的判定，匹配长方形指示器，不再是圆形 AOE
+            const distToLine = Utils.distToSegment(target.pos, startPos, endPos);
+
+            // Collision: distToLine < (halfWidth + targetRadius)
+            const distToSource = Utils.dist(target.pos, p.pos);
+            if (distToLine < (width / 2 + target.radius + 10) && distToSource < range) {
+                // Directionality Check: Ensure target is not behind Wukong
+                const toTarget = Utils.sub(target.pos, p.pos);
+                const dot = toTarget.x * aimDir.x + toTarget.y * aimDir.y;
+                // Allow targets slightly behind the exact center point (since Wukong has a radius)
+                if (dot < -p.radius) return;
+
+                hitAnyPlayer = true;
+
+                // [友军伤害] 对所有命中的目标造成伤害
+                takeDamage(target, damage, CharacterType.WUKONG, DamageType.PHYSICAL, 'WUKONG_SMASH', p.id);
+
+                // 大幅增加击退效果 (以玩家为中心向外推)
+                const pushDir = Utils.normalize(Utils.sub(target.pos, p.pos));
+                // Use defined stats for knockback
+                const currentKnockback = stats.smashKnockbackMin + (stats.smashKnockbackMax - stats.smashKnockbackMin) * chargePct;
+                applyKnockback(target, pushDir, currentKnockback);
+                interruptAction(target); // Wukong Smash interrupts
+
+                // 眩晕所有命中的球
+                applyStatus(target, 'stun', 2.0);
+                applyStatus(target, 'slow', 2.5);
+
+
+                // [New] Set Wukong Ult Knockback state
+                target.wukongUltKnockbackCharge = chargePct;
+                target.wukongUltSourceDamage = damage;
+                target.wukongUltSourceId = p.id;
+
+                spawnParticles(target.pos, 15, stats.color, 10);
+                audio.playHit();
+            }
+        });
+
+        // 处理无人机目标
+        droneTargets.forEach(target => {
+            const distToLine = Utils.distToSegment(target.pos, startPos, endPos);
+            const distToSource = Utils.dist(target.pos, p.pos);
+
+            if (distToLine < (width / 2 + target.radius + 5) && distToSource < range) {
+                // Directionality Check
+                const toTarget = Utils.sub(target.pos, p.pos);
+                const dot = toTarget.x * aimDir.x + toTarget.y * aimDir.y;
+                if (dot < -p.radius) return;
+
+                target.hp -= damage;
+                spawnParticles(target.pos, 10, '#6ee7b7', 8);
+                if (target.hp <= 0) killEntity(target, p.id);
+                audio.playHit();
+            }
+        });
+
+        // 大招命中时随机飘字
+        if (hitAnyPlayer) {
+            const smashTaunts: MessageKey[] = [
+                'floating.wukongTaunt1',
+                'floating.wukongTaunt2',
+                'floating.wukongTaunt3'
+            ];
+            p.statusLabel = smashTaunts[Math.floor(random() * smashTaunts.length)];
+        }
+
+        // 7. Screen Shake - Trigger Shake State
+        state.screenShakeTimer = 0.5; // Shake for 0.5s
+        state.screenShakeIntensity = 500 * chargePct; // Intensity based on charge (Increased 10x)
+    };
+
+    const applyKnockback = (target: PlayerState, dir: Vector2, force: number) => {
+        // [Tenacity System] Apply knockback resistance (Base + State + Buffs)
+        const tenacity = getTenacity(target);
+        force *= (1 - tenacity.knockbackResistance);
+
+        // Fully immune to knockback (Atomic Object)
+        if (force <= 0) {
+            return;
+        }
+
+        const impulse = force * 2;
+        const dv = Utils.mult(dir, impulse / target.mass);
+        target.vel = Utils.add(target.vel, dv);
+
+        // Limit Max Speed (Cap speed to avoid physics glitches)
+        const currentSpeed = Math.sqrt(target.vel.x * target.vel.x + target.vel.y * target.vel.y);
+        const MAX_PHYSICS_SPEED = 30; // Hard cap
+        if (currentSpeed > MAX_PHYSICS_SPEED) {
+            target.vel = Utils.mult(Utils.normalize(target.vel), MAX_PHYSICS_SPEED);
+        }
+
+        target.forcedMoveTimer = 1.0;
+    };
+
+    const killEntity = (entity: any, killerId: string) => {
+        // 专门处理召唤物（无人机）的销毁逻辑
+        if ('isSummon' in entity) {
+            createExplosion(state, entity.pos, 40, 0, killerId);
+            // 找到无人机的主人，设置重建CD
+            const owner = state.players.find(p => p.id === entity.ownerId);
+            if (owner) {
+                owner.droneState = 'RECONSTRUCTING';
+                owner.droneTimer = 0;
+                owner.droneMaxTimer = CHAR_STATS[CharacterType.TANK].droneReconstructTime / 1000;
+            }
+            entity.hp = 0; // 确保血量归零
+        } else if (entity.hp > 0) {
+            // [Console] 玩家：血量归零后由死亡判定处理 (复活、九命与胜负)
+            entity.hp = 0;
+        }
+    };
+
+    // sourceId: 造成伤害的玩家 (环境伤害缺省)
+    const takeDamage = (p: PlayerState, amount: number, sourceType?: CharacterType, damageType: DamageType = DamageType.PHYSICAL, skill?: DamageSkill, sourceId?: string) => {
+        // Cat Invincibility
+        if (p.type === CharacterType.CAT && (p.invincibleTimer || 0) > 0) return;
+
+        let finalDmg = amount;
+
+        // Wukong Smash Charge Damage Reduction (50%)
+        if (p.type === CharacterType.WUKONG && p.wukongChargeState === 'SMASH') {
+            finalDmg *= 0.5;
+        }
+
+        // Petrify Damage Reduction (80%)
+        if ((p.petrifyTimer || 0) > 0) {
+            finalDmg *= 0.2;
+        }
+
+        // Sleep: Wake on damage
+        if ((p.sleepTimer || 0) > 0 && amount > 0) {
+            p.sleepTimer = 0;
+            p.statusLabel = 'floating.wakeUp';
+        }
+
+        if (p.type === CharacterType.CAT && sourceType === CharacterType.CAT) {
+
+            finalDmg *= 0.3; // 猫猫球内战只受到 30% 伤害
+        }
+
+        if (p.type === CharacterType.CAT && p.isPouncing) {
+            finalDmg *= 0.1;
+        }
+
+        // [New] Centralized Fire Damage Modifiers
+        if (damageType === DamageType.FIRE) {
+            // 1. Environmental: Water Resistance
+            if (p.isWet) {
+                finalDmg *= 0.5;
+            }
+
+            // 2. Status: Fire Vulnerability (flameExposure / burst)
+            const rampMult = 1 + ((p.flameExposure || 0) / 35);
+            finalDmg *= rampMult;
+
+            // 3. Character: Specific Resistances
+            if (p.type === CharacterType.PYRO) {
+                finalDmg *= 0.5; // Pyro Resistance (50% reduction)
+            } else if (p.type === CharacterType.WUKONG) {
+                finalDmg *= 0.7; // Wukong Resistance (30% reduction)
+            }
+        }
+
+        // [New] Water Damage Modifiers
+        if (damageType === DamageType.WATER) {
+            if (p.type === CharacterType.PYRO) {
+                finalDmg *= 1.5; // Pyro Vulnerability to Water (50% extra)
+            }
+        }
+
+
+        // --- Magic Shield Absorption ---
+        if ((p.magicShieldHp || 0) > 0 && finalDmg > 0) {
+            const stats = CHAR_STATS[CharacterType.MAGIC];
+            const maxShieldHp = stats.armorShieldHp;
+            const absorb = Math.min(finalDmg, p.magicShieldHp!);
+            // Shield absorbed damage
+            p.magicShieldHp! -= absorb;
+            finalDmg -= absorb; // Reduce remaining damage
+
+            // [New] Impact Feedback
+            p.magicShieldShakeTimer = 0.2;
+            const themeColor = p.magicForm === 'WHITE' ? '#fef08a' : '#22c55e';
+            spawnParticles(p.pos, 5, themeColor, 3, 0.4);
+
+            // [New] Progressive Crack Sound (at 80%, 60%, 40%, 20%)
+            const ratio = p.magicShieldHp! / maxShieldHp;
+            const newLevel = ratio <= 0.2 ? 4 : ratio <= 0.4 ? 3 : ratio <= 0.6 ? 2 : ratio <= 0.8 ? 1 : 0;
+            if (newLevel > (p.magicShieldDamageLevel || 0)) {
+                p.magicShieldDamageLevel = newLevel;
+                audio.playSkill('SHIELD_CRACK');
+            }
+
+            if (p.magicShieldHp! <= 0) {
+                p.magicShieldHp = 0;
+                p.magicShieldTimer = 0;
+                p.secondarySkillCooldown = stats.armorCooldown / 1000;
+                p.secondarySkillMaxCooldown = stats.armorCooldown / 1000;
+
+                // [New] Grand Shatter Effect (Glass Shards + Sound)
+                spawnShards(p.pos, 60, themeColor);
+                audio.playSkill('SHIELD_SHATTER');
+
+                spawnParticles(p.pos, 10, '#ffffff', 8, 1.2);
+            }
+        }
+
+        const hpBefore = p.hp;
+        p.hp -= finalDmg;
+        if (p.hp < 0) p.hp = 0;
+        if (options.onDamage && !resimulating && p.hp < hpBefore) {
+            options.onDamage({ targetId: p.id, sourceId, amount: hpBefore - p.hp, sourceType, damageType, skill });
+        }
+    };
+
+    // --- Main Loop ---
+
+    // 执行到期的延时动作 (替代 setTimeout，保证回放/联机时的确定性)
+    const updatePendingActions = () => {
+        const due = state.pendingActions.filter(a => a.triggerTime <= state.simTime);
+        if (due.length === 0) return;
+        state.pendingActions = state.pendingActions.filter(a => a.triggerTime > state.simTime);
+
+        due.forEach(action => {
+            const owner = state.players.find(p => p.id === action.ownerId);
+            if (!owner) return;
+
+            if (action.type === 'CAT_SCRATCH_ECHO') {
+                spawnScratchVisual(owner, -1);
+            } else if (action.type === 'AI_DETONATE_POOLS') {
+                if (!owner.isDead && state.groundEffects.some(g => g.type === 'MAGMA_POOL')) {
+                    abilityRunner.press(owner, AbilitySlot.SECONDARY, owner.pos);
+                }
+            }
+        });
+    };
+
+    const update = (deltaTime: number) => {
+        if ((state.screenShakeTimer || 0) > 0) {
+            state.screenShakeTimer! -= deltaTime;
+            if (state.screenShakeTimer! < 0) state.screenShakeTimer = 0;
+        }
+
+        // Allow physics/logic to run during VICTORY/DEFEAT for cool endings/spectating
+        if (state.gameStatus === 'PAUSED') return;
+
+        // [Sim Clock] 推进模拟时钟并触发到期的延时动作
+        state.simTime += deltaTime * 1000;
+        updatePendingActions();
+
+        // [New] Ambient Lava Bubbling (Boiling effect)
+        state.obstacles.filter(obs => obs.type === 'LAVA').forEach(lava => {
+            // Calculate bubble rate based on area (roughly)
+            const area = lava.width * lava.height;
+            const bubbleChance = Math.min(0.2, (area / 100000) * 0.1);
+            if (random() < bubbleChance + 0.02) {
+                const particlePos = {
+                    x: lava.x + random() * lava.width,
+                    y: lava.y + random() * lava.height
+                };
+                spawnParticles(particlePos, 1, '#ef4444', 0.5, 0.5);
+            }
+        });
+
+        // 1. [新增] 遍历所有玩家进行状态重置与死亡判定
+        state.players.forEach(entity => {
+            // [New] Reset per-frame flags for unification logic
+            (entity as any).hasProcessedMagma = false;
+
+            if (entity.hp <= 0 && !entity.isDead) {
+                // 教练球特殊复活 (训练场中所有人同样在出生点复活)
+                if (entity.type === CharacterType.COACH || entity.trainingHome) {
+                    createExplosion(state, entity.pos, 80, 0, 'system', true);
+                    entity.hp = entity.maxHp;
+                    entity.pos = entity.trainingHome ? { ...entity.trainingHome } : { x: MAP_SIZE.width / 2, y: MAP_SIZE.height / 2 };
+                    entity.vel = { x: 0, y: 0 };
+                    applyStatus(entity, 'revive', 0);
+                    entity.statusLabel = 'status.energized';
+                    return;
+                }
+                // 猫猫球九命机制
+                if (entity.type === CharacterType.CAT && (entity.lives || 0) > 1) {
+                    entity.lives = (entity.lives || 1) - 1;
+                    entity.hp = entity.maxHp;
+                    clearAllStatusEffects(entity);
+                    entity.invincibleTimer = 1.5;
+                    entity.pos = { x: random() * (MAP_SIZE.width - 400) + 200, y: random() * (MAP_SIZE.height - 400) + 200 };
+                    entity.vel = { x: 0, y: 0 };
+                    audio.playSkill('SWITCH');
+                    spawnParticles(entity.pos, 30, '#d1d5db', 8, 1.5);
+                    return;
+                }
+
+                // 真正死亡
+                entity.isDead = true;
+                if (entity.type === CharacterType.CAT) entity.lives = 0;
+                audio.playExplosion();
+                createExplosion(state, entity.pos, 80, 0, 'system', true);
+            }
+        });
+
+        // 2. [Modified] Victory/Defeat Logic
+        const human = getHumanPlayer();
+        const humanTeam = human.teamId;
+
+        // Count Alive Players by Team
+        const alivePlayers = state.players.filter(p => !p.isDead);
+        const aliveAllies = alivePlayers.filter(p => p.teamId === humanTeam);
+        const aliveEnemies = alivePlayers.filter(p => p.teamId !== humanTeam); // For FFA this is everyone else
+
+        // Game Over Conditions
+        let isGameOver = false;
+        let isVictory = false;
+        let winnerTeamId: number | null = null;
+
+        // Custom Mode Specific Logic
+        if (customConfig && customConfig.mode === 'FFA') {
+            // FFA: Game Ends when 1 or 0 survivors
+            if (alivePlayers.length <= 1) {
+                isGameOver = true;
+                isVictory = (!human.isDead); // Victory if I am the one survivor
+                winnerTeamId = alivePlayers.length === 1 ? alivePlayers[0].teamId : null;
+            }
+        } else {
+            // Team Modes: Game Ends when a team is wiped
+            if (aliveAllies.length === 0) {
+                isGameOver = true;
+                isVictory = false;
+                winnerTeamId = aliveEnemies.length > 0 ? aliveEnemies[0].teamId : null;
+            } else if (aliveEnemies.length === 0) {
+                isGameOver = true;
+                isVictory = true;
+                winnerTeamId = humanTeam;
+            }
+        }
+
+        // [Training] 训练场不结算 (清空靶子后也继续)
+        if (isGameOver && !state.training) {
+            // Delay showing the finish screen slightly
+            human.matchEndTimer += deltaTime;
+            if (human.matchEndTimer > 2.0 && state.gameStatus === 'PLAYING' && !options.serverAuthoritative) {
+                state.gameStatus = isVictory ? 'VICTORY' : 'DEFEAT';
+                state.winnerTeamId = winnerTeamId;
+                audio.playUI(isVictory ? 'VICTORY' : 'DEFEAT');
+            }
+        } else {
+            // Reset timer if condition cleared (unlikely but safe)
+            human.matchEndTimer = 0;
+        }
+
+        // 3. [新增] 驱动逻辑 (输入 或 AI)
+        // [Team] 先刷新各队黑板与指令，同队电脑玩家本帧读到的是同一份信息
+        updateTeamCommands(state, deltaTime);
+        updateTeamBlackboards(state, getEnemies, isControlled, deltaTime);
+        applyTrainingSettings(state);
+        state.players.forEach(p => {
+            if (p.isDead) return;
+            if (!p.isBot) {
+                const input = currentInputs[p.id] || NEUTRAL_INPUT;
+                handleInputEdges(p, input, prevInputs.get(p.id) || NEUTRAL_INPUT);
+                handlePlayerInput(p, input, deltaTime);
+            } else if (state.training) {
+                aiController.handleDummy(p, deltaTime, state.training.dummyMode === 'MOVING');
+            } else {
+                aiController.handleAI(p, deltaTime);
+            }
+        });
+
+        // 4. [新增] 物理运动循环 (Physics Loop)
+        // 替换原有的 [state.player, state.enemy].forEach(...) 和 Ball vs Ball 逻辑
+        for (let i = 0; i < state.players.length; i++) {
+            const p1 = state.players[i];
+            if (p1.isDead) continue;
+
+            // 移动与阻尼
+            const moveX = p1.vel.x * deltaTime * 60;
+            const moveY = p1.vel.y * deltaTime * 60;
+            if (Number.isFinite(moveX) && Number.isFinite(moveY)) {
+                p1.pos = Utils.add(p1.pos, { x: moveX, y: moveY });
+            }
+            p1.vel = Utils.mult(p1.vel, PHYSICS.FRICTION);
+
+            // [New] Cleanup Wukong Knockback State when slow
+            if (Utils.mag(p1.vel) < 50 && p1.wukongUltKnockbackCharge) {
+                p1.wukongUltKnockbackCharge = undefined;
+                p1.wukongUltSourceDamage = undefined;
+                p1.wukongUltSourceId = undefined;
+            }
+
+            // [New] Trigger pending status texts when forced movement ends or unit stops
+            if ((p1.pendingStatusQueue?.length || 0) > 0) {
+                // End condition: Timer expired OR Velocity low (Stopped)
+                const isTimerActive = (p1.forcedMoveTimer || 0) > 0;
+                const isMovingFast = Utils.mag(p1.vel) > 10.0;
+
+                if (!isTimerActive || !isMovingFast) {
+                    if (!p1.statusQueue) p1.statusQueue = [];
+                    if (p1.pendingStatusQueue) {
+                        p1.statusQueue.push(...p1.pendingStatusQueue);
+                        p1.pendingStatusQueue = [];
+                    }
+                }
+            }
+
+            // [Safety] Ensure pos is finite
+            if (!Number.isFinite(p1.pos.x)) p1.pos.x = MAP_SIZE.width / 2;
+            if (!Number.isFinite(p1.pos.y)) p1.pos.y = MAP_SIZE.height / 2;
+
+            // 边界限制
+            if (p1.pos.x < p1.radius) { p1.pos.x = p1.radius; p1.vel.x *= -0.5; }
+            if (p1.pos.y < p1.radius) { p1.pos.y = p1.radius; p1.vel.y *= -0.5; }
+            if (p1.pos.x > MAP_SIZE.width - p1.radius) { p1.pos.x = MAP_SIZE.width - p1.radius; p1.vel.x *= -0.5; }
+            if (p1.pos.y > MAP_SIZE.height - p1.radius) { p1.pos.y = MAP_SIZE.height - p1.radius; p1.vel.y *= -0.5; }
+
+            // 障碍物碰撞与地形判定 (Obstacles & Terrain Priority)
+            p1.isVaulting = false;
+
+            // [Pre-calc] Check if forced movement is active
+            const isForced = (p1.forcedMoveTimer || 0) > 0 ||
+                (p1.fearTimer || 0) > 0 ||
+                (p1.tauntTimer || 0) > 0 ||
+                (p1.charmTimer || 0) > 0;
+
+            // [Restored] Determine highest priority terrain currently standing on
+            const standingOnZones = state.obstacles.filter(obs => {
+                return p1.pos.x >= obs.x && p1.pos.x <= obs.x + obs.width &&
+                    p1.pos.y >= obs.y && p1.pos.y <= obs.y + obs.height;
+            });
+            const currentStandingPriority = standingOnZones.length > 0
+                ? Math.max(...standingOnZones.map(o => o.priority ?? 0))
+                : -1; // Not on any terrain
+
+            // 1. 物理阻挡 (刚体碰撞)
+            const activeCollisions: { obs: Obstacle, col: any, priority: number }[] = [];
+
+            state.obstacles.forEach(obs => {
+                // [修改] 地形碰撞逻辑
+                // Wukong 特性：两栖 (可以自由进出水域)
+                if (obs.type === 'WATER') {
+                    if (p1.type === CharacterType.WUKONG) return;
+
+                    // [New] Allow entering water if Forced OR already Wet (Sticky)
+                    // Allows smooth entry and prevents being popped out if deeply submerged
+                    if (isForced || p1.isWet) return;
+                }
+
+                // Lava Logic (Copy of Water)
+                if (obs.type === 'LAVA') {
+                    // Entry Rules Only - Interactions moved to Terrain Status Phase below
+                    if (p1.type === CharacterType.WUKONG || p1.type === CharacterType.PYRO) return;
+
+                    // Allow entering lava if Forced OR already Burning (Sticky)
+                    if (isForced || (p1.burnTimer > 0)) return;
+                }
+
+                // 默认：只有 WALL, WATER, LAVA 会产生物理碰撞 (其他类型忽略)
+                if (obs.type !== 'WALL' && obs.type !== 'WATER' && obs.type !== 'LAVA') return;
+
+                // Cat 特性：飞扑无视地形
+                if (p1.type === CharacterType.CAT && p1.isPouncing) return;
+
+                // [Restored] Priority skipping logic needed to allow movement ON walls/islands over water.
+                const obsPriority = obs.priority ?? 0;
+                if (obsPriority < currentStandingPriority) return;
+
+                const col = Utils.checkCircleRectCollision(p1.pos, p1.radius, obs);
+                if (col.collided) {
+                    activeCollisions.push({ obs, col, priority: obsPriority });
+                }
+            });
+
+            // 解决重叠冲突：仅处理最高优先级的碰撞覆盖 (例如：墙壁覆盖水域时，只算撞墙，不算入水)
+            if (activeCollisions.length > 0) {
+                // 找出最高优先级
+                const maxPriority = Math.max(...activeCollisions.map(c => c.priority));
+
+                // 仅处理该优先级的碰撞
+                activeCollisions.forEach(({ obs, col, priority }) => {
+                    // [Fix] Always process WATER collisions to prevent walking on water
+                    // even if touching a higher priority WALL
+                    if (priority < maxPriority && obs.type !== 'WATER' && obs.type !== 'LAVA') return;
+
+                    if (p1.type === CharacterType.WUKONG && obs.type === 'WALL') {
+                        // 悟空翻墙逻辑
+                        const isHorizontalHit = Math.abs(col.normal.x) > Math.abs(col.normal.y);
+                        const distanceToVault = isHorizontalHit ? obs.width : obs.height;
+                        if (distanceToVault < 130) {
+                            const distToLeft = p1.pos.x - obs.x;
+                            const distToRight = (obs.x + obs.width) - p1.pos.x;
+                            const distToTop = p1.pos.y - obs.y;
+                            const distToBottom = (obs.y + obs.height) - p1.pos.y;
+                            const minDist = Math.min(Math.abs(distToLeft), Math.abs(distToRight), Math.abs(distToTop), Math.abs(distToBottom));
+                            if (minDist < p1.radius) { p1.isVaulting = true; p1.vel = Utils.mult(p1.vel, 0.9); }
+                        } else {
+                            // 普通墙壁碰撞
+                            p1.pos = Utils.add(p1.pos, Utils.mult(col.normal, col.overlap));
+                            const dot = p1.vel.x * col.normal.x + p1.vel.y * col.normal.y;
+                            p1.vel = Utils.sub(p1.vel, Utils.mult(col.normal, 2 * dot));
+                        }
+                    } else {
+                        // 普通碰撞 (墙壁 or 水域)
+                        p1.pos = Utils.add(p1.pos, Utils.mult(col.normal, col.overlap));
+                        const dot = p1.vel.x * col.normal.x + p1.vel.y * col.normal.y;
+                        p1.vel = Utils.sub(p1.vel, Utils.mult(col.normal, 2 * dot));
+
+                        // [New] Wukong Ult Wall Collision Logic
+                        if (obs.type === 'WALL' && (p1.wukongUltKnockbackCharge || 0) >= 0.8) {
+                            const bonusDmg = (p1.wukongUltSourceDamage || 0) * 0.2;
+                            if (bonusDmg > 0) {
+                                takeDamage(p1, bonusDmg, CharacterType.WUKONG, DamageType.PHYSICAL, 'WUKONG_WALL_SLAM', p1.wukongUltSourceId);
+                                audio.playHit(); // Or a heavy impact sound
+                                spawnParticles(p1.pos, 20, TERRAIN_CONFIG.WALL_DEBRIS_COLOR, 8, 1);
+                            }
+
+                            // Destroy Wall
+                            state.obstacles = state.obstacles.filter(o => o.id !== obs.id);
+                            spawnParticles({ x: obs.x + obs.width / 2, y: obs.y + obs.height / 2 }, 40, TERRAIN_CONFIG.WALL_DEBRIS_COLOR, 15, 2);
+
+                            // Clear flag after impact to prevent multiple hits
+                            p1.wukongUltKnockbackCharge = undefined;
+                        }
+                    }
+                });
+            }
+
+            // 2. 环境状态判定 (基于优先级)
+            const coveringZones = state.obstacles.filter(obs => {
+                const padding = 0;
+                return p1.pos.x >= obs.x - padding && p1.pos.x <= obs.x + obs.width + padding &&
+                    p1.pos.y >= obs.y - padding && p1.pos.y <= obs.y + obs.height + padding;
+            });
+            // 按优先级降序排列
+            coveringZones.sort((a, b) => (b.priority || 0) - (a.priority || 0));
+            const topTerrain = coveringZones[0]; // 取最高优先级的地形
+
+            // [Modified] Improved Wet Logic with Hysteresis ("Sticky Water")
+            const isCenterInWater = topTerrain?.type === 'WATER';
+
+            // Check if physically touching any water obstacle (Radius check)
+            const isTouchingWater = state.obstacles.some(obs =>
+                obs.type === 'WATER' && Utils.checkCircleRectCollision(p1.pos, p1.radius, obs).collided
+            );
+
+            const wasWet = p1.isWet;
+            // Become/Stay Wet if:
+            // 1. Center is inside water (Deep)
+            // 2. Already Wet AND Still Touching AND (No other higher priority terrain) (Sticky)
+            // 3. Forced AND Touching AND (No other higher priority terrain) (Entry)
+            const shouldBeWet = isCenterInWater || ((wasWet || isForced) && isTouchingWater && (!topTerrain || topTerrain.type === 'WATER'));
+
+            p1.isWet = shouldBeWet && !p1.isPouncing;
+
+            if (!wasWet && p1.isWet) {
+                // [Modified] Remove fixed position to allow floating text to follow the target during knockback
+                applyStatus(p1, 'wet', 0);
+            }
+
+            // [New] Lava Terrain Logic
+            const isCenterInLava = topTerrain?.type === 'LAVA';
+            const isTouchingLava = state.obstacles.some(obs =>
+                obs.type === 'LAVA' && Utils.checkCircleRectCollision(p1.pos, p1.radius, obs).collided
+            );
+
+            // [Fix] Only burn status (not burst) should allow sticky lava entry
+            // burnTimer indicates actual burn status, flameExposure can be set by burst which shouldn't allow entry
+            const wasBurning = p1.burnTimer > 0;
+            // Sticky logic for Lava:
+            // 1. Center in Lava
+            // 2. Already Burning (burn status) AND Touching AND (No other higher priority terrain) (Sticky)
+            // 3. Forced AND Touching AND (No other higher priority terrain) (Entry)
+            const shouldBeInLava = isCenterInLava || ((wasBurning || isForced) && isTouchingLava && (!topTerrain || topTerrain.type === 'LAVA'));
+
+            if (shouldBeInLava && !p1.isPouncing) {
+                // [Unified] Trigger Magma Interaction (Handles Damage, Burn, Slow, Burst, etc.)
+                handleMagmaInteraction(p1, deltaTime);
+            }
+
+            // [新增] 火焰球磁力吸引效果 (促进碰撞)
+            if (p1.type === CharacterType.PYRO) {
+                state.players.forEach(p2 => {
+                    if (p2.id === p1.id || p2.isDead || p2.type !== CharacterType.PYRO) return;
+
+                    const dist = Utils.dist(p1.pos, p2.pos);
+                    const attractionRange = 300; // 吸引范围
+
+                    if (dist < attractionRange && dist > p1.radius + p2.radius) {
+                        // 计算吸引力强度 (距离越近,吸引力越强)
+                        const attractionStrength = (1 - dist / attractionRange) * 0.5; // 加速度
+                        const direction = Utils.normalize(Utils.sub(p2.pos, p1.pos));
+
+                        // 对双方施加向心加速度
+                        p1.vel = Utils.add(p1.vel, Utils.mult(direction, attractionStrength));
+                    }
+                });
+            }
+
+            // 玩家间碰撞 (Player vs Player) - 双重循环
+            for (let j = i + 1; j < state.players.length; j++) {
+                const p2 = state.players[j];
+                if (p2.isDead) continue;
+
+                const distVec = Utils.sub(p1.pos, p2.pos);
+                const dist = Utils.mag(distVec);
+
+                // [New] Dynamic collision radius for Magic Shield
+                const r1 = (p1.magicShieldHp && p1.magicShieldHp > 0) ? (p1.radius + MAGIC_SHIELD_EXTRA_RADIUS) : p1.radius;
+                const r2 = (p2.magicShieldHp && p2.magicShieldHp > 0) ? (p2.radius + MAGIC_SHIELD_EXTRA_RADIUS) : p2.radius;
+                const minDist = r1 + r2;
+
+                if (dist < minDist) {
+                    // 飞扑时忽略物理碰撞
+                    if ((p1.type === CharacterType.CAT && p1.isPouncing) || (p2.type === CharacterType.CAT && p2.isPouncing)) continue;
+
+                    const normal = Utils.normalize(distVec);
+                    const overlap = minDist - dist;
+                    const totalMass = p1.mass + p2.mass;
+
+                    // 推挤位置
+                    p1.pos = Utils.add(p1.pos, Utils.mult(normal, overlap * (p2.mass / totalMass)));
+                    p2.pos = Utils.sub(p2.pos, Utils.mult(normal, overlap * (p1.mass / totalMass)));
+
+                    // 动量交换 (弹性碰撞)
+                    const v1 = p1.vel;
+                    const v2 = p2.vel;
+                    const e = PHYSICS.COLLISION_ELASTICITY;
+                    const v1n = v1.x * normal.x + v1.y * normal.y;
+                    const v2n = v2.x * normal.x + v2.y * normal.y;
+                    const v1nFinal = ((p1.mass - e * p2.mass) * v1n + (1 + e) * p2.mass * v2n) / totalMass;
+                    const v2nFinal = ((p2.mass - e * p1.mass) * v2n + (1 + e) * p1.mass * v1n) / totalMass;
+
+                    const v1Tan = { x: v1.x - v1n * normal.x, y: v1.y - v1n * normal.y };
+                    const v2Tan = { x: v2.x - v2n * normal.x, y: v2.y - v2n * normal.y };
+
+                    p1.vel = { x: v1Tan.x + normal.x * v1nFinal, y: v1Tan.y + normal.y * v1nFinal };
+                    p2.vel = { x: v2Tan.x + normal.x * v2nFinal, y: v2Tan.y + normal.y * v2nFinal };
+
+                    // [新增] 火焰球特殊碰撞机制 (不区分敌我,一接触就触发)
+                    if (p1.type === CharacterType.PYRO && p2.type === CharacterType.PYRO) {
+                        const relativeVel = Math.abs(v1n - v2n);
+                        const baseDmg = Math.floor(relativeVel * 2);
+
+                        // 计算优势
+                        const v1Speed = Utils.mag(p1.vel);
+                        const v2Speed = Utils.mag(p2.vel);
+                        const speedAdvantage = v1Speed - v2Speed;
+
+                        const p1FuelRatio = (p1.fuel || 0) / (p1.maxFuel || 100);
+                        const p2FuelRatio = (p2.fuel || 0) / (p2.maxFuel || 100);
+                        const fuelAdvantage = p1FuelRatio - p2FuelRatio;
+
+                        const totalAdvantage = speedAdvantage + fuelAdvantage * 5;
+
+                        // 差异化伤害 (不区分敌我)
+                        const advantageDmg = Math.abs(totalAdvantage) * 10;
+                        const disadvantageDmg = Math.abs(totalAdvantage) * 3;
+
+                        if (totalAdvantage > 0) {
+                            // p1 优势
+                            takeDamage(p2, baseDmg + advantageDmg, p1.type, DamageType.PHYSICAL, 'COLLISION', p1.id);
+                            takeDamage(p1, baseDmg + disadvantageDmg, p2.type, DamageType.PHYSICAL, 'COLLISION', p2.id);
+                        } else {
+                            // p2 优势
+                            takeDamage(p1, baseDmg + advantageDmg, p2.type, DamageType.PHYSICAL, 'COLLISION', p2.id);
+                            takeDamage(p2, baseDmg + disadvantageDmg, p1.type, DamageType.PHYSICAL, 'COLLISION', p1.id);
+                        }
+
+                        // 碰撞爆炸效果
+                        const collisionPoint = {
+                            x: (p1.pos.x + p2.pos.x) / 2,
+                            y: (p1.pos.y + p2.pos.y) / 2
+                        };
+                        createExplosion(state, collisionPoint, 80, 100, 'collision', false, true);
+
+                        // 额外视觉效果
+                        spawnParticles(collisionPoint, 20, '#f97316', 10, 1.5);
+                        audio.playHit();
+                    }
+
+                    // 撞击伤害 (仅对敌,非火焰球)
+                    const relativeVel = Math.abs(v1n - v2n);
+                    if (relativeVel > 8 && p1.teamId !== p2.teamId) {
+                        // 火焰球已在上面处理,这里只处理其他角色
+                        if (!(p1.type === CharacterType.PYRO && p2.type === CharacterType.PYRO)) {
+                            const baseDmg = Math.floor(relativeVel * 2);
+                            takeDamage(p1, baseDmg, p2.type, DamageType.PHYSICAL, 'COLLISION', p2.id);
+                            takeDamage(p2, baseDmg, p1.type, DamageType.PHYSICAL, 'COLLISION', p1.id);
+                            audio.playHit();
+                            spawnParticles(Utils.add(p1.pos, Utils.mult(normal, -p1.radius)), 10, '#ffffff');
+                        }
+                    }
+                }
+            }
+        }
+
+        updateProjectiles(state, deltaTime);
+        updateGroundEffects(state, deltaTime);
+        updateDrones(state, deltaTime);
+        updateLightSpirits(state, deltaTime);
+        updateParticles(state, deltaTime);
+        updateFloatingTexts(state, deltaTime);
+
+        // 猫猫球飞扑检测 (循环所有猫)
+        state.players.forEach(cat => {
+            if (cat.type === CharacterType.CAT && cat.isPouncing && !cat.hasPounceHit && !cat.isDead) {
+                const enemies = getEnemies(cat);
+                enemies.forEach(target => {
+                    const dist = Utils.dist(cat.pos, target.pos);
+                    if (dist < cat.radius + target.radius) {
+                        // 触发飞扑效果
+                        applyStatus(target, 'slow', 2.5);
+                        applyStatus(target, 'disarm', 2.5);
+                        applyStatus(target, 'silence', 2.5);
+
+                        // 蓄力打断由 applyStatus('silence') 自动触发 interruptAction
+                        const dmg = CHAR_STATS[CharacterType.CAT].scratchDamage;
+                        takeDamage(target, dmg, CharacterType.CAT, DamageType.PHYSICAL, 'CAT_POUNCE', cat.id);
+                        spawnParticles(target.pos, 15, '#f0abfc', 6);
+                        audio.playShot('SCRATCH');
+                        cat.hasPounceHit = true;
+                        if ((target.magicShieldHp || 0) <= 0) target.statusLabel = 'status.stomped';
+                    }
+                });
+            }
+        });
+
+        state.players.forEach(p => updateStatus(p, deltaTime));
+
+        // 更新移形换影动画
+        state.players.forEach(p => updateApparitionAnimation(p, deltaTime));
+
+        // [集中管理] 全局状态飘字系统
+        state.players.forEach(p => {
+            // 1. 初始化追踪字段 (用于 UI/飘字)
+            if (!p._prevStatus) {
+                p._prevStatus = {
+                    tankMode: p.tankMode,
+                    isReloadingLmg: p.isReloadingLmg,
+                    lives: p.lives || 0,
+                    isBurnedOut: p.isBurnedOut,
+                };
+            }
+            const prev = p._prevStatus;
+
+            // 辅助：飘字生成
+            const spawn = (text: MessageKey, color: string, velY = -1.0, size = 16, overridePos?: Vector2, params?: MessageParams) => {
+                const now = simNow();
+
+                // 1. 初始化该玩家的冷却记录
+                if (!textCooldowns.has(p.id)) {
+                    textCooldowns.set(p.id, {});
+                }
+                const cooldowns = textCooldowns.get(p.id)!;
+
+                // 2. 冷却检查 (动态读取配置中的 CD，默认为 800ms)
+                // 带参数的飘字按参数区分冷却 (如不同的剩余命数)
+                const cdKey = params ? `${text}:${Object.values(params).join(',')}` : text;
+                const lastTime = cooldowns[cdKey] || 0;
+
+                // 查找该文本对应的状态配置以获取 CD
+                const matchedKey = Object.keys(STATUS_CONFIG).find(k => STATUS_CONFIG[k].labels.includes(text));
+                const cdDuration = (matchedKey ? STATUS_CONFIG[matchedKey].floatingTextCD : undefined) || 800;
+
+                if (now - lastTime < cdDuration) return; // 冷却中，不飘字
+
+                // 3. 更新冷却时间
+                cooldowns[cdKey] = now;
+
+                const offsetX = (random() - 0.5) * 60;
+                const offsetY = (random() - 0.5) * 30; // [New] Vertical randomness
+
+                state.floatingTexts.push({
+                    id: random().toString(),
+                    pos: overridePos
+                        ? { x: overridePos.x + offsetX * 0.5, y: overridePos.y - 20 + offsetY }
+                        : { x: p.pos.x + offsetX, y: p.pos.y - p.radius - 40 + offsetY },
+                    text, params, color, size,
+                    life: 2.0,
+                    maxLife: 2.0,
+                    velY
+                });
+            };
+            //    A. 处理飘字标签 (支持优先级与多标签)
+            if (!p.statusQueue) p.statusQueue = [];
+
+            // [新增优先级逻辑] 显式 statusLabel 具有最高优先级，且通常是唯一的。
+            if (p.statusLabel) {
+                // 如果设置了特定标签，直接清空队列，仅显示该特定标签
+                p.statusQueue = [{
+                    text: p.statusLabel,
+                    color: p.statusLabelColor,
+                    pos: p.statusLabelPos
+                }];
+                p.statusLabel = undefined;
+                p.statusLabelColor = undefined;
+                p.statusLabelPos = undefined;
+            }
+
+            if (p.statusQueue.length > 0) {
+                p.statusQueue.forEach((item, index) => {
+                    const text = item.text;
+                    const matchedKey = Object.keys(STATUS_CONFIG).find(k => STATUS_CONFIG[k].labels.includes(text));
+                    let color = item.color || (matchedKey ? STATUS_CONFIG[matchedKey].color : p.color);
+
+                    // 如果有多个飘字，稍微错开位置，再加上随机偏移，极大减少重叠
+                    const verticalOrderOffset = index * 25;
+                    const randomOffsetX = (random() - 0.5) * 40;
+                    const randomOffsetY = (random() - 0.5) * 20;
+
+                    const spawnPos = item.pos
+                        ? { x: item.pos.x + randomOffsetX, y: item.pos.y - verticalOrderOffset + randomOffsetY }
+                        : { x: p.pos.x + randomOffsetX, y: p.pos.y - p.radius - 40 - verticalOrderOffset + randomOffsetY };
+
+                    spawn(text, color, -1.5, 16, spawnPos);
+                });
+
+                p.statusQueue = []; // 清空队列
+            }
+            //    B. 状态变化检测
+            // 1. 基础物理/元素 (使用 CONFIG 配置)
+            if (!prev.isBurnedOut && p.isBurnedOut) spawn('floating.burnout', '#ef4444');
+
+            // 2. 控制状态 (大部分已由 applyStatus -> statusQueue 自动处理，此处仅作为非标准状态的扩展位)
+
+            // 3. 核心机制
+            // 坦克模式
+            if (p.type === CharacterType.TANK && prev.tankMode !== p.tankMode) {
+                if (p.tankMode === TankMode.LMG) spawn('status.haste', '#34d399');
+                else spawn('floating.artilleryMode', '#fbbf24');
+            }
+
+            // 装填
+            if (!prev.isReloadingLmg && p.isReloadingLmg) {
+                spawn('floating.reloading', '#fbbf24');
+            }
+            // 轻机枪装填完毕
+            if (prev.isReloadingLmg && !p.isReloadingLmg) {
+                spawn('floating.reloaded', '#34d399');
+            }
+
+            // 命数变化
+            if ((p.lives || 0) < (prev.lives || 0) && (p.lives || 0) > 0) {
+                spawn('floating.livesLeft', '#fbbf24', -2.0, 16, undefined, { lives: p.lives || 0 });
+            }
+
+            // 4. 持续/周期性状态
+            if ((p.sleepTimer > 0 || (p.idleTimer || 0) > 5.0) && random() < 0.01) {
+                spawn('floating.sleeping', '#ffffff', -0.5);
+            }
+
+            // --- 更新追踪快照 ---
+            p._prevStatus = {
+                tankMode: p.tankMode,
+                isReloadingLmg: p.isReloadingLmg,
+                lives: p.lives || 0,
+                isBurnedOut: p.isBurnedOut,
+            };
+        });
+    };
+
+    // [输入边沿] 处理按下/松开瞬间触发的动作 (原 keydown/mousedown 等事件处理逻辑)
+    const handleInputEdges = (p: PlayerState, input: PlayerInput, prev: PlayerInput) => {
+        const ultPressed = input.ultimate && !prev.ultimate;
+        const ultReleased = !input.ultimate && prev.ultimate;
+        const primaryPressed = input.primary && !prev.primary;
+        const primaryReleased = !input.primary && prev.primary;
+        const secondaryPressed = input.secondary && !prev.secondary;
+        const secondaryReleased = !input.secondary && prev.secondary;
+
+        // 0. [Command] 队伍指令键 (按下时对瞄准点下令)
+        if (input.command && input.command !== prev.command) {
+            issueTeamCommand(state, p, input.command, input.aim, getEnemies);
+        }
+
+        // 1. 大招键 (Space)
+        if (ultPressed) abilityRunner.press(p, AbilitySlot.ULTIMATE, input.aim);
+        if (ultReleased) abilityRunner.release(p, AbilitySlot.ULTIMATE, input.aim);
+
+        // 2. 鼠标按下 (硬控状态下只有解控技能可用，由技能运行器检查)
+        if (primaryPressed) abilityRunner.press(p, AbilitySlot.PRIMARY, input.aim);
+        if (secondaryPressed) abilityRunner.press(p, AbilitySlot.SECONDARY, input.aim);
+
+        // 3. 鼠标松开
+        if (primaryReleased) abilityRunner.release(p, AbilitySlot.PRIMARY, input.aim);
+        if (secondaryReleased) abilityRunner.release(p, AbilitySlot.SECONDARY, input.aim);
+    };
+
+    const handlePlayerInput = (p: PlayerState, input: PlayerInput, dt: number) => {
+        // [统一解控触发器] 检查所有解控条件并清除控制效果
+        const cleanseReasons = getCleanseReasons(p);
+        if (cleanseReasons.length > 0) {
+            clearControlEffects(p);
+        }
+
+        // 移形换影动画期间禁止其他输入
+        if (p.apparitionPhase && p.apparitionPhase !== 'NONE') {
+            return;
+        }
+
+        // [解控技能早期处理] 白魔法球《呼神护卫》可在被控制时释放
+        if (input.ultimate) {
+            abilityRunner.holdWhileControlled(p, AbilitySlot.ULTIMATE, input.aim, dt);
+        }
+
+        // [Priority System] Fear > Taunt > Charm
+        if ((p.fearTimer || 0) > 0) {
+            const enemy = getNearestEnemy(p);
+            if (enemy) {
+                const runDir = Utils.normalize(Utils.sub(p.pos, enemy.pos));
+                const fearSpeed = CHAR_STATS[p.type].speed * 0.9;
+                p.vel = Utils.add(p.vel, Utils.mult(runDir, PHYSICS.ACCELERATION_SPEED * fearSpeed * dt * 60));
+                p.angle = Math.atan2(runDir.y, runDir.x);
+            }
+            return;
+        }
+
+        // Taunt / Charm: Forced Movement logic
+        let tauntTarget: PlayerState | Drone | null = null;
+        const isTaunted = (p.tauntTimer || 0) > 0;
+        const isCharmed = (p.charmTimer || 0) > 0 && !isTaunted;
+
+        if (isTaunted || isCharmed) {
+            if (isTaunted && p.tauntSourceId) {
+                tauntTarget = state.players.find(pl => pl.id === p.tauntSourceId) || null;
+                if (tauntTarget && tauntTarget.isDead) tauntTarget = null;
+            }
+            if (!tauntTarget) tauntTarget = getNearestEnemy(p);
+
+            if (tauntTarget) {
+                const distToTarget = Utils.dist(p.pos, tauntTarget.pos);
+                const attackRange = getCharacter(p.type)?.getTauntAttackRange?.(p) ?? 100;
+
+                if (isCharmed || distToTarget > attackRange) {
+                    const runDir = Utils.normalize(Utils.sub(tauntTarget.pos, p.pos));
+                    const speedFactor = isCharmed ? 0.5 : 1.2;
+                    const forceSpeed = CHAR_STATS[p.type].speed * speedFactor;
+                    p.vel = Utils.add(p.vel, Utils.mult(runDir, PHYSICS.ACCELERATION_SPEED * forceSpeed * dt * 60));
+                    p.aimAngle = Math.atan2(runDir.y, runDir.x);
+                    p.angle = p.aimAngle;
+                } else if (!isCharmed) {
+                    p.vel = Utils.mult(p.vel, 0.8);
+                    const aimDir = Utils.sub(tauntTarget.pos, p.pos);
+                    p.aimAngle = Math.atan2(aimDir.y, aimDir.x);
+                    p.angle = p.aimAngle;
+
+                    // Manual Attack Trigger
+                    abilityRunner.forceAttack(p, tauntTarget.pos, dt);
+                }
+            }
+            return; // Taunt/Charm overrides normal input
+        }
+
+        // Hard CC Check (Stun, Sleep, Petrify) - Return early, no input allowed
+        if (isControlled(p)) {
+            p.vel = Utils.mult(p.vel, 0.8);
+            return;
+        }
+
+
+        if (p.rootTimer > 0) {
+            // Root: Can aim/shoot, but velocity friction applied and NO movement input allowed
+            p.vel = Utils.mult(p.vel, 0.8);
+        }
+
+        let speedMult = 1.0;
+
+        // Tank LMG Speed Boost
+        if (p.type === CharacterType.TANK && p.tankMode === TankMode.LMG) {
+            speedMult = 1.6;
+        }
+
+        if (p.slowTimer > 0) {
+            speedMult *= 0.4;
+        }
+
+        // Haste
+        if ((p.hasteTimer || 0) > 0) {
+            speedMult *= 1.5;
+        }
+
+        // Wukong Charging Slow / Stop
+        if (p.type === CharacterType.WUKONG && p.wukongChargeState !== 'NONE') {
+            if (p.wukongChargeState === 'SMASH') {
+                speedMult = 0; // Rooted when charging Smash
+            } else {
+                speedMult *= 0.3; // Very slow while charging Thrust
+            }
+        }
+
+        // Cat Charging Slow
+        if (p.type === CharacterType.CAT && p.catIsCharging) {
+            // [修改] 只有蓄力超过 0.3 秒才开始减速
+            const chargeDuration = (simNow() - (p.catChargeStartTime || 0)) / 1000;
+            if (chargeDuration > 0.3) {
+                speedMult *= 0.2;
+            }
+        }
+
+        if (p.type === CharacterType.CAT && p.isPouncing) {
+            // 飞扑时只处理旋转（允许空中调整朝向），但不处理位移
+            const aimDir = Utils.sub(input.aim, p.pos);
+            const targetAimAngle = Math.atan2(aimDir.y, aimDir.x);
+            p.aimAngle = targetAimAngle;
+
+            // 还可以加一点空气阻力让它停得更自然
+            p.vel = Utils.mult(p.vel, 0.98);
+            return;
+        }
+
+        // [已移至上方] 恐惧状态已在优先级逻辑中处理
+
+        let accel = PHYSICS.ACCELERATION_SPEED * CHAR_STATS[p.type].speed * speedMult;
+
+        if (p.type === CharacterType.TANK) {
+            accel *= 0.5;
+        }
+
+        const moveDir = { x: 0, y: 0 };
+
+        // Root prevents movement input, Taunt/Charm also overrides
+        if (p.rootTimer <= 0 && p.tauntTimer <= 0 && (p.charmTimer || 0) <= 0) {
+            moveDir.x = input.move.x;
+            moveDir.y = input.move.y;
+        }
+
+        if (moveDir.x !== 0 || moveDir.y !== 0) {
+            const norm = Utils.normalize(moveDir);
+            // 模拟摇杆：推杆幅度决定加速度 (键盘斜向为 √2，按 1 截断)
+            const magnitude = Math.min(1, Utils.mag(moveDir));
+            p.vel = Utils.add(p.vel, Utils.mult(norm, accel * dt * 60 * magnitude));
+
+            // Smooth Rotation for Body Angle
+            const targetAngle = Math.atan2(moveDir.y, moveDir.x);
+            let diff = targetAngle - p.angle;
+            // Normalize diff to [-PI, PI]
+            if (Number.isFinite(diff)) {
+                while (diff > Math.PI) diff -= Math.PI * 2;
+                while (diff < -Math.PI) diff += Math.PI * 2;
+            } else {
+                diff = 0;
+            }
+
+            // Interpolate (Lerp)
+            const rotationSpeed = 15.0; // Adjust for smoothness
+            p.angle += diff * Math.min(1, rotationSpeed * dt);
+
+            if (p.type === CharacterType.TANK && p.tankMode === TankMode.LMG && random() < 0.8) {
+                state.particles.push({
+                    id: random().toString(),
+                    pos: Utils.add(p.pos, { x: (random() - 0.5) * 20, y: (random() - 0.5) * 20 }),
+                    vel: Utils.mult(p.vel, -0.5),
+                    life: 0.8,
+                    maxLife: 0.8,
+                    color: '#6ee7b7',
+                    size: 5
+                });
+            }
+        }
+
+        const worldMouse = input.aim;
+        let aimDir = Utils.sub(worldMouse, p.pos);
+
+        // Blind: Jitter aim
+        if ((p.blindTimer || 0) > 0) {
+            const jitter = (random() - 0.5) * 1.5; // Large jitter (approx 85 degrees spread)
+            const angle = Math.atan2(aimDir.y, aimDir.x) + jitter;
+            const mag = Utils.mag(aimDir);
+            aimDir = { x: Math.cos(angle) * mag, y: Math.sin(angle) * mag };
+        }
+
+        let targetAimAngle = Math.atan2(aimDir.y, aimDir.x);
+
+        if (p.type === CharacterType.TANK) {
+            const diff = targetAimAngle - p.aimAngle;
+            const d = Math.atan2(Math.sin(diff), Math.cos(diff));
+            const rotSpeed = CHAR_STATS[CharacterType.TANK].turretSpeed;
+            const change = Utils.clamp(d, -rotSpeed * dt * 60, rotSpeed * dt * 60);
+
+            p.aimAngle += change;
+        } else {
+            // 非坦克：任何控制状态下禁止自主瞄准
+            // [新增] 瞄准锁定状态下禁止鼠标干预 (Expelliarmus)
+            if (!isControlled(p) && (p.aimLockTimer || 0) <= 0) {
+                p.aimAngle = targetAimAngle;
+            }
+        }
+
+        // --- ABILITIES ---
+        // 按住的技能持续施放，未按住的停止引导；再推进蓄力 (蓄满自动释放)
+        abilityRunner.aim(p, worldMouse);
+        ABILITY_SLOTS.forEach(slot => {
+            if (isSlotHeld(input, slot)) abilityRunner.hold(p, slot, worldMouse, dt);
+            else abilityRunner.idle(p, slot, dt);
+        });
+        abilityRunner.update(p, dt);
+    };
+
+    // --- Combat ---
+
+    const fireFlamethrower = (p: PlayerState, dt: number) => {
+        if (p.disarmTimer > 0) return;
+
+        // Sound logic (always runs based on real time)
+        const now = simNow();
+        if (now - lastPyroSoundTime > 120) {
+            audio.playShot('PYRO');
+            lastPyroSoundTime = now;
+        }
+
+        const range = p.currentWeaponRange || CHAR_STATS[CharacterType.PYRO].flamethrowerRange;
+        const cone = p.currentWeaponAngle || CHAR_STATS[CharacterType.PYRO].flamethrowerAngle;
+
+        // [友军伤害] 使用 getAllAttackTargets 获取所有可攻击目标（包括友军）
+        const targets = getAllAttackTargets(p);
+
+        // Hit Logic - 攻击所有目标
+        targets.forEach(e => {
+            const toEnemy = Utils.sub(e.pos, p.pos);
+            const distE = Utils.mag(toEnemy);
+            if (distE < range) {
+                const angleToEnemy = Math.atan2(toEnemy.y, toEnemy.x);
+                const angleDiff = Math.abs(angleToEnemy - p.aimAngle);
+                const normalizedDiff = Math.atan2(Math.sin(angleDiff), Math.cos(angleDiff));
+
+                if (Math.abs(normalizedDiff) < cone) {
+                    if ('isSummon' in e) {
+                        e.hp -= 350 * dt;
+                        if (e.hp <= 0) killEntity(e, p.id); // [新增] 召唤物死亡处理
+                        if (random() < 0.1) spawnParticles(e.pos, 1, '#ef4444', 2, 0.5);
+                    } else {
+                        // 使用统一的免疫检查：火焰免疫检测
+                        const fireImmunity = checkStatusImmunity(e, 'burn');
+                        if (!fireImmunity.isImmune) {
+                            const prevExposure = e.flameExposure || 0;
+                            e.flameExposure = Math.min(100, (e.flameExposure || 0) + 0.5);
+
+                            // Trigger Burst (爆燃) text and effect when reaching 100% accumulation
+                            if (prevExposure < 100 && e.flameExposure >= 100) {
+                                applyStatus(e, 'burst', 0, p.id);
+                            }
+
+                            if (e.burnTimer <= 0) {
+                                applyStatus(e, 'burn', 3.0, p.id);
+                            } else {
+                                e.burnTimer = 3.0; // Refresh timer silently
+                            }
+                        }
+                        const baseDmg = 95;
+                        takeDamage(e, baseDmg * dt, CharacterType.PYRO, DamageType.FIRE, 'PYRO_FLAMETHROWER', p.id);
+                    }
+                    // Minimal hit feedback
+                    if (random() < 0.05) spawnParticles(e.pos, 1, '#ff4400', 1, 0.5);
+                }
+            }
+        });
+    };
+
+    const castMagmaPool = (p: PlayerState, target: Vector2) => {
+        if (p.silenceTimer > 0) return;
+        audio.playSkill('MAGMA_THROW');
+        p.skillCooldown = CHAR_STATS[CharacterType.PYRO].skillCooldown / 1000;
+        const dist = Utils.dist(p.pos, target);
+        const speed = CHAR_STATS[CharacterType.PYRO].magmaProjSpeed;
+        const duration = dist / (speed * 60);
+
+        state.projectiles.push({
+            id: random().toString(),
+            ownerId: p.id,
+            pos: p.pos,
+            vel: Utils.mult(Utils.normalize(Utils.sub(target, p.pos)), speed),
+            radius: 12,
+            mass: 5,
+            color: '#f97316',
+            damage: 0,
+            projectileType: 'MAGMA_PROJ',
+            maxLife: duration,
+            life: duration,
+            targetPos: target,
+            isAoe: true,
+            aoeRadius: CHAR_STATS[CharacterType.PYRO].magmaPoolRadius,
+            damageType: DamageType.FIRE
+        });
+    };
+
+    const fireArtillery = (p: PlayerState, target: Vector2) => {
+        if (p.disarmTimer > 0) return;
+        audio.playShot('ARTILLERY');
+        const dir = Utils.normalize(Utils.sub(target, p.pos));
+        const dist = Utils.dist(p.pos, target);
+        const speed = 12;
+        const timeToTarget = dist / (speed * 60);
+
+        state.projectiles.push({
+            id: random().toString(),
+            ownerId: p.id,
+            pos: Utils.add(p.pos, Utils.mult(dir, p.radius + 10)),
+            vel: Utils.mult(dir, speed),
+            radius: 14,
+            mass: 100,
+            color: '#1f2937',
+            damage: CHAR_STATS[CharacterType.TANK].artilleryDamage,
+            projectileType: 'BOMB',
+            life: timeToTarget,
+            maxLife: timeToTarget,
+            isAoe: true,
+            aoeRadius: CHAR_STATS[CharacterType.TANK].artilleryRadius,
+            hitTargets: [],
+            targetPos: target
+        });
+    };
+
+    const fireLMG = (p: PlayerState) => {
+        if (p.disarmTimer > 0) return;
+        if (p.isReloadingLmg) return; // Prevent shooting while reloading
+        audio.playShot('LMG');
+        const dir = { x: Math.cos(p.aimAngle), y: Math.sin(p.aimAngle) };
+        const spread = (random() - 0.5) * 0.2;
+        const finalDir = {
+            x: dir.x * Math.cos(spread) - dir.y * Math.sin(spread),
+            y: dir.x * Math.sin(spread) + dir.y * Math.cos(spread)
+        };
+
+        state.projectiles.push({
+            id: random().toString(),
+            ownerId: p.id,
+            pos: Utils.add(p.pos, Utils.mult(dir, p.radius + 15)),
+            vel: Utils.mult(finalDir, 22),
+            radius: 3,
+            mass: CHAR_STATS[CharacterType.TANK].lmgBulletMass,
+            color: '#fbbf24',
+            damage: CHAR_STATS[CharacterType.TANK].lmgDamage,
+            projectileType: 'BULLET',
+            life: 0.8,
+            maxLife: 0.8,
+        });
+    };
+
+    const updateProjectiles = (state: GameState, dt: number) => {
+        state.projectiles = state.projectiles.filter(p => p.life > 0);
+
+        state.projectiles.forEach(p => {
+            p.pos = Utils.add(p.pos, Utils.mult(p.vel, dt * 60));
+            p.life -= dt;
+
+            // --- 粒子特效 ---
+            if (p.projectileType === 'MAGMA_PROJ') {
+                if (random() < 0.6) {
+                    state.particles.push({
+                        id: random().toString(), pos: { ...p.pos },
+                        vel: Utils.mult(Utils.normalize(p.vel), -2),
+                        life: 0.3 + random() * 0.2, maxLife: 0.5,
+                        color: random() > 0.5 ? '#f97316' : '#ef4444',
+                        size: p.radius * (0.5 + random() * 0.3)
+                    });
+                }
+            } else if (p.projectileType === 'BOMB') {
+                if (random() < 0.7) {
+                    state.particles.push({
+                        id: random().toString(), pos: { ...p.pos },
+                        vel: { x: (random() - 0.5), y: (random() - 0.5) },
+                        life: 0.5 + random() * 0.3, maxLife: 0.8,
+                        color: random() > 0.5 ? '#9ca3af' : '#4b5563',
+                        size: p.radius * (0.6 + random() * 0.4)
+                    });
+                }
+            }
+
+            // --- 碰撞与逻辑 ---
+            if (p.projectileType === 'MAGMA_PROJ') {
+                // Modified: Only check for overlaps/detonation when the projectile LANDS
+                if (p.life <= 0) {
+                    p.life = 0; // Destroy projectile
+
+                    const poolRadius = p.aoeRadius || 80;
+                    const hitPools = state.groundEffects.filter(g =>
+                        g.type === 'MAGMA_POOL' &&
+                        !g.isPendingDetonation && // Don't re-trigger ones already pending
+                        Utils.dist(p.pos, g.pos) < g.radius + poolRadius
+                    );
+
+                    const hitLava = state.obstacles.some(obs =>
+                        obs.type === 'LAVA' &&
+                        Utils.checkCircleRectCollision(p.pos, poolRadius, obs).collided
+                    );
+
+                    const owner = state.players.find(pl => pl.id === p.ownerId);
+                    const shouldDetonate = owner && (hitPools.length > 0 || hitLava);
+
+                    // ALWAYS create the new pool first
+                    const newPool: GroundEffect = {
+                        id: random().toString(),
+                        pos: p.pos,
+                        radius: poolRadius,
+                        life: 10,
+                        maxLife: 10,
+                        type: 'MAGMA_POOL',
+                        ownerId: p.ownerId,
+                        damageType: DamageType.FIRE
+                    };
+
+                    if (shouldDetonate) {
+                        // Mark for delayed detonation
+                        newPool.isPendingDetonation = true;
+                        newPool.detonationTimer = 0.3; // Show for ~300ms
+
+                        // Also mark hit pools for simultaneous detonation
+                        hitPools.forEach(pool => {
+                            pool.isPendingDetonation = true;
+                            pool.detonationTimer = 0.3;
+                        });
+                    }
+
+                    state.groundEffects.push(newPool);
+
+                    if (!shouldDetonate) {
+                        audio.playSkill('MAGMA_LAND');
+                        createExplosion(state, p.pos, 50, 0, p.ownerId, true, false);
+                    } else {
+                        audio.playSkill('MAGMA_IGNITE');
+                    }
+                }
+            }
+            else if (p.projectileType === 'BOMB') {
+                // 找到发射者（用于判断阵营）
+                const owner = state.players.find(pl => pl.id === p.ownerId);
+
+                // 1. 检查无人机 (直击)
+                state.drones.forEach(d => {
+                    // 找到无人机的主人
+                    const dOwner = state.players.find(pl => pl.id === d.ownerId);
+                    // 判定敌对：非自己，且 (无主人 或 主人队伍不同)
+                    const isEnemy = d.ownerId !== p.ownerId && (!owner || !dOwner || owner.teamId !== dOwner.teamId);
+
+                    if (isEnemy && d.hp > 0 && !d.isDocked && (!p.hitTargets || !p.hitTargets.includes(d.id))) {
+                        if (Utils.dist(p.pos, d.pos) < d.radius + p.radius) {
+                            d.hp -= p.damage;
+                            audio.playHit();
+                            if (!p.hitTargets) p.hitTargets = [];
+                            p.hitTargets.push(d.id);
+                            spawnParticles(p.pos, 5, '#f59e0b', 4);
+                            if (p.isEmp) d.hp = 0;
+
+                            if (d.hp <= 0) {
+                                killEntity(d, p.ownerId); // 使用统一击杀逻辑
+                            }
+                        }
+                    }
+                });
+
+                // 2. 检查玩家 (直击) - [友军伤害] 攻击所有目标
+                state.players.forEach(target => {
+                    // 判定：非自己，未死亡，未被本次击中过
+                    if (target.id !== p.ownerId && !target.isDead &&
+                        (!p.hitTargets || !p.hitTargets.includes(target.id))) {
+
+                        if (Utils.dist(p.pos, target.pos) < target.radius + p.radius) {
+                            let damageMultiplier = 0.7;
+                            // 如果目标在最终爆炸范围内，减少直击伤害（避免双倍伤害）
+                            if (p.targetPos) {
+                                const blastRadius = p.aoeRadius || 120;
+                                const distToBlastCenter = Utils.dist(target.pos, p.targetPos);
+                                const isInsideBlastZone = distToBlastCenter < (blastRadius + target.radius);
+                                if (isInsideBlastZone) {
+                                    damageMultiplier = 0.1;
+                                }
+                            }
+
+                            const penDamage = p.damage * damageMultiplier;
+                            takeDamage(target, penDamage, CharacterType.TANK, DamageType.PHYSICAL, p.projectileType, p.ownerId);
+                            audio.playHit();
+
+                            if (!p.hitTargets) p.hitTargets = [];
+                            p.hitTargets.push(target.id);
+
+                            spawnParticles(p.pos, 10, '#f59e0b', 5, 0.5);
+                        }
+                    }
+                });
+
+                // 寿命耗尽 -> 爆炸
+                if (p.life <= 0) {
+                    createExplosion(state, p.pos, p.aoeRadius || 120, p.damage, p.ownerId, false);
+                }
+            } else {
+                // --- 普通子弹 / 无人机子弹 ---
+                let hitWall = false;
+                // 无人机子弹穿墙
+                if (p.projectileType !== 'DRONE_SHOT') {
+                    for (const obs of state.obstacles) {
+                        if (obs.type === 'WATER' || obs.type === 'LAVA') continue;
+                        if (Utils.checkCircleRectCollision(p.pos, p.radius, obs).collided) {
+
+                            // [New] Magic Spell Wall Penetration
+                            if (p.spawnedInsideWall) {
+                                continue;
+                            }
+
+                            hitWall = true;
+                            break;
+                        }
+                    }
+
+                    // [New] Logic to clear spawnedInsideWall flag
+                    if (p.spawnedInsideWall) {
+                        const stillInside = state.obstacles.some(obs =>
+                            obs.type !== 'WATER' && obs.type !== 'LAVA' &&
+                            Utils.checkCircleRectCollision(p.pos, p.radius, obs).collided
+                        );
+                        if (!stillInside) {
+                            p.spawnedInsideWall = false;
+                        }
+                    }
+                }
+
+                let hitEntity: any = null;
+
+
+                if (!hitWall) {
+                    // 1. 检查撞到玩家
+                    for (const pl of state.players) {
+                        if (pl.id !== p.ownerId && !pl.isDead) {
+                            // [无人机友军伤害] 对于无人机子弹,检查是否为敌方单位
+                            if (p.projectileType === 'DRONE_SHOT') {
+                                // 找到无人机的主人
+                                const droneOwner = state.players.find(owner => owner.id === p.ownerId);
+                                // 只有当目标是敌方单位时才碰撞(不同队伍或没有队伍信息)
+                                if (droneOwner && droneOwner.teamId === pl.teamId) {
+                                    continue; // 跳过友方单位,子弹穿透
+                                }
+                            }
+
+                            // [New] Dynamic collision radius for Magic Shield
+                            const effectiveRadius = (pl.magicShieldHp && pl.magicShieldHp > 0) ? (pl.radius + MAGIC_SHIELD_EXTRA_RADIUS) : pl.radius;
+                            if (Utils.dist(p.pos, pl.pos) < effectiveRadius + p.radius) {
+                                hitEntity = pl;
+                                break;
+                            }
+                        }
+                    }
+                }
+                // 2. 检查撞到无人机 (如果还没撞到人)
+                if (!hitEntity) {
+                    for (const d of state.drones) {
+
+                        // 判定：非自己的无人机，且存活
+                        let isValidTarget = d.ownerId !== p.ownerId;
+
+                        // [无人机友军伤害] 对于无人机子弹,额外检查是否为敌方无人机
+                        if (isValidTarget && p.projectileType === 'DRONE_SHOT') {
+                            const droneOwner = state.players.find(owner => owner.id === p.ownerId);
+                            const targetDroneOwner = state.players.find(owner => owner.id === d.ownerId);
+                            // 如果双方主人是同一队伍,则跳过(友方无人机)
+                            if (droneOwner && targetDroneOwner && droneOwner.teamId === targetDroneOwner.teamId) {
+                                isValidTarget = false;
+                            }
+                        }
+
+                        if (isValidTarget && d.hp > 0 && !d.isDocked) {
+                            if (Utils.dist(p.pos, d.pos) < d.radius + p.radius) {
+                                hitEntity = d;
+                                break;
+                            }
+                        }
+                    }
+                }
+
+                if (hitWall) {
+                    p.life = 0;
+                    spawnParticles(p.pos, 3, '#cccccc');
+                } else if (hitEntity) {
+                    p.life = 0;
+
+                    if ('isSummon' in hitEntity) {
+                        // 命中无人机
+                        let dmg = p.damage;
+                        if (p.isEmp) dmg = 9999;
+                        hitEntity.hp -= dmg;
+                        spawnParticles(p.pos, 5, '#6ee7b7');
+
+                        // 击退
+                        hitEntity.pos = Utils.add(hitEntity.pos, Utils.mult(Utils.normalize(p.vel), 10));
+
+                        if (hitEntity.hp <= 0) {
+                            killEntity(hitEntity, p.ownerId);
+                        }
+
+                    } else {
+                        // 命中玩家
+                        if (p.projectileType === 'MAGIC_SPELL') {
+                            // 1. Determine Status to Apply
+                            let statusToApply = p.statusType;
+
+                            if (!statusToApply) {
+                                // Fallback: Pick random if not pre-set
+                                const allDebuffs = Object.keys(STATUS_CONFIG).filter(k =>
+                                    STATUS_CONFIG[k].nature === 'negative' &&
+                                    k !== 'disarm'
+                                );
+                                statusToApply = allDebuffs[Math.floor(random() * allDebuffs.length)];
+                            }
+
+                            const initialStatus = statusToApply; // [New] Store for line triggering
+
+                            // 免疫检查现在由 applyStatus 中的 checkStatusImmunity 统一处理
+                            // 3. Apply Status & Visuals
+                            const owner = state.players.find(pl => pl.id === p.ownerId);
+                            const finalStatus = statusToApply;
+
+                            if (finalStatus) {
+                                const duration = 0.5 + random() * 2.5;
+                                applyStatus(hitEntity, finalStatus, duration, p.ownerId);
+                            }
+
+                            // [New] Show floating text on Caster whenever a spell identifies a valid line, even if target is immune
+                            const lineStatus = p.statusType || initialStatus;
+                            if (owner && lineStatus && MAGIC_SPELL_LINES[lineStatus]) {
+                                owner.statusLabel = MAGIC_SPELL_LINES[lineStatus];
+                                owner.statusLabelColor = p.color;
+                            }
+                            spawnParticles(p.pos, 15, p.color, 6);
+
+                            // Magical burst particles
+                            state.particles.push({
+                                id: random().toString(),
+                                pos: { ...p.pos },
+                                vel: { x: 0, y: 0 },
+                                life: 0.2, maxLife: 0.2,
+                                color: 'rgba(255, 255, 255, 0.8)',
+                                size: 15 // Flash
+                            });
+                            audio.playHit('MAGIC');
+                        } else if (p.projectileType === 'EXPELLIARMUS') {
+                            // Expelliarmus logic
+                            const owner = state.players.find(pl => pl.id === p.ownerId);
+                            const stats = CHAR_STATS[CharacterType.MAGIC];
+
+                            // 免疫检查由 applyStatus 中的 checkStatusImmunity 统一处理
+                            applyStatus(hitEntity, 'disarm', stats.expelliarmusDuration / 1000, p.ownerId);
+
+                            spawnParticles(hitEntity.pos, 15, p.color, 6);
+
+                            // Visuals
+                            state.particles.push({
+                                id: random().toString(),
+                                pos: { ...p.pos },
+                                vel: { x: 0, y: 0 },
+                                life: 0.2, maxLife: 0.2,
+                                color: 'rgba(255, 255, 255, 0.8)',
+                                size: 15
+                            });
+                            audio.playHit('MAGIC'); // Use existing magic hit sound
+
+                            if (owner) {
+                                owner.statusLabel = MAGIC_SPELL_LINES.disarm;
+                                owner.statusLabelColor = p.color;
+                            }
+                        } else {
+                            // 普通投射物 - 造成伤害 ([Fix] 来源取发射者，原先固定记为魔法球)
+                            const shooter = state.players.find(pl => pl.id === p.ownerId);
+                            takeDamage(hitEntity, p.damage, shooter?.type ?? CharacterType.MAGIC, DamageType.MAGIC, p.projectileType, p.ownerId);
+                            audio.playHit();
+
+                            const pushDir = Utils.normalize(p.vel);
+                            let knockbackForce = 160;
+
+                            if (p.projectileType === 'DRONE_SHOT') {
+                                knockbackForce = 300;
+                            }
+
+                            applyKnockback(hitEntity, pushDir, knockbackForce);
+                            spawnParticles(p.pos, 5, p.color);
+                        }
+                    }
+                }
+            }
+        });
+    };
+
+    const createExplosion = (state: GameState, pos: Vector2, radius: number, damage: number, ownerId: string, selfImmune: boolean = false, playSound: boolean = true) => {
+        // 视觉效果 (保持原样)
+        spawnParticles(pos, 30, '#f59e0b', 8, 1);
+        if (playSound) audio.playExplosion();
+
+        state.particles.push({
+            id: random().toString(),
+            pos: pos,
+            vel: { x: 0, y: 0 },
+            life: 0.2,
+            maxLife: 0.2,
+            color: 'rgba(255, 100, 0, 0.3)',
+            size: radius
+        });
+
+        // [修改核心] 获取所有目标：玩家列表 + 活跃无人机
+        // 替换原有的 [state.player, state.enemy]
+        const targets = [
+            ...state.players,
+            ...state.drones.filter(d => d.hp > 0 && !d.isDocked)
+        ];
+        // [Fix] 伤害来源取爆炸的所有者 (原先固定记为坦克)；碰撞等系统爆炸记为环境
+        const explosionSourceType = state.players.find(pl => pl.id === ownerId)?.type ?? CharacterType.ENVIRONMENT;
+
+        targets.forEach(target => {
+            // 基础检查
+            if ('isDead' in target && target.isDead) return;
+            if (selfImmune && (target.id === ownerId || ('ownerId' in target && target.ownerId === ownerId))) return;
+
+
+
+            const d = Utils.dist(pos, target.pos);
+            if (d < radius + target.radius) {
+                const damageFactor = 1 - (d / (radius + target.radius));
+                const finalDamage = damage * Math.max(0, damageFactor);
+
+                if ('isSummon' in target) {
+                    // 命中无人机
+                    target.hp -= finalDamage;
+                    if (target.hp <= 0) {
+                        killEntity(target, ownerId); // [修改] 使用统一击杀逻辑
+                    }
+                } else {
+                    // 命中玩家
+                    takeDamage(target, finalDamage, explosionSourceType, DamageType.PHYSICAL, 'EXPLOSION', ownerId);
+
+                    const pushDir = Utils.normalize(Utils.sub(target.pos, pos));
+                    const baseForce = 10400;
+                    const force = baseForce * damageFactor;
+
+                    applyKnockback(target, pushDir, force);
+                    interruptAction(target); // Explosion interrupts (Artillery, Death)
+                    applyStatus(target, 'slow', 2.4, ownerId);
+                }
+            }
+        });
+    };
+
+
+
+    const updateStatus = (p: PlayerState, dt: number) => {
+        if (p.skillCooldown > 0) p.skillCooldown -= dt;
+        if (p.secondarySkillCooldown > 0) p.secondarySkillCooldown -= dt;
+        if (p.attackCooldown > 0) p.attackCooldown -= dt;
+        if (p.slowTimer > 0) p.slowTimer -= dt;
+        if (p.healTimer > 0) p.healTimer -= dt;
+        if (p.wukongThrustTimer > 0) p.wukongThrustTimer -= dt;
+        if (p.pounceCooldown > 0) p.pounceCooldown -= dt;
+        if (p.disarmTimer > 0) p.disarmTimer -= dt;
+        if (p.silenceTimer > 0) p.silenceTimer -= dt;
+        if (p.fearTimer > 0) p.fearTimer -= dt;
+        if (p.stunTimer > 0) p.stunTimer -= dt;
+        if (p.blindTimer > 0) p.blindTimer -= dt;
+        if (p.tauntTimer > 0) p.tauntTimer -= dt;
+        if (p.rootTimer > 0) p.rootTimer -= dt;
+        if (p.sleepTimer > 0) p.sleepTimer -= dt;
+        if ((p.petrifyTimer || 0) > 0) p.petrifyTimer! -= dt;
+        if ((p.charmTimer || 0) > 0) p.charmTimer! -= dt;
+        if ((p.stealthTimer || 0) > 0) p.stealthTimer! -= dt;
+        if ((p.hasteTimer || 0) > 0) p.hasteTimer! -= dt;
+        if ((p.magicShieldTimer || 0) > 0) p.magicShieldTimer! -= dt;
+        if ((p.lightSpiritTimer || 0) > 0) p.lightSpiritTimer! -= dt;
+        if ((p.ccImmuneTimer || 0) > 0) p.ccImmuneTimer! -= dt;
+        if ((p.forcedMoveTimer || 0) > 0) p.forcedMoveTimer! -= dt;
+        if ((p.aimLockTimer || 0) > 0) p.aimLockTimer! -= dt;
+
+        if (p.type === CharacterType.CAT && p.isPouncing) {
+            p.pounceTimer -= dt;
+
+            if (Utils.mag(p.vel) < 8.0 || p.pounceTimer <= 0) {
+                p.isPouncing = false;
+
+                p.attackCooldown = 0.5;
+
+                if (p.bufferedInput === 'HISS') {
+                    handleCatHiss(p);
+                    p.bufferedInput = 'NONE';
+                }
+            }
+        }
+
+        if (p.invincibleTimer && p.invincibleTimer > 0) p.invincibleTimer -= dt;
+
+        // Idle Animation Logic for Cat
+        if (p.type === CharacterType.CAT) {
+            // 检测各种动作状态
+            const input = currentInputs[p.id];
+            const isMoving = Utils.mag(p.vel) > 1.0 || (!!input && (input.move.x !== 0 || input.move.y !== 0));
+            const isAttacking = p.attackCooldown > 0; // 刚刚进行了攻击
+            const isUsingSkill = p.skillCooldown > 0 || p.secondarySkillCooldown > 0; // 刚刚使用了技能
+
+            // 检测转向（面朝方向改变）
+            const prevAngle = p.prevAimAngle ?? p.aimAngle;
+            let angleDiff = Math.abs(p.aimAngle - prevAngle);
+            // 处理角度环绕（-π 到 π）
+            if (angleDiff > Math.PI) angleDiff = 2 * Math.PI - angleDiff;
+            const isTurning = angleDiff > 0.05; // 转向阈值（约3度）
+
+            // 更新上一次的角度
+            p.prevAimAngle = p.aimAngle;
+
+            // 只有在没有任何动作时才累积 idleTimer
+            if (!isMoving && !isAttacking && !isUsingSkill && !isTurning) {
+                p.idleTimer = (p.idleTimer || 0) + dt;
+            } else {
+                p.idleTimer = 0;
+            }
+        }
+
+        // Combo Timer Reset Logic (Must be outside water check to work globally)
+        if (p.type === CharacterType.WUKONG && p.wukongComboStep > 0) {
+            p.wukongComboTimer -= dt;
+            if (p.wukongComboTimer <= 0) p.wukongComboStep = 0;
+        }
+
+        // Water Effects & Drowning
+        if (p.isWet) {
+            // Pyro always steams when wet (regardless of speed)
+            if (p.type === CharacterType.PYRO && random() < 0.4) {
+                state.particles.push({
+                    id: random().toString(),
+                    pos: Utils.add(p.pos, { x: (random() - 0.5) * 20, y: (random() - 0.5) * 20 }),
+                    vel: { x: (random() - 0.5) * 1, y: -2 - random() * 2 },
+                    life: 0.6 + random() * 0.4,
+                    maxLife: 1.0,
+                    color: 'rgba(226, 232, 240, 0.7)',
+                    size: 6 + random() * 6,
+                    drag: 0.92
+                });
+            }
+
+            // Drowning Damage: Pyro drowns whenever wet. Others only when stationary.
+            const isStationary = Utils.mag(p.vel) < 0.8;
+            if (p.type === CharacterType.PYRO || isStationary) {
+                takeDamage(p, 50 * dt, CharacterType.ENVIRONMENT, DamageType.WATER, 'DROWNING');
+
+                // Bubbles for non-pyro only when drowning (stationary)
+                if (p.type !== CharacterType.PYRO && isStationary && random() < 0.2) {
+                    state.particles.push({
+                        id: random().toString(),
+                        pos: Utils.add(p.pos, { x: (random() - 0.5) * 20, y: (random() - 0.5) * 20 }),
+                        vel: { x: (random() - 0.5) * 0.5, y: -1.7 }, // Faster upward movement
+                        life: 0.8, maxLife: 0.8, // Float higher
+                        color: '#bae6fd',
+                        size: 2.5 + random() * 2 // Larger bubbles
+                    });
+                }
+            }
+        }
+
+        if (p.burnTimer > 0) {
+            p.burnTimer -= dt;
+            const flatBurn = 25;
+            const percentBurn = p.maxHp * 0.015;
+
+            // [New] Resolve burn source
+            let burnSourceType = CharacterType.ENVIRONMENT;
+            if (p.burnSourceId) {
+                const source = state.players.find(sp => sp.id === p.burnSourceId);
+                if (source) burnSourceType = source.type;
+            }
+
+            takeDamage(p, (flatBurn + percentBurn) * dt, burnSourceType, DamageType.FIRE, 'BURN', p.burnSourceId);
+
+            if (random() < 0.2) {
+                spawnParticles(p.pos, 1, '#f97316', 1, 0.6);
+            }
+        }
+
+        if (p.flameExposure > 0) {
+            p.flameExposure -= 10 * dt;
+            if (p.flameExposure < 0) p.flameExposure = 0;
+        }
+
+        // 角色专属资源与计时 (燃料、弹药、无人机、法力与护盾)
+        getCharacter(p.type)?.updateResources?.(p, dt, abilityContext);
+    };
+
+    const updateGroundEffects = (state: GameState, dt: number) => {
+        state.groundEffects = state.groundEffects.filter(g => g.life > 0);
+        state.groundEffects.forEach(g => {
+            g.life -= dt;
+
+            // 铲屎官之怒：预警阶段
+            if (g.type === 'SCOOPER_WARNING') {
+                // 1. 追踪逻辑
+                if (g.targetId) {
+                    // 修复点：先在 players 数组里找
+                    let target: any = state.players.find(p => p.id === g.targetId);
+
+                    // 如果不是玩家，在无人机里找
+                    if (!target) {
+                        target = state.drones.find(d => d.id === g.targetId);
+                    }
+
+                    if (target && !target.isDead && (target.hp > 0 || target.hp === undefined)) {
+                        // 缓慢移动向目标 (例如每帧移动 2-3 像素)
+                        const speed = 0.5;
+                        const vec = Utils.sub(target.pos, g.pos);
+                        const dist = Utils.mag(vec);
+                        if (dist > speed) {
+                            const move = Utils.mult(Utils.normalize(vec), speed);
+                            g.pos = Utils.add(g.pos, move);
+                        }
+                    }
+                }
+
+                // 2. 倒计时结束：降临
+                if (g.life <= 0) {
+                    // 触发伤害
+                    triggerScooperSmash(state, g.pos, g.ownerId, g.radius);
+
+                    // 生成视觉特效 (原本的 SCOOPER_SMASH)
+                    state.groundEffects.push({
+                        id: random().toString(),
+                        pos: g.pos,
+                        radius: g.radius,
+                        life: 0.5, // 动画持续时间
+                        maxLife: 0.5,
+                        type: 'SCOOPER_SMASH',
+                        ownerId: g.ownerId
+                    });
+                }
+                return; // 预警圈本身没有碰撞伤害
+            }
+
+            // Delayed Magma Detonation
+            if (g.type === 'MAGMA_POOL' && g.isPendingDetonation && g.detonationTimer !== undefined) {
+                g.detonationTimer -= dt;
+                if (g.detonationTimer <= 0) {
+                    const owner = state.players.find(p => p.id === g.ownerId);
+                    if (owner) {
+                        triggerMagmaPoolExplosion(g, owner);
+                        audio.playSkill('MAGMA_EXPLODE');
+                        // Screen Shake
+                        state.camera.y += 5;
+                        state.camera.x += (random() - 0.5) * 10;
+                    }
+                    g.life = 0; // Terminate effect
+                    return;
+                }
+            }
+
+            if (g.type === 'WUKONG_SMASH' || g.type === 'CRACK') {
+                if (random() < 0.2) {
+                    const offset = Utils.mult({ x: random() - 0.5, y: random() - 0.5 }, g.radius * 2 || 40);
+                    spawnParticles(Utils.add(g.pos, offset), 1, '#fef08a', 0.5, 0.5);
+                }
+                return;
+            }
+
+            // PATRONUS WAVE Logic
+            if (g.type === 'PATRONUS_WAVE') {
+                const owner = state.players.find(p => p.id === g.ownerId);
+                if (!owner) {
+                    g.life = 0;
+                    return;
+                }
+
+                // Calculate current radius based on expansion
+                // Progress: 0 to 1
+                const progress = 1 - (g.life / g.maxLife);
+                const stats = CHAR_STATS[CharacterType.MAGIC];
+                const maxRange = stats.patronusRange;
+                const startRadius = g.radius; // Initial radius (50)
+                const currentRadius = startRadius + progress * (maxRange - startRadius);
+
+                // Check collisions
+                // Targets: Enemies (Players and Drones)
+                const targets = [
+                    ...state.players.filter(p => p.id !== g.ownerId && p.teamId !== owner.teamId && !p.isDead),
+                    ...state.drones.filter(d => d.ownerId !== g.ownerId && (!state.players.find(p => p.id === d.ownerId) || state.players.find(p => p.id === d.ownerId)?.teamId !== owner.teamId) && d.hp > 0)
+                ];
+
+                targets.forEach(target => {
+                    // Check if already hit by *this* specific wave
+                    if (g.hitTargets && g.hitTargets.includes(target.id)) return;
+
+                    // Collision check (Circle)
+                    const dist = Utils.dist(g.pos, target.pos);
+                    if (dist < currentRadius + target.radius) {
+                        // Apply Effects
+
+                        // 1. Damage (Reduced per wave since there are 3)
+                        const baseDamage = 30; // 3 waves * 30 = 90 base. 
+                        const ratio = g.powerRatio || 1;
+                        const damage = baseDamage * ratio;
+
+                        if ('isSummon' in target) {
+                            target.hp -= damage;
+                            if (target.hp <= 0) killEntity(target, g.ownerId);
+                        } else {
+                            takeDamage(target, damage, CharacterType.MAGIC, DamageType.MAGIC, 'MAGIC_PATRONUS', g.ownerId);
+                        }
+
+                        // 2. Knockback
+                        const dir = Utils.normalize(Utils.sub(target.pos, g.pos));
+                        const baseKnockback = stats.patronusKnockback;
+                        const knockback = baseKnockback * ratio;
+
+                        if ('isSummon' in target) {
+                            // Manual knockback for Drones
+                            const impulse = knockback * 2;
+                            const dv = Utils.mult(dir, impulse / target.mass);
+                            target.vel = Utils.add(target.vel, dv);
+                        } else {
+                            applyKnockback(target, dir, knockback);
+                            interruptAction(target); // Patronus hit interrupts
+                        }
+
+                        // 3. Visuals
+                        spawnParticles(target.pos, 5, '#f8fafc', 5);
+
+                        // 4. Mark as hit
+                        if (!g.hitTargets) g.hitTargets = [];
+                        g.hitTargets.push(target.id);
+                    }
+                });
+
+                return;
+            }
+
+            if (g.type === 'SCOOPER_SMASH') {
+                // Just visual placeholder, logic handled in timeout
+                return;
+            }
+
+            state.players.forEach(p => {
+                if (Utils.dist(p.pos, g.pos) < g.radius + p.radius) {
+                    if (g.type === 'MAGMA_POOL') {
+                        handleMagmaInteraction(p, dt, g.ownerId);
+                    }
+                }
+            });
+
+            if (g.type === 'MAGMA_POOL' && random() < 0.4) {
+                const offset = Utils.mult({ x: random() - 0.5, y: random() - 0.5 }, g.radius * 2);
+                spawnParticles(Utils.add(g.pos, offset), 1, '#ef4444', 0.5, 0.5);
+            }
+        });
+    };
+
+    const triggerScooperSmash = (state: GameState, center: Vector2, ownerId: string, radius: number) => {
+        audio.playSkill('SMASH_HIT');
+        // Screen Shake
+        state.screenShakeTimer = 0.4;
+        state.screenShakeIntensity = 500; // Match Wukong's max charge intensity
+
+
+        for (let i = 0; i < 3; i++) {
+            state.groundEffects.push({
+                id: random().toString(),
+                pos: { ...center },
+                radius: 0,
+                width: 30 + random() * 20, // 裂缝宽度
+                length: radius * (1.8 + random() * 0.5), // 裂缝长度
+                rotation: random() * Math.PI * 2, // 随机角度
+                life: 4.0, // 持续时间
+                maxLife: 4.0,
+                type: 'CRACK',
+                ownerId: ownerId
+            });
+        }
+
+        state.obstacles = state.obstacles.filter(obs => {
+            if (obs.type === 'WATER' || obs.type === 'LAVA') return true; // 水域/岩浆不可破坏          
+            const col = Utils.checkCircleRectCollision(center, radius, obs);
+            if (col.collided) {
+                // 墙体破碎特效
+                const wallCenter = { x: obs.x + obs.width / 2, y: obs.y + obs.height / 2 };
+                spawnParticles(wallCenter, 30, '#475569', 12, 1.2); // 灰色碎石
+                return false; // 移除该障碍物
+            }
+            return true; // 保留未命中的障碍物
+        });
+
+        const targets: any[] = [...state.players, ...state.drones.filter(d => d.hp > 0 && !d.isDocked)];
+        const damage = CHAR_STATS[CharacterType.CAT].scoopDamage;
+
+        targets.forEach(t => {
+            if (t.type === CharacterType.CAT) return;
+            if (t.isDead) return;
+
+            const dist = Utils.dist(center, t.pos); // 获取距离
+            if (dist < radius + t.radius) {
+
+                const distanceFactor = 1 - (dist / (radius + t.radius));
+                const finalDmgMultiplier = 0.2 + (0.8 * Math.max(0, distanceFactor));
+                const finalDamage = damage * finalDmgMultiplier;
+
+                // 造成伤害
+                if ('isSummon' in t) {
+                    t.hp -= finalDamage;
+                    if (t.hp <= 0) {
+                        killEntity(t, ownerId);
+                    }
+                } else {
+                    takeDamage(t, finalDamage, CharacterType.CAT, DamageType.PHYSICAL, 'CAT_SCOOPER', ownerId);
+                    applyStatus(t, 'stun', 2.0);
+                    t.statusLabel = 'status.flattened';
+                }
+                spawnParticles(t.pos, 20, '#b91c1c', 8);
+            }
+        });
+    };
+
+    const updateParticles = (state: GameState, dt: number) => {
+        state.particles.forEach(p => {
+            if (p.drag) p.vel = Utils.mult(p.vel, p.drag);
+            p.pos = Utils.add(p.pos, Utils.mult(p.vel, dt * 60));
+            p.life -= dt;
+            if (p.spin) p.angle = (p.angle || 0) + p.spin;
+        });
+        state.particles = state.particles.filter(p => p.life > 0);
+    };
+
+    const updateFloatingTexts = (state: GameState, dt: number) => {
+        state.floatingTexts = state.floatingTexts.filter(t => t.life > 0);
+        state.floatingTexts.forEach(t => {
+            t.pos.y += t.velY * dt * 60;
+            t.life -= dt;
+        });
+    };
+
+    // 移形换影动画更新
+    const updateApparitionAnimation = (p: PlayerState, dt: number) => {
+        if (!p.apparitionPhase || p.apparitionPhase === 'NONE') return;
+
+        p.apparitionTimer = (p.apparitionTimer || 0) - dt;
+        const themeColor = p.magicForm === 'WHITE' ? '#fef08a' : '#22c55e';
+        const trailColor = p.magicForm === 'WHITE' ? '#fef08a' : '#22c55e';
+        const coreColor = p.magicForm === 'WHITE' ? '#ffffff' : '#1f2937';
+
+        if (p.apparitionPhase === 'DISAPPEARING') {
+            // 消失阶段：模拟黑洞吞噬效果
+            const progress = 1 - (p.apparitionTimer || 0) / 0.5; // 0 -> 1 (0.5s duration)
+
+            // 生成向球心收缩的粒子（像被吸入黑洞）
+            const particleCount = Math.floor(2 + random() * 2); // 每帧生成2-3个粒子
+            for (let i = 0; i < particleCount; i++) {
+                const angle = random() * Math.PI * 2;
+                const dist = p.radius * (2.5 - progress * 2) * (0.5 + random() * 0.5);
+                const particlePos = Utils.add(p.apparitionStartPos!, {
+                    x: Math.cos(angle) * dist,
+                    y: Math.sin(angle) * dist
+                });
+                const toCenter = Utils.sub(p.apparitionStartPos!, particlePos);
+                const speed = 3 + progress * 5;
+                const vel = Utils.mult(Utils.normalize(toCenter), speed);
+
+                state.particles.push({
+                    id: random().toString(),
+                    pos: particlePos,
+                    vel: vel,
+                    life: 0.3,
+                    maxLife: 0.3,
+                    color: random() > 0.3 ? themeColor : coreColor,
+                    size: 3 + random() * 3,
+                    drag: 0.98,
+                    type: 'circle'
+                });
+            }
+
+            // 添加中心漩涡效果
+            if (random() < 0.5) {
+                const spiralAngle = simNow() * 0.01 + random() * Math.PI;
+                const spiralDist = p.radius * (1 - progress) * 0.5;
+                state.particles.push({
+                    id: random().toString(),
+                    pos: Utils.add(p.apparitionStartPos!, {
+                        x: Math.cos(spiralAngle) * spiralDist,
+                        y: Math.sin(spiralAngle) * spiralDist
+                    }),
+                    vel: { x: 0, y: 0 },
+                    life: 0.1,
+                    maxLife: 0.1,
+                    color: themeColor,
+                    size: 3 + progress * 5,
+                    type: 'circle'
+                });
+            }
+
+            // 阶段切换
+            if (p.apparitionTimer! <= 0) {
+                p.apparitionPhase = 'FLYING';
+                p.apparitionTimer = 0.5; // 飞行阶段0.5秒
+            }
+        }
+        else if (p.apparitionPhase === 'FLYING') {
+            // 飞行阶段：闪电形态飞行
+            const progress = 1 - (p.apparitionTimer || 0) / 0.5; // 0 -> 1 (0.5s duration)
+
+            // 使用 easeInOutCubic 缓动使移动更流畅
+            const easedProgress = progress < 0.5
+                ? 4 * progress * progress * progress
+                : 1 - Math.pow(-2 * progress + 2, 3) / 2;
+
+            // 更新位置
+            const startPos = p.apparitionStartPos!;
+            const endPos = p.apparitionEndPos!;
+            p.pos = {
+                x: startPos.x + (endPos.x - startPos.x) * easedProgress,
+                y: startPos.y + (endPos.y - startPos.y) * easedProgress
+            };
+
+            // 计算飞行方向
+            const dir = Utils.normalize(Utils.sub(endPos, startPos));
+            const perpDir = { x: -dir.y, y: dir.x }; // 垂直方向用于颤动效果
+
+            // 生成闪电拖尾粒子
+            const trailCount = Math.floor(2 + random() * 2); // 每帧生成2-3个粒子
+            for (let i = 0; i < trailCount; i++) {
+                const tremor = (random() - 0.5) * 15;
+                const trailPos = Utils.add(p.pos, Utils.mult(perpDir, tremor));
+                const trailVel = Utils.mult(dir, -3 - random() * 5);
+                state.particles.push({
+                    id: random().toString(),
+                    pos: trailPos,
+                    vel: {
+                        x: trailVel.x + (random() - 0.5) * 2,
+                        y: trailVel.y + (random() - 0.5) * 2
+                    },
+                    life: 0.25,
+                    maxLife: 0.3,
+                    color: random() > 0.2 ? trailColor : '#ffffff',
+                    size: 3 + random() * 4,
+                    drag: 0.95,
+                    type: 'circle'
+                });
+            }
+
+            // 生成电弧效果
+            if (random() < 0.4) {
+                const arcOffset = (random() - 0.5) * 40;
+                const arcPos = Utils.add(p.pos, Utils.mult(perpDir, arcOffset));
+                state.particles.push({
+                    id: random().toString(),
+                    pos: arcPos,
+                    vel: { x: (random() - 0.5) * 8, y: (random() - 0.5) * 8 },
+                    life: 0.1,
+                    maxLife: 0.1,
+                    color: '#ffffff',
+                    size: 1 + random() * 2,
+                    type: 'circle'
+                });
+            }
+
+            // 阶段切换
+            if (p.apparitionTimer! <= 0) {
+                p.apparitionPhase = 'APPEARING';
+                p.apparitionTimer = 0.2;
+                p.pos = { ...endPos };
+
+                // 播放到达音效和屏幕震动
+                audio.playSkill('BLINK');
+                state.screenShakeTimer = 0.2;
+                state.screenShakeIntensity = 100;
+
+                // 一次性生成爆发粒子
+                spawnParticles(p.pos, 30, themeColor, 12, 0.6);
+            }
+        }
+        else if (p.apparitionPhase === 'APPEARING') {
+            // 出现阶段：等待动画结束（粒子已在阶段切换时通过spawnParticles生成）
+            if (p.apparitionTimer! <= 0) {
+                p.apparitionPhase = 'NONE';
+            }
+        }
+    };
+
+    const spawnParticles = (pos: Vector2, count: number, color: string, speed = 2, life = 0.5, drag = 1.0) => {
+        for (let i = 0; i < count; i++) {
+            const angle = random() * Math.PI * 2;
+            const vel = { x: Math.cos(angle) * random() * speed, y: Math.sin(angle) * random() * speed };
+            state.particles.push({
+                id: random().toString(),
+                pos: { ...pos },
+                vel,
+                life: life * (0.5 + random() * 0.5),
+                maxLife: life,
+                color,
+                size: random() * 4 + 2,
+                drag,
+                type: 'circle'
+            });
+        }
+    };
+
+    const spawnShards = (pos: Vector2, count: number, color: string) => {
+        for (let i = 0; i < count; i++) {
+            const angle = random() * Math.PI * 2;
+            const speed = 3 + random() * 5;
+            const size = 2 + random() * 4; // [Refine] Much smaller shards (2-6)
+
+            // Random polygon (Triangle)
+            const pts: Vector2[] = [];
+            const segments = 3;
+            for (let j = 0; j < segments; j++) {
+                const a = (j / segments) * Math.PI * 2 + (random() - 0.5) * 0.5;
+                pts.push({
+                    x: Math.cos(a) * size,
+                    y: Math.sin(a) * size
+                });
+            }
+
+            state.particles.push({
+                id: random().toString(),
+                pos: { ...pos },
+                vel: { x: Math.cos(angle) * speed, y: Math.sin(angle) * speed },
+                life: 0.8 + random() * 0.4,
+                maxLife: 1.2,
+                color: random() > 0.3 ? color : '#ffffff',
+                size,
+                type: 'shard',
+                angle: random() * Math.PI * 2,
+                spin: (random() - 0.5) * 0.3,
+                points: pts,
+                drag: 0.96
+            });
+        }
+    };
+
+    // [Global Effects] 任意玩家蓄力阿瓦达时触发全局子弹时间 (由同步状态驱动)
+    const updateGlobalEffects = () => {
+        const isAnyAvadaCharging = state.players.some(p => p.avadaCharging);
+
+        if (isAnyAvadaCharging) {
+            state.timeScale = 0.1;
+            state.globalFilter = 'grayscale(100%) brightness(0.9)';
+        } else {
+            state.timeScale = 1.0;
+            state.globalFilter = undefined;
+        }
+    };
+
+    const step = (inputs: InputFrame) => {
+        currentInputs = inputs;
+        update(SIM_CONFIG.FIXED_DT * (state.timeScale || 1.0) * (state.debugTimeScale ?? 1));
+        updateGlobalEffects();
+        state.tick++;
+
+        state.players.forEach(p => {
+            prevInputs.set(p.id, inputs[p.id] || NEUTRAL_INPUT);
+        });
+    };
+
+    // [Snapshot] 深拷贝模拟状态 (含输入边沿与飘字冷却)；粒子通常是状态中最大的部分，回滚时不保存
+    const snapshot = ({ cosmetic = true }: { cosmetic?: boolean } = {}): EngineSnapshot => structuredClone({
+        state: cosmetic ? state : { ...state, particles: [], floatingTexts: [] },
+        prevInputs: Array.from(prevInputs.entries()),
+        textCooldowns: Array.from(textCooldowns.entries()),
+        cosmetic
+    });
+
+    const restore = (snap: EngineSnapshot) => {
+        const copy = structuredClone(snap);
+        if (!copy.cosmetic) {
+            copy.state.particles = state.particles;
+            copy.state.floatingTexts = state.floatingTexts;
+            copy.state.camera = state.camera;
+            copy.state.screenShakeTimer = state.screenShakeTimer;
+            copy.state.screenShakeIntensity = state.screenShakeIntensity;
+        }
+        state = copy.state;
+        prevInputs.clear();
+        copy.prevInputs.forEach(([id, input]) => prevInputs.set(id, input));
+        textCooldowns.clear();
+        copy.textCooldowns.forEach(([id, cds]) => textCooldowns.set(id, cds));
+    };
+
+    // [Rollback] 重演时粒子与飘字写入临时数组，结束后换回原画面，避免同一效果重复出现
+    const resimulate = (frames: InputFrame[]) => {
+        const { particles, floatingTexts, camera, screenShakeTimer, screenShakeIntensity } = state;
+        state.particles = [];
+        state.floatingTexts = [];
+        state.camera = { ...camera };
+        resimulating = true;
+        try {
+            frames.forEach(frame => step(frame));
+        } finally {
+            resimulating = false;
+            state.particles = particles;
+            state.floatingTexts = floatingTexts;
+            state.camera = camera;
+            state.screenShakeTimer = screenShakeTimer;
+            state.screenShakeIntensity = screenShakeIntensity;
+        }
+    };
+
+    // Start Beacon Animation
+    state.players.forEach(p => {
+        // [Modified] Only render spawn animation for human players' own balls
+        if (p.isBot) return;
+
+        // We use a custom 'START_BEACON' for a friendly indicator
+        state.groundEffects.push({
+            id: `start_beacon_${p.id}`,
+            pos: { ...p.pos },
+            radius: 120, // Slightly larger
+            life: 1.6,   // Lasts 2.2 seconds (slightly faster)
+            maxLife: 1.6,
+            type: 'START_BEACON',
+            ownerId: p.id
+        });
+        // Also some themed particles
+        spawnParticles(p.pos, 30, p.color, 6, 2.0);
+
+        // [New] Entrance Line for Black Magic Ball
+        if (p.type === CharacterType.MAGIC && p.magicForm === 'BLACK') {
+            p.statusLabel = 'floating.greaterGood';
+            p.statusLabelColor = "#22c55e";
+        }
+    });
+
+    // [Ability] 技能与角色钩子使用的引擎接口
+    const abilityContext: AbilityContext = {
+        getState: () => state,
+        simNow,
+        audio,
+        spawnParticles,
+        applyStatus,
+        isControlled,
+        effects: {
+            handleCatPounce, handleCatScratch, handleCatHiss, handleCatScooper,
+            handleWukongCombo, releaseWukongThrust, releaseWukongSmash,
+            calculatePyroShape, fireFlamethrower, castMagmaPool, detonateMagmaPools,
+            fireArtillery, fireLMG, deployDrone,
+            handleMagicCurse, handleMagicProtection, handleMagicUltimate, releaseAvada
+        }
+    };
+
+    // [Ability] 技能运行器：玩家输入与 AI 通过同一接口施放技能
+    const abilityRunner = createAbilityRunner(abilityContext);
+
+    // [AI] 电脑玩家：通用核心 + 按角色注册的策略，只通过该上下文访问引擎
+    const aiController = createAIController({
+        getState: () => state,
+        random,
+        simNow,
+        audio,
+        getEnemies,
+        getNearestEnemy,
+        getDangerZones: (p: PlayerState) => getDangerZones(p, state),
+        getPointDangerInfo,
+        getApproachDir,
+        spawnParticles,
+        calculatePyroShape,
+        abilities: abilityRunner
+    });
+
+    // [Training] 训练场操作
+    const setTrainingSettings = (patch: Partial<TrainingSettings>) => {
+        if (!state.training) return;
+        state.training = { ...state.training, ...patch };
+        // 切回固定靶时让移动中的靶子停下
+        if (patch.dummyMode === 'STATIONARY') {
+            state.players.forEach(p => { if (p.isBot) p.vel = { x: 0, y: 0 }; });
+        }
+    };
+
+    const spawnTrainingDummy = (type: CharacterType) => {
+        if (!state.training) return;
+        const dummies = state.players.filter(p => p.isBot);
+        if (dummies.length >= TRAINING_MAX_DUMMIES) return;
+        const human = getHumanPlayer();
+        // 靶子依次排在玩家周围一圈
+        const angle = (dummies.length / TRAINING_MAX_DUMMIES) * Math.PI * 2;
+        const radius = CHAR_STATS[type].radius;
+        const preferred = {
+            x: Utils.clamp(human.pos.x + Math.cos(angle) * TRAINING_DUMMY_DISTANCE, radius, MAP_SIZE.width - radius),
+            y: Utils.clamp(human.pos.y + Math.sin(angle) * TRAINING_DUMMY_DISTANCE, radius, MAP_SIZE.height - radius)
+        };
+        const pos = findSafeSpawnPosition(type, preferred, state.obstacles, radius);
+        let index = 0;
+        while (state.players.some(p => p.id === `dummy_${index}`)) index++;
+        const dummy = createPlayer(type, pos, `dummy_${index}`, 1, true);
+        dummy.trainingHome = { ...pos };
+        state.players.push(dummy);
+        spawnParticles(pos, 20, dummy.color, 5, 1.0);
+    };
+
+    const clearTrainingDummies = () => {
+        if (!state.training) return;
+        const removed = new Set(state.players.filter(p => p.isBot).map(p => p.id));
+        state.players = state.players.filter(p => !removed.has(p.id));
+        state.drones = state.drones.filter(d => !removed.has(d.ownerId));
+        state.groundEffects = state.groundEffects.filter(g => !g.ownerId || !removed.has(g.ownerId));
+        state.projectiles = state.projectiles.filter(pr => !removed.has(pr.ownerId));
+    };
+
+    const applyTrainingStatus = (targetId: string, status: string) => {
+        if (!state.training || !STATUS_CONFIG[status]) return;
+        const target = state.players.find(p => p.id === targetId && !p.isDead);
+        if (!target) return;
+        // 嘲讽与灼烧需要来源：施加给靶子时来源是玩家，施加给自己时来源是最近的靶子
+        const source = target.isBot ? getHumanPlayer() : getNearestEnemy(target);
+        applyStatus(target, status, TRAINING_STATUS_DURATION, source?.id);
+    };
+
+    // [Console] 开发者控制台操作：与对局使用相同的创建、状态、击杀与障碍物逻辑，直接修改状态而不经过输入
+    const debugSpawn = (type: CharacterType, teamId: number, pos: Vector2, isBot: boolean, difficulty?: AIDifficulty) => {
+        const radius = CHAR_STATS[type].radius;
+        const preferred = {
+            x: Utils.clamp(pos.x, radius, MAP_SIZE.width - radius),
+            y: Utils.clamp(pos.y, radius, MAP_SIZE.height - radius)
+        };
+        const spawnPos = findSafeSpawnPosition(type, preferred, state.obstacles, radius);
+        let index = 0;
+        while (state.players.some(p => p.id === `debug_${index}`)) index++;
+        const p = createPlayer(type, spawnPos, `debug_${index}`, teamId, isBot, difficulty);
+        if (state.training) p.trainingHome = { ...spawnPos };
+        state.players.push(p);
+        spawnParticles(spawnPos, 20, p.color, 5, 1.0);
+        return p;
+    };
+
+    const findDebugTarget = (targetId: string): PlayerState | Drone | undefined =>
+        state.players.find(p => p.id === targetId && !p.isDead) || state.drones.find(d => d.id === targetId && d.hp > 0);
+
+    const debugApplyStatus = (targetId: string, status: string, duration: number) => {
+        const target = findDebugTarget(targetId);
+        if (!target || !STATUS_CONFIG[status]) return false;
+        // 嘲讽与灼烧需要来源，取目标最近的敌人
+        const source = 'isSummon' in target ? null : getNearestEnemy(target);
+        applyStatus(target, status, duration, source?.id);
+        return true;
+    };
+
+    const debugKill = (targetId: string) => {
+        const target = findDebugTarget(targetId);
+        if (!target) return false;
+        killEntity(target, 'system');
+        return true;
+    };
+
+    const debugAddObstacle = (type: Obstacle['type'], center: Vector2, width: number, height: number) => {
+        let index = 0;
+        while (state.obstacles.some(o => o.id === `debug-${index}`)) index++;
+        const obstacle: Obstacle = {
+            id: `debug-${index}`,
+            x: center.x - width / 2,
+            y: center.y - height / 2,
+            width,
+            height,
+            type,
+            priority: state.obstacles.length
+        };
+        state.obstacles.push(obstacle);
+        return obstacle;
+    };
+
+    const setDebugTimeScale = (scale: number) => {
+        state.debugTimeScale = scale === 1 ? undefined : scale;
+    };
+
+    // 只重置随机数状态；state.seed 仍是开局种子
+    const debugReseed = (seed: number) => {
+        state.rngState = seed >>> 0;
+    };
+
+    return {
+        getState: () => state,
+        step,
+        getHumanPlayer,
+        getNearestEnemy,
+        getStatusInfo,
+        isControlled,
+        getEnemies,
+        getDangerZones: (p: PlayerState) => getDangerZones(p, state),
+        snapshot,
+        restore,
+        resimulate,
+        setTrainingSettings,
+        spawnTrainingDummy,
+        clearTrainingDummies,
+        applyTrainingStatus,
+        debugSpawn,
+        debugApplyStatus,
+        debugKill,
+        debugAddObstacle,
+        setDebugTimeScale,
+        debugReseed,
+        getAIIntent: aiController.getIntent,
+    };
+};
@@ -0,0 +1,9 @@
+export { createEngine, gateAudio, getConfigPlayerId, SILENT_AUDIO, NEUTRAL_INPUT } from './engine';
+export type { AudioSink, DamageEvent, DamageSkill, Engine, EngineOptions, EngineSnapshot } from './types';
+export type { AIIntent } from './ai';
+export { REPLAY_VERSION, ReplayParseError, createReplayRecorder, getReplayInputs, parseReplay } from './replay';
+export type { ReplayData, ReplayInputRow, ReplayMeta, ReplayRecorder } from './replay';
+export { createDamageMeter } from './training';
+export type { DamageHit, DamageMeter, SkillDamage } from './training';
+export { CONSOLE_COMMANDS, ConsoleCommandError, runConsoleCommand } from './console';
+export type { ConsoleContext, ConsoleResult } from './console';
@@ -0,0 +1,252 @@
+/**
+ * 寻路 —— AI 绕开墙体与危险地形
+ *
+ * 地图按 NAV_CELL_SIZE 划分为网格：与墙体 (按球的半径外扩) 相交的格子不可通行，
+ * 水域、岩浆按角色的 HAZARD_AFFINITY 折算为额外的通行代价。A* 在网格上求出路径后
+ * 再做视线平滑，得到少量的路点。网格只依赖障碍物，墙被打碎时由引擎重建。
+ *
+ * 纯函数、不使用随机数，结果只取决于输入，不影响模拟的确定性。
+ */
+import type { Obstacle, Vector2 } from '../types';
+import { MAP_SIZE, DEFAULT_HAZARD_AFFINITY } from '../constants';
+import * as Utils from '../utils';
+
+export const NAV_CELL_SIZE = 50;
+// 墙体外扩距离：约为球的平均半径，格子中心离墙小于此距离即视为不可通行
+const WALL_CLEARANCE = 30;
+// 单位亲和度对应的额外代价 (亲和度 <= 0 的地形不加代价)
+const WATER_COST = 6;
+const LAVA_COST = 12;
+
+const FLAG_WALL = 1;
+const FLAG_WATER = 2;
+const FLAG_LAVA = 4;
+
+export interface NavGrid {
+    cols: number;
+    rows: number;
+    // 每格的地形位掩码 (FLAG_*)
+    flags: Uint8Array;
+}
+
+// 每格的通行代价 (>= 1)，Infinity 表示不可通行
+export type NavCosts = Float32Array;
+
+export type HazardAffinity = typeof DEFAULT_HAZARD_AFFINITY;
+
+const cellCenter = (grid: NavGrid, index: number): Vector2 => ({
+    x: (index % grid.cols + 0.5) * NAV_CELL_SIZE,
+    y: (Math.floor(index / grid.cols) + 0.5) * NAV_CELL_SIZE
+});
+
+const cellIndex = (grid: NavGrid, pos: Vector2): number => {
+    const col = Utils.clamp(Math.floor(pos.x / NAV_CELL_SIZE), 0, grid.cols - 1);
+    const row = Utils.clamp(Math.floor(pos.y / NAV_CELL_SIZE), 0, grid.rows - 1);
+    return row * grid.cols + col;
+};
+
+export const buildNavGrid = (obstacles: Obstacle[]): NavGrid => {
+    const cols = Math.ceil(MAP_SIZE.width / NAV_CELL_SIZE);
+    const rows = Math.ceil(MAP_SIZE.height / NAV_CELL_SIZE);
+    const grid: NavGrid = { cols, rows, flags: new Uint8Array(cols * rows) };
+
+    for (let i = 0; i < grid.flags.length; i++) {
+        const center = cellCenter(grid, i);
+        let flags = 0;
+        for (const obs of obstacles) {
+            if (obs.type === 'WALL') {
+                if (Utils.checkCircleRectCollision(center, WALL_CLEARANCE, obs).collided) flags |= FLAG_WALL;
+            } else if (center.x >= obs.x && center.x <= obs.x + obs.width && center.y >= obs.y && center.y <= obs.y + obs.height) {
+                flags |= obs.type === 'WATER' ? FLAG_WATER : FLAG_LAVA;
+            }
+        }
+        grid.flags[i] = flags;
+    }
+    return grid;
+};
+
+export const buildNavCosts = (grid: NavGrid, affinity: HazardAffinity): NavCosts => {
+    const costs = new Float32Array(grid.flags.length);
+    for (let i = 0; i < costs.length; i++) {
+        const flags = grid.flags[i];
+        if (flags & FLAG_WALL) {
+            costs[i] = Infinity;
+            continue;
+        }
+        let cost = 1;
+        if (flags & FLAG_WATER) cost += Math.max(0, affinity.WATER) * WATER_COST;
+        if (flags & FLAG_LAVA) cost += Math.max(0, affinity.MAGMA) * LAVA_COST;
+        costs[i] = cost;
+    }
+    return costs;
+};
+
+// 线段经过的格子都可通行且没有额外代价 (不穿墙、不涉水/岩浆)
+export const isPathClear = (grid: NavGrid, costs: NavCosts, from: Vector2, to: Vector2): boolean => {
+    const distance = Utils.dist(from, to);
+    const steps = Math.ceil(distance / (NAV_CELL_SIZE / 3));
+    for (let i = 1; i <= steps; i++) {
+        const t = i / steps;
+        const cost = costs[cellIndex(grid, { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t })];
+        if (cost > 1) return false;
+    }
+    return true;
+};
+
+// 起点/终点落在墙内 (贴墙站立) 时，取最近的可通行格子
+const nearestOpenCell = (grid: NavGrid, costs: NavCosts, index: number): number => {
+    if (costs[index] !== Infinity) return index;
+    const col = index % grid.cols;
+    const row = Math.floor(index / grid.cols);
+    const maxRadius = Math.max(grid.cols, grid.rows);
+    for (let r = 1; r < maxRadius; r++) {
+        let best = -1;
+        let bestDist = Infinity;
+        for (let dy = -r; dy <= r; dy++) {
+            for (let dx = -r; dx <= r; dx++) {
+                if (Math.max(Math.abs(dx), Math.abs(dy)) !== r) continue;
+                const c = col + dx;
+                const rr = row + dy;
+                if (c < 0 || rr < 0 || c >= grid.cols || rr >= grid.rows) continue;
+                const i = rr * grid.cols + c;
+                const d = dx * dx + dy * dy;
+                if (costs[i] !== Infinity && d < bestDist) {
+                    best = i;
+                    bestDist = d;
+                }
+            }
+        }
+        if (best >= 0) return best;
+    }
+    return -1;
+};
+
+// 最小堆 (按 f 值)，值相同时按格子下标，保证结果与平台无关。
+// 条目保存入堆时的 f 值：格子的 f 变小时重新入堆，旧条目由调用方在出堆时跳过
+type HeapEntry = [score: number, index: number];
+
+const createHeap = () => {
+    const items: HeapEntry[] = [];
+    const less = (a: HeapEntry, b: HeapEntry) => a[0] < b[0] || (a[0] === b[0] && a[1] < b[1]);
+    return {
+        size: () => items.length,
+        push: (item: HeapEntry) => {
+            items.push(item);
+            let i = items.length - 1;
+            while (i > 0) {
+                const parent = (i - 1) >> 1;
+                if (!less(items[i], items[parent])) break;
+                [items[i], items[parent]] = [items[parent], items[i]];
+                i = parent;
+            }
+        },
+        pop: (): HeapEntry => {
+            const top = items[0];
+            const last = items.pop()!;
+            if (items.length > 0) {
+                items[0] = last;
+                let i = 0;
+                for (; ;) {
+                    const l = i * 2 + 1;
+                    const r = l + 1;
+                    let m = i;
+                    if (l < items.length && less(items[l], items[m])) m = l;
+                    if (r < items.length && less(items[r], items[m])) m = r;
+                    if (m === i) break;
+                    [items[i], items[m]] = [items[m], items[i]];
+                    i = m;
+                }
+            }
+            return top;
+        }
+    };
+};
+
+const NEIGHBORS: [number, number, number][] = [
+    [1, 0, 1], [-1, 0, 1], [0, 1, 1], [0, -1, 1],
+    [1, 1, Math.SQRT2], [1, -1, Math.SQRT2], [-1, 1, Math.SQRT2], [-1, -1, Math.SQRT2]
+];
+
+/**
+ * A* 求从 from 到 to 的路径，返回平滑后的路点 (不含起点，最后一个为 to)。
+ * 无法到达时返回 null。
+ */
+export const findPath = (grid: NavGrid, costs: NavCosts, from: Vector2, to: Vector2): Vector2[] | null => {
+    const start = nearestOpenCell(grid, costs, cellIndex(grid, from));
+    const goal = nearestOpenCell(grid, costs, cellIndex(grid, to));
+    if (start < 0 || goal < 0) return null;
+
+    const size = costs.length;
+    const g = new Float64Array(size).fill(Infinity);
+    const f = new Float64Array(size).fill(Infinity);
+    const parent = new Int32Array(size).fill(-1);
+    const closed = new Uint8Array(size);
+    const goalCol = goal % grid.cols;
+    const goalRow = Math.floor(goal / grid.cols);
+    // 八方向距离 (octile)，代价下限为 1，启发式可采纳
+    const heuristic = (i: number) => {
+        const dx = Math.abs(i % grid.cols - goalCol);
+        const dy = Math.abs(Math.floor(i / grid.cols) - goalRow);
+        return Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy);
+    };
+
+    const open = createHeap();
+    g[start] = 0;
+    f[start] = heuristic(start);
+    open.push([f[start], start]);
+
+    while (open.size() > 0) {
+        const [score, current] = open.pop();
+        // 之后找到了更短的路径，此条目已过期
+        if (closed[current] || score > f[current]) continue;
+        if (current === goal) break;
+        closed[current] = 1;
+
+        const col = current % grid.cols;
+        const row = Math.floor(current / grid.cols);
+        for (const [dx, dy, step] of NEIGHBORS) {
+            const c = col + dx;
+            const r = row + dy;
+            if (c < 0 || r < 0 || c >= grid.cols || r >= grid.rows) continue;
+            const next = r * grid.cols + c;
+            if (closed[next] || costs[next] === Infinity) continue;
+            // 斜向移动不能切过墙角
+            if (dx !== 0 && dy !== 0 && (costs[row * grid.cols + c] === Infinity || costs[r * grid.cols + col] === Infinity)) continue;
+
+            const tentative = g[current] + step * (costs[current] + costs[next]) / 2;
+            if (tentative < g[next]) {
+                g[next] = tentative;
+                f[next] = tentative + heuristic(next);
+                parent[next] = current;
+                open.push([f[next], next]);
+            }
+        }
+    }
+    if (start !== goal && parent[goal] < 0) return null;
+
+    // 回溯出格子中心序列，终点换成真实目标位置
+    const cells: Vector2[] = [];
+    for (let i = goal; i !== start && i >= 0; i = parent[i]) cells.push(cellCenter(grid, i));
+    cells.reverse();
+    if (cells.length === 0 || costs[cellIndex(grid, to)] !== Infinity) {
+        cells[Math.max(0, cells.length - 1)] = { x: to.x, y: to.y };
+    }
+
+    // 视线平滑：从当前锚点直接跳到能无阻挡到达的最远路点
+    const path: Vector2[] = [];
+    let anchor = from;
+    let i = 0;
+    while (i < cells.length) {
+        let next = i;
+        for (let j = cells.length - 1; j > i; j--) {
+            if (isPathClear(grid, costs, anchor, cells[j])) {
+                next = j;
+                break;
+            }
+        }
+        path.push(cells[next]);
+        anchor = cells[next];
+        i = next + 1;
+    }
+    return path;
+};
@@ -0,0 +1,143 @@
+/**
+ * Replay —— 对局录像
+ *
+ * 引擎是确定性的：相同的种子 + 配置 + 每步输入 => 完全相同的对局。
+ * 因此录像只需保存这三样东西，回放时重新模拟即可，无需记录任何实体状态。
+ *
+ * 输入流采用"变化时记录"的紧凑格式，每行为
+ *   [tick, moveX, moveY, buttons, aimX, aimY]
+ * buttons 为位掩码 (primary=1, secondary=2, ultimate=4, toggleMode=8)，队伍指令按 TEAM_COMMANDS 的序号 + 1
+ * 存在第 4 位起的高位中。某一行一直生效到同一玩家的下一行。
+ */
+import type { AIDifficulty, CharacterType, GameConfig, InputFrame, PlayerInput } from '../types';
+import type { MessageKey, MessageParams } from '../i18n';
+import { SIM_CONFIG, TEAM_COMMANDS } from '../constants';
+
+// 模拟逻辑变化导致旧录像无法重演时递增 (2: AI 改为沿 A* 路径绕开障碍; 3: 组队 AI 共享黑板;
+// 4: AI 改为通过技能运行器施放技能，与玩家共用冷却、消耗与蓄力规则)
+export const REPLAY_VERSION = 4;
+
+export type ReplayInputRow = [number, number, number, number, number, number];
+
+export interface ReplayData {
+    version: number;
+    seed: number;
+    playerType: CharacterType;
+    enemyType?: CharacterType | 'RANDOM';
+    // [Difficulty] 快速开始的电脑对手难度 (缺省为 NORMAL)
+    enemyDifficulty?: AIDifficulty;
+    customConfig?: GameConfig | null;
+    tickRate: number;
+    totalTicks: number;
+    createdAt: number;
+    inputs: Record<string, ReplayInputRow[]>;
+}
+
+export type ReplayMeta = Pick<ReplayData, 'seed' | 'playerType' | 'enemyType' | 'enemyDifficulty' | 'customConfig'>;
+
+const BUTTON_PRIMARY = 1;
+const BUTTON_SECONDARY = 2;
+const BUTTON_ULTIMATE = 4;
+const BUTTON_TOGGLE_MODE = 8;
+const COMMAND_SHIFT = 4;
+
+const encodeInput = (tick: number, input: PlayerInput): ReplayInputRow => [
+    tick,
+    input.move.x,
+    input.move.y,
+    (input.primary ? BUTTON_PRIMARY : 0) | (input.secondary ? BUTTON_SECONDARY : 0) |
+    (input.ultimate ? BUTTON_ULTIMATE : 0) | (input.toggleMode ? BUTTON_TOGGLE_MODE : 0) |
+    (input.command ? (TEAM_COMMANDS.indexOf(input.command) + 1) << COMMAND_SHIFT : 0),
+    Math.round(input.aim.x),
+    Math.round(input.aim.y)
+];
+
+const decodeInput = (row: ReplayInputRow): PlayerInput => {
+    const input: PlayerInput = {
+        move: { x: row[1], y: row[2] },
+        aim: { x: row[4], y: row[5] },
+        primary: (row[3] & BUTTON_PRIMARY) !== 0,
+        secondary: (row[3] & BUTTON_SECONDARY) !== 0,
+        ultimate: (row[3] & BUTTON_ULTIMATE) !== 0,
+        toggleMode: (row[3] & BUTTON_TOGGLE_MODE) !== 0
+    };
+    const command = TEAM_COMMANDS[(row[3] >> COMMAND_SHIFT) - 1];
+    if (command) input.command = command;
+    return input;
+};
+
+const sameRow = (a: ReplayInputRow, b: ReplayInputRow) => {
+    for (let i = 1; i < a.length; i++) if (a[i] !== b[i]) return false;
+    return true;
+};
+
+export interface ReplayRecorder {
+    // 记录第 tick 步送入引擎的输入帧 (须在 engine.step 之前/同时调用，tick 为当时的 state.tick)
+    record: (tick: number, frame: InputFrame) => void;
+    finish: (totalTicks: number) => ReplayData;
+}
+
+export const createReplayRecorder = (meta: ReplayMeta): ReplayRecorder => {
+    const inputs: Record<string, ReplayInputRow[]> = {};
+
+    const record = (tick: number, frame: InputFrame) => {
+        Object.entries(frame).forEach(([id, input]) => {
+            const rows = inputs[id] || (inputs[id] = []);
+            const row = encodeInput(tick, input);
+            const last = rows[rows.length - 1];
+            if (!last || !sameRow(last, row)) rows.push(row);
+        });
+    };
+
+    const finish = (totalTicks: number): ReplayData => ({
+        version: REPLAY_VERSION,
+        ...meta,
+        tickRate: SIM_CONFIG.TICK_RATE,
+        totalTicks,
+        createdAt: Date.now(),
+        inputs: structuredClone(inputs)
+    });
+
+    return { record, finish };
+};
+
+// 取得第 tick 步所有录制玩家的输入 (二分查找最后一条 <= tick 的记录)
+export const getReplayInputs = (replay: ReplayData, tick: number): InputFrame => {
+    const frame: InputFrame = {};
+    Object.entries(replay.inputs).forEach(([id, rows]) => {
+        let lo = 0;
+        let hi = rows.length - 1;
+        let found = -1;
+        while (lo <= hi) {
+            const mid = (lo + hi) >> 1;
+            if (rows[mid][0] <= tick) {
+                found = mid;
+                lo = mid + 1;
+            } else {
+                hi = mid - 1;
+            }
+        }
+        if (found >= 0) frame[id] = decodeInput(rows[found]);
+    });
+    return frame;
+};
+
+// 录像校验失败；message 为消息键，由界面按当前语言显示
+export class ReplayParseError extends Error {
+    constructor(public readonly key: MessageKey, public readonly params?: MessageParams) {
+        super(key);
+        this.name = 'ReplayParseError';
+    }
+}
+
+// 校验外部导入的录像文件，不合法时抛出 ReplayParseError
+export const parseReplay = (raw: unknown): ReplayData => {
+    const data = raw as ReplayData;
+    if (!data || typeof data !== 'object') throw new ReplayParseError('replay.error.format');
+    if (data.version !== REPLAY_VERSION) throw new ReplayParseError('replay.error.version', { version: String(data.version) });
+    if (typeof data.seed !== 'number' || typeof data.totalTicks !== 'number' || !data.inputs || !data.playerType) {
+        throw new ReplayParseError('replay.error.fields');
+    }
+    if (data.tickRate !== SIM_CONFIG.TICK_RATE) throw new ReplayParseError('replay.error.tickRate', { tickRate: String(data.tickRate) });
+    return data;
+};
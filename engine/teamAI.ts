@@ -0,0 +1,269 @@
+/**
+ * 团队 AI 黑板 (2v2 / 3v3)
+ *
+ * 每个模拟步为人数 >= 2 的队伍汇总一次战场信息，供该队的电脑玩家共享：
+ * 集火目标、需要回防的残血队友、队友技能的危险区域 (避免挡枪与友军误伤)，
+ * 以及可配合的连招 (把敌人击退进队友的岩浆池)。
+ * 真人玩家还可以下达队伍指令 (集火、集合、坚守、撤退)，电脑玩家优先执行直到指令过期。
+ * 黑板与指令都保存在 GameState 中，随快照一起恢复，回放与回滚保持确定性。
+ */
+import { CharacterType, TankMode } from '../types';
+import type { Drone, GameState, PlayerState, TeamBlackboard, TeamCommand, TeamCommandType, Vector2 } from '../types';
+import { CHAR_STATS, MAP_SIZE, TEAM_COMMAND_CONFIG, TEAM_COMMAND_RETREAT_DISTANCE } from '../constants';
+import * as Utils from '../utils';
+
+// 集火目标至少保持的时间 (秒)，避免频繁换目标
+const FOCUS_HOLD_TIME = 2.0;
+// 集火目标比最近的敌人远出此距离以内时才去集火
+const FOCUS_MAX_DETOUR = 300;
+// 残血回防：队友血量比例低于此值且敌人在其附近时，离威胁最近的健康电脑玩家回防
+const PEEL_HP_RATIO = 0.35;
+const PEEL_THREAT_RANGE = 300;
+const PEEL_RESPONSE_RANGE = 800;
+// 突刺击退的大致位移 (像素)
+const THRUST_KNOCKBACK_DISTANCE = 200;
+// 悟空配合岩浆池：目标离池边在此距离内时，绕到目标背离池子一侧的站位距离
+const POOL_COMBO_RANGE = 300;
+const POOL_COMBO_FLANK_DISTANCE = 180;
+
+type GetEnemies = (p: PlayerState) => (PlayerState | Drone)[];
+
+const isPlayer = (e: PlayerState | Drone): e is PlayerState => !('ownerId' in e);
+
+const aimDir = (p: PlayerState): Vector2 => ({ x: Math.cos(p.aimAngle), y: Math.sin(p.aimAngle) });
+
+// 集火评分 (越低越优先)：残血、离队伍近、正被控制的敌人
+const focusScore = (enemy: PlayerState, centroid: Vector2, isControlled: (p: PlayerState) => boolean) =>
+    (enemy.hp / enemy.maxHp) * 100 + Utils.dist(centroid, enemy.pos) / 10 - (isControlled(enemy) ? 30 : 0);
+
+const collectAllyHazards = (state: GameState, members: PlayerState[]): TeamBlackboard['allyHazards'] => {
+    const hazards: TeamBlackboard['allyHazards'] = [];
+    members.forEach(ally => {
+        const dir = aimDir(ally);
+        if (ally.type === CharacterType.PYRO && ally.isFiringFlamethrower) {
+            hazards.push({
+                ownerId: ally.id,
+                zone: {
+                    type: 'RECT', hazardType: 'SKILL', p1: ally.pos,
+                    p2: Utils.add(ally.pos, Utils.mult(dir, ally.currentWeaponRange || CHAR_STATS.PYRO.flamethrowerRange)),
+                    width: 90, timeLeft: 0.5, weight: 1
+                }
+            });
+        }
+        if (ally.type === CharacterType.TANK && ally.tankMode === TankMode.LMG && !ally.isReloadingLmg) {
+            hazards.push({
+                ownerId: ally.id,
+                zone: { type: 'RECT', hazardType: 'SKILL', p1: ally.pos, p2: Utils.add(ally.pos, Utils.mult(dir, 450)), width: 50, timeLeft: 0.5, weight: 1 }
+            });
+        }
+        if (ally.type === CharacterType.WUKONG && ally.wukongChargeState === 'THRUST') {
+            hazards.push({
+                ownerId: ally.id,
+                zone: {
+                    type: 'RECT', hazardType: 'SKILL', p1: ally.pos,
+                    p2: Utils.add(ally.pos, Utils.mult(dir, CHAR_STATS.WUKONG.thrustMaxRange)),
+                    width: 50, timeLeft: Math.max(0, ally.wukongMaxCharge - ally.wukongChargeTime), weight: 1
+                }
+            });
+        }
+        if (ally.type === CharacterType.WUKONG && ally.wukongChargeState === 'SMASH') {
+            const timeLeft = ally.wukongChargeTime < ally.wukongMaxCharge
+                ? ally.wukongMaxCharge - ally.wukongChargeTime + CHAR_STATS.WUKONG.smashMaxHoldTime
+                : Math.max(0, CHAR_STATS.WUKONG.smashMaxHoldTime - ally.wukongChargeHoldTimer);
+            hazards.push({
+                ownerId: ally.id,
+                zone: {
+                    type: 'RECT', hazardType: 'SKILL', p1: ally.pos,
+                    p2: Utils.add(ally.pos, Utils.mult(dir, CHAR_STATS.WUKONG.smashMaxRange)),
+                    width: CHAR_STATS.WUKONG.smashWidthMax, timeLeft, weight: 1
+                }
+            });
+        }
+    });
+
+    // 飞行中的友军炮弹：落点的爆炸范围
+    const memberIds = new Set(members.map(m => m.id));
+    state.projectiles.forEach(proj => {
+        if (proj.projectileType !== 'BOMB' || !memberIds.has(proj.ownerId) || !proj.targetPos) return;
+        hazards.push({
+            ownerId: proj.ownerId,
+            zone: { type: 'CIRCLE', hazardType: 'SKILL', center: proj.targetPos, radius: proj.aoeRadius || CHAR_STATS.TANK.artilleryRadius, timeLeft: proj.life, weight: 1 }
+        });
+    });
+    return hazards;
+};
+
+// 队友悟空蓄力突刺时，突刺线上的敌人会被击退到的位置
+const collectKnockbackSetups = (members: PlayerState[], getEnemies: GetEnemies): TeamBlackboard['knockbackSetups'] => {
+    const setups: TeamBlackboard['knockbackSetups'] = [];
+    members.forEach(ally => {
+        if (ally.type !== CharacterType.WUKONG || ally.wukongChargeState !== 'THRUST') return;
+        const dir = aimDir(ally);
+        getEnemies(ally).filter(isPlayer).forEach(enemy => {
+            const along = Utils.dot(Utils.sub(enemy.pos, ally.pos), dir);
+            if (along < 0 || along > CHAR_STATS.WUKONG.thrustMaxRange) return;
+            const closest = Utils.add(ally.pos, Utils.mult(dir, along));
+            if (Utils.dist(enemy.pos, closest) > enemy.radius + 20) return;
+            setups.push({ ownerId: ally.id, enemyId: enemy.id, landing: Utils.add(enemy.pos, Utils.mult(dir, THRUST_KNOCKBACK_DISTANCE)) });
+        });
+    });
+    return setups;
+};
+
+const pickPeel = (members: PlayerState[], getEnemies: GetEnemies): TeamBlackboard['peel'] => {
+    const endangered = members
+        .filter(m => m.hp / m.maxHp < PEEL_HP_RATIO)
+        .sort((a, b) => a.hp / a.maxHp - b.hp / b.maxHp);
+    for (const ally of endangered) {
+        let threat: PlayerState | null = null;
+        getEnemies(ally).filter(isPlayer).forEach(e => {
+            const d = Utils.dist(e.pos, ally.pos);
+            if (d < PEEL_THREAT_RANGE && (!threat || d < Utils.dist(threat.pos, ally.pos))) threat = e;
+        });
+        if (!threat) continue;
+        const threatPos = (threat as PlayerState).pos;
+        let peeler: PlayerState | null = null;
+        members.forEach(m => {
+            if (!m.isBot || m.id === ally.id || m.hp / m.maxHp < 0.5) return;
+            const d = Utils.dist(m.pos, threatPos);
+            if (d < PEEL_RESPONSE_RANGE && (!peeler || d < Utils.dist(peeler.pos, threatPos))) peeler = m;
+        });
+        if (peeler) return { allyId: ally.id, threatId: (threat as PlayerState).id, peelerId: (peeler as PlayerState).id };
+    }
+    return null;
+};
+
+// 每个模拟步开始时调用，刷新各队的黑板 (单人队伍不建黑板，AI 行为与原来一致)
+export const updateTeamBlackboards = (
+    state: GameState,
+    getEnemies: GetEnemies,
+    isControlled: (p: PlayerState) => boolean,
+    dt: number
+) => {
+    const teams = new Map<number, PlayerState[]>();
+    state.players.forEach(p => {
+        if (p.type === CharacterType.COACH) return;
+        const list = teams.get(p.teamId) || [];
+        list.push(p);
+        teams.set(p.teamId, list);
+    });
+
+    const boards: Record<number, TeamBlackboard> = {};
+    teams.forEach((roster, teamId) => {
+        if (roster.length < 2) return;
+        const members = roster.filter(p => !p.isDead);
+        if (members.length === 0) return;
+        const prev = state.teamBlackboards?.[teamId];
+
+        // 集火：保持当前目标直到其死亡、所有队员都看不到或保持时间结束
+        const visible = new Map<string, PlayerState>();
+        members.forEach(m => getEnemies(m).filter(isPlayer).forEach(e => visible.set(e.id, e)));
+        let focusTargetId = prev?.focusTargetId ?? null;
+        let focusTimer = (prev?.focusTimer ?? 0) - dt;
+        if (!focusTargetId || !visible.has(focusTargetId) || focusTimer <= 0) {
+            const centroid = Utils.mult(members.reduce((sum, m) => Utils.add(sum, m.pos), { x: 0, y: 0 }), 1 / members.length);
+            let best: PlayerState | null = null;
+            let bestScore = Infinity;
+            visible.forEach(e => {
+                const score = focusScore(e, centroid, isControlled);
+                if (score < bestScore) {
+                    best = e;
+                    bestScore = score;
+                }
+            });
+            focusTargetId = best ? (best as PlayerState).id : null;
+            focusTimer = FOCUS_HOLD_TIME;
+        }
+
+        boards[teamId] = {
+            focusTargetId,
+            focusTimer,
+            peel: pickPeel(members, getEnemies),
+            allyHazards: collectAllyHazards(state, members),
+            magmaPools: state.groundEffects
+                .filter(g => g.type === 'MAGMA_POOL' && members.some(m => m.id === g.ownerId))
+                .map(g => ({ ownerId: g.ownerId!, pos: { ...g.pos }, radius: g.radius })),
+            knockbackSetups: collectKnockbackSetups(members, getEnemies)
+        };
+    });
+    state.teamBlackboards = Object.keys(boards).length > 0 ? boards : undefined;
+};
+
+// 电脑玩家的目标：负责回防时盯住威胁，其次集火 (不为此绕太远)，否则最近的敌人
+export const pickTeamTarget = (ai: PlayerState, nearest: PlayerState | Drone | null, board: TeamBlackboard, visible: (PlayerState | Drone)[]) => {
+    if (board.peel?.peelerId === ai.id) {
+        const threat = visible.find(e => e.id === board.peel!.threatId);
+        if (threat) return threat;
+    }
+    if (board.focusTargetId) {
+        const focus = visible.find(e => e.id === board.focusTargetId);
+        if (focus && (!nearest || Utils.dist(ai.pos, focus.pos) <= Utils.dist(ai.pos, nearest.pos) + FOCUS_MAX_DETOUR)) return focus;
+    }
+    return nearest;
+};
+
+// 接近目标时的落脚点：悟空在目标靠近队友岩浆池时绕到目标背离池子的一侧，
+// 之后朝目标突刺/连击即可把它打进池子；其余情况直接走向目标
+export const getComboApproachGoal = (ai: PlayerState, target: { pos: Vector2 }, board: TeamBlackboard | undefined): Vector2 => {
+    if (!board || ai.type !== CharacterType.WUKONG || ai.wukongChargeState !== 'NONE') return target.pos;
+    const pool = board.magmaPools.find(m => Utils.dist(m.pos, target.pos) < m.radius + POOL_COMBO_RANGE);
+    if (!pool) return target.pos;
+    const flankPos = Utils.add(target.pos, Utils.mult(Utils.normalize(Utils.sub(target.pos, pool.pos)), POOL_COMBO_FLANK_DISTANCE));
+    return Utils.dist(ai.pos, flankPos) > 60 ? flankPos : target.pos;
+};
+
+// 指令目标点离地图边缘的最小距离
+const COMMAND_MAP_MARGIN = 60;
+
+const clampToMap = (pos: Vector2): Vector2 => ({
+    x: Utils.clamp(pos.x, COMMAND_MAP_MARGIN, MAP_SIZE.width - COMMAND_MAP_MARGIN),
+    y: Utils.clamp(pos.y, COMMAND_MAP_MARGIN, MAP_SIZE.height - COMMAND_MAP_MARGIN)
+});
+
+/**
+ * [Command] 下达队伍指令 (覆盖本队之前的指令)；同队没有电脑玩家时忽略。
+ * ATTACK 锁定离瞄准点最近的可见敌人，REGROUP 跟随下令者，HOLD 坚守瞄准点，
+ * RETREAT 退到下令者背离敌方重心的位置。
+ */
+export const issueTeamCommand = (state: GameState, issuer: PlayerState, type: TeamCommandType, aim: Vector2, getEnemies: GetEnemies) => {
+    if (!state.players.some(p => p.teamId === issuer.teamId && p.isBot && p.id !== issuer.id)) return;
+    const { duration } = TEAM_COMMAND_CONFIG[type];
+    const command: TeamCommand = { type, issuerId: issuer.id, pos: clampToMap(aim), life: duration, maxLife: duration };
+    const enemies = getEnemies(issuer).filter(isPlayer);
+
+    if (type === 'ATTACK') {
+        let target: PlayerState | null = null;
+        enemies.forEach(e => {
+            if (!target || Utils.dist(e.pos, aim) < Utils.dist(target.pos, aim)) target = e;
+        });
+        if (!target) return;
+        command.targetId = (target as PlayerState).id;
+        command.pos = { ...(target as PlayerState).pos };
+    } else if (type === 'REGROUP') {
+        command.pos = { ...issuer.pos };
+    } else if (type === 'RETREAT') {
+        const away = enemies.length > 0
+            ? Utils.sub(issuer.pos, Utils.mult(enemies.reduce((sum, e) => Utils.add(sum, e.pos), { x: 0, y: 0 }), 1 / enemies.length))
+            : { x: 0, y: 0 };
+        command.pos = Utils.mag(away) > 0
+            ? clampToMap(Utils.add(issuer.pos, Utils.mult(Utils.normalize(away), TEAM_COMMAND_RETREAT_DISTANCE)))
+            : clampToMap(issuer.pos);
+    }
+    state.teamCommands = { ...state.teamCommands, [issuer.teamId]: command };
+};
+
+// [Command] 每个模拟步推进指令计时，标记跟随目标/下令者；过期、ATTACK 目标死亡或 REGROUP 下令者阵亡时撤销
+export const updateTeamCommands = (state: GameState, dt: number) => {
+    if (!state.teamCommands) return;
+    const commands: Record<number, TeamCommand> = {};
+    Object.entries(state.teamCommands).forEach(([teamId, command]) => {
+        const life = command.life - dt;
+        const issuer = state.players.find(p => p.id === command.issuerId);
+        const target = command.targetId ? state.players.find(p => p.id === command.targetId) : undefined;
+        if (life <= 0 || (command.targetId && (!target || target.isDead))) return;
+        if (command.type === 'REGROUP' && (!issuer || issuer.isDead)) return;
+        const pos = target ? target.pos : command.type === 'REGROUP' ? issuer!.pos : command.pos;
+        commands[Number(teamId)] = { ...command, life, pos: { ...pos } };
+    });
+    state.teamCommands = Object.keys(commands).length > 0 ? commands : undefined;
+};
@@ -0,0 +1,116 @@
+/**
+ * 训练场 —— 玩家作弊开关与伤害统计
+ *
+ * 训练场中所有电脑玩家都是靶子 (不攻击，被击倒后原地复活)，对局不会结束。
+ * 无限资源与冷却重置只作用于真人玩家，每个模拟步在驱动逻辑之前生效。
+ */
+import type { DamageType, GameState } from '../types';
+import { TRAINING_DPS_WINDOW } from '../constants';
+import type { DamageEvent, DamageSkill } from './types';
+
+export const applyTrainingSettings = (state: GameState) => {
+    const settings = state.training;
+    if (!settings) return;
+    state.players.forEach(p => {
+        if (p.isBot || p.isDead) return;
+        if (settings.infiniteResources) {
+            p.fuel = p.maxFuel;
+            p.isBurnedOut = false;
+            p.artilleryAmmo = p.maxArtilleryAmmo;
+            p.lmgAmmo = p.maxLmgAmmo;
+            p.isReloadingLmg = false;
+            if (p.maxMp !== undefined) p.mp = p.maxMp;
+        }
+        if (settings.resetCooldowns) {
+            p.skillCooldown = 0;
+            p.secondarySkillCooldown = 0;
+            p.pounceCooldown = 0;
+            p.wukongThrustTimer = 0;
+            if (p.droneState === 'CHARGING' || p.droneState === 'RECONSTRUCTING') {
+                p.droneState = 'READY';
+                p.droneTimer = 0;
+            }
+        }
+    });
+};
+
+export interface DamageHit {
+    time: number; // 模拟时间 (秒)
+    targetId: string;
+    amount: number;
+    damageType: DamageType;
+    skill: DamageSkill | 'OTHER';
+}
+
+export interface SkillDamage {
+    skill: DamageSkill | 'OTHER';
+    amount: number;
+    hits: number;
+}
+
+export interface DamageMeter {
+    record: (event: DamageEvent) => void;
+    // 最近 TRAINING_DPS_WINDOW 秒内的每秒伤害
+    getDps: () => number;
+    getTotal: () => number;
+    // 按技能汇总，伤害从高到低
+    getBreakdown: () => SkillDamage[];
+    // 最近的若干次伤害，最新的在前
+    getRecentHits: (count: number) => DamageHit[];
+    reset: () => void;
+}
+
+// 持续伤害每步都会触发一次，同技能同目标在该时间段内的伤害合并为一次记录
+const HIT_MERGE_INTERVAL = 0.25;
+const MAX_HITS = 200;
+
+export const createDamageMeter = (getTime: () => number): DamageMeter => {
+    let hits: DamageHit[] = [];
+    let breakdown = new Map<DamageSkill | 'OTHER', SkillDamage>();
+    let total = 0;
+
+    const record = ({ targetId, amount, damageType, skill: damageSkill }: DamageEvent) => {
+        const time = getTime();
+        const skill = damageSkill || 'OTHER';
+        total += amount;
+
+        const entry = breakdown.get(skill) || { skill, amount: 0, hits: 0 };
+        entry.amount += amount;
+        breakdown.set(skill, entry);
+
+        // 多个靶子同时受到持续伤害时记录会交错，需要向前找同技能同目标的上一次
+        let last: DamageHit | undefined;
+        for (let i = hits.length - 1; i >= 0 && time - hits[i].time < HIT_MERGE_INTERVAL; i--) {
+            if (hits[i].skill === skill && hits[i].targetId === targetId) { last = hits[i]; break; }
+        }
+        if (last) {
+            last.amount += amount;
+            return;
+        }
+        entry.hits++;
+        hits.push({ time, targetId, amount, damageType, skill });
+        if (hits.length > MAX_HITS) hits = hits.slice(-MAX_HITS);
+    };
+
+    const getDps = () => {
+        const now = getTime();
+        const recent = hits.filter(h => now - h.time <= TRAINING_DPS_WINDOW);
+        if (recent.length === 0) return 0;
+        // 刚开始输出时按实际经过的时间计算 (至少 1 秒)，避免读数偏低
+        const elapsed = Math.max(1, Math.min(TRAINING_DPS_WINDOW, now - recent[0].time));
+        return recent.reduce((sum, h) => sum + h.amount, 0) / elapsed;
+    };
+
+    return {
+        record,
+        getDps,
+        getTotal: () => total,
+        getBreakdown: () => Array.from(breakdown.values()).sort((a, b) => b.amount - a.amount),
+        getRecentHits: (count) => hits.slice(-count).reverse(),
+        reset: () => {
+            hits = [];
+            breakdown = new Map();
+            total = 0;
+        }
+    };
+};
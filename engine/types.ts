@@ -0,0 +1,95 @@
+import type {
+    AIDifficulty, CharacterType, DamageType, DangerZone, Drone, GameConfig, GameState, InputFrame, Obstacle, PlayerInput, PlayerState,
+    Projectile, TrainingSettings, Vector2
+} from '../types';
+import type { Sound } from '../sound';
+import type { STATUS_CONFIG } from '../constants';
+import type { AIIntent } from './ai';
+
+// 引擎只通过该接口发声，客户端注入 Sound，无头环境使用静音实现
+export type AudioSink = Pick<typeof Sound, 'playShot' | 'playExplosion' | 'playHit' | 'playSkill' | 'playBurnout' | 'playUI'>;
+
+export interface EngineOptions {
+    playerType: CharacterType;
+    enemyType?: CharacterType | 'RANDOM';
+    customConfig?: GameConfig | null;
+    audio?: AudioSink;
+    // 随机种子；相同种子 + 相同输入序列 => 相同对局。缺省时随机生成
+    seed?: number;
+    // 本地视角的玩家 id (相机、HUD 与胜负判定)，缺省为 'player'
+    localPlayerId?: string;
+    // [Online] 联机客户端只做预测，对局结果以服务器下发的状态为准
+    serverAuthoritative?: boolean;
+    // [Rollback] 快速开始的对手 ('enemy') 由真人操作而非 AI (点对点对战)
+    humanOpponent?: boolean;
+    // [Difficulty] 快速开始中电脑对手的难度 (自定义对局按席位配置)，缺省为 NORMAL
+    enemyDifficulty?: AIDifficulty;
+    // [Training] 训练场：快速开始的对手 (enemyType) 作为靶子，对局不会结束
+    training?: boolean;
+    // [Balance] 玩家实际损失血量时回调 (护盾吸收与减伤之后)，用于统计；重演历史帧时不触发
+    onDamage?: (event: DamageEvent) => void;
+}
+
+// 造成伤害的技能 (投射物直接命中时为投射物类型)
+export type DamageSkill =
+    | 'CAT_SCRATCH' | 'CAT_POUNCE' | 'CAT_SCOOPER'
+    | 'MAGIC_AVADA' | 'MAGIC_LIGHT_SPIRIT' | 'MAGIC_PATRONUS'
+    | 'PYRO_FLAMETHROWER' | 'PYRO_MAGMA_POOL'
+    | 'WUKONG_COMBO' | 'WUKONG_THRUST' | 'WUKONG_SMASH' | 'WUKONG_WALL_SLAM'
+    | 'EXPLOSION' | 'COLLISION' | 'BURN' | 'DROWNING' | 'MAGMA_TERRAIN'
+    | Projectile['projectileType'];
+
+export interface DamageEvent {
+    targetId: string;
+    // 造成伤害的玩家 id；环境伤害 (岩浆地形、溺水等) 没有
+    sourceId?: string;
+    amount: number;
+    sourceType?: CharacterType;
+    damageType: DamageType;
+    skill?: DamageSkill;
+}
+
+// 可恢复的模拟快照 (深拷贝)，用于回放跳转、联机校正与回滚
+export interface EngineSnapshot {
+    state: GameState;
+    prevInputs: [string, PlayerInput][];
+    textCooldowns: [string, Record<string, number>][];
+    // 为 false 时不含粒子、飘字与相机等表现状态，恢复时保留当前画面 (更便宜，供每帧保存)
+    cosmetic: boolean;
+}
+
+export interface Engine {
+    getState: () => GameState;
+    // 推进一个固定步长 (SIM_CONFIG.FIXED_DT)，内部会乘以 timeScale
+    step: (inputs: InputFrame) => void;
+    getHumanPlayer: () => PlayerState;
+    getNearestEnemy: (p: PlayerState) => PlayerState | Drone | null;
+    getStatusInfo: (p: PlayerState) => (typeof STATUS_CONFIG)[string] | null;
+    isControlled: (p: PlayerState) => boolean;
+    // 该玩家可见的敌人 (存活的敌方玩家与无人机；隐身者只在近距离可见)，与 AI 索敌规则相同
+    getEnemies: (p: PlayerState) => (PlayerState | Drone)[];
+    // [Gym] AI 使用的危险区域 (技能预警、水域、岩浆等)，按该玩家的地形偏好计算
+    getDangerZones: (p: PlayerState) => DangerZone[];
+    snapshot: (options?: { cosmetic?: boolean }) => EngineSnapshot;
+    restore: (snap: EngineSnapshot) => void;
+    // 静音重演若干步 (回滚/校正用)：期间产生的表现效果丢弃，保留重演前的画面
+    resimulate: (frames: InputFrame[]) => void;
+    // [Training] 训练场操作 (非训练模式下无效)，直接修改状态而不经过输入
+    setTrainingSettings: (patch: Partial<TrainingSettings>) => void;
+    spawnTrainingDummy: (type: CharacterType) => void;
+    clearTrainingDummies: () => void;
+    // 对玩家或靶子施加 STATUS_CONFIG 中的状态，持续 TRAINING_STATUS_DURATION 秒
+    applyTrainingStatus: (targetId: string, status: string) => void;
+    // [Console] 开发者控制台操作，同样不经过输入 (使用后本局无法回放)
+    debugSpawn: (type: CharacterType, teamId: number, pos: Vector2, isBot: boolean, difficulty?: AIDifficulty) => PlayerState;
+    // 对存活的玩家或无人机施加状态；目标不存在时返回 false
+    debugApplyStatus: (targetId: string, status: string, duration: number) => boolean;
+    debugKill: (targetId: string) => boolean;
+    // 以 center 为中心放置障碍物
+    debugAddObstacle: (type: Obstacle['type'], center: Vector2, width: number, height: number) => Obstacle;
+    // 额外的时间倍率 (1 为正常速度)
+    setDebugTimeScale: (scale: number) => void;
+    debugReseed: (seed: number) => void;
+    // [Debug] 电脑玩家最近一次的决策 (目标、指令目标点与移动方向)，供调试叠加层绘制
+    getAIIntent: (id: string) => AIIntent | undefined;
+}
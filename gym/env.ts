@@ -0,0 +1,193 @@
+/**
+ * Gym 风格的强化学习环境 (Node)
+ *
+ * 配置中的真人席位 (isBot = false) 由训练端通过 step(actions) 控制，称为 agent；
+ * 电脑席位照常由 handleAI 驱动，可直接用来和手写 AI 对比。
+ * 每次 step 把同一组动作重复 frameSkip 个固定步长，奖励在这期间累计。
+ *
+ * 奖励 (按 agent 所在队伍计)：敌方损失的血量比例 × damageDealt + 己方损失的血量比例 × damageTaken，
+ * 分出胜负时再加上 victory / defeat。只统计血量下降，治疗与复活不计。
+ */
+import { CharacterType } from '../types';
+import type { GameConfig, PlayerState } from '../types';
+import { SIM_CONFIG } from '../constants';
+import { createEngine, getConfigPlayerId, SILENT_AUDIO } from '../engine';
+import type { Engine } from '../engine';
+import { getMatchOutcome, TEAM_SIZES } from '../balance';
+import type { BalanceMode } from '../balance';
+import { actionSpace, decodeAction, encodeObservation, observationSpace } from './spaces';
+import type { BoxSpace, GymAction } from './spaces';
+
+export const DEFAULT_FRAME_SKIP = 4;
+export const DEFAULT_EPISODE_SECONDS = 180;
+
+export interface GymRewardWeights {
+    damageDealt: number;
+    damageTaken: number;
+    victory: number;
+    defeat: number;
+}
+
+export const DEFAULT_REWARD_WEIGHTS: GymRewardWeights = { damageDealt: 1, damageTaken: -1, victory: 1, defeat: -1 };
+
+export interface GymEnvOptions {
+    frameSkip?: number;
+    // 单局时长上限，超时结束 (info.truncated = true)
+    maxSeconds?: number;
+    rewards?: Partial<GymRewardWeights>;
+}
+
+export type GymObservations = Record<string, number[]>;
+
+export interface GymInfo {
+    tick: number;
+    // 本局由 step 控制的玩家 id
+    agents: string[];
+    alive: Record<string, boolean>;
+    // 获胜队伍；未结束或平局为 null
+    winnerTeamId: number | null;
+    // 因时长上限结束 (而非分出胜负)
+    truncated: boolean;
+}
+
+export interface GymStepResult {
+    observation: GymObservations;
+    reward: Record<string, number>;
+    done: boolean;
+    info: GymInfo;
+}
+
+export interface GymEnv {
+    observationSpace: BoxSpace;
+    actionSpace: BoxSpace;
+    reset: (seed?: number, config?: GameConfig) => { observation: GymObservations, info: GymInfo };
+    // 缺少动作的 agent 视为不操作；已阵亡的 agent 动作被忽略
+    step: (actions: Record<string, GymAction | number[]>) => GymStepResult;
+    // 当前对局的引擎 (用于渲染或调试)；reset 之前为 null
+    getEngine: () => Engine | null;
+}
+
+export class GymEnvError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'GymEnvError';
+    }
+}
+
+export interface GymConfigOptions {
+    mode?: BalanceMode;
+    agentType: CharacterType;
+    opponentType: CharacterType;
+    // 对手也由 agent 控制 (自我对弈)
+    selfPlay?: boolean;
+}
+
+// 队伍 0 为 agent，队伍 1 为 handleAI (或自我对弈时的 agent)
+export const createGymConfig = ({ mode = 'FFA', agentType, opponentType, selfPlay = false }: GymConfigOptions): GameConfig => {
+    const players: GameConfig['players'] = [];
+    ([agentType, opponentType] as const).forEach((type, teamId) => {
+        for (let i = 0; i < TEAM_SIZES[mode]; i++) {
+            const isBot = teamId === 1 && !selfPlay;
+            players.push({ type, teamId, isBot, isPlayer: players.length === 0 });
+        }
+    });
+    return { mode, players };
+};
+
+const DEFAULT_CONFIG = createGymConfig({ agentType: CharacterType.PYRO, opponentType: CharacterType.PYRO });
+
+// 第一个真人席位作为引擎的本地视角 ('player')
+const normalizeConfig = (config: GameConfig): GameConfig => {
+    const first = config.players.findIndex(p => !p.isBot);
+    if (first < 0) throw new GymEnvError('Config needs at least one seat with isBot = false to act as an agent');
+    return { ...config, players: config.players.map((p, i) => ({ ...p, isPlayer: i === first })) };
+};
+
+export const createGymEnv = (options: GymEnvOptions = {}): GymEnv => {
+    const frameSkip = Math.max(1, Math.floor(options.frameSkip ?? DEFAULT_FRAME_SKIP));
+    const maxTicks = Math.round((options.maxSeconds ?? DEFAULT_EPISODE_SECONDS) / SIM_CONFIG.FIXED_DT);
+    const weights = { ...DEFAULT_REWARD_WEIGHTS, ...options.rewards };
+
+    let engine: Engine | null = null;
+    let agents: string[] = [];
+    let done = false;
+
+    const players = () => engine!.getState().players;
+
+    const observe = (): GymObservations => Object.fromEntries(
+        agents.map(id => [id, encodeObservation(engine!, players().find(p => p.id === id)!)])
+    );
+
+    const getInfo = (winnerTeamId: number | null, truncated: boolean): GymInfo => ({
+        tick: engine!.getState().tick,
+        agents,
+        alive: Object.fromEntries(agents.map(id => [id, !players().find(p => p.id === id)!.isDead])),
+        winnerTeamId,
+        truncated
+    });
+
+    const hpRatio = (p: PlayerState) => (p.isDead ? 0 : Math.max(0, p.hp) / p.maxHp);
+
+    const reset = (seed = Math.floor(Math.random() * 0x100000000), config: GameConfig = DEFAULT_CONFIG) => {
+        const customConfig = normalizeConfig(config);
+        engine = createEngine({
+            playerType: customConfig.players[0].type,
+            customConfig,
+            seed: seed >>> 0,
+            audio: SILENT_AUDIO
+        });
+        agents = customConfig.players
+            .map((cfg, i) => (cfg.isBot ? null : getConfigPlayerId(cfg, i)))
+            .filter((id): id is string => id !== null);
+        done = false;
+        return { observation: observe(), info: getInfo(null, false) };
+    };
+
+    const step = (actions: Record<string, GymAction | number[]>): GymStepResult => {
+        if (!engine) throw new GymEnvError('Call reset() before step()');
+        if (done) throw new GymEnvError('Episode is done, call reset() to start a new one');
+
+        const state = engine.getState();
+        // 按队伍累计血量损失
+        const teamLoss = new Map<number, number>();
+        let outcome: number | null | undefined;
+
+        for (let f = 0; f < frameSkip && outcome === undefined && state.tick < maxTicks; f++) {
+            const before = new Map(state.players.map(p => [p.id, hpRatio(p)]));
+            const inputs = Object.fromEntries(agents.flatMap(id => {
+                const p = state.players.find(pl => pl.id === id)!;
+                const action = actions[id];
+                return action && !p.isDead ? [[id, decodeAction(p, action)]] : [];
+            }));
+            engine.step(inputs);
+            state.players.forEach(p => {
+                const loss = Math.max(0, (before.get(p.id) ?? 0) - hpRatio(p));
+                teamLoss.set(p.teamId, (teamLoss.get(p.teamId) || 0) + loss);
+            });
+            outcome = getMatchOutcome(state);
+        }
+
+        const truncated = outcome === undefined && state.tick >= maxTicks;
+        done = outcome !== undefined || truncated;
+        const winnerTeamId = outcome ?? null;
+
+        const reward = Object.fromEntries(agents.map(id => {
+            const { teamId } = state.players.find(p => p.id === id)!;
+            let dealt = 0;
+            teamLoss.forEach((loss, team) => { if (team !== teamId) dealt += loss; });
+            let value = dealt * weights.damageDealt + (teamLoss.get(teamId) || 0) * weights.damageTaken;
+            if (winnerTeamId !== null) value += winnerTeamId === teamId ? weights.victory : weights.defeat;
+            return [id, value];
+        }));
+
+        return { observation: observe(), reward, done, info: getInfo(winnerTeamId, truncated) };
+    };
+
+    return {
+        observationSpace,
+        actionSpace,
+        reset,
+        step,
+        getEngine: () => engine
+    };
+};
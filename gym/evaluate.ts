@@ -0,0 +1,72 @@
+/**
+ * 用固定种子对比训练出的策略与手写 handleAI
+ *
+ * 策略控制队伍 0 (每个席位各自调用一次)，队伍 1 由 handleAI 控制。
+ * 种子序列与平衡模拟相同，同样的参数总能复现同样的结果。
+ */
+import type { CharacterType } from '../types';
+import { SIM_CONFIG } from '../constants';
+import type { BalanceMode } from '../balance';
+import { createGymConfig, createGymEnv } from './env';
+import type { GymEnvOptions } from './env';
+import type { GymAction } from './spaces';
+
+export type GymPolicy = (observation: number[], agentId: string) => GymAction | number[];
+
+export interface EvaluateOptions extends GymEnvOptions {
+    agentType: CharacterType;
+    opponentType: CharacterType;
+    mode?: BalanceMode;
+    episodes: number;
+    seed?: number;
+}
+
+export interface EvaluateResult {
+    episodes: number;
+    wins: number;
+    losses: number;
+    draws: number;
+    winRate: number;
+    // 每局各 agent 的平均累计奖励
+    avgReward: number;
+    avgSeconds: number;
+}
+
+const SEED_STEP = 0x9e3779b1;
+
+export const evaluatePolicy = (policy: GymPolicy, options: EvaluateOptions): EvaluateResult => {
+    const { agentType, opponentType, mode, episodes, seed = 1 } = options;
+    const env = createGymEnv(options);
+    const config = createGymConfig({ mode, agentType, opponentType });
+    let wins = 0;
+    let losses = 0;
+    let totalReward = 0;
+    let totalSeconds = 0;
+
+    for (let episode = 0; episode < episodes; episode++) {
+        let { observation } = env.reset((seed + episode * SEED_STEP) >>> 0, config);
+        for (;;) {
+            const actions = Object.fromEntries(Object.entries(observation).map(([id, obs]) => [id, policy(obs, id)]));
+            const result = env.step(actions);
+            const rewards = Object.values(result.reward);
+            totalReward += rewards.reduce((sum, r) => sum + r, 0) / Math.max(1, rewards.length);
+            observation = result.observation;
+            if (!result.done) continue;
+
+            if (result.info.winnerTeamId === 0) wins++;
+            else if (result.info.winnerTeamId !== null) losses++;
+            totalSeconds += result.info.tick * SIM_CONFIG.FIXED_DT;
+            break;
+        }
+    }
+
+    return {
+        episodes,
+        wins,
+        losses,
+        draws: episodes - wins - losses,
+        winRate: episodes > 0 ? wins / episodes : 0,
+        avgReward: episodes > 0 ? totalReward / episodes : 0,
+        avgSeconds: episodes > 0 ? totalSeconds / episodes : 0
+    };
+};
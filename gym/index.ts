@@ -0,0 +1,11 @@
+export {
+    createGymEnv, createGymConfig, GymEnvError, DEFAULT_FRAME_SKIP, DEFAULT_EPISODE_SECONDS, DEFAULT_REWARD_WEIGHTS
+} from './env';
+export type { GymEnv, GymEnvOptions, GymConfigOptions, GymInfo, GymObservations, GymRewardWeights, GymStepResult } from './env';
+export {
+    actionSpace, observationSpace, encodeObservation, decodeAction,
+    MAX_OTHERS, MAX_PROJECTILES, MAX_DANGER_ZONES, MAX_OBSTACLES, MAX_AIM_DISTANCE
+} from './spaces';
+export type { BoxSpace, GymAction } from './spaces';
+export { evaluatePolicy } from './evaluate';
+export type { EvaluateOptions, EvaluateResult, GymPolicy } from './evaluate';
@@ -0,0 +1,265 @@
+/**
+ * Gym —— 观察向量与动作的编码
+ *
+ * 观察是定长的浮点向量 (全部裁剪到 [-1, 1])，由以下几段依次拼接：
+ *   自身状态 | 其余玩家 (MAX_OTHERS 个槽) | 附近投射物 | 危险区域 (getDangerZones) | 附近障碍物
+ * 位置一律为相对自身的偏移并按地图尺寸归一化；槽位不足时补零 (present = 0)。
+ * 每个分量都有对应的名字 (observationSpace.labels)，便于训练端调试。
+ *
+ * 信息量与 handleAI 对齐：敌人取自 engine.getEnemies (远处隐身的敌人不可见)。
+ */
+import type { DangerZone, GameState, Obstacle, PlayerInput, PlayerState, Projectile, Vector2 } from '../types';
+import { MAP_SIZE } from '../constants';
+import * as Utils from '../utils';
+import { flag, getCharacter, ratio } from '../characters';
+import type { Engine } from '../engine';
+import { BALANCE_CHARACTERS } from '../balance';
+
+// 各段的槽位数
+export const MAX_OTHERS = 5;
+export const MAX_PROJECTILES = 8;
+export const MAX_DANGER_ZONES = 8;
+export const MAX_OBSTACLES = 6;
+
+// 瞄准距离上限 (动作中的 aimDistance = 1 时)
+export const MAX_AIM_DISTANCE = 800;
+
+// 归一化尺度
+const HP_SCALE = 3000;
+const VEL_SCALE = 20;
+const TIME_SCALE = 10;
+const DAMAGE_SCALE = 500;
+const RADIUS_SCALE = 100;
+
+const HAZARD_TYPES: DangerZone['hazardType'][] = ['SKILL', 'WATER', 'MAGMA', 'WALL', 'MAP_EDGE'];
+const OBSTACLE_TYPES: Obstacle['type'][] = ['WALL', 'WATER', 'LAVA'];
+
+export interface BoxSpace {
+    type: 'Box';
+    shape: [number];
+    low: number[];
+    high: number[];
+    // 每个分量的名字
+    labels: string[];
+}
+
+// 动作：移动向量、瞄准角度/距离与四个按键 (左键、右键、空格、切换形态)
+export interface GymAction {
+    move: Vector2;
+    // 弧度，0 为 +x 方向
+    aimAngle: number;
+    // 0 ~ 1，乘以 MAX_AIM_DISTANCE；缺省为 0.5
+    aimDistance?: number;
+    primary?: boolean;
+    secondary?: boolean;
+    ultimate?: boolean;
+    toggleMode?: boolean;
+}
+
+const ACTION_LABELS = ['moveX', 'moveY', 'aimAngle', 'aimDistance', 'primary', 'secondary', 'ultimate', 'toggleMode'];
+
+// 向量形式：aimAngle 为弧度 / π，按键大于 0.5 视为按下
+export const actionSpace: BoxSpace = {
+    type: 'Box',
+    shape: [ACTION_LABELS.length],
+    low: [-1, -1, -1, 0, 0, 0, 0, 0],
+    high: [1, 1, 1, 1, 1, 1, 1, 1],
+    labels: ACTION_LABELS
+};
+
+const oneHotLabels = (prefix: string, values: readonly string[]) => values.map(v => `${prefix}${v}`);
+
+const SELF_FIELDS = [
+    'hp', 'maxHp', 'posX', 'posY', 'velX', 'velY', 'aimCos', 'aimSin',
+    'skillCooldown', 'secondaryCooldown', 'attackCooldown', 'resourceA', 'resourceB', 'form',
+    'controlled', 'silenced', 'charging', 'burning', 'wet', 'invincible', 'stealthed',
+    ...oneHotLabels('type', BALANCE_CHARACTERS)
+];
+const OTHER_FIELDS = [
+    'present', 'enemy', 'dead', 'dx', 'dy', 'velX', 'velY', 'hp', 'maxHp', 'aimCos', 'aimSin', 'controlled', 'charging',
+    ...oneHotLabels('type', BALANCE_CHARACTERS)
+];
+const PROJECTILE_FIELDS = ['present', 'hostile', 'dx', 'dy', 'velX', 'velY', 'radius', 'damage', 'aoe'];
+const DANGER_FIELDS = ['present', ...oneHotLabels('hazard', HAZARD_TYPES), 'dx1', 'dy1', 'dx2', 'dy2', 'size', 'timeLeft', 'weight', 'inside'];
+const OBSTACLE_FIELDS = ['present', ...oneHotLabels('type', OBSTACLE_TYPES), 'dx', 'dy', 'width', 'height', 'distance'];
+
+const slotLabels = (section: string, slots: number, fields: string[]) =>
+    Array.from({ length: slots }, (_, i) => fields.map(field => `${section}${i}.${field}`)).flat();
+
+const OBSERVATION_LABELS = [
+    ...SELF_FIELDS.map(field => `self.${field}`),
+    ...slotLabels('other', MAX_OTHERS, OTHER_FIELDS),
+    ...slotLabels('projectile', MAX_PROJECTILES, PROJECTILE_FIELDS),
+    ...slotLabels('danger', MAX_DANGER_ZONES, DANGER_FIELDS),
+    ...slotLabels('obstacle', MAX_OBSTACLES, OBSTACLE_FIELDS)
+];
+
+export const observationSpace: BoxSpace = {
+    type: 'Box',
+    shape: [OBSERVATION_LABELS.length],
+    low: OBSERVATION_LABELS.map(() => -1),
+    high: OBSERVATION_LABELS.map(() => 1),
+    labels: OBSERVATION_LABELS
+};
+
+const clip = (value: number) => Number.isFinite(value) ? Utils.clamp(value, -1, 1) : 0;
+const oneHot = <T,>(values: readonly T[], value: T) => values.map(v => flag(v === value));
+
+const relative = (self: PlayerState, pos: Vector2) => [(pos.x - self.pos.x) / MAP_SIZE.width, (pos.y - self.pos.y) / MAP_SIZE.height];
+
+const isCharging = (p: PlayerState) => p.wukongChargeState !== 'NONE' || !!p.catIsCharging || !!p.avadaCharging;
+
+// 角色专属资源：A/B 为比例，form 为形态或状态开关
+const resourceFields = (p: PlayerState): [number, number, number] => getCharacter(p.type)?.getResourceFeatures?.(p) ?? [0, 0, 0];
+
+const encodeSelf = (engine: Engine, p: PlayerState) => [
+    ratio(p.hp, p.maxHp),
+    p.maxHp / HP_SCALE,
+    p.pos.x / MAP_SIZE.width,
+    p.pos.y / MAP_SIZE.height,
+    p.vel.x / VEL_SCALE,
+    p.vel.y / VEL_SCALE,
+    Math.cos(p.aimAngle),
+    Math.sin(p.aimAngle),
+    ratio(p.skillCooldown, p.skillMaxCooldown),
+    ratio(p.secondarySkillCooldown, p.secondarySkillMaxCooldown),
+    p.attackCooldown,
+    ...resourceFields(p),
+    flag(engine.isControlled(p)),
+    flag(p.silenceTimer > 0),
+    flag(isCharging(p)),
+    flag(p.burnTimer > 0),
+    flag(p.isWet),
+    flag(p.invincibleTimer > 0),
+    flag((p.stealthTimer || 0) > 0),
+    ...oneHot(BALANCE_CHARACTERS, p.type)
+];
+
+const encodeOther = (engine: Engine, self: PlayerState, other: PlayerState) => [
+    1,
+    flag(other.teamId !== self.teamId),
+    flag(other.isDead),
+    ...relative(self, other.pos),
+    other.vel.x / VEL_SCALE,
+    other.vel.y / VEL_SCALE,
+    ratio(other.hp, other.maxHp),
+    other.maxHp / HP_SCALE,
+    Math.cos(other.aimAngle),
+    Math.sin(other.aimAngle),
+    flag(engine.isControlled(other)),
+    flag(isCharging(other)),
+    ...oneHot(BALANCE_CHARACTERS, other.type)
+];
+
+const encodeProjectile = (state: GameState, self: PlayerState, proj: Projectile) => {
+    const owner = state.players.find(p => p.id === proj.ownerId);
+    return [
+        1,
+        flag(!owner || owner.teamId !== self.teamId),
+        ...relative(self, proj.pos),
+        proj.vel.x / VEL_SCALE,
+        proj.vel.y / VEL_SCALE,
+        proj.radius / RADIUS_SCALE,
+        proj.damage / DAMAGE_SCALE,
+        flag(proj.isAoe)
+    ];
+};
+
+// 危险区域的中轴线端点与半宽 (圆形的两端点重合)
+const zoneGeometry = (zone: DangerZone): [Vector2, Vector2, number] =>
+    zone.type === 'CIRCLE'
+        ? [zone.center!, zone.center!, zone.radius || 0]
+        : [zone.p1!, zone.p2!, (zone.width || 0) / 2];
+
+// 到危险区域边缘的距离 (在内部时为负)
+const zoneDistance = (pos: Vector2, zone: DangerZone) => {
+    const [p1, p2, size] = zoneGeometry(zone);
+    return Utils.distToSegment(pos, p1, p2) - size;
+};
+
+const encodeDangerZone = (self: PlayerState, zone: DangerZone) => {
+    const [p1, p2, size] = zoneGeometry(zone);
+    return [
+        1,
+        ...oneHot(HAZARD_TYPES, zone.hazardType),
+        ...relative(self, p1),
+        ...relative(self, p2),
+        size / MAP_SIZE.width,
+        zone.timeLeft / TIME_SCALE,
+        (zone.weight ?? 1) / 2,
+        flag(zoneDistance(self.pos, zone) <= 0)
+    ];
+};
+
+const obstacleDistance = (pos: Vector2, obs: Obstacle) => {
+    const dx = Math.max(obs.x - pos.x, 0, pos.x - (obs.x + obs.width));
+    const dy = Math.max(obs.y - pos.y, 0, pos.y - (obs.y + obs.height));
+    return Math.sqrt(dx * dx + dy * dy);
+};
+
+const encodeObstacle = (self: PlayerState, obs: Obstacle) => [
+    1,
+    ...oneHot(OBSTACLE_TYPES, obs.type),
+    ...relative(self, { x: obs.x + obs.width / 2, y: obs.y + obs.height / 2 }),
+    obs.width / MAP_SIZE.width,
+    obs.height / MAP_SIZE.height,
+    obstacleDistance(self.pos, obs) / MAP_SIZE.width
+];
+
+// 取距离最近的若干项编码，不足的槽位补零
+const fillSlots = <T,>(items: T[], distance: (item: T) => number, slots: number, width: number, encode: (item: T) => number[]) => {
+    const encoded = items
+        .map(item => ({ item, d: distance(item) }))
+        .sort((a, b) => a.d - b.d)
+        .slice(0, slots)
+        .map(({ item }) => encode(item));
+    while (encoded.length < slots) encoded.push(new Array(width).fill(0));
+    return encoded.flat();
+};
+
+export const encodeObservation = (engine: Engine, self: PlayerState): number[] => {
+    const state = engine.getState();
+    const enemies = engine.getEnemies(self).filter((e): e is PlayerState => 'teamId' in e);
+    const others = [...state.players.filter(p => p.id !== self.id && p.teamId === self.teamId), ...enemies];
+    const values = [
+        ...encodeSelf(engine, self),
+        // 存活的排在前面
+        ...fillSlots(others, p => (p.isDead ? Infinity : Utils.dist(self.pos, p.pos)), MAX_OTHERS, OTHER_FIELDS.length, p => encodeOther(engine, self, p)),
+        ...fillSlots(state.projectiles, proj => Utils.dist(self.pos, proj.pos), MAX_PROJECTILES, PROJECTILE_FIELDS.length, proj => encodeProjectile(state, self, proj)),
+        ...fillSlots(engine.getDangerZones(self), zone => zoneDistance(self.pos, zone), MAX_DANGER_ZONES, DANGER_FIELDS.length, zone => encodeDangerZone(self, zone)),
+        ...fillSlots(state.obstacles, obs => obstacleDistance(self.pos, obs), MAX_OBSTACLES, OBSTACLE_FIELDS.length, obs => encodeObstacle(self, obs))
+    ];
+    return values.map(clip);
+};
+
+const toGymAction = (action: GymAction | number[]): GymAction => {
+    if (!Array.isArray(action)) return action;
+    const [moveX = 0, moveY = 0, aimAngle = 0, aimDistance = 0.5, primary = 0, secondary = 0, ultimate = 0, toggleMode = 0] = action;
+    return {
+        move: { x: moveX, y: moveY },
+        aimAngle: aimAngle * Math.PI,
+        aimDistance,
+        primary: primary > 0.5,
+        secondary: secondary > 0.5,
+        ultimate: ultimate > 0.5,
+        toggleMode: toggleMode > 0.5
+    };
+};
+
+// 动作 -> 引擎输入；瞄准点为世界坐标，移动向量长度不超过 1
+export const decodeAction = (p: PlayerState, action: GymAction | number[]): PlayerInput => {
+    const { move, aimAngle, aimDistance = 0.5, primary, secondary, ultimate, toggleMode } = toGymAction(action);
+    const moveX = Number.isFinite(move.x) ? move.x : 0;
+    const moveY = Number.isFinite(move.y) ? move.y : 0;
+    const length = Math.hypot(moveX, moveY);
+    const angle = Number.isFinite(aimAngle) ? aimAngle : 0;
+    const distance = Utils.clamp(Number.isFinite(aimDistance) ? aimDistance : 0.5, 0, 1) * MAX_AIM_DISTANCE;
+    return {
+        move: length > 1 ? { x: moveX / length, y: moveY / length } : { x: moveX, y: moveY },
+        aim: { x: p.pos.x + Math.cos(angle) * distance, y: p.pos.y + Math.sin(angle) * distance },
+        primary: !!primary,
+        secondary: !!secondary,
+        ultimate: !!ultimate,
+        toggleMode: !!toggleMode
+    };
+};
@@ -0,0 +1,62 @@
+/**
+ * Gym 环境的标准输入/输出桥 (Node)，供 Python 等外部训练框架驱动
+ *
+ * 用法: npm run gym -- [--frame-skip 4] [--max-seconds 180]
+ * 每行一个 JSON 请求，按顺序各回复一行 JSON：
+ *   { "cmd": "spaces" }                              -> { "ok": true, "observationSpace": ..., "actionSpace": ... }
+ *   { "cmd": "reset", "seed": 1, "config": {...} }   -> { "ok": true, "observation": ..., "info": ... }
+ *   { "cmd": "step", "actions": { "player": [...] } } -> { "ok": true, "observation", "reward", "done", "info" }
+ * config 缺省为 1v1 火焰球对 AI 火焰球，也可以用 { "agentType", "opponentType", "mode", "selfPlay" } 简写。
+ * 出错时回复 { "ok": false, "error": "..." }，进程继续运行；标准输入关闭后退出。
+ */
+import { createInterface } from 'node:readline';
+import { parseArgs } from 'node:util';
+import type { GameConfig } from '../types';
+import { createGymConfig, createGymEnv, DEFAULT_EPISODE_SECONDS, DEFAULT_FRAME_SKIP } from './env';
+import type { GymConfigOptions } from './env';
+import type { GymAction } from './spaces';
+
+const { values } = parseArgs({
+    options: {
+        'frame-skip': { type: 'string', default: String(DEFAULT_FRAME_SKIP) },
+        'max-seconds': { type: 'string', default: String(DEFAULT_EPISODE_SECONDS) }
+    }
+});
+
+const env = createGymEnv({ frameSkip: Number(values['frame-skip']), maxSeconds: Number(values['max-seconds']) });
+
+const toConfig = (config: GameConfig | GymConfigOptions | undefined) =>
+    config && 'agentType' in config ? createGymConfig(config) : config;
+
+// 请求来自外部进程，字段可能缺失
+interface GymRequest {
+    cmd?: string;
+    seed?: number;
+    config?: GameConfig | GymConfigOptions;
+    actions?: Record<string, GymAction | number[]>;
+}
+
+const handle = (request: GymRequest | null) => {
+    switch (request?.cmd) {
+        case 'spaces':
+            return { observationSpace: env.observationSpace, actionSpace: env.actionSpace };
+        case 'reset':
+            return env.reset(request.seed, toConfig(request.config));
+        case 'step':
+            return env.step(request.actions || {});
+        default:
+            throw new Error(`Unknown cmd "${request?.cmd}", expected spaces, reset or step`);
+    }
+};
+
+const lines = createInterface({ input: process.stdin });
+lines.on('line', line => {
+    if (!line.trim()) return;
+    let response: object;
+    try {
+        response = { ok: true, ...handle(JSON.parse(line)) };
+    } catch (e) {
+        response = { ok: false, error: e instanceof Error ? e.message : String(e) };
+    }
+    process.stdout.write(JSON.stringify(response) + '\n');
+});
@@ -0,0 +1,45 @@
+/**
+ * i18n —— 消息目录
+ *
+ * 所有界面与对局内文字都通过消息键取得。引擎状态里只保存键 (与可选参数)，
+ * 渲染时才按当前语言解析，因此录像、联机同步的状态与语言无关。
+ * 当前语言来自设置 (GameSettings.language)。
+ */
+import { useSyncExternalStore } from 'react';
+import { getSettings, subscribeSettings } from '../settings';
+import { zhCN } from './locales/zh-CN';
+import { en } from './locales/en';
+import type { MessageKey } from './locales/zh-CN';
+
+export type { MessageKey };
+
+export type Locale = 'zh-CN' | 'en';
+
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES: Locale[] = ['zh-CN', 'en'];
+
+// 语言名称始终以该语言自身书写
+export const LOCALE_NAMES: Record<Locale, string> = {
+    'zh-CN': '简体中文',
+    'en': 'English',
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+    'zh-CN': zhCN,
+    'en': en,
+};
+
+export const getLocale = (): Locale => getSettings().language;
+
+// 解析消息键，{name} 占位符由 params 替换；未知的键原样返回
+export const t = (key: MessageKey, params?: MessageParams): string => {
+    const message = CATALOGS[getLocale()][key] ?? zhCN[key] ?? key;
+    if (!params) return message;
+    return message.replace(/\{(\w+)\}/g, (match, name: string) =>
+        name in params ? String(params[name]) : match
+    );
+};
+
+// 组件内调用以在切换语言时重新渲染
+export const useLocale = (): Locale => useSyncExternalStore(subscribeSettings, getLocale);
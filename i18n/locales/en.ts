@@ -0,0 +1,570 @@
+import type { MessageKey } from './zh-CN';
+
+// English
+export const en: Record<MessageKey, string> = {
+    // --- Common ---
+    'common.back': '← Back',
+    'common.backHome': '← Home',
+    'common.backToGame': '← Back to Game',
+    'common.on': 'On',
+    'common.off': 'Off',
+    'common.cancel': 'Cancel',
+    'common.confirm': 'Confirm',
+    'common.reset': 'Reset',
+    'common.ready': 'Ready',
+    'common.gameTitle': 'Realm of Balls',
+
+    // --- Roles ---
+    'role.PYRO': 'Pyro',
+    'role.WUKONG': 'Wukong',
+    'role.CAT': 'Cat',
+    'role.TANK': 'Tank',
+    'role.COACH': 'Coach',
+    'role.MAGIC': 'Magic',
+    'role.ENVIRONMENT': 'Environment',
+    'role.unknown': 'Unknown Ball',
+    'role.drone': 'Drone',
+    'role.droneOf': 'Drone ({owner})',
+
+    // --- Intro / Home ---
+    'intro.clickToStart': 'Click to Start',
+    'home.quickStart': 'Quick Start',
+    'home.switchMode': 'Switch Mode',
+    'home.customGame': 'Custom / Multiplayer',
+    'home.onlineGame': 'Online Battle',
+    'home.nav.wiki': 'Wiki',
+    'home.nav.balanceLab': 'Balance Lab',
+    'home.nav.rank': 'Ranking',
+    'home.nav.replay': 'Replays',
+    'home.nav.about': 'About',
+
+    // --- Character select ---
+    'charSelect.title': 'Loadout',
+    'charSelect.subtitle': 'Choose Your Ball',
+    'charSelect.speed': 'Speed',
+    'charSelect.defense': 'Defense',
+    'charSelect.attack': 'Attack',
+    'charSelect.wiki': 'Game Wiki',
+    'charSelect.wikiSub': 'Mechanics · Stats · Codex',
+    'charSelect.PYRO.tagline': 'Burn it all',
+    'charSelect.PYRO.speed': 'High',
+    'charSelect.PYRO.defense': 'Low',
+    'charSelect.PYRO.attack': 'Flamethrower',
+    'charSelect.PYRO.mechanics': 'Heat management / Stacking burn / Detonation',
+    'charSelect.WUKONG.tagline': 'Great Sage Equal to Heaven',
+    'charSelect.WUKONG.speed': 'Very High',
+    'charSelect.WUKONG.defense': 'Medium',
+    'charSelect.WUKONG.attack': 'Staff Combo',
+    'charSelect.WUKONG.mechanics': '3-hit combo / Charged attacks / Water walking',
+    'charSelect.TANK.tagline': 'Iron Fortress',
+    'charSelect.TANK.speed': 'Very Low',
+    'charSelect.TANK.defense': 'Heavy Armor',
+    'charSelect.TANK.attack': 'Artillery / LMG',
+    'charSelect.TANK.mechanics': 'Dual modes / Drone summon',
+    'charSelect.CAT.tagline': 'Cuteness is Justice',
+    'charSelect.CAT.speed': 'Supersonic',
+    'charSelect.CAT.defense': 'Paper-thin',
+    'charSelect.CAT.attack': 'Paw / Pounce',
+    'charSelect.CAT.mechanics': 'Nine lives / Pounce control / Wrath of the Scooper',
+    'charSelect.MAGIC.tagline': 'Random Magic',
+    'charSelect.MAGIC.speed': 'Medium',
+    'charSelect.MAGIC.defense': 'Medium',
+    'charSelect.MAGIC.attack': 'Random Curse',
+    'charSelect.MAGIC.mechanics': 'Random control / Three defensive spells / Light & dark forms',
+
+    // --- Opponent select ---
+    'oppSelect.back': '← Change Ball',
+    'oppSelect.title': 'Choose Opponent',
+    'oppSelect.random': 'Random',
+    'oppSelect.randomChallenge': 'Random challenge',
+    'oppSelect.trainingRange': 'Training Range',
+    'oppSelect.trainingHint': 'Dummies, infinite resources, DPS meter',
+    'oppSelect.directConnect': 'Friend Duel',
+    'oppSelect.difficulty': 'Bot Difficulty',
+    'difficulty.EASY': 'Easy',
+    'difficulty.NORMAL': 'Normal',
+    'difficulty.HARD': 'Hard',
+    'difficulty.INSANE': 'Insane',
+
+    // --- Custom game ---
+    'custom.title': 'Custom Match',
+    'custom.mode.FFA': 'Free-for-All',
+    'custom.mode.FFA.sub': 'Every ball for itself',
+    'custom.mode.TEAM_2V2': '2 vs 2',
+    'custom.mode.TEAM_2V2.sub': 'Duos',
+    'custom.mode.TEAM_3V3': '3 vs 3',
+    'custom.mode.TEAM_3V3.sub': 'Team fight',
+    'custom.randomize': 'Randomize',
+    'custom.start': 'Start Game',
+    'custom.slot.player': 'Player',
+    'custom.slot.localPlayer': 'Local Player',
+    'custom.slot.localPlayerFfa': 'Player (Local)',
+    'custom.slot.bot': 'Bot',
+    'custom.slot.botAi': 'Bot AI',
+    'custom.slot.script': 'Script',
+    'custom.slot.scriptAi': 'Script Bot',
+    'custom.editScripts': 'Edit Scripts',
+    'custom.slot.self': 'You',
+    'custom.slot.ally': 'Ally',
+    'custom.slot.enemy': 'Enemy',
+    'custom.slot.withSide': '{role} ({side})',
+
+    // --- In-game HUD ---
+    'game.unknownEnemy': 'Unknown Enemy',
+    'game.spectating': 'Spectating: {role}',
+    'game.fuel': 'Fuel',
+    'game.burnoutAlert': 'Burnout',
+    'game.shells': 'Shells',
+    'game.lmgBelt': 'LMG Belt',
+    'game.reloading': 'Reloading...',
+    'game.nineLives': 'Nine Lives',
+    'game.mana': 'Mana',
+    'game.skillSpace': 'Skill (Space)',
+    'game.cooldown': 'Cooling down...',
+    'game.pyro.detonate': 'Detonate (RMB)',
+    'game.wukong.thrust': 'Thrust (RMB)',
+    'game.cat.hiss': 'Hiss (RMB)',
+    'game.magic.protego': 'Protective Spell (RMB)',
+    'game.magic.shield': 'Shield',
+    'game.magic.lowMana': 'Low Mana',
+    'game.tank.radar': 'Radar',
+    'game.tank.radarOnline': 'Online',
+    'game.tank.drone': 'Drone (RMB)',
+    'game.tank.droneHull': 'Hull',
+    'game.tank.droneBattery': 'Battery',
+    'game.tank.droneWorking': 'Deployed...',
+    'game.tank.droneRebuilding': 'Rebuilding',
+    'game.tank.droneCharging': 'Charging',
+    'game.tank.tooClose': 'Too close',
+    'game.mode.ARTILLERY': 'Artillery',
+    'game.mode.LMG': 'Machine Gun',
+    'game.skill.PYRO': 'Magma Pool',
+    'game.skill.WUKONG': 'Ruyi Jingu Bang',
+    'game.skill.CAT': 'Wrath of the Scooper',
+    'game.skill.default': 'Switch Mode',
+    'game.endBattle': 'End Battle',
+    'game.exitReplay': 'Exit Replay',
+    'game.nearestEnemy': 'Nearest Hostile',
+    'game.enemy': 'Hostile',
+    'game.exitConfirm': 'End this battle?',
+    'game.settings': '⚙ Settings',
+    'game.gamepadAimAssist': '🎮 Aim assist:',
+    'game.gamepadToggleHint': ' · Back to toggle',
+    'game.command.ATTACK': 'Attack',
+    'game.command.REGROUP': 'Regroup',
+    'game.command.HOLD': 'Hold',
+    'game.command.RETREAT': 'Retreat',
+    'game.victory': 'Victory',
+    'game.defeat': 'Defeat',
+    'game.targetDestroyed': 'Target Destroyed',
+    'game.backToMenu': 'Main Menu',
+    'game.downloadReplay': 'Download Replay',
+    'game.draw': 'Draw',
+    'game.playersWin': '{players} Win',
+    'game.botsWin': 'Bots Win',
+
+    // Defeat lines (per role)
+    'defeat.PYRO': 'Flame Extinguished',
+    'defeat.TANK': 'Chassis Critically Damaged',
+    'defeat.WUKONG': 'More Training Needed',
+    'defeat.CAT': 'Kitty went to sleep!',
+    'defeat.MAGIC': 'Out of Mana',
+    'defeat.MAGIC.black': '“This is not the end.”',
+    'defeat.default': 'Match Over',
+
+    // --- Replay ---
+    'replay.title': 'Replays',
+    'replay.latest': 'Latest Match',
+    'replay.custom': 'Custom, {count} players',
+    'replay.none': 'No replay yet. One is saved automatically after each match.',
+    'replay.import': 'Import Replay File (.json)',
+    'replay.play': 'Play',
+    'replay.pause': 'Pause',
+    'replay.freeCam': 'Free Camera (WASD)',
+    'replay.followCam': 'Follow Camera',
+    'replay.error.format': 'Invalid replay file',
+    'replay.error.version': 'Unsupported replay version: {version}',
+    'replay.error.fields': 'Replay file is missing required fields',
+    'replay.error.tickRate': 'Replay tick rate mismatch: {tickRate}',
+
+    // --- Online ---
+    'online.title': 'Online Battle',
+    'online.serverUrl': 'Server Address',
+    'online.character': 'Choose Your Ball',
+    'online.findMatch': 'Find Match',
+    'online.cancel': 'Cancel',
+    'online.status.CONNECTING': 'Connecting to server...',
+    'online.status.WAITING': 'Waiting for an opponent...',
+    'online.status.PLAYING': 'Match found',
+    'online.status.CLOSED': 'Not connected',
+    'online.hint': 'Local testing: run npm run server, then find a match in two browser tabs.',
+    'online.opponentLeft': 'Your opponent disconnected',
+    'online.error.connect': 'Could not connect to the server',
+    'online.error.lost': 'Lost connection to the server',
+    'online.error.version': 'Client and server versions differ (server protocol version {version})',
+    'online.error.character': 'The server does not accept this ball',
+
+    // --- Direct Connect (P2P) ---
+    'p2p.title': 'Direct Connect',
+    'p2p.host': 'Host a Duel',
+    'p2p.join': 'Join a Duel',
+    'p2p.inviteCode': 'Invite Code',
+    'p2p.answerCode': 'Answer Code',
+    'p2p.generating': 'Generating...',
+    'p2p.copy': 'Copy',
+    'p2p.copied': 'Copied',
+    'p2p.connect': 'Connect',
+    'p2p.createAnswer': 'Create Answer',
+    'p2p.hostHint': 'Send the invite code to your friend, then paste their answer code below.',
+    'p2p.joinHint': 'Paste the invite code from your friend.',
+    'p2p.answerHint': 'Send the answer code back to your friend and wait for the connection.',
+    'p2p.status.SIGNALING': 'Waiting for codes to be exchanged',
+    'p2p.status.CONNECTING': 'Connecting...',
+    'p2p.status.OPEN': 'Connected',
+    'p2p.status.CLOSED': 'Not connected',
+    'p2p.hint': 'Local testing: host in one browser tab and join from another.',
+    'p2p.desync': 'Game states have diverged; the result may differ between players',
+    'p2p.error.code': 'Unrecognized code',
+    'p2p.error.version': 'Your friend is running a different game version',
+    'p2p.error.connect': 'Could not establish a connection',
+    'p2p.error.lost': 'Lost connection to your friend',
+
+    // --- Balance Lab ---
+    'balance.title': 'Balance Lab',
+    'balance.characters': 'Balls',
+    'balance.modes': 'Modes',
+    'balance.mode.FFA': '1v1',
+    'balance.mode.TEAM_2V2': '2v2',
+    'balance.mode.TEAM_3V3': '3v3',
+    'balance.mutators': 'Mutators',
+    'balance.mutator.NO_OBSTACLES': 'No Obstacles',
+    'balance.mutator.HALF_HP': 'Half HP',
+    'balance.mutator.DOUBLE_HP': 'Double HP',
+    'balance.matches': 'Matches per Matchup',
+    'balance.maxSeconds': 'Time Limit (s)',
+    'balance.seed': 'Seed',
+    'balance.overrides': 'Stat Overrides',
+    'balance.overridesHint': 'Only applied to simulations. Edit CHAR_STATS in constants.ts once you are happy.',
+    'balance.overrideCount': '{count} changed',
+    'balance.resetOverrides': 'Reset All',
+    'balance.copyOverrides': 'Copy JSON',
+    'balance.copied': 'Copied',
+    'balance.run': 'Run Simulation',
+    'balance.cancel': 'Stop',
+    'balance.progress': '{done} / {total} matches · {workers} threads',
+    'balance.totalMatches': '{count} matches',
+    'balance.error': 'Simulation failed: {message}',
+    'balance.empty': 'Pick balls and modes, then run a simulation. Results appear here.',
+    'balance.winRate': 'Win Rate (row vs column)',
+    'balance.deltaHint': 'Values in brackets are the change since the previous run',
+    'balance.ttk': 'Match Length Distribution (s)',
+    'balance.ttkAvg': 'avg {seconds}s',
+    'balance.draws': '{count} draws',
+    'balance.skillShare': 'Damage Share by Skill',
+    'balance.perMatch': '{damage} per match',
+    'balance.skill.CAT_SCRATCH': 'Scratch',
+    'balance.skill.CAT_POUNCE': 'Pounce',
+    'balance.skill.CAT_SCOOPER': 'Scooper Smash',
+    'balance.skill.MAGIC_AVADA': 'Avada Kedavra',
+    'balance.skill.MAGIC_LIGHT_SPIRIT': 'Light Spirits',
+    'balance.skill.MAGIC_PATRONUS': 'Patronus Wave',
+    'balance.skill.PYRO_FLAMETHROWER': 'Flamethrower',
+    'balance.skill.PYRO_MAGMA_POOL': 'Magma Pool Blast',
+    'balance.skill.WUKONG_COMBO': 'Staff Combo',
+    'balance.skill.WUKONG_THRUST': 'Thrust',
+    'balance.skill.WUKONG_SMASH': 'Charged Smash',
+    'balance.skill.WUKONG_WALL_SLAM': 'Wall Slam',
+    'balance.skill.EXPLOSION': 'Explosions',
+    'balance.skill.COLLISION': 'Collisions',
+    'balance.skill.BURN': 'Burning',
+    'balance.skill.DROWNING': 'Drowning',
+    'balance.skill.MAGMA_TERRAIN': 'Magma Terrain',
+    'balance.skill.BULLET': 'LMG Bullets',
+    'balance.skill.BOMB': 'Artillery Direct Hit',
+    'balance.skill.MAGMA_PROJ': 'Magma Shot',
+    'balance.skill.DRONE_SHOT': 'Drone Shots',
+    'balance.skill.MAGIC_SPELL': 'Spells',
+    'balance.skill.MAGIC_BEAM': 'Magic Beam',
+    'balance.skill.EXPELLIARMUS': 'Expelliarmus',
+    'balance.skill.OTHER': 'Other',
+
+    // --- Script bots ---
+    'script.title': 'Script Bots',
+    'script.hint': 'Export a think(observation) function. It runs once per simulation tick and returns move, aim and button commands. Results that take longer than {budget} ms are dropped. Scripts run in an isolated Worker without network or storage access.',
+    'script.new': 'New',
+    'script.duplicate': 'Duplicate',
+    'script.delete': 'Delete',
+    'script.save': 'Save',
+    'script.saved': 'Saved',
+    'script.name': 'Name',
+    'script.builtIn': 'Built-in example. Duplicate it to make changes.',
+    'script.test': 'Test Run',
+    'script.testing': 'Running…',
+    'script.testResult': '{commands} commands · {overruns} over budget · last {ms} ms',
+    'script.status.LOADING': 'Loading',
+    'script.status.RUNNING': 'Running',
+    'script.status.CRASHED': 'Stopped',
+    'script.overruns': '{count} over budget',
+    'script.error.import': 'Scripts cannot use import (the word may not appear anywhere, including comments and strings)',
+    'script.error.noThink': 'The script does not export a think function',
+    'script.error.load': 'Failed to load script: {message}',
+    'script.error.think': 'think threw: {message}',
+    'script.error.timeout': 'Script stopped responding and was terminated',
+
+    // --- Training ---
+    'training.title': 'Training Range',
+    'training.dps': 'DPS',
+    'training.total': 'Total {amount}',
+    'training.reset': 'Reset',
+    'training.breakdown': 'Damage by Skill',
+    'training.hits': '{count} hits',
+    'training.recent': 'Recent Hits',
+    'training.noDamage': 'Hit a dummy to start measuring',
+    'training.dummyMode.STATIONARY': 'Stationary',
+    'training.dummyMode.MOVING': 'Moving',
+    'training.infiniteResources': 'Infinite Resources',
+    'training.resetCooldowns': 'No Cooldowns',
+    'training.spawn': 'Spawn Dummy ({count}/{max})',
+    'training.clear': 'Clear Dummies',
+    'training.status': 'Apply Status',
+    'training.target.SELF': 'Self',
+    'training.target.DUMMY': 'Dummies',
+
+    // --- Developer Console ---
+    'console.title': 'Console',
+    'console.placeholder': 'Enter a command, "help" lists them all',
+    'console.disabledReplay': 'This match will not be saved as a replay after using the console',
+    'console.result.help': 'Commands: {commands}. Type "help <command>" for usage',
+    'console.result.usage': 'Usage: {usage}',
+    'console.result.spawn': 'Spawned {type} ({id}) on team {team}',
+    'console.result.status': 'Applied {status} for {duration}s to {count} target(s)',
+    'console.result.set': 'Set {field} to {value} on {count} target(s)',
+    'console.result.kill': 'Killed {count} target(s)',
+    'console.result.obstacle': 'Placed {type} {width}x{height}',
+    'console.result.timescale': 'Time scale {scale}',
+    'console.result.seed': 'Random state reset to seed {seed}',
+    'console.error.empty': 'Enter a command',
+    'console.error.unknown': 'Unknown command: {command}',
+    'console.error.option': 'Invalid option {option}. Usage: {usage}',
+    'console.error.number': '"{value}" is not a valid number',
+    'console.error.range': '{value} is out of range ({min} - {max})',
+    'console.error.boolean': '"{value}" should be true or false',
+    'console.error.position': 'Invalid position "{value}", use cursor, self or X,Y',
+    'console.error.target': 'No target found for "{value}"',
+    'console.error.type': 'Unknown character "{value}"',
+    'console.error.difficulty': 'Unknown difficulty "{value}"',
+    'console.error.status': 'Unknown status "{value}"',
+    'console.error.field': 'Cannot set "{value}"',
+
+    // --- Debug Overlay ---
+    'debug.fps': 'FPS {fps}',
+    'debug.tick': 'Tick {tick} · {time}s',
+    'debug.players': 'Players {alive}/{total}',
+    'debug.entities': 'Proj {projectiles} · Drones {drones} · Effects {effects} · Particles {particles}',
+    'debug.obstacles': 'Obstacles {count}',
+    'debug.focus': 'Danger zones ({id}): {count}',
+    'debug.legend.target': 'Target (perceived)',
+    'debug.legend.move': 'Move direction',
+    'debug.legend.evade': 'Hazard evasion',
+    'debug.legend.retreat': 'Tactical retreat',
+    'debug.legend.unstuck': 'Unstuck',
+    'debug.legend.command': 'Command goal',
+    'debug.hazard.SKILL': 'Skill warning',
+    'debug.hazard.WATER': 'Water',
+    'debug.hazard.MAGMA': 'Magma',
+    'debug.hazard.WALL': 'Wall',
+    'debug.hazard.MAP_EDGE': 'Map edge',
+
+    // --- Settings ---
+    'settings.title': 'Settings',
+    'settings.audio': 'Audio',
+    'settings.masterVolume': 'Master Volume',
+    'settings.sfxVolume': 'Sound Effects',
+    'settings.uiVolume': 'Interface',
+    'settings.visual': 'Display',
+    'settings.screenShake': 'Screen Shake',
+    'settings.particleDensity': 'Particle Density',
+    'settings.cameraLookAhead': 'Camera Look-ahead',
+    'settings.floatingText': 'Damage Numbers / Status Text',
+    'settings.language': 'Language / 语言',
+    'settings.bindings': 'Key Bindings',
+    'settings.pressKey': 'Press a key...',
+    'settings.bindingsHint': 'Keyboard A aims with the mouse; Keyboard B aims along the movement direction for a second local player. Duplicate keys are swapped or unbound automatically.',
+    'settings.gamepad': 'Gamepad',
+    'settings.aimAssist': 'Aim Assist',
+    'settings.aimAssistStrength': 'Aim Assist Strength',
+    'settings.deadzone': 'Stick Deadzone',
+    'settings.gamepadHint': 'Left stick move · Right stick aim · RT attack · LT secondary · RB/LB ultimate · Y switch mode · D-pad team commands · Start menu · Back toggle aim assist',
+
+    // --- Input devices & actions ---
+    'input.source.KEYBOARD_A': 'Keyboard A (Mouse)',
+    'input.source.KEYBOARD_B': 'Keyboard B (No Mouse)',
+    'input.source.GAMEPAD_1': 'Gamepad 1',
+    'input.source.GAMEPAD_2': 'Gamepad 2',
+    'input.action.MOVE_UP': 'Move Up',
+    'input.action.MOVE_DOWN': 'Move Down',
+    'input.action.MOVE_LEFT': 'Move Left',
+    'input.action.MOVE_RIGHT': 'Move Right',
+    'input.action.PRIMARY': 'Attack',
+    'input.action.SECONDARY': 'Secondary',
+    'input.action.ULTIMATE': 'Ultimate',
+    'input.action.TOGGLE_MODE': 'Switch Mode',
+    'input.action.PAUSE': 'Pause / Menu',
+    'input.action.COMMAND_ATTACK': 'Attack My Target',
+    'input.action.COMMAND_REGROUP': 'Regroup on Me',
+    'input.action.COMMAND_HOLD': 'Hold Position',
+    'input.action.COMMAND_RETREAT': 'Retreat',
+    'input.action.COMMAND_WHEEL': 'Command Wheel (hold)',
+    'input.action.CONSOLE': 'Developer Console',
+    'input.action.DEBUG_OVERLAY': 'Debug Overlay',
+    'input.key.unbound': 'Unbound',
+    'input.key.numpad': 'Numpad {key}',
+    'input.key.MouseLeft': 'Left Mouse',
+    'input.key.MouseRight': 'Right Mouse',
+    'input.key.MouseMid': 'Middle Mouse',
+    'input.key.Space': 'Space',
+    'input.key.Backspace': 'Backspace',
+    'input.key.Enter': 'Enter',
+    'input.key.ShiftLeft': 'L-Shift',
+    'input.key.ShiftRight': 'R-Shift',
+    'input.key.ControlLeft': 'L-Ctrl',
+    'input.key.ControlRight': 'R-Ctrl',
+    'input.key.AltLeft': 'L-Alt',
+    'input.key.AltRight': 'R-Alt',
+
+    // --- Status floating text ---
+    'status.stun': 'Stunned!',
+    'status.petrify': 'Petrified!',
+    'status.sleep': 'Asleep!',
+    'status.fear': 'Feared!',
+    'status.charm': 'Charmed!',
+    'status.taunt': 'Taunted!',
+    'status.silence': 'Silenced!',
+    'status.disarm': 'Disarmed!',
+    'status.root': 'Rooted!',
+    'status.blind': 'Blinded!',
+    'status.slow': 'Slowed!',
+    'status.burn': 'Burning!',
+    'status.invincible': 'Invincible!',
+    'status.stealth': 'Stealth!',
+    'status.haste': 'Haste!',
+    'status.heal': 'Healing!',
+    'status.burst': 'Flashover!',
+    'status.wet': 'Wet!',
+    'status.revive': 'Revived!',
+    'status.flattened': 'Flattened!',
+    'status.stomped': 'Stomped!',
+    'status.cuteOverload': 'Too Cute!',
+    'status.energized': 'Good! Full of energy!',
+
+    // Other floating text
+    'floating.immune': 'Immune!',
+    'floating.resist': 'Resisted!',
+    'floating.wakeUp': 'Awake!',
+    'floating.burnout': 'Burnout!',
+    'floating.artilleryMode': 'Artillery Mode',
+    'floating.reloading': 'Reloading...',
+    'floating.reloaded': 'Reloaded!',
+    'floating.livesLeft': 'Lives left: {lives}',
+    'floating.sleeping': 'zZz',
+    'floating.wukongShout': 'Hah!',
+    'floating.wukongTaunt1': 'Taste my staff!',
+    'floating.wukongTaunt2': 'I am the Great Sage, Sun Wukong!',
+    'floating.wukongTaunt3': 'Here comes your grandpa Sun, kids!',
+    'floating.greaterGood': 'For the greater good.',
+
+    // Magic spell lines
+    'spell.stun': 'Stupefy!',
+    'spell.petrify': 'Petrificus Totalus!',
+    'spell.sleep': 'Somnium!',
+    'spell.fear': 'Terroris!',
+    'spell.charm': 'Amortentia!',
+    'spell.taunt': 'Come at me!',
+    'spell.silence': 'Silencio!',
+    'spell.root': 'Incarcerous!',
+    'spell.blind': 'Obscuro!',
+    'spell.slow': 'Impedimenta!',
+    'spell.burn': 'Incendio!',
+    'spell.disarm': 'Expelliarmus!',
+    'spell.blink': 'Apparate!',
+    'spell.armor': 'Protego!',
+    'spell.patronus': 'Expecto Patronum!',
+    'spell.avada': 'Avada Kedavra!',
+
+    // --- Wiki ---
+    'wiki.title': 'Game Wiki',
+    'wiki.general': 'Basics',
+    'wiki.balls': 'Ball Codex',
+    'wiki.skillsAndMechanics': 'Skills & Mechanics',
+    'wiki.rules': 'Rules',
+    'wiki.key.LMB': 'LMB',
+    'wiki.key.RMB': 'RMB',
+    'wiki.key.SPACE': 'SPACE',
+    'wiki.key.PASSIVE': 'Passive',
+
+    'wiki.rules_basic.title': 'Basic Rules & Environment',
+    'wiki.rules_basic.desc': 'Welcome to the Realm of Balls. The physics here are both real and deadly.',
+    'wiki.rules_basic.win.name': 'Victory Condition',
+    'wiki.rules_basic.win.desc': "Reduce your enemy's HP to zero. A ball shatters when its HP runs out.",
+    'wiki.rules_basic.collision.name': 'Physical Collisions',
+    'wiki.rules_basic.collision.desc': 'Balls have real collision volumes. High-speed impacts damage both sides (based on relative speed). Pinning enemies against terrain is an effective tactic.',
+    'wiki.rules_basic.water.name': 'Terrain: Water',
+    'wiki.rules_basic.water.desc': 'Blue areas are water. Most balls move slower in water and drown if they stop moving. Pyro takes heavy continuous damage in water (extinguished).',
+    'wiki.rules_basic.walls.name': 'Terrain: Walls',
+    'wiki.rules_basic.walls.desc': "Grey blocks are walls. Bullets cannot pass through walls (except the drone's armor-piercing rounds). Some powerful skills (such as Wukong's ultimate or the Cat's scooper) can shatter walls and reshape the terrain.",
+
+    'wiki.ball_pyro.title': 'Pyro',
+    'wiki.ball_pyro.desc': 'A highly mobile sustained-damage dealer. Its core mechanic is [Heat Management].',
+    'wiki.ball_pyro.lmb.name': 'Flamethrower',
+    'wiki.ball_pyro.lmb.desc': 'Sprays scorching flames. The closer the cursor is to the ball, the wider the cone (good up close); the farther away, the more focused (good at range).\nNote: firing continuously causes [Burnout], during which you cannot attack.',
+    'wiki.ball_pyro.rmb.name': 'Detonate',
+    'wiki.ball_pyro.rmb.desc': 'Detonates every [Magma Pool] on the field, dealing burst damage and knockback to nearby enemies.',
+    'wiki.ball_pyro.space.name': 'Magma Pool',
+    'wiki.ball_pyro.space.desc': 'Lobs a glob of magma at the cursor, creating a burning zone. Enemies inside take continuous damage; you regenerate HP and cool down faster inside it.',
+    'wiki.ball_pyro.passive.name': 'Elemental Body',
+    'wiki.ball_pyro.passive.desc': 'Highly resistant to fire damage. Weakness: takes rapid continuous damage in [Water] (extinguished), whether moving or not.',
+
+    'wiki.ball_tank.title': 'Tank',
+    'wiki.ball_tank.desc': 'A heavily armored fortress with two weapon modes and a summon.',
+    'wiki.ball_tank.space.name': 'Switch Mode',
+    'wiki.ball_tank.space.desc': 'Switches between [Artillery] and [Machine Gun] mode. Machine Gun mode greatly increases movement speed; defense is unchanged.',
+    'wiki.ball_tank.lmb.name': 'Main Weapon (by mode)',
+    'wiki.ball_tank.lmb.desc': 'Artillery: fires heavy shells dealing {damage} damage, with a minimum range.\nMachine Gun: rapid-fire LMG with low per-shot damage but strong suppression. Needs reloading.',
+    'wiki.ball_tank.rmb.name': 'Deploy Drone',
+    'wiki.ball_tank.rmb.desc': 'Launches an auto-attacking drone. Drones are [Mechanical] and immune to some mental effects (such as Fear and Hiss). A drone returns to recharge when its battery runs out and takes a long time to rebuild if destroyed.',
+    'wiki.ball_tank.passive.name': 'Heavy Armor',
+    'wiki.ball_tank.passive.desc': 'The highest HP and mass in the game; extremely hard to push around.',
+
+    'wiki.ball_wukong.title': 'Wukong',
+    'wiki.ball_wukong.desc': 'A mobile melee assassin who excels at combos and destroying terrain.',
+    'wiki.ball_wukong.lmb.name': 'Staff Combo',
+    'wiki.ball_wukong.lmb.desc': 'Three-hit attack: left swing -> right swing -> overhead smash. The third hit deals heavy damage and knockback.',
+    'wiki.ball_wukong.rmb.name': 'Pillar Thrust',
+    'wiki.ball_wukong.rmb.desc': 'Hold to charge, release to thrust forward. The longer the charge, the longer the reach and the higher the damage.',
+    'wiki.ball_wukong.space.name': 'Ruyi Jingu Bang (Smash)',
+    'wiki.ball_wukong.space.desc': 'Charge while airborne (immune to some ground damage), then release to slam the ground. Shatters walls and sends out a shockwave.',
+    'wiki.ball_wukong.passive.name': 'Trained Body',
+    'wiki.ball_wukong.passive.desc': 'Water Walking: moves across water as if on land, without slowing down. 30% resistance to fire damage.',
+
+    'wiki.ball_cat.title': 'Cat',
+    'wiki.ball_cat.desc': 'An extremely fragile but extremely lethal assassin with a unique nine-lives mechanic.',
+    'wiki.ball_cat.lmb.name': 'Paw / Pounce',
+    'wiki.ball_cat.lmb.desc': 'Tap: quick scratch.\nHold to charge: [Pounce]. A pounce hit applies [Disarm + Silence + Slow] and interrupts charging. If two cats collide mid-air, they clash and bounce apart.',
+    'wiki.ball_cat.rmb.name': 'Hiss',
+    'wiki.ball_cat.rmb.desc': 'Emits a sound wave that knocks back nearby enemies. On the last life, Hiss also causes [Fear]. Mechanical units are immune.',
+    'wiki.ball_cat.space.name': 'Wrath of the Scooper',
+    'wiki.ball_cat.space.desc': 'Summons a giant scooper that slams the ground, devastating non-cat creatures and [Shattering Terrain]. Damage is higher closer to the center.',
+    'wiki.ball_cat.passive.name': 'Nine Lives',
+    'wiki.ball_cat.passive.desc': 'Starts with {lives} lives. Each death consumes one life and revives at full HP. Takes 70% less damage from other cats.',
+
+    'wiki.ball_magic.title': 'Magic',
+    'wiki.ball_magic.desc': 'A mysterious, chaotic spellcaster with hidden light and dark forms. Every skill costs mana (MP).',
+    'wiki.ball_magic.lmb.name': 'Random Curse',
+    'wiki.ball_magic.lmb.desc': 'Casts a curse that applies a random negative status on hit (0.5-3s). Deals no direct damage.\nCost: {cost} MP',
+    'wiki.ball_magic.rmb.name': 'Protective Spell',
+    'wiki.ball_magic.rmb.desc': 'Randomly casts one of three spells:\n[Expelliarmus] disarms nearby enemies for 3s\n[Protego] grants a {shield} HP shield\n[Apparate] cleanses control effects and blinks to safety',
+    'wiki.ball_magic.space.name': 'Ultimate Magic',
+    'wiki.ball_magic.space.desc': 'Light form: [Expecto Patronum] spends all MP to knock back enemies with a shockwave and summons a guardian orb for 5s (regenerates HP and MP, immune to control).\nDark form: [Avada Kedavra] spends all MP to fire a deadly beam toward the aim point; lower HP and more MP mean more damage.',
+    'wiki.ball_magic.passive.name': 'Magical Talent',
+    'wiki.ball_magic.passive.desc': '10% chance to start a match in dark form. MP regenerates steadily ({regen}/s), up to {maxMp}.',
+};
@@ -0,0 +1,570 @@
+// 简体中文 (源语言)：所有消息键以此文件为准，其它语言需提供完全相同的键
+export const zhCN = {
+    // --- 通用 ---
+    'common.back': '← 返回',
+    'common.backHome': '← 返回主页',
+    'common.backToGame': '← 返回游戏',
+    'common.on': '开',
+    'common.off': '关',
+    'common.cancel': '取消',
+    'common.confirm': '确定',
+    'common.reset': '恢复默认',
+    'common.ready': '就绪',
+    'common.gameTitle': '球之域',
+
+    // --- 角色 ---
+    'role.PYRO': '火焰球',
+    'role.WUKONG': '悟空球',
+    'role.CAT': '猫猫球',
+    'role.TANK': '坦克球',
+    'role.COACH': '教练球',
+    'role.MAGIC': '魔法球',
+    'role.ENVIRONMENT': '环境',
+    'role.unknown': '未知球体',
+    'role.drone': '无人机',
+    'role.droneOf': '无人机（{owner}）',
+
+    // --- 开场 / 主页 ---
+    'intro.clickToStart': '点击开始',
+    'home.quickStart': '快速开始',
+    'home.switchMode': '切换模式',
+    'home.customGame': '自定义 / 多人',
+    'home.onlineGame': '联机对战',
+    'home.nav.wiki': '百科',
+    'home.nav.balanceLab': '平衡实验室',
+    'home.nav.rank': '排行',
+    'home.nav.replay': '回放',
+    'home.nav.about': '关于',
+
+    // --- 角色选择 ---
+    'charSelect.title': '配置出战',
+    'charSelect.subtitle': '选择你的球',
+    'charSelect.speed': '速度',
+    'charSelect.defense': '防御',
+    'charSelect.attack': '攻击',
+    'charSelect.wiki': '游戏百科',
+    'charSelect.wikiSub': '机制 · 数据 · 图鉴',
+    'charSelect.PYRO.tagline': '燃尽一切',
+    'charSelect.PYRO.speed': '高',
+    'charSelect.PYRO.defense': '低',
+    'charSelect.PYRO.attack': '火焰喷射',
+    'charSelect.PYRO.mechanics': '机制：热能管理 / 持续叠伤 / 引爆全场',
+    'charSelect.WUKONG.tagline': '齐天大圣',
+    'charSelect.WUKONG.speed': '极高',
+    'charSelect.WUKONG.defense': '中等',
+    'charSelect.WUKONG.attack': '金箍棒连招',
+    'charSelect.WUKONG.mechanics': '机制：三段连招 / 蓄力攻击 / 水上漂',
+    'charSelect.TANK.tagline': '铜墙铁壁',
+    'charSelect.TANK.speed': '极低',
+    'charSelect.TANK.defense': '重装甲',
+    'charSelect.TANK.attack': '重炮 / 轻机枪',
+    'charSelect.TANK.mechanics': '机制：双形态切换 / 召唤无人机',
+    'charSelect.CAT.tagline': '萌即正义',
+    'charSelect.CAT.speed': '超音速',
+    'charSelect.CAT.defense': '纸糊',
+    'charSelect.CAT.attack': '猫爪/飞扑',
+    'charSelect.CAT.mechanics': '机制：九命复活 / 飞扑控制 / 铲屎官之怒',
+    'charSelect.MAGIC.tagline': '随机魔法',
+    'charSelect.MAGIC.speed': '中等',
+    'charSelect.MAGIC.defense': '中等',
+    'charSelect.MAGIC.attack': '随机诅咒',
+    'charSelect.MAGIC.mechanics': '机制：随机控制 / 三种保命咒 / 黑白形态',
+
+    // --- 对手选择 ---
+    'oppSelect.back': '← 重选角色',
+    'oppSelect.title': '选择对手',
+    'oppSelect.random': '随机对手',
+    'oppSelect.randomChallenge': '随机挑战',
+    'oppSelect.trainingRange': '训练靶场',
+    'oppSelect.trainingHint': '靶子、无限资源、DPS 统计',
+    'oppSelect.directConnect': '好友直连',
+    'oppSelect.difficulty': '电脑难度',
+    'difficulty.EASY': '简单',
+    'difficulty.NORMAL': '普通',
+    'difficulty.HARD': '困难',
+    'difficulty.INSANE': '疯狂',
+
+    // --- 自定义对局 ---
+    'custom.title': '自定义对局',
+    'custom.mode.FFA': '四人大乱斗',
+    'custom.mode.FFA.sub': '各自为战',
+    'custom.mode.TEAM_2V2': '2 vs 2',
+    'custom.mode.TEAM_2V2.sub': '双人组队',
+    'custom.mode.TEAM_3V3': '3 vs 3',
+    'custom.mode.TEAM_3V3.sub': '三人团战',
+    'custom.randomize': '随机分配',
+    'custom.start': '开始游戏',
+    'custom.slot.player': '玩家',
+    'custom.slot.localPlayer': '同屏玩家',
+    'custom.slot.localPlayerFfa': '玩家 (同屏)',
+    'custom.slot.bot': '电脑',
+    'custom.slot.botAi': '电脑 AI',
+    'custom.slot.script': '脚本',
+    'custom.slot.scriptAi': '脚本控制',
+    'custom.editScripts': '编辑脚本',
+    'custom.slot.self': '我方',
+    'custom.slot.ally': '队友',
+    'custom.slot.enemy': '敌方',
+    'custom.slot.withSide': '{role} ({side})',
+
+    // --- 对局 HUD ---
+    'game.unknownEnemy': '未知敌人',
+    'game.spectating': '观战中: {role}',
+    'game.fuel': '燃料能量',
+    'game.burnoutAlert': '燃尽警报',
+    'game.shells': '炮弹',
+    'game.lmgBelt': '机枪弹药链',
+    'game.reloading': '装填中...',
+    'game.nineLives': '九命猫猫',
+    'game.mana': '法力值',
+    'game.skillSpace': '技能 (Space)',
+    'game.cooldown': '冷却中...',
+    'game.pyro.detonate': '引爆岩浆 (右键)',
+    'game.wukong.thrust': '呔！ (右键)',
+    'game.cat.hiss': '哈气 (右键)',
+    'game.magic.protego': '保护咒语 (右键)',
+    'game.magic.shield': '护盾',
+    'game.magic.lowMana': '法力不足',
+    'game.tank.radar': '雷达系统',
+    'game.tank.radarOnline': '运转中',
+    'game.tank.drone': '无人机 (右键)',
+    'game.tank.droneHull': '结构',
+    'game.tank.droneBattery': '电池',
+    'game.tank.droneWorking': '工作中...',
+    'game.tank.droneRebuilding': '重建中',
+    'game.tank.droneCharging': '充电中',
+    'game.tank.tooClose': '距离过近',
+    'game.mode.ARTILLERY': '重炮模式',
+    'game.mode.LMG': '机枪模式',
+    'game.skill.PYRO': '岩浆池',
+    'game.skill.WUKONG': '如意金箍棒',
+    'game.skill.CAT': '铲屎官之怒',
+    'game.skill.default': '切换形态',
+    'game.endBattle': '结束战斗',
+    'game.exitReplay': '退出回放',
+    'game.nearestEnemy': '最近敌对单位',
+    'game.enemy': '敌对单位',
+    'game.exitConfirm': '确定要结束战斗吗？',
+    'game.settings': '⚙ 设置',
+    'game.gamepadAimAssist': '🎮 辅助瞄准:',
+    'game.gamepadToggleHint': ' · Back 键切换',
+    'game.command.ATTACK': '集火',
+    'game.command.REGROUP': '集合',
+    'game.command.HOLD': '坚守',
+    'game.command.RETREAT': '撤退',
+    'game.victory': '胜利',
+    'game.defeat': '失败',
+    'game.targetDestroyed': '目标已摧毁',
+    'game.backToMenu': '返回主菜单',
+    'game.downloadReplay': '下载回放',
+    'game.draw': '平局',
+    'game.playersWin': '{players} 获胜',
+    'game.botsWin': '电脑获胜',
+
+    // 失败文案 (按角色)
+    'defeat.PYRO': '火焰熄灭',
+    'defeat.TANK': '机体严重损毁',
+    'defeat.WUKONG': '修行不足',
+    'defeat.CAT': '猫猫去睡觉了!',
+    'defeat.MAGIC': '法力耗尽',
+    'defeat.MAGIC.black': '“这不是终点。”',
+    'defeat.default': '对局结束',
+
+    // --- 回放 ---
+    'replay.title': '对局回放',
+    'replay.latest': '最近一局',
+    'replay.custom': '自定义 {count} 人',
+    'replay.none': '暂无录像，完成一局对战后自动保存',
+    'replay.import': '导入录像文件 (.json)',
+    'replay.play': '播放',
+    'replay.pause': '暂停',
+    'replay.freeCam': '自由视角 (WASD)',
+    'replay.followCam': '跟随视角',
+    'replay.error.format': '录像文件格式错误',
+    'replay.error.version': '不支持的录像版本: {version}',
+    'replay.error.fields': '录像文件缺少必要字段',
+    'replay.error.tickRate': '录像帧率不匹配: {tickRate}',
+
+    // --- 联机对战 ---
+    'online.title': '联机对战',
+    'online.serverUrl': '服务器地址',
+    'online.character': '选择角色',
+    'online.findMatch': '开始匹配',
+    'online.cancel': '取消匹配',
+    'online.status.CONNECTING': '正在连接服务器...',
+    'online.status.WAITING': '等待对手加入...',
+    'online.status.PLAYING': '匹配成功',
+    'online.status.CLOSED': '未连接',
+    'online.hint': '本地测试：运行 npm run server 启动服务器，再在两个浏览器标签页中分别开始匹配。',
+    'online.opponentLeft': '对手已断开连接',
+    'online.error.connect': '无法连接到服务器',
+    'online.error.lost': '与服务器的连接已断开',
+    'online.error.version': '客户端与服务器版本不一致 (服务器协议版本 {version})',
+    'online.error.character': '服务器不接受该角色',
+
+    // --- Direct Connect (P2P) ---
+    'p2p.title': '好友直连',
+    'p2p.host': '创建邀请',
+    'p2p.join': '加入对战',
+    'p2p.inviteCode': '邀请码',
+    'p2p.answerCode': '应答码',
+    'p2p.generating': '正在生成...',
+    'p2p.copy': '复制',
+    'p2p.copied': '已复制',
+    'p2p.connect': '连接',
+    'p2p.createAnswer': '生成应答码',
+    'p2p.hostHint': '把邀请码发给对方，再把对方回复的应答码粘贴到下方。',
+    'p2p.joinHint': '粘贴对方发来的邀请码。',
+    'p2p.answerHint': '把应答码发回给对方，等待连接。',
+    'p2p.status.SIGNALING': '等待交换连接码',
+    'p2p.status.CONNECTING': '正在连接...',
+    'p2p.status.OPEN': '已连接',
+    'p2p.status.CLOSED': '未连接',
+    'p2p.hint': '本机测试：在两个浏览器标签页中分别创建邀请和加入。',
+    'p2p.desync': '双方状态不一致，对局结果可能不同',
+    'p2p.error.code': '无法识别的连接码',
+    'p2p.error.version': '对方的游戏版本不同',
+    'p2p.error.connect': '无法建立连接',
+    'p2p.error.lost': '与对方的连接已断开',
+
+    // --- 平衡实验室 ---
+    'balance.title': '平衡实验室',
+    'balance.characters': '角色',
+    'balance.modes': '模式',
+    'balance.mode.FFA': '1v1',
+    'balance.mode.TEAM_2V2': '2v2',
+    'balance.mode.TEAM_3V3': '3v3',
+    'balance.mutators': '规则变体',
+    'balance.mutator.NO_OBSTACLES': '无障碍物',
+    'balance.mutator.HALF_HP': '血量减半',
+    'balance.mutator.DOUBLE_HP': '血量翻倍',
+    'balance.matches': '每组对局数',
+    'balance.maxSeconds': '单局上限 (秒)',
+    'balance.seed': '随机种子',
+    'balance.overrides': '数值覆盖',
+    'balance.overridesHint': '只在模拟中生效；满意后再改 constants.ts 中的 CHAR_STATS。',
+    'balance.overrideCount': '已修改 {count} 项',
+    'balance.resetOverrides': '全部还原',
+    'balance.copyOverrides': '复制 JSON',
+    'balance.copied': '已复制',
+    'balance.run': '开始模拟',
+    'balance.cancel': '停止',
+    'balance.progress': '{done} / {total} 局 · {workers} 个线程',
+    'balance.totalMatches': '共 {count} 局',
+    'balance.error': '模拟失败：{message}',
+    'balance.empty': '选择角色与模式后开始模拟，结果会显示在这里。',
+    'balance.winRate': '胜率 (行 对 列)',
+    'balance.deltaHint': '括号内为相对上一次模拟的变化',
+    'balance.ttk': '对局时长分布 (秒)',
+    'balance.ttkAvg': '平均 {seconds}s',
+    'balance.draws': '平局 {count}',
+    'balance.skillShare': '技能伤害占比',
+    'balance.perMatch': '场均 {damage}',
+    'balance.skill.CAT_SCRATCH': '猫爪',
+    'balance.skill.CAT_POUNCE': '飞扑',
+    'balance.skill.CAT_SCOOPER': '铲屎官',
+    'balance.skill.MAGIC_AVADA': '阿瓦达索命',
+    'balance.skill.MAGIC_LIGHT_SPIRIT': '光灵',
+    'balance.skill.MAGIC_PATRONUS': '守护神波',
+    'balance.skill.PYRO_FLAMETHROWER': '火焰喷射',
+    'balance.skill.PYRO_MAGMA_POOL': '岩浆池爆炸',
+    'balance.skill.WUKONG_COMBO': '棍法连击',
+    'balance.skill.WUKONG_THRUST': '突刺',
+    'balance.skill.WUKONG_SMASH': '蓄力砸地',
+    'balance.skill.WUKONG_WALL_SLAM': '撞墙追加',
+    'balance.skill.EXPLOSION': '爆炸',
+    'balance.skill.COLLISION': '碰撞',
+    'balance.skill.BURN': '灼烧',
+    'balance.skill.DROWNING': '溺水',
+    'balance.skill.MAGMA_TERRAIN': '岩浆地形',
+    'balance.skill.BULLET': '机枪子弹',
+    'balance.skill.BOMB': '重炮直击',
+    'balance.skill.MAGMA_PROJ': '岩浆弹',
+    'balance.skill.DRONE_SHOT': '无人机射击',
+    'balance.skill.MAGIC_SPELL': '咒语',
+    'balance.skill.MAGIC_BEAM': '魔法光束',
+    'balance.skill.EXPELLIARMUS': '除你武器',
+    'balance.skill.OTHER': '其他',
+
+    // --- 脚本机器人 ---
+    'script.title': '脚本机器人',
+    'script.hint': '导出 think(observation) 函数，每个模拟步调用一次，返回移动、瞄准与按键指令。单次耗时超过 {budget} ms 的结果会被丢弃。脚本在隔离的 Worker 中运行，无法联网或读取存储。',
+    'script.new': '新建',
+    'script.duplicate': '复制',
+    'script.delete': '删除',
+    'script.save': '保存',
+    'script.saved': '已保存',
+    'script.name': '名称',
+    'script.builtIn': '内置示例，复制后即可修改',
+    'script.test': '试运行',
+    'script.testing': '运行中…',
+    'script.testResult': '{commands} 条指令 · 超时 {overruns} 次 · 最近一次 {ms} ms',
+    'script.status.LOADING': '加载中',
+    'script.status.RUNNING': '运行中',
+    'script.status.CRASHED': '已停止',
+    'script.overruns': '超时 {count}',
+    'script.error.import': '脚本不能使用 import (注释与字符串中也不能出现该单词)',
+    'script.error.noThink': '脚本没有导出 think 函数',
+    'script.error.load': '脚本加载失败：{message}',
+    'script.error.think': 'think 出错：{message}',
+    'script.error.timeout': '脚本长时间无响应，已停止运行',
+
+    // --- 训练场 ---
+    'training.title': '训练场',
+    'training.dps': 'DPS',
+    'training.total': '总伤害 {amount}',
+    'training.reset': '清零',
+    'training.breakdown': '技能伤害',
+    'training.hits': '{count} 次',
+    'training.recent': '最近命中',
+    'training.noDamage': '攻击靶子以开始统计',
+    'training.dummyMode.STATIONARY': '固定靶',
+    'training.dummyMode.MOVING': '移动靶',
+    'training.infiniteResources': '无限资源',
+    'training.resetCooldowns': '无冷却',
+    'training.spawn': '生成靶子 ({count}/{max})',
+    'training.clear': '清空靶子',
+    'training.status': '施加状态',
+    'training.target.SELF': '自己',
+    'training.target.DUMMY': '靶子',
+
+    // --- 开发者控制台 ---
+    'console.title': '控制台',
+    'console.placeholder': '输入命令，help 查看全部命令',
+    'console.disabledReplay': '使用控制台后本局不再保存录像',
+    'console.result.help': '可用命令：{commands}。help 命令名 查看用法',
+    'console.result.usage': '用法：{usage}',
+    'console.result.spawn': '已生成 {type} ({id})，队伍 {team}',
+    'console.result.status': '已对 {count} 个目标施加 {status} {duration} 秒',
+    'console.result.set': '已将 {count} 个目标的 {field} 设为 {value}',
+    'console.result.kill': '已击杀 {count} 个目标',
+    'console.result.obstacle': '已放置 {type} {width}x{height}',
+    'console.result.timescale': '时间倍率 {scale}',
+    'console.result.seed': '随机数已重置为种子 {seed}',
+    'console.error.empty': '请输入命令',
+    'console.error.unknown': '未知命令：{command}',
+    'console.error.option': '无效的选项 {option}。用法：{usage}',
+    'console.error.number': '"{value}" 不是有效的数字',
+    'console.error.range': '{value} 超出范围 ({min} - {max})',
+    'console.error.boolean': '"{value}" 应为 true 或 false',
+    'console.error.position': '无效的位置 "{value}"，可用 cursor、self 或 X,Y',
+    'console.error.target': '没有找到目标 "{value}"',
+    'console.error.type': '未知角色 "{value}"',
+    'console.error.difficulty': '未知难度 "{value}"',
+    'console.error.status': '未知状态 "{value}"',
+    'console.error.field': '无法修改属性 "{value}"',
+
+    // --- 调试叠加层 ---
+    'debug.fps': 'FPS {fps}',
+    'debug.tick': '帧 {tick} · {time}s',
+    'debug.players': '玩家 {alive}/{total}',
+    'debug.entities': '投射物 {projectiles} · 无人机 {drones} · 地面效果 {effects} · 粒子 {particles}',
+    'debug.obstacles': '障碍物 {count}',
+    'debug.focus': '危险区域 ({id})：{count}',
+    'debug.legend.target': '目标 (感知位置)',
+    'debug.legend.move': '移动方向',
+    'debug.legend.evade': '躲避危险',
+    'debug.legend.retreat': '战术后撤',
+    'debug.legend.unstuck': '脱困',
+    'debug.legend.command': '指令目标点',
+    'debug.hazard.SKILL': '技能预警',
+    'debug.hazard.WATER': '水域',
+    'debug.hazard.MAGMA': '岩浆',
+    'debug.hazard.WALL': '墙壁',
+    'debug.hazard.MAP_EDGE': '地图边缘',
+
+    // --- 设置 ---
+    'settings.title': '设置',
+    'settings.audio': '音频',
+    'settings.masterVolume': '主音量',
+    'settings.sfxVolume': '音效',
+    'settings.uiVolume': '界面音',
+    'settings.visual': '画面',
+    'settings.screenShake': '屏幕震动',
+    'settings.particleDensity': '粒子密度',
+    'settings.cameraLookAhead': '镜头前探',
+    'settings.floatingText': '伤害数字 / 状态飘字',
+    'settings.language': '语言 / Language',
+    'settings.bindings': '按键绑定',
+    'settings.pressKey': '按下新按键...',
+    'settings.bindingsHint': '键盘 A 使用鼠标瞄准；键盘 B 沿移动方向瞄准，供同屏第二名玩家使用。重复的按键会自动交换或解绑。',
+    'settings.gamepad': '手柄',
+    'settings.aimAssist': '辅助瞄准',
+    'settings.aimAssistStrength': '辅助瞄准强度',
+    'settings.deadzone': '摇杆死区',
+    'settings.gamepadHint': '左摇杆 移动 · 右摇杆 瞄准 · RT 普攻 · LT 副技能 · RB/LB 大招 · Y 切换形态 · 十字键 队伍指令 · Start 菜单 · Back 辅助瞄准开关',
+
+    // --- 输入设备与动作 ---
+    'input.source.KEYBOARD_A': '键盘 A (键鼠)',
+    'input.source.KEYBOARD_B': '键盘 B (无鼠标)',
+    'input.source.GAMEPAD_1': '手柄 1',
+    'input.source.GAMEPAD_2': '手柄 2',
+    'input.action.MOVE_UP': '向上移动',
+    'input.action.MOVE_DOWN': '向下移动',
+    'input.action.MOVE_LEFT': '向左移动',
+    'input.action.MOVE_RIGHT': '向右移动',
+    'input.action.PRIMARY': '普通攻击',
+    'input.action.SECONDARY': '副技能',
+    'input.action.ULTIMATE': '大招',
+    'input.action.TOGGLE_MODE': '切换形态',
+    'input.action.PAUSE': '暂停 / 菜单',
+    'input.action.COMMAND_ATTACK': '集火我的目标',
+    'input.action.COMMAND_REGROUP': '集合到我身边',
+    'input.action.COMMAND_HOLD': '坚守此处',
+    'input.action.COMMAND_RETREAT': '撤退',
+    'input.action.COMMAND_WHEEL': '指令轮盘 (按住)',
+    'input.action.CONSOLE': '开发者控制台',
+    'input.action.DEBUG_OVERLAY': '调试叠加层',
+    'input.key.unbound': '未绑定',
+    'input.key.numpad': '小键盘 {key}',
+    'input.key.MouseLeft': '鼠标左键',
+    'input.key.MouseRight': '鼠标右键',
+    'input.key.MouseMid': '鼠标中键',
+    'input.key.Space': '空格',
+    'input.key.Backspace': '退格',
+    'input.key.Enter': '回车',
+    'input.key.ShiftLeft': '左Shift',
+    'input.key.ShiftRight': '右Shift',
+    'input.key.ControlLeft': '左Ctrl',
+    'input.key.ControlRight': '右Ctrl',
+    'input.key.AltLeft': '左Alt',
+    'input.key.AltRight': '右Alt',
+
+    // --- 状态飘字 (STATUS_CONFIG.labels 引用) ---
+    'status.stun': '眩晕!',
+    'status.petrify': '石化!',
+    'status.sleep': '催眠!',
+    'status.fear': '恐惧!',
+    'status.charm': '魅惑!',
+    'status.taunt': '嘲讽!',
+    'status.silence': '沉默!',
+    'status.disarm': '缴械!',
+    'status.root': '束缚!',
+    'status.blind': '致盲!',
+    'status.slow': '减速!',
+    'status.burn': '灼烧!',
+    'status.invincible': '无敌!',
+    'status.stealth': '隐身!',
+    'status.haste': '加速!',
+    'status.heal': '治疗!',
+    'status.burst': '爆燃!',
+    'status.wet': '潮湿!',
+    'status.revive': '复活!',
+    'status.flattened': '拍扁!',
+    'status.stomped': '踩!',
+    'status.cuteOverload': '被萌翻!',
+    'status.energized': '很好!很有精神!',
+
+    // 其它飘字
+    'floating.immune': '免疫!',
+    'floating.resist': '抵抗!',
+    'floating.wakeUp': '惊醒!',
+    'floating.burnout': '燃尽!',
+    'floating.artilleryMode': '重炮模式',
+    'floating.reloading': '装填中...',
+    'floating.reloaded': '装填完毕!',
+    'floating.livesLeft': '剩余命数: {lives}',
+    'floating.sleeping': 'zZz',
+    'floating.wukongShout': '呔!',
+    'floating.wukongTaunt1': '吃俺老孙一棒!',
+    'floating.wukongTaunt2': '我乃齐天大圣孙悟空!',
+    'floating.wukongTaunt3': '孩儿们，你孙爷爷来了!',
+    'floating.greaterGood': '为了更伟大的利益。',
+
+    // 魔法球咒语台词 (MAGIC_SPELL_LINES 引用)
+    'spell.stun': '昏昏倒地!',
+    'spell.petrify': '统统石化!',
+    'spell.sleep': '沉沉入梦!',
+    'spell.fear': '震心慑魄!',
+    'spell.charm': '意乱情迷!',
+    'spell.taunt': '你过来啊!',
+    'spell.silence': '无声无息!',
+    'spell.root': '速速禁锢!',
+    'spell.blind': '目眩失明!',
+    'spell.slow': '障碍重重!',
+    'spell.burn': '火焰熊熊!',
+    'spell.disarm': '除你武器!',
+    'spell.blink': '移形换影!',
+    'spell.armor': '盔甲护身!',
+    'spell.patronus': '呼神护卫!',
+    'spell.avada': '阿瓦达啃大瓜!',
+
+    // --- 百科 ---
+    'wiki.title': '游戏百科',
+    'wiki.general': '基础知识',
+    'wiki.balls': '球体图鉴',
+    'wiki.skillsAndMechanics': '技能与机制',
+    'wiki.rules': '详细规则',
+    'wiki.key.LMB': '左键',
+    'wiki.key.RMB': '右键',
+    'wiki.key.SPACE': 'SPACE',
+    'wiki.key.PASSIVE': '被动',
+
+    'wiki.rules_basic.title': '基础规则与环境',
+    'wiki.rules_basic.desc': '欢迎来到球之域。这里的物理法则既真实又致命。',
+    'wiki.rules_basic.win.name': '胜利条件',
+    'wiki.rules_basic.win.desc': '将敌人的生命值 (HP) 归零。当生命值耗尽时，球体将破碎。',
+    'wiki.rules_basic.collision.name': '物理碰撞',
+    'wiki.rules_basic.collision.desc': '球体之间存在真实的物理碰撞体积。高速撞击会造成双方伤害（基于相对速度）。利用地形将敌人逼入死角是有效的战术。',
+    'wiki.rules_basic.water.name': '地形：水域 (Water)',
+    'wiki.rules_basic.water.desc': '蓝色的区域是水。大多数球在水中移动会变慢，如果停止移动还会溺水。火焰球在水中会持续受到高额伤害（熄火）。',
+    'wiki.rules_basic.walls.name': '地形：障碍物 (Walls)',
+    'wiki.rules_basic.walls.desc': '灰色的方块是墙壁。子弹无法穿透墙壁（除了无人机的特制穿甲弹）。某些强力技能（如悟空的大招、猫猫的铲子）可以粉碎墙壁改变地形。',
+
+    'wiki.ball_pyro.title': '火焰球 (Pyro)',
+    'wiki.ball_pyro.desc': '高机动性的持续输出者。核心机制是【热能管理】。',
+    'wiki.ball_pyro.lmb.name': '火焰喷射',
+    'wiki.ball_pyro.lmb.desc': '持续喷射高温火焰。鼠标离球心越近，喷射角度越宽（适合近战）；离球心越远，喷射越集中（适合远程）。\n注意：持续开火会【燃尽】，期间无法攻击。',
+    'wiki.ball_pyro.rmb.name': '引爆 (Detonate)',
+    'wiki.ball_pyro.rmb.desc': '引爆场上所有的【岩浆池】。对附近的敌人造成爆发伤害和击退。',
+    'wiki.ball_pyro.space.name': '岩浆池 (Magma Pool)',
+    'wiki.ball_pyro.space.desc': '向光标处抛射一团岩浆，生成燃烧区域。敌人在区域内持续受损，自己在区域内可回复生命并加速散热。',
+    'wiki.ball_pyro.passive.name': '元素体质',
+    'wiki.ball_pyro.passive.desc': '对火焰伤害有高额抗性。弱点：在【水域】中会受到持续的快速伤害（熄火），无论是否移动。',
+
+    'wiki.ball_tank.title': '坦克球 (Tank)',
+    'wiki.ball_tank.desc': '拥有双形态切换和召唤能力的重装堡垒。',
+    'wiki.ball_tank.space.name': '形态切换',
+    'wiki.ball_tank.space.desc': '在【重炮模式】和【机枪模式】之间切换。机枪模式下移动速度大幅提升，但防御能力不变。',
+    'wiki.ball_tank.lmb.name': '主武器 (根据形态)',
+    'wiki.ball_tank.lmb.desc': '重炮模式：发射重型炮弹，造成 {damage} 点高额伤害，有最小射程限制。\n机枪模式：高射速轻机枪，单发伤害低但压制力强。需换弹。',
+    'wiki.ball_tank.rmb.name': '部署无人机',
+    'wiki.ball_tank.rmb.desc': '释放一架自动攻击的无人机。无人机属于【电子机械】，免疫部分精神控制（如恐惧、哈气）。无人机没电后会返回充电，被摧毁后需长时间重构。',
+    'wiki.ball_tank.passive.name': '重装甲',
+    'wiki.ball_tank.passive.desc': '拥有全游戏最高的生命值和物理质量，极难被撞动。',
+
+    'wiki.ball_wukong.title': '悟空球 (Wukong)',
+    'wiki.ball_wukong.desc': '高机动的近战刺客，擅长连招和地形破坏。',
+    'wiki.ball_wukong.lmb.name': '金箍棒连招',
+    'wiki.ball_wukong.lmb.desc': '三段式攻击：左挥 -> 右挥 -> 强力下劈。第三段攻击造成高额伤害和击退。',
+    'wiki.ball_wukong.rmb.name': '定海神针·刺 (Thrust)',
+    'wiki.ball_wukong.rmb.desc': '按住蓄力，松开后向前突刺。蓄力越久，攻击距离越远，伤害越高。',
+    'wiki.ball_wukong.space.name': '如意金箍棒 (Smash)',
+    'wiki.ball_wukong.space.desc': '蓄力腾空（期间免疫部分地面伤害），松开后重击地面。可粉碎墙壁，造成范围震荡波。',
+    'wiki.ball_wukong.passive.name': '修行之躯',
+    'wiki.ball_wukong.passive.desc': '凌波微步：在水面上移动如履平地，不会减速。对火焰伤害有 30% 抗性。',
+
+    'wiki.ball_cat.title': '猫猫球 (Cat)',
+    'wiki.ball_cat.desc': '极其脆弱但极其致命的刺客。拥有独特的九命机制。',
+    'wiki.ball_cat.lmb.name': '猫猫拳 / 飞扑',
+    'wiki.ball_cat.lmb.desc': '点按：快速抓挠。\n长按蓄力：【飞扑】。飞扑命中敌人造成【缴械 + 沉默 + 减速】并打断蓄力。若两只猫猫球空中对撞，会触发拼刀弹开。',
+    'wiki.ball_cat.rmb.name': '哈气 (Hiss)',
+    'wiki.ball_cat.rmb.desc': '发出声波震开周围敌人。如果只剩最后一条命，哈气会造成【恐惧】效果。电子机械单位免疫此效果。',
+    'wiki.ball_cat.space.name': '铲屎官之怒',
+    'wiki.ball_cat.space.desc': '召唤巨大的铲子拍击地面。对非猫猫球生物造成毁灭性打击，并【粉碎地形】。离中心越近伤害越高。',
+    'wiki.ball_cat.passive.name': '九命怪猫',
+    'wiki.ball_cat.passive.desc': '初始拥有 {lives} 条命。每次死亡会消耗一条命并满血复活。内战时自带 70% 伤害减免。',
+
+    'wiki.ball_magic.title': '魔法球 (Magic)',
+    'wiki.ball_magic.desc': '充满随机性的神秘施法者。拥有隐藏的黑白双形态，所有技能消耗法力值(MP)。',
+    'wiki.ball_magic.lmb.name': '随机诅咒',
+    'wiki.ball_magic.lmb.desc': '发射一道咒语，命中敌人施加随机负面状态（0.5-3秒）。不造成直接伤害。\n消耗: {cost} MP',
+    'wiki.ball_magic.rmb.name': '保命咒语',
+    'wiki.ball_magic.rmb.desc': '随机释放三种咒语之一：\n【除你武器】近身缴械敌人3秒\n【盔甲护身】获得{shield}HP护盾\n【移形换影】解除控制并闪现到安全位置',
+    'wiki.ball_magic.space.name': '终极魔法',
+    'wiki.ball_magic.space.desc': '白魔法球：【呼神护卫】消耗全部MP，释放冲击波击退敌人，召唤光灵球守护自己5秒（持续回血回蓝、免疫控制）。\n黑魔法球：【阿瓦达啃大瓜】消耗全部MP，向瞄准方向发射致命光束，血越低、MP越多伤害越高。',
+    'wiki.ball_magic.passive.name': '魔法天赋',
+    'wiki.ball_magic.passive.desc': '进入对局有10%概率变为黑魔法球形态。MP持续匀速恢复({regen}/秒)，上限{maxMp}。',
+};
+
+export type MessageKey = keyof typeof zhCN;
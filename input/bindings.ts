@@ -0,0 +1,130 @@
+import type { KeyboardSourceId, TeamCommandType } from '../types';
+import { STORAGE_KEYS, loadJSON, saveJSON } from '../storage';
+import { t } from '../i18n';
+import type { MessageKey } from '../i18n';
+
+// 可绑定的动作 (MOVE 拆分为四个方向)
+export type InputAction =
+    | 'MOVE_UP' | 'MOVE_DOWN' | 'MOVE_LEFT' | 'MOVE_RIGHT'
+    | 'PRIMARY' | 'SECONDARY' | 'ULTIMATE' | 'TOGGLE_MODE' | 'PAUSE'
+    | 'COMMAND_ATTACK' | 'COMMAND_REGROUP' | 'COMMAND_HOLD' | 'COMMAND_RETREAT' | 'COMMAND_WHEEL' | 'CONSOLE' | 'DEBUG_OVERLAY';
+
+export const INPUT_ACTIONS: InputAction[] = [
+    'MOVE_UP', 'MOVE_DOWN', 'MOVE_LEFT', 'MOVE_RIGHT', 'PRIMARY', 'SECONDARY', 'ULTIMATE', 'TOGGLE_MODE', 'PAUSE',
+    'COMMAND_ATTACK', 'COMMAND_REGROUP', 'COMMAND_HOLD', 'COMMAND_RETREAT', 'COMMAND_WHEEL', 'CONSOLE', 'DEBUG_OVERLAY'
+];
+
+// [Command] 队伍指令对应的快捷键动作 (COMMAND_WHEEL 按住时打开指令轮盘，只用于鼠标瞄准的键位)
+export const COMMAND_ACTIONS: Record<TeamCommandType, InputAction> = {
+    ATTACK: 'COMMAND_ATTACK',
+    REGROUP: 'COMMAND_REGROUP',
+    HOLD: 'COMMAND_HOLD',
+    RETREAT: 'COMMAND_RETREAT',
+};
+
+export const INPUT_ACTION_LABELS: Record<InputAction, MessageKey> = {
+    MOVE_UP: 'input.action.MOVE_UP',
+    MOVE_DOWN: 'input.action.MOVE_DOWN',
+    MOVE_LEFT: 'input.action.MOVE_LEFT',
+    MOVE_RIGHT: 'input.action.MOVE_RIGHT',
+    PRIMARY: 'input.action.PRIMARY',
+    SECONDARY: 'input.action.SECONDARY',
+    ULTIMATE: 'input.action.ULTIMATE',
+    TOGGLE_MODE: 'input.action.TOGGLE_MODE',
+    PAUSE: 'input.action.PAUSE',
+    COMMAND_ATTACK: 'input.action.COMMAND_ATTACK',
+    COMMAND_REGROUP: 'input.action.COMMAND_REGROUP',
+    COMMAND_HOLD: 'input.action.COMMAND_HOLD',
+    COMMAND_RETREAT: 'input.action.COMMAND_RETREAT',
+    COMMAND_WHEEL: 'input.action.COMMAND_WHEEL',
+    CONSOLE: 'input.action.CONSOLE',
+    DEBUG_OVERLAY: 'input.action.DEBUG_OVERLAY',
+};
+
+// 动作 -> KeyboardEvent.code (鼠标按键为 MouseLeft / MouseRight / MouseMid，空字符串表示未绑定)
+export type ActionBindings = Record<InputAction, string>;
+export type ControlBindings = Record<KeyboardSourceId, ActionBindings>;
+
+// 两套可同时使用的键位：A 为 WASD + 鼠标，B 为方向键 + 右手小键区
+export const DEFAULT_BINDINGS: ControlBindings = {
+    KEYBOARD_A: {
+        MOVE_UP: 'KeyW', MOVE_DOWN: 'KeyS', MOVE_LEFT: 'KeyA', MOVE_RIGHT: 'KeyD',
+        PRIMARY: 'MouseLeft', SECONDARY: 'MouseRight', ULTIMATE: 'Space', TOGGLE_MODE: 'KeyQ',
+        PAUSE: 'Escape',
+        COMMAND_ATTACK: 'Digit1', COMMAND_REGROUP: 'Digit2', COMMAND_HOLD: 'Digit3', COMMAND_RETREAT: 'Digit4',
+        COMMAND_WHEEL: 'KeyF',
+        CONSOLE: 'Backquote',
+        DEBUG_OVERLAY: 'F3'
+    },
+    KEYBOARD_B: {
+        MOVE_UP: 'ArrowUp', MOVE_DOWN: 'ArrowDown', MOVE_LEFT: 'ArrowLeft', MOVE_RIGHT: 'ArrowRight',
+        PRIMARY: 'Period', SECONDARY: 'Slash', ULTIMATE: 'ShiftRight', TOGGLE_MODE: 'Comma',
+        PAUSE: 'Backspace',
+        COMMAND_ATTACK: 'Numpad1', COMMAND_REGROUP: 'Numpad2', COMMAND_HOLD: 'Numpad3', COMMAND_RETREAT: 'Numpad4',
+        COMMAND_WHEEL: '',
+        CONSOLE: '',
+        DEBUG_OVERLAY: ''
+    },
+};
+
+// 读取已保存的绑定，缺失的动作回落到默认值 (兼容新增动作)
+export const loadBindings = (): ControlBindings => {
+    const saved = loadJSON<Partial<Record<KeyboardSourceId, Partial<ActionBindings>>>>(STORAGE_KEYS.KEY_BINDINGS) || {};
+    return {
+        KEYBOARD_A: { ...DEFAULT_BINDINGS.KEYBOARD_A, ...(saved.KEYBOARD_A || {}) },
+        KEYBOARD_B: { ...DEFAULT_BINDINGS.KEYBOARD_B, ...(saved.KEYBOARD_B || {}) },
+    };
+};
+
+export const saveBindings = (bindings: ControlBindings) => saveJSON(STORAGE_KEYS.KEY_BINDINGS, bindings);
+
+/**
+ * 将 code 绑定到 layout 的 action 上。
+ * 同一键位内冲突时与原动作交换按键；与另一键位冲突时清除对方的绑定。
+ */
+export const rebind = (bindings: ControlBindings, layout: KeyboardSourceId, action: InputAction, code: string): ControlBindings => {
+    const next: ControlBindings = {
+        KEYBOARD_A: { ...bindings.KEYBOARD_A },
+        KEYBOARD_B: { ...bindings.KEYBOARD_B },
+    };
+    const previous = next[layout][action];
+    (Object.keys(next) as KeyboardSourceId[]).forEach(id => {
+        INPUT_ACTIONS.forEach(a => {
+            if (next[id][a] !== code || (id === layout && a === action)) return;
+            next[id][a] = id === layout ? previous : '';
+        });
+    });
+    next[layout][action] = code;
+    return next;
+};
+
+// 查找某个按键在任一键位中对应的动作
+export const findAction = (bindings: ControlBindings, code: string, action: InputAction): KeyboardSourceId | null =>
+    (Object.keys(bindings) as KeyboardSourceId[]).find(id => bindings[id][action] === code) || null;
+
+// 随语言变化的按键名称
+const LOCALIZED_KEY_NAMES: Record<string, MessageKey> = {
+    MouseLeft: 'input.key.MouseLeft', MouseRight: 'input.key.MouseRight', MouseMid: 'input.key.MouseMid',
+    Space: 'input.key.Space', Backspace: 'input.key.Backspace', Enter: 'input.key.Enter',
+    ShiftLeft: 'input.key.ShiftLeft', ShiftRight: 'input.key.ShiftRight',
+    ControlLeft: 'input.key.ControlLeft', ControlRight: 'input.key.ControlRight',
+    AltLeft: 'input.key.AltLeft', AltRight: 'input.key.AltRight',
+};
+
+const KEY_NAMES: Record<string, string> = {
+    Escape: 'Esc', Tab: 'Tab',
+    ArrowUp: '↑', ArrowDown: '↓', ArrowLeft: '←', ArrowRight: '→',
+    Period: '.', Comma: ',', Slash: '/', Semicolon: ';', Quote: "'", BracketLeft: '[', BracketRight: ']',
+    Minus: '-', Equal: '=', Backquote: '`', Backslash: '\\',
+};
+
+// 按键的显示名称
+export const formatKeyCode = (code: string): string => {
+    if (!code) return t('input.key.unbound');
+    if (LOCALIZED_KEY_NAMES[code]) return t(LOCALIZED_KEY_NAMES[code]);
+    if (KEY_NAMES[code]) return KEY_NAMES[code];
+    if (code.startsWith('Key')) return code.slice(3);
+    if (code.startsWith('Digit')) return code.slice(5);
+    if (code.startsWith('Numpad')) return t('input.key.numpad', { key: code.slice(6) });
+    return code;
+};
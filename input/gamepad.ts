@@ -0,0 +1,170 @@
+import type { GameEntity, PlayerInput, PlayerState, TeamCommandType, Vector2 } from '../types';
+import * as Utils from '../utils';
+import { STORAGE_KEYS, loadJSON, saveJSON } from '../storage';
+
+export interface GamepadOptions {
+    aimAssist: boolean;
+    aimAssistStrength: number; // 0 ~ 1，瞄准方向向目标偏转的比例
+    deadzone: number;          // 摇杆径向死区
+}
+
+export const DEFAULT_GAMEPAD_OPTIONS: GamepadOptions = {
+    aimAssist: true,
+    aimAssistStrength: 0.5,
+    deadzone: 0.2,
+};
+
+export const loadGamepadOptions = (): GamepadOptions => ({
+    ...DEFAULT_GAMEPAD_OPTIONS,
+    ...(loadJSON<Partial<GamepadOptions>>(STORAGE_KEYS.GAMEPAD_OPTIONS) || {})
+});
+
+export const saveGamepadOptions = (options: GamepadOptions) => saveJSON(STORAGE_KEYS.GAMEPAD_OPTIONS, options);
+
+// Standard Gamepad 布局按键下标
+const BUTTON = { Y: 3, LB: 4, RB: 5, LT: 6, RT: 7, BACK: 8, START: 9, UP: 12, DOWN: 13, LEFT: 14, RIGHT: 15 };
+
+// [Command] 十字键下达队伍指令
+const DPAD_COMMANDS: [number, TeamCommandType][] = [
+    [BUTTON.RIGHT, 'ATTACK'], [BUTTON.UP, 'REGROUP'], [BUTTON.LEFT, 'HOLD'], [BUTTON.DOWN, 'RETREAT']
+];
+
+// 扳机滞回：按下超过 PRESS 视为按住，低于 RELEASE 才松开，避免蓄力途中抖动松手
+const TRIGGER_PRESS = 0.5;
+const TRIGGER_RELEASE = 0.3;
+
+// 右摇杆推杆幅度映射到瞄准距离 (坦克重炮等依赖落点距离)
+const AIM_MIN_DISTANCE = 250;
+const AIM_MAX_DISTANCE = 700;
+
+// 辅助瞄准：在该距离与夹角内吸附最近的目标
+const AIM_ASSIST_RANGE = 800;
+const AIM_ASSIST_CONE = 0.35; // rad
+
+export interface GamepadInputContext {
+    player: PlayerState;
+    targets: GameEntity[]; // 可被辅助瞄准吸附的敌方单位 (引擎 getEnemies 的结果：存活且可见)
+    options: GamepadOptions;
+}
+
+export interface GamepadSource {
+    isConnected: () => boolean;
+    // 读取一次手柄并转换为引擎输入；未连接时返回 null
+    collect: (ctx: GamepadInputContext) => PlayerInput | null;
+    // 最近一次 collect 时手柄是否有操作 (摇杆出死区或任意按键)
+    wasActive: () => boolean;
+    // 最近一次 collect 时 Back 键是否刚被按下 (切换辅助瞄准)
+    backPressed: () => boolean;
+    // 最近一次 collect 时 Start 键是否刚被按下 (暂停菜单)
+    startPressed: () => boolean;
+}
+
+// 径向死区，并把死区外的幅度重新映射到 0 ~ 1
+const applyDeadzone = (x: number, y: number, deadzone: number): Vector2 => {
+    const m = Math.sqrt(x * x + y * y);
+    if (m < deadzone) return { x: 0, y: 0 };
+    const scale = (Math.min(1, m) - deadzone) / (1 - deadzone) / m;
+    return { x: x * scale, y: y * scale };
+};
+
+// 量化到 0.01，让录像中的模拟量输入保持紧凑
+const quantize = (v: number) => Math.round(v * 100) / 100;
+
+const applyAimAssist = (dir: Vector2, ctx: GamepadInputContext): Vector2 => {
+    const aimAngle = Math.atan2(dir.y, dir.x);
+    let bestDiff = AIM_ASSIST_CONE;
+    let found = false;
+    ctx.targets.forEach(t => {
+        if (Utils.dist(ctx.player.pos, t.pos) > AIM_ASSIST_RANGE) return;
+        const toTarget = Math.atan2(t.pos.y - ctx.player.pos.y, t.pos.x - ctx.player.pos.x);
+        let diff = toTarget - aimAngle;
+        while (diff > Math.PI) diff -= Math.PI * 2;
+        while (diff < -Math.PI) diff += Math.PI * 2;
+        if (Math.abs(diff) < Math.abs(bestDiff)) {
+            bestDiff = diff;
+            found = true;
+        }
+    });
+    if (!found) return dir;
+    const angle = aimAngle + bestDiff * ctx.options.aimAssistStrength;
+    return { x: Math.cos(angle), y: Math.sin(angle) };
+};
+
+/**
+ * 双摇杆手柄输入源：左摇杆移动，右摇杆瞄准，RT/LT 对应主/副攻击 (模拟量按住即蓄力)，
+ * RB/LB 释放大招，Y 切换形态，十字键下达队伍指令，Start 打开菜单。右摇杆回中时保持上一次的瞄准方向与距离。
+ */
+export const createGamepadSource = (index: number): GamepadSource => {
+    let aimDir: Vector2 | null = null;
+    let aimDistance = AIM_MIN_DISTANCE;
+    const triggerHeld: Record<number, boolean> = {};
+    let active = false;
+    let backWasDown = false;
+    let backEdge = false;
+    let startWasDown = false;
+    let startEdge = false;
+
+    const getPad = (): Gamepad | null => {
+        if (typeof navigator === 'undefined' || !navigator.getGamepads) return null;
+        return navigator.getGamepads()[index] || null;
+    };
+
+    const collect = (ctx: GamepadInputContext): PlayerInput | null => {
+        const pad = getPad();
+        if (!pad) {
+            active = false;
+            backEdge = false;
+            startEdge = false;
+            return null;
+        }
+
+        const { deadzone } = ctx.options;
+        const left = applyDeadzone(pad.axes[0] || 0, pad.axes[1] || 0, deadzone);
+        const right = applyDeadzone(pad.axes[2] || 0, pad.axes[3] || 0, deadzone);
+        const rightMag = Utils.mag(right);
+
+        if (rightMag > 0) {
+            aimDir = Utils.normalize(right);
+            aimDistance = AIM_MIN_DISTANCE + (AIM_MAX_DISTANCE - AIM_MIN_DISTANCE) * Math.min(1, rightMag);
+            if (ctx.options.aimAssist) aimDir = applyAimAssist(aimDir, ctx);
+        }
+        const dir = aimDir || { x: Math.cos(ctx.player.aimAngle), y: Math.sin(ctx.player.aimAngle) };
+
+        const trigger = (i: number) => {
+            const value = pad.buttons[i]?.value || 0;
+            triggerHeld[i] = triggerHeld[i] ? value > TRIGGER_RELEASE : value > TRIGGER_PRESS;
+            return triggerHeld[i];
+        };
+        const button = (i: number) => !!pad.buttons[i]?.pressed;
+
+        const backDown = button(BUTTON.BACK);
+        backEdge = backDown && !backWasDown;
+        backWasDown = backDown;
+        const startDown = button(BUTTON.START);
+        startEdge = startDown && !startWasDown;
+        startWasDown = startDown;
+
+        active = Utils.mag(left) > 0 || rightMag > 0 || pad.buttons.some(b => b.pressed);
+
+        const aim = Utils.add(ctx.player.pos, Utils.mult(dir, aimDistance));
+        const input: PlayerInput = {
+            move: { x: quantize(left.x), y: quantize(left.y) },
+            aim: { x: Math.round(aim.x), y: Math.round(aim.y) },
+            primary: trigger(BUTTON.RT),
+            secondary: trigger(BUTTON.LT),
+            ultimate: button(BUTTON.RB) || button(BUTTON.LB),
+            toggleMode: button(BUTTON.Y)
+        };
+        const command = DPAD_COMMANDS.find(([i]) => button(i));
+        if (command) input.command = command[1];
+        return input;
+    };
+
+    return {
+        isConnected: () => !!getPad(),
+        collect,
+        wasActive: () => active,
+        backPressed: () => backEdge,
+        startPressed: () => startEdge,
+    };
+};
@@ -0,0 +1,9 @@
+export { KEYBOARD_LAYOUTS, collectKeyboardInput } from './keyboard';
+export type { KeyState, KeyboardLayout, KeyboardInputContext } from './keyboard';
+export {
+    INPUT_ACTIONS, INPUT_ACTION_LABELS, COMMAND_ACTIONS, DEFAULT_BINDINGS, loadBindings, saveBindings, rebind, findAction, formatKeyCode
+} from './bindings';
+export type { InputAction, ActionBindings, ControlBindings } from './bindings';
+export { createGamepadSource, loadGamepadOptions, saveGamepadOptions, DEFAULT_GAMEPAD_OPTIONS } from './gamepad';
+export type { GamepadOptions, GamepadSource, GamepadInputContext } from './gamepad';
+export { INPUT_SOURCES, INPUT_SOURCE_LABELS, GAMEPAD_INDEX, isGamepadSource, isKeyboardSource } from './sources';
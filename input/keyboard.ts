@@ -0,0 +1,67 @@
+import type { KeyboardSourceId, PlayerInput, PlayerState, Vector2 } from '../types';
+import * as Utils from '../utils';
+import { TEAM_COMMANDS } from '../constants';
+import { COMMAND_ACTIONS } from './bindings';
+import type { ActionBindings, InputAction } from './bindings';
+
+export type KeyState = { [code: string]: boolean };
+
+export interface KeyboardLayout {
+    id: KeyboardSourceId;
+    // MOUSE: 鼠标指向；FACING: 沿移动方向瞄准 (与另一名玩家共用键盘时没有鼠标可用)
+    aim: 'MOUSE' | 'FACING';
+}
+
+// 两套可同时使用的键位，具体按键见 bindings.ts (可在设置中修改)
+export const KEYBOARD_LAYOUTS: Record<KeyboardSourceId, KeyboardLayout> = {
+    KEYBOARD_A: { id: 'KEYBOARD_A', aim: 'MOUSE' },
+    KEYBOARD_B: { id: 'KEYBOARD_B', aim: 'FACING' },
+};
+
+// FACING 模式下瞄准点距离球心的距离 (需大于坦克重炮最小射程)
+const FACING_AIM_DISTANCE = 400;
+
+export interface KeyboardInputContext {
+    player: PlayerState;
+    mouseWorld: Vector2; // 鼠标对应的世界坐标
+    facing: Vector2;     // 最近一次移动方向 (单位向量)
+}
+
+/**
+ * 将一套键位的按键状态转换为引擎输入。
+ * pressed 为两次采样之间按下过的键，保证极短的点按也能被模拟步看到。
+ */
+export const collectKeyboardInput = (
+    layout: KeyboardLayout,
+    bindings: ActionBindings,
+    keys: KeyState,
+    pressed: KeyState,
+    ctx: KeyboardInputContext
+): PlayerInput => {
+    const down = (action: InputAction) => !!bindings[action] && !!keys[bindings[action]];
+    const held = (action: InputAction) => down(action) || (!!bindings[action] && !!pressed[bindings[action]]);
+    const move = {
+        x: (down('MOVE_RIGHT') ? 1 : 0) - (down('MOVE_LEFT') ? 1 : 0),
+        y: (down('MOVE_DOWN') ? 1 : 0) - (down('MOVE_UP') ? 1 : 0)
+    };
+
+    let aim = ctx.mouseWorld;
+    if (layout.aim === 'FACING') {
+        const dir = (move.x !== 0 || move.y !== 0) ? Utils.normalize(move) : ctx.facing;
+        aim = Utils.add(ctx.player.pos, Utils.mult(dir, FACING_AIM_DISTANCE));
+    }
+
+    const input: PlayerInput = {
+        move,
+        // 取整：录像按整数像素保存瞄准点，实战与回放必须看到完全相同的输入
+        aim: { x: Math.round(aim.x), y: Math.round(aim.y) },
+        primary: held('PRIMARY'),
+        secondary: held('SECONDARY'),
+        ultimate: held('ULTIMATE'),
+        toggleMode: held('TOGGLE_MODE')
+    };
+    // [Command] 队伍指令键 (同时按下多个时取靠前的)
+    const command = TEAM_COMMANDS.find(c => held(COMMAND_ACTIONS[c]));
+    if (command) input.command = command;
+    return input;
+};
@@ -0,0 +1,22 @@
+import type { GamepadSourceId, InputSourceId, KeyboardSourceId } from '../types';
+import type { MessageKey } from '../i18n';
+
+// 可分配给真人玩家的本地输入设备
+export const INPUT_SOURCES: InputSourceId[] = ['KEYBOARD_A', 'KEYBOARD_B', 'GAMEPAD_1', 'GAMEPAD_2'];
+
+export const INPUT_SOURCE_LABELS: Record<InputSourceId, MessageKey> = {
+    KEYBOARD_A: 'input.source.KEYBOARD_A',
+    KEYBOARD_B: 'input.source.KEYBOARD_B',
+    GAMEPAD_1: 'input.source.GAMEPAD_1',
+    GAMEPAD_2: 'input.source.GAMEPAD_2',
+};
+
+// 手柄设备对应 navigator.getGamepads() 的下标
+export const GAMEPAD_INDEX: Record<GamepadSourceId, number> = {
+    GAMEPAD_1: 0,
+    GAMEPAD_2: 1,
+};
+
+export const isGamepadSource = (id: InputSourceId): id is GamepadSourceId => id in GAMEPAD_INDEX;
+
+export const isKeyboardSource = (id: InputSourceId): id is KeyboardSourceId => !isGamepadSource(id);
@@ -0,0 +1,129 @@
+/**
+ * 联机会话 (浏览器端 WebSocket)
+ *
+ * 负责连接、入队匹配与收包；增量在这里展开为完整快照，由对局循环每帧取走。
+ * 状态变化通过订阅通知界面 (与设置存储相同的模式)。
+ */
+import type { CharacterType, PlayerInput } from '../types';
+import type { MessageKey, MessageParams } from '../i18n';
+import { NET_PROTOCOL_VERSION } from './protocol';
+import type { ClientMessage, NetSnapshot, ServerMessage } from './protocol';
+import { applyNetDelta } from './delta';
+
+export type NetStatus = 'CONNECTING' | 'WAITING' | 'PLAYING' | 'CLOSED';
+
+export type NetMatch = Extract<ServerMessage, { type: 'start' }>;
+
+export interface NetError {
+    key: MessageKey;
+    params?: MessageParams;
+}
+
+export interface NetSession {
+    getStatus: () => NetStatus;
+    getError: () => NetError | null;
+    // 匹配成功后可用
+    getMatch: () => NetMatch | null;
+    sendInput: (seq: number, input: PlayerInput) => void;
+    // 取出自上次调用以来收到的快照 (按顺序)
+    drainSnapshots: () => NetSnapshot[];
+    subscribe: (listener: () => void) => () => void;
+    close: () => void;
+}
+
+export const connectToServer = (url: string, playerType: CharacterType): NetSession => {
+    let status: NetStatus = 'CONNECTING';
+    let error: NetError | null = null;
+    let match: NetMatch | null = null;
+    let latest: NetSnapshot | null = null;
+    let received: NetSnapshot[] = [];
+    const listeners = new Set<() => void>();
+    let socket: WebSocket | null = null;
+
+    const setStatus = (next: NetStatus, reason: NetError | null = null) => {
+        if (status === 'CLOSED') return;
+        status = next;
+        if (reason) error = reason;
+        listeners.forEach(listener => listener());
+    };
+
+    const send = (message: ClientMessage) => {
+        if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+    };
+
+    const receive = (snapshot: NetSnapshot) => {
+        latest = snapshot;
+        received.push(snapshot);
+    };
+
+    const handleMessage = (message: ServerMessage) => {
+        switch (message.type) {
+            case 'waiting':
+                setStatus('WAITING');
+                break;
+            case 'start':
+                match = message;
+                latest = message.snapshot;
+                setStatus('PLAYING');
+                break;
+            case 'snapshot':
+                receive(message.snapshot);
+                break;
+            case 'delta':
+                // 基准帧缺失时丢弃，等待下一个完整快照
+                if (latest && latest.tick === message.delta.baseTick) receive(applyNetDelta(latest, message.delta));
+                break;
+            case 'opponentLeft':
+                setStatus('CLOSED', { key: 'online.opponentLeft' });
+                break;
+            case 'rejected':
+                setStatus('CLOSED', { key: message.reason, params: message.params });
+                break;
+        }
+    };
+
+    try {
+        socket = new WebSocket(url);
+    } catch (e) {
+        // URL 格式错误时构造函数直接抛出
+        console.warn(`Failed to connect to "${url}"`, e);
+        status = 'CLOSED';
+        error = { key: 'online.error.connect' };
+    }
+
+    if (socket) {
+        socket.onopen = () => send({ type: 'join', version: NET_PROTOCOL_VERSION, playerType });
+        socket.onmessage = (e) => {
+            try {
+                handleMessage(JSON.parse(e.data) as ServerMessage);
+            } catch (err) {
+                console.warn('Malformed server message', err);
+            }
+        };
+        socket.onclose = () => {
+            // 对局正常结束后服务器会关闭连接，此时不算错误
+            const finished = latest !== null && latest.gameStatus !== 'PLAYING';
+            setStatus('CLOSED', finished ? null : { key: status === 'PLAYING' ? 'online.error.lost' : 'online.error.connect' });
+        };
+    }
+
+    return {
+        getStatus: () => status,
+        getError: () => error,
+        getMatch: () => match,
+        sendInput: (seq, input) => send({ type: 'input', seq, input }),
+        drainSnapshots: () => {
+            const snapshots = received;
+            received = [];
+            return snapshots;
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        close: () => {
+            setStatus('CLOSED');
+            if (socket && socket.readyState <= WebSocket.OPEN) socket.close();
+        }
+    };
+};
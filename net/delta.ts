@@ -0,0 +1,119 @@
+/**
+ * 快照与增量编码
+ *
+ * 实体按 id 对齐，逐字段比较：原始值直接比较，对象字段比较其 JSON。
+ * 快照本身不可变 (创建时深拷贝)，可以安全地作为下一次增量的基准。
+ */
+import type { GameState, InputFrame } from '../types';
+import { SYNCED_COLLECTIONS } from './protocol';
+import type { CollectionDelta, EntityPatch, NetDelta, NetSnapshot, NetWorld, SyncedCollection } from './protocol';
+
+type Entity = { id: string };
+
+const pickWorld = (source: NetWorld): NetWorld => ({
+    tick: source.tick,
+    simTime: source.simTime,
+    rngState: source.rngState,
+    timeScale: source.timeScale,
+    globalFilter: source.globalFilter,
+    gameStatus: source.gameStatus,
+    winnerTeamId: source.winnerTeamId,
+    pendingActions: source.pendingActions,
+    teamBlackboards: source.teamBlackboards,
+    teamCommands: source.teamCommands
+});
+
+export const createNetSnapshot = (state: GameState, inputs: InputFrame, acks: Record<string, number>): NetSnapshot =>
+    structuredClone({
+        ...pickWorld(state),
+        players: state.players,
+        projectiles: state.projectiles,
+        groundEffects: state.groundEffects,
+        drones: state.drones,
+        lightSpirits: state.lightSpirits,
+        obstacles: state.obstacles,
+        inputs,
+        acks
+    });
+
+const sameValue = (a: unknown, b: unknown) => {
+    if (a === b) return true;
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+    return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const diffEntity = (prev: Entity | undefined, next: Entity): EntityPatch | null => {
+    const before = (prev || {}) as Record<string, unknown>;
+    const after = next as unknown as Record<string, unknown>;
+    const set: Record<string, unknown> = {};
+    const unset: string[] = [];
+
+    Object.keys(after).forEach(key => {
+        if (after[key] !== undefined && !sameValue(before[key], after[key])) set[key] = after[key];
+    });
+    Object.keys(before).forEach(key => {
+        if (before[key] !== undefined && after[key] === undefined) unset.push(key);
+    });
+
+    if (prev && Object.keys(set).length === 0 && unset.length === 0) return null;
+    return unset.length > 0 ? { id: next.id, set, unset } : { id: next.id, set };
+};
+
+const diffCollection = (prev: Entity[], next: Entity[]): CollectionDelta => {
+    const prevById = new Map(prev.map(e => [e.id, e]));
+    const nextIds = new Set(next.map(e => e.id));
+
+    const patches: EntityPatch[] = [];
+    next.forEach(e => {
+        const patch = diffEntity(prevById.get(e.id), e);
+        if (patch) patches.push(patch);
+    });
+    const removed = prev.filter(e => !nextIds.has(e.id)).map(e => e.id);
+
+    // 接收端默认按"保留的旧实体 + 新实体"排列，与实际顺序不同时附带完整顺序
+    const implied = [
+        ...prev.filter(e => nextIds.has(e.id)).map(e => e.id),
+        ...next.filter(e => !prevById.has(e.id)).map(e => e.id)
+    ];
+    const delta: CollectionDelta = { patches, removed };
+    if (implied.some((id, i) => id !== next[i].id)) delta.order = next.map(e => e.id);
+    return delta;
+};
+
+const applyCollection = <T extends Entity>(base: T[], delta: CollectionDelta): T[] => {
+    const removed = new Set(delta.removed);
+    const byId = new Map(base.filter(e => !removed.has(e.id)).map(e => [e.id, e]));
+    const added: string[] = [];
+
+    delta.patches.forEach(patch => {
+        const prev = byId.get(patch.id);
+        if (!prev) added.push(patch.id);
+        const next = { ...prev, ...patch.set } as Record<string, unknown>;
+        patch.unset?.forEach(key => { delete next[key]; });
+        byId.set(patch.id, next as T);
+    });
+
+    const order = delta.order || [...base.filter(e => !removed.has(e.id)).map(e => e.id), ...added];
+    return order.map(id => byId.get(id)!).filter(Boolean);
+};
+
+export const diffNetSnapshot = (prev: NetSnapshot, next: NetSnapshot): NetDelta => {
+    const collections = {} as Record<SyncedCollection, CollectionDelta>;
+    SYNCED_COLLECTIONS.forEach(key => {
+        collections[key] = diffCollection(prev[key], next[key]);
+    });
+    return { ...pickWorld(next), baseTick: prev.tick, collections, inputs: next.inputs, acks: next.acks };
+};
+
+// 返回新快照，不修改 base (未变化的实体与 base 共享引用)
+export const applyNetDelta = (base: NetSnapshot, delta: NetDelta): NetSnapshot => ({
+    ...pickWorld(delta),
+    players: applyCollection(base.players, delta.collections.players),
+    projectiles: applyCollection(base.projectiles, delta.collections.projectiles),
+    groundEffects: applyCollection(base.groundEffects, delta.collections.groundEffects),
+    drones: applyCollection(base.drones, delta.collections.drones),
+    lightSpirits: applyCollection(base.lightSpirits, delta.collections.lightSpirits),
+    obstacles: applyCollection(base.obstacles, delta.collections.obstacles),
+    inputs: delta.inputs,
+    acks: delta.acks
+});
@@ -0,0 +1,18 @@
+export {
+    NET_PROTOCOL_VERSION, DEFAULT_SERVER_PORT, ONLINE_CHARACTERS, SNAPSHOT_INTERVAL, KEYFRAME_INTERVAL,
+    MAX_INPUT_BUFFER, INTERPOLATION_DELAY, SYNCED_COLLECTIONS, isRecord, sanitizeInput
+} from './protocol';
+export type {
+    ClientMessage, ServerMessage, NetSnapshot, NetDelta, NetWorld, EntityPatch, CollectionDelta, SyncedCollection
+} from './protocol';
+export { createNetSnapshot, diffNetSnapshot, applyNetDelta } from './delta';
+export { createInterpolationBuffer } from './interpolation';
+export type { InterpolationBuffer } from './interpolation';
+export { createPredictor } from './prediction';
+export type { Predictor } from './prediction';
+export { connectToServer } from './client';
+export type { NetError, NetMatch, NetSession, NetStatus } from './client';
+export { createRollbackSession, parseRollbackMessage, ROLLBACK_INPUT_DELAY, MAX_ROLLBACK_FRAMES } from './rollback';
+export type { RollbackMessage, RollbackOptions, RollbackSession, RollbackStats } from './rollback';
+export { PEER_PROTOCOL_VERSION, PeerSignalError, hostPeerMatch, joinPeerMatch } from './peer';
+export type { PeerGuest, PeerHost, PeerLink, PeerMatch, PeerStatus } from './peer';
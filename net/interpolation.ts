@@ -0,0 +1,61 @@
+/**
+ * 远端实体插值
+ *
+ * 远端玩家不做预测，而是以略微落后的时间 (INTERPOLATION_DELAY) 渲染，
+ * 位置取其前后两次服务器快照之间的线性插值，网络抖动时画面依旧平滑。
+ */
+import type { Vector2 } from '../types';
+import type { NetSnapshot } from './protocol';
+
+interface Frame {
+    tick: number;
+    positions: Map<string, Vector2>;
+}
+
+export interface InterpolationBuffer {
+    push: (snapshot: NetSnapshot) => void;
+    // 各实体在给定 tick (可为小数) 时的位置；超出缓冲范围时取最近一帧
+    sample: (tick: number) => Map<string, Vector2>;
+    latestTick: () => number;
+}
+
+export const createInterpolationBuffer = (isTracked: (id: string) => boolean, capacity = 32): InterpolationBuffer => {
+    const frames: Frame[] = [];
+
+    const push = (snapshot: NetSnapshot) => {
+        if (frames.length > 0 && snapshot.tick <= frames[frames.length - 1].tick) return;
+        const positions = new Map<string, Vector2>();
+        snapshot.players.forEach(p => {
+            if (isTracked(p.id)) positions.set(p.id, { x: p.pos.x, y: p.pos.y });
+        });
+        frames.push({ tick: snapshot.tick, positions });
+        if (frames.length > capacity) frames.shift();
+    };
+
+    const sample = (tick: number) => {
+        const result = new Map<string, Vector2>();
+        if (frames.length === 0) return result;
+
+        let i = frames.length - 1;
+        while (i > 0 && frames[i - 1].tick > tick) i--;
+        const to = frames[i];
+        const from = i > 0 ? frames[i - 1] : to;
+        const span = to.tick - from.tick;
+        const alpha = span > 0 ? Math.min(1, Math.max(0, (tick - from.tick) / span)) : 1;
+
+        to.positions.forEach((end, id) => {
+            const start = from.positions.get(id) || end;
+            result.set(id, {
+                x: start.x + (end.x - start.x) * alpha,
+                y: start.y + (end.y - start.y) * alpha
+            });
+        });
+        return result;
+    };
+
+    return {
+        push,
+        sample,
+        latestTick: () => (frames.length > 0 ? frames[frames.length - 1].tick : 0)
+    };
+};
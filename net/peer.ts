@@ -0,0 +1,208 @@
+/**
+ * 点对点连接 (WebRTC DataChannel，手动信令)
+ *
+ * 不需要服务器：主机生成"邀请码"，对方粘贴后生成"应答码"，主机再粘贴应答码即可连通。
+ * 两个码都是 base64 编码的 JSON，包含完整的 SDP (等待 ICE 收集完成，不做增量候选交换)
+ * 以及对局设置 (随机种子与双方角色)。
+ * 数据通道可靠且有序，回滚同步依赖输入按帧连续到达。
+ */
+import type { CharacterType } from '../types';
+import type { MessageKey } from '../i18n';
+import type { NetError } from './client';
+import { ONLINE_CHARACTERS } from './protocol';
+import { parseRollbackMessage } from './rollback';
+import type { RollbackMessage } from './rollback';
+
+export const PEER_PROTOCOL_VERSION = 1;
+
+// 公共 STUN 服务器，仅用于获取公网地址；同一台机器或局域网内不依赖它
+const ICE_SERVERS: RTCIceServer[] = [{ urls: 'stun:stun.l.google.com:19302' }];
+// ICE 收集最长等待时间，超时后使用已收集到的候选
+const ICE_GATHER_TIMEOUT_MS = 3000;
+
+export type PeerStatus = 'SIGNALING' | 'CONNECTING' | 'OPEN' | 'CLOSED';
+
+export interface PeerMatch {
+    seed: number;
+    hostType: CharacterType;
+    guestType: CharacterType;
+    isHost: boolean;
+}
+
+export interface PeerLink {
+    getStatus: () => PeerStatus;
+    getError: () => NetError | null;
+    // 双方角色确定后可用 (主机在收到应答后)
+    getMatch: () => PeerMatch | null;
+    send: (message: RollbackMessage) => void;
+    // 取出自上次调用以来收到的消息 (按顺序)
+    drainMessages: () => RollbackMessage[];
+    subscribe: (listener: () => void) => () => void;
+    close: () => void;
+}
+
+export interface PeerHost {
+    link: PeerLink;
+    // 邀请码 (ICE 收集完成后可用)
+    offer: Promise<string>;
+    // 粘贴对方的应答码；格式错误时抛出 PeerSignalError
+    acceptAnswer: (code: string) => Promise<void>;
+}
+
+export interface PeerGuest {
+    link: PeerLink;
+    answer: Promise<string>;
+}
+
+interface SignalPayload {
+    version: number;
+    kind: 'offer' | 'answer';
+    sdp: string;
+    seed?: number;
+    playerType: CharacterType;
+}
+
+export class PeerSignalError extends Error {
+    constructor(public readonly key: MessageKey) {
+        super(key);
+        this.name = 'PeerSignalError';
+    }
+}
+
+const encodeSignal = (payload: SignalPayload) => btoa(JSON.stringify(payload));
+
+const decodeSignal = (code: string, kind: SignalPayload['kind']): SignalPayload => {
+    let payload: SignalPayload;
+    try {
+        payload = JSON.parse(atob(code.trim()));
+    } catch {
+        throw new PeerSignalError('p2p.error.code');
+    }
+    if (!payload || payload.kind !== kind || typeof payload.sdp !== 'string') throw new PeerSignalError('p2p.error.code');
+    if (payload.version !== PEER_PROTOCOL_VERSION) throw new PeerSignalError('p2p.error.version');
+    // 与服务器一致，只允许联机可选的角色
+    if (!ONLINE_CHARACTERS.includes(payload.playerType)) throw new PeerSignalError('p2p.error.code');
+    if (kind === 'offer' && typeof payload.seed !== 'number') throw new PeerSignalError('p2p.error.code');
+    return payload;
+};
+
+const waitForIceGathering = (pc: RTCPeerConnection) => new Promise<void>(resolve => {
+    if (pc.iceGatheringState === 'complete') {
+        resolve();
+        return;
+    }
+    const timer = setTimeout(resolve, ICE_GATHER_TIMEOUT_MS);
+    pc.addEventListener('icegatheringstatechange', () => {
+        if (pc.iceGatheringState !== 'complete') return;
+        clearTimeout(timer);
+        resolve();
+    });
+});
+
+const createLink = (pc: RTCPeerConnection) => {
+    let status: PeerStatus = 'SIGNALING';
+    let error: NetError | null = null;
+    let match: PeerMatch | null = null;
+    let channel: RTCDataChannel | null = null;
+    let received: RollbackMessage[] = [];
+    const listeners = new Set<() => void>();
+
+    const setStatus = (next: PeerStatus, reason: NetError | null = null) => {
+        if (status === 'CLOSED') return;
+        status = next;
+        if (reason) error = reason;
+        listeners.forEach(listener => listener());
+    };
+
+    const attachChannel = (dc: RTCDataChannel) => {
+        channel = dc;
+        dc.onopen = () => setStatus('OPEN');
+        dc.onclose = () => setStatus('CLOSED', { key: 'p2p.error.lost' });
+        dc.onmessage = (e) => {
+            let message: RollbackMessage | null = null;
+            try {
+                message = typeof e.data === 'string' ? parseRollbackMessage(JSON.parse(e.data)) : null;
+            } catch {
+                message = null;
+            }
+            if (message) received.push(message);
+            else console.warn('Malformed peer message', e.data);
+        };
+    };
+
+    pc.onconnectionstatechange = () => {
+        if (pc.connectionState === 'failed') setStatus('CLOSED', { key: status === 'OPEN' ? 'p2p.error.lost' : 'p2p.error.connect' });
+    };
+
+    const link: PeerLink = {
+        getStatus: () => status,
+        getError: () => error,
+        getMatch: () => match,
+        send: (message) => {
+            if (channel?.readyState === 'open') channel.send(JSON.stringify(message));
+        },
+        drainMessages: () => {
+            const messages = received;
+            received = [];
+            return messages;
+        },
+        subscribe: (listener) => {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        close: () => {
+            setStatus('CLOSED');
+            channel?.close();
+            pc.close();
+        }
+    };
+
+    return {
+        link,
+        attachChannel,
+        setStatus,
+        setMatch: (next: PeerMatch) => { match = next; }
+    };
+};
+
+// 主机：决定随机种子，生成邀请码
+export const hostPeerMatch = (playerType: CharacterType): PeerHost => {
+    const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    const { link, attachChannel, setStatus, setMatch } = createLink(pc);
+    attachChannel(pc.createDataChannel('rollback', { ordered: true }));
+    const seed = Math.floor(Math.random() * 0x100000000) >>> 0;
+
+    const offer = (async () => {
+        await pc.setLocalDescription(await pc.createOffer());
+        await waitForIceGathering(pc);
+        return encodeSignal({ version: PEER_PROTOCOL_VERSION, kind: 'offer', sdp: pc.localDescription!.sdp, seed, playerType });
+    })();
+
+    const acceptAnswer = async (code: string) => {
+        const answer = decodeSignal(code, 'answer');
+        setMatch({ seed, hostType: playerType, guestType: answer.playerType, isHost: true });
+        setStatus('CONNECTING');
+        await pc.setRemoteDescription({ type: 'answer', sdp: answer.sdp });
+    };
+
+    return { link, offer, acceptAnswer };
+};
+
+// 加入方：解析邀请码 (格式错误时同步抛出 PeerSignalError)，生成应答码
+export const joinPeerMatch = (playerType: CharacterType, offerCode: string): PeerGuest => {
+    const offer = decodeSignal(offerCode, 'offer');
+    const pc = new RTCPeerConnection({ iceServers: ICE_SERVERS });
+    const { link, attachChannel, setStatus, setMatch } = createLink(pc);
+    pc.ondatachannel = (e) => attachChannel(e.channel);
+    setMatch({ seed: offer.seed!, hostType: offer.playerType, guestType: playerType, isHost: false });
+
+    const answer = (async () => {
+        await pc.setRemoteDescription({ type: 'offer', sdp: offer.sdp });
+        await pc.setLocalDescription(await pc.createAnswer());
+        await waitForIceGathering(pc);
+        setStatus('CONNECTING');
+        return encodeSignal({ version: PEER_PROTOCOL_VERSION, kind: 'answer', sdp: pc.localDescription!.sdp, playerType });
+    })();
+
+    return { link, answer };
+};
@@ -0,0 +1,81 @@
+/**
+ * 客户端预测与校正
+ *
+ * 本地玩家的输入立即在本地引擎中模拟 (预测)，同时带序号发给服务器。
+ * 收到服务器快照后，以其为准恢复同步状态，再重演服务器尚未确认的本地输入。
+ * 远端玩家在预测中沿用其最近一次的输入，画面上则由插值缓冲决定其位置。
+ */
+import type { GameState, InputFrame, PlayerInput } from '../types';
+import type { Engine } from '../engine';
+import type { NetSnapshot } from './protocol';
+
+// 未确认输入的上限 (约 2 秒)，服务器长时间无响应时丢弃最旧的
+const MAX_PENDING_INPUTS = 120;
+
+export interface Predictor {
+    // 预测一步，返回该输入的序号
+    step: (input: PlayerInput) => number;
+    // 以服务器快照为准校正，并重演尚未确认的本地输入
+    reconcile: (snapshot: NetSnapshot) => void;
+    pendingCount: () => number;
+}
+
+// 服务器判定的胜负换算为本地视角
+const toLocalStatus = (snapshot: NetSnapshot, playerId: string): GameState['gameStatus'] => {
+    if (snapshot.gameStatus === 'PLAYING') return 'PLAYING';
+    const me = snapshot.players.find(p => p.id === playerId);
+    return me && snapshot.winnerTeamId === me.teamId ? 'VICTORY' : 'DEFEAT';
+};
+
+export const createPredictor = (engine: Engine, playerId: string): Predictor => {
+    let seq = 0;
+    let pending: { seq: number, input: PlayerInput }[] = [];
+    let remoteInputs: InputFrame = {};
+
+    const toFrame = (input: PlayerInput): InputFrame => ({ ...remoteInputs, [playerId]: input });
+
+    const step = (input: PlayerInput) => {
+        seq++;
+        pending.push({ seq, input });
+        if (pending.length > MAX_PENDING_INPUTS) pending.shift();
+        engine.step(toFrame(input));
+        return seq;
+    };
+
+    const reconcile = (snapshot: NetSnapshot) => {
+        const ack = snapshot.acks[playerId] ?? 0;
+        pending = pending.filter(p => p.seq > ack);
+        remoteInputs = { ...snapshot.inputs };
+        delete remoteInputs[playerId];
+
+        // 粒子、飘字与相机属于本地表现，不随校正回退
+        const restored = engine.snapshot({ cosmetic: false });
+        const state: GameState = {
+            ...restored.state,
+            tick: snapshot.tick,
+            simTime: snapshot.simTime,
+            rngState: snapshot.rngState,
+            timeScale: snapshot.timeScale,
+            globalFilter: snapshot.globalFilter,
+            gameStatus: toLocalStatus(snapshot, playerId),
+            winnerTeamId: snapshot.winnerTeamId,
+            pendingActions: snapshot.pendingActions,
+            teamBlackboards: snapshot.teamBlackboards,
+            teamCommands: snapshot.teamCommands,
+            players: snapshot.players,
+            projectiles: snapshot.projectiles,
+            groundEffects: snapshot.groundEffects,
+            drones: snapshot.drones,
+            lightSpirits: snapshot.lightSpirits,
+            obstacles: snapshot.obstacles
+        };
+        engine.restore({ ...restored, state, prevInputs: Object.entries(snapshot.inputs) });
+        engine.resimulate(pending.map(p => toFrame(p.input)));
+    };
+
+    return {
+        step,
+        reconcile,
+        pendingCount: () => pending.length
+    };
+};
@@ -0,0 +1,111 @@
+/**
+ * Net —— 联机对战协议 (权威服务器)
+ *
+ * 服务器运行无头引擎并按固定步长推进，客户端只上传每一步的输入。
+ * 服务器定期广播同步状态：每秒一次完整快照，其余为相对上一次广播的增量。
+ * WebSocket 保证消息有序可靠，因此增量总是基于客户端已收到的上一帧。
+ *
+ * 只同步影响对局结果的实体；粒子、飘字与相机属于纯表现，由客户端本地生成。
+ */
+import type { CharacterType, GameConfig, GameState, InputFrame, PendingAction, PlayerInput, TeamCommandType, Vector2 } from '../types';
+import { TEAM_COMMANDS } from '../constants';
+import type { MessageKey, MessageParams } from '../i18n';
+import { getPlayableTypes } from '../characters';
+
+export const NET_PROTOCOL_VERSION = 1;
+export const DEFAULT_SERVER_PORT = 8787;
+
+// 联机可选的角色 (与自定义对局一致)
+export const ONLINE_CHARACTERS: CharacterType[] = getPlayableTypes();
+
+// 每 2 步广播一次 (30Hz)，每 60 步 (1 秒) 发送一次完整快照
+export const SNAPSHOT_INTERVAL = 2;
+export const KEYFRAME_INTERVAL = 60;
+// 服务器为每名玩家缓存的输入上限，超出时丢弃最旧的 (客户端时钟偏快时避免延迟累积)
+export const MAX_INPUT_BUFFER = 4;
+// 远端玩家的渲染延迟 (步)：落后于最新快照，总能在两帧之间插值
+export const INTERPOLATION_DELAY = 6;
+
+// 障碍物可被摧毁，因此也需要同步 (通常不变，增量为空)
+export const SYNCED_COLLECTIONS = ['players', 'projectiles', 'groundEffects', 'drones', 'lightSpirits', 'obstacles'] as const;
+export type SyncedCollection = typeof SYNCED_COLLECTIONS[number];
+
+// 全局状态 (子弹时间等全局效果由 timeScale / globalFilter 驱动，随快照同步)
+export interface NetWorld {
+    tick: number;
+    simTime: number;
+    rngState: number;
+    timeScale: number;
+    globalFilter?: string;
+    gameStatus: GameState['gameStatus'];
+    winnerTeamId: number | null;
+    pendingActions: PendingAction[];
+    teamBlackboards?: GameState['teamBlackboards']; // [Team] 客户端预测重演电脑玩家时需要同一份黑板
+    teamCommands?: GameState['teamCommands'];
+}
+
+export interface NetSnapshot extends NetWorld, Pick<GameState, SyncedCollection> {
+    inputs: InputFrame; // 本步各玩家生效的输入 (客户端重演时的按键边沿基准)
+    acks: Record<string, number>; // 各玩家最近一个已被模拟的输入序号
+}
+
+// 单个实体的字段级变化；新实体的 set 包含全部字段
+export interface EntityPatch {
+    id: string;
+    set: Record<string, unknown>;
+    unset?: string[];
+}
+
+export interface CollectionDelta {
+    patches: EntityPatch[];
+    removed: string[];
+    order?: string[]; // 仅当顺序无法由"保留原顺序 + 新实体追加"推出时发送
+}
+
+export interface NetDelta extends NetWorld {
+    baseTick: number;
+    collections: Record<SyncedCollection, CollectionDelta>;
+    inputs: InputFrame;
+    acks: Record<string, number>;
+}
+
+export type ClientMessage =
+    | { type: 'join', version: number, playerType: CharacterType }
+    | { type: 'input', seq: number, input: PlayerInput };
+
+export type ServerMessage =
+    | { type: 'waiting' }
+    | { type: 'start', playerId: string, seed: number, config: GameConfig, snapshot: NetSnapshot }
+    | { type: 'snapshot', snapshot: NetSnapshot }
+    | { type: 'delta', delta: NetDelta }
+    | { type: 'opponentLeft' }
+    | { type: 'rejected', reason: MessageKey, params?: MessageParams };
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const toNumber = (value: unknown, min: number, max: number) =>
+    (typeof value === 'number' && Number.isFinite(value)) ? Math.min(max, Math.max(min, value)) : 0;
+
+const toVector = (value: unknown, limit: number): Vector2 | null =>
+    isRecord(value) ? { x: toNumber(value.x, -limit, limit), y: toNumber(value.y, -limit, limit) } : null;
+
+const isTeamCommand = (value: unknown): value is TeamCommandType =>
+    typeof value === 'string' && (TEAM_COMMANDS as string[]).includes(value);
+
+// 对端数据不可信 (服务器收到的客户端输入、点对点收到的对方输入)：校验结构并限制数值范围
+export const sanitizeInput = (raw: unknown): PlayerInput | null => {
+    if (!isRecord(raw)) return null;
+    const move = toVector(raw.move, 1);
+    const aim = toVector(raw.aim, 1e5);
+    if (!move || !aim) return null;
+    const input: PlayerInput = {
+        move,
+        aim,
+        primary: raw.primary === true,
+        secondary: raw.secondary === true,
+        ultimate: raw.ultimate === true,
+        toggleMode: raw.toggleMode === true
+    };
+    if (isTeamCommand(raw.command)) input.command = raw.command;
+    return input;
+};
@@ -0,0 +1,222 @@
+/**
+ * 回滚同步 (GGPO 风格，点对点)
+ *
+ * 双方各自运行完整的确定性模拟，只交换输入。本地输入延迟 ROLLBACK_INPUT_DELAY 帧生效，
+ * 对端输入未到时沿用其最近一次确认的输入继续推进 (预测)。
+ * 收到的真实输入与预测不一致时，恢复到该帧之前的快照并静音重演到当前帧。
+ * 领先对端超过预测窗口时停顿，等待对方追上。
+ */
+import type { GameState, InputFrame, PlayerInput } from '../types';
+import type { Engine, EngineSnapshot } from '../engine';
+import { NEUTRAL_INPUT } from '../engine';
+import { isRecord, sanitizeInput } from './protocol';
+
+// 本地输入延迟 (帧)：抵消一部分网络延迟，减少回滚次数
+export const ROLLBACK_INPUT_DELAY = 2;
+// 预测窗口：未确认的帧超过此数时停顿
+export const MAX_ROLLBACK_FRAMES = 8;
+// 每隔多少帧交换一次状态校验值
+const CHECKSUM_INTERVAL = 60;
+
+export type RollbackMessage =
+    | { type: 'input', frame: number, input: PlayerInput }
+    | { type: 'checksum', frame: number, value: number };
+
+const isFrame = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// 对端数据不可信：只接受结构完整的 input / checksum 消息，其余一律丢弃 (避免在模拟中抛出异常)
+export const parseRollbackMessage = (raw: unknown): RollbackMessage | null => {
+    if (!isRecord(raw) || !isFrame(raw.frame)) return null;
+    switch (raw.type) {
+        case 'input': {
+            const input = sanitizeInput(raw.input);
+            return input ? { type: 'input', frame: raw.frame, input } : null;
+        }
+        case 'checksum':
+            return typeof raw.value === 'number' && Number.isFinite(raw.value) ? { type: 'checksum', frame: raw.frame, value: raw.value } : null;
+        default:
+            return null;
+    }
+};
+
+export interface RollbackStats {
+    frame: number;
+    // 尚未收到对端输入的帧数
+    predictedFrames: number;
+    // 最近一次回滚重演的帧数
+    lastRollback: number;
+    desynced: boolean;
+}
+
+export interface RollbackSession {
+    // 推进一帧；预测窗口已满时停顿并返回 false (本次输入不生效)
+    advance: (input: PlayerInput) => boolean;
+    receive: (message: RollbackMessage) => void;
+    getStats: () => RollbackStats;
+}
+
+export interface RollbackOptions {
+    engine: Engine;
+    localId: string;
+    remoteId: string;
+    send: (message: RollbackMessage) => void;
+}
+
+const sameInput = (a: PlayerInput, b: PlayerInput) =>
+    a.move.x === b.move.x && a.move.y === b.move.y &&
+    a.aim.x === b.aim.x && a.aim.y === b.aim.y &&
+    a.primary === b.primary && a.secondary === b.secondary &&
+    a.ultimate === b.ultimate && a.toggleMode === b.toggleMode && a.command === b.command;
+
+// 只取双方必然一致的字段 (胜负状态按各自视角计算，不参与校验)
+const checksumState = (state: GameState) => {
+    let hash = state.rngState >>> 0;
+    const mix = (value: number) => {
+        hash = Math.imul(hash ^ Math.round(value * 1000), 16777619) >>> 0;
+    };
+    state.players.forEach(p => {
+        mix(p.pos.x);
+        mix(p.pos.y);
+        mix(p.hp);
+    });
+    mix(state.projectiles.length);
+    return hash;
+};
+
+export const createRollbackSession = ({ engine, localId, remoteId, send }: RollbackOptions): RollbackSession => {
+    // 下一个要模拟的帧
+    let frame = 0;
+    const localInputs = new Map<number, PlayerInput>();
+    const remoteInputs = new Map<number, PlayerInput>();
+    // 用预测值模拟过、尚未确认的对端输入
+    const predicted = new Map<number, PlayerInput>();
+    // 每帧模拟前的状态
+    const snapshots = new Map<number, EngineSnapshot>();
+    const localChecksums = new Map<number, number>();
+    const remoteChecksums = new Map<number, number>();
+    // 已连续收到的最后一帧对端输入
+    let lastRemoteFrame = ROLLBACK_INPUT_DELAY - 1;
+    let rollbackFrom: number | null = null;
+    let nextChecksumFrame = CHECKSUM_INTERVAL;
+    let lastRollback = 0;
+    let desynced = false;
+
+    // 延迟期内双方都没有输入
+    for (let f = 0; f < ROLLBACK_INPUT_DELAY; f++) {
+        localInputs.set(f, NEUTRAL_INPUT);
+        remoteInputs.set(f, NEUTRAL_INPUT);
+    }
+
+    const remoteInputAt = (f: number) => {
+        const confirmed = remoteInputs.get(f);
+        if (confirmed) {
+            predicted.delete(f);
+            return confirmed;
+        }
+        const guess = remoteInputs.get(lastRemoteFrame)!;
+        predicted.set(f, guess);
+        return guess;
+    };
+
+    const inputsAt = (f: number): InputFrame => ({
+        [localId]: localInputs.get(f)!,
+        [remoteId]: remoteInputAt(f)
+    });
+
+    const compareChecksum = (f: number) => {
+        const local = localChecksums.get(f);
+        const remote = remoteChecksums.get(f);
+        if (local === undefined || remote === undefined) return;
+        if (local !== remote && !desynced) {
+            desynced = true;
+            console.warn(`Rollback desync detected at frame ${f}`);
+        }
+        localChecksums.delete(f);
+        remoteChecksums.delete(f);
+    };
+
+    const rollback = () => {
+        if (rollbackFrom === null) return;
+        const from = rollbackFrom;
+        rollbackFrom = null;
+        const snap = snapshots.get(from);
+        if (!snap) return;
+        engine.restore(snap);
+        for (let f = from; f < frame; f++) {
+            if (f > from) snapshots.set(f, engine.snapshot({ cosmetic: false }));
+            engine.resimulate([inputsAt(f)]);
+        }
+        lastRollback = frame - from;
+    };
+
+    // 之前的帧全部已确认时，该帧的快照即为双方一致的状态
+    const exchangeChecksums = () => {
+        while (nextChecksumFrame <= Math.min(lastRemoteFrame + 1, frame - 1)) {
+            const f = nextChecksumFrame;
+            nextChecksumFrame += CHECKSUM_INTERVAL;
+            const snap = snapshots.get(f);
+            if (!snap) continue;
+            const value = checksumState(snap.state);
+            localChecksums.set(f, value);
+            send({ type: 'checksum', frame: f, value });
+            compareChecksum(f);
+        }
+    };
+
+    // 确认之前的快照与输入不再需要
+    const prune = () => {
+        const keepFrom = Math.min(lastRemoteFrame + 1, frame) - 1;
+        snapshots.forEach((_, f) => { if (f < keepFrom) snapshots.delete(f); });
+        localInputs.forEach((_, f) => { if (f < keepFrom) localInputs.delete(f); });
+        remoteInputs.forEach((_, f) => { if (f < keepFrom && f !== lastRemoteFrame) remoteInputs.delete(f); });
+    };
+
+    const advance = (input: PlayerInput) => {
+        rollback();
+        exchangeChecksums();
+        prune();
+        if (frame - lastRemoteFrame > MAX_ROLLBACK_FRAMES) return false;
+
+        localInputs.set(frame + ROLLBACK_INPUT_DELAY, input);
+        send({ type: 'input', frame: frame + ROLLBACK_INPUT_DELAY, input });
+
+        snapshots.set(frame, engine.snapshot({ cosmetic: false }));
+        engine.step(inputsAt(frame));
+        frame++;
+        return true;
+    };
+
+    const receive = (message: RollbackMessage) => {
+        switch (message.type) {
+            case 'input': {
+                // 可靠有序通道：输入按帧连续到达，重复的忽略
+                if (message.frame <= lastRemoteFrame) return;
+                remoteInputs.set(message.frame, message.input);
+                lastRemoteFrame = message.frame;
+                const guess = predicted.get(message.frame);
+                if (guess) {
+                    predicted.delete(message.frame);
+                    if (!sameInput(guess, message.input)) {
+                        rollbackFrom = rollbackFrom === null ? message.frame : Math.min(rollbackFrom, message.frame);
+                    }
+                }
+                break;
+            }
+            case 'checksum':
+                remoteChecksums.set(message.frame, message.value);
+                compareChecksum(message.frame);
+                break;
+        }
+    };
+
+    return {
+        advance,
+        receive,
+        getStats: () => ({
+            frame,
+            predictedFrames: Math.max(0, frame - lastRemoteFrame - 1),
+            lastRollback,
+            desynced
+        })
+    };
+};
@@ -0,0 +1,172 @@
+/**
+ * [Render] 猫猫球：三花猫的身体、蓄力与飞扑形变、飞扑箭头与抓击范围
+ */
+import { CharacterType } from '../types';
+import type { PlayerState } from '../types';
+import { CHAR_STATS } from '../constants';
+import * as Utils from '../utils';
+import type { CharacterRenderContext, CharacterRenderer } from '../characters/types';
+
+// 蓄力时缩小，飞扑时放大并留下残影
+const transformCat = ({ ctx, state }: CharacterRenderContext, p: PlayerState) => {
+    // 1. 蓄力 - 整体缩小 (Shrink) 而不是压扁
+    if (p.catIsCharging) {
+        const chargeTime = (state.simTime - (p.catChargeStartTime || 0)) / 1000;
+        const chargePct = Math.min(1, chargeTime / CHAR_STATS[CharacterType.CAT].pounceMaxCharge);
+        // 随蓄力时间从 1.0 缩小到 0.7
+        const s = 1 - chargePct * 0.3;
+        ctx.scale(s, s);
+    }
+    // 2. 飞扑 - 滞空放大 (Jump/Lift)
+    else if (p.isPouncing) {
+        // 模拟升空：根据当前速度决定大小，速度越快(跳得越高)越大
+        const speed = Utils.mag(p.vel);
+        // 基础放大 + 速度加成，落地(速度为0)时自然恢复
+        const scale = 1 + (speed / 30) * 0.5;
+        ctx.scale(scale, scale);
+
+        // 残影特效 (让飞扑更有速度感)
+        if (Math.random() < 0.5) {
+            state.particles.push({
+                id: Math.random().toString(),
+                pos: { ...p.pos },
+                vel: { x: 0, y: 0 },
+                life: 0.15, maxLife: 0.15,
+                color: 'rgba(245, 208, 254, 0.4)',
+                size: p.radius
+            });
+        }
+    }
+};
+
+const drawCat = ({ ctx, getStatusInfo }: CharacterRenderContext, p: PlayerState) => {
+    // --- RENDER CAT ---
+    // [Modified] Status Color Support
+    const statusInfo = getStatusInfo(p);
+    const baseColor = statusInfo ? statusInfo.color : '#f5d0fe'; // fuchsia-200 or status
+    const spotColor = statusInfo ? Utils.adjustColor(statusInfo.color, -30) : '#a855f7'; // darker version for spots
+
+    // Draw Body
+    ctx.rotate(p.angle);
+    ctx.fillStyle = baseColor;
+    ctx.beginPath();
+    ctx.arc(0, 0, p.radius, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Draw Calico Spots
+    ctx.fillStyle = spotColor;
+    ctx.beginPath();
+    ctx.arc(-8, -10, 8, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#1f2937'; // gray-800 eyes always dark
+    ctx.beginPath();
+    ctx.arc(8, 12, 6, 0, Math.PI * 2);
+    ctx.fill();
+
+    // Draw Tail (Wagging)
+    const tailWag = Math.sin(Date.now() / 200) * 0.5;
+    ctx.strokeStyle = baseColor;
+    ctx.lineWidth = 8;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(-p.radius, 0);
+    ctx.quadraticCurveTo(-p.radius - 20, 0, -p.radius - 25, tailWag * 20);
+    ctx.stroke();
+
+    // Rotate to Aim Direction for Ears & Face
+    ctx.rotate(-p.angle); // Reset body rotation
+    ctx.rotate(p.aimAngle); // Rotate to aim
+
+    // Ears - Match base color
+    ctx.fillStyle = baseColor;
+    ctx.beginPath(); ctx.moveTo(5, -p.radius + 5); ctx.lineTo(15, -p.radius - 10); ctx.lineTo(25, -p.radius + 10); ctx.fill(); // Right Ear
+    ctx.beginPath(); ctx.moveTo(5, p.radius - 5); ctx.lineTo(15, p.radius + 10); ctx.lineTo(25, p.radius - 10); ctx.fill(); // Left Ear
+
+    // Inner Ears (Pink usually, but maybe match status logic?)
+    // Let's keep them pinkish unless status is very dark?
+    // Actually if frozen/stone, inner ear should probably change too.
+    // Let's use a lighter version of baseColor for inner ears if status is present.
+    ctx.fillStyle = statusInfo ? Utils.adjustColor(statusInfo.color, 40) : '#f9a8d4';
+    ctx.beginPath(); ctx.moveTo(8, -p.radius + 6); ctx.lineTo(15, -p.radius - 6); ctx.lineTo(22, -p.radius + 9); ctx.fill();
+    ctx.beginPath(); ctx.moveTo(8, p.radius - 6); ctx.lineTo(15, p.radius + 6); ctx.lineTo(22, p.radius - 9); ctx.fill();
+
+    // Whiskers
+    ctx.strokeStyle = '#4b5563';
+    ctx.lineWidth = 1;
+    ctx.beginPath(); ctx.moveTo(p.radius, -5); ctx.lineTo(p.radius + 15, -10); ctx.stroke();
+    ctx.beginPath(); ctx.moveTo(p.radius, 5); ctx.lineTo(p.radius + 15, 10); ctx.stroke();
+};
+
+const drawPounceAim = ({ ctx, state }: CharacterRenderContext, p: PlayerState) => {
+    // Cat Aim Guide (Arrow)
+    ctx.save();
+    ctx.translate(p.pos.x, p.pos.y);
+    ctx.rotate(p.aimAngle);
+
+    const currentChargeTime = p.catIsCharging ? (state.simTime - (p.catChargeStartTime || 0)) / 1000 : 0;
+
+    // Pounce Arrow (Enhanced)
+    if (p.catIsCharging && currentChargeTime > CHAR_STATS[CharacterType.CAT].pounceChargeThreshold) {
+        const rawPct = Math.min(1, currentChargeTime / CHAR_STATS[CharacterType.CAT].pounceMaxCharge);
+        // Ease-out curve: 快速增长后平滑到达最大值
+        const chargePct = 1 - Math.pow(1 - rawPct, 2.5);
+
+        const baseLen = 100;
+        const addLen = 220;
+        const length = baseLen + addLen * chargePct;
+
+        // 箭头宽度 (随蓄力变粗)
+        const lineWidth = 4 + chargePct * 5;
+
+        // 脉冲辉光 (Pulsing Glow)
+        const pulsePhase = (performance.now() / 150) % (Math.PI * 2);
+        const pulseIntensity = 0.5 + 0.5 * Math.sin(pulsePhase);
+        ctx.shadowColor = `rgba(251, 191, 36, ${0.6 * pulseIntensity})`;
+        ctx.shadowBlur = 10 + 8 * pulseIntensity;
+
+        // 渐变色 (Gradient: 尾部淡 -> 头部亮)
+        const gradient = ctx.createLinearGradient(0, 0, length, 0);
+        gradient.addColorStop(0, `rgba(254, 243, 199, ${0.3 + chargePct * 0.3})`); // 淡黄
+        gradient.addColorStop(0.6, `rgba(251, 191, 36, ${0.6 + chargePct * 0.4})`); // 金黄
+        gradient.addColorStop(1, `rgba(245, 158, 11, ${0.8 + chargePct * 0.2})`); // 橙黄 (头部)
+
+        // 主线
+        ctx.strokeStyle = gradient;
+        ctx.lineWidth = lineWidth;
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        ctx.moveTo(p.radius * 0.5, 0); // 从球体边缘开始
+        ctx.lineTo(length, 0);
+        ctx.stroke();
+
+        // 箭头头部 (Arrowhead)
+        const arrowSize = 12 + chargePct * 8;
+        ctx.fillStyle = `rgba(245, 158, 11, ${0.8 + chargePct * 0.2})`;
+        ctx.beginPath();
+        ctx.moveTo(length + arrowSize, 0);
+        ctx.lineTo(length - arrowSize * 0.4, -arrowSize * 0.6);
+        ctx.lineTo(length - arrowSize * 0.4, arrowSize * 0.6);
+        ctx.closePath();
+        ctx.fill();
+
+        // 清除阴影以免影响后续渲染
+        ctx.shadowColor = 'transparent';
+        ctx.shadowBlur = 0;
+    } else {
+        // Scratch Cone
+        const { scratchRange: range, scratchHalfAngle } = CHAR_STATS[CharacterType.CAT];
+        ctx.fillStyle = 'rgba(217, 70, 239, 0.2)';
+        ctx.beginPath();
+        ctx.moveTo(0, 0);
+        ctx.arc(0, 0, range, -scratchHalfAngle, scratchHalfAngle);
+        ctx.fill();
+    }
+    ctx.restore();
+};
+
+export const catRenderer: CharacterRenderer = {
+    isAirborne: p => p.isPouncing,
+    transformBody: transformCat,
+    drawBody: drawCat,
+    drawAimGuide: drawPounceAim,
+};
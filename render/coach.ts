@@ -0,0 +1,17 @@
+/**
+ * [Render] 教练球：彩虹色的身体
+ */
+import type { CharacterRenderer } from '../characters/types';
+
+export const coachRenderer: CharacterRenderer = {
+    styleBody: ({ ctx }) => {
+        // Rainbow Effect for Coach Ball
+        const time = Date.now() / 15; // Speed of color cycle
+        const hue = time % 360;
+        ctx.fillStyle = `hsl(${hue}, 90%, 70%)`;
+
+        // Add a magical glow
+        ctx.shadowColor = `hsl(${hue}, 90%, 70%)`;
+        ctx.shadowBlur = 20;
+    },
+};
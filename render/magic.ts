@@ -0,0 +1,390 @@
+/**
+ * [Render] 魔法球：移形换影、魔杖、铁甲咒护盾与阿瓦达索命的瞄准光束
+ */
+import { CharacterType } from '../types';
+import type { PlayerState } from '../types';
+import { CHAR_STATS, MAGIC_SHIELD_EXTRA_RADIUS } from '../constants';
+import * as Utils from '../utils';
+import type { CharacterRenderContext, CharacterRenderer } from '../characters/types';
+
+const drawMagicBall = ({ ctx, getStatusInfo }: CharacterRenderContext, p: PlayerState) => {
+    // --- RENDER MAGIC BALL & WAND ---
+
+    const themeColor = p.magicForm === 'WHITE' ? '#fef08a' : '#22c55e';
+
+    // 特殊渲染：移形换影动画
+    if (p.apparitionPhase === 'DISAPPEARING') {
+        // 消失阶段：球体逐渐缩小 + 黑洞吸入效果
+        const progress = 1 - (p.apparitionTimer || 0) / 1.0;
+        const shrinkRatio = 1 - progress * 0.95; // 最终缩小到5%
+        const currentRadius = p.radius * shrinkRatio;
+
+        // 绘制漩涡效果
+        ctx.save();
+        const spiralTime = Date.now() / 100;
+        ctx.rotate(spiralTime * 0.5);
+
+        // 外层漩涡
+        for (let i = 0; i < 3; i++) {
+            const spiralProgress = (i / 3 + spiralTime * 0.1) % 1;
+            const spiralR = currentRadius * (1 + spiralProgress * 2);
+            ctx.strokeStyle = themeColor + Math.floor((1 - spiralProgress) * 100).toString(16).padStart(2, '0');
+            ctx.lineWidth = 2;
+            ctx.beginPath();
+            ctx.arc(0, 0, spiralR, 0, Math.PI * 1.5);
+            ctx.stroke();
+        }
+        ctx.restore();
+
+        // 中心核心
+        ctx.fillStyle = p.color;
+        ctx.shadowColor = themeColor;
+        ctx.shadowBlur = 20 * (1 - progress);
+        ctx.beginPath();
+        ctx.arc(0, 0, Math.max(2, currentRadius), 0, Math.PI * 2);
+        ctx.fill();
+        ctx.shadowBlur = 0;
+
+        return;
+    }
+    else if (p.apparitionPhase === 'FLYING') {
+        // 飞行阶段：闪电形态
+        const dir = Utils.normalize(Utils.sub(p.apparitionEndPos!, p.apparitionStartPos!));
+        const flyAngle = Math.atan2(dir.y, dir.x);
+
+        ctx.save();
+        ctx.rotate(flyAngle);
+
+        // 发光核心
+        const gradient = ctx.createRadialGradient(0, 0, 0, 0, 0, p.radius * 2);
+        gradient.addColorStop(0, '#ffffff');
+        gradient.addColorStop(0.3, themeColor);
+        gradient.addColorStop(0.7, themeColor + '88');
+        gradient.addColorStop(1, 'transparent');
+
+        ctx.shadowColor = themeColor;
+        ctx.shadowBlur = 30;
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(0, 0, p.radius * 1.5, 0, Math.PI * 2);
+        ctx.fill();
+
+        // 闪电拖尾
+        ctx.strokeStyle = themeColor;
+        ctx.lineWidth = 4;
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+        ctx.moveTo(0, 0);
+
+        // 锯齿状闪电拖尾
+        const tailLength = p.radius * 5;
+        const segments = 8;
+        for (let i = 1; i <= segments; i++) {
+            const x = -i * (tailLength / segments);
+            const y = (Math.random() - 0.5) * 15;
+            ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+
+        // 电弧分支
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = '#ffffff';
+        for (let b = 0; b < 3; b++) {
+            const branchX = -(tailLength / segments) * (2 + b * 2);
+            const branchDir = Math.random() > 0.5 ? 1 : -1;
+            ctx.beginPath();
+            ctx.moveTo(branchX, 0);
+            ctx.lineTo(branchX - 10, branchDir * 15);
+            ctx.lineTo(branchX - 20, branchDir * 10);
+            ctx.stroke();
+        }
+
+        ctx.shadowBlur = 0;
+        ctx.restore();
+
+        return;
+    }
+
+    const statusInfo = getStatusInfo(p);
+    if (statusInfo) ctx.fillStyle = statusInfo.color;
+    else ctx.fillStyle = p.color;
+
+    ctx.beginPath();
+    ctx.arc(0, 0, p.radius, 0, Math.PI * 2);
+    ctx.fill();
+
+    // 2. Draw Gloss
+    ctx.fillStyle = 'rgba(255,255,255,0.2)';
+    ctx.beginPath();
+    ctx.arc(-p.radius / 3, -p.radius / 3, p.radius / 3, 0, Math.PI * 2);
+    ctx.fill();
+
+    // 3. Draw Wand
+    ctx.save();
+    const swayOffset = Math.sin(Date.now() / 800) * 0.15;
+    ctx.rotate(p.aimAngle + swayOffset);
+
+    const wandLen = 32;
+    ctx.strokeStyle = '#4b3621';
+    ctx.lineWidth = 4;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    ctx.beginPath();
+    const startX = p.radius - 5;
+    ctx.moveTo(startX, 0);
+    ctx.lineTo(startX + wandLen * 0.3, -3);
+    ctx.lineTo(startX + wandLen * 0.7, 2);
+    ctx.lineTo(startX + wandLen, -1);
+    ctx.stroke();
+
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(startX + wandLen * 0.4, -2);
+    ctx.lineTo(startX + wandLen * 0.5, -6);
+    ctx.stroke();
+
+    ctx.fillStyle = p.magicForm === 'WHITE' ? '#fef08a' : '#22c55e';
+    ctx.shadowColor = ctx.fillStyle;
+    ctx.shadowBlur = 15;
+    ctx.beginPath();
+    ctx.arc(startX + wandLen, -1, 5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowBlur = 0;
+
+    ctx.restore();
+
+    // --- RENDER ARMOR SHIELD (ENHANCED) ---
+    if ((p.magicShieldHp || 0) > 0) {
+        const maxShield = CHAR_STATS[CharacterType.MAGIC].armorShieldHp;
+        const ratio = p.magicShieldHp! / maxShield;
+        const themeColor = p.magicForm === 'WHITE' ? '#fef08a' : '#22c55e';
+        const shieldR = p.radius + MAGIC_SHIELD_EXTRA_RADIUS;
+        const time = Date.now() / 1000;
+
+        ctx.save();
+
+        // [New] Impact Shudder (Shake)
+        if (p.magicShieldShakeTimer && p.magicShieldShakeTimer > 0) {
+            const intensity = 4;
+            const sx = (Math.random() - 0.5) * intensity;
+            const sy = (Math.random() - 0.5) * intensity;
+            ctx.translate(sx, sy);
+        }
+
+        // 1. Outer Glow
+        ctx.shadowColor = themeColor;
+        ctx.shadowBlur = 15 + Math.sin(time * 4) * 5; // Pulsing glow
+
+        // 2. Shield Body with Radial Gradient
+        const grad = ctx.createRadialGradient(0, 0, p.radius * 0.5, 0, 0, shieldR);
+        grad.addColorStop(0, 'rgba(255, 255, 255, 0.1)');
+        grad.addColorStop(0.7, themeColor + '66'); // ~40% opacity
+        grad.addColorStop(1, themeColor + '88'); // ~53% opacity
+
+        ctx.fillStyle = grad;
+        ctx.beginPath();
+        ctx.arc(0, 0, shieldR, 0, Math.PI * 2);
+        ctx.fill();
+
+        // 3. SOAP BUBBLE LIQUID FLOW (虹彩流光)
+        ctx.shadowBlur = 0;
+        ctx.save();
+        // Use screen composite for additive light effect
+        ctx.globalCompositeOperation = 'screen';
+
+        for (let i = 0; i < 4; i++) {
+            ctx.save();
+            // Phase-shifted organic movement
+            const layerTime = time * (0.8 + i * 0.4);
+            const driftX = Math.sin(layerTime * 0.7 + i) * 10;
+            const driftY = Math.cos(layerTime * 1.1 + i) * 10;
+            ctx.translate(driftX, driftY);
+            ctx.rotate(layerTime * 0.3 + i);
+
+            // Cycle through HSL colors for iridescence
+            const hue = (time * 40 + i * 60) % 360;
+            const color = `hsla(${hue}, 80%, 70%, 0.15)`;
+            ctx.fillStyle = color;
+
+            // Organic liquid patches
+            ctx.beginPath();
+            const patchR = shieldR * (0.6 + Math.sin(layerTime + i) * 0.2);
+            ctx.arc(shieldR * 0.2, 0, patchR, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.restore();
+        }
+
+        // 4. SURFACE SHIMMER & HIGHLIGHTS (表面反光)
+        for (let i = 0; i < 2; i++) {
+            ctx.save();
+            const reflectTime = time * (1.2 + i);
+            ctx.rotate(reflectTime * 0.5 + i * Math.PI);
+
+            ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+            ctx.lineWidth = 4 - i * 2;
+            ctx.lineCap = 'round';
+
+            ctx.beginPath();
+            // Moving reflection arcs
+            ctx.arc(0, 0, shieldR * 0.85, 0, Math.PI * 0.2);
+            ctx.stroke();
+
+            ctx.restore();
+        }
+        ctx.restore(); // End screen composite
+
+        // 5. White Rim & Edge highlight
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)';
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        ctx.arc(0, 0, shieldR, 0, Math.PI * 2);
+        ctx.stroke();
+
+        // 6. Progressive Crystalline Cracks (Deterministic & Static)
+        ctx.globalAlpha = 0.9;
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+        ctx.lineWidth = 1;
+        ctx.lineJoin = 'bevel';
+
+        const crackLimit = shieldR - 5;
+
+        // Deterministic pseudo-random helper (Based on Player ID/Seed)
+        const getSeedRandom = (idx: number) => {
+            const val = Math.sin(idx * 12.9898 + (p.id.length * 78.233)) * 43758.5453;
+            return val - Math.floor(val);
+        };
+
+        const drawStaticCrack = (baseIdx: number, x: number, y: number, size: number) => {
+            ctx.beginPath();
+            ctx.moveTo(x, y);
+            let curX = x;
+            let curY = y;
+            // [Refine] Fewer segments but larger step size for better "jaggedness"
+            for (let i = 0; i < 4; i++) {
+                const rx = getSeedRandom(baseIdx + i * 1.5) - 0.5;
+                const ry = getSeedRandom(baseIdx + i * 2.7) - 0.5;
+                curX += rx * size * 0.8;
+                curY += ry * size * 0.8;
+                ctx.lineTo(curX, curY);
+            }
+            ctx.stroke();
+        };
+
+        if (ratio <= 0.8) {
+            drawStaticCrack(101, crackLimit * 0.7, -crackLimit * 0.4, 30);
+            drawStaticCrack(202, -crackLimit * 0.5, crackLimit * 0.6, 25);
+        }
+        if (ratio <= 0.6) {
+            drawStaticCrack(303, crackLimit * 0.2, crackLimit * 0.8, 40);
+            drawStaticCrack(404, -crackLimit * 0.8, -crackLimit * 0.2, 35);
+        }
+        if (ratio <= 0.4) {
+            drawStaticCrack(505, 0, crackLimit * 0.9, 45);
+            drawStaticCrack(606, crackLimit * 0.6, 0.4, 40);
+            drawStaticCrack(707, -crackLimit * 0.4, -crackLimit * 0.7, 35);
+        }
+        if (ratio <= 0.2) {
+            for (let i = 0; i < 3; i++) {
+                const seed = 800 + i * 111;
+                const rx = (getSeedRandom(seed) - 0.5) * crackLimit;
+                const ry = (getSeedRandom(seed + 5) - 0.5) * crackLimit;
+                drawStaticCrack(seed + 10, rx, ry, 50);
+            }
+            // Structural beam link
+            ctx.beginPath();
+            ctx.moveTo(-crackLimit * 0.4, -crackLimit * 0.4);
+            ctx.lineTo(crackLimit * 0.3, crackLimit * 0.3);
+            ctx.stroke();
+        }
+
+        ctx.restore();
+    }
+
+    // [Avada Kedavra Aim Assist] Show trajectory line during charging
+    if (p.avadaCharging) {
+        ctx.save();
+
+        // Calculate wand tip position
+        const wandLength = 32;
+        const wandTip = {
+            x: p.radius + wandLength,
+            y: 0
+        };
+
+        // Rotate to aim angle
+        ctx.rotate(p.aimAngle);
+
+        const beamLength = 2000;
+        const beamWidth = 40; // Width of the beam
+        const time = Date.now() / 1000;
+
+        // Draw smoky beam with undulating edges
+        ctx.globalAlpha = 0.15; // High transparency
+
+        // Create gradient for depth
+        const gradient = ctx.createLinearGradient(wandTip.x, 0, wandTip.x + beamLength, 0);
+        gradient.addColorStop(0, 'rgba(134, 239, 172, 0.4)'); // Brighter at start
+        gradient.addColorStop(0.5, 'rgba(34, 197, 94, 0.3)');
+        gradient.addColorStop(1, 'rgba(34, 197, 94, 0.1)'); // Fade at end
+
+        // Draw multiple layers with wave distortion for smoky effect
+        const transitionDistance = 240; // Distance over which beam expands from point to full width
+
+        for (let layer = 0; layer < 3; layer++) {
+            ctx.beginPath();
+
+            const layerOffset = layer * 0.3;
+            const waveFreq = 0.01 + layer * 0.002;
+            const waveAmp = 3 + layer * 2;
+
+            // Start from wand tip (point)
+            ctx.moveTo(wandTip.x, wandTip.y);
+
+            // Top edge with sine wave and width expansion
+            for (let x = 0; x <= beamLength; x += 10) {
+                // Calculate width expansion factor (0 to 1)
+                const widthFactor = Math.min(x / transitionDistance, 1);
+                const currentWidth = beamWidth * widthFactor;
+
+                const wave = Math.sin(x * waveFreq + time * 2 + layerOffset) * waveAmp * widthFactor;
+                ctx.lineTo(wandTip.x + x, wandTip.y - currentWidth / 2 + wave);
+            }
+
+            // Bottom edge with inverse sine wave and width expansion
+            for (let x = beamLength; x >= 0; x -= 10) {
+                const widthFactor = Math.min(x / transitionDistance, 1);
+                const currentWidth = beamWidth * widthFactor;
+
+                const wave = Math.sin(x * waveFreq + time * 2 + layerOffset + Math.PI) * waveAmp * widthFactor;
+                ctx.lineTo(wandTip.x + x, wandTip.y + currentWidth / 2 + wave);
+            }
+
+            ctx.closePath();
+            ctx.fillStyle = gradient;
+            ctx.fill();
+        }
+
+        // Add a brighter center line for clarity
+        ctx.globalAlpha = 0.25;
+        ctx.strokeStyle = 'rgba(134, 239, 172, 0.6)';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(wandTip.x, wandTip.y);
+
+        // Center line with subtle wave
+        for (let x = 0; x <= beamLength; x += 20) {
+            const wave = Math.sin(x * 0.008 + time * 3) * 1.5;
+            ctx.lineTo(wandTip.x + x, wandTip.y + wave);
+        }
+        ctx.stroke();
+
+        ctx.globalAlpha = 1.0;
+
+        ctx.restore();
+    }
+};
+
+export const magicRenderer: CharacterRenderer = {
+    drawBody: drawMagicBall,
+};
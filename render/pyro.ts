@@ -0,0 +1,326 @@
+/**
+ * [Render] 火焰球：喷火特效、技能就绪时的环绕火球与喷火范围
+ */
+import { CharacterType } from '../types';
+import type { PlayerState } from '../types';
+import { CHAR_STATS } from '../constants';
+import type { CharacterRenderContext, CharacterRenderer } from '../characters/types';
+
+// [New] Procedural Flamethrower Rendering (Refined)
+const drawFlamethrower = (ctx: CanvasRenderingContext2D, p: PlayerState) => {
+    const stats = CHAR_STATS[CharacterType.PYRO];
+    const range = p.currentWeaponRange || stats.flamethrowerRange;
+    const halfAngle = p.currentWeaponAngle || stats.flamethrowerAngle;
+    const tipRadius = p.radius + 5;
+
+    ctx.save();
+    ctx.translate(p.pos.x, p.pos.y);
+    ctx.rotate(p.aimAngle);
+
+    const time = Date.now() / 150;
+
+    // Draw Tip Offset
+    ctx.translate(tipRadius, 0);
+
+    // 1. Outer Gloom/Heat (Wide, Darker)
+    const outerGrad = ctx.createLinearGradient(0, 0, range, 0);
+    outerGrad.addColorStop(0, 'rgba(255, 50, 0, 0.1)');
+    outerGrad.addColorStop(0.5, 'rgba(180, 20, 20, 0.25)'); // Dark Red
+    outerGrad.addColorStop(1, 'rgba(0, 0, 0, 0)');
+
+    ctx.fillStyle = outerGrad;
+    ctx.beginPath();
+    // Wider subtle glow
+    drawWavySector(ctx, range, halfAngle * 1.3, 20, time * 0.5, 5, 2);
+    ctx.fill();
+
+
+    // 2. Main Body (Rich Orange/Red)
+    const mainGrad = ctx.createLinearGradient(0, 0, range * 0.95, 0);
+    mainGrad.addColorStop(0, 'rgba(255, 255, 0, 0.9)');
+    mainGrad.addColorStop(0.2, 'rgba(255, 160, 0, 0.85)');
+    mainGrad.addColorStop(0.6, 'rgba(255, 60, 0, 0.7)');
+    mainGrad.addColorStop(1, 'rgba(255, 0, 0, 0)');
+
+    ctx.fillStyle = mainGrad;
+    ctx.beginPath();
+    // Main visible body, rich detail
+    drawWavySector(ctx, range * 0.95, halfAngle, 10, time, 15, 3);
+    ctx.fill();
+
+    // 3. Inner Core (Bright stream)
+    const coreGrad = ctx.createLinearGradient(0, 0, range * 0.7, 0);
+    coreGrad.addColorStop(0, 'rgba(255, 255, 255, 0.95)');
+    coreGrad.addColorStop(0.4, 'rgba(255, 255, 100, 0.6)');
+    coreGrad.addColorStop(1, 'rgba(255, 255, 255, 0)');
+
+    ctx.fillStyle = coreGrad;
+    ctx.beginPath();
+    // Narrower core, very fast
+    drawWavySector(ctx, range * 0.7, halfAngle * 0.6, 10, time * 2.0, 8, 2);
+    ctx.fill();
+
+    // 4. Procedural Sparks (Stateless)
+    const minSparks = 1; // Further reduced for very narrow flames
+    const maxSparks = 12;
+    // Map this to spark count
+    const angleNormalized = Math.min(1, Math.max(0, (halfAngle - 0.1) / 1.4));
+    const sparkCount = Math.round(minSparks + angleNormalized * (maxSparks - minSparks));
+
+    // Golden Ratio for even angular distribution regardless of count
+    const goldenRatio = 0.61803398875;
+
+    for (let i = 0; i < sparkCount; i++) {
+        const speed = 350; // px per second
+        const offset = i * 12345;
+        const nowSec = Date.now() / 1000;
+        const t = nowSec * speed + offset;
+
+        const dist = t % range;
+
+        // Fade out
+        const alpha = 1 - Math.pow(dist / range, 2);
+        if (alpha < 0) continue;
+
+        // Angular Distribution
+        const normalizedSpread = ((i * goldenRatio) % 1 - 0.5) * 2; // -1 to 1
+
+        // Time-based Meander (Simulate turbulence)
+        const meanderFreq = 4.0;
+        const meanderAmp = 0.15; // Radians deviation magnitude
+        const turbulence = Math.sin(nowSec * meanderFreq + i * 10) * meanderAmp * (dist / range);
+
+        // Combine base spread position with turbulence
+        const angle = normalizedSpread * halfAngle * 0.8 + turbulence;
+
+        const sx = dist * Math.cos(angle);
+        const sy = dist * Math.sin(angle);
+
+        // Variable Size (5px - 10px) - Increased from 3-6px
+        // Use a hash of index for consistent size per spark
+        const sizeHash = Math.abs(Math.sin(i * 999));
+        const baseSize = 5 + sizeHash * 5;
+
+        ctx.globalAlpha = alpha;
+
+        // Draw realistic ember shape with tail
+        // 1. Tail (motion blur effect) - Enhanced length and visibility
+        const tailLength = 15 + baseSize * 1.5; // Longer tail
+        const tailGrad = ctx.createLinearGradient(
+            sx - tailLength * Math.cos(angle),
+            sy - tailLength * Math.sin(angle),
+            sx,
+            sy
+        );
+        tailGrad.addColorStop(0, 'rgba(255, 100, 0, 0)');
+        tailGrad.addColorStop(0.3, `rgba(255, 150, 50, ${alpha * 0.3})`); // More visible mid-section
+        tailGrad.addColorStop(1, `rgba(254, 240, 138, ${alpha * 0.7})`); // Brighter end
+
+        ctx.fillStyle = tailGrad;
+        ctx.beginPath();
+        ctx.ellipse(
+            sx - (tailLength / 2) * Math.cos(angle),
+            sy - (tailLength / 2) * Math.sin(angle),
+            tailLength / 2,
+            baseSize / 1.5, // Slightly wider tail
+            angle,
+            0,
+            Math.PI * 2
+        );
+        ctx.fill();
+
+        // 2. Core (bright circular ember) - Enhanced with outer glow
+        // Outer glow layer
+        const glowGrad = ctx.createRadialGradient(sx, sy, 0, sx, sy, baseSize * 1.5);
+        glowGrad.addColorStop(0, `rgba(255, 200, 100, ${alpha * 0.6})`);
+        glowGrad.addColorStop(0.5, `rgba(255, 150, 50, ${alpha * 0.3})`);
+        glowGrad.addColorStop(1, `rgba(255, 100, 0, 0)`);
+
+        ctx.fillStyle = glowGrad;
+        ctx.beginPath();
+        ctx.arc(sx, sy, baseSize * 1.5, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Inner core
+        const coreGrad = ctx.createRadialGradient(sx, sy, 0, sx, sy, baseSize);
+        coreGrad.addColorStop(0, `rgba(255, 255, 255, ${alpha})`);
+        coreGrad.addColorStop(0.3, `rgba(255, 240, 180, ${alpha * 0.95})`);
+        coreGrad.addColorStop(0.6, `rgba(254, 240, 138, ${alpha * 0.8})`);
+        coreGrad.addColorStop(1, `rgba(255, 100, 0, 0)`);
+
+        ctx.fillStyle = coreGrad;
+        ctx.beginPath();
+        ctx.arc(sx, sy, baseSize, 0, Math.PI * 2);
+        ctx.fill();
+    }
+
+    ctx.globalAlpha = 1.0; // Reset alpha
+
+    ctx.restore();
+};
+
+// Helper: Draw a "Wavy Sector" using Polar stepping to prevent width explosion
+const drawWavySector = (
+    ctx: CanvasRenderingContext2D,
+    radius: number,
+    halfAngle: number,
+    step: number,
+    time: number,
+    amp: number,
+    octaves: number = 1
+) => {
+    ctx.moveTo(0, 0);
+
+    // 1. Top Edge (angle = -halfAngle)
+    for (let r = 0; r <= radius; r += step) {
+        // Base position on the ray
+        const bx = r * Math.cos(-halfAngle);
+        const by = r * Math.sin(-halfAngle);
+
+        // Perpendicular Noise Vector
+        const pAngle = -halfAngle + Math.PI / 2;
+        const px = Math.cos(pAngle);
+        const py = Math.sin(pAngle);
+
+        // Multi-octave noise
+        let noise = 0;
+        for (let o = 0; o < octaves; o++) {
+            const freq = 0.05 * Math.pow(2, o);
+            const a = amp / Math.pow(1.5, o); // amplitude decay
+            const speed = time * Math.pow(1.5, o);
+            noise += Math.sin(r * freq - speed) * a;
+        }
+
+        // Scale noise by radius ratio (less noise at source)
+        const ratio = Math.pow(r / radius, 0.5);
+        noise *= ratio;
+
+        ctx.lineTo(bx + px * noise, by + py * noise);
+    }
+
+    // 2. Outer Arc (Connecting Top to Bottom)
+    const arcSteps = 8;
+    for (let i = 0; i <= arcSteps; i++) {
+        const t = i / arcSteps; // 0 to 1
+        const ang = -halfAngle + t * (2 * halfAngle);
+
+        // Add some noise to the radius of the arc too?
+        let rNoise = Math.sin(ang * 5 + time) * amp * 0.5;
+        const rCurrent = radius + rNoise;
+
+        ctx.lineTo(rCurrent * Math.cos(ang), rCurrent * Math.sin(ang));
+    }
+
+    // 3. Bottom Edge (angle = +halfAngle) - Coming back to center
+    for (let r = radius; r >= 0; r -= step) {
+        const bx = r * Math.cos(halfAngle);
+        const by = r * Math.sin(halfAngle);
+
+        // Perpendicular to angle +halfAngle is (+halfAngle - PI/2)
+        const pAngle = halfAngle - Math.PI / 2;
+        const px = Math.cos(pAngle);
+        const py = Math.sin(pAngle);
+
+        let noise = 0;
+        for (let o = 0; o < octaves; o++) {
+            // Offset phase slightly for bottom edge so it doesn't mirror exactly
+            const freq = 0.05 * Math.pow(2, o);
+            const a = amp / Math.pow(1.5, o);
+            const speed = time * Math.pow(1.5, o);
+            noise += Math.sin(r * freq - speed + Math.PI) * a;
+        }
+        const ratio = Math.pow(r / radius, 0.5);
+        noise *= ratio;
+
+        ctx.lineTo(bx + px * noise, by + py * noise);
+    }
+
+    ctx.closePath();
+};
+
+// 技能就绪：环绕的火球与拖尾
+const drawFlameOrbit = ({ ctx }: CharacterRenderContext, p: PlayerState) => {
+    if (p.skillCooldown > 0) return;
+    const time = Date.now() / 200;
+    const orbitR = p.radius + 15;
+    for (let i = 5; i >= 1; i--) {
+        const lag = i * 0.15;
+        const trailTime = time - lag;
+        const tx = Math.cos(trailTime) * orbitR;
+        const ty = Math.sin(trailTime) * orbitR;
+        const scale = 1 - (i / 6);
+        const alpha = (1 - (i / 6)) * 0.5;
+        ctx.save();
+        ctx.translate(p.pos.x + tx, p.pos.y + ty);
+        ctx.fillStyle = `rgba(249, 115, 22, ${alpha})`;
+        ctx.beginPath();
+        ctx.arc(0, 0, 5 * scale, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.restore();
+    }
+    const ox = Math.cos(time) * orbitR;
+    const oy = Math.sin(time) * orbitR;
+    ctx.save();
+    ctx.translate(p.pos.x + ox, p.pos.y + oy);
+    ctx.fillStyle = '#f97316';
+    ctx.beginPath();
+    ctx.arc(0, 0, 6, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.shadowColor = '#ef4444';
+    ctx.shadowBlur = 10;
+    ctx.strokeStyle = '#fca5a5';
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.restore();
+};
+
+const drawFlameCone = ({ ctx }: CharacterRenderContext, p: PlayerState) => {
+    const range = p.currentWeaponRange || CHAR_STATS[CharacterType.PYRO].flamethrowerRange;
+    const angle = p.currentWeaponAngle || CHAR_STATS[CharacterType.PYRO].flamethrowerAngle;
+
+    ctx.save();
+    ctx.translate(p.pos.x, p.pos.y);
+    ctx.rotate(p.aimAngle);
+
+    if (p.isBurnedOut) {
+        // Grey indicator for burnout
+        ctx.fillStyle = 'rgba(148, 163, 184, 0.3)';
+        ctx.beginPath();
+        ctx.moveTo(0, 0);
+        ctx.arc(0, 0, range, -angle, angle);
+        ctx.fill();
+
+        // Warning Icon - Inside the cone range
+        ctx.translate(range * 0.6, 0);
+        ctx.rotate(-p.aimAngle); // Make upright
+
+        ctx.fillStyle = '#f59e0b'; // Amber
+        ctx.beginPath();
+        ctx.moveTo(0, -10);
+        ctx.lineTo(11, 8);
+        ctx.lineTo(-11, 8);
+        ctx.closePath();
+        ctx.fill();
+
+        ctx.fillStyle = 'black';
+        ctx.font = 'bold 12px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('!', 0, 2);
+    } else {
+        ctx.fillStyle = 'rgba(239, 68, 68, 0.2)';
+        ctx.beginPath();
+        ctx.moveTo(0, 0);
+        ctx.arc(0, 0, range, -angle, angle);
+        ctx.fill();
+    }
+    ctx.restore();
+};
+
+export const pyroRenderer: CharacterRenderer = {
+    drawWeapon: ({ ctx }, p) => {
+        if (p.isFiringFlamethrower) drawFlamethrower(ctx, p);
+    },
+    drawOverlay: drawFlameOrbit,
+    drawAimGuide: drawFlameCone,
+};
@@ -0,0 +1,67 @@
+/**
+ * [Render] 坦克球：炮管与机枪指示灯、炮击落点
+ */
+import { CharacterType, TankMode } from '../types';
+import type { PlayerState, Vector2 } from '../types';
+import { CHAR_STATS } from '../constants';
+import * as Utils from '../utils';
+import type { CharacterRenderContext, CharacterRenderer } from '../characters/types';
+
+const drawBarrel = ({ ctx }: CharacterRenderContext, p: PlayerState) => {
+    ctx.save();
+    ctx.rotate(p.aimAngle);
+    ctx.fillStyle = p.slowTimer > 0 ? '#475569' : (p.burnTimer > 0 ? '#ea580c' : ((p.charmTimer || 0) > 0 ? '#ec4899' : '#374151'));
+    ctx.fillRect(0, -8, p.radius + 20, 16);
+    ctx.restore();
+
+    if (p.tankMode === TankMode.LMG) {
+        ctx.save();
+        ctx.rotate(p.angle);
+        ctx.fillStyle = '#10b981';
+        ctx.shadowColor = '#34d399';
+        ctx.shadowBlur = 15;
+        ctx.beginPath();
+        ctx.arc(-p.radius + 5, -12, 6, 0, Math.PI * 2);
+        ctx.arc(-p.radius + 5, 12, 6, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.restore();
+    }
+};
+
+const drawArtilleryTarget = ({ ctx, isControlled, t }: CharacterRenderContext, p: PlayerState, aimPoint: Vector2) => {
+    // [修复] 受控状态下不显示
+    if (p.tankMode !== TankMode.ARTILLERY || isControlled(p)) return;
+
+    const aimX = aimPoint.x;
+    const aimY = aimPoint.y;
+    const dist = Utils.dist(p.pos, { x: aimX, y: aimY });
+    const minRange = CHAR_STATS[CharacterType.TANK].artilleryMinRange;
+    const isValid = dist > minRange;
+
+    ctx.strokeStyle = isValid ? '#10b981' : '#ef4444';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([8, 6]);
+    ctx.beginPath();
+    ctx.arc(aimX, aimY, CHAR_STATS[CharacterType.TANK].artilleryRadius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.setLineDash([]);
+
+    ctx.beginPath();
+    ctx.moveTo(aimX - 10, aimY); ctx.lineTo(aimX + 10, aimY);
+    ctx.moveTo(aimX, aimY - 10); ctx.lineTo(aimX, aimY + 10);
+    ctx.stroke();
+
+    if (!isValid) {
+        ctx.fillStyle = '#ef4444';
+        ctx.font = 'bold 14px sans-serif';
+        ctx.fillText(t('game.tank.tooClose'), aimX - 35, aimY + 80);
+    }
+};
+
+export const tankRenderer: CharacterRenderer = {
+    drawEquipment: drawBarrel,
+    drawAimGuide: drawArtilleryTarget,
+    // 炮击模式：相机可拉得更远，准星代替鼠标指针
+    getCameraReach: p => p.tankMode === TankMode.ARTILLERY ? 2.5 : 1,
+    hidesCursor: p => p.tankMode === TankMode.ARTILLERY,
+};
@@ -0,0 +1,484 @@
+/**
+ * [Render] 悟空球：金箍棒、头箍、蓄力范围与棍击动画
+ */
+import { CharacterType } from '../types';
+import type { PlayerState, Vector2 } from '../types';
+import { CHAR_STATS } from '../constants';
+import type { CharacterRenderContext, CharacterRenderer } from '../characters/types';
+
+const isSmashing = (p: PlayerState) => p.wukongChargeState === 'SMASH';
+
+// Wukong Charge Range Indicator (Under player)
+const drawSmashRange = ({ ctx }: CharacterRenderContext, p: PlayerState) => {
+    if (!isSmashing(p)) return;
+    const chargePct = Math.min(1, p.wukongChargeTime / p.wukongMaxCharge);
+    const stats = CHAR_STATS[CharacterType.WUKONG];
+    const currentRange = stats.smashMinRange + (stats.smashMaxRange - stats.smashMinRange) * chargePct;
+
+    ctx.save();
+    ctx.translate(p.pos.x, p.pos.y);
+
+    // Exquisite Circular Indicator (Refined)
+    // 1. Faint Fill
+    ctx.fillStyle = 'rgba(250, 204, 21, 0.03)';
+    ctx.beginPath();
+    ctx.arc(0, 0, currentRange, 0, Math.PI * 2);
+    ctx.fill();
+
+    // 1.5. 风起云涌 & 电闪雷鸣 (Wind & Thunder Effects)
+    const time = Date.now() / 1000;
+
+    // Wind (Swirling Clouds)
+    for (let i = 0; i < 3; i++) {
+        ctx.save();
+        const dir = i % 2 === 0 ? 1 : -1;
+        const speed = 0.5 + i * 0.3;
+        ctx.rotate(time * speed * dir);
+
+        ctx.beginPath();
+        const radiusScale = 0.4 + i * 0.25;
+        // Draw random detached arcs
+        ctx.arc(0, 0, currentRange * radiusScale, 0, Math.PI * 1.2);
+        ctx.strokeStyle = `rgba(250, 204, 21, ${0.1 + i * 0.05})`;
+        ctx.lineWidth = 4 + i * 2;
+        ctx.lineCap = 'round';
+        ctx.stroke();
+        ctx.restore();
+    }
+
+    // Thunder (Random Sparks) - Refined for larger size and duration
+    const thunderSeed = Math.floor(Date.now() / 150); // Same seed for 150ms to keep it visible
+
+    // Simple inline seeded random function
+    const getSeeded = (s: number) => {
+        const x = Math.sin(s) * 10000;
+        return x - Math.floor(x);
+    };
+
+    // Use the seed combined with player id (or hash) for uniqueness
+    const playerSeed = p.id.split('').reduce((acc, char) => acc + char.charCodeAt(0), 0);
+    const thunderChance = getSeeded(thunderSeed + playerSeed) < 0.4;
+
+    if (thunderChance) {
+        const r1 = getSeeded(thunderSeed + playerSeed + 1);
+        const r2 = getSeeded(thunderSeed + playerSeed + 2);
+        const r3 = getSeeded(thunderSeed + playerSeed + 3);
+
+        const sparkAngle = r1 * Math.PI * 2;
+        const sparkDist = r2 * currentRange * 0.6;
+        const sx = Math.cos(sparkAngle) * sparkDist;
+        const sy = Math.sin(sparkAngle) * sparkDist;
+
+        ctx.save();
+        ctx.translate(sx, sy);
+        ctx.rotate(r3 * Math.PI * 2);
+
+        ctx.beginPath();
+        // Larger, more jagged path (increased to 30 units)
+        ctx.moveTo(-30, 0);
+        ctx.lineTo(-10, 15);
+        ctx.lineTo(0, -15);
+        ctx.lineTo(10, 15);
+        ctx.lineTo(30, 0);
+
+        ctx.strokeStyle = '#fff7ed'; // Sun-white
+        ctx.lineWidth = 4;
+        ctx.shadowColor = '#facc15';
+        ctx.shadowBlur = 20;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.stroke();
+
+        // Inner bright core
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = '#ffffff';
+        ctx.stroke();
+
+        ctx.restore();
+    }
+
+    // 2. Animated Border (Rotating Dashes or Pulsing)
+    ctx.rotate(time * 0.5); // Slow rotation
+
+    ctx.strokeStyle = 'rgba(250, 204, 21, 0.6)';
+    ctx.lineWidth = 2;
+    ctx.setLineDash([15, 10]); // Longer dashes
+    ctx.beginPath();
+    ctx.arc(0, 0, currentRange, 0, Math.PI * 2);
+    ctx.stroke();
+
+    // 3. Inner Solid Ring (Clean edge)
+    ctx.setLineDash([]);
+    ctx.strokeStyle = 'rgba(250, 204, 21, 0.3)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(0, 0, currentRange - 4, 0, Math.PI * 2);
+    ctx.stroke();
+
+    ctx.restore();
+};
+
+// Wukong Staff Rendering
+const drawStaff = ({ ctx, state }: CharacterRenderContext, p: PlayerState) => {
+    ctx.save();
+    // Visual Rise in Z-Axis (Scaling)
+    if (p.wukongChargeState === 'SMASH') {
+        const liftPct = p.wukongChargeTime / p.wukongMaxCharge;
+        const scale = 1 + liftPct * 0.5; // Scale up to 1.5x
+        ctx.scale(scale, scale);
+        ctx.translate(0, -liftPct * 30);
+
+        // Shake when holding max charge
+        if (p.wukongChargeHoldTimer > 0) {
+            ctx.translate((Math.random() - 0.5) * 3, (Math.random() - 0.5) * 3);
+        }
+    }
+
+    const animTime = state.simTime - p.wukongLastAttackTime;
+    const animDuration = 250;
+
+    // Draw Idle/Charge Staff (Jingu Bang)
+    if (animTime >= animDuration) {
+        ctx.rotate(p.aimAngle);
+        let staffOffset = 15;
+
+        // Staff charging animation
+        if (p.wukongChargeState === 'THRUST') {
+            const charge = Math.min(1, p.wukongChargeTime / p.wukongMaxCharge);
+            staffOffset -= charge * 10; // Pull back
+            if (charge > 0.8) staffOffset += (Math.random() - 0.5) * 5;
+        }
+
+        // New: Visual effect when Skill is ready
+        if (p.skillCooldown <= 0) {
+            ctx.shadowColor = '#facc15';
+            ctx.shadowBlur = 15 + Math.sin(Date.now() / 150) * 8; // Pulsing glow
+        } else {
+            ctx.shadowBlur = 0;
+        }
+
+        ctx.fillStyle = '#a16207'; // Bronze/Gold dark
+        ctx.fillRect(staffOffset, -4, 50, 8); // Handle
+        ctx.fillStyle = '#facc15'; // Gold tip
+        ctx.fillRect(staffOffset + 50, -6, 15, 12);
+        ctx.fillRect(staffOffset - 5, -6, 5, 12);
+    }
+
+    ctx.restore();
+};
+
+// Wukong Headband
+const drawHeadband = ({ ctx, getStatusInfo }: CharacterRenderContext, p: PlayerState) => {
+    const statusInfo = getStatusInfo(p);
+    // [Modified] Headband color should also reflect status
+    if (statusInfo) {
+        // Use a slightly lighter/different shade of the status color for the ring
+        ctx.strokeStyle = statusInfo.color;
+        ctx.globalAlpha = 0.8; // Make it blend slightly
+    } else {
+        ctx.strokeStyle = '#facc15';
+        ctx.globalAlpha = 1.0;
+    }
+
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.arc(0, 0, p.radius - 2, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.globalAlpha = 1.0; // Reset alpha
+};
+
+// [High Priority Render Layer] Wukong Attacks (Big Cudgel)
+// Rendered AFTER all players to ensure it appears on top of other balls and terrain
+const drawCudgel = ({ ctx, state }: CharacterRenderContext, p: PlayerState) => {
+    const animTime = state.simTime - p.wukongLastAttackTime;
+    const animDuration = 250;
+
+    if (animTime < animDuration && p.wukongLastAttackType !== 'NONE') {
+        ctx.save();
+        ctx.translate(p.pos.x, p.pos.y);
+
+        // Re-apply Z-axis lift visual if in Smash Charge
+        if (p.wukongChargeState === 'SMASH') {
+            const liftPct = p.wukongChargeTime / p.wukongMaxCharge;
+            const scale = 1 + liftPct * 0.5;
+            ctx.scale(scale, scale);
+            ctx.translate(0, -liftPct * 30);
+            if (p.wukongChargeHoldTimer > 0) {
+                ctx.translate((Math.random() - 0.5) * 3, (Math.random() - 0.5) * 3);
+            }
+        }
+
+        // Use stored attack angle for stable animation
+        ctx.rotate(p.wukongLastAttackAngle);
+        const progress = animTime / animDuration;
+
+        if (p.wukongLastAttackType === 'COMBO_1' || p.wukongLastAttackType === 'COMBO_2') {
+            // Dynamic Swing Animation
+            const swingArc = Math.PI / 1.5; // 120 degrees
+            // Combo 1: -60 to +60. Combo 2: +60 to -60.
+            const startAngle = p.wukongLastAttackType === 'COMBO_1' ? -swingArc / 2 : swingArc / 2;
+            const endAngle = -startAngle;
+
+            // Easing function for visual pop
+            const easeOut = (t: number) => 1 - Math.pow(1 - t, 3);
+            const currentRot = startAngle + (endAngle - startAngle) * easeOut(progress);
+
+            // Draw Trail (Ghosting)
+            for (let i = 1; i <= 3; i++) {
+                const trailLag = i * 0.05;
+                if (progress > trailLag) {
+                    const trailRot = startAngle + (endAngle - startAngle) * easeOut(progress - trailLag);
+                    ctx.save();
+                    ctx.rotate(trailRot);
+                    ctx.fillStyle = `rgba(250, 204, 21, ${0.3 / i})`;
+                    ctx.fillRect(0, -4, 110, 8);
+                    ctx.restore();
+                }
+            }
+
+            // Draw Main Staff
+            ctx.save();
+            ctx.rotate(currentRot);
+            ctx.fillStyle = '#a16207'; // Stick color
+            ctx.fillRect(0, -5, 110, 10);
+            ctx.fillStyle = '#facc15'; // Gold Tip
+            ctx.fillRect(90, -7, 20, 14);
+            // Swipe Streak
+            ctx.fillStyle = `rgba(254, 240, 138, ${0.5 * (1 - progress)})`;
+            ctx.beginPath();
+            ctx.rect(20, -20, 90, 40); // Simple streak, or could use arc
+            ctx.fill();
+            ctx.restore();
+
+        } else if (p.wukongLastAttackType === 'SKILL_SMASH') {
+            // ENHANCED SMASH ANIMATION (For Skill only)
+            const smashProg = animTime / animDuration;
+            const stats = CHAR_STATS[CharacterType.WUKONG];
+            // Retrieve stored charge pct for correct visual length
+            const range = stats.smashMinRange + (stats.smashMaxRange - stats.smashMinRange) * p.wukongLastChargePct;
+            const width = stats.smashWidthMin + (stats.smashWidthMax - stats.smashWidthMin) * p.wukongLastChargePct;
+
+            // 1. Smear Effect (Ghosting Trail)
+            if (smashProg < 0.6) {
+                ctx.save();
+                const fade = 1 - (smashProg / 0.6);
+                ctx.fillStyle = `rgba(254, 240, 138, ${fade * 0.4})`;
+                ctx.fillRect(0, -width / 2, range, width);
+                ctx.restore();
+            }
+
+            // 2. Impact Flash (White Highlight) at the start
+            if (smashProg < 0.2) {
+                ctx.save();
+                ctx.shadowBlur = 30;
+                ctx.shadowColor = 'white';
+                ctx.fillStyle = '#ffffff';
+                ctx.fillRect(10, -width / 4, range, width / 2);
+                ctx.restore();
+            } else {
+                // 3. Main Staff (Extended)
+                const stickWidth = 20;
+
+                ctx.shadowColor = '#fef08a';
+                ctx.shadowBlur = 20;
+
+                // Main Body - Aligned to 0 to match hitbox
+                ctx.fillStyle = '#b45309'; // Darker gold/bronze
+                ctx.fillRect(0, -stickWidth / 2, range, stickWidth);
+
+                // Tip (Gold Cap)
+                ctx.fillStyle = '#fef08a';
+                ctx.fillRect(range, -(stickWidth / 2 + 4), 30, stickWidth + 8);
+
+                // 4. [New] Circular Shockwave Visual
+                const waveAlpha = 1 - smashProg;
+                ctx.save();
+                ctx.rotate(-p.wukongLastAttackAngle); // Draw shockwave relative to stored attack orientation
+                ctx.strokeStyle = `rgba(254, 240, 138, ${waveAlpha * 0.5})`;
+                ctx.lineWidth = 4;
+                ctx.beginPath();
+                ctx.arc(0, 0, range * smashProg, 0, Math.PI * 2);
+                ctx.stroke();
+                ctx.restore();
+            }
+
+        } else if (p.wukongLastAttackType === 'COMBO_SMASH') {
+            // NORMAL SMASH ANIMATION (For Combo 3rd hit - Fixed size, no huge scaling)
+            const smashProg = animTime / animDuration;
+            const range = 180; // Fixed range for combo finisher
+            const width = 40;  // Fixed width
+
+            // 1. Smear Effect
+            if (smashProg < 0.6) {
+                ctx.save();
+                const fade = 1 - (smashProg / 0.6);
+                ctx.fillStyle = `rgba(250, 204, 21, ${fade * 0.3})`;
+                ctx.fillRect(0, -width / 2, range, width);
+                ctx.restore();
+            }
+
+            // 2. Staff Animation (Slamming down visual)
+            const stickWidth = 14;
+            ctx.fillStyle = '#a16207';
+            ctx.fillRect(10, -stickWidth / 2, range, stickWidth);
+            ctx.fillStyle = '#facc15';
+            ctx.fillRect(range, -(stickWidth / 2 + 2), 20, stickWidth + 4);
+
+        } else if (p.wukongLastAttackType === 'THRUST') {
+            // ENHANCED THRUST ANIMATION
+            const stats = CHAR_STATS[CharacterType.WUKONG];
+            // Recalculate range based on saved state
+            const range = 100 + (stats.thrustMaxRange - 100) * p.wukongLastChargePct;
+            const thrustProg = animTime / animDuration;
+
+            // 1. Smear Effect (Speed lines / Conical thrust trail)
+            if (thrustProg < 0.5) {
+                const fade = 1 - (thrustProg / 0.5);
+                ctx.save();
+
+                // Airflow lines (Side streaks)
+                ctx.lineWidth = 2;
+                ctx.strokeStyle = `rgba(255, 255, 255, ${fade * 0.6})`;
+
+                ctx.beginPath();
+                ctx.moveTo(30, -12);
+                ctx.lineTo(range * 0.9, -8);
+                ctx.stroke();
+
+                ctx.beginPath();
+                ctx.moveTo(30, 12);
+                ctx.lineTo(range * 0.9, 8);
+                ctx.stroke();
+
+                // Central Blur
+                ctx.fillStyle = `rgba(254, 240, 138, ${fade * 0.3})`;
+                ctx.beginPath();
+                ctx.moveTo(10, -10);
+                ctx.lineTo(range + 30, -5);
+                ctx.lineTo(range + 30, 5);
+                ctx.lineTo(10, 10);
+                ctx.fill();
+                ctx.restore();
+            }
+
+            // 2. Flash at the start (Explosion from handle)
+            if (thrustProg < 0.15) {
+                ctx.save();
+                ctx.shadowBlur = 25;
+                ctx.shadowColor = 'white';
+                ctx.fillStyle = '#ffffff';
+                // Flash covers full length now
+                ctx.fillRect(10, -10, range + 20, 20);
+                ctx.restore();
+            }
+
+            // 3. Main Stick Body
+            ctx.fillStyle = '#a16207';
+            ctx.fillRect(20, -6, range, 12);
+
+            // 4. Gold Tip (Highlight)
+            ctx.shadowColor = '#fef08a';
+            ctx.shadowBlur = 10;
+            ctx.fillStyle = '#facc15';
+            ctx.fillRect(range + 20, -8, 20, 16); // Tip
+        }
+
+        ctx.restore();
+    }
+};
+
+const drawStaffAim = ({ ctx, isControlled }: CharacterRenderContext, p: PlayerState, aimPoint: Vector2) => {
+    // Wukong Aim Guide
+    if (p.wukongChargeState === 'THRUST') {
+        const chargePct = Math.min(1, p.wukongChargeTime / p.wukongMaxCharge);
+        const stats = CHAR_STATS[CharacterType.WUKONG];
+        const range = 100 + (stats.thrustMaxRange - 100) * chargePct;
+
+        ctx.save();
+        ctx.translate(p.pos.x, p.pos.y);
+        ctx.rotate(p.aimAngle);
+        ctx.fillStyle = 'rgba(250, 204, 21, 0.3)';
+        ctx.fillRect(0, -5, range, 10);
+        ctx.restore();
+    } else if (p.wukongChargeState === 'SMASH') {
+        // Aim circle at cursor removed - using Charge indicator on player and Aim direction arrow
+        // Calculate Range (Same logic as above for consistency)
+        const chargePct = Math.min(1, p.wukongChargeTime / p.wukongMaxCharge);
+        const stats = CHAR_STATS[CharacterType.WUKONG];
+        const currentRange = stats.smashMinRange + (stats.smashMaxRange - stats.smashMinRange) * chargePct;
+
+        const aimX = aimPoint.x;
+        const aimY = aimPoint.y;
+
+        // Calculate direction and fixed distance (Radius of circle)
+        const dx = aimX - p.pos.x;
+        const dy = aimY - p.pos.y;
+        const angle = Math.atan2(dy, dx);
+
+        // Length is ALWAYS currentRange (fixed to circle radius)
+        const endX = p.pos.x + Math.cos(angle) * currentRange;
+        const endY = p.pos.y + Math.sin(angle) * currentRange;
+
+        // [修复] 受控状态下不显示指向线（避免直连鼠标）
+        if (!isControlled(p)) {
+            // Draw Exquisite Line Indicator
+            ctx.save();
+
+            // Glow Effect
+            ctx.shadowColor = '#facc15'; // Yellow-400
+            ctx.shadowBlur = 10;
+
+            // Main Line
+            ctx.beginPath();
+            ctx.strokeStyle = 'rgba(250, 204, 21, 0.8)';
+            ctx.lineWidth = 3;
+            ctx.moveTo(p.pos.x, p.pos.y);
+            ctx.lineTo(endX, endY);
+            ctx.stroke();
+
+            // Endpoint Indicator (Circle/Dot at the limit)
+            ctx.fillStyle = '#fef08a'; // Yellow-200
+            ctx.beginPath();
+            ctx.arc(endX, endY, 5, 0, Math.PI * 2);
+            ctx.fill();
+
+            ctx.restore();
+            ctx.setLineDash([]);
+        }
+    }
+};
+
+const drawChargeBar = ({ ctx }: CharacterRenderContext, p: PlayerState, { x: barX, y: barY, width: barW }: { x: number, y: number, width: number }) => {
+    if (p.wukongChargeState !== 'NONE') {
+        const chargePct = Math.min(1, p.wukongChargeTime / p.wukongMaxCharge);
+
+        // Visual warning when holding max charge
+        if (p.wukongChargeHoldTimer > 0) {
+            ctx.fillStyle = p.wukongChargeHoldTimer > 0.7 ? '#ef4444' : '#fb923c';
+        } else {
+            ctx.fillStyle = '#fef08a';
+        }
+        ctx.fillRect(barX, barY - 8, Math.round(barW * chargePct), 4);
+    } else if (p.wukongThrustTimer > 0) {
+        // Show cooldown bar (greyed out charge bar)
+        const cdPct = p.wukongThrustTimer / 4.0; // Assuming 4.0 is max CD
+        ctx.fillStyle = '#64748b';
+        ctx.fillRect(barX, barY - 6, Math.round(barW * cdPct), 2);
+    }
+};
+
+export const wukongRenderer: CharacterRenderer = {
+    isAirborne: isSmashing,
+    // Shadow (Dynamic for Wukong Jump)
+    getShadow: p => {
+        if (!isSmashing(p)) return { scale: 1, alpha: 0.5 };
+        const liftPct = p.wukongChargeTime / p.wukongMaxCharge;
+        return { scale: 1 - liftPct * 0.7, alpha: 0.5 - liftPct * 0.3 }; // Smaller, lighter shadow
+    },
+    drawUnderlay: drawSmashRange,
+    drawEquipment: drawStaff,
+    drawBodyDetail: drawHeadband,
+    drawAttack: drawCudgel,
+    drawAimGuide: drawStaffAim,
+    drawChargeBar,
+};
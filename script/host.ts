@@ -0,0 +1,130 @@
+/**
+ * 脚本机器人的主线程宿主
+ *
+ * 模拟步是同步推进的，脚本在 Worker 中异步运行：Worker 空闲时发送最新观察，
+ * 收到的指令一直保持到下一条指令到达 (蓄力类技能按住即可)。
+ * 单次 think 超出预算的结果被丢弃；Worker 长时间无响应 (死循环) 时直接终止，
+ * 该席位此后保持静止。
+ */
+import type { MessageKey, MessageParams } from '../i18n';
+import type { ScriptCommand, ScriptObservation } from './observation';
+
+// 单次 think 的耗时预算 (毫秒)，约为一个模拟步的三分之一
+export const SCRIPT_TICK_BUDGET_MS = 5;
+// 加载或单次 think 超过此时间仍无响应时终止 Worker
+const SCRIPT_LOAD_TIMEOUT_MS = 3000;
+const SCRIPT_WATCHDOG_MS = 1000;
+
+export type ScriptHostMessage =
+    | { type: 'load', source: string, budgetMs: number }
+    | { type: 'think', tick: number, observation: ScriptObservation };
+
+export type ScriptWorkerMessage =
+    | { type: 'ready' }
+    | { type: 'command', tick: number, elapsed: number, command: ScriptCommand | null }
+    | { type: 'overrun', tick: number, elapsed: number }
+    | { type: 'error', fatal: boolean, key: MessageKey, message?: string };
+
+export type ScriptBotStatus = 'LOADING' | 'RUNNING' | 'CRASHED';
+
+export interface ScriptError {
+    key: MessageKey;
+    params?: MessageParams;
+}
+
+export interface ScriptBotStats {
+    status: ScriptBotStatus;
+    // 收到指令的次数与其中超出预算被丢弃的次数
+    commands: number;
+    overruns: number;
+    errors: number;
+    // 最近一次 think 的耗时 (毫秒)
+    lastThinkMs: number;
+    lastError: ScriptError | null;
+}
+
+export interface ScriptBot {
+    // 每个模拟步调用；Worker 空闲时才会构造并发送观察
+    update: (tick: number, observe: () => ScriptObservation) => void;
+    // 当前生效的指令 (尚未收到任何指令时为 null)
+    getCommand: () => ScriptCommand | null;
+    getStats: () => ScriptBotStats;
+    terminate: () => void;
+}
+
+export const createScriptBot = (source: string, budgetMs = SCRIPT_TICK_BUDGET_MS): ScriptBot => {
+    const worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+    const stats: ScriptBotStats = { status: 'LOADING', commands: 0, overruns: 0, errors: 0, lastThinkMs: 0, lastError: null };
+    let command: ScriptCommand | null = null;
+    // 已发出、尚未回复的请求的发出时间
+    let pendingSince: number | null = performance.now();
+
+    const crash = (error: ScriptError) => {
+        if (stats.status === 'CRASHED') return;
+        stats.status = 'CRASHED';
+        stats.lastError = error;
+        command = null;
+        pendingSince = null;
+        worker.terminate();
+    };
+
+    worker.onmessage = (e: MessageEvent<ScriptWorkerMessage>) => {
+        if (stats.status === 'CRASHED') return;
+        const message = e.data;
+        pendingSince = null;
+        switch (message.type) {
+            case 'ready':
+                stats.status = 'RUNNING';
+                break;
+            case 'command':
+                stats.commands++;
+                stats.lastThinkMs = message.elapsed;
+                command = message.command;
+                break;
+            case 'overrun':
+                stats.overruns++;
+                stats.lastThinkMs = message.elapsed;
+                break;
+            case 'error': {
+                const error = { key: message.key, params: message.message ? { message: message.message } : undefined };
+                if (message.fatal) {
+                    crash(error);
+                } else {
+                    stats.errors++;
+                    stats.lastError = error;
+                }
+                break;
+            }
+        }
+    };
+    worker.onerror = (e) => {
+        e.preventDefault();
+        crash({ key: 'script.error.load', params: { message: e.message || 'Worker error' } });
+    };
+
+    const load: ScriptHostMessage = { type: 'load', source, budgetMs };
+    worker.postMessage(load);
+
+    const update = (tick: number, observe: () => ScriptObservation) => {
+        if (stats.status === 'CRASHED') return;
+        const now = performance.now();
+        if (pendingSince !== null) {
+            const timeout = stats.status === 'LOADING' ? SCRIPT_LOAD_TIMEOUT_MS : SCRIPT_WATCHDOG_MS;
+            if (now - pendingSince > timeout) crash({ key: 'script.error.timeout' });
+            return;
+        }
+        const request: ScriptHostMessage = { type: 'think', tick, observation: observe() };
+        worker.postMessage(request);
+        pendingSince = now;
+    };
+
+    return {
+        update,
+        getCommand: () => command,
+        getStats: () => ({ ...stats }),
+        terminate: () => {
+            stats.status = 'CRASHED';
+            worker.terminate();
+        }
+    };
+};
@@ -0,0 +1,6 @@
+export { buildScriptObservation, toScriptInput } from './observation';
+export type { ScriptCommand, ScriptObservation, ScriptPlayerView, ScriptSelfView } from './observation';
+export { createScriptBot, SCRIPT_TICK_BUDGET_MS } from './host';
+export type { ScriptBot, ScriptBotStats, ScriptBotStatus, ScriptError, ScriptHostMessage, ScriptWorkerMessage } from './host';
+export { EXAMPLE_SCRIPT, createScriptId, loadScripts, saveScripts } from './library';
+export type { BotScript } from './library';
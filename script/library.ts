@@ -0,0 +1,87 @@
+/**
+ * 本地保存的机器人脚本 (localStorage)
+ *
+ * 内置的示例脚本总在列表最前面，不能修改或删除；编辑时先复制一份。
+ */
+import { STORAGE_KEYS, loadJSON, saveJSON } from '../storage';
+
+export interface BotScript {
+    id: string;
+    name: string;
+    source: string;
+    builtIn?: boolean;
+}
+
+export const EXAMPLE_SCRIPT: BotScript = {
+    id: 'example',
+    name: 'kite.js',
+    builtIn: true,
+    source: `// Script bot for Realm of Balls.
+// think(obs) runs once per simulation tick (60 per second) and must return within 5 ms,
+// otherwise the result is dropped and the previous command stays active.
+//
+// obs: { tick, time, map, self, allies, enemies, drones, projectiles, dangerZones, obstacles }
+//   positions are world coordinates, cooldowns are in seconds.
+//   enemies only contains what the built-in AI could see (stealthed balls within 200px).
+// return: { move: { x, y }, aim: { x, y }, primary, secondary, ultimate, toggleMode }
+//   move components are -1..1; aim is a world position; omitted buttons are released.
+
+const PREFERRED_RANGE = 260;
+
+const dist = (a, b) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const normalize = (x, y) => {
+    const len = Math.hypot(x, y) || 1;
+    return { x: x / len, y: y / len };
+};
+
+// Circle hazards we are standing in (magma pools, scooper warnings)
+const insideHazard = (obs) => obs.dangerZones.find(zone =>
+    zone.type === 'CIRCLE' && zone.weight > 0 && dist(zone.center, obs.self.pos) < zone.radius);
+
+export function think(obs) {
+    const { self, enemies, map } = obs;
+    const target = [...enemies].sort((a, b) => dist(a.pos, self.pos) - dist(b.pos, self.pos))[0];
+
+    if (!target) {
+        return { move: normalize(map.width / 2 - self.pos.x, map.height / 2 - self.pos.y) };
+    }
+
+    const dx = target.pos.x - self.pos.x;
+    const dy = target.pos.y - self.pos.y;
+    const d = Math.hypot(dx, dy);
+
+    // Close in when far, back off when too close, circle the target otherwise
+    let move = d > PREFERRED_RANGE + 60 ? normalize(dx, dy)
+        : d < PREFERRED_RANGE - 60 ? normalize(-dx, -dy)
+        : normalize(-dy, dx);
+
+    const hazard = insideHazard(obs);
+    if (hazard) move = normalize(self.pos.x - hazard.center.x, self.pos.y - hazard.center.y);
+
+    // Lead the shot a little
+    const aim = { x: target.pos.x + target.vel.x * 8, y: target.pos.y + target.vel.y * 8 };
+
+    return {
+        move,
+        aim,
+        primary: d < 550,
+        secondary: self.secondarySkillCooldown <= 0 && d < 320,
+        ultimate: self.skillCooldown <= 0 && d < 400
+    };
+}
+`
+};
+
+export const loadScripts = (): BotScript[] => {
+    const saved = loadJSON<BotScript[]>(STORAGE_KEYS.BOT_SCRIPTS);
+    const valid = Array.isArray(saved)
+        ? saved.filter(s => s && typeof s.id === 'string' && typeof s.name === 'string' && typeof s.source === 'string' && !s.builtIn)
+        : [];
+    return [EXAMPLE_SCRIPT, ...valid];
+};
+
+export const saveScripts = (scripts: BotScript[]) =>
+    saveJSON(STORAGE_KEYS.BOT_SCRIPTS, scripts.filter(s => !s.builtIn));
+
+export const createScriptId = () => `script_${Date.now().toString(36)}_${Math.floor(Math.random() * 0xffff).toString(36)}`;
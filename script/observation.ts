@@ -0,0 +1,158 @@
+/**
+ * 脚本机器人的观察与指令
+ *
+ * 观察是可序列化的普通对象 (世界坐标，时间单位为秒)，每个模拟步发给脚本一次。
+ * 敌人一律取自 engine.getEnemies，与内置 AI 的可见性规则相同 (隐身者只在 200px 内可见)，
+ * 脚本拿不到比 handleAI 更多的信息。
+ */
+import type { DangerZone, Drone, Obstacle, PlayerInput, PlayerState, Vector2 } from '../types';
+import { MAP_SIZE, SIM_CONFIG } from '../constants';
+import * as Utils from '../utils';
+import type { Engine } from '../engine';
+
+export interface ScriptPlayerView {
+    id: string;
+    type: PlayerState['type'];
+    teamId: number;
+    pos: Vector2;
+    vel: Vector2;
+    radius: number;
+    hp: number;
+    maxHp: number;
+    aimAngle: number;
+    // 处于眩晕、冰冻等硬控中
+    controlled: boolean;
+    // 正在蓄力 (悟空蓄力、猫猫飞扑、阿瓦达)
+    charging: boolean;
+}
+
+export interface ScriptSelfView extends ScriptPlayerView {
+    skillCooldown: number;
+    secondarySkillCooldown: number;
+    attackCooldown: number;
+    silenced: boolean;
+    // 角色专属资源 (不适用的为 undefined)
+    fuel?: number;
+    maxFuel?: number;
+    isBurnedOut?: boolean;
+    artilleryAmmo?: number;
+    lmgAmmo?: number;
+    tankMode?: PlayerState['tankMode'];
+    lives?: number;
+    mp?: number;
+    maxMp?: number;
+    magicForm?: PlayerState['magicForm'];
+    wukongChargeState?: PlayerState['wukongChargeState'];
+}
+
+export interface ScriptObservation {
+    tick: number;
+    // 对局时间 (秒)
+    time: number;
+    map: { width: number, height: number };
+    self: ScriptSelfView;
+    // 队友 (含已阵亡的)
+    allies: (ScriptPlayerView & { isDead: boolean })[];
+    // 可见的敌方玩家与无人机
+    enemies: ScriptPlayerView[];
+    drones: { id: string, pos: Vector2, vel: Vector2, hp: number }[];
+    projectiles: { pos: Vector2, vel: Vector2, radius: number, hostile: boolean, type: string }[];
+    dangerZones: DangerZone[];
+    obstacles: Obstacle[];
+}
+
+// 脚本返回的指令；缺省的字段视为未操作，瞄准缺省为当前朝向
+export interface ScriptCommand {
+    move?: Vector2;
+    // 瞄准点 (世界坐标)
+    aim?: Vector2;
+    primary?: boolean;
+    secondary?: boolean;
+    ultimate?: boolean;
+    toggleMode?: boolean;
+}
+
+const copy = (v: Vector2): Vector2 => ({ x: v.x, y: v.y });
+
+const toView = (engine: Engine, p: PlayerState): ScriptPlayerView => ({
+    id: p.id,
+    type: p.type,
+    teamId: p.teamId,
+    pos: copy(p.pos),
+    vel: copy(p.vel),
+    radius: p.radius,
+    hp: p.hp,
+    maxHp: p.maxHp,
+    aimAngle: p.aimAngle,
+    controlled: engine.isControlled(p),
+    charging: p.wukongChargeState !== 'NONE' || !!p.catIsCharging || !!p.avadaCharging
+});
+
+const isDrone = (e: PlayerState | Drone): e is Drone => 'ownerId' in e;
+
+export const buildScriptObservation = (engine: Engine, self: PlayerState): ScriptObservation => {
+    const state = engine.getState();
+    const visible = engine.getEnemies(self);
+    const teamOf = (id: string) => state.players.find(p => p.id === id)?.teamId;
+
+    return {
+        tick: state.tick,
+        time: state.tick * SIM_CONFIG.FIXED_DT,
+        map: { width: MAP_SIZE.width, height: MAP_SIZE.height },
+        self: {
+            ...toView(engine, self),
+            skillCooldown: self.skillCooldown,
+            secondarySkillCooldown: self.secondarySkillCooldown,
+            attackCooldown: self.attackCooldown,
+            silenced: self.silenceTimer > 0,
+            fuel: self.maxFuel ? self.fuel : undefined,
+            maxFuel: self.maxFuel || undefined,
+            isBurnedOut: self.maxFuel ? self.isBurnedOut : undefined,
+            artilleryAmmo: self.maxArtilleryAmmo ? self.artilleryAmmo : undefined,
+            lmgAmmo: self.maxLmgAmmo ? self.lmgAmmo : undefined,
+            tankMode: self.maxArtilleryAmmo ? self.tankMode : undefined,
+            lives: self.lives,
+            mp: self.mp,
+            maxMp: self.maxMp,
+            magicForm: self.magicForm,
+            wukongChargeState: self.wukongMaxCharge ? self.wukongChargeState : undefined
+        },
+        allies: state.players
+            .filter(p => p.id !== self.id && p.teamId === self.teamId)
+            .map(p => ({ ...toView(engine, p), isDead: p.isDead })),
+        enemies: visible.filter((e): e is PlayerState => !isDrone(e)).map(p => toView(engine, p)),
+        drones: visible.filter(isDrone).map(d => ({ id: d.id, pos: copy(d.pos), vel: copy(d.vel), hp: d.hp })),
+        projectiles: state.projectiles.map(proj => ({
+            pos: copy(proj.pos),
+            vel: copy(proj.vel),
+            radius: proj.radius,
+            hostile: teamOf(proj.ownerId) !== self.teamId,
+            type: proj.projectileType
+        })),
+        dangerZones: structuredClone(engine.getDangerZones(self)),
+        obstacles: state.obstacles.map(obs => ({ ...obs }))
+    };
+};
+
+const finite = (value: unknown, fallback: number) => typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+
+// 脚本的返回值不可信：逐字段校验后转换为引擎输入
+export const toScriptInput = (p: PlayerState, command: ScriptCommand | null): PlayerInput => {
+    const move = command?.move;
+    const moveX = Utils.clamp(finite(move?.x, 0), -1, 1);
+    const moveY = Utils.clamp(finite(move?.y, 0), -1, 1);
+    const length = Math.hypot(moveX, moveY);
+    const aim = command?.aim;
+    return {
+        move: length > 1 ? { x: moveX / length, y: moveY / length } : { x: moveX, y: moveY },
+        // 与键鼠输入一样取整：录像按取整后的瞄准点编码，否则回放与原局不一致
+        aim: {
+            x: Math.round(finite(aim?.x, p.pos.x + Math.cos(p.aimAngle) * 100)),
+            y: Math.round(finite(aim?.y, p.pos.y + Math.sin(p.aimAngle) * 100))
+        },
+        primary: command?.primary === true,
+        secondary: command?.secondary === true,
+        ultimate: command?.ultimate === true,
+        toggleMode: command?.toggleMode === true
+    };
+};
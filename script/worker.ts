@@ -0,0 +1,114 @@
+/**
+ * 脚本机器人的沙箱 Worker
+ *
+ * 加载用户脚本前移除网络、存储与动态求值能力，并拒绝含 import 的源码，
+ * 脚本只能通过 think(observation) 的返回值影响对局。
+ * 每次 think 的耗时超过预算时丢弃本次结果 (主线程沿用上一条指令)。
+ */
+import type { ScriptCommand } from './observation';
+import type { ScriptHostMessage, ScriptWorkerMessage } from './host';
+
+type ThinkFn = (observation: unknown) => ScriptCommand | Promise<ScriptCommand>;
+
+// 项目的 lib 只包含 DOM，这里只声明用到的 Worker 全局接口
+const scope = self as unknown as Record<string, unknown> & {
+    onmessage: ((e: MessageEvent<ScriptHostMessage>) => void) | null;
+    postMessage: (message: ScriptWorkerMessage) => void;
+};
+
+const post = scope.postMessage.bind(scope);
+
+const BLOCKED_GLOBALS = [
+    'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'WebTransport', 'BroadcastChannel',
+    'importScripts', 'indexedDB', 'caches', 'Worker', 'SharedWorker', 'eval', 'Function', 'postMessage'
+];
+
+// 定时器接受字符串形式的回调 (等同 eval)，只放行函数
+const GUARDED_TIMERS = ['setTimeout', 'setInterval'];
+
+// 源码中的 import 声明与 import() 都会绕过上面的限制。
+// 关键字不能用转义写出，而 eval、Function 与各类函数构造器、字符串形式的定时器都在加载前被禁用
+// (见 lockDown)，源码之外无法拼出新的代码，所以只要源码任何位置 (含注释与字符串) 都没有独立的
+// import 单词即可保证无法导入；不区分上下文，避免 import/**/( 之类插入注释或换行的写法绕过。
+// 紧跟在 . 之后的只能是属性名 (如 obj.import)，放行。
+const IMPORT_PATTERN = /(^|[^.\w$])import(?![\w$])/;
+
+const lockDown = () => {
+    BLOCKED_GLOBALS.forEach(name => {
+        try {
+            Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false });
+        } catch {
+            // 不可配置的全局在部分浏览器中无法覆盖，忽略
+        }
+    });
+    // 各类函数构造器同样可以动态求值 (全局 Function 已在上面移除，这里封住 fn.constructor 这条路)
+    [function () { }, async function () { }, function* () { }, async function* () { }].forEach(fn => {
+        Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined, writable: false, configurable: false });
+    });
+    // 定时器必须可以覆盖：失败时抛出，脚本不会被加载
+    GUARDED_TIMERS.forEach(name => {
+        const timer = scope[name] as (handler: unknown, ...args: unknown[]) => number;
+        Object.defineProperty(scope, name, {
+            value: (handler: unknown, ...args: unknown[]) => {
+                if (typeof handler !== 'function') throw new TypeError(`${name} only accepts a function callback`);
+                return timer.call(scope, handler, ...args);
+            },
+            writable: false,
+            configurable: false
+        });
+    });
+};
+
+let think: ThinkFn | null = null;
+let budgetMs = 0;
+
+const errorMessage = (e: unknown) => e instanceof Error ? `${e.name}: ${e.message}` : String(e);
+
+const load = async (source: string) => {
+    if (IMPORT_PATTERN.test(source)) {
+        post({ type: 'error', fatal: true, key: 'script.error.import' });
+        return;
+    }
+    const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+    try {
+        lockDown();
+        const module = await import(/* @vite-ignore */ url);
+        const fn = module.think ?? module.default?.think ?? module.default;
+        if (typeof fn !== 'function') {
+            post({ type: 'error', fatal: true, key: 'script.error.noThink' });
+            return;
+        }
+        think = fn;
+        post({ type: 'ready' });
+    } catch (e) {
+        post({ type: 'error', fatal: true, key: 'script.error.load', message: errorMessage(e) });
+    } finally {
+        URL.revokeObjectURL(url);
+    }
+};
+
+const runThink = async (tick: number, observation: unknown) => {
+    const startedAt = performance.now();
+    try {
+        const command = await think!(observation);
+        const elapsed = performance.now() - startedAt;
+        if (elapsed > budgetMs) {
+            post({ type: 'overrun', tick, elapsed });
+            return;
+        }
+        // 只回传可序列化的数据
+        post({ type: 'command', tick, elapsed, command: JSON.parse(JSON.stringify(command ?? null)) });
+    } catch (e) {
+        post({ type: 'error', fatal: false, key: 'script.error.think', message: errorMessage(e) });
+    }
+};
+
+scope.onmessage = (e) => {
+    const message = e.data;
+    if (message.type === 'load') {
+        budgetMs = message.budgetMs;
+        load(message.source);
+    } else if (message.type === 'think' && think) {
+        runThink(message.tick, message.observation);
+    }
+};
@@ -0,0 +1,70 @@
+/**
+ * 联机对战服务器 (Node)
+ *
+ * 用法: npm run server (端口取 PORT 环境变量，默认 8787)
+ * 先连接的玩家进入等待队列，凑满两人即开一局 1v1，每局由一个 Room 权威模拟。
+ */
+import { WebSocketServer } from 'ws';
+import { DEFAULT_SERVER_PORT, NET_PROTOCOL_VERSION, ONLINE_CHARACTERS } from '../net';
+import type { ServerMessage } from '../net';
+import { createRoom, parseClientMessage } from './room';
+import type { RoomClient } from './room';
+
+const port = Number(process.env.PORT) || DEFAULT_SERVER_PORT;
+const server = new WebSocketServer({ port });
+
+let waiting: RoomClient | null = null;
+let activeRooms = 0;
+
+const reject = (socket: RoomClient['socket'], message: Extract<ServerMessage, { type: 'rejected' }>) => {
+    socket.send(JSON.stringify(message));
+    socket.close();
+};
+
+server.on('connection', (socket) => {
+    // 第一条消息必须是 join，之后的消息交给房间处理
+    // 连接异常 (如客户端发送了非法帧) 只关闭该连接，未监听的 error 事件会使整个进程退出
+    socket.on('error', (err) => {
+        console.warn(`[server] socket error: ${err.message}`);
+        socket.terminate();
+    });
+
+    socket.once('message', (data) => {
+        const message = parseClientMessage(data);
+        if (!message || message.type !== 'join') {
+            socket.close();
+            return;
+        }
+        if (message.version !== NET_PROTOCOL_VERSION) {
+            reject(socket, { type: 'rejected', reason: 'online.error.version', params: { version: NET_PROTOCOL_VERSION } });
+            return;
+        }
+        if (!ONLINE_CHARACTERS.includes(message.playerType)) {
+            reject(socket, { type: 'rejected', reason: 'online.error.character' });
+            return;
+        }
+
+        const client: RoomClient = { socket, playerType: message.playerType };
+        if (waiting && waiting.socket.readyState === waiting.socket.OPEN) {
+            const opponent = waiting;
+            waiting = null;
+            activeRooms++;
+            console.log(`[server] match started (${opponent.playerType} vs ${client.playerType}), rooms: ${activeRooms}`);
+            createRoom([opponent, client], () => {
+                activeRooms--;
+                console.log(`[server] match closed, rooms: ${activeRooms}`);
+            });
+        } else {
+            waiting = client;
+            socket.send(JSON.stringify({ type: 'waiting' } satisfies ServerMessage));
+        }
+    });
+
+    socket.on('close', () => {
+        if (waiting?.socket === socket) waiting = null;
+    });
+});
+
+server.on('listening', () => {
+    console.log(`[server] listening on ws://localhost:${port}`);
+});
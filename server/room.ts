@@ -0,0 +1,157 @@
+/**
+ * 对战房间：一局权威模拟
+ *
+ * 服务器按固定步长推进引擎，每步为每名玩家消耗一个缓存的输入 (缓存为空时沿用上一个)，
+ * 并按 SNAPSHOT_INTERVAL 广播同步状态。对局结束或有人断线时关闭房间。
+ */
+import type { WebSocket } from 'ws';
+import type { CharacterType, GameConfig, InputFrame, PlayerInput } from '../types';
+import { SIM_CONFIG } from '../constants';
+import { createEngine, getConfigPlayerId, NEUTRAL_INPUT, SILENT_AUDIO } from '../engine';
+import { createNetSnapshot, diffNetSnapshot, isRecord, KEYFRAME_INTERVAL, MAX_INPUT_BUFFER, sanitizeInput, SNAPSHOT_INTERVAL } from '../net';
+import type { ClientMessage, NetSnapshot, ServerMessage } from '../net';
+
+export interface RoomClient {
+    socket: WebSocket;
+    playerType: CharacterType;
+}
+
+interface Slot {
+    client: RoomClient;
+    playerId: string;
+    queue: { seq: number, input: PlayerInput }[];
+    input: PlayerInput;
+    ack: number;
+}
+
+// 对局结束后保留连接的时间，确保最终快照送达
+const CLOSE_DELAY_MS = 1000;
+// 单次定时器回调最多追赶的步数 (进程卡顿后避免长时间阻塞)
+const MAX_CATCH_UP_STEPS = 10;
+
+const send = (socket: WebSocket, message: ServerMessage) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+};
+
+// 客户端数据不可信：无法解析或不是对象 (如 `null`、数字) 的消息一律丢弃
+export const parseClientMessage = (data: { toString: () => string }): ClientMessage | null => {
+    try {
+        const message: unknown = JSON.parse(data.toString());
+        if (!isRecord(message) || typeof message.type !== 'string') return null;
+        return message as ClientMessage;
+    } catch {
+        return null;
+    }
+};
+
+export const createRoom = (clients: RoomClient[], onClose: () => void) => {
+    // 1v1：每名玩家一队，席位 0 在服务器上作为主视角 (仅影响内部的结束计时)
+    const config: GameConfig = {
+        mode: 'FFA',
+        players: clients.map((c, i) => ({ type: c.playerType, teamId: i, isBot: false, isPlayer: i === 0 }))
+    };
+    const seed = Math.floor(Math.random() * 0x100000000) >>> 0;
+    const engine = createEngine({ playerType: clients[0].playerType, customConfig: config, seed, audio: SILENT_AUDIO });
+
+    const slots: Slot[] = clients.map((client, i) => {
+        const playerId = getConfigPlayerId(config.players[i], i);
+        const p = engine.getState().players.find(pl => pl.id === playerId)!;
+        return { client, playerId, queue: [], input: { ...NEUTRAL_INPUT, aim: { x: Math.round(p.pos.x), y: Math.round(p.pos.y) } }, ack: 0 };
+    });
+
+    let closed = false;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let lastSent: NetSnapshot | null = null;
+
+    const currentInputs = (): InputFrame => Object.fromEntries(slots.map(s => [s.playerId, s.input]));
+
+    const takeSnapshot = () => createNetSnapshot(
+        engine.getState(),
+        currentInputs(),
+        Object.fromEntries(slots.map(s => [s.playerId, s.ack]))
+    );
+
+    const broadcast = (message: ServerMessage) => slots.forEach(s => send(s.client.socket, message));
+
+    const broadcastState = () => {
+        const snapshot = takeSnapshot();
+        if (!lastSent || snapshot.tick % KEYFRAME_INTERVAL === 0) {
+            broadcast({ type: 'snapshot', snapshot });
+        } else {
+            broadcast({ type: 'delta', delta: diffNetSnapshot(lastSent, snapshot) });
+        }
+        lastSent = snapshot;
+    };
+
+    const close = () => {
+        if (closed) return;
+        closed = true;
+        if (timer) clearInterval(timer);
+        setTimeout(() => slots.forEach(s => s.client.socket.close()), CLOSE_DELAY_MS);
+        onClose();
+    };
+
+    const step = () => {
+        slots.forEach(s => {
+            const next = s.queue.shift();
+            if (next) {
+                s.input = next.input;
+                s.ack = next.seq;
+            }
+        });
+        engine.step(currentInputs());
+
+        const state = engine.getState();
+        if (state.gameStatus !== 'PLAYING') {
+            broadcast({ type: 'snapshot', snapshot: takeSnapshot() });
+            close();
+        } else if (state.tick % SNAPSHOT_INTERVAL === 0) {
+            broadcastState();
+        }
+    };
+
+    slots.forEach(slot => {
+        const { socket } = slot.client;
+        socket.on('message', (data) => {
+            const message = parseClientMessage(data);
+            if (!message || message.type !== 'input' || typeof message.seq !== 'number' || message.seq <= slot.ack) return;
+            const input = sanitizeInput(message.input);
+            if (!input) return;
+            slot.queue.push({ seq: message.seq, input });
+            if (slot.queue.length > MAX_INPUT_BUFFER) slot.queue.splice(0, slot.queue.length - MAX_INPUT_BUFFER);
+        });
+        socket.on('close', () => {
+            if (closed) return;
+            slots.forEach(s => {
+                if (s !== slot) send(s.client.socket, { type: 'opponentLeft' });
+            });
+            close();
+        });
+    });
+
+    slots.forEach(s => send(s.client.socket, {
+        type: 'start',
+        playerId: s.playerId,
+        seed,
+        config,
+        snapshot: takeSnapshot()
+    }));
+
+    // 定时器精度有限，用真实时间累积后按固定步长推进
+    let lastTime = performance.now();
+    let accumulator = 0;
+    timer = setInterval(() => {
+        const now = performance.now();
+        accumulator += (now - lastTime) / 1000;
+        lastTime = now;
+        let steps = 0;
+        while (accumulator >= SIM_CONFIG.FIXED_DT && !closed) {
+            step();
+            accumulator -= SIM_CONFIG.FIXED_DT;
+            if (++steps >= MAX_CATCH_UP_STEPS) {
+                accumulator = 0;
+                break;
+            }
+        }
+    }, (SIM_CONFIG.FIXED_DT * 1000) / 2);
+};
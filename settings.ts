@@ -0,0 +1,47 @@
+// 游戏设置 (音量 / 画面 / 镜头 / 语言)：持久化到 localStorage，修改后立即通知订阅者
+import { STORAGE_KEYS, loadJSON, saveJSON } from './storage';
+import type { Locale } from './i18n';
+
+export interface GameSettings {
+    masterVolume: number;    // 0 ~ 1
+    sfxVolume: number;       // 0 ~ 1，战斗音效
+    uiVolume: number;        // 0 ~ 1，界面提示音
+    screenShake: number;     // 屏幕震动强度倍率，0 为关闭
+    particleDensity: number; // 0 ~ 1，实际绘制的粒子比例 (仅影响渲染)
+    floatingText: boolean;   // 是否显示伤害数字 / 状态飘字
+    cameraLookAhead: number; // 镜头向鼠标方向前探的倍率，0 为固定跟随
+    language: Locale;
+}
+
+export const DEFAULT_SETTINGS: GameSettings = {
+    masterVolume: 1,
+    sfxVolume: 1,
+    uiVolume: 1,
+    screenShake: 1,
+    particleDensity: 1,
+    floatingText: true,
+    cameraLookAhead: 1,
+    language: 'zh-CN',
+};
+
+type SettingsListener = (settings: GameSettings) => void;
+
+let current: GameSettings = {
+    ...DEFAULT_SETTINGS,
+    ...(loadJSON<Partial<GameSettings>>(STORAGE_KEYS.SETTINGS) || {})
+};
+const listeners = new Set<SettingsListener>();
+
+export const getSettings = (): GameSettings => current;
+
+export const updateSettings = (patch: Partial<GameSettings>) => {
+    current = { ...current, ...patch };
+    saveJSON(STORAGE_KEYS.SETTINGS, current);
+    listeners.forEach(listener => listener(current));
+};
+
+// 返回取消订阅函数
+export const subscribeSettings = (listener: SettingsListener) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
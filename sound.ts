@@ -1,9 +1,24 @@
 
 
+// 分类总线：所有音效最终汇入 masterGain，由设置中的音量分别控制
+type SoundBus = 'SFX' | 'UI';
+
+export interface SoundVolumes {
+    master: number;
+    sfx: number;
+    ui: number;
+}
+
+// 主音量为 1 时实际输出的增益
+const MASTER_GAIN_BASE = 0.25;
+
 class SoundManager {
     private ctx: AudioContext | null = null;
     private masterGain: GainNode | null = null;
+    private sfxGain: GainNode | null = null;
+    private uiGain: GainNode | null = null;
     private initialized = false;
+    private volumes: SoundVolumes = { master: 1, sfx: 1, ui: 1 };
 
     init() {
         if (this.initialized && this.ctx?.state === 'running') return;
@@ -13,8 +28,12 @@ class SoundManager {
             if (AudioContextClass) {
                 this.ctx = new AudioContextClass();
                 this.masterGain = this.ctx.createGain();
-                this.masterGain.gain.value = 0.25; // Master volume
                 this.masterGain.connect(this.ctx.destination);
+                this.sfxGain = this.ctx.createGain();
+                this.sfxGain.connect(this.masterGain);
+                this.uiGain = this.ctx.createGain();
+                this.uiGain.connect(this.masterGain);
+                this.applyVolumes();
                 this.initialized = true;
 
                 // Resume if suspended (browser policy)
@@ -27,8 +46,26 @@ class SoundManager {
         }
     }
 
-    private createOsc(type: OscillatorType, freq: number, duration: number, vol = 1, slideTo?: number) {
-        if (!this.ctx || !this.masterGain) return;
+    // 更新音量 (0..1)，AudioContext 尚未创建时会在 init 中生效
+    setVolumes(volumes: SoundVolumes) {
+        this.volumes = { ...volumes };
+        this.applyVolumes();
+    }
+
+    private applyVolumes() {
+        if (!this.masterGain || !this.sfxGain || !this.uiGain) return;
+        this.masterGain.gain.value = MASTER_GAIN_BASE * this.volumes.master;
+        this.sfxGain.gain.value = this.volumes.sfx;
+        this.uiGain.gain.value = this.volumes.ui;
+    }
+
+    private getBus(bus: SoundBus): GainNode | null {
+        return bus === 'UI' ? this.uiGain : this.sfxGain;
+    }
+
+    private createOsc(type: OscillatorType, freq: number, duration: number, vol = 1, slideTo?: number, bus: SoundBus = 'SFX') {
+        const output = this.getBus(bus);
+        if (!this.ctx || !output) return;
         const t = this.ctx.currentTime;
 
         const osc = this.ctx.createOscillator();
@@ -44,7 +81,7 @@ class SoundManager {
         gain.gain.exponentialRampToValueAtTime(0.001, t + duration);
 
         osc.connect(gain);
-        gain.connect(this.masterGain);
+        gain.connect(output);
 
         osc.start();
         osc.stop(t + duration);
@@ -68,7 +105,7 @@ class SoundManager {
     }
 
     private createNoise(duration: number, vol = 1, filterFreq?: number, filterType: BiquadFilterType = 'lowpass') {
-        if (!this.ctx || !this.masterGain) return;
+        if (!this.ctx || !this.sfxGain) return;
 
         const buffer = this.getNoiseBuffer();
         if (!buffer) return;
@@ -93,7 +130,7 @@ class SoundManager {
             noise.connect(gain);
         }
 
-        gain.connect(this.masterGain);
+        gain.connect(this.sfxGain);
 
         // Randomize start position to prevent "phasing" artifacts if multiple play at once
         const randomOffset = Math.random() * buffer.duration;
@@ -241,9 +278,9 @@ class SoundManager {
         if (!this.ctx) return;
 
         if (type === 'CLICK') {
-            this.createOsc('sine', 600, 0.05, 0.1);
+            this.createOsc('sine', 600, 0.05, 0.1, undefined, 'UI');
         } else if (type === 'START') {
-            this.createOsc('triangle', 400, 0.3, 0.2, 800);
+            this.createOsc('triangle', 400, 0.3, 0.2, 800, 'UI');
         } else if (type === 'VICTORY') {
             const t = this.ctx.currentTime;
             [440, 554, 659, 880].forEach((freq, i) => {
@@ -253,7 +290,7 @@ class SoundManager {
                 gain.gain.setValueAtTime(0.2, t + i * 0.1);
                 gain.gain.exponentialRampToValueAtTime(0.001, t + i * 0.1 + 0.5);
                 osc.connect(gain);
-                gain.connect(this.masterGain!);
+                gain.connect(this.uiGain!);
                 osc.start(t + i * 0.1);
                 osc.stop(t + i * 0.1 + 0.5);
             });
@@ -266,17 +303,17 @@ class SoundManager {
                 gain.gain.setValueAtTime(0.2, t + i * 0.2);
                 gain.gain.exponentialRampToValueAtTime(0.001, t + i * 0.2 + 0.6);
                 osc.connect(gain);
-                gain.connect(this.masterGain!);
+                gain.connect(this.uiGain!);
                 osc.start(t + i * 0.2);
                 osc.stop(t + i * 0.2 + 0.6);
             });
         } else if (type === 'ERROR') {
             // 短促的错误提示音：两个降调的音符
-            this.createOsc('square', 300, 0.1, 0.15, 200);
-            setTimeout(() => this.createOsc('square', 200, 0.15, 0.15, 100), 100);
+            this.createOsc('square', 300, 0.1, 0.15, 200, 'UI');
+            setTimeout(() => this.createOsc('square', 200, 0.15, 0.15, 100, 'UI'), 100);
         } else if (type === 'HOVER') {
             // 轻微的悬停音效
-            this.createOsc('sine', 800, 0.03, 0.05);
+            this.createOsc('sine', 800, 0.03, 0.05, undefined, 'UI');
         }
     }
 }
@@ -0,0 +1,46 @@
+// 本地持久化 (localStorage) 与文件导出的小工具
+
+export const STORAGE_KEYS = {
+    LAST_REPLAY: 'rob_last_replay',
+    GAMEPAD_OPTIONS: 'rob_gamepad_options',
+    KEY_BINDINGS: 'rob_key_bindings',
+    SETTINGS: 'rob_settings',
+    ONLINE_SERVER: 'rob_online_server',
+    BOT_SCRIPTS: 'rob_bot_scripts',
+};
+
+export const loadJSON = <T>(key: string): T | null => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : null;
+    } catch (e) {
+        console.warn(`Failed to load "${key}" from storage`, e);
+        return null;
+    }
+};
+
+export const saveJSON = (key: string, value: unknown): boolean => {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+        return true;
+    } catch (e) {
+        // 配额不足或隐私模式
+        console.warn(`Failed to save "${key}" to storage`, e);
+        return false;
+    }
+};
+
+// 以 JSON 文件形式下载
+export const downloadJSON = (filename: string, data: unknown) => {
+    const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+// 读取用户选择的 JSON 文件
+export const readJSONFile = (file: File): Promise<unknown> =>
+    file.text().then(text => JSON.parse(text));
@@ -1,3 +1,5 @@
+import type { MessageKey, MessageParams } from './i18n';
+
 export enum CharacterType {
   PYRO = 'PYRO',
   TANK = 'TANK',
@@ -121,6 +123,7 @@ export interface PlayerState extends GameEntity {
   wukongLastAttackAngle: number; // Store aim angle at moment of attack for stable animation rendering
   wukongUltKnockbackCharge?: number; // [New] Track if knocked back by Wukong Ult (>= 0.8 trigger)
   wukongUltSourceDamage?: number; // [New] Store original damage for bonus calc
+  wukongUltSourceId?: string; // 撞墙追加伤害记在出手的悟空名下
 
   // Cat Resources
   lives?: number; // 9 Lives mechanism
@@ -160,6 +163,7 @@ export interface PlayerState extends GameEntity {
   secondarySkillCooldown: number; // Right click skill (Pyro Detonate)
   secondarySkillMaxCooldown: number;
   attackCooldown: number;
+  abilityWindup?: { id: string, target: Vector2, timer: number }; // [Ability] 前摇中的技能：计时结束后才施放
 
   // Status Effects
   stunTimer: number;
@@ -189,11 +193,11 @@ export interface PlayerState extends GameEntity {
   flameExposure: number;
   bufferedInput: string;
   // 飘字系统专用字段
-  statusLabel?: string;
+  statusLabel?: MessageKey;
   statusLabelColor?: string; // [New] Override color for floating text
   statusLabelPos?: Vector2; // [New] Spawning position
-  statusQueue?: { text: string; color?: string; pos?: Vector2 }[]; // [New] Queue for multiple indicators
-  pendingStatusQueue?: { text: string; color?: string; pos?: Vector2 }[]; // [New] Buffer for floating texts during forced movement
+  statusQueue?: { text: MessageKey; color?: string; pos?: Vector2 }[]; // [New] Queue for multiple indicators
+  pendingStatusQueue?: { text: MessageKey; color?: string; pos?: Vector2 }[]; // [New] Buffer for floating texts during forced movement
   statusHistory: string[]; // [New] Track status application order for color priority
   aiSkipSkills?: boolean;
   stealth: boolean;
@@ -235,8 +239,27 @@ export interface PlayerState extends GameEntity {
   aiTacticalRetreatDir?: Vector2;
   aiTacticalRetreatTimer?: number;
   forcedMoveTimer?: number; // [New] Track if being knocked back
+  // [Path] 绕障路径：剩余路点、规划时的目标位置与障碍物签名、距下次重新规划的时间
+  aiPath?: Vector2[];
+  aiPathGoal?: Vector2;
+  aiPathSignature?: string;
+  aiPathTimer?: number;
   aimLockTimer?: number; // [New] Lock aim angle for auto-aim skills
 
+  // [Difficulty] AI 难度 (缺省为 NORMAL)
+  aiDifficulty?: AIDifficulty;
+  aiAimError?: number;          // 当前的瞄准偏差 (弧度)，定期重新抽取
+  aiAimErrorTimer?: number;
+  aiHazardReactTimer?: number;  // 察觉当前这段技能危险后经过的时间；无危险时为 undefined
+  aiWillDodge?: boolean;        // 本段危险是否闪避 (察觉时按难度判定一次)
+  aiSkillReadyTime?: number;    // 大招/副技能冷却结束后经过的时间
+  aiSecondaryReadyTime?: number;
+  aiSkillNoticeDelay?: number;  // 本轮冷却结束后察觉技能可用所需的时间 (reactionDelay + 随机误差)
+  aiSecondaryNoticeDelay?: number;
+
+  // [Training] 训练场中被击倒后原地复活的位置 (非训练模式下不设置)
+  trainingHome?: Vector2;
+
   // AI Movement Variance
   aiSeed?: number;
   aiPreferredDistOffset?: number; // +/- offset to optimal range
@@ -334,16 +357,116 @@ export interface GameState {
   gameStatus: 'PLAYING' | 'VICTORY' | 'DEFEAT' | 'PAUSED';
   timeScale: number; // Global time scale for bullet time
   globalFilter?: string; // CSS filter string for global visual effects
-  imageCache?: Record<string, HTMLImageElement>;
+
+  // Determinism: 随机种子、当前伪随机状态与模拟时钟 (毫秒)
+  seed: number;
+  rngState: number;
+  simTime: number;
+  tick: number; // 已执行的固定模拟步数
+  pendingActions: PendingAction[]; // 延时触发的动作 (替代 setTimeout)
+  winnerTeamId: number | null; // 对局结束时获胜队伍 (平局/未结束为 null)
+  teamBlackboards?: Record<number, TeamBlackboard>; // [Team] 人数 >= 2 的队伍的 AI 黑板
+  teamCommands?: Record<number, TeamCommand>; // [Command] 各队当前生效的指令 (每队最多一条，新指令覆盖旧的)
+  training?: TrainingSettings; // [Training] 训练场设置 (仅训练模式)
+  debugTimeScale?: number; // [Console] 开发者控制台设置的时间倍率，与子弹时间叠加
+}
+
+// [Training] 训练场：靶子是否自行移动，以及玩家的无限资源与冷却重置开关
+export type TrainingDummyMode = 'STATIONARY' | 'MOVING';
+
+export interface TrainingSettings {
+  dummyMode: TrainingDummyMode;
+  infiniteResources: boolean; // 燃料、弹药、MP 保持满值
+  resetCooldowns: boolean;    // 技能冷却立即结束
+}
+
+// [Command] 真人玩家对同队电脑玩家下达的指令
+export type TeamCommandType = 'ATTACK' | 'REGROUP' | 'HOLD' | 'RETREAT';
+
+export interface TeamCommand {
+  type: TeamCommandType;
+  issuerId: string;
+  pos: Vector2;      // 地面标记位置 (ATTACK 跟随目标，REGROUP 跟随下令者)
+  targetId?: string; // ATTACK 的目标
+  life: number;      // 剩余时间 (秒)
+  maxLife: number;
+}
+
+// [Team] 同队电脑玩家共享的战场信息，每个模拟步重新汇总
+export interface TeamBlackboard {
+  focusTargetId: string | null;  // 集火目标
+  focusTimer: number;            // 距下次重新评估集火目标的时间 (秒)
+  // 残血队友与威胁他的敌人，由 peelerId 负责回防
+  peel: { allyId: string, threatId: string, peelerId: string } | null;
+  // 队友技能的危险区域 (火焰、炮弹落点、蓄力突刺线)，电脑玩家避免挡在其中
+  allyHazards: { ownerId: string, zone: DangerZone }[];
+  // 队友的岩浆池，近战击退类角色尝试把敌人打进去
+  magmaPools: { ownerId: string, pos: Vector2, radius: number }[];
+  // 队友即将把敌人击退到的位置，火焰球可预先铺岩浆
+  knockbackSetups: { ownerId: string, enemyId: string, landing: Vector2 }[];
+}
+
+// 由模拟时钟驱动的延时动作，可序列化
+export interface PendingAction {
+  type: 'CAT_SCRATCH_ECHO' | 'AI_DETONATE_POOLS';
+  ownerId: string;
+  triggerTime: number; // simTime (ms)
 }
 
 export interface FloatingText {
   id: string;
   pos: Vector2;
-  text: string;
+  text: MessageKey; // 渲染时按当前语言解析
+  params?: MessageParams;
   color: string;
   size?: number;
   life: number;
   maxLife: number;
   velY: number;
-}
\ No newline at end of file
+}
+
+// 本地输入设备 (同屏多人时每个真人玩家占用一个)
+export type KeyboardSourceId = 'KEYBOARD_A' | 'KEYBOARD_B';
+export type GamepadSourceId = 'GAMEPAD_1' | 'GAMEPAD_2';
+export type InputSourceId = KeyboardSourceId | GamepadSourceId;
+
+// [Difficulty] 电脑玩家的难度档位
+export type AIDifficulty = 'EASY' | 'NORMAL' | 'HARD' | 'INSANE';
+
+export interface AIDifficultyProfile {
+  reactionDelay: number;   // 反应延迟 (秒)：察觉技能危险、判断自身冷却、追踪目标位置都滞后这么久
+  aimError: number;        // 瞄准偏差上限 (弧度)
+  aimLead: number;         // 按目标速度预判的提前量 (秒)
+  dodgeChance: number;     // 察觉技能危险后闪避的概率
+  comboRate: number;       // 连招 (熔岩引爆、阿瓦达等) 触发概率的倍率
+  resourceReserve: number; // 保留的燃料/MP 比例，避免打空过热
+  spacingVariance: number; // 走位距离随机偏移的倍率
+  cooldownNoise: number;   // 估算自身冷却的误差上限 (秒)：每次冷却结束后再随机滞后 0 ~ 该值才察觉技能可用
+}
+
+export interface GameConfig {
+  mode: 'FFA' | 'TEAM_2V2' | 'TEAM_3V3';
+  players: {
+    type: CharacterType;
+    teamId: number;
+    isBot: boolean;
+    isPlayer: boolean;      // 主玩家 (id 为 'player'，相机与主 HUD 跟随)
+    inputSource?: InputSourceId; // 真人玩家的输入设备
+    script?: string;        // [Script] 脚本机器人的源码 (isBot 为 false，输入由脚本产生)
+    difficulty?: AIDifficulty; // [Difficulty] 电脑玩家的难度 (缺省为 NORMAL)
+  }[];
+}
+
+// 单个玩家在一个模拟步内的输入指令 (与具体输入设备无关)
+export interface PlayerInput {
+  move: Vector2;      // 移动方向，各分量 -1 ~ 1 (摇杆输入时长度即推杆幅度)
+  aim: Vector2;       // 瞄准点 (世界坐标)
+  primary: boolean;   // 普攻 (鼠标左键)
+  secondary: boolean; // 副技能 (鼠标右键)
+  ultimate: boolean;  // 大招 (空格)
+  toggleMode: boolean; // 切换形态 (坦克重炮/机枪)
+  command?: TeamCommandType; // [Command] 按住的队伍指令键 (按下的那一步生效，目标点取 aim)
+}
+
+// 一个模拟步内所有玩家的输入，按玩家 id 索引
+export type InputFrame = Record<string, PlayerInput>;
@@ -20,6 +20,15 @@ export const distToSegment = (p: Vector2, v: Vector2, w: Vector2): number => {
   return dist(p, projection);
 };
 
+// Mulberry32 伪随机数：输入 32 位状态，返回 [0, 1) 的随机数与下一个状态
+export const nextRandom = (rngState: number): [number, number] => {
+  const next = (rngState + 0x6D2B79F5) | 0;
+  let t = next;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return [((t ^ (t >>> 14)) >>> 0) / 4294967296, next];
+};
+
 export const clamp = (val: number, min: number, max: number) => Math.min(Math.max(val, min), max);
 
 export const checkCircleRectCollision = (circlePos: Vector2, radius: number, rect: { x: number, y: number, width: number, height: number }) => {